@@ -0,0 +1,187 @@
+/**
+ * Impersonation Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Request, Response } from 'express';
+import { AdminService } from '../admin.service';
+import { AuthService } from '../../auth/auth.service';
+import { impersonationService } from '../../../shared/services/impersonation.service';
+import { authenticateJWT, requireSessionToken } from '../../../shared/middleware/auth';
+import { verifyToken } from '../../../shared/utils/jwt';
+import { tokenRevocationService } from '../../../shared/services/token-revocation.service';
+import type { AccessTokenPayload } from '../../../shared/utils/jwt';
+import { db } from '../../../shared/db/client';
+
+// Users and impersonation sessions live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+vi.mock('../../email/email.service', () => ({
+  EmailService: vi.fn().mockImplementation(() => ({ sendEmail: vi.fn() })),
+}));
+
+describe('Impersonation', () => {
+  let service: AdminService;
+  let admin: AccessTokenPayload;
+  let targetUserId: string;
+  let res: any;
+  let next: any;
+  let consoleSpy: any;
+  let consoleErrorSpy: any;
+
+  /**
+   * Run authenticateJWT with a bearer token, then finish the response
+   */
+  const request = async (token: string, method: string, url: string): Promise<Request> => {
+    const req = {
+      headers: { authorization: `Bearer ${token}` },
+      socket: { remoteAddress: '198.51.100.4' },
+      method,
+      originalUrl: url,
+    } as any;
+    await authenticateJWT(req, res as Response, next);
+    for (const [event, listener] of res.on.mock.calls) {
+      if (event === 'finish') listener();
+    }
+    res.on.mockClear();
+    return req;
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    service = new AdminService();
+    const adminUser = await db.users.create({
+      email: `admin-${crypto.randomUUID()}@example.com`,
+      passwordHash: 'hash',
+      name: 'Support Admin',
+      isSuperAdmin: true,
+    });
+    admin = { userId: adminUser.id, email: adminUser.email, authProvider: 'inhouse', isSuperAdmin: true, mfa: true };
+    const target = await db.users.create({
+      email: `target-${crypto.randomUUID()}@example.com`,
+      passwordHash: 'hash',
+      name: 'Customer',
+    });
+    targetUserId = target.id;
+    res = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+      on: vi.fn(),
+      statusCode: 200,
+    };
+    next = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    consoleSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should issue a time-boxed token for the user that names the impersonator', async () => {
+    const { token, expiresIn, impersonation } = await service.startImpersonation(
+      admin,
+      targetUserId,
+      { reason: 'Ticket #4521', durationMinutes: 20 },
+      { ipAddress: '203.0.113.9' }
+    );
+
+    const payload = verifyToken(token);
+    expect(expiresIn).toBe(20 * 60);
+    expect(payload.exp! - payload.iat!).toBe(20 * 60);
+    expect(payload).toMatchObject({
+      userId: targetUserId,
+      impersonationId: impersonation.id,
+      impersonatorId: admin.userId,
+      impersonatorEmail: admin.email,
+      mfa: true,
+    });
+    expect(payload.isSuperAdmin).toBeUndefined();
+    expect(impersonation).toMatchObject({ reason: 'Ticket #4521', ipAddress: '203.0.113.9', endedAt: null });
+  });
+
+  it('should refuse impersonating yourself or another super admin', async () => {
+    const otherAdmin = await db.users.create({
+      email: `admin-${crypto.randomUUID()}@example.com`,
+      passwordHash: 'hash',
+      name: 'Other Admin',
+      isSuperAdmin: true,
+    });
+    const dto = { reason: 'Testing', durationMinutes: 30 };
+
+    await expect(service.startImpersonation(admin, admin.userId, dto, {})).rejects.toThrow(
+      'Cannot impersonate yourself'
+    );
+    await expect(service.startImpersonation(admin, otherAdmin.id, dto, {})).rejects.toThrow(
+      'Cannot impersonate a super admin'
+    );
+    await expect(service.startImpersonation(admin, crypto.randomUUID(), dto, {})).rejects.toThrow('User not found');
+  });
+
+  it('should show the banner, block dangerous actions and log every request', async () => {
+    const { token, impersonation } = await service.startImpersonation(
+      admin,
+      targetUserId,
+      { reason: 'Ticket #4521', durationMinutes: 30 },
+      {}
+    );
+
+    const req = await request(token, 'GET', '/api/users/me');
+    expect(await impersonationService.getBanner(req.user!)).toMatchObject({
+      impersonationId: impersonation.id,
+      impersonator: { id: admin.userId, email: admin.email, name: 'Support Admin' },
+      reason: 'Ticket #4521',
+    });
+
+    res.statusCode = 403;
+    const blocked = await request(token, 'POST', '/api/users/me/change-password');
+    requireSessionToken(blocked, res as Response, next);
+    expect(res.json).toHaveBeenLastCalledWith(
+      expect.objectContaining({ code: 'ERR_AUTH_012', message: 'This action is not allowed while impersonating' })
+    );
+    expect(next).toHaveBeenCalledTimes(2); // Only authenticateJWT
+
+    // Logs are written once the response has finished
+    await vi.waitFor(async () => {
+      const { requests } = await service.getImpersonation(impersonation.id);
+      expect(requests.map((r) => [r.method, r.path, r.statusCode, r.ipAddress])).toEqual([
+        ['POST', '/api/users/me/change-password', 403, '198.51.100.4'],
+        ['GET', '/api/users/me', 200, '198.51.100.4'],
+      ]);
+    });
+  });
+
+  it('should end the impersonation on logout and revoke its token', async () => {
+    const { token, impersonation } = await service.startImpersonation(
+      admin,
+      targetUserId,
+      { reason: 'Ticket #4521', durationMinutes: 30 },
+      {}
+    );
+
+    vi.setSystemTime(Date.now() + 2000);
+    await new AuthService().logout(verifyToken(token));
+
+    await request(token, 'GET', '/api/users/me');
+    expect(res.json).toHaveBeenLastCalledWith(expect.objectContaining({ message: 'Token revoked' }));
+    expect((await service.getImpersonation(impersonation.id)).impersonation.endedAt).not.toBeNull();
+    await expect(service.endImpersonation(crypto.randomUUID())).rejects.toThrow('Impersonation not found');
+  });
+
+  it('should keep refusing the token after a user-wide revocation outlives the access token lifetime', async () => {
+    const { token } = await service.startImpersonation(admin, targetUserId, { reason: 'Ticket #4521', durationMinutes: 60 }, {});
+
+    vi.setSystemTime(Date.now() + 2000);
+    await tokenRevocationService.revokeAllForUser(targetUserId, 'password_change');
+
+    vi.setSystemTime(Date.now() + 20 * 60 * 1000);
+    await tokenRevocationService.cleanupExpired();
+
+    await request(token, 'GET', '/api/users/me');
+    expect(res.json).toHaveBeenLastCalledWith(expect.objectContaining({ message: 'Token revoked' }));
+  });
+});
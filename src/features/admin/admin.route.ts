@@ -0,0 +1,191 @@
+import { Router, Request, Response } from 'express';
+import { AdminService } from './admin.service';
+import { authenticateJWT } from '../../shared/middleware/auth';
+import { requireSuperadmin } from '../../shared/middleware/authorize';
+import { ApiResponse } from '../../shared/utils/response';
+import { getClientInfo } from '../../shared/utils/request';
+import { startImpersonationSchema } from './admin.types';
+
+/**
+ * Create Admin Router
+ *
+ * Factory function that creates and configures super admin routes
+ */
+export function createAdminRouter(): Router {
+  const router = Router();
+  const service = new AdminService();
+
+  // Every admin route requires a super admin
+  router.use(authenticateJWT, requireSuperadmin());
+
+  /**
+   * POST /api/admin/users/:userId/revoke-tokens
+   *
+   * Lock a user out by revoking all of their access, refresh and personal access tokens
+   *
+   * @returns {status: 'success', data: {revokedSessions: number, revokedPersonalAccessTokens: number}}
+   */
+  router.post('/users/:userId/revoke-tokens', async (req: Request, res: Response) => {
+    try {
+      const result = await service.revokeUserTokens(req.params.userId);
+
+      console.log(`🔒 Tokens revoked for user ${req.params.userId} by ${req.user!.email}`);
+      return ApiResponse.success(res, result);
+    } catch (error) {
+      console.error('Revoke user tokens error:', error);
+
+      if (error instanceof Error && error.message === 'User not found') {
+        return ApiResponse.notFound(res, 'User not found');
+      }
+
+      return ApiResponse.error(res, 'Failed to revoke tokens', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * GET /api/admin/users/:userId/lockout
+   *
+   * Login lockout state of a user and their lockout events (lockouts, unlocks)
+   *
+   * @returns {status: 'success', data: AccountLockoutStatus}
+   */
+  router.get('/users/:userId/lockout', async (req: Request, res: Response) => {
+    try {
+      const status = await service.getLockoutStatus(req.params.userId);
+
+      return ApiResponse.success(res, status);
+    } catch (error) {
+      console.error('Get lockout status error:', error);
+
+      if (error instanceof Error && error.message === 'User not found') {
+        return ApiResponse.notFound(res, 'User not found');
+      }
+
+      return ApiResponse.error(res, 'Failed to get lockout status', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * POST /api/admin/users/:userId/unlock
+   *
+   * Lift a login lockout before it expires
+   *
+   * @returns {status: 'success', data: {message: string}}
+   */
+  router.post('/users/:userId/unlock', async (req: Request, res: Response) => {
+    try {
+      await service.unlockUser(req.params.userId, req.user!.userId);
+
+      console.log(`🔓 User ${req.params.userId} unlocked by ${req.user!.email}`);
+      return ApiResponse.success(res, { message: 'Account unlocked' });
+    } catch (error) {
+      console.error('Unlock user error:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'User not found') {
+          return ApiResponse.notFound(res, 'User not found');
+        }
+        if (error.message === 'Account is not locked') {
+          return ApiResponse.conflict(res, error.message);
+        }
+      }
+
+      return ApiResponse.error(res, 'Failed to unlock user', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * POST /api/admin/impersonate/:userId
+   *
+   * Act as a user with a time-boxed access token (no refresh token). The token carries
+   * the admin as impersonator, never the super admin flag, and every request made
+   * with it is logged. Signing out with it ends the impersonation.
+   *
+   * @body {reason: string, durationMinutes?: number} - 1-60 minutes, default 30
+   * @returns {status: 'success', data: {token: string, expiresIn: number, impersonation: ImpersonationInfo}}
+   */
+  router.post('/impersonate/:userId', async (req: Request, res: Response) => {
+    try {
+      const validation = startImpersonationSchema.safeParse(req.body);
+      if (!validation.success) {
+        const errors = validation.error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: 'ERR_VALIDATION_003',
+        }));
+        return ApiResponse.validationError(res, errors);
+      }
+
+      const result = await service.startImpersonation(
+        req.user!,
+        req.params.userId,
+        validation.data,
+        getClientInfo(req)
+      );
+
+      return ApiResponse.created(res, result);
+    } catch (error) {
+      console.error('Start impersonation error:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'User not found') {
+          return ApiResponse.notFound(res, 'User not found');
+        }
+        if (error.message === 'Cannot impersonate yourself' || error.message === 'Cannot impersonate a super admin') {
+          return ApiResponse.forbidden(res, error.message);
+        }
+      }
+
+      return ApiResponse.error(res, 'Failed to start impersonation', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * GET /api/admin/impersonations/:id
+   *
+   * An impersonation session and the requests made during it (newest first)
+   *
+   * @returns {status: 'success', data: {impersonation: ImpersonationInfo, requests: ImpersonationRequestInfo[]}}
+   */
+  router.get('/impersonations/:id', async (req: Request, res: Response) => {
+    try {
+      const result = await service.getImpersonation(req.params.id);
+
+      return ApiResponse.success(res, result);
+    } catch (error) {
+      console.error('Get impersonation error:', error);
+
+      if (error instanceof Error && error.message === 'Impersonation not found') {
+        return ApiResponse.notFound(res, error.message);
+      }
+
+      return ApiResponse.error(res, 'Failed to get impersonation', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * DELETE /api/admin/impersonations/:id
+   *
+   * End an impersonation session before it expires; its token stops working
+   *
+   * @returns {status: 'success', data: {impersonation: ImpersonationInfo}}
+   */
+  router.delete('/impersonations/:id', async (req: Request, res: Response) => {
+    try {
+      const impersonation = await service.endImpersonation(req.params.id);
+
+      console.log(`🎭 Impersonation ${req.params.id} ended by ${req.user!.email}`);
+      return ApiResponse.success(res, { impersonation });
+    } catch (error) {
+      console.error('End impersonation error:', error);
+
+      if (error instanceof Error && error.message === 'Impersonation not found') {
+        return ApiResponse.notFound(res, error.message);
+      }
+
+      return ApiResponse.error(res, 'Failed to end impersonation', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,104 @@
+import { db } from '../../shared/db/client';
+import { UsersRepository } from '../../shared/db/repositories/users.repository';
+import { tokenRevocationService } from '../../shared/services/token-revocation.service';
+import { personalAccessTokenService } from '../../shared/services/personal-access-token.service';
+import { impersonationService } from '../../shared/services/impersonation.service';
+import type { AccessTokenPayload } from '../../shared/utils/jwt';
+import type { ClientInfo } from '../../shared/utils/request';
+import { AccountLockoutService } from '../auth/account-lockout.service';
+import type { AccountLockoutStatus } from '../auth/auth.types';
+import type { StartImpersonationDTO, ImpersonationInfo, ImpersonationRequestInfo } from './admin.types';
+
+/**
+ * Admin Service
+ *
+ * Platform administration actions performed by super admins
+ */
+export class AdminService {
+  private usersRepo: UsersRepository;
+  private lockoutService: AccountLockoutService;
+
+  constructor() {
+    this.usersRepo = new UsersRepository(db);
+    this.lockoutService = new AccountLockoutService();
+  }
+
+  /**
+   * Revoke every access and refresh token and personal access token of a user (lockout)
+   *
+   * Takes effect on the user's next request; they must sign in again.
+   *
+   * @param userId - User to lock out
+   * @returns Number of sessions and personal access tokens revoked
+   * @throws Error if the user does not exist
+   */
+  async revokeUserTokens(userId: string): Promise<{ revokedSessions: number; revokedPersonalAccessTokens: number }> {
+    const user = await this.usersRepo.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const revokedSessions = await tokenRevocationService.revokeAllForUser(userId, 'admin');
+    const revokedPersonalAccessTokens = await personalAccessTokenService.revokeAllForUser(userId);
+    return { revokedSessions, revokedPersonalAccessTokens };
+  }
+
+  /**
+   * Get a user's login lockout state and lockout history
+   *
+   * @param userId - User to inspect
+   * @throws Error if the user does not exist
+   */
+  async getLockoutStatus(userId: string): Promise<AccountLockoutStatus> {
+    return this.lockoutService.getStatus(userId);
+  }
+
+  /**
+   * Lift a login lockout before it expires
+   *
+   * @param userId - Locked user
+   * @param adminId - Super admin performing the unlock (recorded for auditing)
+   * @throws Error if the user does not exist or is not locked
+   */
+  async unlockUser(userId: string, adminId: string): Promise<void> {
+    await this.lockoutService.unlockByAdmin(userId, adminId);
+  }
+
+  /**
+   * Start impersonating a user with a time-boxed token
+   *
+   * @param admin - Verified token of the super admin
+   * @param userId - User to impersonate
+   * @param dto - Reason (recorded) and duration
+   * @param clientInfo - Admin's IP address
+   * @throws Error if the user does not exist, is the admin or another super admin
+   */
+  async startImpersonation(
+    admin: AccessTokenPayload,
+    userId: string,
+    dto: StartImpersonationDTO,
+    clientInfo: ClientInfo
+  ): Promise<{ token: string; expiresIn: number; impersonation: ImpersonationInfo }> {
+    return impersonationService.start(admin, userId, dto, clientInfo);
+  }
+
+  /**
+   * Get an impersonation session and the requests made during it
+   *
+   * @throws Error if the session does not exist
+   */
+  async getImpersonation(
+    impersonationId: string
+  ): Promise<{ impersonation: ImpersonationInfo; requests: ImpersonationRequestInfo[] }> {
+    return impersonationService.get(impersonationId);
+  }
+
+  /**
+   * End an impersonation session early, revoking its token
+   *
+   * @throws Error if the session does not exist
+   */
+  async endImpersonation(impersonationId: string): Promise<ImpersonationInfo> {
+    return impersonationService.end(impersonationId, 'admin');
+  }
+}
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { IMPERSONATION_MAX_TTL_SECONDS } from '../../shared/utils/jwt';
+
+/**
+ * Start impersonating a user
+ */
+export const startImpersonationSchema = z
+  .object({
+    reason: z.string().trim().min(1, 'Reason is required').max(500),
+    durationMinutes: z.number().int().min(1).max(IMPERSONATION_MAX_TTL_SECONDS / 60).default(30),
+  })
+  .strict();
+
+export type StartImpersonationDTO = z.infer<typeof startImpersonationSchema>;
+
+/**
+ * Impersonation session as returned to super admins
+ */
+export interface ImpersonationInfo {
+  id: string;
+  impersonatorId: string;
+  targetUserId: string;
+  reason: string;
+  ipAddress: string | null;
+  expiresAt: string;
+  endedAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Request made while impersonating
+ */
+export interface ImpersonationRequestInfo {
+  method: string;
+  path: string;
+  statusCode: number;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+/**
+ * Banner shown to the impersonator in `/api/users/me`
+ */
+export interface ImpersonationBanner {
+  impersonationId: string;
+  impersonator: { id: string; email: string; name: string };
+  reason: string;
+  startedAt: string;
+  expiresAt: string;
+}
@@ -0,0 +1,157 @@
+/**
+ * Account Lockout Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuthService } from '../auth.service';
+import { AccountLockoutService } from '../account-lockout.service';
+import { AdminService } from '../../admin/admin.service';
+import { ThrottledError } from '../../../shared/utils/throttle';
+
+// Users and lockouts live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+const sendEmail = vi.fn();
+vi.mock('../../email/email.service', () => ({
+  EmailService: vi.fn().mockImplementation(() => ({ sendEmail })),
+}));
+
+describe('Account lockout', () => {
+  let service: AuthService;
+  let lockoutService: AccountLockoutService;
+  let email: string;
+  let userId: string;
+  let ipAddress: string;
+  let consoleSpy: any;
+  let consoleErrorSpy: any;
+
+  const password = 'Password123';
+
+  /**
+   * Fail a number of logins, waiting out the progressive delay before each
+   */
+  const failLogins = async (count: number) => {
+    for (let i = 0; i < count; i++) {
+      vi.setSystemTime(Date.now() + 31 * 1000);
+      await expect(service.login({ email, password: 'WrongPassword1' }, { ipAddress })).rejects.toThrow(
+        'Invalid credentials'
+      );
+    }
+  };
+
+  /**
+   * Lock the account and return the token from the unlock email
+   */
+  const lockAccount = async (): Promise<string> => {
+    await failLogins(10);
+    const unlockUrl = sendEmail.mock.calls.at(-1)![0].templateData.unlockUrl as string;
+    return new URL(unlockUrl).searchParams.get('token')!;
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    sendEmail.mockReset();
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    service = new AuthService();
+    lockoutService = new AccountLockoutService();
+    email = `lockout-${crypto.randomUUID()}@example.com`;
+    ipAddress = `10.${[0, 0, 0].map(() => Math.floor(Math.random() * 256)).join('.')}`; // Unique per test
+    const result = await service.register({ email, password, name: 'Lockout User' });
+    userId = result.user.id;
+    sendEmail.mockClear(); // Ignore the verification email sent on registration
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    consoleSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should delay attempts progressively after repeated failures', async () => {
+    await failLogins(3);
+
+    const error = await service.login({ email, password }).catch((e) => e);
+    expect(error).toBeInstanceOf(ThrottledError);
+    expect(error.message).toBe('Too many failed login attempts, try again later');
+    expect(error.retryAfterSeconds).toBe(2);
+
+    vi.setSystemTime(Date.now() + 2000);
+    await expect(service.login({ email, password })).resolves.toHaveProperty('token');
+  });
+
+  it('should lock the account and email an unlock link', async () => {
+    await lockAccount();
+
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ templateName: 'account-locked', toAddress: email })
+    );
+
+    // Even the correct password is refused while locked
+    const error = await service.login({ email, password }).catch((e) => e);
+    expect(error).toBeInstanceOf(ThrottledError);
+    expect(error.message).toBe('Account temporarily locked');
+    expect(error.retryAfterSeconds).toBe(15 * 60);
+
+    const status = await lockoutService.getStatus(userId);
+    expect(status.locked).toBe(true);
+    expect(status.events).toEqual([expect.objectContaining({ event: 'account_locked', ipAddress })]);
+  });
+
+  it('should unlock the account with the emailed token once', async () => {
+    const token = await lockAccount();
+
+    await service.unlockAccount(token);
+
+    await expect(service.login({ email, password })).resolves.toHaveProperty('token');
+    await expect(service.unlockAccount(token)).rejects.toThrow('Invalid or expired unlock link');
+    expect((await lockoutService.getStatus(userId)).events[0].event).toBe('unlocked_by_email');
+  });
+
+  it('should double the lock period for a repeated lockout', async () => {
+    const token = await lockAccount();
+    await service.unlockAccount(token);
+
+    await lockAccount();
+
+    const error = await service.login({ email, password }).catch((e) => e);
+    expect(error.retryAfterSeconds).toBe(30 * 60);
+  });
+
+  it('should unlock automatically once the lock expires', async () => {
+    await lockAccount();
+
+    vi.setSystemTime(Date.now() + 15 * 60 * 1000);
+
+    await expect(service.login({ email, password })).resolves.toHaveProperty('token');
+    expect((await lockoutService.getStatus(userId)).failedAttempts).toBe(0);
+  });
+
+  it('should let super admins unlock an account and record who did', async () => {
+    const adminService = new AdminService();
+    const adminId = crypto.randomUUID();
+
+    await expect(adminService.unlockUser(userId, adminId)).rejects.toThrow('Account is not locked');
+
+    await lockAccount();
+    await adminService.unlockUser(userId, adminId);
+
+    const status = await adminService.getLockoutStatus(userId);
+    expect(status.locked).toBe(false);
+    expect(status.events[0]).toMatchObject({ event: 'unlocked_by_admin', actorId: adminId });
+    await expect(service.login({ email, password })).resolves.toHaveProperty('token');
+  });
+
+  it('should block an IP address after too many failures across accounts', async () => {
+    for (let i = 0; i < 50; i++) {
+      await expect(
+        service.login({ email: `unknown-${i}-${crypto.randomUUID()}@example.com`, password }, { ipAddress })
+      ).rejects.toThrow('Invalid credentials');
+    }
+
+    await expect(service.login({ email, password }, { ipAddress })).rejects.toBeInstanceOf(ThrottledError);
+    await expect(service.login({ email, password }, { ipAddress: '203.0.113.1' })).resolves.toHaveProperty('token');
+  });
+});
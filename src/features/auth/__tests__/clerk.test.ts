@@ -0,0 +1,260 @@
+/**
+ * Clerk Provider Tests
+ *
+ * Session tokens are signed by a local stub issuer; webhooks are signed
+ * the way Svix signs them
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createHmac, randomBytes } from 'crypto';
+import { AuthService } from '../auth.service';
+import { ClerkWebhookService, type ClerkWebhookEvent } from '../clerk-webhook.service';
+import { AuthProviderFactory } from '../providers/auth-provider.factory';
+import { db } from '../../../shared/db/client';
+import { verifyToken } from '../../../shared/utils/jwt';
+import { tokenRevocationService } from '../../../shared/services/token-revocation.service';
+import { personalAccessTokenService } from '../../../shared/services/personal-access-token.service';
+import { CompaniesService } from '../../companies/companies.service';
+import { OidcStubIssuer } from './helpers/oidc-stub-issuer';
+
+// shared-types is not built in this workspace; only runtime enums are needed
+vi.mock('@vertical-vibing/shared-types', () => ({
+  CompanyRole: { OWNER: 'owner', ADMIN: 'admin', MEMBER: 'member' },
+  PlanTier: { FREE: 'free', STARTER: 'starter', PRO: 'pro', ENTERPRISE: 'enterprise' },
+  SubscriptionStatus: { ACTIVE: 'active', CANCELED: 'canceled' },
+}));
+
+// Users live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+// IAM tables are PostgreSQL-only in the app; use the in-memory implementation
+vi.mock('../../../shared/db/repositories/iam.repository', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../shared/db/repositories/iam.repository')>();
+  const iamDb = new actual.InMemoryIAMDatabase();
+  return { ...actual, iamDb, getIAMDb: () => iamDb };
+});
+
+vi.mock('../../email/compliance.service', () => ({
+  ComplianceService: vi.fn().mockImplementation(() => ({
+    erasePersonalData: vi.fn().mockResolvedValue({ emailLogsPseudonymized: 0, unsubscribePreferencesRemoved: 0 }),
+  })),
+}));
+
+vi.mock('../../email/email.service', () => ({
+  EmailService: vi.fn().mockImplementation(() => ({ sendEmail: vi.fn() })),
+}));
+
+const WEBHOOK_SECRET = `whsec_${randomBytes(24).toString('base64')}`;
+const FRONTEND_ORIGIN = 'http://localhost:3001';
+
+/**
+ * Sign a webhook body like Svix does
+ */
+function signWebhook(body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const id = `msg_${randomBytes(8).toString('hex')}`;
+  const signature = createHmac('sha256', Buffer.from(WEBHOOK_SECRET.slice('whsec_'.length), 'base64'))
+    .update(`${id}.${timestamp}.${body}`)
+    .digest('base64');
+
+  return { id, timestamp: String(timestamp), signature: `v1,${signature}` };
+}
+
+describe('Clerk auth provider', () => {
+  const clerk = new OidcStubIssuer();
+  let webhooks: ClerkWebhookService;
+  let clerkUserId: string;
+  let email: string;
+  let consoleSpy: any;
+
+  const userEvent = (type: string, data: Partial<ClerkWebhookEvent['data']> = {}): ClerkWebhookEvent => ({
+    type,
+    data: {
+      id: clerkUserId,
+      email_addresses: [{ id: 'idn_1', email_address: email, verification: { status: 'verified' } }],
+      primary_email_address_id: 'idn_1',
+      first_name: 'Katherine',
+      last_name: 'Johnson',
+      image_url: 'https://img.clerk.com/kj.png',
+      ...data,
+    },
+  });
+
+  const sessionToken = (claims: Record<string, unknown> = {}) =>
+    clerk.signIdToken({ sub: clerkUserId, sid: 'sess_1', azp: FRONTEND_ORIGIN, fva: [0, -1], ...claims });
+
+  beforeAll(async () => {
+    await clerk.start();
+    process.env.AUTH_PROVIDER = 'clerk';
+    process.env.CLERK_ISSUER = clerk.issuer;
+    process.env.CLERK_JWKS_URL = `${clerk.issuer}/jwks`;
+    process.env.CLERK_AUTHORIZED_PARTIES = FRONTEND_ORIGIN;
+  });
+
+  afterAll(async () => {
+    delete process.env.AUTH_PROVIDER;
+    delete process.env.CLERK_ISSUER;
+    delete process.env.CLERK_JWKS_URL;
+    delete process.env.CLERK_AUTHORIZED_PARTIES;
+    AuthProviderFactory.reset();
+    await clerk.stop();
+  });
+
+  beforeEach(() => {
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    AuthProviderFactory.reset();
+    webhooks = new ClerkWebhookService(WEBHOOK_SECRET);
+    clerkUserId = `user_${randomBytes(12).toString('hex')}`;
+    email = `clerk-${clerkUserId}@example.com`;
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  describe('webhook signature', () => {
+    it('should accept a correctly signed event', () => {
+      const body = JSON.stringify(userEvent('user.created'));
+
+      expect(webhooks.verifyEvent(Buffer.from(body), signWebhook(body)).data.id).toBe(clerkUserId);
+    });
+
+    it('should reject tampered, stale or unsigned events', () => {
+      const body = JSON.stringify(userEvent('user.created'));
+      const tampered = body.replace(email, 'attacker@example.com');
+      const stale = signWebhook(body, Math.floor(Date.now() / 1000) - 10 * 60);
+
+      expect(() => webhooks.verifyEvent(Buffer.from(tampered), signWebhook(body))).toThrow('Invalid webhook signature');
+      expect(() => webhooks.verifyEvent(Buffer.from(body), stale)).toThrow('Invalid webhook signature');
+      expect(() => webhooks.verifyEvent(Buffer.from(body), {})).toThrow('Invalid webhook signature');
+    });
+  });
+
+  describe('user sync', () => {
+    it('should create the user and apply updates idempotently', async () => {
+      expect(await webhooks.handleEvent(userEvent('user.created'))).toBe('synced');
+      expect(await webhooks.handleEvent(userEvent('user.created'))).toBe('synced');
+
+      const user = await db.users.findByExternalId('clerk', clerkUserId);
+      expect(user).toMatchObject({
+        email,
+        name: 'Katherine Johnson',
+        authProvider: 'clerk',
+        passwordHash: null,
+        emailVerified: true,
+        externalMetadata: { picture: 'https://img.clerk.com/kj.png' },
+      });
+
+      await webhooks.handleEvent(userEvent('user.updated', { first_name: 'Kate' }));
+
+      expect((await db.users.findById(user!.id))!.name).toBe('Kate Johnson');
+    });
+
+    it('should not take over an existing account with the same email', async () => {
+      await db.users.create({ email, passwordHash: 'hash', name: 'Local User' });
+
+      await expect(webhooks.handleEvent(userEvent('user.created'))).rejects.toThrow(
+        'Email already registered with another sign-in method'
+      );
+    });
+
+    it('should ignore users without an email address', async () => {
+      expect(await webhooks.handleEvent(userEvent('user.created', { email_addresses: [] }))).toBe('ignored');
+      expect(await db.users.findByExternalId('clerk', clerkUserId)).toBeNull();
+    });
+
+    it('should erase the user, sign them out and hand over their companies', async () => {
+      await webhooks.handleEvent(userEvent('user.created'));
+      const { token } = await new AuthService().exchangeExternalSession({ sessionToken: sessionToken() });
+      const user = (await db.users.findByExternalId('clerk', clerkUserId))!;
+      const colleague = await db.users.create({ email: `colleague-${clerkUserId}@example.com`, name: 'Colleague' });
+      const company = await new CompaniesService().createCompany({ name: 'Acme', slug: `acme-${clerkUserId}`, ownerId: user.id });
+      await db.companyMembers.create({
+        id: crypto.randomUUID(),
+        companyId: company.id,
+        userId: colleague.id,
+        role: 'member',
+        joinedAt: new Date(),
+      });
+      const { token: personalAccessToken } = await personalAccessTokenService.create(user.id, {
+        name: 'CI',
+        scopes: ['*'],
+        expiresInDays: null,
+      });
+
+      expect(await webhooks.handleEvent({ type: 'user.deleted', data: { id: clerkUserId, deleted: true } })).toBe(
+        'deleted'
+      );
+      expect(await webhooks.handleEvent({ type: 'user.deleted', data: { id: clerkUserId, deleted: true } })).toBe(
+        'ignored'
+      );
+      expect(await db.users.findByExternalId('clerk', clerkUserId)).toBeNull();
+
+      expect(await tokenRevocationService.isRevoked(verifyToken(token))).toBe(true);
+      await expect(personalAccessTokenService.authenticate(personalAccessToken)).rejects.toThrow('Invalid token');
+      expect(await db.companyMembers.findByCompanyAndUser(company.id, user.id)).toBeNull();
+      expect(await db.companyMembers.findByCompanyAndUser(company.id, colleague.id)).toMatchObject({ role: 'owner' });
+    });
+
+    it('should keep the user when a company they own has no other member', async () => {
+      const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      await webhooks.handleEvent(userEvent('user.created'));
+      const user = (await db.users.findByExternalId('clerk', clerkUserId))!;
+      await new CompaniesService().createCompany({ name: 'Solo', slug: `solo-${clerkUserId}`, ownerId: user.id });
+
+      expect(await webhooks.handleEvent({ type: 'user.deleted', data: { id: clerkUserId, deleted: true } })).toBe(
+        'ignored'
+      );
+
+      expect(await db.users.findById(user.id)).not.toBeNull();
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('blocked'));
+      consoleWarnSpy.mockRestore();
+    });
+  });
+
+  describe('session token exchange', () => {
+    it('should issue our tokens for a synced user', async () => {
+      await webhooks.handleEvent(userEvent('user.created'));
+
+      const result = await new AuthService().exchangeExternalSession({ sessionToken: sessionToken() });
+
+      expect(result.user.email).toBe(email);
+      expect(verifyToken(result.token).mfa).toBeUndefined();
+    });
+
+    it('should flag the session as MFA when a second factor was verified', async () => {
+      await webhooks.handleEvent(userEvent('user.created'));
+
+      const result = await new AuthService().exchangeExternalSession({ sessionToken: sessionToken({ fva: [0, 0] }) });
+
+      expect(verifyToken(result.token).mfa).toBe(true);
+    });
+
+    it('should reject tokens for another origin or issuer', async () => {
+      await webhooks.handleEvent(userEvent('user.created'));
+      const service = new AuthService();
+
+      await expect(
+        service.exchangeExternalSession({ sessionToken: sessionToken({ azp: 'https://evil.example.com' }) })
+      ).rejects.toThrow('Invalid session token');
+      await expect(
+        service.exchangeExternalSession({
+          sessionToken: clerk.signIdToken({ sub: clerkUserId }, { issuer: 'https://evil.example.com' }),
+        })
+      ).rejects.toThrow('Invalid session token');
+    });
+
+    it('should require the webhook to have synced the user', async () => {
+      await expect(new AuthService().exchangeExternalSession({ sessionToken: sessionToken() })).rejects.toThrow(
+        'User not found'
+      );
+    });
+  });
+
+  it('should reject password login', async () => {
+    await expect(new AuthService().login({ email, password: 'Password123' })).rejects.toThrow(
+      'Sign in with your identity provider'
+    );
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Cognito Provider Tests
+ *
+ * Runs sign-up, confirmation, login, reset and refresh against a local mock
+ * of the Cognito user pool API
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { AuthService } from '../auth.service';
+import { AuthProviderFactory } from '../providers/auth-provider.factory';
+import { CognitoAuthProvider } from '../providers/cognito/cognito-auth.provider';
+import { db } from '../../../shared/db/client';
+import { CognitoMock } from './helpers/cognito-mock';
+
+// Users live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+const sendEmail = vi.fn();
+vi.mock('../../email/email.service', () => ({
+  EmailService: vi.fn().mockImplementation(() => ({ sendEmail })),
+}));
+
+describe('Cognito auth provider', () => {
+  const pool = new CognitoMock();
+  let authService: AuthService;
+  let email: string;
+  let consoleSpy: any;
+
+  /**
+   * Register and confirm a user
+   */
+  const registerConfirmed = async () => {
+    const registered = await authService.register({ email, password: 'Password123', name: 'Grace Hopper' });
+    await authService.verifyEmail(pool.codes.get(email)!, email);
+    return registered;
+  };
+
+  beforeAll(async () => {
+    await pool.start();
+    process.env.AUTH_PROVIDER = 'cognito';
+    process.env.COGNITO_USER_POOL_ID = pool.userPoolId;
+    process.env.COGNITO_CLIENT_ID = pool.clientId;
+    process.env.COGNITO_ENDPOINT = pool.endpoint;
+  });
+
+  afterAll(async () => {
+    delete process.env.AUTH_PROVIDER;
+    delete process.env.COGNITO_USER_POOL_ID;
+    delete process.env.COGNITO_CLIENT_ID;
+    delete process.env.COGNITO_ENDPOINT;
+    AuthProviderFactory.reset();
+    await pool.stop();
+  });
+
+  beforeEach(() => {
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    sendEmail.mockClear();
+    AuthProviderFactory.reset();
+    authService = new AuthService();
+    email = `cognito-${crypto.randomUUID()}@example.com`;
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  describe('register', () => {
+    it('should sign up in the pool and mirror the user by sub', async () => {
+      const result = await authService.register({ email, password: 'Password123', name: 'Grace Hopper' });
+
+      const user = await db.users.findById(result.user.id);
+      expect(user).toMatchObject({
+        email,
+        name: 'Grace Hopper',
+        authProvider: 'cognito',
+        externalId: pool.getUser(email)!.sub,
+        passwordHash: null,
+        emailVerified: false,
+      });
+      // Cognito sends the confirmation code itself
+      expect(pool.codes.get(email)).toBeTruthy();
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should map pool errors', async () => {
+      await authService.register({ email, password: 'Password123', name: 'Grace Hopper' });
+
+      await expect(authService.register({ email, password: 'Password123', name: 'Again' })).rejects.toThrow(
+        'Email already registered'
+      );
+      await expect(
+        authService.register({ email: `weak-${email}`, password: 'short', name: 'Weak' })
+      ).rejects.toThrow('Password does not meet the requirements');
+    });
+  });
+
+  describe('email verification', () => {
+    it('should confirm the sign-up code and mark the mirrored user verified', async () => {
+      const { user } = await registerConfirmed();
+
+      expect(pool.getUser(email)!.confirmed).toBe(true);
+      expect((await db.users.findById(user.id))!.emailVerified).toBe(true);
+    });
+
+    it('should reject a wrong code or a missing email', async () => {
+      await authService.register({ email, password: 'Password123', name: 'Grace Hopper' });
+
+      await expect(authService.verifyEmail('000000', email)).rejects.toThrow('Invalid or expired verification token');
+      await expect(authService.verifyEmail(pool.codes.get(email)!)).rejects.toThrow(
+        'Email is required to confirm this code'
+      );
+    });
+  });
+
+  describe('login', () => {
+    it('should refuse unconfirmed users', async () => {
+      await authService.register({ email, password: 'Password123', name: 'Grace Hopper' });
+
+      await expect(authService.login({ email, password: 'Password123' })).rejects.toThrow('Email not verified');
+    });
+
+    it('should issue a session for the mirrored user', async () => {
+      const { user } = await registerConfirmed();
+
+      const result = await authService.login({ email, password: 'Password123' });
+
+      expect('token' in result && result.user.id).toBe(user.id);
+    });
+
+    it('should mirror users created directly in the pool on first login', async () => {
+      const sub = pool.addUser(email, 'Password123', 'Pool Admin');
+
+      const result = await authService.login({ email, password: 'Password123' });
+
+      expect(await db.users.findById(result.user.id)).toMatchObject({
+        externalId: sub,
+        authProvider: 'cognito',
+        emailVerified: true,
+      });
+    });
+
+    it('should reject wrong passwords and unknown users alike', async () => {
+      await registerConfirmed();
+
+      await expect(authService.login({ email, password: 'WrongPassword1' })).rejects.toThrow('Invalid credentials');
+      await expect(authService.login({ email: `nobody-${email}`, password: 'Password123' })).rejects.toThrow(
+        'Invalid credentials'
+      );
+    });
+  });
+
+  describe('password reset', () => {
+    it('should reset the password with the emailed code and revoke sessions', async () => {
+      const { refreshToken } = await registerConfirmed();
+
+      await authService.forgotPassword(email);
+      await authService.resetPassword({ token: pool.codes.get(email)!, newPassword: 'NewPassword123', email });
+
+      await expect(authService.refresh(refreshToken)).rejects.toThrow();
+      await expect(authService.login({ email, password: 'NewPassword123' })).resolves.toBeTruthy();
+    });
+
+    it('should not reveal unknown emails', async () => {
+      await expect(authService.forgotPassword(`nobody-${email}`)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('tokens', () => {
+    it('should validate pool ID tokens against the mirrored user', async () => {
+      const { user } = await registerConfirmed();
+      const provider = new CognitoAuthProvider();
+      const { idToken } = pool.issueTokensFor(email);
+
+      expect(await provider.validateToken(idToken)).toMatchObject({ valid: true, userId: user.id });
+      expect(await provider.validateToken('not-a-token')).toMatchObject({ valid: false });
+    });
+
+    it('should exchange Cognito refresh tokens', async () => {
+      await registerConfirmed();
+      const provider = new CognitoAuthProvider();
+      const { refreshToken } = pool.issueTokensFor(email);
+
+      expect(await provider.refreshToken(refreshToken)).toMatchObject({ externalId: pool.getUser(email)!.sub, email });
+      await expect(provider.refreshToken('revoked-token')).rejects.toThrow('Invalid credentials');
+    });
+  });
+});
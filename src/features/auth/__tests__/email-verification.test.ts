@@ -0,0 +1,80 @@
+/**
+ * Email Verification Flow Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuthService } from '../auth.service';
+import { db } from '../../../shared/db/client';
+import { ThrottledError } from '../../../shared/utils/throttle';
+
+// Users and tokens live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+const sendEmail = vi.fn();
+vi.mock('../../email/email.service', () => ({
+  EmailService: vi.fn().mockImplementation(() => ({ sendEmail })),
+}));
+
+describe('Email verification', () => {
+  let service: AuthService;
+  let userId: string;
+  let consoleSpy: any;
+
+  /**
+   * Get the token from the most recent verification email
+   */
+  const lastVerificationToken = (): string => {
+    const verificationUrl = sendEmail.mock.calls.at(-1)![0].templateData.verificationUrl as string;
+    return new URL(verificationUrl).searchParams.get('token')!;
+  };
+
+  beforeEach(async () => {
+    sendEmail.mockReset();
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    service = new AuthService();
+    const result = await service.register({
+      email: `verify-${crypto.randomUUID()}@example.com`,
+      password: 'Password123',
+      name: 'Verify User',
+    });
+    userId = result.user.id;
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it('should send the email-verification template on registration', () => {
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ templateName: 'email-verification' })
+    );
+  });
+
+  it('should mark the email as verified', async () => {
+    await service.verifyEmail(lastVerificationToken());
+
+    const user = await db.users.findById(userId);
+    expect(user?.emailVerified).toBe(true);
+  });
+
+  it('should reject a verification token that was already used', async () => {
+    const token = lastVerificationToken();
+    await service.verifyEmail(token);
+
+    await expect(service.verifyEmail(token)).rejects.toThrow('Invalid or expired verification token');
+  });
+
+  it('should throttle resends', async () => {
+    await expect(service.resendVerificationEmail(userId)).resolves.toBeUndefined();
+
+    await expect(service.resendVerificationEmail(userId)).rejects.toBeInstanceOf(ThrottledError);
+  });
+
+  it('should not resend to verified users', async () => {
+    await service.verifyEmail(lastVerificationToken());
+
+    await expect(service.resendVerificationEmail(userId)).rejects.toThrow('Email already verified');
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Local Cognito User Pool Mock
+ *
+ * Implements the public app client API operations used by CognitoAuthProvider
+ * (JSON protocol with X-Amz-Target) plus the pool's OIDC discovery document
+ * and JWKS. Confirmation and reset codes are exposed instead of emailed.
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { generateKeyPairSync, randomBytes, randomUUID, type KeyObject } from 'crypto';
+
+interface MockUser {
+  sub: string;
+  email: string;
+  name: string;
+  password: string;
+  confirmed: boolean;
+}
+
+export class CognitoMock {
+  readonly userPoolId = 'us-east-1_TestPool';
+  readonly clientId = 'test-app-client';
+  endpoint = '';
+  /** Last confirmation/reset code sent per email */
+  readonly codes: Map<string, string> = new Map();
+  private users: Map<string, MockUser> = new Map(); // email -> user
+  private refreshTokens: Map<string, string> = new Map(); // token -> email
+  private accessTokens: Map<string, string> = new Map(); // token -> email
+  private server: http.Server;
+  private privateKey: KeyObject;
+  private publicKey: KeyObject;
+  private readonly kid = randomBytes(8).toString('hex');
+
+  constructor() {
+    ({ privateKey: this.privateKey, publicKey: this.publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 }));
+    this.server = http.createServer((req, res) => this.handle(req, res));
+  }
+
+  get issuer(): string {
+    return `${this.endpoint}/${this.userPoolId}`;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    this.endpoint = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Create a confirmed user directly in the pool (e.g. created by an admin)
+   */
+  addUser(email: string, password: string, name = 'Pool User'): string {
+    const sub = randomUUID();
+    this.users.set(email, { sub, email, name, password, confirmed: true });
+    return sub;
+  }
+
+  getUser(email: string): MockUser | undefined {
+    return this.users.get(email);
+  }
+
+  /**
+   * Issue Cognito tokens for a user (as a hosted UI login would)
+   */
+  issueTokensFor(email: string): { idToken: string; refreshToken: string } {
+    const tokens = this.issueTokens(this.users.get(email)!, true);
+    return { idToken: tokens.IdToken, refreshToken: tokens.RefreshToken! };
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/x-amz-json-1.1' });
+      res.end(JSON.stringify(body));
+    };
+    const fail = (type: string, message = type) => json(400, { __type: type, message });
+
+    if (req.method === 'GET' && req.url === `/${this.userPoolId}/.well-known/openid-configuration`) {
+      return json(200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.endpoint}/oauth2/authorize`,
+        token_endpoint: `${this.endpoint}/oauth2/token`,
+        jwks_uri: `${this.issuer}/.well-known/jwks.json`,
+      });
+    }
+
+    if (req.method === 'GET' && req.url === `/${this.userPoolId}/.well-known/jwks.json`) {
+      return json(200, { keys: [{ ...this.publicKey.export({ format: 'jwk' }), kid: this.kid, use: 'sig', alg: 'RS256' }] });
+    }
+
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const operation = String(req.headers['x-amz-target'] || '').replace('AWSCognitoIdentityProviderService.', '');
+      const body = raw ? JSON.parse(raw) : {};
+      const newCode = (email: string) => {
+        const code = String(100000 + Math.floor(Math.random() * 900000));
+        this.codes.set(email, code);
+      };
+
+      if (body.ClientId !== undefined && body.ClientId !== this.clientId) {
+        return fail('ResourceNotFoundException');
+      }
+
+      switch (operation) {
+        case 'SignUp': {
+          if (this.users.has(body.Username)) return fail('UsernameExistsException');
+          if (String(body.Password).length < 8) return fail('InvalidPasswordException');
+          const sub = randomUUID();
+          const name = body.UserAttributes.find((a: { Name: string }) => a.Name === 'name')?.Value;
+          this.users.set(body.Username, { sub, email: body.Username, name, password: body.Password, confirmed: false });
+          newCode(body.Username);
+          return json(200, { UserSub: sub, UserConfirmed: false });
+        }
+
+        case 'ConfirmSignUp': {
+          const user = this.users.get(body.Username);
+          if (!user) return fail('UserNotFoundException');
+          if (this.codes.get(body.Username) !== body.ConfirmationCode) return fail('CodeMismatchException');
+          user.confirmed = true;
+          this.codes.delete(body.Username);
+          return json(200, {});
+        }
+
+        case 'ResendConfirmationCode': {
+          const user = this.users.get(body.Username);
+          if (!user) return fail('UserNotFoundException');
+          if (user.confirmed) return fail('InvalidParameterException', 'User is already confirmed.');
+          newCode(body.Username);
+          return json(200, { CodeDeliveryDetails: { DeliveryMedium: 'EMAIL' } });
+        }
+
+        case 'InitiateAuth': {
+          const email =
+            body.AuthFlow === 'REFRESH_TOKEN_AUTH'
+              ? this.refreshTokens.get(body.AuthParameters.REFRESH_TOKEN)
+              : body.AuthParameters.USERNAME;
+          const user = email ? this.users.get(email) : undefined;
+          if (!user) return fail(body.AuthFlow === 'REFRESH_TOKEN_AUTH' ? 'NotAuthorizedException' : 'UserNotFoundException');
+          if (body.AuthFlow === 'USER_PASSWORD_AUTH') {
+            if (user.password !== body.AuthParameters.PASSWORD) return fail('NotAuthorizedException');
+            if (!user.confirmed) return fail('UserNotConfirmedException');
+          }
+          return json(200, { AuthenticationResult: this.issueTokens(user, body.AuthFlow !== 'REFRESH_TOKEN_AUTH') });
+        }
+
+        case 'ForgotPassword': {
+          if (!this.users.has(body.Username)) return fail('UserNotFoundException');
+          newCode(body.Username);
+          return json(200, { CodeDeliveryDetails: { DeliveryMedium: 'EMAIL' } });
+        }
+
+        case 'ConfirmForgotPassword': {
+          const user = this.users.get(body.Username);
+          if (!user) return fail('UserNotFoundException');
+          if (this.codes.get(body.Username) !== body.ConfirmationCode) return fail('CodeMismatchException');
+          user.password = body.Password;
+          this.codes.delete(body.Username);
+          return json(200, {});
+        }
+
+        case 'ChangePassword': {
+          const user = this.users.get(this.accessTokens.get(body.AccessToken) || '');
+          if (!user || user.password !== body.PreviousPassword) return fail('NotAuthorizedException');
+          user.password = body.ProposedPassword;
+          return json(200, {});
+        }
+
+        default:
+          return fail('InvalidActionException');
+      }
+    });
+  }
+
+  private issueTokens(user: MockUser, withRefreshToken: boolean) {
+    const accessToken = randomBytes(16).toString('hex');
+    this.accessTokens.set(accessToken, user.email);
+
+    const refreshToken = withRefreshToken ? randomBytes(16).toString('hex') : undefined;
+    if (refreshToken) this.refreshTokens.set(refreshToken, user.email);
+
+    return {
+      IdToken: jwt.sign(
+        {
+          sub: user.sub,
+          email: user.email,
+          email_verified: user.confirmed,
+          name: user.name,
+          token_use: 'id',
+          'cognito:username': user.sub,
+        },
+        this.privateKey,
+        { algorithm: 'RS256', keyid: this.kid, issuer: this.issuer, audience: this.clientId, expiresIn: 3600 }
+      ),
+      AccessToken: accessToken,
+      ...(refreshToken && { RefreshToken: refreshToken }),
+    };
+  }
+}
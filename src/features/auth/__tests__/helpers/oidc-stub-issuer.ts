@@ -0,0 +1,143 @@
+/**
+ * Local Stub OIDC Issuer
+ *
+ * Minimal OpenID Connect provider for tests: discovery document, JWKS and a
+ * token endpoint that enforces PKCE (S256). Codes are issued directly with
+ * authorize() instead of through a login page.
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { createHash, generateKeyPairSync, randomBytes, type KeyObject } from 'crypto';
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  claims: Record<string, unknown>;
+}
+
+export class OidcStubIssuer {
+  readonly clientId = 'test-client';
+  readonly clientSecret = 'test-secret';
+  issuer = '';
+  private server: http.Server;
+  private privateKey!: KeyObject;
+  private publicKey!: KeyObject;
+  private kid = '';
+  private codes: Map<string, PendingCode> = new Map();
+  /** Number of JWKS downloads (to check caching) */
+  jwksRequests = 0;
+
+  constructor() {
+    this.rotateKeys();
+    this.server = http.createServer((req, res) => this.handle(req, res));
+  }
+
+  /**
+   * Start listening on a random local port
+   */
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    this.issuer = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Replace the signing key (new kid)
+   */
+  rotateKeys(): void {
+    ({ privateKey: this.privateKey, publicKey: this.publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 }));
+    this.kid = randomBytes(8).toString('hex');
+  }
+
+  /**
+   * Simulate a successful login at the provider for an authorization URL
+   *
+   * @returns Authorization code and state the provider would redirect with
+   */
+  authorize(authorizationUrl: string, claims: Record<string, unknown>): { code: string; state: string } {
+    const url = new URL(authorizationUrl);
+    const code = randomBytes(16).toString('hex');
+
+    this.codes.set(code, {
+      clientId: url.searchParams.get('client_id')!,
+      redirectUri: url.searchParams.get('redirect_uri')!,
+      codeChallenge: url.searchParams.get('code_challenge')!,
+      claims: { nonce: url.searchParams.get('nonce'), ...claims },
+    });
+
+    return { code, state: url.searchParams.get('state')! };
+  }
+
+  /**
+   * Sign an ID token with the current key
+   */
+  signIdToken(claims: Record<string, unknown>, options: { audience?: string; issuer?: string } = {}): string {
+    return jwt.sign(claims, this.privateKey, {
+      algorithm: 'RS256',
+      keyid: this.kid,
+      issuer: options.issuer ?? this.issuer,
+      audience: options.audience ?? this.clientId,
+      expiresIn: 300,
+    });
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url === '/.well-known/openid-configuration') {
+      return json(200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+      });
+    }
+
+    if (req.url === '/jwks') {
+      this.jwksRequests++;
+      return json(200, { keys: [{ ...this.publicKey.export({ format: 'jwk' }), kid: this.kid, use: 'sig', alg: 'RS256' }] });
+    }
+
+    if (req.url === '/token' && req.method === 'POST') {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const params = new URLSearchParams(body);
+        const expectedAuth = `Basic ${Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64')}`;
+        if (req.headers.authorization !== expectedAuth) {
+          return json(401, { error: 'invalid_client' });
+        }
+
+        const pending = this.codes.get(params.get('code') || '');
+        this.codes.delete(params.get('code') || '');
+        const verifier = params.get('code_verifier') || '';
+        if (
+          !pending ||
+          params.get('grant_type') !== 'authorization_code' ||
+          params.get('redirect_uri') !== pending.redirectUri ||
+          createHash('sha256').update(verifier).digest('base64url') !== pending.codeChallenge
+        ) {
+          return json(400, { error: 'invalid_grant' });
+        }
+
+        return json(200, {
+          access_token: randomBytes(16).toString('hex'),
+          token_type: 'Bearer',
+          id_token: this.signIdToken(pending.claims),
+        });
+      });
+      return;
+    }
+
+    json(404, { error: 'not_found' });
+  }
+}
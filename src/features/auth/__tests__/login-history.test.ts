@@ -0,0 +1,140 @@
+/**
+ * Login History Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuthService } from '../auth.service';
+import { MfaService } from '../mfa.service';
+import { LoginHistoryService } from '../../../shared/services/login-history.service';
+import { generateTotpCode, currentTotpStep } from '../../../shared/utils/totp';
+
+// Users and login events live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+const sendEmail = vi.fn();
+vi.mock('../../email/email.service', () => ({
+  EmailService: vi.fn().mockImplementation(() => ({ sendEmail })),
+}));
+
+describe('Login history', () => {
+  let service: AuthService;
+  let loginHistoryService: LoginHistoryService;
+  let email: string;
+  let userId: string;
+  let consoleSpy: any;
+  let consoleErrorSpy: any;
+
+  const password = 'Password123';
+  const laptop = {
+    ipAddress: '203.0.113.7',
+    userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 Chrome/130.0.6723.91',
+  };
+  const phone = {
+    ipAddress: '198.51.100.23',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 18_0 like Mac OS X) AppleWebKit/605.1.15 Mobile/15E148',
+  };
+
+  /**
+   * Security alert emails sent so far
+   */
+  const securityAlerts = () =>
+    sendEmail.mock.calls.map(([message]) => message).filter((message) => message.templateName === 'security-alert');
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    sendEmail.mockReset();
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    service = new AuthService();
+    loginHistoryService = new LoginHistoryService();
+    email = `history-${crypto.randomUUID()}@example.com`;
+    const result = await service.register({ email, password, name: 'History User' }, laptop);
+    userId = result.user.id;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    consoleSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should record successful and failed logins, newest first', async () => {
+    await expect(service.login({ email, password: 'WrongPassword1' }, laptop)).rejects.toThrow('Invalid credentials');
+    vi.setSystemTime(Date.now() + 1000);
+    await service.login({ email, password }, laptop);
+
+    const history = await loginHistoryService.getHistory(userId);
+
+    expect(history).toEqual([
+      expect.objectContaining({
+        success: true,
+        failureReason: null,
+        method: 'password',
+        authProvider: 'inhouse',
+        mfaUsed: false,
+        ...laptop,
+        newDevice: false,
+      }),
+      expect.objectContaining({ success: false, failureReason: 'invalid_credentials', method: 'password' }),
+    ]);
+    expect(await loginHistoryService.getHistory(userId, 1)).toHaveLength(1);
+  });
+
+  it('should alert the user once per new device, ignoring browser updates', async () => {
+    await service.login({ email, password }, laptop);
+    expect(securityAlerts()).toHaveLength(0); // First login
+
+    const updatedBrowser = { ...laptop, userAgent: laptop.userAgent.replace('130.0.6723.91', '131.0.6778.70') };
+    await service.login({ email, password }, updatedBrowser);
+    expect(securityAlerts()).toHaveLength(0);
+
+    await service.login({ email, password }, phone);
+    await service.login({ email, password }, phone);
+
+    expect(securityAlerts()).toEqual([
+      expect.objectContaining({
+        toAddress: email,
+        templateData: expect.objectContaining({
+          userName: 'History User',
+          device: phone.userAgent,
+          ipAddress: phone.ipAddress,
+          securityUrl: expect.stringContaining('/settings/security'),
+        }),
+      }),
+    ]);
+    const history = await loginHistoryService.getHistory(userId);
+    expect(history.map((entry) => entry.newDevice)).toEqual([false, true, false, false]);
+  });
+
+  it('should record wrong MFA codes and the second factor of a completed login', async () => {
+    const mfaService = new MfaService();
+    const { secret } = await mfaService.startEnrollment(userId);
+    await mfaService.confirmEnrollment(userId, generateTotpCode(secret));
+
+    const challenge: any = await service.login({ email, password }, laptop);
+    await expect(service.verifyMfa({ mfaToken: challenge.mfaToken, code: '000000' }, laptop)).rejects.toThrow(
+      'Invalid MFA code'
+    );
+    vi.setSystemTime(Date.now() + 1000);
+    const code = generateTotpCode(secret, currentTotpStep() + 1);
+    await service.verifyMfa({ mfaToken: challenge.mfaToken, code }, laptop);
+
+    const history = await loginHistoryService.getHistory(userId);
+    expect(history.map((entry) => [entry.success, entry.failureReason, entry.method, entry.mfaUsed])).toEqual([
+      [true, null, 'password', true],
+      [false, 'invalid_mfa_code', 'password', false],
+    ]);
+  });
+
+  it('should not fail a login when the security alert cannot be sent', async () => {
+    await service.login({ email, password }, laptop);
+    sendEmail.mockRejectedValue(new Error('SES unavailable'));
+
+    const result: any = await service.login({ email, password }, phone);
+
+    expect(result.token).toBeDefined();
+    expect(consoleErrorSpy).toHaveBeenCalledWith('Security alert email error:', expect.any(Error));
+  });
+});
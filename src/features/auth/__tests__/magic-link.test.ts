@@ -0,0 +1,107 @@
+/**
+ * Magic Link Login Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuthService } from '../auth.service';
+import { MfaService } from '../mfa.service';
+import { db } from '../../../shared/db/client';
+import { generateTotpCode } from '../../../shared/utils/totp';
+import { verifyToken } from '../../../shared/utils/jwt';
+import { ThrottledError } from '../../../shared/utils/throttle';
+
+// Users and tokens live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+const sendEmail = vi.fn();
+vi.mock('../../email/email.service', () => ({
+  EmailService: vi.fn().mockImplementation(() => ({ sendEmail })),
+}));
+
+describe('Magic link login', () => {
+  let service: AuthService;
+  let email: string;
+  let userId: string;
+  let consoleSpy: any;
+
+  /**
+   * Request a link and return the token from the emailed URL
+   */
+  const requestToken = async (): Promise<string> => {
+    await service.requestMagicLink(email);
+    const loginUrl = sendEmail.mock.calls.at(-1)![0].templateData.loginUrl as string;
+    return new URL(loginUrl).searchParams.get('token')!;
+  };
+
+  beforeEach(async () => {
+    sendEmail.mockReset();
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    service = new AuthService();
+    email = `magic-${crypto.randomUUID()}@example.com`;
+    const result = await service.register({ email, password: 'Password123', name: 'Magic User' });
+    userId = result.user.id;
+    sendEmail.mockClear(); // Ignore the verification email sent on registration
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it('should email the magic-link template and sign the user in once', async () => {
+    const token = await requestToken();
+
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ templateName: 'magic-link', toAddress: email })
+    );
+
+    const result: any = await service.loginWithMagicLink(token);
+    expect(result.user.id).toBe(userId);
+    expect(verifyToken(result.token).userId).toBe(userId);
+    expect((await db.users.findById(userId))!.emailVerified).toBe(true);
+
+    await expect(service.loginWithMagicLink(token)).rejects.toThrow('Invalid or expired sign-in link');
+  });
+
+  it('should not send anything for unknown or external accounts', async () => {
+    await service.requestMagicLink(`nobody-${crypto.randomUUID()}@example.com`);
+    await db.users.update(userId, { passwordHash: null, authProvider: 'clerk' });
+    await service.requestMagicLink(email);
+
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('should reject a link once the account email has changed', async () => {
+    const token = await requestToken();
+    await db.users.update(userId, { email: `changed-${crypto.randomUUID()}@example.com` });
+
+    await expect(service.loginWithMagicLink(token)).rejects.toThrow('Invalid or expired sign-in link');
+  });
+
+  it('should throttle requests per address', async () => {
+    await service.requestMagicLink(email);
+
+    await expect(service.requestMagicLink(email.toUpperCase())).rejects.toBeInstanceOf(ThrottledError);
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return an MFA challenge when MFA is enabled', async () => {
+    const mfaService = new MfaService();
+    const { secret } = await mfaService.startEnrollment(userId);
+    await mfaService.confirmEnrollment(userId, generateTotpCode(secret));
+
+    const result: any = await service.loginWithMagicLink(await requestToken());
+
+    expect(result.mfaRequired).toBe(true);
+    expect(result.token).toBeUndefined();
+  });
+
+  it('should not fail when the email cannot be delivered', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    sendEmail.mockRejectedValueOnce(new Error('Email system is disabled'));
+
+    await expect(service.requestMagicLink(email)).resolves.toBeUndefined();
+    errorSpy.mockRestore();
+  });
+});
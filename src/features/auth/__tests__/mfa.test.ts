@@ -0,0 +1,149 @@
+/**
+ * TOTP MFA Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuthService } from '../auth.service';
+import { MfaService } from '../mfa.service';
+import { db } from '../../../shared/db/client';
+import { generateTotpCode, currentTotpStep } from '../../../shared/utils/totp';
+import { verifyToken } from '../../../shared/utils/jwt';
+
+// Users and MFA enrolments live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+vi.mock('../../email/email.service', () => ({
+  EmailService: vi.fn().mockImplementation(() => ({ sendEmail: vi.fn() })),
+}));
+
+describe('MFA', () => {
+  let authService: AuthService;
+  let mfaService: MfaService;
+  let email: string;
+  let userId: string;
+  let consoleSpy: any;
+
+  const password = 'Password123';
+
+  /**
+   * Enrol the user and return the TOTP secret and recovery codes
+   */
+  const enroll = async () => {
+    const { secret } = await mfaService.startEnrollment(userId);
+    const recoveryCodes = await mfaService.confirmEnrollment(userId, generateTotpCode(secret));
+    return { secret, recoveryCodes };
+  };
+
+  beforeEach(async () => {
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    authService = new AuthService();
+    mfaService = new MfaService();
+    email = `mfa-${crypto.randomUUID()}@example.com`;
+    const result = await authService.register({ email, password, name: 'MFA User' });
+    userId = result.user.id;
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  describe('enrollment', () => {
+    it('should return a provisioning URI for authenticator apps', async () => {
+      const { secret, otpauthUri } = await mfaService.startEnrollment(userId);
+
+      expect(otpauthUri).toMatch(/^otpauth:\/\/totp\//);
+      expect(otpauthUri).toContain(`secret=${secret}`);
+      expect(await mfaService.isEnabled(userId)).toBe(false);
+    });
+
+    it('should enable MFA and issue recovery codes once confirmed', async () => {
+      const { recoveryCodes } = await enroll();
+
+      expect(recoveryCodes).toHaveLength(10);
+      expect(await mfaService.isEnabled(userId)).toBe(true);
+    });
+
+    it('should reject a wrong confirmation code', async () => {
+      await mfaService.startEnrollment(userId);
+
+      await expect(mfaService.confirmEnrollment(userId, '000000')).rejects.toThrow('Invalid MFA code');
+    });
+  });
+
+  describe('login', () => {
+    it('should return an MFA challenge instead of tokens', async () => {
+      await enroll();
+
+      const result: any = await authService.login({ email, password });
+
+      expect(result.mfaRequired).toBe(true);
+      expect(result.token).toBeUndefined();
+      expect(() => verifyToken(result.mfaToken)).toThrow('Invalid token');
+    });
+
+    it('should issue tokens after a valid TOTP code', async () => {
+      const { secret } = await enroll();
+      const challenge: any = await authService.login({ email, password });
+
+      const result = await authService.verifyMfa({
+        mfaToken: challenge.mfaToken,
+        code: generateTotpCode(secret, currentTotpStep() + 1),
+      });
+
+      expect(verifyToken(result.token).mfa).toBe(true);
+    });
+
+    it('should reject a TOTP code that was already used', async () => {
+      const { secret } = await enroll();
+      const challenge: any = await authService.login({ email, password });
+
+      await expect(
+        authService.verifyMfa({ mfaToken: challenge.mfaToken, code: generateTotpCode(secret) })
+      ).rejects.toThrow('Invalid MFA code');
+    });
+
+    it('should accept each recovery code once', async () => {
+      const { recoveryCodes } = await enroll();
+      const challenge: any = await authService.login({ email, password });
+
+      await authService.verifyMfa({ mfaToken: challenge.mfaToken, code: recoveryCodes[0] });
+
+      await expect(
+        authService.verifyMfa({ mfaToken: challenge.mfaToken, code: recoveryCodes[0] })
+      ).rejects.toThrow('Invalid MFA code');
+      expect((await mfaService.getStatus(userId)).recoveryCodesRemaining).toBe(9);
+    });
+  });
+
+  describe('company requirement', () => {
+    it('should flag members without MFA and prevent disabling it', async () => {
+      const companyId = crypto.randomUUID();
+      await db.companies.create({
+        id: companyId,
+        name: 'MFA Co',
+        slug: `mfa-${companyId}`,
+        status: 'active',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      await db.companyMembers.create({
+        id: crypto.randomUUID(),
+        companyId,
+        userId,
+        role: 'member',
+        joinedAt: new Date(),
+      });
+      await db.companySecurityPolicies.upsert({ companyId, mfaRequired: true });
+
+      const loginResult: any = await authService.login({ email, password });
+      expect(loginResult.mfaEnrollmentRequired).toBe(true);
+
+      const { recoveryCodes } = await enroll();
+      await expect(mfaService.disable(userId, recoveryCodes[0])).rejects.toThrow(
+        'MFA is required by your company'
+      );
+    });
+  });
+});
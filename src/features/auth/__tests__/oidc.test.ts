@@ -0,0 +1,164 @@
+/**
+ * OpenID Connect Provider Tests
+ *
+ * Runs the full authorization-code + PKCE flow against a local stub issuer
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { AuthService } from '../auth.service';
+import { AuthProviderFactory } from '../providers/auth-provider.factory';
+import { OidcAuthProvider } from '../providers/oidc/oidc-auth.provider';
+import { db } from '../../../shared/db/client';
+import { verifyToken } from '../../../shared/utils/jwt';
+import { OidcStubIssuer } from './helpers/oidc-stub-issuer';
+
+// Users and authorization requests live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+vi.mock('../../email/email.service', () => ({
+  EmailService: vi.fn().mockImplementation(() => ({ sendEmail: vi.fn() })),
+}));
+
+describe('OIDC auth provider', () => {
+  const issuer = new OidcStubIssuer();
+  let authService: AuthService;
+  let sub: string;
+  let email: string;
+  let consoleSpy: any;
+
+  /**
+   * Run the redirect login with the given ID token claims
+   */
+  const loginAtProvider = async (claims: Record<string, unknown> = {}) => {
+    const { authorizationUrl } = await authService.startExternalLogin();
+    const callback = issuer.authorize(authorizationUrl, { sub, email, email_verified: true, name: 'Ada Lovelace', ...claims });
+    return authService.completeExternalLogin(callback);
+  };
+
+  beforeAll(async () => {
+    await issuer.start();
+    process.env.AUTH_PROVIDER = 'oidc';
+    process.env.OIDC_ISSUER = issuer.issuer;
+    process.env.OIDC_CLIENT_ID = issuer.clientId;
+    process.env.OIDC_CLIENT_SECRET = issuer.clientSecret;
+  });
+
+  afterAll(async () => {
+    delete process.env.AUTH_PROVIDER;
+    delete process.env.OIDC_ISSUER;
+    delete process.env.OIDC_CLIENT_ID;
+    delete process.env.OIDC_CLIENT_SECRET;
+    AuthProviderFactory.reset();
+    await issuer.stop();
+  });
+
+  beforeEach(() => {
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    AuthProviderFactory.reset();
+    authService = new AuthService();
+    sub = crypto.randomUUID();
+    email = `oidc-${sub}@example.com`;
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  describe('authorization request', () => {
+    it('should use the discovered endpoint with PKCE, state and nonce', async () => {
+      const { authorizationUrl, state } = await authService.startExternalLogin();
+      const url = new URL(authorizationUrl);
+
+      expect(`${url.origin}${url.pathname}`).toBe(`${issuer.issuer}/authorize`);
+      expect(url.searchParams.get('client_id')).toBe(issuer.clientId);
+      expect(url.searchParams.get('response_type')).toBe('code');
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+      expect(url.searchParams.get('code_challenge')).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(url.searchParams.get('nonce')).toBeTruthy();
+      expect(url.searchParams.get('state')).toBe(state);
+    });
+  });
+
+  describe('callback', () => {
+    it('should provision the user on first login and reuse it afterwards', async () => {
+      const first = await loginAtProvider({ picture: 'https://example.com/ada.png' });
+
+      const user = await db.users.findById(first.user.id);
+      expect(user).toMatchObject({
+        email,
+        name: 'Ada Lovelace',
+        authProvider: 'oidc',
+        externalId: sub,
+        passwordHash: null,
+        emailVerified: true,
+      });
+      expect(user!.externalMetadata).toMatchObject({ issuer: issuer.issuer, picture: 'https://example.com/ada.png' });
+
+      const second = await loginAtProvider({ name: 'Ada King' });
+
+      expect(second.user.id).toBe(first.user.id);
+      expect((await db.users.findById(first.user.id))!.name).toBe('Ada King');
+    });
+
+    it('should not accept a state twice', async () => {
+      const { authorizationUrl } = await authService.startExternalLogin();
+      const callback = issuer.authorize(authorizationUrl, { sub, email });
+      await authService.completeExternalLogin(callback);
+
+      const replay = issuer.authorize(authorizationUrl, { sub, email });
+      await expect(authService.completeExternalLogin(replay)).rejects.toThrow('Invalid or expired login request');
+    });
+
+    it('should reject a code issued for another PKCE challenge', async () => {
+      const victim = await authService.startExternalLogin();
+      const attacker = await authService.startExternalLogin();
+      const { code } = issuer.authorize(attacker.authorizationUrl, { sub, email });
+
+      await expect(authService.completeExternalLogin({ code, state: victim.state })).rejects.toThrow(
+        'Invalid authorization code'
+      );
+    });
+
+    it('should not take over an existing account with the same email', async () => {
+      await db.users.create({ email, passwordHash: 'hash', name: 'Local User' });
+
+      await expect(loginAtProvider()).rejects.toThrow('Email already registered with another sign-in method');
+    });
+
+    it('should flag the session as MFA when the provider reports it', async () => {
+      const withoutMfa = await loginAtProvider({ amr: ['pwd'] });
+      const withMfa = await loginAtProvider({ amr: ['pwd', 'mfa'] });
+
+      expect(verifyToken(withoutMfa.token).mfa).toBeUndefined();
+      expect(verifyToken(withMfa.token).mfa).toBe(true);
+    });
+  });
+
+  describe('ID token validation', () => {
+    it('should reject tokens for another audience or issuer', async () => {
+      const provider = new OidcAuthProvider();
+      await loginAtProvider();
+
+      expect((await provider.validateToken(issuer.signIdToken({ sub, email }))).valid).toBe(true);
+      expect((await provider.validateToken(issuer.signIdToken({ sub }, { audience: 'other-client' }))).valid).toBe(false);
+      expect((await provider.validateToken(issuer.signIdToken({ sub }, { issuer: 'https://evil.example.com' }))).valid).toBe(false);
+    });
+
+    it('should cache the JWKS between logins', async () => {
+      const before = issuer.jwksRequests;
+
+      await loginAtProvider();
+      await loginAtProvider();
+
+      expect(issuer.jwksRequests - before).toBe(1);
+    });
+  });
+
+  it('should reject password login', async () => {
+    await expect(authService.login({ email, password: 'Password123' })).rejects.toThrow(
+      'Sign in with your identity provider'
+    );
+  });
+});
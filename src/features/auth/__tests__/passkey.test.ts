@@ -0,0 +1,300 @@
+/**
+ * Passkey (WebAuthn) Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHash, generateKeyPairSync, sign, randomBytes, type KeyObject } from 'crypto';
+import { AuthService } from '../auth.service';
+import { db } from '../../../shared/db/client';
+import { verifyToken } from '../../../shared/utils/jwt';
+import { decodeCbor, toBase64Url } from '../../../shared/utils/webauthn';
+
+// Users and credentials live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+vi.mock('../../email/email.service', () => ({
+  EmailService: vi.fn().mockImplementation(() => ({ sendEmail: vi.fn() })),
+}));
+
+const RP_ID = 'localhost';
+const ORIGIN = 'http://localhost:3001';
+
+/**
+ * Minimal CBOR encoder (unsigned/negative integers, byte/text strings, maps)
+ */
+function cbor(value: unknown): Buffer {
+  const head = (major: number, length: number) =>
+    length < 24
+      ? Buffer.from([(major << 5) | length])
+      : length < 256
+        ? Buffer.from([(major << 5) | 24, length])
+        : Buffer.from([(major << 5) | 25, length >> 8, length & 0xff]);
+
+  if (typeof value === 'number') {
+    return value >= 0 ? head(0, value) : head(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([head(3, bytes.length), bytes]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([head(2, value.length), value]);
+  }
+  const entries = Array.from((value as Map<unknown, unknown>).entries());
+  return Buffer.concat([head(5, entries.length), ...entries.flatMap(([k, v]) => [cbor(k), cbor(v)])]);
+}
+
+/**
+ * Software authenticator holding one ES256 credential
+ */
+class TestAuthenticator {
+  readonly credentialId = randomBytes(16);
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+  signCount = 0;
+
+  constructor() {
+    ({ privateKey: this.privateKey, publicKey: this.publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' }));
+  }
+
+  get id(): string {
+    return toBase64Url(this.credentialId);
+  }
+
+  create(challenge: string) {
+    const jwk = this.publicKey.export({ format: 'jwk' });
+    const coseKey = new Map<number, unknown>([
+      [1, 2],
+      [3, -7],
+      [-1, 1],
+      [-2, Buffer.from(jwk.x!, 'base64url')],
+      [-3, Buffer.from(jwk.y!, 'base64url')],
+    ]);
+
+    const idLength = Buffer.alloc(2);
+    idLength.writeUInt16BE(this.credentialId.length);
+    const authData = Buffer.concat([
+      this.authDataHeader(0x45), // UP | UV | AT
+      Buffer.alloc(16), // AAGUID
+      idLength,
+      this.credentialId,
+      cbor(coseKey),
+    ]);
+
+    return {
+      id: this.id,
+      type: 'public-key' as const,
+      response: {
+        clientDataJSON: this.clientData('webauthn.create', challenge),
+        attestationObject: toBase64Url(
+          cbor(new Map<string, unknown>([['fmt', 'none'], ['attStmt', new Map()], ['authData', authData]]))
+        ),
+        transports: ['internal'],
+      },
+    };
+  }
+
+  get(challenge: string, userHandle: string) {
+    this.signCount++;
+    const authData = this.authDataHeader(0x05); // UP | UV
+    const clientDataJSON = this.clientData('webauthn.get', challenge);
+    const clientDataHash = createHash('sha256').update(Buffer.from(clientDataJSON, 'base64url')).digest();
+
+    return {
+      id: this.id,
+      type: 'public-key' as const,
+      response: {
+        clientDataJSON,
+        authenticatorData: toBase64Url(authData),
+        signature: toBase64Url(sign('sha256', Buffer.concat([authData, clientDataHash]), this.privateKey)),
+        userHandle,
+      },
+    };
+  }
+
+  private authDataHeader(flags: number): Buffer {
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(this.signCount);
+    return Buffer.concat([createHash('sha256').update(RP_ID).digest(), Buffer.from([flags]), counter]);
+  }
+
+  private clientData(type: string, challenge: string): string {
+    return toBase64Url(Buffer.from(JSON.stringify({ type, challenge, origin: ORIGIN, crossOrigin: false })));
+  }
+}
+
+describe('Passkeys', () => {
+  let authService: AuthService;
+  let userId: string;
+  let authenticator: TestAuthenticator;
+  let consoleSpy: any;
+
+  /**
+   * Run the registration ceremony for the test user
+   */
+  const registerPasskey = async () => {
+    const { challengeId, options } = await authService.getPasskeyRegistrationOptions(userId);
+    const credential = authenticator.create(options.challenge);
+    return authService.registerPasskey(userId, { challengeId, credential, name: 'Laptop' });
+  };
+
+  /**
+   * Run the login ceremony with the test authenticator
+   */
+  const loginWithPasskey = async () => {
+    const { challengeId, options } = await authService.getPasskeyLoginOptions();
+    const credential = authenticator.get(options.challenge, toBase64Url(Buffer.from(userId)));
+    return authService.loginWithPasskey({ challengeId, credential });
+  };
+
+  beforeEach(async () => {
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    authService = new AuthService();
+    authenticator = new TestAuthenticator();
+    const result = await authService.register({
+      email: `passkey-${crypto.randomUUID()}@example.com`,
+      password: 'Password123',
+      name: 'Passkey User',
+    });
+    userId = result.user.id;
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  describe('registration', () => {
+    it('should store the credential public key and sign counter', async () => {
+      const passkey = await registerPasskey();
+
+      expect(passkey.name).toBe('Laptop');
+      expect(passkey.transports).toEqual(['internal']);
+
+      const [stored] = await db.webauthnCredentials.findByUserId(userId);
+      expect(stored.credentialId).toBe(authenticator.id);
+      expect(stored.publicKeyJwk).toMatchObject({ kty: 'EC', crv: 'P-256' });
+      expect(stored.signCount).toBe(0);
+    });
+
+    it('should exclude already registered credentials', async () => {
+      await registerPasskey();
+
+      const { options } = await authService.getPasskeyRegistrationOptions(userId);
+
+      expect(options.excludeCredentials.map((credential) => credential.id)).toEqual([authenticator.id]);
+      expect(options.authenticatorSelection.userVerification).toBe('required');
+    });
+
+    it('should reject a response for another challenge', async () => {
+      const { challengeId } = await authService.getPasskeyRegistrationOptions(userId);
+      const credential = authenticator.create(toBase64Url(randomBytes(32)));
+
+      await expect(authService.registerPasskey(userId, { challengeId, credential })).rejects.toThrow(
+        'Invalid passkey response'
+      );
+    });
+
+    it('should not accept a challenge twice', async () => {
+      const { challengeId, options } = await authService.getPasskeyRegistrationOptions(userId);
+      await authService.registerPasskey(userId, {
+        challengeId,
+        credential: authenticator.create(options.challenge),
+      });
+
+      await expect(
+        authService.registerPasskey(userId, {
+          challengeId,
+          credential: new TestAuthenticator().create(options.challenge),
+        })
+      ).rejects.toThrow('Invalid or expired passkey challenge');
+    });
+    it('should reject truncated authenticator data and CBOR', async () => {
+      /**
+       * The attestation object cut short, or holding authenticator data cut short
+       */
+      const truncate = (attestationObject: string, variant: number): string => {
+        const attestation = Buffer.from(attestationObject, 'base64url');
+        const authData = Buffer.from((decodeCbor(attestation) as Map<string, Uint8Array>).get('authData')!);
+        const withAuthData = (length: number) =>
+          cbor(new Map<string, unknown>([['fmt', 'none'], ['attStmt', new Map()], ['authData', authData.subarray(0, length)]]));
+
+        return toBase64Url(
+          [
+            withAuthData(40), // Attested credential flag, no AAGUID
+            withAuthData(54), // Credential ID length cut
+            withAuthData(60), // Credential ID cut
+            withAuthData(authData.length - 1), // COSE key cut
+            attestation.subarray(0, attestation.length - 1),
+            attestation.subarray(0, 30),
+          ][variant]
+        );
+      };
+
+      for (let variant = 0; variant < 6; variant++) {
+        const { challengeId, options } = await authService.getPasskeyRegistrationOptions(userId);
+        const credential = authenticator.create(options.challenge);
+        credential.response.attestationObject = truncate(credential.response.attestationObject, variant);
+
+        await expect(authService.registerPasskey(userId, { challengeId, credential })).rejects.toThrow(
+          'Invalid passkey response'
+        );
+      }
+    });
+  });
+
+  describe('passwordless login', () => {
+    it('should issue an MFA-verified session', async () => {
+      await registerPasskey();
+
+      const result = await loginWithPasskey();
+
+      expect(result.user.id).toBe(userId);
+      expect(verifyToken(result.token).mfa).toBe(true);
+
+      // MFA flag survives refresh
+      const refreshed = await authService.refresh(result.refreshToken);
+      expect(verifyToken(refreshed.token).mfa).toBe(true);
+    });
+
+    it('should work for accounts without a password', async () => {
+      await db.users.update(userId, { passwordHash: null, authProvider: 'clerk' });
+      await registerPasskey();
+
+      const result = await loginWithPasskey();
+
+      expect(result.user.id).toBe(userId);
+    });
+
+    it('should update the sign counter and reject a counter that does not increase', async () => {
+      await registerPasskey();
+      await loginWithPasskey();
+
+      const [stored] = await db.webauthnCredentials.findByUserId(userId);
+      expect(stored.signCount).toBe(1);
+      expect(stored.lastUsedAt).toBeInstanceOf(Date);
+
+      // Cloned authenticator replays an old counter
+      authenticator.signCount = 0;
+      await expect(loginWithPasskey()).rejects.toThrow('Invalid passkey response');
+    });
+
+    it('should reject an unknown credential', async () => {
+      await expect(loginWithPasskey()).rejects.toThrow('Invalid passkey response');
+    });
+  });
+
+  describe('management', () => {
+    it('should only delete the caller\'s own passkeys', async () => {
+      const passkey = await registerPasskey();
+
+      await expect(authService.deletePasskey(crypto.randomUUID(), passkey.id)).rejects.toThrow(
+        'Passkey not found'
+      );
+
+      await authService.deletePasskey(userId, passkey.id);
+      expect(await authService.listPasskeys(userId)).toHaveLength(0);
+    });
+  });
+});
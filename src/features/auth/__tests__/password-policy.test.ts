@@ -0,0 +1,178 @@
+/**
+ * Password Policy Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuthService } from '../auth.service';
+import { UsersService } from '../../users/users.service';
+import { db } from '../../../shared/db/client';
+import { UsersRepository } from '../../../shared/db/repositories/users.repository';
+import { PasswordPolicyService, PasswordPolicyError } from '../../../shared/services/password-policy.service';
+import { isBreachedPassword } from '../../../shared/utils/breached-passwords';
+import type { PasswordPolicy } from '../../../shared/db/schema/company-security-policies.schema';
+
+// Users, companies and tokens live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+const sendEmail = vi.fn();
+vi.mock('../../email/email.service', () => ({
+  EmailService: vi.fn().mockImplementation(() => ({ sendEmail })),
+}));
+
+vi.mock('../../email/compliance.service', () => ({
+  ComplianceService: vi.fn(),
+}));
+
+describe('Password policy', () => {
+  let service: AuthService;
+  let usersService: UsersService;
+  let email: string;
+  let userId: string;
+  let consoleSpy: any;
+
+  const password = 'Password123';
+
+  /**
+   * Add the user to a new company with the given password rules
+   */
+  const joinCompanyWithPolicy = async (passwordPolicy: Partial<PasswordPolicy>) => {
+    const companyId = crypto.randomUUID();
+    await db.companies.create({
+      id: companyId,
+      name: 'Policy Co',
+      slug: `policy-${companyId}`,
+      status: 'active',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    await db.companyMembers.create({
+      id: crypto.randomUUID(),
+      companyId,
+      userId,
+      role: 'member',
+      joinedAt: new Date(),
+    });
+    await db.companySecurityPolicies.upsert({ companyId, passwordPolicy });
+  };
+
+  /**
+   * Change the password and return the policy violations (empty if accepted)
+   */
+  const changePassword = async (currentPassword: string, newPassword: string): Promise<string[]> => {
+    try {
+      await usersService.changePassword(userId, { currentPassword, newPassword });
+      return [];
+    } catch (error) {
+      if (error instanceof PasswordPolicyError) {
+        return error.violations;
+      }
+      throw error;
+    }
+  };
+
+  beforeEach(async () => {
+    sendEmail.mockReset();
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    service = new AuthService();
+    usersService = new UsersService(new UsersRepository(db));
+    email = `policy-${crypto.randomUUID()}@example.com`;
+    const result = await service.register({ email, password, name: 'Policy User' });
+    userId = result.user.id;
+    sendEmail.mockClear(); // Ignore the verification email sent on registration
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    consoleSpy.mockRestore();
+  });
+
+  it('should match passwords against the bundled breach list offline', () => {
+    expect(isBreachedPassword('password123')).toBe(true);
+    expect(isBreachedPassword('P@ssw0rd')).toBe(true);
+    expect(isBreachedPassword('correct horse battery staple 42')).toBe(false);
+  });
+
+  it('should reject breached passwords on registration', async () => {
+    const error = await service
+      .register({ email: `breached-${crypto.randomUUID()}@example.com`, password: 'password123', name: 'Breached' })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(PasswordPolicyError);
+    expect(error.violations).toEqual(['Password has appeared in a data breach; choose a different one']);
+  });
+
+  it('should enforce the company length and character class rules', async () => {
+    await joinCompanyWithPolicy({ minLength: 12, requireSymbol: true, requireUppercase: true });
+
+    expect(await changePassword(password, 'newpassword9')).toEqual([
+      'Password must contain an uppercase letter',
+      'Password must contain a symbol',
+    ]);
+    expect(await changePassword(password, 'Short#9')).toEqual(['Password must be at least 12 characters']);
+    expect(await changePassword(password, 'Longer#Password9')).toEqual([]);
+  });
+
+  it('should combine the policies of all companies, keeping the strictest rules', async () => {
+    await joinCompanyWithPolicy({ minLength: 10, historyCount: 3, maxAgeDays: 180 });
+    await joinCompanyWithPolicy({ minLength: 14, requireNumber: true, maxAgeDays: 90 });
+
+    const policy = await new PasswordPolicyService().getEffectivePolicy(userId);
+
+    expect(policy).toEqual({
+      minLength: 14,
+      requireUppercase: false,
+      requireLowercase: false,
+      requireNumber: true,
+      requireSymbol: false,
+      historyCount: 3,
+      maxAgeDays: 90,
+    });
+  });
+
+  it('should refuse reusing any of the last N passwords', async () => {
+    await joinCompanyWithPolicy({ historyCount: 3 });
+    const reused = ['Password was used recently; choose one you have not used in your last 3 passwords'];
+
+    expect(await changePassword(password, 'SecondPass#1')).toEqual([]);
+    expect(await changePassword('SecondPass#1', 'ThirdPass#1')).toEqual([]);
+
+    expect(await changePassword('ThirdPass#1', 'ThirdPass#1')).toEqual(reused);
+    expect(await changePassword('ThirdPass#1', password)).toEqual(reused);
+
+    // The original password drops out of the last 3 after one more change
+    expect(await changePassword('ThirdPass#1', 'FourthPass#1')).toEqual([]);
+    expect(await changePassword('FourthPass#1', password)).toEqual([]);
+  });
+
+  it('should keep the reset link usable when the new password is rejected', async () => {
+    await joinCompanyWithPolicy({ minLength: 12 });
+    await service.forgotPassword(email);
+    const resetUrl = sendEmail.mock.calls.at(-1)![0].templateData.resetUrl as string;
+    const token = new URL(resetUrl).searchParams.get('token')!;
+
+    await expect(service.resetPassword({ token, newPassword: 'Short#9a' })).rejects.toBeInstanceOf(
+      PasswordPolicyError
+    );
+    await service.resetPassword({ token, newPassword: 'Long-enough#9' });
+
+    await expect(service.login({ email, password: 'Long-enough#9' })).resolves.toHaveProperty('token');
+  });
+
+  it('should flag logins with a password older than the maximum age', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await joinCompanyWithPolicy({ maxAgeDays: 30 });
+
+    const fresh: any = await service.login({ email, password });
+    expect(fresh.passwordChangeRequired).toBeUndefined();
+
+    vi.setSystemTime(Date.now() + 31 * 24 * 60 * 60 * 1000);
+    const expired: any = await service.login({ email, password });
+    expect(expired.passwordChangeRequired).toBe(true);
+
+    await changePassword(password, 'Renewed#Pass1');
+    const renewed: any = await service.login({ email, password: 'Renewed#Pass1' });
+    expect(renewed.passwordChangeRequired).toBeUndefined();
+  });
+});
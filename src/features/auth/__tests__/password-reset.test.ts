@@ -0,0 +1,88 @@
+/**
+ * Password Reset Flow Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuthService } from '../auth.service';
+import { tokenRevocationService } from '../../../shared/services/token-revocation.service';
+
+// Users and tokens live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+const sendEmail = vi.fn();
+vi.mock('../../email/email.service', () => ({
+  EmailService: vi.fn().mockImplementation(() => ({ sendEmail })),
+}));
+
+describe('Password reset', () => {
+  let service: AuthService;
+  let email: string;
+  let consoleSpy: any;
+
+  /**
+   * Request a reset and return the token from the emailed link
+   */
+  const requestResetToken = async (): Promise<string> => {
+    await service.forgotPassword(email);
+    const resetUrl = sendEmail.mock.calls.at(-1)![0].templateData.resetUrl as string;
+    return new URL(resetUrl).searchParams.get('token')!;
+  };
+
+  beforeEach(async () => {
+    sendEmail.mockReset();
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    service = new AuthService();
+    email = `reset-${crypto.randomUUID()}@example.com`;
+    await service.register({ email, password: 'OldPassword123', name: 'Reset User' });
+    sendEmail.mockClear(); // Ignore the verification email sent on registration
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it('should send the password-reset template to registered users', async () => {
+    await service.forgotPassword(email);
+
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ templateName: 'password-reset', toAddress: email })
+    );
+  });
+
+  it('should not send anything for unknown emails', async () => {
+    await expect(service.forgotPassword('nobody@example.com')).resolves.toBeUndefined();
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('should not fail when the email cannot be delivered', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    sendEmail.mockRejectedValueOnce(new Error('Email system is disabled'));
+
+    await expect(service.forgotPassword(email)).resolves.toBeUndefined();
+    errorSpy.mockRestore();
+  });
+
+  it('should set the new password and sign out existing sessions', async () => {
+    const session = await service.login({ email, password: 'OldPassword123' });
+    const revokeSpy = vi.spyOn(tokenRevocationService, 'revokeAllForUser');
+
+    await service.resetPassword({ token: await requestResetToken(), newPassword: 'NewPassword456' });
+
+    expect(revokeSpy).toHaveBeenCalledWith(session.user.id, 'password_reset');
+    await expect(service.refresh(session.refreshToken)).rejects.toThrow('Invalid refresh token');
+    await expect(service.login({ email, password: 'OldPassword123' })).rejects.toThrow('Invalid credentials');
+    await expect(service.login({ email, password: 'NewPassword456' })).resolves.toBeDefined();
+    revokeSpy.mockRestore();
+  });
+
+  it('should reject a reset token that was already used', async () => {
+    const token = await requestResetToken();
+    await service.resetPassword({ token, newPassword: 'NewPassword456' });
+
+    await expect(service.resetPassword({ token, newPassword: 'Another789' })).rejects.toThrow(
+      'Invalid or expired reset token'
+    );
+  });
+});
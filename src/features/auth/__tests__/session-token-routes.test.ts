@@ -0,0 +1,209 @@
+/**
+ * Credential and Session Route Tests
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createAuthRouter } from '../auth.route';
+import { createUsersRouter } from '../../users/users.route';
+import { createCompaniesRouter } from '../../companies/companies.route';
+import { AdminService } from '../../admin/admin.service';
+import { requireSessionToken } from '../../../shared/middleware/auth';
+import { personalAccessTokenService } from '../../../shared/services/personal-access-token.service';
+import { generateToken } from '../../../shared/utils/jwt';
+import { db } from '../../../shared/db/client';
+
+// shared-types is not built in this workspace; the guarded routes don't use its schemas
+vi.mock('@vertical-vibing/shared-types', async () => {
+  const { z } = await import('zod');
+  return {
+    CompanyRole: { OWNER: 'owner', ADMIN: 'admin', MEMBER: 'member' },
+    PlanTier: { FREE: 'free', STARTER: 'starter', PRO: 'pro', ENTERPRISE: 'enterprise' },
+    SubscriptionStatus: { ACTIVE: 'active', CANCELED: 'canceled' },
+    registerSchema: z.object({}),
+    loginSchema: z.object({}),
+    updateProfileSchema: z.object({}),
+    changePasswordSchema: z.object({}),
+  };
+});
+
+// Users, tokens and sessions live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+// IAM tables are PostgreSQL-only in the app; use the in-memory implementation
+vi.mock('../../../shared/db/repositories/iam.repository', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../shared/db/repositories/iam.repository')>();
+  const iamDb = new actual.InMemoryIAMDatabase();
+  return { ...actual, iamDb, getIAMDb: () => iamDb };
+});
+
+vi.mock('../../email/email.service', () => ({
+  EmailService: vi.fn().mockImplementation(() => ({ sendEmail: vi.fn() })),
+}));
+
+vi.mock('../../email/compliance.service', () => ({
+  ComplianceService: vi.fn(),
+}));
+
+describe('Credential and session routes', () => {
+  const routers = {
+    '/api/auth': createAuthRouter(),
+    '/api/users': createUsersRouter(),
+    '/api/companies': createCompaniesRouter(),
+  };
+  let server: Server;
+  let baseUrl: string;
+  let tokens: Record<string, string>;
+  let impersonationId: string;
+  let consoleSpy: any;
+  let consoleErrorSpy: any;
+
+  /**
+   * Every route of the auth, users and companies routers guarded by requireSessionToken
+   */
+  const guardedRoutes = Object.entries(routers).flatMap(([basePath, router]) =>
+    router.stack
+      .filter((layer: any) => layer.route?.stack.some((handler: any) => handler.handle === requireSessionToken))
+      .flatMap((layer: any) =>
+        Object.keys(layer.route.methods).map((method) => `${method.toUpperCase()} ${basePath}${layer.route.path as string}`)
+      )
+  );
+
+  /**
+   * Call a route (route parameters are filled with random IDs)
+   */
+  const call = async (route: string, token: string) => {
+    const [method, path] = route.split(' ');
+    const response = await fetch(baseUrl + path.replace(/:\w+/g, () => crypto.randomUUID()), {
+      method,
+      headers: { authorization: `Bearer ${token}`, 'content-type': 'application/json' },
+      body: method === 'GET' ? undefined : JSON.stringify({}),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    for (const [basePath, router] of Object.entries(routers)) {
+      app.use(basePath, router);
+    }
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const user = await db.users.create({
+      email: `user-${crypto.randomUUID()}@example.com`,
+      passwordHash: 'hash',
+      name: 'Account Owner',
+    });
+    const admin = await db.users.create({
+      email: `admin-${crypto.randomUUID()}@example.com`,
+      passwordHash: 'hash',
+      name: 'Support Admin',
+      isSuperAdmin: true,
+    });
+
+    const { token: personalAccessToken } = await personalAccessTokenService.create(user.id, {
+      name: 'CI',
+      scopes: ['*'],
+      expiresInDays: null,
+    });
+    const { token: impersonationToken, impersonation } = await new AdminService().startImpersonation(
+      { userId: admin.id, email: admin.email, authProvider: 'inhouse', isSuperAdmin: true, mfa: true },
+      user.id,
+      { reason: 'Ticket #4521', durationMinutes: 30 },
+      {}
+    );
+    impersonationId = impersonation.id;
+    const serviceAccountId = crypto.randomUUID();
+    tokens = {
+      'Personal access tokens cannot be used for this action': personalAccessToken,
+      'Service accounts cannot be used for this action': generateToken({
+        userId: serviceAccountId,
+        email: `${serviceAccountId}@service-accounts.local`,
+        authProvider: 'inhouse',
+        serviceAccountId,
+        companyId: crypto.randomUUID(),
+      }),
+      'This action is not allowed while impersonating': impersonationToken,
+    };
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should guard every credential, session, security and company ownership route', () => {
+    expect(guardedRoutes).toEqual(
+      expect.arrayContaining([
+        'POST /api/auth/switch-company',
+        'GET /api/auth/mfa',
+        'POST /api/auth/mfa/enroll',
+        'POST /api/auth/mfa/enroll/confirm',
+        'POST /api/auth/mfa/recovery-codes',
+        'POST /api/auth/mfa/disable',
+        'POST /api/auth/passkeys/register/options',
+        'POST /api/auth/passkeys/register/verify',
+        'GET /api/auth/passkeys',
+        'DELETE /api/auth/passkeys/:id',
+        'GET /api/auth/sessions',
+        'DELETE /api/auth/sessions/:id',
+        'PATCH /api/users/me',
+        'POST /api/users/me/change-password',
+        'POST /api/users/me/email',
+        'GET /api/users/me/tokens',
+        'POST /api/users/me/tokens',
+        'DELETE /api/users/me/tokens/:id',
+        'GET /api/users/me/login-history',
+        'DELETE /api/users/me',
+        'POST /api/companies/invitations/accept',
+        'POST /api/companies/ownership-transfer/confirm',
+        'DELETE /api/companies/:id',
+        'PATCH /api/companies/:id/members/:userId',
+        'DELETE /api/companies/:id/members/:userId',
+        'POST /api/companies/:id/ownership-transfer',
+        'PUT /api/companies/:id/security-policy',
+        'POST /api/companies/:id/service-accounts',
+      ])
+    );
+  });
+
+  it('should refuse personal access tokens, service accounts and impersonation on every guarded route', async () => {
+    for (const route of guardedRoutes) {
+      for (const [message, token] of Object.entries(tokens)) {
+        const { status, body } = await call(route, token);
+
+        expect({ route, status, code: body.code, message: body.message }).toEqual({
+          route,
+          status: 403,
+          code: 'ERR_AUTH_012',
+          message,
+        });
+      }
+    }
+  });
+
+  it('should end the impersonation when signing out with its token', async () => {
+    const token = tokens['This action is not allowed while impersonating'];
+
+    expect(guardedRoutes).not.toContain('POST /api/auth/logout');
+    expect((await call('POST /api/auth/logout', token)).status).toBe(200);
+
+    expect((await new AdminService().getImpersonation(impersonationId)).impersonation.endedAt).not.toBeNull();
+    expect((await call('GET /api/auth/sessions', token)).body).toMatchObject({ message: 'Token revoked' });
+  });
+});
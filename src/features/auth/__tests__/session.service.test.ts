@@ -0,0 +1,116 @@
+/**
+ * Session Service Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SessionService } from '../session.service';
+
+// Sessions live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+describe('SessionService', () => {
+  let service: SessionService;
+  let userId: string;
+  let consoleWarnSpy: any;
+
+  beforeEach(() => {
+    service = new SessionService();
+    userId = crypto.randomUUID();
+
+    // Suppress console.warn in tests
+    consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleWarnSpy.mockRestore();
+  });
+
+  describe('createSession', () => {
+    it('should create an active session with an opaque refresh token', async () => {
+      const { session, refreshToken } = await service.createSession(userId, {
+        ipAddress: '203.0.113.7',
+        userAgent: 'vitest',
+      });
+
+      expect(refreshToken.length).toBeGreaterThanOrEqual(64);
+      expect(session.refreshTokenHash).not.toBe(refreshToken);
+      expect(session.ipAddress).toBe('203.0.113.7');
+      expect(await service.isSessionActive(session.id)).toBe(true);
+    });
+  });
+
+  describe('rotateRefreshToken', () => {
+    it('should issue a new refresh token and keep the same session', async () => {
+      const created = await service.createSession(userId);
+
+      const rotated = await service.rotateRefreshToken(created.refreshToken);
+
+      expect(rotated.session.id).toBe(created.session.id);
+      expect(rotated.refreshToken).not.toBe(created.refreshToken);
+    });
+
+    it('should reject an unknown refresh token', async () => {
+      await expect(service.rotateRefreshToken('not-a-token')).rejects.toThrow('Invalid refresh token');
+    });
+
+    it('should revoke the session when a rotated-out token is replayed', async () => {
+      const created = await service.createSession(userId);
+      const rotated = await service.rotateRefreshToken(created.refreshToken);
+
+      await expect(service.rotateRefreshToken(created.refreshToken)).rejects.toThrow(
+        'Invalid refresh token'
+      );
+
+      expect(await service.isSessionActive(created.session.id)).toBe(false);
+      await expect(service.rotateRefreshToken(rotated.refreshToken)).rejects.toThrow(
+        'Invalid refresh token'
+      );
+    });
+  });
+
+  describe('listSessions', () => {
+    it('should list active sessions and flag the current one', async () => {
+      const first = await service.createSession(userId);
+      await service.createSession(userId);
+
+      const sessions = await service.listSessions(userId, first.session.id);
+
+      expect(sessions).toHaveLength(2);
+      expect(sessions.filter((s) => s.current).map((s) => s.id)).toEqual([first.session.id]);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should revoke a session owned by the user', async () => {
+      const { session, refreshToken } = await service.createSession(userId);
+
+      await service.revokeSession(userId, session.id);
+
+      expect(await service.listSessions(userId)).toHaveLength(0);
+      await expect(service.rotateRefreshToken(refreshToken)).rejects.toThrow('Invalid refresh token');
+    });
+
+    it('should not revoke another user\'s session', async () => {
+      const { session } = await service.createSession(userId);
+
+      await expect(service.revokeSession(crypto.randomUUID(), session.id)).rejects.toThrow(
+        'Session not found'
+      );
+      expect(await service.isSessionActive(session.id)).toBe(true);
+    });
+  });
+
+  describe('revokeAllSessions', () => {
+    it('should revoke every session of the user', async () => {
+      await service.createSession(userId);
+      await service.createSession(userId);
+
+      const revoked = await service.revokeAllSessions(userId);
+
+      expect(revoked).toBe(2);
+      expect(await service.listSessions(userId)).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Active Company Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Request, Response } from 'express';
+import { AuthService } from '../auth.service';
+import { db } from '../../../shared/db/client';
+import { verifyToken } from '../../../shared/utils/jwt';
+import { requireTenant } from '../../../shared/middleware/tenantValidation';
+
+// Users, companies and sessions live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+const sendEmail = vi.fn();
+vi.mock('../../email/email.service', () => ({
+  EmailService: vi.fn().mockImplementation(() => ({ sendEmail })),
+}));
+
+describe('Active company', () => {
+  let service: AuthService;
+  let email: string;
+  let userId: string;
+  let firstCompanyId: string;
+  let secondCompanyId: string;
+  let consoleSpy: any;
+
+  const password = 'Password123';
+
+  /**
+   * Create a company with the user as a member
+   */
+  const joinCompany = async (role: 'owner' | 'admin' | 'member'): Promise<string> => {
+    const companyId = crypto.randomUUID();
+    await db.companies.create({
+      id: companyId,
+      name: 'Tenant Co',
+      slug: `tenant-${companyId}`,
+      status: 'active',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    await db.companyMembers.create({ id: crypto.randomUUID(), companyId, userId, role, joinedAt: new Date() });
+    return companyId;
+  };
+
+  /**
+   * Sign in with the password and return the session tokens
+   */
+  const login = async () => {
+    const result: any = await service.login({ email, password });
+    return { token: result.token as string, refreshToken: result.refreshToken as string };
+  };
+
+  beforeEach(async () => {
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    service = new AuthService();
+    email = `tenant-${crypto.randomUUID()}@example.com`;
+    const result = await service.register({ email, password, name: 'Tenant User' });
+    userId = result.user.id;
+    firstCompanyId = await joinCompany('owner');
+    secondCompanyId = await joinCompany('member');
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it('should make the first company active on sign-in', async () => {
+    const { token } = await login();
+
+    expect(verifyToken(token)).toMatchObject({ activeCompanyId: firstCompanyId, companyRole: 'owner' });
+  });
+
+  it('should re-issue the token for another company and keep it across refreshes', async () => {
+    const { token, refreshToken } = await login();
+
+    const switched = await service.switchCompany(verifyToken(token), secondCompanyId);
+
+    expect(switched).toMatchObject({ activeCompanyId: secondCompanyId, companyRole: 'member', defaultCompanyId: null });
+    expect(verifyToken(switched.token)).toMatchObject({
+      userId,
+      sessionId: verifyToken(token).sessionId,
+      activeCompanyId: secondCompanyId,
+      companyRole: 'member',
+    });
+
+    const refreshed = await service.refresh(refreshToken);
+    expect(verifyToken(refreshed.token)).toMatchObject({ activeCompanyId: secondCompanyId, companyRole: 'member' });
+
+    // The next sign-in starts in the default company again
+    expect(verifyToken((await login()).token).activeCompanyId).toBe(firstCompanyId);
+  });
+
+  it('should refuse companies the user is not a member of', async () => {
+    const { token } = await login();
+
+    await expect(service.switchCompany(verifyToken(token), crypto.randomUUID())).rejects.toThrow(
+      'Not a member of this company'
+    );
+  });
+
+  it('should start sign-ins in the default company', async () => {
+    const { token } = await login();
+
+    const switched = await service.switchCompany(verifyToken(token), secondCompanyId, true);
+
+    expect(switched.defaultCompanyId).toBe(secondCompanyId);
+    expect(verifyToken((await login()).token)).toMatchObject({ activeCompanyId: secondCompanyId, companyRole: 'member' });
+  });
+
+  it('should drop a company the user has left on refresh', async () => {
+    const { token, refreshToken } = await login();
+    await service.switchCompany(verifyToken(token), secondCompanyId, true);
+    await db.companyMembers.delete(secondCompanyId, userId);
+
+    const refreshed = await service.refresh(refreshToken);
+
+    expect(verifyToken(refreshed.token)).toMatchObject({ activeCompanyId: firstCompanyId, companyRole: 'owner' });
+    expect(verifyToken((await login()).token).activeCompanyId).toBe(firstCompanyId);
+  });
+
+  it('should let tenant-scoped routes fall back to the active company', async () => {
+    const { token } = await login();
+    const req = { user: verifyToken(token), headers: {}, params: {} } as unknown as Request;
+    const res = { status: vi.fn().mockReturnThis(), json: vi.fn().mockReturnThis() } as unknown as Response;
+    const next = vi.fn();
+
+    requireTenant(req, res, next);
+    expect(req.tenantId).toBe(firstCompanyId);
+
+    // An explicit company still wins over the claim
+    req.headers['x-company-id'] = secondCompanyId;
+    requireTenant(req, res, next);
+    expect(req.tenantId).toBe(secondCompanyId);
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+});
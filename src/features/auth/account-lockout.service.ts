@@ -0,0 +1,283 @@
+import type { AccountLockoutStatus } from './auth.types';
+import type { AccountLockoutEventType } from '../../shared/db/schema/account-lockouts.schema';
+import type { User } from '../../shared/db/schema/users.schema';
+import { db } from '../../shared/db/client';
+import { AccountLockoutsRepository } from '../../shared/db/repositories/account-lockouts.repository';
+import { UsersRepository } from '../../shared/db/repositories/users.repository';
+import { OneTimeTokenService } from '../../shared/services/one-time-token.service';
+import { Throttle, ThrottledError } from '../../shared/utils/throttle';
+import { buildFrontendUrl } from '../../shared/utils/url';
+import { EmailService } from '../email/email.service';
+
+/**
+ * Consecutive failed logins that lock an account (default: 10)
+ */
+const LOCKOUT_THRESHOLD = Number(process.env.LOCKOUT_THRESHOLD) || 10;
+
+/**
+ * First lock period in minutes (default: 15); doubles with every further lockout, up to a day
+ */
+const LOCKOUT_DURATION_MINUTES = Number(process.env.LOCKOUT_DURATION_MINUTES) || 15;
+const MAX_LOCKOUT_DURATION_MINUTES = 24 * 60;
+
+/**
+ * Failures older than this no longer count towards a lockout
+ */
+const FAILED_ATTEMPT_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Failures allowed without delay; after that each failure doubles the wait
+ * before the next attempt (2s, 4s, 8s, ... up to 30s)
+ */
+const FREE_ATTEMPTS = 3;
+const MAX_DELAY_SECONDS = 30;
+
+/**
+ * Failed logins from one IP address across all accounts: at most 50 per 15 minutes
+ */
+const ipFailureThrottle = new Throttle({
+  limit: Number(process.env.LOGIN_IP_FAILURE_LIMIT) || 50,
+  windowMs: 15 * 60 * 1000,
+});
+
+/**
+ * Account Lockout Service
+ *
+ * Brute-force protection for password logins
+ * - Per account: progressive delays, then a temporary lockout with an unlock email
+ * - Per IP: failed logins across all accounts are capped
+ * - Lockouts, IP blocks and unlocks are recorded for auditing
+ */
+export class AccountLockoutService {
+  private lockoutsRepo: AccountLockoutsRepository;
+  private usersRepo: UsersRepository;
+  private oneTimeTokens: OneTimeTokenService;
+  private emailService: EmailService;
+
+  constructor() {
+    this.lockoutsRepo = new AccountLockoutsRepository(db);
+    this.usersRepo = new UsersRepository(db);
+    this.oneTimeTokens = new OneTimeTokenService();
+    this.emailService = new EmailService();
+  }
+
+  /**
+   * Check that a password login may be attempted
+   *
+   * @param email - Account email address
+   * @param ipAddress - Caller IP address
+   * @throws ThrottledError if the IP is blocked, the account is locked or the next attempt is delayed
+   */
+  async assertLoginAllowed(email: string, ipAddress?: string): Promise<void> {
+    if (ipAddress) {
+      const ipCheck = ipFailureThrottle.check(ipAddress);
+      if (!ipCheck.allowed) {
+        throw new ThrottledError('Too many failed login attempts, try again later', ipCheck.retryAfterSeconds);
+      }
+    }
+
+    const user = await this.usersRepo.findByEmail(email);
+    const lockout = user ? await this.lockoutsRepo.findByUserId(user.id) : null;
+    if (!lockout) {
+      return;
+    }
+
+    const now = Date.now();
+    if (lockout.lockedUntil && lockout.lockedUntil.getTime() > now) {
+      throw new ThrottledError('Account temporarily locked', secondsUntil(lockout.lockedUntil.getTime(), now));
+    }
+
+    const delaySeconds = progressiveDelaySeconds(lockout.failedAttempts);
+    if (delaySeconds > 0 && lockout.lastFailedAt) {
+      const nextAttemptAt = lockout.lastFailedAt.getTime() + delaySeconds * 1000;
+      if (nextAttemptAt > now) {
+        throw new ThrottledError('Too many failed login attempts, try again later', secondsUntil(nextAttemptAt, now));
+      }
+    }
+  }
+
+  /**
+   * Record a failed password login
+   *
+   * Locks the account (and emails an unlock link) once the threshold is reached.
+   *
+   * @param email - Email address the login was attempted for
+   * @param ipAddress - Caller IP address
+   */
+  async recordFailure(email: string, ipAddress?: string): Promise<void> {
+    if (ipAddress) {
+      await this.recordIpFailure(ipAddress);
+    }
+
+    const user = await this.usersRepo.findByEmail(email);
+    if (!user) {
+      return;
+    }
+
+    const now = new Date();
+    const lockout = await this.lockoutsRepo.findByUserId(user.id);
+    const stale = !lockout?.lastFailedAt || now.getTime() - lockout.lastFailedAt.getTime() > FAILED_ATTEMPT_WINDOW_MS;
+    const failedAttempts = (stale ? 0 : lockout!.failedAttempts) + 1;
+    const lockoutCount = lockout?.lockoutCount ?? 0;
+
+    if (failedAttempts < LOCKOUT_THRESHOLD) {
+      await this.lockoutsRepo.upsert({ userId: user.id, failedAttempts, lastFailedAt: now, lockedUntil: null, lockoutCount });
+      return;
+    }
+
+    const lockMinutes = Math.min(LOCKOUT_DURATION_MINUTES * 2 ** lockoutCount, MAX_LOCKOUT_DURATION_MINUTES);
+    const lockedUntil = new Date(now.getTime() + lockMinutes * 60 * 1000);
+
+    await this.lockoutsRepo.upsert({
+      userId: user.id,
+      failedAttempts: 0,
+      lastFailedAt: now,
+      lockedUntil,
+      lockoutCount: lockoutCount + 1,
+    });
+    await this.lockoutsRepo.recordEvent({ userId: user.id, event: 'account_locked', ipAddress, lockedUntil });
+    console.log(`🔒 Account ${user.id} locked until ${lockedUntil.toISOString()} after ${failedAttempts} failed logins`);
+
+    await this.sendUnlockEmail(user, lockMinutes);
+  }
+
+  /**
+   * Clear failed login state after a successful login
+   */
+  async recordSuccess(userId: string): Promise<void> {
+    await this.lockoutsRepo.delete(userId);
+  }
+
+  /**
+   * Unlock an account with the token from the unlock email
+   *
+   * @param token - Token from the unlock link
+   * @throws Error if the token is invalid, expired or already used
+   */
+  async unlockWithToken(token: string): Promise<void> {
+    let userId: string;
+    try {
+      ({ userId } = await this.oneTimeTokens.consume(token, 'account_unlock'));
+    } catch {
+      throw new Error('Invalid or expired unlock link');
+    }
+
+    await this.unlock(userId, 'unlocked_by_email');
+  }
+
+  /**
+   * Unlock an account on behalf of a super admin
+   *
+   * @param userId - Locked account
+   * @param adminId - Super admin performing the unlock
+   * @throws Error if the user does not exist or is not locked
+   */
+  async unlockByAdmin(userId: string, adminId: string): Promise<void> {
+    const user = await this.usersRepo.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const lockout = await this.lockoutsRepo.findByUserId(userId);
+    if (!lockout?.lockedUntil || lockout.lockedUntil.getTime() <= Date.now()) {
+      throw new Error('Account is not locked');
+    }
+
+    await this.unlock(userId, 'unlocked_by_admin', adminId);
+  }
+
+  /**
+   * Get an account's lockout state and recent lockout events
+   *
+   * @throws Error if the user does not exist
+   */
+  async getStatus(userId: string): Promise<AccountLockoutStatus> {
+    const user = await this.usersRepo.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const lockout = await this.lockoutsRepo.findByUserId(userId);
+    const locked = !!lockout?.lockedUntil && lockout.lockedUntil.getTime() > Date.now();
+    const events = await this.lockoutsRepo.findEvents(userId);
+
+    return {
+      locked,
+      lockedUntil: locked ? lockout!.lockedUntil!.toISOString() : null,
+      failedAttempts: lockout?.failedAttempts ?? 0,
+      events: events.map((event) => ({
+        event: event.event as AccountLockoutEventType,
+        ipAddress: event.ipAddress,
+        actorId: event.actorId,
+        lockedUntil: event.lockedUntil?.toISOString() ?? null,
+        createdAt: event.createdAt.toISOString(),
+      })),
+    };
+  }
+
+  /**
+   * Clear the lock and failed attempts, and record who unlocked the account
+   *
+   * The lockout count is kept, so a further lockout still lasts longer.
+   */
+  private async unlock(userId: string, event: AccountLockoutEventType, actorId?: string): Promise<void> {
+    const lockout = await this.lockoutsRepo.findByUserId(userId);
+    if (lockout) {
+      await this.lockoutsRepo.upsert({ ...lockout, failedAttempts: 0, lockedUntil: null });
+    }
+    await this.lockoutsRepo.recordEvent({ userId, event, actorId });
+  }
+
+  /**
+   * Count a failed login against the caller's IP, recording when it becomes blocked
+   */
+  private async recordIpFailure(ipAddress: string): Promise<void> {
+    ipFailureThrottle.attempt(ipAddress);
+
+    const ipCheck = ipFailureThrottle.check(ipAddress);
+    if (!ipCheck.allowed) {
+      const lockedUntil = new Date(Date.now() + ipCheck.retryAfterSeconds * 1000);
+      await this.lockoutsRepo.recordEvent({ event: 'ip_blocked', ipAddress, lockedUntil });
+      console.log(`🔒 IP ${ipAddress} blocked until ${lockedUntil.toISOString()} after repeated failed logins`);
+    }
+  }
+
+  /**
+   * Email the account owner an unlock link, valid while the lock lasts
+   */
+  private async sendUnlockEmail(user: User, lockMinutes: number): Promise<void> {
+    try {
+      const { token } = await this.oneTimeTokens.issue(user.id, 'account_unlock', user.email, lockMinutes);
+
+      await this.emailService.sendEmail({
+        templateName: 'account-locked',
+        toAddress: user.email,
+        templateData: {
+          userName: user.name,
+          unlockUrl: buildFrontendUrl('/unlock-account', { token }),
+          lockMinutes,
+        },
+      });
+    } catch (error) {
+      console.error('Account unlock email error:', error);
+    }
+  }
+}
+
+/**
+ * Wait required before the next attempt after the given number of consecutive failures
+ */
+function progressiveDelaySeconds(failedAttempts: number): number {
+  if (failedAttempts < FREE_ATTEMPTS) {
+    return 0;
+  }
+
+  return Math.min(2 ** (failedAttempts - FREE_ATTEMPTS + 1), MAX_DELAY_SECONDS);
+}
+
+/**
+ * Whole seconds from now until a timestamp (at least 1)
+ */
+function secondsUntil(time: number, now: number): number {
+  return Math.max(1, Math.ceil((time - now) / 1000));
+}
@@ -0,0 +1,58 @@
+/**
+ * Auth Webhooks Router
+ *
+ * Public webhook endpoints for identity providers that manage users
+ * (AUTH_PROVIDER=clerk). No authentication: requests are verified by signature.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { ClerkWebhookService } from './clerk-webhook.service';
+import { ApiResponse } from '../../shared/utils/response';
+
+export function createAuthWebhooksRouter(): Router {
+  const router = Router();
+  const clerkWebhookService = new ClerkWebhookService();
+
+  /**
+   * POST /api/auth/webhooks/clerk
+   *
+   * Sync users from Clerk (user.created, user.updated, user.deleted).
+   * Signed with Svix (svix-id, svix-timestamp, svix-signature headers) using
+   * CLERK_WEBHOOK_SECRET. Non-2xx responses are retried by Clerk.
+   *
+   * @returns {status: 'success', data: {result: 'synced' | 'deleted' | 'ignored'}}
+   */
+  router.post('/clerk', async (req: Request, res: Response) => {
+    if (!clerkWebhookService.isConfigured()) {
+      return ApiResponse.notFound(res, 'Clerk webhooks are not configured');
+    }
+
+    let event;
+    try {
+      event = clerkWebhookService.verifyEvent(req.rawBody ?? Buffer.from(''), {
+        id: req.header('svix-id'),
+        timestamp: req.header('svix-timestamp'),
+        signature: req.header('svix-signature'),
+      });
+    } catch (error) {
+      console.error('Clerk webhook rejected:', error);
+      return ApiResponse.unauthorized(res, 'Invalid webhook signature');
+    }
+
+    try {
+      const result = await clerkWebhookService.handleEvent(event);
+
+      return ApiResponse.success(res, { result });
+    } catch (error) {
+      console.error('Clerk webhook error:', error);
+
+      if (error instanceof Error && error.message === 'Email already registered with another sign-in method') {
+        return ApiResponse.conflict(res, error.message);
+      }
+
+      return ApiResponse.error(res, 'Failed to process webhook', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  return router;
+}
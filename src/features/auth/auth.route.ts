@@ -1,8 +1,34 @@
 import { Router, Request, Response } from 'express';
 import { AuthService } from './auth.service';
-import { registerSchema, loginSchema } from './auth.types';
+import { SessionService } from './session.service';
+import { MfaService } from './mfa.service';
+import {
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  switchCompanySchema,
+  clientCredentialsSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  magicLinkRequestSchema,
+  unlockAccountSchema,
+  mfaCodeSchema,
+  mfaVerifySchema,
+  passkeyRegisterVerifySchema,
+  passkeyLoginVerifySchema,
+  externalLoginCallbackSchema,
+  externalSessionSchema,
+} from './auth.types';
+import type { VerifyEmailDTO } from './auth.types';
 import { validateBody } from './auth.validator';
+import { authenticateJWT, requireSessionToken } from '../../shared/middleware/auth';
 import { ApiResponse } from '../../shared/utils/response';
+import { getClientInfo } from '../../shared/utils/request';
+import { ThrottledError } from '../../shared/utils/throttle';
+import { PasswordPolicyError } from '../../shared/services/password-policy.service';
+import { createAuthWebhooksRouter } from './auth-webhooks.route';
+import { ServiceAccountsService } from '../companies/service-accounts.service';
 
 /**
  * Create Auth Router
@@ -12,6 +38,9 @@ import { ApiResponse } from '../../shared/utils/response';
 export function createAuthRouter(): Router {
   const router = Router();
   const service = new AuthService();
+  const sessionService = new SessionService();
+  const mfaService = new MfaService();
+  const serviceAccountsService = new ServiceAccountsService();
 
   /**
    * POST /api/auth/register
@@ -19,21 +48,33 @@ export function createAuthRouter(): Router {
    * Register a new user account
    *
    * @body RegisterDTO
-   * @returns {status: 'success', data: {user: PublicUser, token: string}}
+   * @returns {status: 'success', data: {user: PublicUser, token: string, refreshToken: string, expiresIn: number}}
    */
   router.post('/register', validateBody(registerSchema), async (req: Request, res: Response) => {
     try {
-      const result = await service.register(req.body);
+      const result = await service.register(req.body, getClientInfo(req));
 
       return ApiResponse.created(res, result);
     } catch (error) {
       console.error('Registration error:', error);
 
       // Handle specific errors
+      if (error instanceof PasswordPolicyError) {
+        return ApiResponse.validationError(
+          res,
+          error.violations.map((message) => ({ field: 'password', message, code: 'ERR_VALIDATION_003' }))
+        );
+      }
       if (error instanceof Error) {
         if (error.message === 'Email already registered') {
           return ApiResponse.conflict(res, error.message);
         }
+        if (
+          error.message === 'Sign in with your identity provider' ||
+          error.message === 'Password does not meet the requirements'
+        ) {
+          return ApiResponse.badRequest(res, error.message);
+        }
       }
 
       return ApiResponse.error(res, 'Registration failed', 500, 'ERR_INTERNAL_001');
@@ -45,27 +86,837 @@ export function createAuthRouter(): Router {
    *
    * Login with email and password
    *
+   * Accounts with MFA enabled receive an MFA challenge instead of tokens;
+   * complete it at POST /api/auth/mfa/verify. Repeated failures delay further
+   * attempts (429) and eventually lock the account (423). `passwordChangeRequired`
+   * is set when the password is older than the company password policy allows.
+   *
    * @body LoginDTO
-   * @returns {status: 'success', data: {user: PublicUser, token: string}}
+   * @returns {status: 'success', data: {user: PublicUser, token: string, refreshToken: string, expiresIn: number}}
+   *   or {status: 'success', data: {mfaRequired: true, mfaToken: string, expiresIn: number}}
    */
   router.post('/login', validateBody(loginSchema), async (req: Request, res: Response) => {
     try {
-      const result = await service.login(req.body);
+      const result = await service.login(req.body, getClientInfo(req));
 
       return ApiResponse.success(res, result);
     } catch (error) {
       console.error('Login error:', error);
 
+      // Brute-force protection
+      if (error instanceof ThrottledError) {
+        res.setHeader('Retry-After', error.retryAfterSeconds.toString());
+        if (error.message === 'Account temporarily locked') {
+          return ApiResponse.error(res, error.message, 423, 'ERR_AUTH_011');
+        }
+        return ApiResponse.error(res, error.message, 429, 'ERR_RATE_LIMIT_001');
+      }
+
       // Handle specific errors
       if (error instanceof Error) {
         if (error.message === 'Invalid credentials') {
           return ApiResponse.unauthorized(res, error.message);
         }
+        if (error.message === 'Sign in with your identity provider') {
+          return ApiResponse.badRequest(res, error.message);
+        }
+        if (error.message === 'Additional sign-in step required, sign in with your identity provider') {
+          return ApiResponse.unauthorized(res, error.message);
+        }
+        if (error.message === 'Email not verified') {
+          return ApiResponse.error(res, error.message, 403, 'ERR_AUTH_009');
+        }
+        if (error.message === 'Too many attempts, try again later') {
+          return ApiResponse.error(res, error.message, 429, 'ERR_RATE_LIMIT_001');
+        }
+        if (error.message === 'Authentication service temporarily unavailable') {
+          return ApiResponse.error(res, error.message, 503, 'ERR_AUTH_SERVICE_UNAVAILABLE');
+        }
       }
 
       return ApiResponse.error(res, 'Login failed', 500, 'ERR_INTERNAL_001');
     }
   });
 
+  /**
+   * GET /api/auth/external/authorize
+   *
+   * Start a redirect login at the configured identity provider (AUTH_PROVIDER=oidc).
+   * Send the browser to `authorizationUrl`; the provider redirects back to the
+   * frontend with `code` and `state`, which are posted to /external/callback.
+   *
+   * @returns {status: 'success', data: {authorizationUrl: string, state: string, expiresIn: number}}
+   */
+  router.get('/external/authorize', async (_req: Request, res: Response) => {
+    try {
+      const result = await service.startExternalLogin();
+
+      return ApiResponse.success(res, result);
+    } catch (error) {
+      console.error('External login error:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Redirect login is not supported by the configured auth provider') {
+          return ApiResponse.badRequest(res, error.message);
+        }
+        if (error.message === 'Authentication service temporarily unavailable') {
+          return ApiResponse.error(res, error.message, 503, 'ERR_AUTH_SERVICE_UNAVAILABLE');
+        }
+      }
+
+      return ApiResponse.error(res, 'External login failed', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * POST /api/auth/external/callback
+   *
+   * Complete a redirect login. Users are created on their first login.
+   *
+   * @body {code: string, state: string}
+   * @returns {status: 'success', data: {user: PublicUser, token: string, refreshToken: string, expiresIn: number}}
+   */
+  router.post('/external/callback', validateBody(externalLoginCallbackSchema), async (req: Request, res: Response) => {
+    try {
+      const result = await service.completeExternalLogin(req.body, getClientInfo(req));
+
+      return ApiResponse.success(res, result);
+    } catch (error) {
+      console.error('External login callback error:', error);
+
+      if (error instanceof Error) {
+        switch (error.message) {
+          case 'Invalid or expired login request':
+          case 'Invalid authorization code':
+          case 'Invalid ID token':
+            return ApiResponse.unauthorized(res, error.message);
+          case 'Identity provider did not return an email address':
+          case 'Identity provider did not return an ID token':
+          case 'Redirect login is not supported by the configured auth provider':
+            return ApiResponse.badRequest(res, error.message);
+          case 'Email already registered with another sign-in method':
+            return ApiResponse.conflict(res, error.message);
+          case 'Authentication service temporarily unavailable':
+            return ApiResponse.error(res, error.message, 503, 'ERR_AUTH_SERVICE_UNAVAILABLE');
+        }
+      }
+
+      return ApiResponse.error(res, 'External login failed', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * POST /api/auth/external/session
+   *
+   * Exchange a session token from the identity provider's frontend SDK
+   * (AUTH_PROVIDER=clerk) for our own tokens. Users are synced by the
+   * provider's webhook before they can sign in.
+   *
+   * @body {sessionToken: string}
+   * @returns {status: 'success', data: {user: PublicUser, token: string, refreshToken: string, expiresIn: number}}
+   */
+  router.post('/external/session', validateBody(externalSessionSchema), async (req: Request, res: Response) => {
+    try {
+      const result = await service.exchangeExternalSession(req.body, getClientInfo(req));
+
+      return ApiResponse.success(res, result);
+    } catch (error) {
+      console.error('External session error:', error);
+
+      if (error instanceof Error) {
+        switch (error.message) {
+          case 'Invalid session token':
+            return ApiResponse.unauthorized(res, error.message);
+          case 'User not found':
+            return ApiResponse.notFound(res, error.message);
+          case 'Session tokens are not supported by the configured auth provider':
+            return ApiResponse.badRequest(res, error.message);
+          case 'Authentication service temporarily unavailable':
+            return ApiResponse.error(res, error.message, 503, 'ERR_AUTH_SERVICE_UNAVAILABLE');
+        }
+      }
+
+      return ApiResponse.error(res, 'External login failed', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * POST /api/auth/refresh
+   *
+   * Exchange a refresh token for a new access token and refresh token.
+   * The presented refresh token is rotated and cannot be used again.
+   *
+   * @body {refreshToken: string}
+   * @returns {status: 'success', data: {user: PublicUser, token: string, refreshToken: string, expiresIn: number}}
+   */
+  router.post('/refresh', validateBody(refreshTokenSchema), async (req: Request, res: Response) => {
+    try {
+      const result = await service.refresh(req.body.refreshToken, getClientInfo(req));
+
+      return ApiResponse.success(res, result);
+    } catch (error) {
+      console.error('Token refresh error:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Invalid refresh token' || error.message === 'Refresh token expired') {
+          return ApiResponse.unauthorized(res, error.message);
+        }
+      }
+
+      return ApiResponse.error(res, 'Token refresh failed', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * POST /api/auth/switch-company
+   *
+   * Re-issue the access token for another company the user is a member of.
+   * The token carries `activeCompanyId` and `companyRole`; refreshed tokens keep the company.
+   *
+   * @body {companyId: string, makeDefault?: boolean}
+   * @returns {status: 'success', data: {token: string, expiresIn: number, activeCompanyId: string, companyRole: string, defaultCompanyId: string | null}}
+   */
+  router.post(
+    '/switch-company',
+    authenticateJWT,
+    requireSessionToken,
+    validateBody(switchCompanySchema),
+    async (req: Request, res: Response) => {
+      try {
+        const result = await service.switchCompany(req.user!, req.body.companyId, req.body.makeDefault);
+
+        return ApiResponse.success(res, result);
+      } catch (error) {
+        console.error('Switch company error:', error);
+
+        if (error instanceof Error) {
+          if (error.message === 'Not a member of this company') {
+            return ApiResponse.forbidden(res, error.message);
+          }
+          if (error.message === 'Session not found') {
+            return ApiResponse.unauthorized(res, error.message);
+          }
+        }
+
+        return ApiResponse.error(res, 'Failed to switch company', 500, 'ERR_INTERNAL_001');
+      }
+    }
+  );
+
+  /**
+   * POST /api/auth/token
+   *
+   * Client credentials grant: exchange a service account's client ID and secret
+   * for a short-lived access token (no refresh token)
+   *
+   * @body {grantType: 'client_credentials', clientId: string, clientSecret: string}
+   * @returns {status: 'success', data: {accessToken: string, tokenType: 'Bearer', expiresIn: number}}
+   */
+  router.post('/token', validateBody(clientCredentialsSchema), async (req: Request, res: Response) => {
+    try {
+      const result = await serviceAccountsService.issueToken(req.body.clientId, req.body.clientSecret);
+
+      return ApiResponse.success(res, result);
+    } catch (error) {
+      console.error('Client credentials error:', error);
+
+      if (error instanceof Error && error.message === 'Invalid client credentials') {
+        return ApiResponse.unauthorized(res, error.message);
+      }
+
+      return ApiResponse.error(res, 'Token request failed', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * POST /api/auth/logout
+   *
+   * Revoke the current access token and its session.
+   * Signing out with an impersonation token ends the impersonation.
+   *
+   * @returns {status: 'success', data: {message: string}}
+   */
+  router.post('/logout', authenticateJWT, async (req: Request, res: Response) => {
+    try {
+      await service.logout(req.user!);
+
+      return ApiResponse.success(res, { message: 'Logged out successfully' });
+    } catch (error) {
+      console.error('Logout error:', error);
+      return ApiResponse.error(res, 'Logout failed', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * POST /api/auth/password/forgot
+   *
+   * Send a password reset email. Always responds the same way, whether or
+   * not the email is registered.
+   *
+   * @body {email: string}
+   * @returns {status: 'success', data: {message: string}}
+   */
+  router.post('/password/forgot', validateBody(forgotPasswordSchema), async (req: Request, res: Response) => {
+    await service.forgotPassword(req.body.email);
+
+    return ApiResponse.success(res, {
+      message: 'If the email is registered, a password reset link has been sent',
+    });
+  });
+
+  /**
+   * POST /api/auth/password/reset
+   *
+   * Set a new password with a token from the reset email.
+   * Signs the user out of every session. A password rejected by the password
+   * policy (400, ERR_VALIDATION_003) leaves the token usable.
+   *
+   * @body {token: string, newPassword: string}
+   * @returns {status: 'success', data: {message: string}}
+   */
+  router.post('/password/reset', validateBody(resetPasswordSchema), async (req: Request, res: Response) => {
+    try {
+      await service.resetPassword(req.body);
+
+      return ApiResponse.success(res, { message: 'Password reset successfully' });
+    } catch (error) {
+      console.error('Password reset error:', error);
+
+      if (error instanceof PasswordPolicyError) {
+        return ApiResponse.validationError(
+          res,
+          error.violations.map((message) => ({ field: 'newPassword', message, code: 'ERR_VALIDATION_003' }))
+        );
+      }
+      if (error instanceof Error) {
+        if (error.message === 'Invalid or expired reset token') {
+          return ApiResponse.badRequest(res, error.message, 'ERR_AUTH_008');
+        }
+        if (
+          error.message === 'Email is required to confirm this code' ||
+          error.message === 'Password does not meet the requirements'
+        ) {
+          return ApiResponse.badRequest(res, error.message);
+        }
+      }
+
+      return ApiResponse.error(res, 'Password reset failed', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * Verify an email address with a token from the verification email
+   */
+  const handleVerifyEmail = async (dto: VerifyEmailDTO, res: Response) => {
+    try {
+      await service.verifyEmail(dto.token, dto.email);
+
+      return ApiResponse.success(res, { message: 'Email verified successfully' });
+    } catch (error) {
+      console.error('Email verification error:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Invalid or expired verification token') {
+          return ApiResponse.badRequest(res, error.message, 'ERR_AUTH_008');
+        }
+        if (error.message === 'Email is required to confirm this code') {
+          return ApiResponse.badRequest(res, error.message);
+        }
+      }
+
+      return ApiResponse.error(res, 'Email verification failed', 500, 'ERR_INTERNAL_001');
+    }
+  };
+
+  /**
+   * GET /api/auth/verify-email?token=...
+   *
+   * Verify an email address (link target)
+   *
+   * @returns {status: 'success', data: {message: string}}
+   */
+  router.get('/verify-email', async (req: Request, res: Response) => {
+    const validation = verifyEmailSchema.safeParse(req.query);
+    if (!validation.success) {
+      return ApiResponse.badRequest(res, 'Verification token is required');
+    }
+
+    return handleVerifyEmail(validation.data, res);
+  });
+
+  /**
+   * POST /api/auth/verify-email
+   *
+   * Verify an email address
+   *
+   * @body {token: string}
+   * @returns {status: 'success', data: {message: string}}
+   */
+  router.post('/verify-email', validateBody(verifyEmailSchema), async (req: Request, res: Response) => {
+    return handleVerifyEmail(req.body, res);
+  });
+
+  /**
+   * POST /api/auth/verify-email/resend
+   *
+   * Resend the verification email to the current user.
+   * Throttled to one per minute and five per hour.
+   *
+   * @returns {status: 'success', data: {message: string}}
+   */
+  router.post('/verify-email/resend', authenticateJWT, async (req: Request, res: Response) => {
+    try {
+      await service.resendVerificationEmail(req.user!.userId);
+
+      return ApiResponse.success(res, { message: 'Verification email sent' });
+    } catch (error) {
+      console.error('Resend verification email error:', error);
+
+      if (error instanceof ThrottledError) {
+        res.setHeader('Retry-After', error.retryAfterSeconds.toString());
+        return ApiResponse.error(res, error.message, 429, 'ERR_RATE_LIMIT_001');
+      }
+
+      if (error instanceof Error) {
+        if (error.message === 'User not found') {
+          return ApiResponse.notFound(res, error.message);
+        }
+        if (error.message === 'Email already verified') {
+          return ApiResponse.conflict(res, error.message);
+        }
+      }
+
+      return ApiResponse.error(res, 'Failed to send verification email', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * POST /api/auth/magic-link
+   *
+   * Email a single-use sign-in link. Always responds the same way, whether
+   * or not the email is registered. Throttled to one per minute and five
+   * per hour for each address.
+   *
+   * @body {email: string}
+   * @returns {status: 'success', data: {message: string}}
+   */
+  router.post('/magic-link', validateBody(magicLinkRequestSchema), async (req: Request, res: Response) => {
+    try {
+      await service.requestMagicLink(req.body.email);
+
+      return ApiResponse.success(res, {
+        message: 'If the email is registered, a sign-in link has been sent',
+      });
+    } catch (error) {
+      console.error('Magic link request error:', error);
+
+      if (error instanceof ThrottledError) {
+        res.setHeader('Retry-After', error.retryAfterSeconds.toString());
+        return ApiResponse.error(res, error.message, 429, 'ERR_RATE_LIMIT_001');
+      }
+
+      return ApiResponse.error(res, 'Failed to send sign-in link', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * GET /api/auth/magic-link/:token
+   *
+   * Sign in with a magic link. Accounts with MFA enabled get an MFA
+   * challenge (`mfaRequired`, `mfaToken`) like POST /api/auth/login.
+   *
+   * @returns {status: 'success', data: {user: PublicUser, token: string, refreshToken: string, expiresIn: number}}
+   */
+  router.get('/magic-link/:token', async (req: Request, res: Response) => {
+    try {
+      const result = await service.loginWithMagicLink(req.params.token, getClientInfo(req));
+
+      return ApiResponse.success(res, result);
+    } catch (error) {
+      console.error('Magic link login error:', error);
+
+      if (error instanceof Error && error.message === 'Invalid or expired sign-in link') {
+        return ApiResponse.unauthorized(res, error.message);
+      }
+
+      return ApiResponse.error(res, 'Magic link login failed', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * POST /api/auth/unlock
+   *
+   * Unlock an account with the token from the account-locked email
+   *
+   * @body {token: string}
+   * @returns {status: 'success', data: {message: string}}
+   */
+  router.post('/unlock', validateBody(unlockAccountSchema), async (req: Request, res: Response) => {
+    try {
+      await service.unlockAccount(req.body.token);
+
+      return ApiResponse.success(res, { message: 'Account unlocked' });
+    } catch (error) {
+      console.error('Account unlock error:', error);
+
+      if (error instanceof Error && error.message === 'Invalid or expired unlock link') {
+        return ApiResponse.badRequest(res, error.message, 'ERR_AUTH_008');
+      }
+
+      return ApiResponse.error(res, 'Account unlock failed', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * POST /api/auth/mfa/verify
+   *
+   * Complete an MFA login challenge with a TOTP code or a recovery code
+   *
+   * @body {mfaToken: string, code: string}
+   * @returns {status: 'success', data: {user: PublicUser, token: string, refreshToken: string, expiresIn: number}}
+   */
+  router.post('/mfa/verify', validateBody(mfaVerifySchema), async (req: Request, res: Response) => {
+    try {
+      const result = await service.verifyMfa(req.body, getClientInfo(req));
+
+      return ApiResponse.success(res, result);
+    } catch (error) {
+      console.error('MFA verification error:', error);
+
+      if (error instanceof ThrottledError) {
+        res.setHeader('Retry-After', error.retryAfterSeconds.toString());
+        return ApiResponse.error(res, error.message, 429, 'ERR_RATE_LIMIT_001');
+      }
+
+      if (error instanceof Error) {
+        if (error.message === 'Invalid or expired MFA challenge' || error.message === 'Invalid MFA code') {
+          return ApiResponse.unauthorized(res, error.message);
+        }
+      }
+
+      return ApiResponse.error(res, 'MFA verification failed', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * Map MFA management errors to responses
+   */
+  const handleMfaError = (error: unknown, res: Response, fallbackMessage: string) => {
+    console.error(`${fallbackMessage}:`, error);
+
+    if (error instanceof Error) {
+      switch (error.message) {
+        case 'User not found':
+          return ApiResponse.notFound(res, error.message);
+        case 'MFA already enabled':
+          return ApiResponse.conflict(res, error.message);
+        case 'MFA is required by your company':
+        case 'MFA is managed by your identity provider':
+          return ApiResponse.forbidden(res, error.message);
+        case 'Invalid MFA code':
+        case 'MFA not enabled':
+        case 'MFA enrollment not started':
+          return ApiResponse.badRequest(res, error.message, 'ERR_AUTH_008');
+      }
+    }
+
+    return ApiResponse.error(res, fallbackMessage, 500, 'ERR_INTERNAL_001');
+  };
+
+  /**
+   * GET /api/auth/mfa
+   *
+   * MFA status of the current user
+   *
+   * @returns {status: 'success', data: {mfa: MfaStatus}}
+   */
+  router.get('/mfa', authenticateJWT, requireSessionToken, async (req: Request, res: Response) => {
+    try {
+      const mfa = await mfaService.getStatus(req.user!.userId);
+
+      return ApiResponse.success(res, { mfa });
+    } catch (error) {
+      return handleMfaError(error, res, 'Failed to get MFA status');
+    }
+  });
+
+  /**
+   * POST /api/auth/mfa/enroll
+   *
+   * Start TOTP enrolment. Render `otpauthUri` as a QR code.
+   *
+   * @returns {status: 'success', data: {secret: string, otpauthUri: string}}
+   */
+  router.post('/mfa/enroll', authenticateJWT, requireSessionToken, async (req: Request, res: Response) => {
+    try {
+      const enrollment = await mfaService.startEnrollment(req.user!.userId);
+
+      return ApiResponse.success(res, enrollment);
+    } catch (error) {
+      return handleMfaError(error, res, 'MFA enrollment failed');
+    }
+  });
+
+  /**
+   * POST /api/auth/mfa/enroll/confirm
+   *
+   * Confirm enrolment with a first code from the authenticator app
+   *
+   * @body {code: string}
+   * @returns {status: 'success', data: {recoveryCodes: string[]}}
+   */
+  router.post(
+    '/mfa/enroll/confirm',
+    authenticateJWT,
+    requireSessionToken,
+    validateBody(mfaCodeSchema),
+    async (req: Request, res: Response) => {
+      try {
+        const recoveryCodes = await mfaService.confirmEnrollment(req.user!.userId, req.body.code);
+
+        return ApiResponse.success(res, { recoveryCodes });
+      } catch (error) {
+        return handleMfaError(error, res, 'MFA enrollment confirmation failed');
+      }
+    }
+  );
+
+  /**
+   * POST /api/auth/mfa/recovery-codes
+   *
+   * Replace all recovery codes
+   *
+   * @body {code: string}
+   * @returns {status: 'success', data: {recoveryCodes: string[]}}
+   */
+  router.post(
+    '/mfa/recovery-codes',
+    authenticateJWT,
+    requireSessionToken,
+    validateBody(mfaCodeSchema),
+    async (req: Request, res: Response) => {
+      try {
+        const recoveryCodes = await mfaService.regenerateRecoveryCodes(req.user!.userId, req.body.code);
+
+        return ApiResponse.success(res, { recoveryCodes });
+      } catch (error) {
+        return handleMfaError(error, res, 'Failed to regenerate recovery codes');
+      }
+    }
+  );
+
+  /**
+   * POST /api/auth/mfa/disable
+   *
+   * Disable MFA (not allowed while a company requires it)
+   *
+   * @body {code: string}
+   * @returns {status: 'success', data: {message: string}}
+   */
+  router.post(
+    '/mfa/disable',
+    authenticateJWT,
+    requireSessionToken,
+    validateBody(mfaCodeSchema),
+    async (req: Request, res: Response) => {
+      try {
+        await mfaService.disable(req.user!.userId, req.body.code);
+
+        return ApiResponse.success(res, { message: 'MFA disabled' });
+      } catch (error) {
+        return handleMfaError(error, res, 'Failed to disable MFA');
+      }
+    }
+  );
+
+  /**
+   * Map passkey errors to responses
+   */
+  const handlePasskeyError = (error: unknown, res: Response, fallbackMessage: string) => {
+    console.error(`${fallbackMessage}:`, error);
+
+    if (error instanceof Error) {
+      switch (error.message) {
+        case 'User not found':
+        case 'Passkey not found':
+          return ApiResponse.notFound(res, error.message);
+        case 'Passkey already registered':
+          return ApiResponse.conflict(res, error.message);
+        case 'Invalid or expired passkey challenge':
+        case 'Invalid passkey response':
+          return ApiResponse.badRequest(res, error.message, 'ERR_AUTH_008');
+      }
+    }
+
+    return ApiResponse.error(res, fallbackMessage, 500, 'ERR_INTERNAL_001');
+  };
+
+  /**
+   * POST /api/auth/passkeys/register/options
+   *
+   * Start registering a passkey. Pass `options` to navigator.credentials.create().
+   *
+   * @returns {status: 'success', data: {challengeId: string, options: object}}
+   */
+  router.post(
+    '/passkeys/register/options',
+    authenticateJWT,
+    requireSessionToken,
+    async (req: Request, res: Response) => {
+      try {
+        const result = await service.getPasskeyRegistrationOptions(req.user!.userId);
+
+        return ApiResponse.success(res, result);
+      } catch (error) {
+        return handlePasskeyError(error, res, 'Passkey registration failed');
+      }
+    }
+  );
+
+  /**
+   * POST /api/auth/passkeys/register/verify
+   *
+   * Finish registering a passkey with the browser's attestation
+   *
+   * @body {challengeId: string, credential: object, name?: string}
+   * @returns {status: 'success', data: {passkey: PasskeyInfo}}
+   */
+  router.post(
+    '/passkeys/register/verify',
+    authenticateJWT,
+    requireSessionToken,
+    validateBody(passkeyRegisterVerifySchema),
+    async (req: Request, res: Response) => {
+      try {
+        const passkey = await service.registerPasskey(req.user!.userId, req.body);
+
+        return ApiResponse.created(res, { passkey });
+      } catch (error) {
+        return handlePasskeyError(error, res, 'Passkey registration failed');
+      }
+    }
+  );
+
+  /**
+   * POST /api/auth/passkeys/login/options
+   *
+   * Start a passwordless login. Pass `options` to navigator.credentials.get().
+   *
+   * @returns {status: 'success', data: {challengeId: string, options: object}}
+   */
+  router.post('/passkeys/login/options', async (_req: Request, res: Response) => {
+    try {
+      const result = await service.getPasskeyLoginOptions();
+
+      return ApiResponse.success(res, result);
+    } catch (error) {
+      return handlePasskeyError(error, res, 'Passkey login failed');
+    }
+  });
+
+  /**
+   * POST /api/auth/passkeys/login/verify
+   *
+   * Finish a passwordless login with the browser's assertion
+   *
+   * @body {challengeId: string, credential: object}
+   * @returns {status: 'success', data: {user: PublicUser, token: string, refreshToken: string, expiresIn: number}}
+   */
+  router.post('/passkeys/login/verify', validateBody(passkeyLoginVerifySchema), async (req: Request, res: Response) => {
+    try {
+      const result = await service.loginWithPasskey(req.body, getClientInfo(req));
+
+      return ApiResponse.success(res, result);
+    } catch (error) {
+      console.error('Passkey login error:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Invalid or expired passkey challenge' || error.message === 'Invalid passkey response') {
+          return ApiResponse.unauthorized(res, error.message);
+        }
+      }
+
+      return ApiResponse.error(res, 'Passkey login failed', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * GET /api/auth/passkeys
+   *
+   * List the current user's passkeys
+   *
+   * @returns {status: 'success', data: {passkeys: PasskeyInfo[]}}
+   */
+  router.get('/passkeys', authenticateJWT, requireSessionToken, async (req: Request, res: Response) => {
+    try {
+      const passkeys = await service.listPasskeys(req.user!.userId);
+
+      return ApiResponse.success(res, { passkeys });
+    } catch (error) {
+      return handlePasskeyError(error, res, 'Failed to list passkeys');
+    }
+  });
+
+  /**
+   * DELETE /api/auth/passkeys/:id
+   *
+   * Delete one of the current user's passkeys
+   *
+   * @returns {status: 'success', data: {message: string}}
+   */
+  router.delete('/passkeys/:id', authenticateJWT, requireSessionToken, async (req: Request, res: Response) => {
+    try {
+      await service.deletePasskey(req.user!.userId, req.params.id);
+
+      return ApiResponse.success(res, { message: 'Passkey deleted successfully' });
+    } catch (error) {
+      return handlePasskeyError(error, res, 'Failed to delete passkey');
+    }
+  });
+
+  /**
+   * GET /api/auth/sessions
+   *
+   * List active sessions (signed-in devices) of the current user
+   *
+   * @returns {status: 'success', data: {sessions: AuthSessionInfo[]}}
+   */
+  router.get('/sessions', authenticateJWT, requireSessionToken, async (req: Request, res: Response) => {
+    try {
+      const sessions = await sessionService.listSessions(req.user!.userId, req.user!.sessionId);
+
+      return ApiResponse.success(res, { sessions });
+    } catch (error) {
+      console.error('List sessions error:', error);
+      return ApiResponse.error(res, 'Failed to list sessions', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * DELETE /api/auth/sessions/:id
+   *
+   * Revoke one of the current user's sessions (sign out a device)
+   *
+   * @returns {status: 'success', data: {message: string}}
+   */
+  router.delete('/sessions/:id', authenticateJWT, requireSessionToken, async (req: Request, res: Response) => {
+    try {
+      await sessionService.revokeSession(req.user!.userId, req.params.id);
+
+      return ApiResponse.success(res, { message: 'Session revoked successfully' });
+    } catch (error) {
+      console.error('Revoke session error:', error);
+
+      if (error instanceof Error && error.message === 'Session not found') {
+        return ApiResponse.notFound(res, error.message);
+      }
+
+      return ApiResponse.error(res, 'Failed to revoke session', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  // Identity provider webhooks (public, verified by signature)
+  router.use('/webhooks', createAuthWebhooksRouter());
+
   return router;
 }
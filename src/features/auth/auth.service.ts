@@ -1,11 +1,79 @@
-import type { PublicUser, AuthProvider } from '@vertical-vibing/shared-types';
-import type { RegisterDTO, LoginDTO, AuthResponse } from './auth.types';
+import type { PublicUser, AuthProvider, CompanyMember } from '@vertical-vibing/shared-types';
+import type {
+  RegisterDTO,
+  LoginDTO,
+  AuthSessionResponse,
+  LoginResponse,
+  MfaChallengeResponse,
+  MfaVerifyDTO,
+  ResetPasswordDTO,
+  PasskeyCeremonyOptions,
+  PasskeyInfo,
+  PasskeyRegisterVerifyDTO,
+  PasskeyLoginVerifyDTO,
+  ExternalLoginCallbackDTO,
+  ExternalSessionDTO,
+  SwitchCompanyResponse,
+} from './auth.types';
 import type { User } from '../../shared/db/schema/users.schema';
+import type { LoginMethod } from '../../shared/db/schema/login-events.schema';
+import type { ClientInfo } from '../../shared/utils/request';
 import { db } from '../../shared/db/client';
 import { UsersRepository } from '../../shared/db/repositories/users.repository';
-import { generateToken } from '../../shared/utils/jwt';
+import { CompaniesRepository } from '../../shared/db/repositories/companies.repository';
+import {
+  generateToken,
+  generatePurposeToken,
+  verifyPurposeToken,
+  ACCESS_TOKEN_TTL_SECONDS,
+} from '../../shared/utils/jwt';
+import type { AccessTokenPayload } from '../../shared/utils/jwt';
+import { tokenRevocationService } from '../../shared/services/token-revocation.service';
+import { impersonationService } from '../../shared/services/impersonation.service';
+import { LoginHistoryService } from '../../shared/services/login-history.service';
+import { OneTimeTokenService } from '../../shared/services/one-time-token.service';
+import { PasswordPolicyService } from '../../shared/services/password-policy.service';
+import { Throttle, ThrottledError } from '../../shared/utils/throttle';
+import type { CreationOptionsJSON, RequestOptionsJSON } from '../../shared/utils/webauthn';
 import { AuthProviderFactory } from './providers/auth-provider.factory';
-import { AuthProviderError } from './providers/auth-provider.interface';
+import { AuthProviderError, supportsRedirectLogin, supportsSessionTokens } from './providers/auth-provider.interface';
+import type { AuthorizationRequest } from './providers/auth-provider.interface';
+import { InhouseAuthProvider } from './providers/inhouse/inhouse-auth.provider';
+import { SessionService } from './session.service';
+import { MfaService } from './mfa.service';
+import { AccountLockoutService } from './account-lockout.service';
+import { CompanyInvitationsService } from '../companies/invitations.service';
+
+/**
+ * MFA challenge lifetime in seconds (time to enter the code after the password)
+ */
+const MFA_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+/**
+ * Verification email resends: at most 5 per hour, one per minute, per user
+ */
+const verificationEmailThrottle = new Throttle({
+  limit: 5,
+  windowMs: 60 * 60 * 1000,
+  cooldownMs: 60 * 1000,
+});
+
+/**
+ * Magic sign-in links: at most 5 per hour, one per minute, per email address
+ */
+const magicLinkThrottle = new Throttle({
+  limit: 5,
+  windowMs: 60 * 60 * 1000,
+  cooldownMs: 60 * 1000,
+});
+
+/**
+ * MFA code attempts: at most 5 per 5 minutes per user (brute-force protection)
+ */
+const mfaAttemptThrottle = new Throttle({
+  limit: 5,
+  windowMs: 5 * 60 * 1000,
+});
 
 /**
  * Authentication Service
@@ -15,21 +83,41 @@ import { AuthProviderError } from './providers/auth-provider.interface';
  */
 export class AuthService {
   private usersRepo: UsersRepository;
+  private companiesRepo: CompaniesRepository;
+  private sessionService: SessionService;
+  private mfaService: MfaService;
   private authProvider;
+  private inhouseProvider: InhouseAuthProvider;
+  private oneTimeTokens: OneTimeTokenService;
+  private lockoutService: AccountLockoutService;
+  private passwordPolicy: PasswordPolicyService;
+  private loginHistory: LoginHistoryService;
+  private invitations: CompanyInvitationsService;
 
   constructor() {
     this.usersRepo = new UsersRepository(db);
+    this.companiesRepo = new CompaniesRepository(db);
+    this.sessionService = new SessionService();
+    this.mfaService = new MfaService();
+    this.oneTimeTokens = new OneTimeTokenService();
+    this.lockoutService = new AccountLockoutService();
+    this.passwordPolicy = new PasswordPolicyService();
+    this.loginHistory = new LoginHistoryService();
+    this.invitations = new CompanyInvitationsService();
     this.authProvider = AuthProviderFactory.create();
+    // Passkeys and magic links are first-party, whichever provider is configured
+    this.inhouseProvider = new InhouseAuthProvider();
   }
 
   /**
    * Register a new user
    *
    * @param dto - Registration data
-   * @returns User object and JWT token
+   * @param client - Caller IP and user agent (recorded on the session)
+   * @returns User object, access token and refresh token
    * @throws Error if email already exists or registration fails
    */
-  async register(dto: RegisterDTO): Promise<AuthResponse['data']> {
+  async register(dto: RegisterDTO, client: ClientInfo = {}): Promise<AuthSessionResponse> {
     try {
       // Delegate to auth provider
       const authResult = await this.authProvider.register({
@@ -41,21 +129,18 @@ export class AuthService {
       // Sync user to our database (provider may have already created it)
       const user = await this.syncUserToDatabase(authResult);
 
-      // Generate our JWT token (includes authProvider and super admin flag)
-      const token = generateToken({
-        userId: user.id,
-        email: user.email,
-        authProvider: user.authProvider as AuthProvider,
-        ...(user.isSuperAdmin && { isSuperAdmin: true }),
-      });
+      // Ask the user to confirm their address (registration succeeds even if this fails).
+      // External providers (e.g. Cognito) send their own confirmation code on sign-up.
+      if (!user.emailVerified && this.authProvider.name === 'inhouse') {
+        await this.sendVerificationEmail(user.email);
+      }
 
-      // Convert to public user
-      const publicUser = this.toPublicUser(user);
+      // Join the companies this address was invited to (verified addresses only;
+      // unverified accounts join once they verify, see verifyEmail)
+      await this.invitations.acceptPendingForUser(user);
 
-      return {
-        user: publicUser,
-        token,
-      };
+      // Open a server-side session and issue tokens
+      return this.createSessionResponse(user, client);
     } catch (error) {
       if (error instanceof AuthProviderError) {
         throw new Error(error.message);
@@ -67,11 +152,25 @@ export class AuthService {
   /**
    * Login with email and password
    *
+   * Accounts with MFA enabled get an MFA challenge instead of tokens;
+   * the challenge is completed at verifyMfa. Failed attempts are tracked
+   * per account and per IP (progressive delays, then a temporary lockout).
+   * Successful and failed attempts are recorded in the login history.
+   *
    * @param dto - Login credentials
-   * @returns User object and JWT token
+   * @param client - Caller IP and user agent (recorded on the session)
+   * @returns User object, access token and refresh token, or an MFA challenge
+   * @throws ThrottledError if the account is locked, the IP is blocked or the attempt comes too soon
    * @throws Error if credentials are invalid
    */
-  async login(dto: LoginDTO): Promise<AuthResponse['data']> {
+  async login(dto: LoginDTO, client: ClientInfo = {}): Promise<LoginResponse> {
+    try {
+      await this.lockoutService.assertLoginAllowed(dto.email, client.ipAddress);
+    } catch (error) {
+      await this.loginHistory.recordFailure(dto.email, client, 'password', 'login_blocked', this.authProvider.name);
+      throw error;
+    }
+
     try {
       // Delegate to auth provider
       const authResult = await this.authProvider.login({
@@ -81,24 +180,21 @@ export class AuthService {
 
       // Sync user to our database (get latest data)
       const user = await this.syncUserToDatabase(authResult);
+      await this.lockoutService.recordSuccess(user.id);
 
-      // Generate our JWT token (includes authProvider and super admin flag)
-      const token = generateToken({
-        userId: user.id,
-        email: user.email,
-        authProvider: user.authProvider as AuthProvider,
-        ...(user.isSuperAdmin && { isSuperAdmin: true }),
-      });
-
-      // Convert to public user
-      const publicUser = this.toPublicUser(user);
-
-      return {
-        user: publicUser,
-        token,
-      };
+      return await this.completeLogin(user, client, 'password');
     } catch (error) {
       if (error instanceof AuthProviderError) {
+        if (error.code === 'ERR_AUTH_INVALID_CREDENTIALS' || error.code === 'ERR_AUTH_USER_NOT_FOUND') {
+          await this.lockoutService.recordFailure(dto.email, client.ipAddress);
+          await this.loginHistory.recordFailure(
+            dto.email,
+            client,
+            'password',
+            'invalid_credentials',
+            this.authProvider.name
+          );
+        }
         // Return specific error for authentication service unavailable
         if (error.code === 'ERR_AUTH_SERVICE_UNAVAILABLE') {
           throw new Error('Authentication service temporarily unavailable');
@@ -109,32 +205,699 @@ export class AuthService {
     }
   }
 
+  /**
+   * Email a single-use sign-in link (passwordless login)
+   *
+   * Throttled per address. Never reveals whether the email is registered:
+   * delivery failures are logged, not thrown.
+   *
+   * @param email - Account email address
+   * @throws ThrottledError if links are requested too often for the address
+   */
+  async requestMagicLink(email: string): Promise<void> {
+    const throttle = magicLinkThrottle.attempt(email.toLowerCase());
+    if (!throttle.allowed) {
+      throw new ThrottledError('Too many sign-in links requested', throttle.retryAfterSeconds);
+    }
+
+    try {
+      await this.inhouseProvider.sendMagicLink(email);
+    } catch (error) {
+      console.error('Magic link error:', error);
+    }
+  }
+
+  /**
+   * Sign in with a token from a magic link email
+   *
+   * Continues like a password login: accounts with MFA get an MFA challenge.
+   *
+   * @param token - Token from the sign-in link
+   * @param client - Caller IP and user agent (recorded on the session)
+   * @returns User object, access token and refresh token, or an MFA challenge
+   * @throws Error if the link is invalid, expired or already used
+   */
+  async loginWithMagicLink(token: string, client: ClientInfo = {}): Promise<LoginResponse> {
+    try {
+      const authResult = await this.inhouseProvider.verifyMagicLink(token);
+
+      const user = await this.syncUserToDatabase(authResult);
+
+      return await this.completeLogin(user, client, 'magic_link');
+    } catch (error) {
+      if (error instanceof AuthProviderError) {
+        throw new Error(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Unlock an account with the token from the account-locked email
+   *
+   * @param token - Token from the unlock link
+   * @throws Error if the link is invalid, expired or already used
+   */
+  async unlockAccount(token: string): Promise<void> {
+    await this.lockoutService.unlockWithToken(token);
+  }
+
+  /**
+   * Complete an MFA login challenge
+   *
+   * @param dto - Challenge token from login and a TOTP or recovery code
+   * @param client - Caller IP and user agent (recorded on the session)
+   * @returns User object, access token and refresh token
+   * @throws Error if the challenge or code is invalid
+   * @throws ThrottledError if too many codes were tried
+   */
+  async verifyMfa(dto: MfaVerifyDTO, client: ClientInfo = {}): Promise<AuthSessionResponse> {
+    let userId: string;
+    let method: LoginMethod;
+    try {
+      const challenge = verifyPurposeToken(dto.mfaToken, 'mfa_challenge');
+      userId = challenge.userId;
+      method = (challenge.method as LoginMethod | undefined) ?? 'password';
+    } catch {
+      throw new Error('Invalid or expired MFA challenge');
+    }
+
+    const throttle = mfaAttemptThrottle.attempt(userId);
+    if (!throttle.allowed) {
+      throw new ThrottledError('Too many MFA attempts', throttle.retryAfterSeconds);
+    }
+
+    const user = await this.usersRepo.findById(userId);
+    if (!user) {
+      throw new Error('Invalid or expired MFA challenge');
+    }
+
+    try {
+      await this.mfaService.verifyCode(user.id, dto.code);
+    } catch (error) {
+      await this.loginHistory.recordFailure(user.email, client, method, 'invalid_mfa_code', user.authProvider);
+      throw error;
+    }
+    mfaAttemptThrottle.reset(user.id);
+
+    const response = await this.createSessionResponse(user, client, true, method);
+    if (await this.passwordPolicy.isExpired(user)) {
+      response.passwordChangeRequired = true;
+    }
+
+    return response;
+  }
+
+  /**
+   * Start a redirect login at the configured identity provider (OIDC)
+   *
+   * @returns URL of the provider's login page
+   * @throws Error if the configured provider only supports password login
+   */
+  async startExternalLogin(): Promise<AuthorizationRequest> {
+    const provider = this.authProvider;
+    if (!supportsRedirectLogin(provider)) {
+      throw new Error('Redirect login is not supported by the configured auth provider');
+    }
+
+    try {
+      return await provider.createAuthorizationRequest();
+    } catch (error) {
+      if (error instanceof AuthProviderError) {
+        throw new Error(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Complete a redirect login with the code returned by the identity provider
+   *
+   * Users are provisioned on their first login. The access token carries
+   * `mfa: true` if the provider reports multi-factor authentication (amr claim).
+   *
+   * @param dto - Authorization code and state from the redirect
+   * @param client - Caller IP and user agent (recorded on the session)
+   * @returns User object, access token and refresh token
+   * @throws Error if the state, code or ID token is invalid
+   */
+  async completeExternalLogin(
+    dto: ExternalLoginCallbackDTO,
+    client: ClientInfo = {}
+  ): Promise<AuthSessionResponse> {
+    const provider = this.authProvider;
+    if (!supportsRedirectLogin(provider)) {
+      throw new Error('Redirect login is not supported by the configured auth provider');
+    }
+
+    try {
+      const authResult = await provider.completeAuthorization(dto.code, dto.state);
+
+      const user = await this.syncUserToDatabase(authResult);
+
+      return this.createSessionResponse(user, client, authResult.mfa, 'external');
+    } catch (error) {
+      if (error instanceof AuthProviderError) {
+        throw new Error(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Exchange a session token from the identity provider's frontend SDK (Clerk)
+   * for our own session
+   *
+   * Users must already be synced by the provider's webhook.
+   *
+   * @param dto - Provider session token
+   * @param client - Caller IP and user agent (recorded on the session)
+   * @returns User object, access token and refresh token
+   * @throws Error if the token is invalid or the user has not been synced yet
+   */
+  async exchangeExternalSession(dto: ExternalSessionDTO, client: ClientInfo = {}): Promise<AuthSessionResponse> {
+    const provider = this.authProvider;
+    if (!supportsSessionTokens(provider)) {
+      throw new Error('Session tokens are not supported by the configured auth provider');
+    }
+
+    try {
+      const session = await provider.verifySessionToken(dto.sessionToken);
+
+      const user = await this.usersRepo.findByExternalId(provider.name, session.externalId);
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      return this.createSessionResponse(user, client, session.mfa, 'external');
+    } catch (error) {
+      if (error instanceof AuthProviderError) {
+        throw new Error(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Exchange the one-time code from a single sign-on callback (SAML) for a session
+   *
+   * The code is issued by the ACS after the IdP response has been validated
+   * and the user provisioned.
+   *
+   * @param code - One-time code from the frontend callback URL
+   * @param client - Caller IP and user agent (recorded on the session)
+   * @returns User object, access token and refresh token
+   * @throws Error if the code is invalid, used or expired
+   */
+  async completeSsoLogin(code: string, client: ClientInfo = {}): Promise<AuthSessionResponse> {
+    const record = await this.oneTimeTokens.consume(code, 'sso_login');
+
+    const user = await this.usersRepo.findById(record.userId);
+    if (!user) {
+      throw new Error('Invalid or expired token');
+    }
+
+    return this.createSessionResponse(user, client, false, 'sso');
+  }
+
+  /**
+   * Start a passwordless passkey login
+   *
+   * @returns Challenge ID and options for navigator.credentials.get()
+   */
+  async getPasskeyLoginOptions(): Promise<PasskeyCeremonyOptions<RequestOptionsJSON>> {
+    return this.inhouseProvider.generatePasskeyLoginOptions();
+  }
+
+  /**
+   * Complete a passwordless passkey login
+   *
+   * Passkeys require user verification (PIN or biometrics), so the
+   * session counts as multi-factor and no MFA challenge follows.
+   *
+   * @param dto - Challenge ID and the browser's assertion
+   * @param client - Caller IP and user agent (recorded on the session)
+   * @returns User object, access token and refresh token
+   * @throws Error if the challenge or assertion is invalid
+   */
+  async loginWithPasskey(dto: PasskeyLoginVerifyDTO, client: ClientInfo = {}): Promise<AuthSessionResponse> {
+    try {
+      const authResult = await this.inhouseProvider.verifyPasskeyLogin(dto.challengeId, dto.credential);
+
+      const user = await this.syncUserToDatabase(authResult);
+
+      return this.createSessionResponse(user, client, true, 'passkey');
+    } catch (error) {
+      if (error instanceof AuthProviderError) {
+        throw new Error(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Start registering a passkey for the current user
+   *
+   * @param userId - Internal user ID
+   * @returns Challenge ID and options for navigator.credentials.create()
+   * @throws Error if the user is not found
+   */
+  async getPasskeyRegistrationOptions(userId: string): Promise<PasskeyCeremonyOptions<CreationOptionsJSON>> {
+    try {
+      return await this.inhouseProvider.generatePasskeyRegistrationOptions(userId);
+    } catch (error) {
+      if (error instanceof AuthProviderError) {
+        throw new Error(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Finish registering a passkey for the current user
+   *
+   * @param userId - Internal user ID
+   * @param dto - Challenge ID, the browser's attestation and an optional label
+   * @returns The stored passkey
+   * @throws Error if the challenge or attestation is invalid
+   */
+  async registerPasskey(userId: string, dto: PasskeyRegisterVerifyDTO): Promise<PasskeyInfo> {
+    try {
+      return await this.inhouseProvider.verifyPasskeyRegistration(
+        userId,
+        dto.challengeId,
+        dto.credential,
+        dto.name
+      );
+    } catch (error) {
+      if (error instanceof AuthProviderError) {
+        throw new Error(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List the current user's passkeys
+   */
+  async listPasskeys(userId: string): Promise<PasskeyInfo[]> {
+    return this.inhouseProvider.listPasskeys(userId);
+  }
+
+  /**
+   * Delete one of the current user's passkeys
+   *
+   * @throws Error if the passkey does not belong to the user
+   */
+  async deletePasskey(userId: string, passkeyId: string): Promise<void> {
+    try {
+      await this.inhouseProvider.deletePasskey(userId, passkeyId);
+    } catch (error) {
+      if (error instanceof AuthProviderError) {
+        throw new Error(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Exchange a refresh token for a new access/refresh token pair
+   *
+   * The refresh token is rotated: the presented token stops working immediately
+   *
+   * @param refreshToken - Current refresh token
+   * @param client - Caller IP and user agent
+   * @returns User object, new access token and new refresh token
+   * @throws Error if the refresh token is invalid or expired
+   */
+  async refresh(refreshToken: string, client: ClientInfo = {}): Promise<AuthSessionResponse> {
+    const { session, refreshToken: newRefreshToken } = await this.sessionService.rotateRefreshToken(
+      refreshToken,
+      client
+    );
+
+    const user = await this.usersRepo.findById(session.userId);
+    if (!user) {
+      await this.sessionService.revokeAllSessions(session.userId, 'user_deleted');
+      throw new Error('Invalid refresh token');
+    }
+
+    // Keep the session's company unless the user has left it
+    const activeMember = await this.resolveActiveCompany(user, session.activeCompanyId);
+    if ((activeMember?.companyId ?? null) !== session.activeCompanyId) {
+      await this.sessionService.setActiveCompany(user.id, session.id, activeMember?.companyId ?? null);
+    }
+
+    return {
+      user: this.toPublicUser(user),
+      token: this.generateAccessToken(user, session.id, session.mfaVerified, activeMember),
+      refreshToken: newRefreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    };
+  }
+
+  /**
+   * Re-issue the access token of the current session for another company
+   *
+   * The session remembers the company, so refreshed tokens keep acting on it.
+   *
+   * @param token - Verified payload of the caller's access token (a session token)
+   * @param companyId - Company to act on (the user must be a member)
+   * @param makeDefault - Also make it the company active after sign-in
+   * @throws Error if the user is not a member of the company or the session is gone
+   */
+  async switchCompany(token: AccessTokenPayload, companyId: string, makeDefault = false): Promise<SwitchCompanyResponse> {
+    const user = token.sessionId ? await this.usersRepo.findById(token.userId) : null;
+    if (!user || !token.sessionId) {
+      throw new Error('Session not found');
+    }
+
+    const member = await this.companiesRepo.getMember(companyId, user.id);
+    if (!member) {
+      throw new Error('Not a member of this company');
+    }
+
+    const session = await this.sessionService.setActiveCompany(user.id, token.sessionId, companyId);
+
+    let defaultCompanyId = user.defaultCompanyId;
+    if (makeDefault && defaultCompanyId !== companyId) {
+      await this.usersRepo.update(user.id, { defaultCompanyId: companyId });
+      defaultCompanyId = companyId;
+    }
+
+    return {
+      token: this.generateAccessToken(user, session.id, session.mfaVerified, member),
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      activeCompanyId: companyId,
+      companyRole: member.role,
+      defaultCompanyId,
+    };
+  }
+
+  /**
+   * Logout: revoke the current access token and the session behind it (or end an impersonation)
+   *
+   * @param token - Verified payload of the caller's access token
+   */
+  async logout(token: AccessTokenPayload): Promise<void> {
+    if (token.impersonationId) {
+      // Ends the impersonation and revokes its token
+      await impersonationService.end(token.impersonationId, 'logout');
+      return;
+    }
+
+    await tokenRevocationService.revokeToken(token, 'logout');
+
+    if (!token.sessionId) {
+      return;
+    }
+
+    try {
+      await this.sessionService.revokeSession(token.userId, token.sessionId, 'logout');
+    } catch (error) {
+      // Already revoked - logout is idempotent
+      if (!(error instanceof Error && error.message === 'Session not found')) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Request a password reset email
+   *
+   * Never reveals whether the email is registered: failures are logged, not thrown
+   *
+   * @param email - Account email address
+   */
+  async forgotPassword(email: string): Promise<void> {
+    try {
+      await this.authProvider.resetPassword(email);
+    } catch (error) {
+      console.error('Forgot password error:', error);
+    }
+  }
+
+  /**
+   * Reset a password with a token from the reset email
+   *
+   * Signs the user out everywhere: all sessions and access tokens are revoked
+   *
+   * @param dto - Reset token (or provider code with the email) and new password
+   * @throws Error if the token is invalid, expired or already used
+   */
+  async resetPassword(dto: ResetPasswordDTO): Promise<void> {
+    try {
+      const { userId } = await this.authProvider.confirmPasswordReset(dto.token, dto.newPassword, dto.email);
+
+      if (userId) {
+        await tokenRevocationService.revokeAllForUser(userId, 'password_reset');
+      }
+    } catch (error) {
+      if (error instanceof AuthProviderError) {
+        throw new Error(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Verify an email address with a token from the verification email
+   *
+   * @param token - Verification token (or provider code)
+   * @param email - User email (required with provider codes, e.g. Cognito)
+   * @throws Error if the token is invalid, expired or already used
+   */
+  async verifyEmail(token: string, email?: string): Promise<void> {
+    try {
+      const result = await this.authProvider.verifyEmail(token, email);
+
+      // The address is now proven: join the companies it was invited to
+      const user = result.userId ? await this.usersRepo.findById(result.userId) : null;
+      if (user) {
+        await this.invitations.acceptPendingForUser(user);
+      }
+    } catch (error) {
+      if (error instanceof AuthProviderError) {
+        throw new Error(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resend the verification email to the current user (throttled)
+   *
+   * @param userId - Internal user ID
+   * @throws Error if the user is not found or already verified
+   * @throws ThrottledError if resends are requested too often
+   */
+  async resendVerificationEmail(userId: string): Promise<void> {
+    const user = await this.usersRepo.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.emailVerified) {
+      throw new Error('Email already verified');
+    }
+
+    const throttle = verificationEmailThrottle.attempt(userId);
+    if (!throttle.allowed) {
+      throw new ThrottledError('Too many verification emails requested', throttle.retryAfterSeconds);
+    }
+
+    try {
+      await this.authProvider.sendVerificationEmail(user.email);
+    } catch (error) {
+      if (error instanceof AuthProviderError) {
+        throw new Error(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Finish a first-factor login: MFA challenge if enabled, otherwise a new session
+   *
+   * The session response flags pending MFA enrolment and expired passwords.
+   */
+  private async completeLogin(user: User, client: ClientInfo, method: LoginMethod): Promise<LoginResponse> {
+    // Second factor (in-house accounts; external providers run their own MFA)
+    if (user.authProvider === 'inhouse' && (await this.mfaService.isEnabled(user.id))) {
+      return this.createMfaChallenge(user, method);
+    }
+
+    // Open a server-side session and issue tokens
+    const response = await this.createSessionResponse(user, client, false, method);
+    if (await this.mfaService.isRequired(user.id)) {
+      response.mfaEnrollmentRequired = true;
+    }
+    if (await this.passwordPolicy.isExpired(user)) {
+      response.passwordChangeRequired = true;
+    }
+
+    return response;
+  }
+
+  /**
+   * Create a session for a user and build the auth response
+   *
+   * Logins (given a method) are recorded in the login history; registration is not.
+   */
+  private async createSessionResponse(
+    user: User,
+    client: ClientInfo,
+    mfa = false,
+    method?: LoginMethod
+  ): Promise<AuthSessionResponse> {
+    const activeMember = await this.resolveActiveCompany(user);
+    const { session, refreshToken } = await this.sessionService.createSession(
+      user.id,
+      client,
+      mfa,
+      activeMember?.companyId ?? null
+    );
+
+    if (method) {
+      await this.loginHistory.recordSuccess(user, client, method, mfa);
+    }
+
+    return {
+      user: this.toPublicUser(user),
+      token: this.generateAccessToken(user, session.id, mfa, activeMember),
+      refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    };
+  }
+
+  /**
+   * Issue an MFA challenge token (no session is created yet)
+   *
+   * The token remembers the first factor's login method for the login history.
+   */
+  private createMfaChallenge(user: User, method: LoginMethod): MfaChallengeResponse {
+    return {
+      mfaRequired: true,
+      mfaToken: generatePurposeToken('mfa_challenge', { userId: user.id, method }, MFA_CHALLENGE_TTL_SECONDS),
+      expiresIn: MFA_CHALLENGE_TTL_SECONDS,
+    };
+  }
+
+  /**
+   * Send the verification email, logging (not throwing) delivery failures
+   */
+  private async sendVerificationEmail(email: string): Promise<void> {
+    try {
+      await this.authProvider.sendVerificationEmail(email);
+    } catch (error) {
+      console.error('Verification email error:', error);
+    }
+  }
+
+  /**
+   * Pick the company a session acts on: the requested one, else the user's default,
+   * else their first membership (only companies the user is still a member of)
+   */
+  private async resolveActiveCompany(user: User, preferredCompanyId?: string | null): Promise<CompanyMember | null> {
+    for (const companyId of [preferredCompanyId, user.defaultCompanyId]) {
+      const member = companyId ? await this.companiesRepo.getMember(companyId, user.id) : null;
+      if (member) {
+        return member;
+      }
+    }
+
+    const [company] = await this.companiesRepo.findByUserId(user.id);
+    return company ? this.companiesRepo.getMember(company.id, user.id) : null;
+  }
+
+  /**
+   * Generate our access token (includes authProvider, super admin flag, session, MFA flag and active company)
+   */
+  private generateAccessToken(
+    user: User,
+    sessionId: string,
+    mfa = false,
+    activeMember: CompanyMember | null = null
+  ): string {
+    return generateToken({
+      userId: user.id,
+      email: user.email,
+      authProvider: user.authProvider as AuthProvider,
+      sessionId,
+      ...(mfa && { mfa: true }),
+      ...(user.isSuperAdmin && { isSuperAdmin: true }),
+      ...(activeMember && { activeCompanyId: activeMember.companyId, companyRole: activeMember.role }),
+    });
+  }
+
   /**
    * Sync user data to our database
    *
    * Ensures all users (regardless of auth provider) exist in our database
    * This is critical for IAM, subscriptions, and other features
    *
-   * @param authResult - Result from auth provider
+   * - In-house results (no externalId) must already exist
+   * - External users are matched by provider + externalId and refreshed from the claims
+   * - Unknown external users are provisioned; an in-house or other-provider
+   *   account with the same email is never taken over
+   *
+   * @param authResult - Result from auth provider (or provider webhook)
+   * @param provider - Provider that authenticated the user
    * @returns User from our database
    */
-  private async syncUserToDatabase(authResult: {
-    userId: string;
-    email: string;
-    name: string;
-    externalId?: string | null;
-    metadata?: Record<string, any> | null;
-  }): Promise<User> {
-    // User already exists (in-house provider creates in DB)
-    const existingUser = await this.usersRepo.findById(authResult.userId);
-    if (existingUser) {
+  async syncUserToDatabase(
+    authResult: {
+      userId: string;
+      email: string;
+      name: string;
+      externalId?: string | null;
+      metadata?: Record<string, any> | null;
+      emailVerified?: boolean;
+    },
+    provider: string = this.authProvider.name
+  ): Promise<User> {
+    if (!authResult.externalId) {
+      // In-house provider creates the user in our DB
+      const existingUser = await this.usersRepo.findById(authResult.userId);
+      if (!existingUser) {
+        throw new Error('User sync failed - user not found in database');
+      }
       return existingUser;
     }
 
-    // For external providers, create user in our DB if doesn't exist
-    // This shouldn't normally happen as providers should create the user
-    // but it's a safety net
-    throw new Error('User sync failed - user not found in database');
+    const profile = {
+      name: authResult.name,
+      externalMetadata: authResult.metadata ?? null,
+      ...(authResult.emailVerified && { emailVerified: true }),
+    };
+
+    const linkedUser = await this.usersRepo.findByExternalId(provider, authResult.externalId);
+    if (linkedUser) {
+      // Follow email changes at the provider unless the new address is taken
+      const emailChanged = linkedUser.email !== authResult.email;
+      const canUpdateEmail = emailChanged && !(await this.usersRepo.emailExists(authResult.email));
+
+      const updated = await this.usersRepo.update(linkedUser.id, {
+        ...profile,
+        ...(canUpdateEmail && { email: authResult.email, emailVerified: !!authResult.emailVerified }),
+      });
+      return updated ?? linkedUser;
+    }
+
+    const userWithEmail = await this.usersRepo.findByEmail(authResult.email);
+    if (userWithEmail) {
+      throw new Error('Email already registered with another sign-in method');
+    }
+
+    return this.usersRepo.create({
+      email: authResult.email,
+      passwordHash: null,
+      name: authResult.name,
+      emailVerified: !!authResult.emailVerified,
+      authProvider: provider,
+      externalId: authResult.externalId,
+      externalMetadata: authResult.metadata ?? null,
+    });
   }
 
   /**
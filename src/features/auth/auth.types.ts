@@ -1,3 +1,6 @@
+import { z } from 'zod';
+import type { AuthResponse, CompanyRole } from '@vertical-vibing/shared-types';
+
 // Re-export shared types
 export type {
   RegisterDTO,
@@ -14,3 +17,232 @@ export {
   updateProfileSchema,
   changePasswordSchema,
 } from '@vertical-vibing/shared-types';
+
+/**
+ * Auth response with session tokens
+ *
+ * `token` is the short-lived access token; `refreshToken` is exchanged
+ * at POST /api/auth/refresh for a new pair
+ */
+export type AuthSessionResponse = AuthResponse['data'] & {
+  refreshToken: string;
+  expiresIn: number; // Access token lifetime in seconds
+  mfaEnrollmentRequired?: boolean; // A company requires MFA and the user has not enrolled yet
+  passwordChangeRequired?: boolean; // The password is older than the company password policy allows
+};
+
+/**
+ * Switch the company the current session acts on
+ */
+export const switchCompanySchema = z.object({
+  companyId: z.string().uuid('Invalid company ID'),
+  makeDefault: z.boolean().default(false), // Also make it the company active after sign-in
+});
+
+export type SwitchCompanyDTO = z.infer<typeof switchCompanySchema>;
+
+/**
+ * Access token re-issued for another company (the refresh token is unchanged)
+ */
+export interface SwitchCompanyResponse {
+  token: string;
+  expiresIn: number; // Access token lifetime in seconds
+  activeCompanyId: string;
+  companyRole: CompanyRole;
+  defaultCompanyId: string | null;
+}
+
+/**
+ * Public view of a server-side session (one per signed-in device)
+ */
+export interface AuthSessionInfo {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+export type RefreshTokenDTO = z.infer<typeof refreshTokenSchema>;
+
+/**
+ * Client credentials grant for service accounts
+ */
+export const clientCredentialsSchema = z.object({
+  grantType: z.literal('client_credentials'),
+  clientId: z.string().min(1, 'Client ID is required'),
+  clientSecret: z.string().min(1, 'Client secret is required'),
+});
+
+export type ClientCredentialsDTO = z.infer<typeof clientCredentialsSchema>;
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address').toLowerCase(),
+});
+
+export type ForgotPasswordDTO = z.infer<typeof forgotPasswordSchema>;
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  email: z.string().email('Invalid email address').toLowerCase().optional(), // Required with Cognito codes
+  newPassword: z
+    .string()
+    .min(8, 'Password must be at least 8 characters')
+    .max(100, 'Password must be at most 100 characters'),
+});
+
+export type ResetPasswordDTO = z.infer<typeof resetPasswordSchema>;
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+  email: z.string().email('Invalid email address').toLowerCase().optional(), // Required with Cognito codes
+});
+
+export type VerifyEmailDTO = z.infer<typeof verifyEmailSchema>;
+
+export const magicLinkRequestSchema = z.object({
+  email: z.string().email('Invalid email address').toLowerCase(),
+});
+
+export type MagicLinkRequestDTO = z.infer<typeof magicLinkRequestSchema>;
+
+export const unlockAccountSchema = z.object({
+  token: z.string().min(1, 'Unlock token is required'),
+});
+
+export type UnlockAccountDTO = z.infer<typeof unlockAccountSchema>;
+
+/**
+ * Lockout state of an account with its recent lockout events (super admins)
+ */
+export interface AccountLockoutStatus {
+  locked: boolean;
+  lockedUntil: string | null;
+  failedAttempts: number; // Consecutive failed logins since the last success or lockout
+  events: Array<{
+    event: 'account_locked' | 'ip_blocked' | 'unlocked_by_email' | 'unlocked_by_admin';
+    ipAddress: string | null;
+    actorId: string | null; // Super admin who unlocked the account
+    lockedUntil: string | null;
+    createdAt: string;
+  }>;
+}
+
+/**
+ * First login step for accounts with MFA enabled
+ *
+ * `mfaToken` is exchanged together with a TOTP or recovery code at
+ * POST /api/auth/mfa/verify for the regular auth response
+ */
+export interface MfaChallengeResponse {
+  mfaRequired: true;
+  mfaToken: string;
+  expiresIn: number; // Challenge lifetime in seconds
+}
+
+export type LoginResponse = AuthSessionResponse | MfaChallengeResponse;
+
+/**
+ * MFA status of the current user
+ */
+export interface MfaStatus {
+  enabled: boolean;
+  required: boolean; // Required by one of the user's companies
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * TOTP enrolment details (the URI is rendered as a QR code)
+ */
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export const mfaCodeSchema = z.object({
+  code: z.string().trim().min(6, 'Code is required').max(20),
+});
+
+export type MfaCodeDTO = z.infer<typeof mfaCodeSchema>;
+
+export const mfaVerifySchema = z.object({
+  mfaToken: z.string().min(1, 'MFA token is required'),
+  code: z.string().trim().min(6, 'Code is required').max(20),
+});
+
+export type MfaVerifyDTO = z.infer<typeof mfaVerifySchema>;
+
+export const externalLoginCallbackSchema = z.object({
+  code: z.string().min(1, 'Authorization code is required').max(2048),
+  state: z.string().min(1, 'State is required').max(256),
+});
+
+export type ExternalLoginCallbackDTO = z.infer<typeof externalLoginCallbackSchema>;
+
+export const externalSessionSchema = z.object({
+  sessionToken: z.string().min(1, 'Session token is required').max(8192),
+});
+
+export type ExternalSessionDTO = z.infer<typeof externalSessionSchema>;
+
+/**
+ * A registered passkey of the current user (public key material is not exposed)
+ */
+export interface PasskeyInfo {
+  id: string;
+  name: string;
+  transports: string[];
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+/**
+ * Options for a WebAuthn ceremony
+ *
+ * `options` is passed to navigator.credentials.create()/get() (binary
+ * fields base64url-encoded); `challengeId` is sent back with the result
+ */
+export interface PasskeyCeremonyOptions<TOptions> {
+  challengeId: string;
+  options: TOptions;
+}
+
+const base64UrlSchema = z.string().min(1).max(16384).regex(/^[A-Za-z0-9_-]+$/, 'Invalid base64url value');
+
+export const passkeyRegisterVerifySchema = z.object({
+  challengeId: z.string().uuid('Invalid challenge ID'),
+  name: z.string().trim().min(1).max(100).optional(),
+  credential: z.object({
+    id: base64UrlSchema,
+    type: z.literal('public-key'),
+    response: z.object({
+      clientDataJSON: base64UrlSchema,
+      attestationObject: base64UrlSchema,
+      transports: z.array(z.string().max(20)).max(10).optional(),
+    }),
+  }),
+});
+
+export type PasskeyRegisterVerifyDTO = z.infer<typeof passkeyRegisterVerifySchema>;
+
+export const passkeyLoginVerifySchema = z.object({
+  challengeId: z.string().uuid('Invalid challenge ID'),
+  credential: z.object({
+    id: base64UrlSchema,
+    type: z.literal('public-key'),
+    response: z.object({
+      clientDataJSON: base64UrlSchema,
+      authenticatorData: base64UrlSchema,
+      signature: base64UrlSchema,
+      userHandle: base64UrlSchema.nullable().optional(),
+    }),
+  }),
+});
+
+export type PasskeyLoginVerifyDTO = z.infer<typeof passkeyLoginVerifySchema>;
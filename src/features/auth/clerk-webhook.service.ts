@@ -0,0 +1,170 @@
+import { db } from '../../shared/db/client';
+import { UsersRepository } from '../../shared/db/repositories/users.repository';
+import { verifySvixSignature, type SvixHeaders } from '../../shared/utils/webhook-signature';
+import { AccountDataService } from '../users/account-data.service';
+import { AuthService } from './auth.service';
+import { SessionService } from './session.service';
+import type { ExternalAuthResult } from './providers/auth-provider.interface';
+
+/**
+ * Clerk email address object
+ */
+interface ClerkEmailAddress {
+  id: string;
+  email_address: string;
+  verification?: { status?: string } | null;
+}
+
+/**
+ * Clerk user object (fields we sync)
+ */
+interface ClerkUserData {
+  id: string;
+  email_addresses?: ClerkEmailAddress[];
+  primary_email_address_id?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  username?: string | null;
+  image_url?: string | null;
+  deleted?: boolean;
+}
+
+/**
+ * Clerk webhook event
+ */
+export interface ClerkWebhookEvent {
+  type: string; // e.g. 'user.created'
+  data: ClerkUserData;
+}
+
+/**
+ * Outcome of a processed webhook event
+ */
+export type ClerkWebhookResult = 'synced' | 'deleted' | 'ignored';
+
+/**
+ * Clerk Webhook Service
+ *
+ * Mirrors Clerk users into our users table (authProvider 'clerk',
+ * externalId = Clerk user ID) so IAM, companies and subscriptions work for
+ * them. Events are signed by Svix and may arrive more than once or out of
+ * order, so every handler is idempotent.
+ */
+export class ClerkWebhookService {
+  private usersRepo: UsersRepository;
+  private authService: AuthService;
+  private sessionService: SessionService;
+  private accountDataService: AccountDataService;
+
+  constructor(private secret: string | undefined = process.env.CLERK_WEBHOOK_SECRET) {
+    this.usersRepo = new UsersRepository(db);
+    this.authService = new AuthService();
+    this.sessionService = new SessionService();
+    this.accountDataService = new AccountDataService();
+  }
+
+  /**
+   * Whether a webhook signing secret is configured
+   */
+  isConfigured(): boolean {
+    return !!this.secret;
+  }
+
+  /**
+   * Verify the Svix signature and parse the event
+   *
+   * @param rawBody - Request body exactly as received
+   * @param headers - svix-id, svix-timestamp and svix-signature headers
+   * @throws Error if the signature is invalid or the body is not an event
+   */
+  verifyEvent(rawBody: Buffer, headers: SvixHeaders): ClerkWebhookEvent {
+    verifySvixSignature(rawBody, headers, this.secret || '');
+
+    const event = JSON.parse(rawBody.toString('utf8')) as ClerkWebhookEvent;
+    if (typeof event?.type !== 'string' || typeof event.data?.id !== 'string') {
+      throw new Error('Invalid webhook event');
+    }
+
+    return event;
+  }
+
+  /**
+   * Apply a user event to our database
+   *
+   * @throws Error if the user's email belongs to an account with another sign-in method
+   */
+  async handleEvent(event: ClerkWebhookEvent): Promise<ClerkWebhookResult> {
+    switch (event.type) {
+      case 'user.created':
+      case 'user.updated': {
+        const authResult = this.toAuthResult(event.data);
+        if (!authResult) {
+          // Users without an email address (e.g. phone-only sign-up) cannot be mirrored
+          return 'ignored';
+        }
+
+        await this.authService.syncUserToDatabase(authResult, 'clerk');
+        return 'synced';
+      }
+
+      case 'user.deleted':
+        return (await this.deleteUser(event.data.id)) ? 'deleted' : 'ignored';
+
+      default:
+        return 'ignored';
+    }
+  }
+
+  /**
+   * Remove a deleted Clerk user: sign them out everywhere and erase the account
+   *
+   * Erasure hands companies they are the only owner of to another member; if one has
+   * no other member the erasure is blocked (and recorded) and the user row stays.
+   */
+  private async deleteUser(externalId: string): Promise<boolean> {
+    const user = await this.usersRepo.findByExternalId('clerk', externalId);
+    if (!user) {
+      return false;
+    }
+
+    // Revoke session by session: also covers access tokens issued in the current second
+    for (const session of await this.sessionService.listSessions(user.id)) {
+      await this.sessionService.revokeSession(user.id, session.id, 'account_deleted');
+    }
+
+    const erased = await this.accountDataService.eraseNow(user.id);
+    if (!erased) {
+      console.warn(`Clerk user ${externalId} deleted, but erasure of user ${user.id} is blocked by companies they own`);
+    }
+    return erased;
+  }
+
+  /**
+   * Map a Clerk user to a provider result (null if it has no primary email)
+   */
+  private toAuthResult(data: ClerkUserData): ExternalAuthResult | null {
+    const primaryEmail =
+      data.email_addresses?.find((address) => address.id === data.primary_email_address_id) ??
+      data.email_addresses?.[0];
+    if (!primaryEmail) {
+      return null;
+    }
+
+    const email = primaryEmail.email_address.toLowerCase();
+    const name =
+      [data.first_name, data.last_name].filter(Boolean).join(' ') || data.username || email.split('@')[0];
+
+    return {
+      userId: data.id,
+      email,
+      name: name.slice(0, 100),
+      externalId: data.id,
+      metadata: {
+        ...(data.username && { username: data.username }),
+        ...(data.image_url && { picture: data.image_url }),
+      },
+      emailVerified: primaryEmail.verification?.status === 'verified',
+      mfa: false,
+    };
+  }
+}
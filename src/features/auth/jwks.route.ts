@@ -0,0 +1,39 @@
+/**
+ * JWKS Router
+ *
+ * Publishes the public keys our access tokens are signed with, so other
+ * services can verify them without sharing a secret. Mounted at /.well-known.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { getKeyRing } from '../../shared/utils/jwt';
+import { ApiResponse } from '../../shared/utils/response';
+
+/**
+ * How long clients may cache the key set (scheduled keys are published ahead of use)
+ */
+const JWKS_MAX_AGE_SECONDS = 5 * 60;
+
+export function createJwksRouter(): Router {
+  const router = Router();
+
+  /**
+   * GET /.well-known/jwks.json
+   *
+   * Current, scheduled and recently replaced signing keys (standard JWKS document,
+   * not wrapped in the API envelope). Tokens name their key in the `kid` header.
+   *
+   * @returns {keys: JsonWebKey[]}
+   */
+  router.get('/jwks.json', (_req: Request, res: Response) => {
+    try {
+      res.set('Cache-Control', `public, max-age=${JWKS_MAX_AGE_SECONDS}`);
+      return res.json(getKeyRing().getJwks());
+    } catch (error) {
+      console.error('JWKS error:', error);
+      return ApiResponse.error(res, 'Failed to load signing keys', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  return router;
+}
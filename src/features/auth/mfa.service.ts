@@ -0,0 +1,220 @@
+import { randomBytes } from 'crypto';
+import type { MfaEnrollment, MfaStatus } from './auth.types';
+import { db } from '../../shared/db/client';
+import { UserMfaRepository } from '../../shared/db/repositories/user-mfa.repository';
+import { UsersRepository } from '../../shared/db/repositories/users.repository';
+import { CompaniesRepository } from '../../shared/db/repositories/companies.repository';
+import { CompanySecurityPoliciesRepository } from '../../shared/db/repositories/company-security-policies.repository';
+import { encryptSecret, decryptSecret } from '../../shared/utils/encryption';
+import { generateTotpSecret, buildOtpAuthUri, verifyTotpCode } from '../../shared/utils/totp';
+import { hashToken } from '../../shared/utils/token';
+
+/**
+ * Issuer shown in authenticator apps
+ */
+const MFA_ISSUER = process.env.MFA_ISSUER || 'Vertical Vibing';
+
+/**
+ * Number of recovery codes issued at enrolment
+ */
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * MFA Service
+ *
+ * TOTP multi-factor authentication for in-house accounts
+ * - Enrolment: secret + otpauth:// URI, confirmed with a first code
+ * - Recovery codes: single-use, stored hashed
+ * - Company owners can require MFA for all members
+ */
+export class MfaService {
+  private mfaRepo: UserMfaRepository;
+  private usersRepo: UsersRepository;
+  private companiesRepo: CompaniesRepository;
+  private policiesRepo: CompanySecurityPoliciesRepository;
+
+  constructor() {
+    this.mfaRepo = new UserMfaRepository(db);
+    this.usersRepo = new UsersRepository(db);
+    this.companiesRepo = new CompaniesRepository(db);
+    this.policiesRepo = new CompanySecurityPoliciesRepository(db);
+  }
+
+  /**
+   * Get MFA status for a user
+   */
+  async getStatus(userId: string): Promise<MfaStatus> {
+    const mfa = await this.mfaRepo.findByUserId(userId);
+    const enabled = !!mfa?.enabledAt;
+
+    return {
+      enabled,
+      required: await this.isRequired(userId),
+      recoveryCodesRemaining: enabled ? mfa!.recoveryCodeHashes.length : 0,
+    };
+  }
+
+  /**
+   * Check if a user has confirmed MFA enrolment
+   */
+  async isEnabled(userId: string): Promise<boolean> {
+    const mfa = await this.mfaRepo.findByUserId(userId);
+    return !!mfa?.enabledAt;
+  }
+
+  /**
+   * Check if any of the user's companies requires MFA
+   */
+  async isRequired(userId: string): Promise<boolean> {
+    const companies = await this.companiesRepo.findByUserId(userId);
+    if (companies.length === 0) {
+      return false;
+    }
+
+    const policies = await this.policiesRepo.findByCompanyIds(companies.map((company) => company.id));
+    return policies.some((policy) => policy.mfaRequired);
+  }
+
+  /**
+   * Start TOTP enrolment (replaces any unconfirmed enrolment)
+   *
+   * @returns Secret and provisioning URI to render as a QR code
+   * @throws Error if MFA is already enabled
+   */
+  async startEnrollment(userId: string): Promise<MfaEnrollment> {
+    const user = await this.usersRepo.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.authProvider !== 'inhouse') {
+      throw new Error('MFA is managed by your identity provider');
+    }
+
+    if (await this.isEnabled(userId)) {
+      throw new Error('MFA already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.mfaRepo.upsert({
+      userId,
+      totpSecretEncrypted: encryptSecret(secret),
+      recoveryCodeHashes: [],
+      enabledAt: null,
+    });
+
+    return {
+      secret,
+      otpauthUri: buildOtpAuthUri(secret, user.email, MFA_ISSUER),
+    };
+  }
+
+  /**
+   * Confirm enrolment with a first TOTP code
+   *
+   * @returns Recovery codes (only returned once)
+   * @throws Error if enrolment was not started or the code is wrong
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const mfa = await this.mfaRepo.findByUserId(userId);
+    if (!mfa) {
+      throw new Error('MFA enrollment not started');
+    }
+
+    if (mfa.enabledAt) {
+      throw new Error('MFA already enabled');
+    }
+
+    const step = verifyTotpCode(decryptSecret(mfa.totpSecretEncrypted), code);
+    if (step === null) {
+      throw new Error('Invalid MFA code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.mfaRepo.update(userId, {
+      enabledAt: new Date(),
+      lastUsedStep: step,
+      recoveryCodeHashes: recoveryCodes.map((recoveryCode) => this.hashRecoveryCode(recoveryCode)),
+    });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Verify a TOTP code or a recovery code (recovery codes are consumed)
+   *
+   * @throws Error if MFA is not enabled or the code is invalid
+   */
+  async verifyCode(userId: string, code: string): Promise<void> {
+    const mfa = await this.mfaRepo.findByUserId(userId);
+    if (!mfa?.enabledAt) {
+      throw new Error('MFA not enabled');
+    }
+
+    const normalized = code.replace(/[\s-]/g, '');
+
+    // A TOTP code can only be used once (reject replays within its validity window)
+    const step = verifyTotpCode(decryptSecret(mfa.totpSecretEncrypted), normalized);
+    if (step !== null && (mfa.lastUsedStep === null || step > mfa.lastUsedStep)) {
+      await this.mfaRepo.update(userId, { lastUsedStep: step });
+      return;
+    }
+
+    const recoveryCodeHash = this.hashRecoveryCode(normalized);
+    if (mfa.recoveryCodeHashes.includes(recoveryCodeHash)) {
+      await this.mfaRepo.update(userId, {
+        recoveryCodeHashes: mfa.recoveryCodeHashes.filter((hash) => hash !== recoveryCodeHash),
+      });
+      return;
+    }
+
+    throw new Error('Invalid MFA code');
+  }
+
+  /**
+   * Disable MFA
+   *
+   * @throws Error if a company requires MFA or the code is invalid
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    if (await this.isRequired(userId)) {
+      throw new Error('MFA is required by your company');
+    }
+
+    await this.verifyCode(userId, code);
+    await this.mfaRepo.delete(userId);
+  }
+
+  /**
+   * Replace all recovery codes
+   *
+   * @returns New recovery codes (only returned once)
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    await this.verifyCode(userId, code);
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.mfaRepo.update(userId, {
+      recoveryCodeHashes: recoveryCodes.map((recoveryCode) => this.hashRecoveryCode(recoveryCode)),
+    });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Generate recovery codes formatted as xxxxx-xxxxx
+   */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  /**
+   * Hash a recovery code (formatting and case are ignored)
+   */
+  private hashRecoveryCode(code: string): string {
+    return hashToken(code.replace(/[\s-]/g, '').toLowerCase());
+  }
+}
@@ -1,6 +1,9 @@
 import type { IAuthProvider } from './auth-provider.interface';
 import type { AuthProvider } from '@vertical-vibing/shared-types';
 import { InhouseAuthProvider } from './inhouse/inhouse-auth.provider';
+import { OidcAuthProvider } from './oidc/oidc-auth.provider';
+import { CognitoAuthProvider } from './cognito/cognito-auth.provider';
+import { ClerkAuthProvider } from './clerk/clerk-auth.provider';
 
 /**
  * Auth Provider Factory
@@ -32,23 +35,24 @@ export class AuthProviderFactory {
         break;
       }
 
+      case 'oidc': {
+        this.instance = new OidcAuthProvider();
+        break;
+      }
+
       case 'cognito': {
-        // TODO: Implement Cognito provider
-        throw new Error(
-          'Cognito provider not yet implemented. Please use AUTH_PROVIDER=inhouse for now.'
-        );
+        this.instance = new CognitoAuthProvider();
+        break;
       }
 
       case 'clerk': {
-        // TODO: Implement Clerk provider
-        throw new Error(
-          'Clerk provider not yet implemented. Please use AUTH_PROVIDER=inhouse for now.'
-        );
+        this.instance = new ClerkAuthProvider();
+        break;
       }
 
       default:
         throw new Error(
-          `Unknown auth provider: ${providerType}. Valid options: inhouse, cognito, clerk`
+          `Unknown auth provider: ${providerType}. Valid options: inhouse, oidc, cognito, clerk`
         );
     }
 
@@ -12,7 +12,7 @@ import type {
  * Auth Provider Interface
  *
  * All authentication providers must implement this interface
- * Supports: in-house JWT, AWS Cognito, Clerk
+ * Supports: in-house JWT, OpenID Connect, AWS Cognito, Clerk
  */
 export interface IAuthProvider {
   /**
@@ -63,14 +63,36 @@ export interface IAuthProvider {
    */
   resetPassword(email: string): Promise<PasswordResetResult>;
 
+  /**
+   * Complete a password reset
+   *
+   * @param token - Reset token (or code) delivered to the user
+   * @param newPassword - New password
+   * @param email - User email (required by providers that send bare codes, e.g. Cognito)
+   * @returns ID of the user whose password was reset (null if not in our database)
+   * @throws AuthProviderError if the token is invalid or expired
+   */
+  confirmPasswordReset(token: string, newPassword: string, email?: string): Promise<{ userId: string | null }>;
+
+  /**
+   * Send an email verification link (or code) to the user
+   *
+   * Does nothing if the user does not exist or is already verified
+   *
+   * @param email - User email address
+   * @throws AuthProviderError if the verification email cannot be issued
+   */
+  sendVerificationEmail(email: string): Promise<void>;
+
   /**
    * Verify email with token
    *
    * @param token - Verification token
+   * @param email - User email (required by providers that send bare codes, e.g. Cognito)
    * @returns Result with user ID if successful
    * @throws AuthProviderError if verification fails
    */
-  verifyEmail(token: string): Promise<EmailVerificationResult>;
+  verifyEmail(token: string, email?: string): Promise<EmailVerificationResult>;
 
   /**
    * Update user password
@@ -87,6 +109,56 @@ export interface IAuthProvider {
   ): Promise<void>;
 }
 
+/**
+ * Result of an external (redirect) login
+ *
+ * `userId` is the provider's user ID (also returned as `externalId`);
+ * the user is provisioned in our database by AuthService.
+ */
+export type ExternalAuthResult = AuthProviderResult & {
+  emailVerified: boolean;
+  mfa: boolean; // The identity provider performed multi-factor authentication
+};
+
+/**
+ * Start of a redirect login: send the browser to `authorizationUrl`
+ */
+export interface AuthorizationRequest {
+  authorizationUrl: string;
+  state: string;
+  expiresIn: number; // Seconds to complete the login at the provider
+}
+
+/**
+ * Providers that sign users in through a browser redirect
+ * (OpenID Connect authorization-code flow with PKCE)
+ */
+export interface IRedirectAuthProvider extends IAuthProvider {
+  /**
+   * Create an authorization request (state, nonce and PKCE verifier are kept server-side)
+   *
+   * @returns URL of the provider's login page
+   */
+  createAuthorizationRequest(): Promise<AuthorizationRequest>;
+
+  /**
+   * Exchange the authorization code returned to the redirect URI
+   *
+   * @param code - Authorization code
+   * @param state - State returned with the code
+   * @returns Claims of the validated ID token
+   * @throws AuthProviderError if the state, code or ID token is invalid
+   */
+  completeAuthorization(code: string, state: string): Promise<ExternalAuthResult>;
+}
+
+/**
+ * Check whether a provider supports redirect login
+ */
+export function supportsRedirectLogin(provider: IAuthProvider): provider is IRedirectAuthProvider {
+  return 'createAuthorizationRequest' in provider && 'completeAuthorization' in provider;
+}
+
 /**
  * Auth Provider Error
  *
@@ -103,3 +175,34 @@ export class AuthProviderError extends Error {
     this.name = 'AuthProviderError';
   }
 }
+
+/**
+ * Session issued by an identity provider's frontend SDK (e.g. Clerk)
+ */
+export interface ProviderSession {
+  externalId: string; // Provider user ID
+  sessionId?: string; // Provider session ID
+  mfa: boolean; // A second factor was verified in this session
+}
+
+/**
+ * Providers whose frontend SDK signs users in and hands out short-lived
+ * session tokens; users are synced into our database by webhook
+ */
+export interface ISessionTokenAuthProvider extends IAuthProvider {
+  /**
+   * Verify a provider session token
+   *
+   * @param token - Session token from the provider's frontend SDK
+   * @returns Provider user and session
+   * @throws AuthProviderError if the token is invalid or expired
+   */
+  verifySessionToken(token: string): Promise<ProviderSession>;
+}
+
+/**
+ * Check whether a provider accepts session tokens from its frontend SDK
+ */
+export function supportsSessionTokens(provider: IAuthProvider): provider is ISessionTokenAuthProvider {
+  return 'verifySessionToken' in provider;
+}
@@ -0,0 +1,260 @@
+import jwt from 'jsonwebtoken';
+import type {
+  AuthProvider,
+  AuthProviderResult,
+  TokenValidationResult,
+  LoginCredentials,
+  RegisterData,
+  PasswordResetResult,
+  EmailVerificationResult,
+} from '@vertical-vibing/shared-types';
+import type { ISessionTokenAuthProvider, ProviderSession } from '../auth-provider.interface';
+import { AuthProviderError } from '../auth-provider.interface';
+import { JwksKeyStore, type JsonWebKeySet } from '../jwks-key-store';
+import { db } from '../../../../shared/db/client';
+import { UsersRepository } from '../../../../shared/db/repositories/users.repository';
+import { buildFrontendUrl } from '../../../../shared/utils/url';
+
+/**
+ * Timeout for JWKS downloads
+ */
+const HTTP_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Allowed clock skew for session tokens (Clerk session tokens live for 60 seconds)
+ */
+const CLOCK_TOLERANCE_SECONDS = 5;
+
+/**
+ * Clerk instance configuration
+ */
+export interface ClerkProviderConfig {
+  issuer: string; // Frontend API URL, e.g. https://clerk.example.com
+  jwksUrl: string;
+  authorizedParties: string[]; // Origins allowed in the `azp` claim
+}
+
+/**
+ * Clerk session token claims
+ */
+type ClerkSessionClaims = {
+  iss: string;
+  sub: string; // Clerk user ID (user_...)
+  sid?: string; // Clerk session ID
+  azp?: string; // Origin the token was issued for
+  fva?: [number, number]; // Minutes since first/second factor verification (-1 = never)
+  [claim: string]: unknown;
+};
+
+/**
+ * Load Clerk configuration from the environment
+ *
+ * @throws Error if CLERK_ISSUER is missing
+ */
+export function loadClerkConfig(): ClerkProviderConfig {
+  const issuer = process.env.CLERK_ISSUER?.replace(/\/+$/, '');
+
+  if (!issuer) {
+    throw new Error('CLERK_ISSUER is required for AUTH_PROVIDER=clerk');
+  }
+
+  const authorizedParties = (process.env.CLERK_AUTHORIZED_PARTIES || new URL(buildFrontendUrl('/')).origin)
+    .split(',')
+    .map((party) => party.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+
+  return {
+    issuer,
+    jwksUrl: process.env.CLERK_JWKS_URL || `${issuer}/.well-known/jwks.json`,
+    authorizedParties,
+  };
+}
+
+/**
+ * Clerk Authentication Provider
+ *
+ * Users sign up and sign in with Clerk's frontend components. The backend
+ * verifies Clerk session tokens (RS256, instance JWKS) and exchanges them for
+ * our own session, so IAM and subscriptions work unchanged.
+ *
+ * Users are mirrored into our users table by the Clerk webhook
+ * (POST /api/auth/webhooks/clerk), with externalId = Clerk user ID.
+ * Passwords, resets and email verification are handled by Clerk.
+ */
+export class ClerkAuthProvider implements ISessionTokenAuthProvider {
+  readonly name: AuthProvider = 'clerk';
+  private config: ClerkProviderConfig;
+  private usersRepo: UsersRepository;
+  private signingKeys: JwksKeyStore;
+
+  constructor(config: ClerkProviderConfig = loadClerkConfig()) {
+    this.config = config;
+    this.usersRepo = new UsersRepository(db);
+    this.signingKeys = new JwksKeyStore(() => this.fetchJwks());
+  }
+
+  /**
+   * Password login is not available: users sign in with Clerk
+   */
+  async login(_credentials: LoginCredentials): Promise<AuthProviderResult> {
+    throw this.clerkSignInRequired();
+  }
+
+  /**
+   * Registration happens in Clerk (users are synced by webhook)
+   */
+  async register(_data: RegisterData): Promise<AuthProviderResult> {
+    throw this.clerkSignInRequired();
+  }
+
+  /**
+   * Validate a Clerk session token and resolve the mirrored user
+   */
+  async validateToken(token: string): Promise<TokenValidationResult> {
+    try {
+      const session = await this.verifySessionToken(token);
+      const user = await this.usersRepo.findByExternalId(this.name, session.externalId);
+
+      if (!user) {
+        return {
+          valid: false,
+          error: 'User not found',
+        };
+      }
+
+      return {
+        valid: true,
+        userId: user.id,
+        email: user.email,
+        externalId: session.externalId,
+      };
+    } catch (error) {
+      return {
+        valid: false,
+        error: error instanceof Error ? error.message : 'Invalid token',
+      };
+    }
+  }
+
+  /**
+   * Verify a Clerk session token: signature (JWKS), issuer, expiry and authorized party
+   */
+  async verifySessionToken(token: string): Promise<ProviderSession> {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw this.invalidSessionToken();
+    }
+
+    const key = await this.signingKeys.getKey(decoded.header.kid);
+    if (!key) {
+      throw this.invalidSessionToken();
+    }
+
+    let claims: ClerkSessionClaims;
+    try {
+      claims = jwt.verify(token, key, {
+        algorithms: ['RS256'],
+        issuer: this.config.issuer,
+        clockTolerance: CLOCK_TOLERANCE_SECONDS,
+      }) as ClerkSessionClaims;
+    } catch (error) {
+      throw new AuthProviderError('Invalid session token', this.name, 'ERR_AUTH_INVALID_TOKEN', error as Error);
+    }
+
+    if (!claims.sub || (claims.azp !== undefined && !this.config.authorizedParties.includes(claims.azp))) {
+      throw this.invalidSessionToken();
+    }
+
+    return {
+      externalId: claims.sub,
+      sessionId: claims.sid,
+      mfa: Array.isArray(claims.fva) && claims.fva[1] !== -1,
+    };
+  }
+
+  /**
+   * Clerk session tokens are refreshed by Clerk's frontend SDK
+   */
+  async refreshToken(_refreshToken: string): Promise<AuthProviderResult> {
+    throw this.unsupported('Session refresh');
+  }
+
+  /**
+   * Password resets are handled by Clerk
+   */
+  async resetPassword(_email: string): Promise<PasswordResetResult> {
+    return {
+      success: false,
+      message: 'Password reset is handled by the identity provider',
+    };
+  }
+
+  async confirmPasswordReset(_token: string, _newPassword: string, _email?: string): Promise<{ userId: string | null }> {
+    throw this.unsupported('Password reset');
+  }
+
+  /**
+   * Email addresses are verified by Clerk (synced by webhook)
+   */
+  async sendVerificationEmail(_email: string): Promise<void> {
+    return;
+  }
+
+  async verifyEmail(_token: string, _email?: string): Promise<EmailVerificationResult> {
+    throw this.unsupported('Email verification');
+  }
+
+  async updatePassword(_userId: string, _currentPassword: string, _newPassword: string): Promise<void> {
+    throw this.unsupported('Password change');
+  }
+
+  /**
+   * Download the instance JWKS
+   */
+  private async fetchJwks(): Promise<JsonWebKeySet> {
+    try {
+      const response = await fetch(this.config.jwksUrl, {
+        headers: { Accept: 'application/json' },
+        signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw new Error(`GET ${this.config.jwksUrl} returned ${response.status}`);
+      }
+
+      return (await response.json()) as JsonWebKeySet;
+    } catch (error) {
+      throw new AuthProviderError(
+        'Authentication service temporarily unavailable',
+        this.name,
+        'ERR_AUTH_SERVICE_UNAVAILABLE',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Error for password-based operations
+   */
+  private clerkSignInRequired(): AuthProviderError {
+    return new AuthProviderError('Sign in with your identity provider', this.name, 'ERR_AUTH_REDIRECT_REQUIRED');
+  }
+
+  /**
+   * Error for session tokens that fail verification
+   */
+  private invalidSessionToken(): AuthProviderError {
+    return new AuthProviderError('Invalid session token', this.name, 'ERR_AUTH_INVALID_TOKEN');
+  }
+
+  /**
+   * Error for operations handled by Clerk
+   */
+  private unsupported(operation: string): AuthProviderError {
+    return new AuthProviderError(
+      `${operation} is handled by the identity provider`,
+      this.name,
+      'ERR_AUTH_NOT_SUPPORTED'
+    );
+  }
+}
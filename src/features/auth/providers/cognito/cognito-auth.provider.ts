@@ -0,0 +1,440 @@
+import { createHmac } from 'crypto';
+import type {
+  AuthProviderResult,
+  LoginCredentials,
+  RegisterData,
+  PasswordResetResult,
+  EmailVerificationResult,
+} from '@vertical-vibing/shared-types';
+import type { ExternalAuthResult } from '../auth-provider.interface';
+import { AuthProviderError } from '../auth-provider.interface';
+import { OidcAuthProvider } from '../oidc/oidc-auth.provider';
+import type { OidcClaims } from '../oidc/oidc-auth.provider';
+import { buildFrontendUrl } from '../../../../shared/utils/url';
+
+/**
+ * Timeout for Cognito API calls
+ */
+const HTTP_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Cognito user pool configuration
+ */
+export interface CognitoProviderConfig {
+  region: string;
+  userPoolId: string;
+  clientId: string;
+  clientSecret?: string; // App clients with a secret need a SECRET_HASH on every call
+  endpoint: string; // Cognito IdP API (override for local mocks)
+  redirectUri: string; // Hosted UI callback (redirect login)
+}
+
+/**
+ * Cognito API error body
+ */
+interface CognitoErrorBody {
+  __type?: string;
+  message?: string;
+}
+
+/**
+ * Tokens returned by InitiateAuth
+ */
+interface CognitoAuthenticationResult {
+  IdToken?: string;
+  AccessToken?: string;
+  RefreshToken?: string;
+}
+
+/**
+ * Load Cognito configuration from the environment
+ *
+ * @throws Error if COGNITO_USER_POOL_ID or COGNITO_CLIENT_ID is missing
+ */
+export function loadCognitoConfig(): CognitoProviderConfig {
+  const userPoolId = process.env.COGNITO_USER_POOL_ID;
+  const clientId = process.env.COGNITO_CLIENT_ID;
+
+  if (!userPoolId || !clientId) {
+    throw new Error('COGNITO_USER_POOL_ID and COGNITO_CLIENT_ID are required for AUTH_PROVIDER=cognito');
+  }
+
+  // Pool IDs are prefixed with their region, e.g. us-east-1_AbC123
+  const region = process.env.COGNITO_REGION || process.env.AWS_REGION || userPoolId.split('_')[0];
+
+  return {
+    region,
+    userPoolId,
+    clientId,
+    clientSecret: process.env.COGNITO_CLIENT_SECRET || undefined,
+    endpoint: (process.env.COGNITO_ENDPOINT || `https://cognito-idp.${region}.amazonaws.com`).replace(/\/+$/, ''),
+    redirectUri: process.env.COGNITO_REDIRECT_URI || buildFrontendUrl('/auth/callback'),
+  };
+}
+
+/**
+ * AWS Cognito Authentication Provider
+ *
+ * Email/password login, sign-up, password reset and email confirmation go
+ * through the Cognito user pool API (public app client operations, no AWS
+ * credentials needed). Cognito sends the confirmation and reset codes.
+ *
+ * The pool is also an OIDC issuer: ID tokens are validated against the pool's
+ * JWKS, and the hosted UI can be used for redirect login.
+ * Users are mirrored into our users table by AuthService (externalId = sub).
+ */
+export class CognitoAuthProvider extends OidcAuthProvider {
+  private cognito: CognitoProviderConfig;
+
+  constructor(config: CognitoProviderConfig = loadCognitoConfig()) {
+    super(
+      {
+        issuer: `${config.endpoint}/${config.userPoolId}`,
+        clientId: config.clientId,
+        clientSecret: config.clientSecret,
+        redirectUri: config.redirectUri,
+        scopes: 'openid email profile',
+      },
+      'cognito'
+    );
+    this.cognito = config;
+  }
+
+  /**
+   * Login with email and password (USER_PASSWORD_AUTH flow)
+   */
+  async login(credentials: LoginCredentials): Promise<AuthProviderResult> {
+    const { AuthenticationResult, ChallengeName } = await this.call<{
+      AuthenticationResult?: CognitoAuthenticationResult;
+      ChallengeName?: string;
+    }>('InitiateAuth', {
+      AuthFlow: 'USER_PASSWORD_AUTH',
+      ClientId: this.cognito.clientId,
+      AuthParameters: {
+        USERNAME: credentials.email,
+        PASSWORD: credentials.password,
+        ...this.secretHash(credentials.email, 'SECRET_HASH'),
+      },
+    });
+
+    if (ChallengeName || !AuthenticationResult?.IdToken) {
+      // MFA, new password required, ... are completed in the hosted UI
+      throw new AuthProviderError(
+        'Additional sign-in step required, sign in with your identity provider',
+        this.name,
+        'ERR_AUTH_CHALLENGE_REQUIRED'
+      );
+    }
+
+    return this.mapClaims(await this.validateIdToken(AuthenticationResult.IdToken));
+  }
+
+  /**
+   * Register a new user in the pool (Cognito emails a confirmation code)
+   */
+  async register(data: RegisterData): Promise<AuthProviderResult> {
+    const { UserSub, UserConfirmed } = await this.call<{ UserSub: string; UserConfirmed: boolean }>('SignUp', {
+      ClientId: this.cognito.clientId,
+      Username: data.email,
+      Password: data.password,
+      UserAttributes: [
+        { Name: 'email', Value: data.email },
+        { Name: 'name', Value: data.name },
+      ],
+      ...this.secretHash(data.email),
+    });
+
+    const result: ExternalAuthResult = {
+      userId: UserSub,
+      email: data.email.toLowerCase(),
+      name: data.name,
+      externalId: UserSub,
+      metadata: { userPoolId: this.cognito.userPoolId },
+      emailVerified: UserConfirmed === true,
+      mfa: false,
+    };
+
+    return result;
+  }
+
+  /**
+   * Exchange a Cognito refresh token (REFRESH_TOKEN_AUTH flow)
+   *
+   * @param refreshToken - Cognito refresh token
+   * @param username - Cognito username (sub); required when the app client has a secret
+   */
+  async refreshToken(refreshToken: string, username?: string): Promise<AuthProviderResult> {
+    const { AuthenticationResult } = await this.call<{ AuthenticationResult?: CognitoAuthenticationResult }>(
+      'InitiateAuth',
+      {
+        AuthFlow: 'REFRESH_TOKEN_AUTH',
+        ClientId: this.cognito.clientId,
+        AuthParameters: {
+          REFRESH_TOKEN: refreshToken,
+          ...(username && this.secretHash(username, 'SECRET_HASH')),
+        },
+      }
+    );
+
+    if (!AuthenticationResult?.IdToken) {
+      throw new AuthProviderError('Identity provider did not return an ID token', this.name, 'ERR_AUTH_INVALID_ID_TOKEN');
+    }
+
+    return this.mapClaims(await this.validateIdToken(AuthenticationResult.IdToken));
+  }
+
+  /**
+   * Send a password reset code (never reveals whether the email is registered)
+   */
+  async resetPassword(email: string): Promise<PasswordResetResult> {
+    const result: PasswordResetResult = {
+      success: true,
+      message: 'If the email exists, a reset code has been sent',
+    };
+
+    try {
+      await this.call('ForgotPassword', {
+        ClientId: this.cognito.clientId,
+        Username: email,
+        ...this.secretHash(email),
+      });
+    } catch (error) {
+      if (!(error instanceof AuthProviderError && error.code === 'ERR_AUTH_USER_NOT_FOUND')) {
+        throw error;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Set a new password with the code from the reset email
+   */
+  async confirmPasswordReset(code: string, newPassword: string, email?: string): Promise<{ userId: string | null }> {
+    if (!email) {
+      throw this.emailRequired();
+    }
+
+    await this.call(
+      'ConfirmForgotPassword',
+      {
+        ClientId: this.cognito.clientId,
+        Username: email,
+        ConfirmationCode: code,
+        Password: newPassword,
+        ...this.secretHash(email),
+      },
+      'Invalid or expired reset token'
+    );
+
+    const user = await this.usersRepo.findByEmail(email);
+    return { userId: user && user.authProvider === this.name ? user.id : null };
+  }
+
+  /**
+   * Resend the sign-up confirmation code
+   */
+  async sendVerificationEmail(email: string): Promise<void> {
+    try {
+      await this.call('ResendConfirmationCode', {
+        ClientId: this.cognito.clientId,
+        Username: email,
+        ...this.secretHash(email),
+      });
+    } catch (error) {
+      // Unknown or already confirmed users: nothing to send
+      if (!(error instanceof AuthProviderError && ['ERR_AUTH_USER_NOT_FOUND', 'ERR_AUTH_INVALID_PARAMETER'].includes(error.code))) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Confirm the sign-up with the code from the confirmation email
+   */
+  async verifyEmail(code: string, email?: string): Promise<EmailVerificationResult> {
+    if (!email) {
+      throw this.emailRequired();
+    }
+
+    await this.call(
+      'ConfirmSignUp',
+      {
+        ClientId: this.cognito.clientId,
+        Username: email,
+        ConfirmationCode: code,
+        ...this.secretHash(email),
+      },
+      'Invalid or expired verification token'
+    );
+
+    const user = await this.usersRepo.findByEmail(email);
+    if (user && user.authProvider === this.name) {
+      await this.usersRepo.update(user.id, { emailVerified: true });
+    }
+
+    return {
+      success: true,
+      userId: user?.id,
+      message: 'Email verified successfully',
+    };
+  }
+
+  /**
+   * Change the password (re-authenticates with the current password first)
+   */
+  async updatePassword(userId: string, currentPassword: string, newPassword: string): Promise<void> {
+    const user = await this.usersRepo.findById(userId);
+    if (!user || user.authProvider !== this.name) {
+      throw new AuthProviderError('User not found', this.name, 'ERR_AUTH_USER_NOT_FOUND');
+    }
+
+    const { AuthenticationResult } = await this.call<{ AuthenticationResult?: CognitoAuthenticationResult }>(
+      'InitiateAuth',
+      {
+        AuthFlow: 'USER_PASSWORD_AUTH',
+        ClientId: this.cognito.clientId,
+        AuthParameters: {
+          USERNAME: user.email,
+          PASSWORD: currentPassword,
+          ...this.secretHash(user.email, 'SECRET_HASH'),
+        },
+      },
+      'Current password is incorrect'
+    );
+
+    if (!AuthenticationResult?.AccessToken) {
+      throw new AuthProviderError(
+        'Additional sign-in step required, sign in with your identity provider',
+        this.name,
+        'ERR_AUTH_CHALLENGE_REQUIRED'
+      );
+    }
+
+    await this.call('ChangePassword', {
+      AccessToken: AuthenticationResult.AccessToken,
+      PreviousPassword: currentPassword,
+      ProposedPassword: newPassword,
+    });
+  }
+
+  /**
+   * Only accept ID tokens (Cognito access tokens carry token_use=access)
+   */
+  protected async validateIdToken(idToken: string, nonce?: string): Promise<OidcClaims> {
+    const claims = await super.validateIdToken(idToken, nonce);
+    if (claims.token_use !== 'id') {
+      throw new AuthProviderError('Invalid ID token', this.name, 'ERR_AUTH_INVALID_ID_TOKEN');
+    }
+    return claims;
+  }
+
+  /**
+   * Map Cognito ID token claims (adds the pool and username to the metadata)
+   */
+  protected mapClaims(claims: OidcClaims): ExternalAuthResult {
+    const result = super.mapClaims(claims);
+
+    return {
+      ...result,
+      metadata: {
+        ...result.metadata,
+        userPoolId: this.cognito.userPoolId,
+        ...(typeof claims['cognito:username'] === 'string' && { username: claims['cognito:username'] }),
+      },
+    };
+  }
+
+  /**
+   * Call a Cognito user pool API operation
+   *
+   * @param operation - API action, e.g. 'InitiateAuth'
+   * @param payload - Request body
+   * @param codeErrorMessage - Message for an invalid or expired code/password
+   * @throws AuthProviderError with a mapped message
+   */
+  private async call<T = unknown>(
+    operation: string,
+    payload: Record<string, unknown>,
+    codeErrorMessage = 'Invalid credentials'
+  ): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.cognito.endpoint}/`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-amz-json-1.1',
+          'X-Amz-Target': `AWSCognitoIdentityProviderService.${operation}`,
+        },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new AuthProviderError(
+        'Authentication service temporarily unavailable',
+        this.name,
+        'ERR_AUTH_SERVICE_UNAVAILABLE',
+        error as Error
+      );
+    }
+
+    const body = (await response.json().catch(() => ({}))) as T & CognitoErrorBody;
+    if (response.ok) {
+      return body;
+    }
+
+    // __type is "ExceptionName" or "namespace#ExceptionName"
+    const type = (body.__type || '').split('#').pop();
+    const cause = new Error(`${operation}: ${type} ${body.message || ''}`.trim());
+
+    switch (type) {
+      case 'NotAuthorizedException':
+      case 'CodeMismatchException':
+      case 'ExpiredCodeException':
+        throw new AuthProviderError(codeErrorMessage, this.name, 'ERR_AUTH_INVALID_CREDENTIALS', cause);
+      case 'UserNotFoundException':
+        throw new AuthProviderError(codeErrorMessage, this.name, 'ERR_AUTH_USER_NOT_FOUND', cause);
+      case 'UserNotConfirmedException':
+        throw new AuthProviderError('Email not verified', this.name, 'ERR_AUTH_EMAIL_NOT_VERIFIED', cause);
+      case 'UsernameExistsException':
+        throw new AuthProviderError('Email already registered', this.name, 'ERR_AUTH_EMAIL_EXISTS', cause);
+      case 'InvalidPasswordException':
+        throw new AuthProviderError('Password does not meet the requirements', this.name, 'ERR_AUTH_INVALID_PASSWORD', cause);
+      case 'InvalidParameterException':
+        throw new AuthProviderError('Invalid request', this.name, 'ERR_AUTH_INVALID_PARAMETER', cause);
+      case 'TooManyRequestsException':
+      case 'LimitExceededException':
+      case 'TooManyFailedAttemptsException':
+        throw new AuthProviderError('Too many attempts, try again later', this.name, 'ERR_AUTH_RATE_LIMITED', cause);
+      default:
+        throw new AuthProviderError(
+          'Authentication service temporarily unavailable',
+          this.name,
+          'ERR_AUTH_SERVICE_UNAVAILABLE',
+          cause
+        );
+    }
+  }
+
+  /**
+   * SECRET_HASH for app clients with a secret: Base64(HMAC-SHA256(secret, username + clientId))
+   */
+  private secretHash(username: string, key: 'SecretHash' | 'SECRET_HASH' = 'SecretHash'): Record<string, string> {
+    if (!this.cognito.clientSecret) {
+      return {};
+    }
+
+    return {
+      [key]: createHmac('sha256', this.cognito.clientSecret)
+        .update(username + this.cognito.clientId)
+        .digest('base64'),
+    };
+  }
+
+  /**
+   * Error for code confirmations without an email
+   */
+  private emailRequired(): AuthProviderError {
+    return new AuthProviderError('Email is required to confirm this code', this.name, 'ERR_AUTH_EMAIL_REQUIRED');
+  }
+}
@@ -7,11 +7,62 @@ import type {
   EmailVerificationResult,
 } from '@vertical-vibing/shared-types';
 import type { IAuthProvider } from '../auth-provider.interface';
+import type { PasskeyCeremonyOptions, PasskeyInfo } from '../../auth.types';
+import type { User } from '../../../../shared/db/schema/users.schema';
+import type { WebAuthnCredential } from '../../../../shared/db/schema/webauthn.schema';
 import { AuthProviderError } from '../auth-provider.interface';
 import { db } from '../../../../shared/db/client';
 import { UsersRepository } from '../../../../shared/db/repositories/users.repository';
+import { WebAuthnRepository } from '../../../../shared/db/repositories/webauthn.repository';
 import { hashPassword, verifyPassword } from '../../../../shared/utils/password';
 import { verifyToken as verifyJWT } from '../../../../shared/utils/jwt';
+import { buildFrontendUrl } from '../../../../shared/utils/url';
+import { OneTimeTokenService } from '../../../../shared/services/one-time-token.service';
+import { PasswordPolicyService, PasswordPolicyError } from '../../../../shared/services/password-policy.service';
+import { EmailService } from '../../../email/email.service';
+import { generateSecureToken } from '../../../../shared/utils/token';
+import {
+  SUPPORTED_COSE_ALGORITHMS,
+  verifyRegistrationResponse,
+  verifyAuthenticationResponse,
+  toBase64Url,
+  fromBase64Url,
+} from '../../../../shared/utils/webauthn';
+import type {
+  CreationOptionsJSON,
+  RequestOptionsJSON,
+  RegistrationResponseJSON,
+  AuthenticationResponseJSON,
+  WebAuthnExpectations,
+} from '../../../../shared/utils/webauthn';
+
+/**
+ * Password reset token lifetime in hours (default: 1 hour)
+ */
+const PASSWORD_RESET_TOKEN_TTL_HOURS = Number(process.env.PASSWORD_RESET_TOKEN_TTL_HOURS) || 1;
+
+/**
+ * Email verification token lifetime in hours (default: 24 hours)
+ */
+const EMAIL_VERIFICATION_TOKEN_TTL_HOURS = Number(process.env.EMAIL_VERIFICATION_TOKEN_TTL_HOURS) || 24;
+
+/**
+ * Magic sign-in link lifetime in minutes (default: 15 minutes)
+ */
+const MAGIC_LINK_TOKEN_TTL_MINUTES = Number(process.env.MAGIC_LINK_TOKEN_TTL_MINUTES) || 15;
+
+/**
+ * WebAuthn relying party (the frontend origin users register passkeys on)
+ */
+const WEBAUTHN_RP_ID = process.env.WEBAUTHN_RP_ID || 'localhost';
+const WEBAUTHN_RP_NAME = process.env.WEBAUTHN_RP_NAME || 'Vertical Vibing';
+const WEBAUTHN_ORIGIN =
+  process.env.WEBAUTHN_ORIGIN || new URL(process.env.FRONTEND_URL || 'http://localhost:3001').origin;
+
+/**
+ * Passkey ceremony lifetime (time to complete the browser prompt)
+ */
+const PASSKEY_CHALLENGE_TTL_MS = 5 * 60 * 1000;
 
 /**
  * In-House Authentication Provider
@@ -22,9 +73,17 @@ import { verifyToken as verifyJWT } from '../../../../shared/utils/jwt';
 export class InhouseAuthProvider implements IAuthProvider {
   readonly name = 'inhouse' as const;
   private usersRepo: UsersRepository;
+  private oneTimeTokens: OneTimeTokenService;
+  private emailService: EmailService;
+  private webauthnRepo: WebAuthnRepository;
+  private passwordPolicy: PasswordPolicyService;
 
   constructor() {
     this.usersRepo = new UsersRepository(db);
+    this.passwordPolicy = new PasswordPolicyService();
+    this.webauthnRepo = new WebAuthnRepository(db);
+    this.oneTimeTokens = new OneTimeTokenService();
+    this.emailService = new EmailService();
   }
 
   /**
@@ -105,6 +164,8 @@ export class InhouseAuthProvider implements IAuthProvider {
         );
       }
 
+      await this.passwordPolicy.assertAcceptable(data.password);
+
       // Hash password
       const passwordHash = await hashPassword(data.password);
 
@@ -112,6 +173,7 @@ export class InhouseAuthProvider implements IAuthProvider {
       const user = await this.usersRepo.create({
         email: data.email,
         passwordHash,
+        passwordChangedAt: new Date(),
         name: data.name,
         authProvider: 'inhouse',
         externalId: null,
@@ -127,7 +189,7 @@ export class InhouseAuthProvider implements IAuthProvider {
         metadata: null,
       };
     } catch (error) {
-      if (error instanceof AuthProviderError) {
+      if (error instanceof AuthProviderError || error instanceof PasswordPolicyError) {
         throw error;
       }
       throw new AuthProviderError(
@@ -191,34 +253,107 @@ export class InhouseAuthProvider implements IAuthProvider {
 
   /**
    * Reset password (send reset email)
+   *
+   * Issues a single-use reset token and emails a link to it. The result is the
+   * same whether or not the email is registered.
    */
   async resetPassword(email: string): Promise<PasswordResetResult> {
+    const result: PasswordResetResult = {
+      success: true,
+      message: 'If the email exists, a reset link has been sent',
+    };
+
     try {
       const user = await this.usersRepo.findByEmail(email);
-      if (!user) {
-        // Don't reveal if user exists
-        return {
-          success: true,
-          message: 'If the email exists, a reset link has been sent',
-        };
+
+      // Don't reveal if user exists or which provider it uses
+      if (!user || user.authProvider !== 'inhouse') {
+        return result;
       }
 
-      if (user.authProvider !== 'inhouse') {
-        return {
-          success: false,
-          message: `This account uses ${user.authProvider} authentication`,
-        };
+      const { token } = await this.oneTimeTokens.issue(
+        user.id,
+        'password_reset',
+        user.email,
+        PASSWORD_RESET_TOKEN_TTL_HOURS * 60
+      );
+
+      try {
+        await this.emailService.sendEmail({
+          templateName: 'password-reset',
+          toAddress: user.email,
+          templateData: {
+            userName: user.name,
+            resetUrl: buildFrontendUrl('/reset-password', { token }),
+            expiryHours: PASSWORD_RESET_TOKEN_TTL_HOURS,
+          },
+        });
+      } catch (error) {
+        // Delivery failures must not leak through the response
+        console.error('Password reset email error:', error);
       }
 
-      // TODO: Generate reset token and send email
-      // For now, just return success
-      console.log(`Password reset requested for user: ${user.id}`);
+      return result;
+    } catch (error) {
+      throw new AuthProviderError(
+        'Password reset failed',
+        'inhouse',
+        'ERR_AUTH_RESET_FAILED',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Complete password reset with a token from the reset email
+   *
+   * The new password is checked before the token is used up, so a rejected
+   * password can be retried with the same link.
+   */
+  async confirmPasswordReset(token: string, newPassword: string): Promise<{ userId: string }> {
+    try {
+      let resetToken;
+      try {
+        resetToken = await this.oneTimeTokens.peek(token, 'password_reset');
+      } catch {
+        throw new AuthProviderError(
+          'Invalid or expired reset token',
+          'inhouse',
+          'ERR_AUTH_INVALID_RESET_TOKEN'
+        );
+      }
 
-      return {
-        success: true,
-        message: 'If the email exists, a reset link has been sent',
-      };
+      // The account must still be an in-house account with the address the link was sent to
+      const user = await this.usersRepo.findById(resetToken.userId);
+      if (!user || user.authProvider !== 'inhouse' || user.email.toLowerCase() !== resetToken.email.toLowerCase()) {
+        throw new AuthProviderError(
+          'Invalid or expired reset token',
+          'inhouse',
+          'ERR_AUTH_INVALID_RESET_TOKEN'
+        );
+      }
+
+      await this.passwordPolicy.assertAcceptable(newPassword, user);
+
+      try {
+        await this.oneTimeTokens.consume(token, 'password_reset');
+      } catch {
+        throw new AuthProviderError(
+          'Invalid or expired reset token',
+          'inhouse',
+          'ERR_AUTH_INVALID_RESET_TOKEN'
+        );
+      }
+
+      await this.passwordPolicy.rememberCurrentPassword(user);
+      const passwordHash = await hashPassword(newPassword);
+      await this.usersRepo.update(user.id, { passwordHash, passwordChangedAt: new Date() });
+
+      return { userId: user.id };
     } catch (error) {
+      if (error instanceof AuthProviderError || error instanceof PasswordPolicyError) {
+        throw error;
+      }
       throw new AuthProviderError(
         'Password reset failed',
         'inhouse',
@@ -229,17 +364,76 @@ export class InhouseAuthProvider implements IAuthProvider {
   }
 
   /**
-   * Verify email with token
+   * Send email verification link
    */
-  async verifyEmail(token: string): Promise<EmailVerificationResult> {
+  async sendVerificationEmail(email: string): Promise<void> {
     try {
-      // TODO: Implement email verification logic
-      // For now, throw not implemented
+      const user = await this.usersRepo.findByEmail(email);
+      if (!user || user.emailVerified || user.authProvider !== 'inhouse') {
+        return;
+      }
+
+      const { token } = await this.oneTimeTokens.issue(
+        user.id,
+        'email_verification',
+        user.email,
+        EMAIL_VERIFICATION_TOKEN_TTL_HOURS * 60
+      );
+
+      await this.emailService.sendEmail({
+        templateName: 'email-verification',
+        toAddress: user.email,
+        templateData: {
+          userName: user.name,
+          verificationUrl: buildFrontendUrl('/verify-email', { token }),
+          expiryHours: EMAIL_VERIFICATION_TOKEN_TTL_HOURS,
+        },
+      });
+    } catch (error) {
       throw new AuthProviderError(
-        'Email verification not implemented',
+        'Failed to send verification email',
         'inhouse',
-        'ERR_AUTH_NOT_IMPLEMENTED'
+        'ERR_AUTH_VERIFICATION_EMAIL_FAILED',
+        error as Error
       );
+    }
+  }
+
+  /**
+   * Verify email with token
+   */
+  async verifyEmail(token: string): Promise<EmailVerificationResult> {
+    try {
+      let verificationToken;
+      try {
+        verificationToken = await this.oneTimeTokens.consume(token, 'email_verification');
+      } catch {
+        throw new AuthProviderError(
+          'Invalid or expired verification token',
+          'inhouse',
+          'ERR_AUTH_INVALID_VERIFICATION_TOKEN'
+        );
+      }
+
+      // Only the address the link was sent to can be verified by it
+      const user = await this.usersRepo.findById(verificationToken.userId);
+      if (!user || user.email.toLowerCase() !== verificationToken.email.toLowerCase()) {
+        throw new AuthProviderError(
+          'Invalid or expired verification token',
+          'inhouse',
+          'ERR_AUTH_INVALID_VERIFICATION_TOKEN'
+        );
+      }
+
+      if (!user.emailVerified) {
+        await this.usersRepo.update(user.id, { emailVerified: true });
+      }
+
+      return {
+        success: true,
+        userId: user.id,
+        message: 'Email verified',
+      };
     } catch (error) {
       if (error instanceof AuthProviderError) {
         throw error;
@@ -299,13 +493,16 @@ export class InhouseAuthProvider implements IAuthProvider {
         );
       }
 
+      await this.passwordPolicy.assertAcceptable(newPassword, user);
+
       // Hash new password
       const newPasswordHash = await hashPassword(newPassword);
 
-      // Update password
-      await this.usersRepo.update(userId, { passwordHash: newPasswordHash });
+      // Update password (the old one goes to the password history)
+      await this.passwordPolicy.rememberCurrentPassword(user);
+      await this.usersRepo.update(userId, { passwordHash: newPasswordHash, passwordChangedAt: new Date() });
     } catch (error) {
-      if (error instanceof AuthProviderError) {
+      if (error instanceof AuthProviderError || error instanceof PasswordPolicyError) {
         throw error;
       }
       throw new AuthProviderError(
@@ -316,4 +513,290 @@ export class InhouseAuthProvider implements IAuthProvider {
       );
     }
   }
+
+  /**
+   * Start passkey registration for a signed-in user
+   *
+   * Works for every account, including users without a password
+   * (external providers), so they get a first-party login as well.
+   */
+  async generatePasskeyRegistrationOptions(
+    userId: string
+  ): Promise<PasskeyCeremonyOptions<CreationOptionsJSON>> {
+    const user = await this.usersRepo.findById(userId);
+    if (!user) {
+      throw new AuthProviderError('User not found', 'inhouse', 'ERR_AUTH_USER_NOT_FOUND');
+    }
+
+    const existing = await this.webauthnRepo.findCredentialsByUserId(user.id);
+    const challenge = await this.createPasskeyChallenge('registration', user.id);
+
+    return {
+      challengeId: challenge.id,
+      options: {
+        challenge: challenge.challenge,
+        rp: { id: WEBAUTHN_RP_ID, name: WEBAUTHN_RP_NAME },
+        user: {
+          id: toBase64Url(Buffer.from(user.id)),
+          name: user.email,
+          displayName: user.name,
+        },
+        pubKeyCredParams: SUPPORTED_COSE_ALGORITHMS.map((alg) => ({ type: 'public-key' as const, alg })),
+        timeout: PASSKEY_CHALLENGE_TTL_MS,
+        attestation: 'none',
+        authenticatorSelection: { residentKey: 'required', userVerification: 'required' },
+        excludeCredentials: existing.map((credential) => ({
+          type: 'public-key' as const,
+          id: credential.credentialId,
+          ...(credential.transports && { transports: credential.transports }),
+        })),
+      },
+    };
+  }
+
+  /**
+   * Finish passkey registration and store the credential public key
+   */
+  async verifyPasskeyRegistration(
+    userId: string,
+    challengeId: string,
+    credential: RegistrationResponseJSON,
+    name?: string
+  ): Promise<PasskeyInfo> {
+    const expected = await this.consumePasskeyChallenge(challengeId, 'registration', userId);
+
+    let verified;
+    try {
+      verified = verifyRegistrationResponse(credential, expected);
+    } catch {
+      throw new AuthProviderError('Invalid passkey response', 'inhouse', 'ERR_AUTH_INVALID_PASSKEY');
+    }
+
+    if (await this.webauthnRepo.findCredentialByCredentialId(verified.credentialId)) {
+      throw new AuthProviderError('Passkey already registered', 'inhouse', 'ERR_AUTH_PASSKEY_EXISTS');
+    }
+
+    const stored = await this.webauthnRepo.createCredential({
+      userId,
+      credentialId: verified.credentialId,
+      publicKeyJwk: verified.publicKeyJwk,
+      algorithm: verified.algorithm,
+      signCount: verified.signCount,
+      transports: credential.response.transports || null,
+      name: name || 'Passkey',
+    });
+
+    return this.toPasskeyInfo(stored);
+  }
+
+  /**
+   * Email a single-use sign-in link
+   *
+   * Only in-house accounts can sign in by link; for unknown addresses and
+   * other providers nothing is sent (the caller's response is the same).
+   */
+  async sendMagicLink(email: string): Promise<void> {
+    try {
+      const user = await this.usersRepo.findByEmail(email);
+      if (!user || user.authProvider !== 'inhouse') {
+        return;
+      }
+
+      const { token } = await this.oneTimeTokens.issue(
+        user.id,
+        'magic_link',
+        user.email,
+        MAGIC_LINK_TOKEN_TTL_MINUTES
+      );
+
+      await this.emailService.sendEmail({
+        templateName: 'magic-link',
+        toAddress: user.email,
+        templateData: {
+          userName: user.name,
+          loginUrl: buildFrontendUrl('/magic-link', { token }),
+          expiryMinutes: MAGIC_LINK_TOKEN_TTL_MINUTES,
+        },
+      });
+    } catch (error) {
+      throw new AuthProviderError(
+        'Failed to send sign-in link',
+        'inhouse',
+        'ERR_AUTH_MAGIC_LINK_EMAIL_FAILED',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Sign in with a token from a magic link email
+   *
+   * Opening the link proves ownership of the address, so it also verifies the email.
+   */
+  async verifyMagicLink(token: string): Promise<AuthProviderResult> {
+    let magicLinkToken;
+    try {
+      magicLinkToken = await this.oneTimeTokens.consume(token, 'magic_link');
+    } catch {
+      throw new AuthProviderError('Invalid or expired sign-in link', 'inhouse', 'ERR_AUTH_INVALID_MAGIC_LINK');
+    }
+
+    // The link only signs in the address it was sent to
+    const user = await this.usersRepo.findById(magicLinkToken.userId);
+    if (
+      !user ||
+      user.authProvider !== 'inhouse' ||
+      user.email.toLowerCase() !== magicLinkToken.email.toLowerCase()
+    ) {
+      throw new AuthProviderError('Invalid or expired sign-in link', 'inhouse', 'ERR_AUTH_INVALID_MAGIC_LINK');
+    }
+
+    if (!user.emailVerified) {
+      await this.usersRepo.update(user.id, { emailVerified: true });
+    }
+
+    return {
+      userId: user.id,
+      email: user.email,
+      name: user.name,
+      externalId: null,
+      metadata: null,
+    };
+  }
+
+  /**
+   * Start a passwordless login (discoverable credentials: no email needed)
+   */
+  async generatePasskeyLoginOptions(): Promise<PasskeyCeremonyOptions<RequestOptionsJSON>> {
+    const challenge = await this.createPasskeyChallenge('authentication', null);
+
+    return {
+      challengeId: challenge.id,
+      options: {
+        challenge: challenge.challenge,
+        rpId: WEBAUTHN_RP_ID,
+        timeout: PASSKEY_CHALLENGE_TTL_MS,
+        userVerification: 'required',
+        allowCredentials: [],
+      },
+    };
+  }
+
+  /**
+   * Finish a passwordless login
+   *
+   * Verifies the assertion signature and the signature counter (a counter
+   * that does not increase indicates a cloned authenticator).
+   */
+  async verifyPasskeyLogin(
+    challengeId: string,
+    credential: AuthenticationResponseJSON
+  ): Promise<AuthProviderResult> {
+    const expected = await this.consumePasskeyChallenge(challengeId, 'authentication', null);
+
+    const stored = await this.webauthnRepo.findCredentialByCredentialId(credential.id);
+    if (!stored) {
+      throw new AuthProviderError('Invalid passkey response', 'inhouse', 'ERR_AUTH_INVALID_PASSKEY');
+    }
+
+    const user = await this.usersRepo.findById(stored.userId);
+    if (!user || (credential.response.userHandle && !this.isUserHandleOf(user, credential.response.userHandle))) {
+      throw new AuthProviderError('Invalid passkey response', 'inhouse', 'ERR_AUTH_INVALID_PASSKEY');
+    }
+
+    let signCount: number;
+    try {
+      ({ signCount } = verifyAuthenticationResponse(credential, expected, stored.publicKeyJwk, stored.algorithm));
+    } catch {
+      throw new AuthProviderError('Invalid passkey response', 'inhouse', 'ERR_AUTH_INVALID_PASSKEY');
+    }
+
+    // Authenticators without a counter always report 0
+    if ((signCount !== 0 || stored.signCount !== 0) && signCount <= stored.signCount) {
+      throw new AuthProviderError('Invalid passkey response', 'inhouse', 'ERR_AUTH_PASSKEY_CLONED');
+    }
+
+    await this.webauthnRepo.updateCredential(stored.id, { signCount, lastUsedAt: new Date() });
+
+    return {
+      userId: user.id,
+      email: user.email,
+      name: user.name,
+      externalId: null,
+      metadata: null,
+    };
+  }
+
+  /**
+   * List the passkeys of a user
+   */
+  async listPasskeys(userId: string): Promise<PasskeyInfo[]> {
+    const credentials = await this.webauthnRepo.findCredentialsByUserId(userId);
+    return credentials.map((credential) => this.toPasskeyInfo(credential));
+  }
+
+  /**
+   * Delete one of the user's passkeys
+   */
+  async deletePasskey(userId: string, passkeyId: string): Promise<void> {
+    const credential = await this.webauthnRepo.findCredentialById(passkeyId);
+    if (!credential || credential.userId !== userId) {
+      throw new AuthProviderError('Passkey not found', 'inhouse', 'ERR_AUTH_PASSKEY_NOT_FOUND');
+    }
+
+    await this.webauthnRepo.deleteCredential(credential.id);
+  }
+
+  /**
+   * Store a random ceremony challenge
+   */
+  private async createPasskeyChallenge(type: 'registration' | 'authentication', userId: string | null) {
+    return this.webauthnRepo.createChallenge({
+      challenge: generateSecureToken(32),
+      type,
+      userId,
+      expiresAt: new Date(Date.now() + PASSKEY_CHALLENGE_TTL_MS),
+    });
+  }
+
+  /**
+   * Use up a ceremony challenge and build the expected client data
+   */
+  private async consumePasskeyChallenge(
+    challengeId: string,
+    type: 'registration' | 'authentication',
+    userId: string | null
+  ): Promise<WebAuthnExpectations> {
+    const challenge = await this.webauthnRepo.consumeChallenge(challengeId);
+    if (
+      !challenge ||
+      challenge.type !== type ||
+      challenge.userId !== userId ||
+      challenge.expiresAt < new Date()
+    ) {
+      throw new AuthProviderError('Invalid or expired passkey challenge', 'inhouse', 'ERR_AUTH_INVALID_CHALLENGE');
+    }
+
+    return { challenge: challenge.challenge, origin: WEBAUTHN_ORIGIN, rpId: WEBAUTHN_RP_ID };
+  }
+
+  /**
+   * Check the user handle returned by a discoverable credential
+   */
+  private isUserHandleOf(user: User, userHandle: string): boolean {
+    return fromBase64Url(userHandle).toString() === user.id;
+  }
+
+  /**
+   * Public view of a stored credential
+   */
+  private toPasskeyInfo(credential: WebAuthnCredential): PasskeyInfo {
+    return {
+      id: credential.id,
+      name: credential.name,
+      transports: credential.transports || [],
+      createdAt: credential.createdAt.toISOString(),
+      lastUsedAt: credential.lastUsedAt ? credential.lastUsedAt.toISOString() : null,
+    };
+  }
 }
@@ -0,0 +1,69 @@
+import { createPublicKey, type JsonWebKey, type KeyObject } from 'crypto';
+
+/**
+ * Minimum time between JWKS refetches triggered by an unknown key ID
+ */
+const JWKS_REFETCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * JSON Web Key Set document
+ */
+export interface JsonWebKeySet {
+  keys?: (JsonWebKey & { kid?: string; use?: string })[];
+}
+
+/**
+ * JWKS Key Store
+ *
+ * Caches an identity provider's public signing keys by key ID. An unknown
+ * key ID (the provider rotated keys) triggers a refetch, at most once a minute.
+ */
+export class JwksKeyStore {
+  private keys: Map<string, KeyObject> = new Map(); // kid ('' if none) -> public key
+  private fetchedAt = 0;
+
+  /**
+   * @param loadJwks - Downloads the current JWKS (throws if the provider is unreachable)
+   */
+  constructor(private loadJwks: () => Promise<JsonWebKeySet>) {}
+
+  /**
+   * Get the public key for a key ID
+   *
+   * @returns Key, or undefined if the provider does not publish it
+   */
+  async getKey(kid: string | undefined): Promise<KeyObject | undefined> {
+    const cached = this.findKey(kid);
+    if (cached) {
+      return cached;
+    }
+
+    if (Date.now() - this.fetchedAt >= JWKS_REFETCH_INTERVAL_MS || this.keys.size === 0) {
+      const { keys } = await this.loadJwks();
+
+      this.keys = new Map();
+      this.fetchedAt = Date.now();
+      for (const jwk of keys || []) {
+        if (jwk.use && jwk.use !== 'sig') continue;
+        try {
+          this.keys.set(jwk.kid || '', createPublicKey({ key: jwk, format: 'jwk' }));
+        } catch {
+          // Skip key types node:crypto cannot import
+        }
+      }
+    }
+
+    return this.findKey(kid);
+  }
+
+  /**
+   * Look up a cached key; tokens without `kid` need a single-key JWKS
+   */
+  private findKey(kid: string | undefined): KeyObject | undefined {
+    if (kid) {
+      return this.keys.get(kid);
+    }
+
+    return this.keys.size === 1 ? this.keys.values().next().value : undefined;
+  }
+}
@@ -0,0 +1,476 @@
+import jwt from 'jsonwebtoken';
+import { createHash } from 'crypto';
+import type {
+  AuthProvider,
+  AuthProviderResult,
+  TokenValidationResult,
+  LoginCredentials,
+  RegisterData,
+  PasswordResetResult,
+  EmailVerificationResult,
+} from '@vertical-vibing/shared-types';
+import type {
+  IRedirectAuthProvider,
+  AuthorizationRequest,
+  ExternalAuthResult,
+} from '../auth-provider.interface';
+import { AuthProviderError } from '../auth-provider.interface';
+import { JwksKeyStore, type JsonWebKeySet } from '../jwks-key-store';
+import { db } from '../../../../shared/db/client';
+import { UsersRepository } from '../../../../shared/db/repositories/users.repository';
+import { OidcAuthRequestsRepository } from '../../../../shared/db/repositories/oidc-auth-requests.repository';
+import { generateSecureToken, hashToken } from '../../../../shared/utils/token';
+import { buildFrontendUrl } from '../../../../shared/utils/url';
+
+/**
+ * Time to complete the login at the identity provider (10 minutes)
+ */
+const AUTH_REQUEST_TTL_SECONDS = 10 * 60;
+
+/**
+ * Timeout for requests to the identity provider
+ */
+const HTTP_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * ID token signature algorithms we accept
+ */
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'];
+
+/**
+ * `amr` values (RFC 8176) that mean the provider performed multi-factor authentication
+ */
+const MFA_AMR_VALUES = ['mfa', 'otp', 'hwk'];
+
+/**
+ * OIDC client configuration
+ */
+export interface OidcProviderConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string; // Omit for public clients (PKCE only)
+  redirectUri: string; // Frontend page that receives ?code=...&state=...
+  scopes: string;
+}
+
+/**
+ * Relevant fields of the discovery document (/.well-known/openid-configuration)
+ */
+interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+/**
+ * Token endpoint response
+ */
+interface OidcTokenResponse {
+  id_token?: string;
+  access_token?: string;
+  refresh_token?: string;
+}
+
+/**
+ * Standard ID token claims we map to users
+ */
+export type OidcClaims = {
+  iss: string;
+  sub: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  preferred_username?: string;
+  picture?: string;
+  locale?: string;
+  amr?: string[];
+  nonce?: string;
+  [claim: string]: unknown;
+};
+
+/**
+ * Load OIDC client configuration from the environment
+ *
+ * @throws Error if OIDC_ISSUER or OIDC_CLIENT_ID is missing
+ */
+export function loadOidcConfig(): OidcProviderConfig {
+  const issuer = process.env.OIDC_ISSUER;
+  const clientId = process.env.OIDC_CLIENT_ID;
+
+  if (!issuer || !clientId) {
+    throw new Error('OIDC_ISSUER and OIDC_CLIENT_ID are required for AUTH_PROVIDER=oidc');
+  }
+
+  return {
+    issuer: issuer.replace(/\/+$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri: process.env.OIDC_REDIRECT_URI || buildFrontendUrl('/auth/callback'),
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+  };
+}
+
+/**
+ * OpenID Connect Authentication Provider
+ *
+ * Generic provider for any OIDC-compliant identity provider
+ * (Auth0, Okta, Keycloak, Google, Cognito, ...):
+ * - Endpoints and signing keys from the discovery document and JWKS
+ * - Authorization-code flow with PKCE (S256); state and nonce are single-use
+ * - ID tokens validated for signature, issuer, audience, expiry and nonce
+ *
+ * Passwords, password resets and email verification are handled by the
+ * identity provider; users sign in through createAuthorizationRequest().
+ */
+export class OidcAuthProvider implements IRedirectAuthProvider {
+  readonly name: AuthProvider;
+  protected config: OidcProviderConfig;
+  protected usersRepo: UsersRepository;
+  private requestsRepo: OidcAuthRequestsRepository;
+  private discovery: Promise<OidcDiscoveryDocument> | null = null;
+  private signingKeys: JwksKeyStore;
+
+  constructor(config: OidcProviderConfig = loadOidcConfig(), name: AuthProvider = 'oidc') {
+    this.config = config;
+    this.name = name;
+    this.usersRepo = new UsersRepository(db);
+    this.requestsRepo = new OidcAuthRequestsRepository(db);
+    this.signingKeys = new JwksKeyStore(async () =>
+      this.fetchJson<JsonWebKeySet>((await this.getDiscoveryDocument()).jwks_uri)
+    );
+  }
+
+  /**
+   * Password login is not available: users sign in at the identity provider
+   */
+  async login(_credentials: LoginCredentials): Promise<AuthProviderResult> {
+    throw this.redirectRequired();
+  }
+
+  /**
+   * Registration happens at the identity provider (users are provisioned on first login)
+   */
+  async register(_data: RegisterData): Promise<AuthProviderResult> {
+    throw this.redirectRequired();
+  }
+
+  /**
+   * Validate an ID token issued by the identity provider
+   */
+  async validateToken(token: string): Promise<TokenValidationResult> {
+    try {
+      const claims = await this.validateIdToken(token);
+      const user = await this.usersRepo.findByExternalId(this.name, claims.sub);
+
+      if (!user) {
+        return {
+          valid: false,
+          error: 'User not found',
+        };
+      }
+
+      return {
+        valid: true,
+        userId: user.id,
+        email: user.email,
+        externalId: claims.sub,
+      };
+    } catch (error) {
+      return {
+        valid: false,
+        error: error instanceof Error ? error.message : 'Invalid token',
+      };
+    }
+  }
+
+  /**
+   * Refresh the provider session and return the latest claims
+   */
+  async refreshToken(refreshToken: string): Promise<AuthProviderResult> {
+    const tokens = await this.requestTokens({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    });
+
+    if (!tokens.id_token) {
+      throw new AuthProviderError('Identity provider did not return an ID token', this.name, 'ERR_AUTH_INVALID_ID_TOKEN');
+    }
+
+    return this.mapClaims(await this.validateIdToken(tokens.id_token));
+  }
+
+  /**
+   * Password resets are handled by the identity provider
+   */
+  async resetPassword(_email: string): Promise<PasswordResetResult> {
+    return {
+      success: false,
+      message: 'Password reset is handled by the identity provider',
+    };
+  }
+
+  async confirmPasswordReset(_token: string, _newPassword: string, _email?: string): Promise<{ userId: string | null }> {
+    throw this.unsupported('Password reset');
+  }
+
+  /**
+   * Email addresses are verified by the identity provider (email_verified claim)
+   */
+  async sendVerificationEmail(_email: string): Promise<void> {
+    return;
+  }
+
+  async verifyEmail(_token: string, _email?: string): Promise<EmailVerificationResult> {
+    throw this.unsupported('Email verification');
+  }
+
+  async updatePassword(_userId: string, _currentPassword: string, _newPassword: string): Promise<void> {
+    throw this.unsupported('Password change');
+  }
+
+  /**
+   * Create an authorization request (authorization-code flow with PKCE)
+   */
+  async createAuthorizationRequest(): Promise<AuthorizationRequest> {
+    const discovery = await this.getDiscoveryDocument();
+
+    const state = generateSecureToken(32);
+    const nonce = generateSecureToken(16);
+    const codeVerifier = generateSecureToken(48);
+
+    await this.requestsRepo.create({
+      provider: this.name,
+      stateHash: hashToken(state),
+      codeVerifier,
+      nonce,
+      redirectUri: this.config.redirectUri,
+      expiresAt: new Date(Date.now() + AUTH_REQUEST_TTL_SECONDS * 1000),
+    });
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.config.clientId);
+    url.searchParams.set('redirect_uri', this.config.redirectUri);
+    url.searchParams.set('scope', this.config.scopes);
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set('code_challenge', createHash('sha256').update(codeVerifier).digest('base64url'));
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return {
+      authorizationUrl: url.toString(),
+      state,
+      expiresIn: AUTH_REQUEST_TTL_SECONDS,
+    };
+  }
+
+  /**
+   * Exchange the authorization code and validate the ID token
+   */
+  async completeAuthorization(code: string, state: string): Promise<ExternalAuthResult> {
+    const request = await this.requestsRepo.consumeByStateHash(hashToken(state));
+    if (!request || request.provider !== this.name || request.expiresAt < new Date()) {
+      throw new AuthProviderError('Invalid or expired login request', this.name, 'ERR_AUTH_INVALID_STATE');
+    }
+
+    const tokens = await this.requestTokens({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: request.redirectUri,
+      code_verifier: request.codeVerifier,
+    });
+
+    if (!tokens.id_token) {
+      throw new AuthProviderError('Identity provider did not return an ID token', this.name, 'ERR_AUTH_INVALID_ID_TOKEN');
+    }
+
+    return this.mapClaims(await this.validateIdToken(tokens.id_token, request.nonce));
+  }
+
+  /**
+   * Map ID token claims to a user (override for provider-specific claims)
+   *
+   * `sub` becomes users.externalId; non-sensitive profile claims are kept
+   * in users.externalMetadata
+   */
+  protected mapClaims(claims: OidcClaims): ExternalAuthResult {
+    if (!claims.email) {
+      throw new AuthProviderError(
+        'Identity provider did not return an email address',
+        this.name,
+        'ERR_AUTH_MISSING_EMAIL'
+      );
+    }
+
+    const email = claims.email.toLowerCase();
+    const name =
+      claims.name ||
+      [claims.given_name, claims.family_name].filter(Boolean).join(' ') ||
+      claims.preferred_username ||
+      email.split('@')[0];
+
+    return {
+      userId: claims.sub,
+      email,
+      name: name.slice(0, 100),
+      externalId: claims.sub,
+      metadata: {
+        issuer: claims.iss,
+        ...(claims.preferred_username && { username: claims.preferred_username }),
+        ...(claims.picture && { picture: claims.picture }),
+        ...(claims.locale && { locale: claims.locale }),
+      },
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      mfa: Array.isArray(claims.amr) && claims.amr.some((method) => MFA_AMR_VALUES.includes(method)),
+    };
+  }
+
+  /**
+   * Validate an ID token: signature (JWKS), issuer, audience, expiry and nonce
+   */
+  protected async validateIdToken(idToken: string, nonce?: string): Promise<OidcClaims> {
+    const discovery = await this.getDiscoveryDocument();
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new AuthProviderError('Invalid ID token', this.name, 'ERR_AUTH_INVALID_ID_TOKEN');
+    }
+
+    const key = await this.signingKeys.getKey(decoded.header.kid);
+    if (!key) {
+      throw new AuthProviderError('Invalid ID token', this.name, 'ERR_AUTH_INVALID_ID_TOKEN');
+    }
+
+    let claims: OidcClaims;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer: discovery.issuer,
+        audience: this.config.clientId,
+        clockTolerance: 60,
+      }) as OidcClaims;
+    } catch (error) {
+      throw new AuthProviderError('Invalid ID token', this.name, 'ERR_AUTH_INVALID_ID_TOKEN', error as Error);
+    }
+
+    const multipleAudiences = Array.isArray(claims.aud) && claims.aud.length > 1;
+    if (
+      !claims.sub ||
+      (nonce !== undefined && claims.nonce !== nonce) ||
+      ((multipleAudiences || claims.azp !== undefined) && claims.azp !== this.config.clientId)
+    ) {
+      throw new AuthProviderError('Invalid ID token', this.name, 'ERR_AUTH_INVALID_ID_TOKEN');
+    }
+
+    return claims;
+  }
+
+  /**
+   * Get the discovery document (cached; retried after a failure)
+   */
+  protected async getDiscoveryDocument(): Promise<OidcDiscoveryDocument> {
+    if (!this.discovery) {
+      this.discovery = this.fetchJson<OidcDiscoveryDocument>(
+        `${this.config.issuer}/.well-known/openid-configuration`
+      ).then((document) => {
+        if (document.issuer.replace(/\/+$/, '') !== this.config.issuer) {
+          throw new AuthProviderError('Discovery document issuer mismatch', this.name, 'ERR_AUTH_DISCOVERY_FAILED');
+        }
+        return document;
+      });
+      this.discovery.catch(() => {
+        this.discovery = null;
+      });
+    }
+
+    return this.discovery;
+  }
+
+  /**
+   * Call the token endpoint (client_secret_basic for confidential clients)
+   */
+  private async requestTokens(params: Record<string, string>): Promise<OidcTokenResponse> {
+    const discovery = await this.getDiscoveryDocument();
+    const body = new URLSearchParams(params);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+
+    if (this.config.clientSecret) {
+      const credentials = `${encodeURIComponent(this.config.clientId)}:${encodeURIComponent(this.config.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+      body.set('client_id', this.config.clientId);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(discovery.token_endpoint, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new AuthProviderError(
+        'Authentication service temporarily unavailable',
+        this.name,
+        'ERR_AUTH_SERVICE_UNAVAILABLE',
+        error as Error
+      );
+    }
+
+    if (!response.ok) {
+      // invalid_grant: code expired, already used, or issued for another verifier/redirect URI
+      throw new AuthProviderError('Invalid authorization code', this.name, 'ERR_AUTH_INVALID_CODE');
+    }
+
+    return (await response.json()) as OidcTokenResponse;
+  }
+
+  /**
+   * GET a JSON document from the identity provider
+   */
+  private async fetchJson<T>(url: string): Promise<T> {
+    try {
+      const response = await fetch(url, {
+        headers: { Accept: 'application/json' },
+        signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw new Error(`GET ${url} returned ${response.status}`);
+      }
+
+      return (await response.json()) as T;
+    } catch (error) {
+      throw new AuthProviderError(
+        'Authentication service temporarily unavailable',
+        this.name,
+        'ERR_AUTH_SERVICE_UNAVAILABLE',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Error for password-based operations
+   */
+  protected redirectRequired(): AuthProviderError {
+    return new AuthProviderError('Sign in with your identity provider', this.name, 'ERR_AUTH_REDIRECT_REQUIRED');
+  }
+
+  /**
+   * Error for operations handled by the identity provider
+   */
+  protected unsupported(operation: string): AuthProviderError {
+    return new AuthProviderError(
+      `${operation} is handled by the identity provider`,
+      this.name,
+      'ERR_AUTH_NOT_SUPPORTED'
+    );
+  }
+}
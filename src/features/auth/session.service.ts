@@ -0,0 +1,194 @@
+import type { AuthSession } from '../../shared/db/schema/auth-sessions.schema';
+import type { ClientInfo } from '../../shared/utils/request';
+import type { AuthSessionInfo } from './auth.types';
+import { db } from '../../shared/db/client';
+import { AuthSessionsRepository } from '../../shared/db/repositories/auth-sessions.repository';
+import { generateSecureToken, hashToken } from '../../shared/utils/token';
+import { tokenRevocationService } from '../../shared/services/token-revocation.service';
+
+/**
+ * Refresh token lifetime in days (default: 30 days)
+ */
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+/**
+ * Session Service
+ *
+ * Server-side session management backing refresh tokens
+ * - One session per signed-in device
+ * - Refresh tokens are opaque, stored hashed, and rotated on every use
+ * - Presenting a rotated-out token revokes the session (token theft detection)
+ * - Revoking a session also denylists the access tokens issued for it
+ */
+export class SessionService {
+  private sessionsRepo: AuthSessionsRepository;
+
+  constructor(sessionsRepo?: AuthSessionsRepository) {
+    this.sessionsRepo = sessionsRepo ?? new AuthSessionsRepository(db);
+  }
+
+  /**
+   * Create a new session for a user
+   *
+   * @param userId - Internal user ID
+   * @param client - Caller IP and user agent
+   * @param mfaVerified - Signed in with a second factor (kept across refreshes)
+   * @param activeCompanyId - Company the session acts on (kept across refreshes)
+   * @returns Created session and the plain refresh token (only returned once)
+   */
+  async createSession(
+    userId: string,
+    client: ClientInfo = {},
+    mfaVerified = false,
+    activeCompanyId: string | null = null
+  ): Promise<{ session: AuthSession; refreshToken: string }> {
+    const refreshToken = generateSecureToken(48);
+
+    const session = await this.sessionsRepo.create({
+      userId,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: client.userAgent?.slice(0, 500) ?? null,
+      ipAddress: client.ipAddress ?? null,
+      mfaVerified,
+      activeCompanyId,
+      expiresAt: this.calculateExpiry(),
+    });
+
+    return { session, refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for a new one (rotation)
+   *
+   * @param refreshToken - Current refresh token
+   * @param client - Caller IP and user agent
+   * @returns Updated session and the new plain refresh token
+   * @throws Error if the token is unknown, revoked, expired or was already used
+   */
+  async rotateRefreshToken(
+    refreshToken: string,
+    client: ClientInfo = {}
+  ): Promise<{ session: AuthSession; refreshToken: string }> {
+    const tokenHash = hashToken(refreshToken);
+    const session = await this.sessionsRepo.findByRefreshTokenHash(tokenHash);
+
+    if (!session) {
+      // A rotated-out token being replayed means it leaked: kill the whole session
+      const compromised = await this.sessionsRepo.findByPreviousRefreshTokenHash(tokenHash);
+      if (compromised && !compromised.revokedAt) {
+        await this.sessionsRepo.revoke(compromised.id);
+        await tokenRevocationService.revokeSession(compromised.id, compromised.userId, 'refresh_token_reuse');
+        console.warn(`⚠️  Refresh token reuse detected, session revoked: ${compromised.id}`);
+      }
+      throw new Error('Invalid refresh token');
+    }
+
+    if (session.revokedAt) {
+      throw new Error('Invalid refresh token');
+    }
+
+    if (session.expiresAt <= new Date()) {
+      throw new Error('Refresh token expired');
+    }
+
+    const newRefreshToken = generateSecureToken(48);
+    const updated = await this.sessionsRepo.update(session.id, {
+      refreshTokenHash: hashToken(newRefreshToken),
+      previousRefreshTokenHash: tokenHash,
+      lastUsedAt: new Date(),
+      ipAddress: client.ipAddress ?? session.ipAddress,
+      userAgent: client.userAgent?.slice(0, 500) ?? session.userAgent,
+      expiresAt: this.calculateExpiry(),
+    });
+
+    if (!updated) {
+      throw new Error('Invalid refresh token');
+    }
+
+    return { session: updated, refreshToken: newRefreshToken };
+  }
+
+  /**
+   * Change the company a session acts on
+   *
+   * @throws Error if the session does not exist, is revoked or belongs to another user
+   */
+  async setActiveCompany(userId: string, sessionId: string, companyId: string | null): Promise<AuthSession> {
+    const session = await this.sessionsRepo.findById(sessionId);
+    if (!session || session.userId !== userId || session.revokedAt) {
+      throw new Error('Session not found');
+    }
+
+    const updated = await this.sessionsRepo.update(session.id, { activeCompanyId: companyId });
+    if (!updated) {
+      throw new Error('Session not found');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Check if a session is still active
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    const session = await this.sessionsRepo.findById(sessionId);
+    return !!session && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  /**
+   * List active sessions for a user
+   *
+   * @param userId - Internal user ID
+   * @param currentSessionId - Session of the caller (flagged as current)
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<AuthSessionInfo[]> {
+    const sessions = await this.sessionsRepo.findActiveByUserId(userId);
+    return sessions.map((session) => this.toSessionInfo(session, currentSessionId));
+  }
+
+  /**
+   * Revoke one of the user's sessions and its access tokens
+   *
+   * @throws Error if the session does not exist or belongs to another user
+   */
+  async revokeSession(userId: string, sessionId: string, reason: string = 'session_revoked'): Promise<void> {
+    const session = await this.sessionsRepo.findById(sessionId);
+    if (!session || session.userId !== userId || session.revokedAt) {
+      throw new Error('Session not found');
+    }
+
+    await this.sessionsRepo.revoke(sessionId);
+    await tokenRevocationService.revokeSession(sessionId, userId, reason);
+  }
+
+  /**
+   * Revoke every session and access token for a user (sign out everywhere)
+   *
+   * @returns Number of sessions revoked
+   */
+  async revokeAllSessions(userId: string, reason: string = 'sign_out_everywhere'): Promise<number> {
+    return tokenRevocationService.revokeAllForUser(userId, reason);
+  }
+
+  /**
+   * Calculate refresh token expiry from now
+   */
+  private calculateExpiry(): Date {
+    return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Convert DB session to public session info
+   */
+  private toSessionInfo(session: AuthSession, currentSessionId?: string): AuthSessionInfo {
+    return {
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt.toISOString(),
+      lastUsedAt: session.lastUsedAt.toISOString(),
+      expiresAt: session.expiresAt.toISOString(),
+      current: session.id === currentSessionId,
+    };
+  }
+}
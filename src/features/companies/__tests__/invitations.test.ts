@@ -0,0 +1,220 @@
+/**
+ * Company Invitation Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CompanyInvitationsService } from '../invitations.service';
+import { CompaniesService } from '../companies.service';
+import { AuthService } from '../../auth/auth.service';
+import { db } from '../../../shared/db/client';
+import { UsersRepository } from '../../../shared/db/repositories/users.repository';
+import { CompaniesRepository } from '../../../shared/db/repositories/companies.repository';
+import { ThrottledError } from '../../../shared/utils/throttle';
+
+// shared-types is not built in this workspace; only runtime enums are needed
+vi.mock('@vertical-vibing/shared-types', () => ({
+  CompanyRole: { OWNER: 'owner', ADMIN: 'admin', MEMBER: 'member' },
+  PlanTier: { FREE: 'free', STARTER: 'starter', PRO: 'pro', ENTERPRISE: 'enterprise' },
+  SubscriptionStatus: { ACTIVE: 'active', CANCELED: 'canceled' },
+}));
+
+// Users, companies and invitations live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+// IAM tables are PostgreSQL-only in the app; use the in-memory implementation
+vi.mock('../../../shared/db/repositories/iam.repository', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../shared/db/repositories/iam.repository')>();
+  const iamDb = new actual.InMemoryIAMDatabase();
+  return { ...actual, iamDb, getIAMDb: () => iamDb };
+});
+
+const sendEmail = vi.fn();
+vi.mock('../../email/email.service', () => ({
+  EmailService: vi.fn().mockImplementation(() => ({ sendEmail })),
+}));
+
+vi.mock('../../email/compliance.service', () => ({
+  ComplianceService: vi.fn(),
+}));
+
+describe('Company invitations', () => {
+  let service: CompanyInvitationsService;
+  let usersRepository: UsersRepository;
+  let companiesRepository: CompaniesRepository;
+  let ownerId: string;
+  let companyId: string;
+  let userLevelId: string;
+  let consoleSpy: any;
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  /**
+   * Token of the link in the last email sent with a template
+   */
+  const lastLinkToken = (templateName: string, urlField: string): string => {
+    const call = sendEmail.mock.calls.filter(([options]) => options.templateName === templateName).at(-1)!;
+    return new URL(call[0].templateData[urlField]).searchParams.get('token')!;
+  };
+
+  /**
+   * Create a user with an email address
+   */
+  const createUser = async (email: string, emailVerified = true) => {
+    return usersRepository.create({ email, name: 'Invitee', passwordHash: null, emailVerified });
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    sendEmail.mockReset();
+
+    service = new CompanyInvitationsService();
+    usersRepository = new UsersRepository(db);
+    companiesRepository = new CompaniesRepository(db);
+
+    const owner = await usersRepository.create({
+      email: `owner-${crypto.randomUUID()}@example.com`,
+      name: 'Olivia Owner',
+      passwordHash: null,
+    });
+    ownerId = owner.id;
+    const company = await new CompaniesService().createCompany({
+      name: 'Acme',
+      slug: `acme-${crypto.randomUUID()}`,
+      ownerId,
+    });
+    companyId = company.id;
+
+    userLevelId = crypto.randomUUID();
+    await db.iam.userLevels.create({
+      id: userLevelId,
+      companyId,
+      name: 'Editors',
+      isDefault: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    } as any);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    consoleSpy.mockRestore();
+  });
+
+  it('should email an invitation link to the invited address', async () => {
+    const email = `Invitee-${crypto.randomUUID()}@Example.com`;
+
+    const invitation = await service.create(companyId, ownerId, { email, role: 'admin', userLevelIds: [userLevelId] });
+
+    expect(invitation).toMatchObject({ email: email.toLowerCase(), role: 'admin', status: 'pending', sendCount: 1 });
+    expect(new Date(invitation.expiresAt).getTime()).toBe(Date.now() + 7 * DAY_MS);
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        templateName: 'team-invitation',
+        toAddress: email.toLowerCase(),
+        templateData: expect.objectContaining({ inviterName: 'Olivia Owner', companyName: 'Acme', roleName: 'admin', expiryDays: 7 }),
+      })
+    );
+    const token = lastLinkToken('team-invitation', 'invitationUrl');
+    expect(await service.preview(token)).toMatchObject({ companyName: 'Acme', inviterName: 'Olivia Owner', role: 'admin' });
+
+    await expect(service.create(companyId, ownerId, { email, role: 'member', userLevelIds: [] })).rejects.toThrow(
+      'An invitation is already pending for this email'
+    );
+  });
+
+  it('should only let owners and admins invite, with user levels of the company', async () => {
+    const member = await createUser(`member-${crypto.randomUUID()}@example.com`);
+    await companiesRepository.addMember({ id: crypto.randomUUID(), companyId, userId: member.id, role: 'member' as any });
+
+    await expect(
+      service.create(companyId, member.id, { email: 'someone@example.com', role: 'member', userLevelIds: [] })
+    ).rejects.toThrow('Insufficient permissions');
+    await expect(
+      service.create(companyId, ownerId, { email: member.email, role: 'member', userLevelIds: [] })
+    ).rejects.toThrow('User is already a member of this company');
+    await expect(
+      service.create(companyId, ownerId, { email: 'someone@example.com', role: 'member', userLevelIds: ['unknown'] })
+    ).rejects.toThrow('User level not found: unknown');
+  });
+
+  it('should add the invitee with the invited role and user levels on accept', async () => {
+    const invitee = await createUser(`invitee-${crypto.randomUUID()}@example.com`, false);
+    const stranger = await createUser(`stranger-${crypto.randomUUID()}@example.com`);
+    await service.create(companyId, ownerId, { email: invitee.email, role: 'admin', userLevelIds: [userLevelId] });
+    const token = lastLinkToken('team-invitation', 'invitationUrl');
+
+    await expect(service.accept(token, stranger.id)).rejects.toThrow('This invitation was sent to another email address');
+
+    expect(await service.accept(token, invitee.id)).toEqual({ companyId });
+
+    expect(await companiesRepository.getMember(companyId, invitee.id)).toMatchObject({ role: 'admin' });
+    expect(await db.iam.userUserLevels.getUserLevels(invitee.id)).toEqual([userLevelId]);
+    expect(await usersRepository.findById(invitee.id)).toMatchObject({ emailVerified: true });
+    expect(await service.list(companyId, ownerId)).toEqual([
+      expect.objectContaining({ status: 'accepted', acceptedBy: invitee.id }),
+    ]);
+    await expect(service.accept(token, invitee.id)).rejects.toThrow('Invalid or expired invitation');
+  });
+
+  it('should decline, revoke and expire invitation links', async () => {
+    await service.create(companyId, ownerId, { email: 'decline@example.com', role: 'member', userLevelIds: [] });
+    const declineToken = lastLinkToken('team-invitation', 'invitationUrl');
+    await service.decline(declineToken);
+    await expect(service.preview(declineToken)).rejects.toThrow('Invalid or expired invitation');
+
+    const revoked = await service.create(companyId, ownerId, { email: 'revoke@example.com', role: 'member', userLevelIds: [] });
+    const revokeToken = lastLinkToken('team-invitation', 'invitationUrl');
+    await service.revoke(companyId, ownerId, revoked.id);
+    await expect(service.preview(revokeToken)).rejects.toThrow('Invalid or expired invitation');
+    await expect(service.revoke(companyId, ownerId, revoked.id)).rejects.toThrow('Invitation is no longer pending');
+
+    await service.create(companyId, ownerId, { email: 'expire@example.com', role: 'member', userLevelIds: [] });
+    const expireToken = lastLinkToken('team-invitation', 'invitationUrl');
+    vi.setSystemTime(Date.now() + 7 * DAY_MS);
+    await expect(service.preview(expireToken)).rejects.toThrow('Invalid or expired invitation');
+
+    const statuses = (await service.list(companyId, ownerId)).map((invitation) => [invitation.email, invitation.status]);
+    expect(statuses).toEqual(
+      expect.arrayContaining([
+        ['decline@example.com', 'declined'],
+        ['revoke@example.com', 'revoked'],
+        ['expire@example.com', 'expired'],
+      ])
+    );
+  });
+
+  it('should replace the link and renew the expiry on resend (throttled)', async () => {
+    const invitation = await service.create(companyId, ownerId, { email: 'resend@example.com', role: 'member', userLevelIds: [] });
+    const firstToken = lastLinkToken('team-invitation', 'invitationUrl');
+    vi.setSystemTime(Date.now() + 6 * DAY_MS);
+
+    const resent = await service.resend(companyId, ownerId, invitation.id);
+
+    expect(resent.sendCount).toBe(2);
+    expect(new Date(resent.expiresAt).getTime()).toBe(Date.now() + 7 * DAY_MS);
+    await expect(service.preview(firstToken)).rejects.toThrow('Invalid or expired invitation');
+    await expect(service.preview(lastLinkToken('team-invitation', 'invitationUrl'))).resolves.toMatchObject({
+      email: 'resend@example.com',
+    });
+    await expect(service.resend(companyId, ownerId, invitation.id)).rejects.toBeInstanceOf(ThrottledError);
+  });
+
+  it('should join invited companies once a new account verifies its address', async () => {
+    const authService = new AuthService();
+    const email = `newcomer-${crypto.randomUUID()}@example.com`;
+    await service.create(companyId, ownerId, { email, role: 'member', userLevelIds: [userLevelId] });
+
+    // Anyone can register with any address: nothing is joined before it is verified
+    const { user } = await authService.register({ email, password: 'Password123', name: 'Newcomer' });
+    expect(await companiesRepository.getMember(companyId, user.id)).toBeNull();
+
+    await authService.verifyEmail(lastLinkToken('email-verification', 'verificationUrl'));
+
+    expect(await companiesRepository.getMember(companyId, user.id)).toMatchObject({ role: 'member' });
+    expect(await db.iam.userUserLevels.getUserLevels(user.id)).toEqual([userLevelId]);
+    expect(await service.list(companyId, ownerId)).toEqual([expect.objectContaining({ status: 'accepted' })]);
+  });
+});
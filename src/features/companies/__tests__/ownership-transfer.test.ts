@@ -0,0 +1,210 @@
+/**
+ * Company Ownership Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { OwnershipTransferService } from '../ownership-transfer.service';
+import { CompaniesService } from '../companies.service';
+import { auditService } from '../../iam/audit.service';
+import { db } from '../../../shared/db/client';
+import { UsersRepository } from '../../../shared/db/repositories/users.repository';
+import { CompaniesRepository } from '../../../shared/db/repositories/companies.repository';
+
+// shared-types is not built in this workspace; only runtime enums are needed
+vi.mock('@vertical-vibing/shared-types', () => ({
+  CompanyRole: { OWNER: 'owner', ADMIN: 'admin', MEMBER: 'member' },
+  PlanTier: { FREE: 'free', STARTER: 'starter', PRO: 'pro', ENTERPRISE: 'enterprise' },
+  SubscriptionStatus: { ACTIVE: 'active', CANCELED: 'canceled' },
+}));
+
+// Users, companies and transfers live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+const sendEmail = vi.fn();
+vi.mock('../../email/email.service', () => ({
+  EmailService: vi.fn().mockImplementation(() => ({ sendEmail })),
+}));
+
+describe('Company ownership', () => {
+  let service: OwnershipTransferService;
+  let companiesService: CompaniesService;
+  let usersRepository: UsersRepository;
+  let companiesRepository: CompaniesRepository;
+  let ownerId: string;
+  let companyId: string;
+  let consoleSpy: any;
+
+  /**
+   * Create a user who is a member of the company
+   */
+  const createMember = async (role: 'owner' | 'admin' | 'member' = 'member'): Promise<string> => {
+    const user = await usersRepository.create({
+      email: `member-${crypto.randomUUID()}@example.com`,
+      name: 'Mia Member',
+      passwordHash: null,
+    });
+    await companiesRepository.addMember({ id: crypto.randomUUID(), companyId, userId: user.id, role: role as any });
+    return user.id;
+  };
+
+  /**
+   * Role of a user in the company
+   */
+  const roleOf = async (userId: string) => (await companiesRepository.getMember(companyId, userId))?.role;
+
+  /**
+   * Token of the link in the last ownership transfer email
+   */
+  const lastLinkToken = (): string => {
+    const [options] = sendEmail.mock.calls.at(-1)!;
+    return new URL(options.templateData.confirmUrl).searchParams.get('token')!;
+  };
+
+  /**
+   * Membership events audited for the company, oldest first (logs come newest first)
+   */
+  const auditedLogs = async () => {
+    const { logs } = await auditService.getLogsForCompany(companyId, { entityType: 'membership' });
+    return [...logs].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  };
+
+  /**
+   * Actions audited for the company, oldest first
+   */
+  const auditedActions = async () => (await auditedLogs()).map((log) => log.action);
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    sendEmail.mockReset();
+    service = new OwnershipTransferService();
+    companiesService = new CompaniesService();
+    usersRepository = new UsersRepository(db);
+    companiesRepository = new CompaniesRepository(db);
+
+    const owner = await usersRepository.create({
+      email: `owner-${crypto.randomUUID()}@example.com`,
+      name: 'Olivia Owner',
+      passwordHash: null,
+    });
+    ownerId = owner.id;
+    companyId = (await companiesService.createCompany({ name: 'Acme', slug: `acme-${crypto.randomUUID()}`, ownerId })).id;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    consoleSpy.mockRestore();
+  });
+
+  it('should always keep at least one owner', async () => {
+    await expect(companiesService.updateMemberRole(companyId, ownerId, ownerId, 'admin' as any)).rejects.toThrow(
+      'Company must keep at least one owner'
+    );
+    await expect(companiesService.removeMember(companyId, ownerId, ownerId)).rejects.toThrow(
+      'Company must keep at least one owner'
+    );
+
+    const coOwnerId = await createMember();
+    await companiesService.updateMemberRole(companyId, ownerId, coOwnerId, 'owner' as any);
+    await companiesService.updateMemberRole(companyId, ownerId, ownerId, 'admin' as any);
+
+    expect(await roleOf(ownerId)).toBe('admin');
+    await expect(companiesService.updateMemberRole(companyId, coOwnerId, coOwnerId, 'member' as any)).rejects.toThrow(
+      'Company must keep at least one owner'
+    );
+  });
+
+  it('should only let owners demote or remove owners', async () => {
+    const adminId = await createMember('admin');
+    const coOwnerId = await createMember('owner');
+
+    await expect(companiesService.updateMemberRole(companyId, adminId, coOwnerId, 'member' as any)).rejects.toThrow(
+      'Cannot change owner role'
+    );
+    await expect(companiesService.removeMember(companyId, adminId, coOwnerId)).rejects.toThrow('Cannot remove company owner');
+
+    await companiesService.removeMember(companyId, ownerId, coOwnerId);
+    expect(await roleOf(coOwnerId)).toBeUndefined();
+  });
+
+  it('should audit role changes and removals', async () => {
+    const memberId = await createMember();
+
+    await companiesService.updateMemberRole(companyId, ownerId, memberId, 'admin' as any);
+    await companiesService.removeMember(companyId, ownerId, memberId);
+
+    const logs = await auditedLogs();
+    expect(logs.map(({ action, userId, entityId, changes }) => ({ action, userId, entityId, changes }))).toEqual([
+      { action: 'membership.role_changed', userId: ownerId, entityId: memberId, changes: { before: 'member', after: 'admin' } },
+      { action: 'membership.removed', userId: ownerId, entityId: memberId, changes: { role: 'admin' } },
+    ]);
+  });
+
+  it('should hand ownership over once the recipient confirms by email', async () => {
+    const recipientId = await createMember();
+
+    const transfer = await service.request(companyId, ownerId, recipientId);
+
+    expect(transfer).toMatchObject({ fromUserId: ownerId, toUserId: recipientId, status: 'pending' });
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        templateName: 'ownership-transfer',
+        templateData: expect.objectContaining({ ownerName: 'Olivia Owner', companyName: 'Acme', expiryDays: 3 }),
+      })
+    );
+    expect(await roleOf(recipientId)).toBe('member');
+    expect(await service.getPending(companyId, ownerId)).toMatchObject({ id: transfer.id });
+
+    const token = lastLinkToken();
+    await expect(service.confirm(token, ownerId)).rejects.toThrow('This ownership transfer is for another account');
+
+    expect(await service.confirm(token, recipientId)).toEqual({ companyId, role: 'owner' });
+    expect(await roleOf(recipientId)).toBe('owner');
+    expect(await roleOf(ownerId)).toBe('admin');
+    expect(await service.getPending(companyId, recipientId)).toBeNull();
+    await expect(service.confirm(token, recipientId)).rejects.toThrow('Invalid or expired ownership transfer');
+    expect(await auditedActions()).toEqual(['membership.ownership_transfer_requested', 'membership.ownership_transferred']);
+  });
+
+  it('should allow one pending transfer, cancelled by owners or declined by the recipient', async () => {
+    const recipientId = await createMember();
+    const adminId = await createMember('admin');
+
+    await expect(service.request(companyId, adminId, recipientId)).rejects.toThrow('Only company owner can transfer ownership');
+    await expect(service.request(companyId, ownerId, ownerId)).rejects.toThrow('Cannot transfer ownership to yourself');
+
+    await service.request(companyId, ownerId, recipientId);
+    const firstToken = lastLinkToken();
+    await expect(service.request(companyId, ownerId, adminId)).rejects.toThrow('An ownership transfer is already pending');
+
+    await service.cancel(companyId, ownerId);
+    await expect(service.confirm(firstToken, recipientId)).rejects.toThrow('Invalid or expired ownership transfer');
+
+    // Transfer emails are throttled per company
+    await expect(service.request(companyId, ownerId, recipientId)).rejects.toThrow('Too many ownership transfers requested');
+    vi.setSystemTime(Date.now() + 61 * 1000);
+    await service.request(companyId, ownerId, recipientId);
+    await service.decline(lastLinkToken());
+
+    expect(await roleOf(recipientId)).toBe('member');
+    expect(await auditedActions()).toEqual([
+      'membership.ownership_transfer_requested',
+      'membership.ownership_transfer_cancelled',
+      'membership.ownership_transfer_requested',
+      'membership.ownership_transfer_declined',
+    ]);
+  });
+
+  it('should refuse a transfer whose owner no longer owns the company', async () => {
+    const coOwnerId = await createMember('owner');
+    const recipientId = await createMember();
+    await service.request(companyId, coOwnerId, recipientId);
+
+    await companiesService.updateMemberRole(companyId, ownerId, coOwnerId, 'member' as any);
+
+    await expect(service.confirm(lastLinkToken(), recipientId)).rejects.toThrow('Ownership transfer is no longer valid');
+    expect(await roleOf(recipientId)).toBe('member');
+  });
+});
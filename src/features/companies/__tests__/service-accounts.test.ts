@@ -0,0 +1,202 @@
+/**
+ * Service Account Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Request, Response } from 'express';
+import { ServiceAccountsService } from '../service-accounts.service';
+import { authenticateJWT, authenticateToken, requireSessionToken } from '../../../shared/middleware/auth';
+import { auditService } from '../../iam/audit.service';
+import { db } from '../../../shared/db/client';
+
+// Companies, service accounts and user levels live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+// IAM tables are PostgreSQL-only in the app; use the in-memory implementation
+vi.mock('../../../shared/db/repositories/iam.repository', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../shared/db/repositories/iam.repository')>();
+  const iamDb = new actual.InMemoryIAMDatabase();
+  return { ...actual, iamDb, getIAMDb: () => iamDb };
+});
+
+describe('Service accounts', () => {
+  let service: ServiceAccountsService;
+  let companyId: string;
+  let ownerId: string;
+  let memberId: string;
+  let res: Partial<Response>;
+  let next: any;
+  let consoleSpy: any;
+  let consoleErrorSpy: any;
+
+  /**
+   * Add a user to the company with a role
+   */
+  const addMember = async (role: 'owner' | 'admin' | 'member'): Promise<string> => {
+    const userId = crypto.randomUUID();
+    await db.companyMembers.create({ id: crypto.randomUUID(), companyId, userId, role, joinedAt: new Date() });
+    return userId;
+  };
+
+  /**
+   * Create a user level in a company
+   */
+  const createUserLevel = async (levelCompanyId: string) => {
+    return db.iam.userLevels.create({
+      id: crypto.randomUUID(),
+      companyId: levelCompanyId,
+      name: 'Integrations',
+      description: null,
+      isDefault: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  };
+
+  /**
+   * Authenticate a bearer token on a route that accepts service accounts and return the request
+   */
+  const authenticate = async (token: string): Promise<Request> => {
+    const req = { headers: { authorization: `Bearer ${token}` }, socket: {} } as any;
+    await authenticateToken({ serviceAccounts: true })(req, res as Response, next);
+    return req;
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    service = new ServiceAccountsService();
+    companyId = crypto.randomUUID();
+    await db.companies.create({
+      id: companyId,
+      name: 'Machines Co',
+      slug: `machines-${companyId}`,
+      status: 'active',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    ownerId = await addMember('owner');
+    memberId = await addMember('member');
+    res = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+    };
+    next = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    consoleSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should let owners and admins manage service accounts, not members', async () => {
+    const adminId = await addMember('admin');
+
+    const { serviceAccount, clientSecret } = await service.create(companyId, adminId, { name: 'CI' });
+
+    expect(serviceAccount.clientId).toMatch(/^vv_sa_/);
+    expect(clientSecret).toMatch(/^vv_sas_/);
+    expect(JSON.stringify(await db.serviceAccounts.findByCompanyId(companyId))).not.toContain(clientSecret);
+    expect(await service.list(companyId, ownerId)).toEqual([serviceAccount]);
+
+    await expect(service.list(companyId, memberId)).rejects.toThrow('Insufficient permissions');
+    await expect(service.create(companyId, memberId, { name: 'Sneaky' })).rejects.toThrow('Insufficient permissions');
+    await expect(service.delete(crypto.randomUUID(), ownerId, serviceAccount.id)).rejects.toThrow(
+      'Insufficient permissions'
+    );
+  });
+
+  it('should exchange client credentials for a short-lived access token', async () => {
+    const { serviceAccount, clientSecret } = await service.create(companyId, ownerId, { name: 'Reports' });
+
+    const result = await service.issueToken(serviceAccount.clientId, clientSecret);
+    expect(result).toMatchObject({ tokenType: 'Bearer', expiresIn: 15 * 60 });
+
+    const req = await authenticate(result.accessToken);
+    expect(next).toHaveBeenCalled();
+    expect(req.user).toMatchObject({ userId: serviceAccount.id, serviceAccountId: serviceAccount.id, companyId });
+    expect(req.user!.isSuperAdmin).toBeUndefined();
+
+    // Account management needs a signed-in user
+    requireSessionToken(req, res as Response, next);
+    expect(res.status).toHaveBeenLastCalledWith(403);
+
+    // User-centric routes refuse service accounts
+    const refused = { headers: { authorization: `Bearer ${result.accessToken}` }, socket: {} } as any;
+    await authenticateJWT(refused, res as Response, next);
+    expect(res.json).toHaveBeenLastCalledWith(
+      expect.objectContaining({ code: 'ERR_AUTH_012', message: 'Service accounts cannot be used for this action' })
+    );
+    expect(refused.user).toBeUndefined();
+
+    await expect(service.issueToken(serviceAccount.clientId, 'vv_sas_wrong')).rejects.toThrow(
+      'Invalid client credentials'
+    );
+    await expect(service.issueToken('vv_sa_unknown', clientSecret)).rejects.toThrow('Invalid client credentials');
+    expect((await service.list(companyId, ownerId))[0].lastUsedAt).not.toBeNull();
+  });
+
+  it('should revoke issued tokens when the account is disabled or the secret rotated', async () => {
+    const { serviceAccount, clientSecret } = await service.create(companyId, ownerId, { name: 'Sync' });
+    const { accessToken } = await service.issueToken(serviceAccount.clientId, clientSecret);
+
+    vi.setSystemTime(Date.now() + 2000);
+    const rotated = await service.rotateSecret(companyId, ownerId, serviceAccount.id);
+
+    await authenticate(accessToken);
+    expect(res.json).toHaveBeenLastCalledWith(expect.objectContaining({ message: 'Token revoked' }));
+    await expect(service.issueToken(serviceAccount.clientId, clientSecret)).rejects.toThrow(
+      'Invalid client credentials'
+    );
+
+    await service.update(companyId, ownerId, serviceAccount.id, { enabled: false });
+    await expect(service.issueToken(serviceAccount.clientId, rotated.clientSecret)).rejects.toThrow(
+      'Invalid client credentials'
+    );
+  });
+
+  it('should assign user levels of the company only', async () => {
+    const level = await createUserLevel(companyId);
+    const otherLevel = await createUserLevel(crypto.randomUUID());
+    const { serviceAccount } = await service.create(companyId, ownerId, { name: 'ETL', userLevelIds: [level.id] });
+
+    expect(serviceAccount.userLevelIds).toEqual([level.id]);
+    await expect(
+      service.assignUserLevels(companyId, ownerId, serviceAccount.id, [otherLevel.id])
+    ).rejects.toThrow(`User level not found: ${otherLevel.id}`);
+
+    const updated = await service.assignUserLevels(companyId, ownerId, serviceAccount.id, []);
+    expect(updated.userLevelIds).toEqual([]);
+
+    await service.delete(companyId, ownerId, serviceAccount.id);
+    await expect(
+      service.update(companyId, ownerId, serviceAccount.id, { name: 'Gone' })
+    ).rejects.toThrow('Service account not found');
+  });
+
+  it('should tell service accounts apart from users in IAM audit logs', async () => {
+    const { serviceAccount } = await service.create(companyId, ownerId, { name: 'Provisioner' });
+
+    await auditService.logUserLevelCreated(
+      { userId: serviceAccount.id, serviceAccountId: serviceAccount.id },
+      companyId,
+      crypto.randomUUID(),
+      { name: 'Bots' }
+    );
+
+    const { logs } = await auditService.getLogsForCompany(companyId);
+    expect(logs.map((log) => [log.action, log.actorType])).toEqual(
+      expect.arrayContaining([
+        ['service_account.created', 'user'],
+        ['user_level.created', 'service_account'],
+      ])
+    );
+
+    const byServiceAccounts = await auditService.getLogsForCompany(companyId, { actorType: 'service_account' });
+    expect(byServiceAccounts.logs).toEqual([expect.objectContaining({ userId: serviceAccount.id })]);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Team Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request } from 'express';
+import { TeamsService } from '../teams.service';
+import { CompaniesService } from '../companies.service';
+import { permissionsService } from '../../iam/permissions.service';
+import { checkPermission } from '../../../shared/middleware/authorize';
+import { db } from '../../../shared/db/client';
+import { UsersRepository } from '../../../shared/db/repositories/users.repository';
+import { CompaniesRepository } from '../../../shared/db/repositories/companies.repository';
+
+// shared-types is not built in this workspace; only runtime enums are needed
+vi.mock('@vertical-vibing/shared-types', () => ({
+  CompanyRole: { OWNER: 'owner', ADMIN: 'admin', MEMBER: 'member' },
+  PlanTier: { FREE: 'free', STARTER: 'starter', PRO: 'pro', ENTERPRISE: 'enterprise' },
+  SubscriptionStatus: { ACTIVE: 'active', CANCELED: 'canceled' },
+}));
+
+// Users, companies and teams live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+// IAM tables are PostgreSQL-only in the app; use the in-memory implementation
+vi.mock('../../../shared/db/repositories/iam.repository', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../shared/db/repositories/iam.repository')>();
+  const iamDb = new actual.InMemoryIAMDatabase();
+  return { ...actual, iamDb, getIAMDb: () => iamDb };
+});
+
+describe('Teams', () => {
+  let service: TeamsService;
+  let companiesService: CompaniesService;
+  let usersRepository: UsersRepository;
+  let companiesRepository: CompaniesRepository;
+  let ownerId: string;
+  let companyId: string;
+
+  /**
+   * Create a user who is a member of the company
+   */
+  const createMember = async (role: 'admin' | 'member' = 'member'): Promise<string> => {
+    const user = await usersRepository.create({
+      email: `member-${crypto.randomUUID()}@example.com`,
+      name: 'Team Member',
+      passwordHash: null,
+    });
+    await companiesRepository.addMember({ id: crypto.randomUUID(), companyId, userId: user.id, role: role as any });
+    return user.id;
+  };
+
+  /**
+   * Give a user a user level allowing an action with a scope
+   */
+  const grant = async (userId: string, featureId: string, action: string, scope: 'any' | 'team' | 'company' | 'own') => {
+    const userLevelId = crypto.randomUUID();
+    await db.iam.userLevels.create({
+      id: userLevelId,
+      companyId,
+      name: `Level ${scope}`,
+      isDefault: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    } as any);
+    await db.iam.userLevelFeaturePermissions.upsert({ userLevelId, featureId, action, companyId, value: true, scope } as any);
+    await db.iam.userUserLevels.add(userId, userLevelId);
+  };
+
+  beforeEach(async () => {
+    service = new TeamsService();
+    companiesService = new CompaniesService();
+    usersRepository = new UsersRepository(db);
+    companiesRepository = new CompaniesRepository(db);
+
+    const owner = await usersRepository.create({
+      email: `owner-${crypto.randomUUID()}@example.com`,
+      name: 'Olivia Owner',
+      passwordHash: null,
+    });
+    ownerId = owner.id;
+    companyId = (await companiesService.createCompany({ name: 'Acme', slug: `acme-${crypto.randomUUID()}`, ownerId })).id;
+  });
+
+  it('should create, rename and delete teams with names unique per company', async () => {
+    const team = await service.create(companyId, ownerId, { name: 'Design', description: 'Product design' });
+
+    expect(team).toMatchObject({ companyId, name: 'Design', description: 'Product design', memberCount: 0, createdBy: ownerId });
+    await expect(service.create(companyId, ownerId, { name: 'design' })).rejects.toThrow('Team name already exists');
+
+    const renamed = await service.update(companyId, ownerId, team.id, { name: 'Brand' });
+    expect(renamed.name).toBe('Brand');
+    expect((await service.list(companyId, ownerId)).map((t) => t.name)).toEqual(['Brand']);
+
+    await service.delete(companyId, ownerId, team.id);
+    await expect(service.get(companyId, ownerId, team.id)).rejects.toThrow('Team not found');
+  });
+
+  it('should hide teams from other companies and non-members', async () => {
+    const team = await service.create(companyId, ownerId, { name: 'Design' });
+    const otherCompany = await companiesService.createCompany({ name: 'Other', slug: `other-${crypto.randomUUID()}`, ownerId });
+    const outsider = await usersRepository.create({ email: `outsider-${crypto.randomUUID()}@example.com`, name: 'Outsider', passwordHash: null });
+
+    await expect(service.get(otherCompany.id, ownerId, team.id)).rejects.toThrow('Team not found');
+    await expect(service.list(companyId, outsider.id)).rejects.toThrow('Not a member of this company');
+  });
+
+  it('should let leads manage their team but not choose leads', async () => {
+    const team = await service.create(companyId, ownerId, { name: 'Design' });
+    const leadId = await createMember();
+    const memberId = await createMember();
+    const otherId = await createMember();
+
+    await expect(service.create(companyId, leadId, { name: 'Mine' })).rejects.toThrow('Insufficient permissions');
+    await expect(service.addMember(companyId, leadId, team.id, { userId: memberId, isLead: false })).rejects.toThrow(
+      'Insufficient permissions'
+    );
+
+    await service.addMember(companyId, ownerId, team.id, { userId: leadId, isLead: true });
+    await service.addMember(companyId, leadId, team.id, { userId: memberId, isLead: false });
+    await expect(service.addMember(companyId, leadId, team.id, { userId: otherId, isLead: true })).rejects.toThrow(
+      'Insufficient permissions'
+    );
+    await expect(service.updateMember(companyId, leadId, team.id, memberId, true)).rejects.toThrow('Insufficient permissions');
+    expect((await service.update(companyId, leadId, team.id, { description: 'Led' })).description).toBe('Led');
+
+    const members = await service.listMembers(companyId, memberId, team.id);
+    expect(members.map((m) => [m.userId, m.isLead])).toEqual([
+      [leadId, true],
+      [memberId, false],
+    ]);
+
+    // Members can leave, but not remove others
+    await expect(service.removeMember(companyId, memberId, team.id, leadId)).rejects.toThrow('Insufficient permissions');
+    await service.removeMember(companyId, memberId, team.id, memberId);
+    expect((await service.get(companyId, ownerId, team.id)).memberCount).toBe(1);
+  });
+
+  it('should only add members of the company, once', async () => {
+    const team = await service.create(companyId, ownerId, { name: 'Design' });
+    const memberId = await createMember();
+    const outsider = await usersRepository.create({ email: `outsider-${crypto.randomUUID()}@example.com`, name: 'Outsider', passwordHash: null });
+
+    await expect(service.addMember(companyId, ownerId, team.id, { userId: outsider.id, isLead: false })).rejects.toThrow(
+      'User is not a member of this company'
+    );
+    await service.addMember(companyId, ownerId, team.id, { userId: memberId, isLead: false });
+    await expect(service.addMember(companyId, ownerId, team.id, { userId: memberId, isLead: false })).rejects.toThrow(
+      'User is already a member of this team'
+    );
+  });
+
+  it('should drop team membership when the member leaves the company', async () => {
+    const team = await service.create(companyId, ownerId, { name: 'Design' });
+    const memberId = await createMember();
+    await service.addMember(companyId, ownerId, team.id, { userId: memberId, isLead: false });
+
+    await companiesService.removeMember(companyId, ownerId, memberId);
+
+    expect(await service.listMembers(companyId, ownerId, team.id)).toEqual([]);
+  });
+
+  it('should evaluate team-scoped permissions against the resource owner', async () => {
+    const team = await service.create(companyId, ownerId, { name: 'Design' });
+    const userId = await createMember();
+    const teammateId = await createMember();
+    const colleagueId = await createMember();
+    await service.addMember(companyId, ownerId, team.id, { userId, isLead: false });
+    await service.addMember(companyId, ownerId, team.id, { userId: teammateId, isLead: false });
+    await grant(userId, 'feature_reports', 'Update', 'team');
+
+    const check = (resourceOwnerId: string) =>
+      permissionsService.canPerformActionOnResource(userId, 'feature_reports', 'Update', companyId, resourceOwnerId);
+
+    expect(await check(userId)).toMatchObject({ allowed: true, scope: 'team' });
+    expect(await check(teammateId)).toMatchObject({ allowed: true, scope: 'team' });
+    expect((await check(colleagueId)).allowed).toBe(false);
+
+    // A company-wide allow on another level still reaches colleagues
+    await grant(userId, 'feature_reports', 'Update', 'company');
+    expect(await check(colleagueId)).toMatchObject({ allowed: true, scope: 'company' });
+
+    const req = { user: { userId }, tenantId: companyId, query: {}, body: {} } as unknown as Request;
+    expect(
+      await checkPermission(req, { feature: 'feature_reports', action: 'Update', resourceOwnerId: crypto.randomUUID() })
+    ).toMatchObject({ allowed: false });
+    expect(
+      await checkPermission(req, { feature: 'feature_reports', action: 'Update', resourceOwnerId: teammateId })
+    ).toEqual({ allowed: true, reason: 'Authorized' });
+  });
+});
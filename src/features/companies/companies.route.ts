@@ -1,12 +1,36 @@
 import { Router } from 'express';
-import { authenticateJWT } from '../../shared/middleware/auth';
+import { authenticateJWT, requireVerifiedEmail, requireSessionToken } from '../../shared/middleware/auth';
+import { requireCompanyMfa } from '../../shared/middleware/mfaPolicy';
 import { ApiResponse } from '../../shared/utils/response';
 import { CompaniesService } from './companies.service';
+import { ServiceAccountsService } from './service-accounts.service';
+import { CompanyInvitationsService } from './invitations.service';
+import { TeamsService } from './teams.service';
+import { OwnershipTransferService } from './ownership-transfer.service';
+import { ThrottledError } from '../../shared/utils/throttle';
+import {
+  updateSecurityPolicySchema,
+  createInvitationSchema,
+  invitationTokenSchema,
+  createServiceAccountSchema,
+  updateServiceAccountSchema,
+  assignServiceAccountUserLevelsSchema,
+  createTeamSchema,
+  updateTeamSchema,
+  addTeamMemberSchema,
+  updateTeamMemberSchema,
+  transferOwnershipSchema,
+  ownershipTransferTokenSchema,
+} from './companies.types';
 import type { CreateCompanyDTO, UpdateCompanyDTO, AddCompanyMemberDTO, UpdateCompanyMemberDTO } from '@vertical-vibing/shared-types';
 
 export function createCompaniesRouter(): Router {
   const router = Router();
   const companiesService = new CompaniesService();
+  const serviceAccountsService = new ServiceAccountsService();
+  const invitationsService = new CompanyInvitationsService();
+  const teamsService = new TeamsService();
+  const ownershipTransferService = new OwnershipTransferService();
 
   /**
    * GET /api/companies - Get user's companies
@@ -48,10 +72,162 @@ export function createCompaniesRouter(): Router {
     }
   });
 
+  /**
+   * GET /api/companies/invitations/:token - Preview an invitation (public, from the invitation link)
+   *
+   * @returns {invitation: InvitationPreview}
+   */
+  router.get('/invitations/:token', async (req, res) => {
+    try {
+      const invitation = await invitationsService.preview(req.params.token);
+      return ApiResponse.success(res, { invitation });
+    } catch (error) {
+      console.error('Preview invitation error:', error);
+      if (error instanceof Error && error.message === 'Invalid or expired invitation') {
+        return ApiResponse.error(res, error.message, 400, 'ERR_AUTH_008');
+      }
+      return ApiResponse.error(res, 'Failed to get invitation', 500);
+    }
+  });
+
+  /**
+   * POST /api/companies/invitations/accept - Accept an invitation as the invited user
+   *
+   * The signed-in account must use the invited email address.
+   *
+   * @body {token: string}
+   * @returns {companyId: string}
+   */
+  router.post('/invitations/accept', authenticateJWT, requireSessionToken, async (req, res) => {
+    try {
+      const validation = invitationTokenSchema.safeParse(req.body);
+      if (!validation.success) {
+        const errors = validation.error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: 'ERR_VALIDATION_003',
+        }));
+        return ApiResponse.validationError(res, errors);
+      }
+
+      const result = await invitationsService.accept(validation.data.token, req.user!.userId);
+      return ApiResponse.success(res, result);
+    } catch (error) {
+      console.error('Accept invitation error:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Invalid or expired invitation') {
+          return ApiResponse.error(res, error.message, 400, 'ERR_AUTH_008');
+        }
+        if (error.message === 'This invitation was sent to another email address') {
+          return ApiResponse.forbidden(res, error.message);
+        }
+        if (error.message === 'User not found') {
+          return ApiResponse.notFound(res, error.message);
+        }
+      }
+      return ApiResponse.error(res, 'Failed to accept invitation', 500);
+    }
+  });
+
+  /**
+   * POST /api/companies/invitations/decline - Decline an invitation (public, from the invitation link)
+   *
+   * @body {token: string}
+   */
+  router.post('/invitations/decline', async (req, res) => {
+    try {
+      const validation = invitationTokenSchema.safeParse(req.body);
+      if (!validation.success) {
+        const errors = validation.error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: 'ERR_VALIDATION_003',
+        }));
+        return ApiResponse.validationError(res, errors);
+      }
+
+      await invitationsService.decline(validation.data.token);
+      return ApiResponse.success(res, { message: 'Invitation declined' });
+    } catch (error) {
+      console.error('Decline invitation error:', error);
+      if (error instanceof Error && error.message === 'Invalid or expired invitation') {
+        return ApiResponse.error(res, error.message, 400, 'ERR_AUTH_008');
+      }
+      return ApiResponse.error(res, 'Failed to decline invitation', 500);
+    }
+  });
+
+  /**
+   * POST /api/companies/ownership-transfer/confirm - Take over ownership as the transfer recipient
+   *
+   * The recipient becomes an owner and the previous owner an admin.
+   *
+   * @body {token: string}
+   * @returns {companyId: string, role: 'owner'}
+   */
+  router.post('/ownership-transfer/confirm', authenticateJWT, requireSessionToken, async (req, res) => {
+    try {
+      const validation = ownershipTransferTokenSchema.safeParse(req.body);
+      if (!validation.success) {
+        const errors = validation.error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: 'ERR_VALIDATION_003',
+        }));
+        return ApiResponse.validationError(res, errors);
+      }
+
+      const result = await ownershipTransferService.confirm(validation.data.token, req.user!.userId);
+      return ApiResponse.success(res, result);
+    } catch (error) {
+      console.error('Confirm ownership transfer error:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Invalid or expired ownership transfer') {
+          return ApiResponse.error(res, error.message, 400, 'ERR_AUTH_008');
+        }
+        if (error.message === 'This ownership transfer is for another account') {
+          return ApiResponse.forbidden(res, error.message);
+        }
+        if (error.message === 'Ownership transfer is no longer valid') {
+          return ApiResponse.conflict(res, error.message);
+        }
+      }
+      return ApiResponse.error(res, 'Failed to confirm ownership transfer', 500);
+    }
+  });
+
+  /**
+   * POST /api/companies/ownership-transfer/decline - Decline an ownership transfer (public, from the transfer link)
+   *
+   * @body {token: string}
+   */
+  router.post('/ownership-transfer/decline', async (req, res) => {
+    try {
+      const validation = ownershipTransferTokenSchema.safeParse(req.body);
+      if (!validation.success) {
+        const errors = validation.error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: 'ERR_VALIDATION_003',
+        }));
+        return ApiResponse.validationError(res, errors);
+      }
+
+      await ownershipTransferService.decline(validation.data.token);
+      return ApiResponse.success(res, { message: 'Ownership transfer declined' });
+    } catch (error) {
+      console.error('Decline ownership transfer error:', error);
+      if (error instanceof Error && error.message === 'Invalid or expired ownership transfer') {
+        return ApiResponse.error(res, error.message, 400, 'ERR_AUTH_008');
+      }
+      return ApiResponse.error(res, 'Failed to decline ownership transfer', 500);
+    }
+  });
+
   /**
    * GET /api/companies/:id - Get company by ID
    */
-  router.get('/:id', authenticateJWT, async (req, res) => {
+  router.get('/:id', authenticateJWT, requireCompanyMfa(), async (req, res) => {
     try {
       const company = await companiesService.getCompanyWithMembers(req.params.id);
       if (!company) {
@@ -68,7 +244,7 @@ export function createCompaniesRouter(): Router {
   /**
    * PATCH /api/companies/:id - Update company
    */
-  router.patch('/:id', authenticateJWT, async (req, res) => {
+  router.patch('/:id', authenticateJWT, requireCompanyMfa(), async (req, res) => {
     try {
       const data = req.body as UpdateCompanyDTO;
 
@@ -99,7 +275,7 @@ export function createCompaniesRouter(): Router {
   /**
    * DELETE /api/companies/:id - Delete company
    */
-  router.delete('/:id', authenticateJWT, async (req, res) => {
+  router.delete('/:id', authenticateJWT, requireSessionToken, requireCompanyMfa(), async (req, res) => {
     try {
       await companiesService.deleteCompany(req.params.id, req.user!.userId);
       return ApiResponse.success(res, { message: 'Company deleted successfully' });
@@ -120,7 +296,7 @@ export function createCompaniesRouter(): Router {
   /**
    * GET /api/companies/:id/members - Get company members
    */
-  router.get('/:id/members', authenticateJWT, async (req, res) => {
+  router.get('/:id/members', authenticateJWT, requireCompanyMfa(), async (req, res) => {
     try {
       const members = await companiesService.getMembers(req.params.id, req.user!.userId);
       return ApiResponse.success(res, { members });
@@ -134,9 +310,9 @@ export function createCompaniesRouter(): Router {
   });
 
   /**
-   * POST /api/companies/:id/members - Add a member
+   * POST /api/companies/:id/members - Add a member (requires a verified email)
    */
-  router.post('/:id/members', authenticateJWT, async (req, res) => {
+  router.post('/:id/members', authenticateJWT, requireCompanyMfa(), requireVerifiedEmail, async (req, res) => {
     try {
       const data = req.body as AddCompanyMemberDTO;
 
@@ -171,7 +347,7 @@ export function createCompaniesRouter(): Router {
   /**
    * PATCH /api/companies/:id/members/:userId - Update member role
    */
-  router.patch('/:id/members/:userId', authenticateJWT, async (req, res) => {
+  router.patch('/:id/members/:userId', authenticateJWT, requireSessionToken, requireCompanyMfa(), async (req, res) => {
     try {
       const data = req.body as UpdateCompanyMemberDTO;
 
@@ -190,6 +366,9 @@ export function createCompaniesRouter(): Router {
     } catch (error) {
       console.error('Update member role error:', error);
       if (error instanceof Error) {
+        if (error.message === 'Company must keep at least one owner') {
+          return ApiResponse.conflict(res, error.message);
+        }
         if (error.message.includes('permissions') || error.message.includes('owner')) {
           return ApiResponse.forbidden(res, error.message);
         }
@@ -204,7 +383,7 @@ export function createCompaniesRouter(): Router {
   /**
    * DELETE /api/companies/:id/members/:userId - Remove member
    */
-  router.delete('/:id/members/:userId', authenticateJWT, async (req, res) => {
+  router.delete('/:id/members/:userId', authenticateJWT, requireSessionToken, requireCompanyMfa(), async (req, res) => {
     try {
       await companiesService.removeMember(
         req.params.id,
@@ -216,6 +395,9 @@ export function createCompaniesRouter(): Router {
     } catch (error) {
       console.error('Remove member error:', error);
       if (error instanceof Error) {
+        if (error.message === 'Company must keep at least one owner') {
+          return ApiResponse.conflict(res, error.message);
+        }
         if (error.message.includes('permissions') || error.message.includes('owner')) {
           return ApiResponse.forbidden(res, error.message);
         }
@@ -227,5 +409,727 @@ export function createCompaniesRouter(): Router {
     }
   });
 
+  /**
+   * GET /api/companies/:id/ownership-transfer - Get the pending ownership transfer (owner/admin)
+   *
+   * @returns {transfer: OwnershipTransferInfo | null}
+   */
+  router.get('/:id/ownership-transfer', authenticateJWT, requireCompanyMfa(), async (req, res) => {
+    try {
+      const transfer = await ownershipTransferService.getPending(req.params.id, req.user!.userId);
+      return ApiResponse.success(res, { transfer });
+    } catch (error) {
+      console.error('Get ownership transfer error:', error);
+      if (error instanceof Error && error.message === 'Insufficient permissions') {
+        return ApiResponse.forbidden(res, error.message);
+      }
+      return ApiResponse.error(res, 'Failed to get ownership transfer', 500);
+    }
+  });
+
+  /**
+   * POST /api/companies/:id/ownership-transfer - Hand ownership over to another member (owner)
+   *
+   * Emails the recipient a confirmation link valid for 3 days. Nothing changes until they confirm.
+   *
+   * @body {userId: string}
+   * @returns {transfer: OwnershipTransferInfo}
+   */
+  router.post(
+    '/:id/ownership-transfer',
+    authenticateJWT,
+    requireSessionToken,
+    requireCompanyMfa(),
+    requireVerifiedEmail,
+    async (req, res) => {
+      try {
+        const validation = transferOwnershipSchema.safeParse(req.body);
+        if (!validation.success) {
+          const errors = validation.error.errors.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+            code: 'ERR_VALIDATION_003',
+          }));
+          return ApiResponse.validationError(res, errors);
+        }
+
+        const transfer = await ownershipTransferService.request(req.params.id, req.user!.userId, validation.data.userId);
+        return ApiResponse.created(res, { transfer });
+      } catch (error) {
+        console.error('Request ownership transfer error:', error);
+        if (error instanceof ThrottledError) {
+          res.setHeader('Retry-After', error.retryAfterSeconds.toString());
+          return ApiResponse.error(res, error.message, 429, 'ERR_RATE_LIMIT_001');
+        }
+        if (error instanceof Error) {
+          if (error.message === 'Only company owner can transfer ownership') {
+            return ApiResponse.forbidden(res, error.message);
+          }
+          if (
+            error.message === 'Cannot transfer ownership to yourself' ||
+            error.message === 'User is not a member of this company'
+          ) {
+            return ApiResponse.badRequest(res, error.message);
+          }
+          if (error.message.includes('already an owner') || error.message.includes('already pending')) {
+            return ApiResponse.conflict(res, error.message);
+          }
+        }
+        return ApiResponse.error(res, 'Failed to request ownership transfer', 500);
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/companies/:id/ownership-transfer - Cancel the pending ownership transfer (owner)
+   */
+  router.delete('/:id/ownership-transfer', authenticateJWT, requireSessionToken, requireCompanyMfa(), async (req, res) => {
+    try {
+      await ownershipTransferService.cancel(req.params.id, req.user!.userId);
+      return ApiResponse.success(res, { message: 'Ownership transfer cancelled' });
+    } catch (error) {
+      console.error('Cancel ownership transfer error:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Only company owner can transfer ownership') {
+          return ApiResponse.forbidden(res, error.message);
+        }
+        if (error.message === 'No ownership transfer is pending') {
+          return ApiResponse.notFound(res, error.message);
+        }
+      }
+      return ApiResponse.error(res, 'Failed to cancel ownership transfer', 500);
+    }
+  });
+
+  /**
+   * GET /api/companies/:id/invitations - List invitations (owner/admin)
+   */
+  router.get('/:id/invitations', authenticateJWT, requireCompanyMfa(), async (req, res) => {
+    try {
+      const invitations = await invitationsService.list(req.params.id, req.user!.userId);
+      return ApiResponse.success(res, { invitations });
+    } catch (error) {
+      console.error('List invitations error:', error);
+      if (error instanceof Error && error.message === 'Insufficient permissions') {
+        return ApiResponse.forbidden(res, error.message);
+      }
+      return ApiResponse.error(res, 'Failed to list invitations', 500);
+    }
+  });
+
+  /**
+   * POST /api/companies/:id/invitations - Invite someone by email (owner/admin, requires a verified email)
+   *
+   * Works whether or not the address has an account yet; the link expires after 7 days.
+   *
+   * @body {email: string, role?: 'admin' | 'member', userLevelIds?: string[]}
+   * @returns {invitation: CompanyInvitationInfo}
+   */
+  router.post('/:id/invitations', authenticateJWT, requireCompanyMfa(), requireVerifiedEmail, async (req, res) => {
+    try {
+      const validation = createInvitationSchema.safeParse(req.body);
+      if (!validation.success) {
+        const errors = validation.error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: 'ERR_VALIDATION_003',
+        }));
+        return ApiResponse.validationError(res, errors);
+      }
+
+      const invitation = await invitationsService.create(req.params.id, req.user!.userId, validation.data);
+      return ApiResponse.created(res, { invitation });
+    } catch (error) {
+      console.error('Create invitation error:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Insufficient permissions') {
+          return ApiResponse.forbidden(res, error.message);
+        }
+        if (error.message.includes('already a member') || error.message.includes('already pending')) {
+          return ApiResponse.conflict(res, error.message);
+        }
+        if (error.message.startsWith('User level not found')) {
+          return ApiResponse.badRequest(res, error.message);
+        }
+      }
+      return ApiResponse.error(res, 'Failed to create invitation', 500);
+    }
+  });
+
+  /**
+   * POST /api/companies/:id/invitations/:invitationId/resend - Resend an invitation (owner/admin)
+   *
+   * Sends a new link with a renewed expiry; the previous link stops working.
+   */
+  router.post('/:id/invitations/:invitationId/resend', authenticateJWT, requireCompanyMfa(), async (req, res) => {
+    try {
+      const invitation = await invitationsService.resend(req.params.id, req.user!.userId, req.params.invitationId);
+      return ApiResponse.success(res, { invitation });
+    } catch (error) {
+      console.error('Resend invitation error:', error);
+      if (error instanceof ThrottledError) {
+        res.setHeader('Retry-After', error.retryAfterSeconds.toString());
+        return ApiResponse.error(res, error.message, 429, 'ERR_RATE_LIMIT_001');
+      }
+      if (error instanceof Error) {
+        if (error.message === 'Insufficient permissions') {
+          return ApiResponse.forbidden(res, error.message);
+        }
+        if (error.message === 'Invitation not found') {
+          return ApiResponse.notFound(res, error.message);
+        }
+        if (error.message === 'Invitation is no longer pending') {
+          return ApiResponse.conflict(res, error.message);
+        }
+      }
+      return ApiResponse.error(res, 'Failed to resend invitation', 500);
+    }
+  });
+
+  /**
+   * DELETE /api/companies/:id/invitations/:invitationId - Revoke a pending invitation (owner/admin)
+   */
+  router.delete('/:id/invitations/:invitationId', authenticateJWT, requireCompanyMfa(), async (req, res) => {
+    try {
+      await invitationsService.revoke(req.params.id, req.user!.userId, req.params.invitationId);
+      return ApiResponse.success(res, { message: 'Invitation revoked successfully' });
+    } catch (error) {
+      console.error('Revoke invitation error:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Insufficient permissions') {
+          return ApiResponse.forbidden(res, error.message);
+        }
+        if (error.message === 'Invitation not found') {
+          return ApiResponse.notFound(res, error.message);
+        }
+        if (error.message === 'Invitation is no longer pending') {
+          return ApiResponse.conflict(res, error.message);
+        }
+      }
+      return ApiResponse.error(res, 'Failed to revoke invitation', 500);
+    }
+  });
+
+  /**
+   * GET /api/companies/:id/teams - List teams (members)
+   */
+  router.get('/:id/teams', authenticateJWT, requireCompanyMfa(), async (req, res) => {
+    try {
+      const teams = await teamsService.list(req.params.id, req.user!.userId);
+      return ApiResponse.success(res, { teams });
+    } catch (error) {
+      console.error('List teams error:', error);
+      if (error instanceof Error && error.message.includes('Not a member')) {
+        return ApiResponse.forbidden(res, error.message);
+      }
+      return ApiResponse.error(res, 'Failed to list teams', 500);
+    }
+  });
+
+  /**
+   * POST /api/companies/:id/teams - Create a team (owner/admin)
+   *
+   * @body {name: string, description?: string | null}
+   * @returns {team: TeamInfo}
+   */
+  router.post('/:id/teams', authenticateJWT, requireCompanyMfa(), async (req, res) => {
+    try {
+      const validation = createTeamSchema.safeParse(req.body);
+      if (!validation.success) {
+        const errors = validation.error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: 'ERR_VALIDATION_003',
+        }));
+        return ApiResponse.validationError(res, errors);
+      }
+
+      const team = await teamsService.create(req.params.id, req.user!.userId, validation.data);
+      return ApiResponse.created(res, { team });
+    } catch (error) {
+      console.error('Create team error:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Insufficient permissions') {
+          return ApiResponse.forbidden(res, error.message);
+        }
+        if (error.message === 'Team name already exists') {
+          return ApiResponse.conflict(res, error.message);
+        }
+      }
+      return ApiResponse.error(res, 'Failed to create team', 500);
+    }
+  });
+
+  /**
+   * GET /api/companies/:id/teams/:teamId - Get a team (members)
+   */
+  router.get('/:id/teams/:teamId', authenticateJWT, requireCompanyMfa(), async (req, res) => {
+    try {
+      const team = await teamsService.get(req.params.id, req.user!.userId, req.params.teamId);
+      return ApiResponse.success(res, { team });
+    } catch (error) {
+      console.error('Get team error:', error);
+      if (error instanceof Error) {
+        if (error.message.includes('Not a member')) {
+          return ApiResponse.forbidden(res, error.message);
+        }
+        if (error.message === 'Team not found') {
+          return ApiResponse.notFound(res, error.message);
+        }
+      }
+      return ApiResponse.error(res, 'Failed to get team', 500);
+    }
+  });
+
+  /**
+   * PATCH /api/companies/:id/teams/:teamId - Rename or describe a team (owner/admin or team lead)
+   *
+   * @body {name?: string, description?: string | null}
+   * @returns {team: TeamInfo}
+   */
+  router.patch('/:id/teams/:teamId', authenticateJWT, requireCompanyMfa(), async (req, res) => {
+    try {
+      const validation = updateTeamSchema.safeParse(req.body);
+      if (!validation.success) {
+        const errors = validation.error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: 'ERR_VALIDATION_003',
+        }));
+        return ApiResponse.validationError(res, errors);
+      }
+
+      const team = await teamsService.update(req.params.id, req.user!.userId, req.params.teamId, validation.data);
+      return ApiResponse.success(res, { team });
+    } catch (error) {
+      console.error('Update team error:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Insufficient permissions') {
+          return ApiResponse.forbidden(res, error.message);
+        }
+        if (error.message === 'Team not found') {
+          return ApiResponse.notFound(res, error.message);
+        }
+        if (error.message === 'Team name already exists') {
+          return ApiResponse.conflict(res, error.message);
+        }
+      }
+      return ApiResponse.error(res, 'Failed to update team', 500);
+    }
+  });
+
+  /**
+   * DELETE /api/companies/:id/teams/:teamId - Delete a team (owner/admin)
+   */
+  router.delete('/:id/teams/:teamId', authenticateJWT, requireCompanyMfa(), async (req, res) => {
+    try {
+      await teamsService.delete(req.params.id, req.user!.userId, req.params.teamId);
+      return ApiResponse.success(res, { message: 'Team deleted successfully' });
+    } catch (error) {
+      console.error('Delete team error:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Insufficient permissions') {
+          return ApiResponse.forbidden(res, error.message);
+        }
+        if (error.message === 'Team not found') {
+          return ApiResponse.notFound(res, error.message);
+        }
+      }
+      return ApiResponse.error(res, 'Failed to delete team', 500);
+    }
+  });
+
+  /**
+   * GET /api/companies/:id/teams/:teamId/members - List team members, leads first (members)
+   */
+  router.get('/:id/teams/:teamId/members', authenticateJWT, requireCompanyMfa(), async (req, res) => {
+    try {
+      const members = await teamsService.listMembers(req.params.id, req.user!.userId, req.params.teamId);
+      return ApiResponse.success(res, { members });
+    } catch (error) {
+      console.error('List team members error:', error);
+      if (error instanceof Error) {
+        if (error.message.includes('Not a member')) {
+          return ApiResponse.forbidden(res, error.message);
+        }
+        if (error.message === 'Team not found') {
+          return ApiResponse.notFound(res, error.message);
+        }
+      }
+      return ApiResponse.error(res, 'Failed to list team members', 500);
+    }
+  });
+
+  /**
+   * POST /api/companies/:id/teams/:teamId/members - Add a company member to a team (owner/admin or team lead)
+   *
+   * Only owners and admins can add someone as a lead.
+   *
+   * @body {userId: string, isLead?: boolean}
+   * @returns {member: TeamMemberInfo}
+   */
+  router.post('/:id/teams/:teamId/members', authenticateJWT, requireCompanyMfa(), async (req, res) => {
+    try {
+      const validation = addTeamMemberSchema.safeParse(req.body);
+      if (!validation.success) {
+        const errors = validation.error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: 'ERR_VALIDATION_003',
+        }));
+        return ApiResponse.validationError(res, errors);
+      }
+
+      const member = await teamsService.addMember(req.params.id, req.user!.userId, req.params.teamId, validation.data);
+      return ApiResponse.created(res, { member });
+    } catch (error) {
+      console.error('Add team member error:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Insufficient permissions') {
+          return ApiResponse.forbidden(res, error.message);
+        }
+        if (error.message === 'Team not found') {
+          return ApiResponse.notFound(res, error.message);
+        }
+        if (error.message === 'User is not a member of this company') {
+          return ApiResponse.badRequest(res, error.message);
+        }
+        if (error.message === 'User is already a member of this team') {
+          return ApiResponse.conflict(res, error.message);
+        }
+      }
+      return ApiResponse.error(res, 'Failed to add team member', 500);
+    }
+  });
+
+  /**
+   * PATCH /api/companies/:id/teams/:teamId/members/:userId - Make a member a team lead, or not (owner/admin)
+   *
+   * @body {isLead: boolean}
+   * @returns {member: TeamMemberInfo}
+   */
+  router.patch('/:id/teams/:teamId/members/:userId', authenticateJWT, requireCompanyMfa(), async (req, res) => {
+    try {
+      const validation = updateTeamMemberSchema.safeParse(req.body);
+      if (!validation.success) {
+        const errors = validation.error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: 'ERR_VALIDATION_003',
+        }));
+        return ApiResponse.validationError(res, errors);
+      }
+
+      const member = await teamsService.updateMember(
+        req.params.id,
+        req.user!.userId,
+        req.params.teamId,
+        req.params.userId,
+        validation.data.isLead
+      );
+      return ApiResponse.success(res, { member });
+    } catch (error) {
+      console.error('Update team member error:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Insufficient permissions') {
+          return ApiResponse.forbidden(res, error.message);
+        }
+        if (error.message === 'Team not found' || error.message === 'Team member not found') {
+          return ApiResponse.notFound(res, error.message);
+        }
+      }
+      return ApiResponse.error(res, 'Failed to update team member', 500);
+    }
+  });
+
+  /**
+   * DELETE /api/companies/:id/teams/:teamId/members/:userId - Remove someone from a team
+   *
+   * Owners, admins and team leads remove anyone; members can leave a team themselves.
+   */
+  router.delete('/:id/teams/:teamId/members/:userId', authenticateJWT, requireCompanyMfa(), async (req, res) => {
+    try {
+      await teamsService.removeMember(req.params.id, req.user!.userId, req.params.teamId, req.params.userId);
+      return ApiResponse.success(res, { message: 'Team member removed successfully' });
+    } catch (error) {
+      console.error('Remove team member error:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Insufficient permissions' || error.message.includes('Not a member')) {
+          return ApiResponse.forbidden(res, error.message);
+        }
+        if (error.message === 'Team not found' || error.message === 'Team member not found') {
+          return ApiResponse.notFound(res, error.message);
+        }
+      }
+      return ApiResponse.error(res, 'Failed to remove team member', 500);
+    }
+  });
+
+  /**
+   * GET /api/companies/:id/security-policy - Get security policy
+   */
+  router.get('/:id/security-policy', authenticateJWT, requireCompanyMfa(), async (req, res) => {
+    try {
+      const policy = await companiesService.getSecurityPolicy(req.params.id, req.user!.userId);
+      return ApiResponse.success(res, { policy });
+    } catch (error) {
+      console.error('Get security policy error:', error);
+      if (error instanceof Error && error.message === 'Not a member of this company') {
+        return ApiResponse.forbidden(res, error.message);
+      }
+      return ApiResponse.error(res, 'Failed to get security policy', 500);
+    }
+  });
+
+  /**
+   * PUT /api/companies/:id/security-policy - Update security policy (owner only)
+   *
+   * @body {mfaRequired?: boolean, passwordPolicy?: {minLength?, requireUppercase?, requireLowercase?,
+   *        requireNumber?, requireSymbol?, historyCount?, maxAgeDays?} | null}
+   */
+  router.put('/:id/security-policy', authenticateJWT, requireSessionToken, requireCompanyMfa(), async (req, res) => {
+    try {
+      const validation = updateSecurityPolicySchema.safeParse(req.body);
+      if (!validation.success) {
+        const errors = validation.error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: 'ERR_VALIDATION_003',
+        }));
+        return ApiResponse.validationError(res, errors);
+      }
+
+      const policy = await companiesService.updateSecurityPolicy(
+        req.params.id,
+        req.user!.userId,
+        validation.data
+      );
+
+      return ApiResponse.success(res, { policy });
+    } catch (error) {
+      console.error('Update security policy error:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Only company owner can change the security policy') {
+          return ApiResponse.forbidden(res, error.message);
+        }
+        if (error.message === 'Enable MFA on your account before requiring it') {
+          return ApiResponse.error(res, error.message, 400);
+        }
+      }
+      return ApiResponse.error(res, 'Failed to update security policy', 500);
+    }
+  });
+
+  /**
+   * GET /api/companies/:id/service-accounts - List service accounts (owner/admin)
+   */
+  router.get('/:id/service-accounts', authenticateJWT, requireSessionToken, requireCompanyMfa(), async (req, res) => {
+    try {
+      const serviceAccounts = await serviceAccountsService.list(req.params.id, req.user!.userId);
+      return ApiResponse.success(res, { serviceAccounts });
+    } catch (error) {
+      console.error('List service accounts error:', error);
+      if (error instanceof Error && error.message === 'Insufficient permissions') {
+        return ApiResponse.forbidden(res, error.message);
+      }
+      return ApiResponse.error(res, 'Failed to list service accounts', 500);
+    }
+  });
+
+  /**
+   * POST /api/companies/:id/service-accounts - Create a service account (owner/admin)
+   *
+   * The client secret is only returned in this response.
+   *
+   * @body {name: string, description?: string | null, userLevelIds?: string[]}
+   * @returns {serviceAccount: ServiceAccountInfo, clientSecret: string}
+   */
+  router.post('/:id/service-accounts', authenticateJWT, requireSessionToken, requireCompanyMfa(), async (req, res) => {
+    try {
+      const validation = createServiceAccountSchema.safeParse(req.body);
+      if (!validation.success) {
+        const errors = validation.error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: 'ERR_VALIDATION_003',
+        }));
+        return ApiResponse.validationError(res, errors);
+      }
+
+      const result = await serviceAccountsService.create(req.params.id, req.user!.userId, validation.data);
+      return ApiResponse.created(res, result);
+    } catch (error) {
+      console.error('Create service account error:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Insufficient permissions') {
+          return ApiResponse.forbidden(res, error.message);
+        }
+        if (error.message === 'Too many service accounts') {
+          return ApiResponse.conflict(res, error.message);
+        }
+        if (error.message.startsWith('User level not found')) {
+          return ApiResponse.badRequest(res, error.message);
+        }
+      }
+      return ApiResponse.error(res, 'Failed to create service account', 500);
+    }
+  });
+
+  /**
+   * PATCH /api/companies/:id/service-accounts/:serviceAccountId - Update a service account (owner/admin)
+   *
+   * Disabling an account revokes its access tokens.
+   *
+   * @body {name?: string, description?: string | null, enabled?: boolean}
+   */
+  router.patch(
+    '/:id/service-accounts/:serviceAccountId',
+    authenticateJWT,
+    requireSessionToken,
+    requireCompanyMfa(),
+    async (req, res) => {
+      try {
+        const validation = updateServiceAccountSchema.safeParse(req.body);
+        if (!validation.success) {
+          const errors = validation.error.errors.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+            code: 'ERR_VALIDATION_003',
+          }));
+          return ApiResponse.validationError(res, errors);
+        }
+
+        const serviceAccount = await serviceAccountsService.update(
+          req.params.id,
+          req.user!.userId,
+          req.params.serviceAccountId,
+          validation.data
+        );
+        return ApiResponse.success(res, { serviceAccount });
+      } catch (error) {
+        console.error('Update service account error:', error);
+        if (error instanceof Error) {
+          if (error.message === 'Insufficient permissions') {
+            return ApiResponse.forbidden(res, error.message);
+          }
+          if (error.message === 'Service account not found') {
+            return ApiResponse.notFound(res, error.message);
+          }
+        }
+        return ApiResponse.error(res, 'Failed to update service account', 500);
+      }
+    }
+  );
+
+  /**
+   * POST /api/companies/:id/service-accounts/:serviceAccountId/secret - Rotate the client secret (owner/admin)
+   *
+   * The old secret stops working and issued tokens are revoked.
+   *
+   * @returns {serviceAccount: ServiceAccountInfo, clientSecret: string}
+   */
+  router.post(
+    '/:id/service-accounts/:serviceAccountId/secret',
+    authenticateJWT,
+    requireSessionToken,
+    requireCompanyMfa(),
+    async (req, res) => {
+      try {
+        const result = await serviceAccountsService.rotateSecret(
+          req.params.id,
+          req.user!.userId,
+          req.params.serviceAccountId
+        );
+        return ApiResponse.success(res, result);
+      } catch (error) {
+        console.error('Rotate service account secret error:', error);
+        if (error instanceof Error) {
+          if (error.message === 'Insufficient permissions') {
+            return ApiResponse.forbidden(res, error.message);
+          }
+          if (error.message === 'Service account not found') {
+            return ApiResponse.notFound(res, error.message);
+          }
+        }
+        return ApiResponse.error(res, 'Failed to rotate service account secret', 500);
+      }
+    }
+  );
+
+  /**
+   * PUT /api/companies/:id/service-accounts/:serviceAccountId/user-levels - Replace user levels (owner/admin)
+   *
+   * @body {userLevelIds: string[]}
+   */
+  router.put(
+    '/:id/service-accounts/:serviceAccountId/user-levels',
+    authenticateJWT,
+    requireSessionToken,
+    requireCompanyMfa(),
+    async (req, res) => {
+      try {
+        const validation = assignServiceAccountUserLevelsSchema.safeParse(req.body);
+        if (!validation.success) {
+          const errors = validation.error.errors.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+            code: 'ERR_VALIDATION_003',
+          }));
+          return ApiResponse.validationError(res, errors);
+        }
+
+        const serviceAccount = await serviceAccountsService.assignUserLevels(
+          req.params.id,
+          req.user!.userId,
+          req.params.serviceAccountId,
+          validation.data.userLevelIds
+        );
+        return ApiResponse.success(res, { serviceAccount });
+      } catch (error) {
+        console.error('Assign service account user levels error:', error);
+        if (error instanceof Error) {
+          if (error.message === 'Insufficient permissions') {
+            return ApiResponse.forbidden(res, error.message);
+          }
+          if (error.message === 'Service account not found') {
+            return ApiResponse.notFound(res, error.message);
+          }
+          if (error.message.startsWith('User level not found')) {
+            return ApiResponse.badRequest(res, error.message);
+          }
+        }
+        return ApiResponse.error(res, 'Failed to update service account user levels', 500);
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/companies/:id/service-accounts/:serviceAccountId - Delete a service account (owner/admin)
+   */
+  router.delete(
+    '/:id/service-accounts/:serviceAccountId',
+    authenticateJWT,
+    requireSessionToken,
+    requireCompanyMfa(),
+    async (req, res) => {
+      try {
+        await serviceAccountsService.delete(req.params.id, req.user!.userId, req.params.serviceAccountId);
+        return ApiResponse.success(res, { message: 'Service account deleted successfully' });
+      } catch (error) {
+        console.error('Delete service account error:', error);
+        if (error instanceof Error) {
+          if (error.message === 'Insufficient permissions') {
+            return ApiResponse.forbidden(res, error.message);
+          }
+          if (error.message === 'Service account not found') {
+            return ApiResponse.notFound(res, error.message);
+          }
+        }
+        return ApiResponse.error(res, 'Failed to delete service account', 500);
+      }
+    }
+  );
+
   return router;
 }
+
@@ -1,13 +1,26 @@
 import { db } from '../../shared/db/client';
 import { CompaniesRepository } from '../../shared/db/repositories/companies.repository';
+import { CompanySecurityPoliciesRepository } from '../../shared/db/repositories/company-security-policies.repository';
+import { TeamsRepository } from '../../shared/db/repositories/teams.repository';
+import { UserMfaRepository } from '../../shared/db/repositories/user-mfa.repository';
+import type { CompanySecurityPolicy } from '../../shared/db/schema/company-security-policies.schema';
+import { resolvePasswordPolicy } from '../../shared/services/password-policy.service';
+import { auditService } from '../iam/audit.service';
+import type { SecurityPolicyInfo, UpdateSecurityPolicyDTO } from './companies.types';
 import { CompanyRole } from '@vertical-vibing/shared-types';
 import type { Company, CompanyMember, CompanyWithMembers } from '@vertical-vibing/shared-types';
 
 export class CompaniesService {
   private companiesRepo: CompaniesRepository;
+  private policiesRepo: CompanySecurityPoliciesRepository;
+  private teamsRepo: TeamsRepository;
+  private userMfaRepo: UserMfaRepository;
 
   constructor() {
     this.companiesRepo = new CompaniesRepository(db);
+    this.policiesRepo = new CompanySecurityPoliciesRepository(db);
+    this.teamsRepo = new TeamsRepository(db);
+    this.userMfaRepo = new UserMfaRepository(db);
   }
 
   /**
@@ -130,6 +143,8 @@ export class CompaniesService {
     if (!deleted) {
       throw new Error('Company not found');
     }
+
+    await this.teamsRepo.deleteByCompanyId(id);
   }
 
   /**
@@ -169,6 +184,8 @@ export class CompaniesService {
 
   /**
    * Update member role
+   *
+   * Only owners grant or take away the owner role, and a company always keeps at least one owner.
    */
   async updateMemberRole(
     companyId: string,
@@ -182,10 +199,17 @@ export class CompaniesService {
       throw new Error('Insufficient permissions');
     }
 
-    // Cannot change owner role (only one owner)
     const targetMember = await this.companiesRepo.getMember(companyId, targetUserId);
-    if (targetMember?.role === 'owner' && role !== 'owner') {
-      throw new Error('Cannot change owner role');
+    if (!targetMember) {
+      throw new Error('Member not found');
+    }
+
+    // Only owners demote owners, and never the last one
+    if (targetMember.role === 'owner' && role !== 'owner') {
+      if (requester.role !== 'owner') {
+        throw new Error('Cannot change owner role');
+      }
+      await this.assertAnotherOwner(companyId, targetUserId);
     }
 
     // Only owner can assign owner role
@@ -198,11 +222,20 @@ export class CompaniesService {
       throw new Error('Member not found');
     }
 
+    if (targetMember.role !== role) {
+      await auditService.logMembershipEvent(requesterId, companyId, targetUserId, 'role_changed', {
+        before: targetMember.role,
+        after: role,
+      });
+    }
+
     return updated;
   }
 
   /**
    * Remove member from company
+   *
+   * Only owners remove owners, and never the last one.
    */
   async removeMember(
     companyId: string,
@@ -215,16 +248,29 @@ export class CompaniesService {
       throw new Error('Insufficient permissions');
     }
 
-    // Cannot remove owner
     const targetMember = await this.companiesRepo.getMember(companyId, targetUserId);
-    if (targetMember?.role === 'owner') {
-      throw new Error('Cannot remove company owner');
+    if (!targetMember) {
+      throw new Error('Member not found');
+    }
+
+    if (targetMember.role === 'owner') {
+      if (requester.role !== 'owner') {
+        throw new Error('Cannot remove company owner');
+      }
+      await this.assertAnotherOwner(companyId, targetUserId);
     }
 
     const removed = await this.companiesRepo.removeMember(companyId, targetUserId);
     if (!removed) {
       throw new Error('Member not found');
     }
+
+    // Team membership follows company membership
+    await this.teamsRepo.removeUserFromCompanyTeams(companyId, targetUserId);
+
+    await auditService.logMembershipEvent(requesterId, companyId, targetUserId, 'removed', {
+      role: targetMember.role,
+    });
   }
 
   /**
@@ -260,4 +306,64 @@ export class CompaniesService {
       })
     );
   }
+
+  /**
+   * Get company security policy (members only)
+   */
+  async getSecurityPolicy(companyId: string, userId: string): Promise<SecurityPolicyInfo> {
+    const member = await this.companiesRepo.getMember(companyId, userId);
+    if (!member) {
+      throw new Error('Not a member of this company');
+    }
+
+    const policy = await this.policiesRepo.findByCompanyId(companyId);
+    return {
+      mfaRequired: policy?.mfaRequired ?? false,
+      passwordPolicy: resolvePasswordPolicy(policy?.passwordPolicy),
+    };
+  }
+
+  /**
+   * Update company security policy (owner only)
+   *
+   * Requiring MFA takes effect on members' next login: members without MFA
+   * are asked to enrol, and company routes need an MFA-verified token.
+   * Password rules apply to members' next password change; a shorter maximum
+   * age flags older passwords at the next login.
+   */
+  async updateSecurityPolicy(
+    companyId: string,
+    userId: string,
+    data: UpdateSecurityPolicyDTO
+  ): Promise<CompanySecurityPolicy> {
+    const member = await this.companiesRepo.getMember(companyId, userId);
+    if (!member || member.role !== 'owner') {
+      throw new Error('Only company owner can change the security policy');
+    }
+
+    // Owners must not lock themselves out
+    if (data.mfaRequired) {
+      const ownerMfa = await this.userMfaRepo.findByUserId(userId);
+      if (!ownerMfa?.enabledAt) {
+        throw new Error('Enable MFA on your account before requiring it');
+      }
+    }
+
+    return this.policiesRepo.upsert({
+      companyId,
+      mfaRequired: data.mfaRequired,
+      passwordPolicy: data.passwordPolicy,
+      updatedBy: userId,
+    });
+  }
+
+  /**
+   * Refuse to take the owner role away from the last owner
+   */
+  private async assertAnotherOwner(companyId: string, ownerId: string): Promise<void> {
+    const members = await this.companiesRepo.getMembers(companyId);
+    if (!members.some((member) => member.role === 'owner' && member.userId !== ownerId)) {
+      throw new Error('Company must keep at least one owner');
+    }
+  }
 }
@@ -0,0 +1,259 @@
+import { z } from 'zod';
+import type { PasswordPolicy } from '../../shared/db/schema/company-security-policies.schema';
+import type { CompanyInvitationStatus } from '../../shared/db/schema/company-invitations.schema';
+import type { OwnershipTransferStatus } from '../../shared/db/schema/ownership-transfers.schema';
+
+/**
+ * Password rules a company can set (omitted rules keep their defaults)
+ */
+export const passwordPolicySchema = z
+  .object({
+    minLength: z.number().int().min(8).max(128).optional(),
+    requireUppercase: z.boolean().optional(),
+    requireLowercase: z.boolean().optional(),
+    requireNumber: z.boolean().optional(),
+    requireSymbol: z.boolean().optional(),
+    historyCount: z.number().int().min(0).max(24).optional(),
+    maxAgeDays: z.number().int().min(1).max(3650).nullable().optional(),
+  })
+  .strict();
+
+/**
+ * Update a company's security policy
+ *
+ * Omitted fields are left unchanged; `passwordPolicy: null` restores the default password rules.
+ */
+export const updateSecurityPolicySchema = z
+  .object({
+    mfaRequired: z.boolean().optional(),
+    passwordPolicy: passwordPolicySchema.nullable().optional(),
+  })
+  .strict()
+  .refine((data) => data.mfaRequired !== undefined || data.passwordPolicy !== undefined, {
+    message: 'Provide mfaRequired or passwordPolicy',
+  });
+
+export type UpdateSecurityPolicyDTO = z.infer<typeof updateSecurityPolicySchema>;
+
+/**
+ * Company security policy as returned by the API (password rules with defaults filled in)
+ */
+export interface SecurityPolicyInfo {
+  mfaRequired: boolean;
+  passwordPolicy: PasswordPolicy;
+}
+
+/**
+ * Create a service account
+ */
+export const createServiceAccountSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    description: z.string().trim().max(500).nullable().optional(),
+    userLevelIds: z.array(z.string().min(1)).max(50).optional(),
+  })
+  .strict();
+
+export type CreateServiceAccountDTO = z.infer<typeof createServiceAccountSchema>;
+
+/**
+ * Update a service account (omitted fields are left unchanged)
+ */
+export const updateServiceAccountSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+    description: z.string().trim().max(500).nullable().optional(),
+    enabled: z.boolean().optional(),
+  })
+  .strict()
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Provide name, description or enabled',
+  });
+
+export type UpdateServiceAccountDTO = z.infer<typeof updateServiceAccountSchema>;
+
+/**
+ * Replace the user levels assigned to a service account
+ */
+export const assignServiceAccountUserLevelsSchema = z
+  .object({
+    userLevelIds: z.array(z.string().min(1)).max(50),
+  })
+  .strict();
+
+export type AssignServiceAccountUserLevelsDTO = z.infer<typeof assignServiceAccountUserLevelsSchema>;
+
+/**
+ * Service account as returned by the API (never includes the secret)
+ */
+export interface ServiceAccountInfo {
+  id: string;
+  companyId: string;
+  name: string;
+  description: string | null;
+  clientId: string;
+  enabled: boolean;
+  userLevelIds: string[];
+  createdBy: string | null;
+  lastUsedAt: string | null;
+  secretRotatedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Invite someone to join a company by email
+ */
+export const createInvitationSchema = z
+  .object({
+    email: z.string().trim().toLowerCase().email('Invalid email address').max(255),
+    role: z.enum(['admin', 'member']).default('member'),
+    userLevelIds: z.array(z.string().min(1)).max(50).default([]),
+  })
+  .strict();
+
+export type CreateInvitationDTO = z.infer<typeof createInvitationSchema>;
+
+/**
+ * Token from an invitation link
+ */
+export const invitationTokenSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+/**
+ * Invitation as returned to company owners and admins (never includes the token)
+ */
+export interface CompanyInvitationInfo {
+  id: string;
+  companyId: string;
+  email: string;
+  role: string;
+  userLevelIds: string[];
+  status: CompanyInvitationStatus | 'expired';
+  invitedBy: string | null;
+  acceptedBy: string | null;
+  sendCount: number;
+  lastSentAt: string;
+  expiresAt: string;
+  respondedAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * What the invitee sees before accepting or declining
+ */
+export interface InvitationPreview {
+  companyName: string;
+  inviterName: string | null;
+  email: string;
+  role: string;
+  expiresAt: string;
+}
+
+/**
+ * Create a team in a company
+ */
+export const createTeamSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    description: z.string().trim().max(500).nullable().optional(),
+  })
+  .strict();
+
+export type CreateTeamDTO = z.infer<typeof createTeamSchema>;
+
+/**
+ * Update a team (omitted fields are left unchanged)
+ */
+export const updateTeamSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+    description: z.string().trim().max(500).nullable().optional(),
+  })
+  .strict()
+  .refine((data) => data.name !== undefined || data.description !== undefined, {
+    message: 'Provide name or description',
+  });
+
+export type UpdateTeamDTO = z.infer<typeof updateTeamSchema>;
+
+/**
+ * Add a company member to a team
+ */
+export const addTeamMemberSchema = z
+  .object({
+    userId: z.string().uuid('Invalid user ID'),
+    isLead: z.boolean().default(false),
+  })
+  .strict();
+
+export type AddTeamMemberDTO = z.infer<typeof addTeamMemberSchema>;
+
+/**
+ * Make a team member a lead, or not
+ */
+export const updateTeamMemberSchema = z
+  .object({
+    isLead: z.boolean(),
+  })
+  .strict();
+
+export type UpdateTeamMemberDTO = z.infer<typeof updateTeamMemberSchema>;
+
+/**
+ * Team as returned by the API
+ */
+export interface TeamInfo {
+  id: string;
+  companyId: string;
+  name: string;
+  description: string | null;
+  memberCount: number;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Team member as returned by the API
+ */
+export interface TeamMemberInfo {
+  userId: string;
+  email: string;
+  name: string | null;
+  isLead: boolean;
+  addedAt: string;
+}
+
+/**
+ * Start handing over company ownership to another member
+ */
+export const transferOwnershipSchema = z
+  .object({
+    userId: z.string().uuid('Invalid user ID'),
+  })
+  .strict();
+
+export type TransferOwnershipDTO = z.infer<typeof transferOwnershipSchema>;
+
+/**
+ * Token from an ownership transfer link
+ */
+export const ownershipTransferTokenSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+/**
+ * Ownership transfer as returned by the API (never includes the token)
+ */
+export interface OwnershipTransferInfo {
+  id: string;
+  companyId: string;
+  fromUserId: string;
+  toUserId: string;
+  status: OwnershipTransferStatus | 'expired';
+  expiresAt: string;
+  respondedAt: string | null;
+  createdAt: string;
+}
@@ -0,0 +1,390 @@
+import { db } from '../../shared/db/client';
+import { CompaniesRepository } from '../../shared/db/repositories/companies.repository';
+import { CompanyInvitationsRepository } from '../../shared/db/repositories/company-invitations.repository';
+import { UsersRepository } from '../../shared/db/repositories/users.repository';
+import type { CompanyInvitation, CompanyInvitationStatus } from '../../shared/db/schema/company-invitations.schema';
+import type { User } from '../../shared/db/schema/users.schema';
+import { Throttle, ThrottledError } from '../../shared/utils/throttle';
+import { generateSecureToken, hashToken } from '../../shared/utils/token';
+import { buildFrontendUrl } from '../../shared/utils/url';
+import { EmailService } from '../email/email.service';
+import { auditService } from '../iam/audit.service';
+import type { CompanyRole } from '@vertical-vibing/shared-types';
+import type { CompanyInvitationInfo, CreateInvitationDTO, InvitationPreview } from './companies.types';
+
+/**
+ * Days an invitation link stays valid (renewed on resend)
+ */
+const INVITATION_TTL_DAYS = 7;
+
+/**
+ * Invitation resends: at most 5 per hour, one per minute, per invitation
+ */
+const resendThrottle = new Throttle({
+  limit: 5,
+  windowMs: 60 * 60 * 1000,
+  cooldownMs: 60 * 1000,
+});
+
+/**
+ * Company Invitations Service
+ *
+ * Invites people to a company by email, whether or not they have an account
+ * - Sent and managed by company owners and admins
+ * - The invitation carries the role and the IAM user levels the invitee gets
+ * - Accepted with the emailed link by the account using the invited address
+ * - New accounts join the companies they were invited to once their address is verified
+ */
+export class CompanyInvitationsService {
+  private companiesRepo: CompaniesRepository;
+  private invitationsRepo: CompanyInvitationsRepository;
+  private usersRepo: UsersRepository;
+  private emailService: EmailService;
+
+  constructor() {
+    this.companiesRepo = new CompaniesRepository(db);
+    this.invitationsRepo = new CompanyInvitationsRepository(db);
+    this.usersRepo = new UsersRepository(db);
+    this.emailService = new EmailService();
+  }
+
+  /**
+   * Invite an email address to a company
+   *
+   * @throws Error if the requester is not an owner or admin, the address already belongs
+   *         to a member or has a pending invitation, or a user level does not belong to the company
+   */
+  async create(companyId: string, requesterId: string, dto: CreateInvitationDTO): Promise<CompanyInvitationInfo> {
+    await this.assertCanManage(companyId, requesterId);
+
+    const email = dto.email.toLowerCase();
+    const existingUser = await this.usersRepo.findByEmail(email);
+    if (existingUser && (await this.companiesRepo.getMember(companyId, existingUser.id))) {
+      throw new Error('User is already a member of this company');
+    }
+
+    const pending = await this.invitationsRepo.findPendingByEmail(email);
+    if (pending.some((invitation) => invitation.companyId === companyId && !isExpired(invitation))) {
+      throw new Error('An invitation is already pending for this email');
+    }
+
+    const userLevelIds = Array.from(new Set(dto.userLevelIds));
+    await this.assertUserLevelsInCompany(companyId, userLevelIds);
+
+    const token = generateSecureToken();
+    const invitation = await this.invitationsRepo.create({
+      companyId,
+      email,
+      role: dto.role,
+      userLevelIds,
+      tokenHash: hashToken(token),
+      invitedBy: requesterId,
+      expiresAt: invitationExpiry(),
+    });
+
+    await this.sendInvitation(invitation, token);
+
+    return toInfo(invitation);
+  }
+
+  /**
+   * List a company's invitations, newest first (owners and admins)
+   */
+  async list(companyId: string, requesterId: string): Promise<CompanyInvitationInfo[]> {
+    await this.assertCanManage(companyId, requesterId);
+
+    const invitations = await this.invitationsRepo.findByCompanyId(companyId);
+    return invitations.map(toInfo);
+  }
+
+  /**
+   * Send a pending invitation again with a new link and a renewed expiry
+   *
+   * The previous link stops working.
+   *
+   * @throws ThrottledError if the invitation is resent too often
+   */
+  async resend(companyId: string, requesterId: string, invitationId: string): Promise<CompanyInvitationInfo> {
+    await this.assertCanManage(companyId, requesterId);
+    const invitation = await this.findPendingInCompany(companyId, invitationId);
+
+    const throttle = resendThrottle.attempt(invitation.id);
+    if (!throttle.allowed) {
+      throw new ThrottledError('Too many invitation emails sent', throttle.retryAfterSeconds);
+    }
+
+    const token = generateSecureToken();
+    const updated = await this.invitationsRepo.update(invitation.id, {
+      tokenHash: hashToken(token),
+      sendCount: invitation.sendCount + 1,
+      lastSentAt: new Date(),
+      expiresAt: invitationExpiry(),
+    });
+    if (!updated) {
+      throw new Error('Invitation not found');
+    }
+
+    await this.sendInvitation(updated, token);
+
+    return toInfo(updated);
+  }
+
+  /**
+   * Revoke a pending invitation (its link stops working)
+   */
+  async revoke(companyId: string, requesterId: string, invitationId: string): Promise<void> {
+    await this.assertCanManage(companyId, requesterId);
+    const invitation = await this.findPendingInCompany(companyId, invitationId);
+
+    await this.invitationsRepo.update(invitation.id, { status: 'revoked', respondedAt: new Date() });
+  }
+
+  /**
+   * Show the invitee what they were invited to
+   *
+   * @throws Error if the link is invalid, expired or already used
+   */
+  async preview(token: string): Promise<InvitationPreview> {
+    const invitation = await this.findByToken(token);
+
+    const company = await this.companiesRepo.findById(invitation.companyId);
+    if (!company) {
+      throw new Error('Invalid or expired invitation');
+    }
+    const inviter = invitation.invitedBy ? await this.usersRepo.findById(invitation.invitedBy) : null;
+
+    return {
+      companyName: company.name,
+      inviterName: inviter?.name ?? null,
+      email: invitation.email,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt.toISOString(),
+    };
+  }
+
+  /**
+   * Accept an invitation with the token from the invitation email
+   *
+   * The link proves the user can read mail sent to the invited address, so an
+   * unverified address is marked verified.
+   *
+   * @returns ID of the company joined
+   * @throws Error if the link is invalid, expired or used, or the user's address is not the invited one
+   */
+  async accept(token: string, userId: string): Promise<{ companyId: string }> {
+    const invitation = await this.findByToken(token);
+
+    const user = await this.usersRepo.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.email.toLowerCase() !== invitation.email) {
+      throw new Error('This invitation was sent to another email address');
+    }
+
+    if (!user.emailVerified) {
+      await this.usersRepo.update(user.id, { emailVerified: true });
+    }
+
+    await this.join(invitation, user);
+
+    return { companyId: invitation.companyId };
+  }
+
+  /**
+   * Decline an invitation with the token from the invitation email
+   */
+  async decline(token: string): Promise<void> {
+    const invitation = await this.findByToken(token);
+
+    await this.invitationsRepo.update(invitation.id, { status: 'declined', respondedAt: new Date() });
+  }
+
+  /**
+   * Join every company a user was invited to (registration and email verification)
+   *
+   * Only verified addresses are trusted: anyone can register with any address.
+   * Never throws: a failed join is logged and the invitation stays pending.
+   *
+   * @returns IDs of the companies joined
+   */
+  async acceptPendingForUser(user: User): Promise<string[]> {
+    if (!user.emailVerified) {
+      return [];
+    }
+
+    const joined: string[] = [];
+    try {
+      for (const invitation of await this.invitationsRepo.findPendingByEmail(user.email)) {
+        if (isExpired(invitation)) {
+          continue;
+        }
+
+        try {
+          await this.join(invitation, user);
+          joined.push(invitation.companyId);
+        } catch (error) {
+          console.error('Invitation auto-accept error:', error);
+        }
+      }
+    } catch (error) {
+      console.error('Invitation auto-accept error:', error);
+    }
+
+    return joined;
+  }
+
+  /**
+   * Make the user a member with the invited role and user levels, and close the invitation
+   */
+  private async join(invitation: CompanyInvitation, user: User): Promise<void> {
+    const company = await this.companiesRepo.findById(invitation.companyId);
+    if (!company) {
+      throw new Error('Invalid or expired invitation');
+    }
+
+    // Already a member (e.g. added directly meanwhile): keep the current role
+    const member = await this.companiesRepo.getMember(company.id, user.id);
+    if (!member) {
+      await this.companiesRepo.addMember({
+        id: crypto.randomUUID(),
+        companyId: company.id,
+        userId: user.id,
+        role: invitation.role as CompanyRole,
+      });
+    }
+
+    // User levels deleted since the invitation was sent are skipped
+    const userLevelIds: string[] = [];
+    for (const userLevelId of invitation.userLevelIds) {
+      if (await db.iam.userLevels.findById(userLevelId, company.id)) {
+        userLevelIds.push(userLevelId);
+      }
+    }
+    if (userLevelIds.length > 0) {
+      const previous = await db.iam.userUserLevels.getUserLevels(user.id);
+      const assigned = Array.from(new Set([...previous, ...userLevelIds]));
+      await db.iam.userUserLevels.replaceForUser(user.id, assigned);
+      await auditService.logUserLevelsAssigned(invitation.invitedBy ?? user.id, company.id, user.id, assigned, previous);
+    }
+
+    await this.invitationsRepo.update(invitation.id, {
+      status: 'accepted',
+      acceptedBy: user.id,
+      respondedAt: new Date(),
+    });
+  }
+
+  /**
+   * Email the invitation link, logging (not throwing) delivery failures; it can be resent
+   */
+  private async sendInvitation(invitation: CompanyInvitation, token: string): Promise<void> {
+    try {
+      const company = await this.companiesRepo.findById(invitation.companyId);
+      const inviter = invitation.invitedBy ? await this.usersRepo.findById(invitation.invitedBy) : null;
+
+      await this.emailService.sendEmail({
+        templateName: 'team-invitation',
+        toAddress: invitation.email,
+        templateData: {
+          invitedEmail: invitation.email,
+          inviterName: inviter?.name ?? 'A teammate',
+          companyName: company?.name ?? '',
+          roleName: invitation.role,
+          invitationUrl: buildFrontendUrl('/accept-invitation', { token }),
+          expiryDays: INVITATION_TTL_DAYS,
+        },
+      });
+    } catch (error) {
+      console.error('Invitation email error:', error);
+    }
+  }
+
+  /**
+   * Look up a usable invitation by its link token
+   */
+  private async findByToken(token: string): Promise<CompanyInvitation> {
+    const invitation = await this.invitationsRepo.findByTokenHash(hashToken(token));
+    if (!invitation || invitation.status !== 'pending' || isExpired(invitation)) {
+      throw new Error('Invalid or expired invitation');
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Load a pending invitation, hiding invitations of other companies
+   */
+  private async findPendingInCompany(companyId: string, invitationId: string): Promise<CompanyInvitation> {
+    const invitation = await this.invitationsRepo.findById(invitationId);
+    if (!invitation || invitation.companyId !== companyId) {
+      throw new Error('Invitation not found');
+    }
+
+    if (invitation.status !== 'pending') {
+      throw new Error('Invitation is no longer pending');
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Only owners and admins manage invitations
+   */
+  private async assertCanManage(companyId: string, requesterId: string): Promise<void> {
+    const member = await this.companiesRepo.getMember(companyId, requesterId);
+    if (!member || (member.role !== 'owner' && member.role !== 'admin')) {
+      throw new Error('Insufficient permissions');
+    }
+  }
+
+  /**
+   * Reject user levels of other companies
+   */
+  private async assertUserLevelsInCompany(companyId: string, userLevelIds: string[]): Promise<void> {
+    for (const userLevelId of userLevelIds) {
+      const userLevel = await db.iam.userLevels.findById(userLevelId, companyId);
+      if (!userLevel) {
+        throw new Error(`User level not found: ${userLevelId}`);
+      }
+    }
+  }
+}
+
+/**
+ * Expiry of an invitation link sent now
+ */
+function invitationExpiry(): Date {
+  return new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Whether a pending invitation's link has expired
+ */
+function isExpired(invitation: CompanyInvitation): boolean {
+  return invitation.expiresAt <= new Date();
+}
+
+/**
+ * Convert an invitation to its public view
+ */
+function toInfo(invitation: CompanyInvitation): CompanyInvitationInfo {
+  const status = invitation.status as CompanyInvitationStatus;
+
+  return {
+    id: invitation.id,
+    companyId: invitation.companyId,
+    email: invitation.email,
+    role: invitation.role,
+    userLevelIds: invitation.userLevelIds,
+    status: status === 'pending' && isExpired(invitation) ? 'expired' : status,
+    invitedBy: invitation.invitedBy,
+    acceptedBy: invitation.acceptedBy,
+    sendCount: invitation.sendCount,
+    lastSentAt: invitation.lastSentAt.toISOString(),
+    expiresAt: invitation.expiresAt.toISOString(),
+    respondedAt: invitation.respondedAt?.toISOString() ?? null,
+    createdAt: invitation.createdAt.toISOString(),
+  };
+}
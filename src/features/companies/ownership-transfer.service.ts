@@ -0,0 +1,266 @@
+import { db } from '../../shared/db/client';
+import { CompaniesRepository } from '../../shared/db/repositories/companies.repository';
+import { OwnershipTransfersRepository } from '../../shared/db/repositories/ownership-transfers.repository';
+import { UsersRepository } from '../../shared/db/repositories/users.repository';
+import type { OwnershipTransfer, OwnershipTransferStatus } from '../../shared/db/schema/ownership-transfers.schema';
+import { Throttle, ThrottledError } from '../../shared/utils/throttle';
+import { generateSecureToken, hashToken } from '../../shared/utils/token';
+import { buildFrontendUrl } from '../../shared/utils/url';
+import { EmailService } from '../email/email.service';
+import { auditService } from '../iam/audit.service';
+import { CompanyRole } from '@vertical-vibing/shared-types';
+import type { OwnershipTransferInfo } from './companies.types';
+
+/**
+ * Days an ownership transfer link stays valid
+ */
+const TRANSFER_TTL_DAYS = 3;
+
+/**
+ * Transfer emails: at most 5 per hour, one per minute, per company
+ */
+const requestThrottle = new Throttle({
+  limit: 5,
+  windowMs: 60 * 60 * 1000,
+  cooldownMs: 60 * 1000,
+});
+
+/**
+ * Ownership Transfer Service
+ *
+ * Hands company ownership over to another member
+ * - Started by an owner, confirmed by the recipient with the emailed link
+ * - On confirmation the recipient becomes an owner and the previous owner an admin
+ * - One pending transfer per company; owners can cancel it, the recipient can decline it
+ * - Every step is recorded in the IAM audit log
+ */
+export class OwnershipTransferService {
+  private companiesRepo: CompaniesRepository;
+  private transfersRepo: OwnershipTransfersRepository;
+  private usersRepo: UsersRepository;
+  private emailService: EmailService;
+
+  constructor() {
+    this.companiesRepo = new CompaniesRepository(db);
+    this.transfersRepo = new OwnershipTransfersRepository(db);
+    this.usersRepo = new UsersRepository(db);
+    this.emailService = new EmailService();
+  }
+
+  /**
+   * Start handing ownership over to another member and email them the confirmation link
+   *
+   * @throws Error if the requester is not an owner, the recipient is not a member or
+   *         already an owner, or a transfer is already pending
+   * @throws ThrottledError if transfers are requested too often
+   */
+  async request(companyId: string, requesterId: string, toUserId: string): Promise<OwnershipTransferInfo> {
+    await this.assertOwner(companyId, requesterId);
+
+    if (toUserId === requesterId) {
+      throw new Error('Cannot transfer ownership to yourself');
+    }
+
+    const recipient = await this.companiesRepo.getMember(companyId, toUserId);
+    if (!recipient) {
+      throw new Error('User is not a member of this company');
+    }
+    if (recipient.role === 'owner') {
+      throw new Error('User is already an owner of this company');
+    }
+
+    if (await this.findPending(companyId)) {
+      throw new Error('An ownership transfer is already pending');
+    }
+
+    const throttle = requestThrottle.attempt(companyId);
+    if (!throttle.allowed) {
+      throw new ThrottledError('Too many ownership transfers requested', throttle.retryAfterSeconds);
+    }
+
+    const token = generateSecureToken();
+    const transfer = await this.transfersRepo.create({
+      companyId,
+      fromUserId: requesterId,
+      toUserId,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + TRANSFER_TTL_DAYS * 24 * 60 * 60 * 1000),
+    });
+
+    await this.sendConfirmation(transfer, token);
+
+    await auditService.logMembershipEvent(requesterId, companyId, toUserId, 'ownership_transfer_requested', {
+      transferId: transfer.id,
+    });
+
+    return toInfo(transfer);
+  }
+
+  /**
+   * Get the company's pending transfer, if any (owners and admins)
+   */
+  async getPending(companyId: string, requesterId: string): Promise<OwnershipTransferInfo | null> {
+    const member = await this.companiesRepo.getMember(companyId, requesterId);
+    if (!member || (member.role !== 'owner' && member.role !== 'admin')) {
+      throw new Error('Insufficient permissions');
+    }
+
+    const transfer = await this.findPending(companyId);
+    return transfer ? toInfo(transfer) : null;
+  }
+
+  /**
+   * Cancel the company's pending transfer (owners); its link stops working
+   */
+  async cancel(companyId: string, requesterId: string): Promise<void> {
+    await this.assertOwner(companyId, requesterId);
+
+    const transfer = await this.findPending(companyId);
+    if (!transfer) {
+      throw new Error('No ownership transfer is pending');
+    }
+
+    await this.transfersRepo.update(transfer.id, { status: 'cancelled', respondedAt: new Date() });
+
+    await auditService.logMembershipEvent(requesterId, companyId, transfer.toUserId, 'ownership_transfer_cancelled', {
+      transferId: transfer.id,
+    });
+  }
+
+  /**
+   * Confirm a transfer with the link token, signed in as the recipient
+   *
+   * The recipient becomes an owner before the previous owner becomes an admin,
+   * so the company never goes without an owner.
+   *
+   * @throws Error if the link is invalid or expired, belongs to another account,
+   *         or the owner or recipient roles changed since the transfer started
+   */
+  async confirm(token: string, userId: string): Promise<{ companyId: string; role: CompanyRole }> {
+    const transfer = await this.findByToken(token);
+
+    if (transfer.toUserId !== userId) {
+      throw new Error('This ownership transfer is for another account');
+    }
+
+    const [owner, recipient] = await Promise.all([
+      this.companiesRepo.getMember(transfer.companyId, transfer.fromUserId),
+      this.companiesRepo.getMember(transfer.companyId, transfer.toUserId),
+    ]);
+    if (owner?.role !== 'owner' || !recipient) {
+      await this.transfersRepo.update(transfer.id, { status: 'cancelled', respondedAt: new Date() });
+      throw new Error('Ownership transfer is no longer valid');
+    }
+
+    await this.companiesRepo.updateMemberRole(transfer.companyId, transfer.toUserId, CompanyRole.OWNER);
+    await this.companiesRepo.updateMemberRole(transfer.companyId, transfer.fromUserId, CompanyRole.ADMIN);
+    await this.transfersRepo.update(transfer.id, { status: 'completed', respondedAt: new Date() });
+
+    await auditService.logMembershipEvent(transfer.toUserId, transfer.companyId, transfer.toUserId, 'ownership_transferred', {
+      transferId: transfer.id,
+      fromUserId: transfer.fromUserId,
+      before: { [transfer.fromUserId]: 'owner', [transfer.toUserId]: recipient.role },
+      after: { [transfer.fromUserId]: 'admin', [transfer.toUserId]: 'owner' },
+    });
+
+    return { companyId: transfer.companyId, role: CompanyRole.OWNER };
+  }
+
+  /**
+   * Decline a transfer with the link token
+   */
+  async decline(token: string): Promise<void> {
+    const transfer = await this.findByToken(token);
+
+    await this.transfersRepo.update(transfer.id, { status: 'declined', respondedAt: new Date() });
+
+    await auditService.logMembershipEvent(transfer.toUserId, transfer.companyId, transfer.toUserId, 'ownership_transfer_declined', {
+      transferId: transfer.id,
+    });
+  }
+
+  /**
+   * Email the confirmation link to the recipient, logging (not throwing) delivery failures
+   */
+  private async sendConfirmation(transfer: OwnershipTransfer, token: string): Promise<void> {
+    try {
+      const [company, owner, recipient] = await Promise.all([
+        this.companiesRepo.findById(transfer.companyId),
+        this.usersRepo.findById(transfer.fromUserId),
+        this.usersRepo.findById(transfer.toUserId),
+      ]);
+      if (!recipient) {
+        return;
+      }
+
+      await this.emailService.sendEmail({
+        templateName: 'ownership-transfer',
+        toAddress: recipient.email,
+        templateData: {
+          recipientName: recipient.name ?? recipient.email,
+          ownerName: owner?.name ?? owner?.email ?? 'The owner',
+          companyName: company?.name ?? '',
+          confirmUrl: buildFrontendUrl('/confirm-ownership-transfer', { token }),
+          expiryDays: TRANSFER_TTL_DAYS,
+        },
+      });
+    } catch (error) {
+      console.error('Ownership transfer email error:', error);
+    }
+  }
+
+  /**
+   * Look up a usable transfer by its link token
+   */
+  private async findByToken(token: string): Promise<OwnershipTransfer> {
+    const transfer = await this.transfersRepo.findByTokenHash(hashToken(token));
+    if (!transfer || transfer.status !== 'pending' || isExpired(transfer)) {
+      throw new Error('Invalid or expired ownership transfer');
+    }
+
+    return transfer;
+  }
+
+  /**
+   * The company's pending, unexpired transfer
+   */
+  private async findPending(companyId: string): Promise<OwnershipTransfer | null> {
+    const pending = await this.transfersRepo.findPendingByCompanyId(companyId);
+    return pending.find((transfer) => !isExpired(transfer)) ?? null;
+  }
+
+  /**
+   * Only owners hand over ownership
+   */
+  private async assertOwner(companyId: string, requesterId: string): Promise<void> {
+    const member = await this.companiesRepo.getMember(companyId, requesterId);
+    if (!member || member.role !== 'owner') {
+      throw new Error('Only company owner can transfer ownership');
+    }
+  }
+}
+
+/**
+ * Whether a pending transfer's link has expired
+ */
+function isExpired(transfer: OwnershipTransfer): boolean {
+  return transfer.expiresAt <= new Date();
+}
+
+/**
+ * Convert a transfer to its public view
+ */
+function toInfo(transfer: OwnershipTransfer): OwnershipTransferInfo {
+  const status = transfer.status as OwnershipTransferStatus;
+
+  return {
+    id: transfer.id,
+    companyId: transfer.companyId,
+    fromUserId: transfer.fromUserId,
+    toUserId: transfer.toUserId,
+    status: status === 'pending' && isExpired(transfer) ? 'expired' : status,
+    expiresAt: transfer.expiresAt.toISOString(),
+    respondedAt: transfer.respondedAt?.toISOString() ?? null,
+    createdAt: transfer.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,309 @@
+import { timingSafeEqual } from 'crypto';
+import { db } from '../../shared/db/client';
+import { CompaniesRepository } from '../../shared/db/repositories/companies.repository';
+import { ServiceAccountsRepository } from '../../shared/db/repositories/service-accounts.repository';
+import type { ServiceAccount } from '../../shared/db/schema/service-accounts.schema';
+import { tokenRevocationService } from '../../shared/services/token-revocation.service';
+import { generateToken, ACCESS_TOKEN_TTL_SECONDS } from '../../shared/utils/jwt';
+import { generateSecureToken, hashToken } from '../../shared/utils/token';
+import { permissionsService } from '../iam/permissions.service';
+import { auditService } from '../iam/audit.service';
+import type {
+  CreateServiceAccountDTO,
+  UpdateServiceAccountDTO,
+  ServiceAccountInfo,
+} from './companies.types';
+
+/**
+ * Prefix of service account client IDs
+ */
+export const SERVICE_ACCOUNT_CLIENT_ID_PREFIX = 'vv_sa_';
+
+/**
+ * Prefix of service account client secrets (recognisable by secret scanners)
+ */
+const CLIENT_SECRET_PREFIX = 'vv_sas_';
+
+/**
+ * Service accounts a company can have
+ */
+const MAX_SERVICE_ACCOUNTS = 100;
+
+/**
+ * Service Accounts Service
+ *
+ * Non-human principals for machine-to-machine access to a company
+ * - Managed by company owners and admins
+ * - Get user levels like users; their ID is the user ID in IAM
+ * - Exchange a client ID and secret for a short-lived access token (client credentials)
+ * - Only the SHA-256 hash of the secret is stored; it is returned once on creation or rotation
+ */
+export class ServiceAccountsService {
+  private companiesRepo: CompaniesRepository;
+  private serviceAccountsRepo: ServiceAccountsRepository;
+
+  constructor() {
+    this.companiesRepo = new CompaniesRepository(db);
+    this.serviceAccountsRepo = new ServiceAccountsRepository(db);
+  }
+
+  /**
+   * List a company's service accounts (owners and admins)
+   */
+  async list(companyId: string, requesterId: string): Promise<ServiceAccountInfo[]> {
+    await this.assertCanManage(companyId, requesterId);
+
+    const accounts = await this.serviceAccountsRepo.findByCompanyId(companyId);
+    return Promise.all(accounts.map((account) => this.toInfo(account)));
+  }
+
+  /**
+   * Create a service account
+   *
+   * @returns The account and its client secret (only returned once)
+   * @throws Error if the requester is not an owner or admin, the company has too many
+   *         service accounts or a user level does not belong to the company
+   */
+  async create(
+    companyId: string,
+    requesterId: string,
+    dto: CreateServiceAccountDTO
+  ): Promise<{ serviceAccount: ServiceAccountInfo; clientSecret: string }> {
+    await this.assertCanManage(companyId, requesterId);
+
+    const existing = await this.serviceAccountsRepo.findByCompanyId(companyId);
+    if (existing.length >= MAX_SERVICE_ACCOUNTS) {
+      throw new Error('Too many service accounts');
+    }
+
+    const userLevelIds = Array.from(new Set(dto.userLevelIds ?? []));
+    await this.assertUserLevelsInCompany(companyId, userLevelIds);
+
+    const clientSecret = generateClientSecret();
+    const account = await this.serviceAccountsRepo.create({
+      companyId,
+      name: dto.name,
+      description: dto.description ?? null,
+      clientId: `${SERVICE_ACCOUNT_CLIENT_ID_PREFIX}${generateSecureToken(16)}`,
+      clientSecretHash: hashToken(clientSecret),
+      createdBy: requesterId,
+    });
+
+    if (userLevelIds.length > 0) {
+      await db.iam.userUserLevels.replaceForUser(account.id, userLevelIds);
+      await auditService.logUserLevelsAssigned(requesterId, companyId, account.id, userLevelIds, []);
+    }
+
+    await auditService.logServiceAccountEvent(requesterId, companyId, account.id, 'created', {
+      name: account.name,
+      clientId: account.clientId,
+    });
+
+    return { serviceAccount: await this.toInfo(account), clientSecret };
+  }
+
+  /**
+   * Update a service account's name, description or enabled flag
+   *
+   * Disabling an account revokes the access tokens it holds.
+   */
+  async update(
+    companyId: string,
+    requesterId: string,
+    serviceAccountId: string,
+    dto: UpdateServiceAccountDTO
+  ): Promise<ServiceAccountInfo> {
+    await this.assertCanManage(companyId, requesterId);
+    const account = await this.findInCompany(companyId, serviceAccountId);
+
+    const updated = await this.serviceAccountsRepo.update(account.id, {
+      ...(dto.name !== undefined && { name: dto.name }),
+      ...(dto.description !== undefined && { description: dto.description }),
+      ...(dto.enabled !== undefined && { enabled: dto.enabled }),
+    });
+    if (!updated) {
+      throw new Error('Service account not found');
+    }
+
+    if (account.enabled && !updated.enabled) {
+      await tokenRevocationService.revokeAllForUser(account.id, 'service_account_disabled');
+    }
+
+    await auditService.logServiceAccountEvent(requesterId, companyId, account.id, 'updated', dto);
+
+    return this.toInfo(updated);
+  }
+
+  /**
+   * Replace the client secret
+   *
+   * The old secret stops working immediately and issued tokens are revoked.
+   *
+   * @returns The new client secret (only returned once)
+   */
+  async rotateSecret(
+    companyId: string,
+    requesterId: string,
+    serviceAccountId: string
+  ): Promise<{ serviceAccount: ServiceAccountInfo; clientSecret: string }> {
+    await this.assertCanManage(companyId, requesterId);
+    const account = await this.findInCompany(companyId, serviceAccountId);
+
+    const clientSecret = generateClientSecret();
+    const updated = await this.serviceAccountsRepo.update(account.id, {
+      clientSecretHash: hashToken(clientSecret),
+      secretRotatedAt: new Date(),
+    });
+    if (!updated) {
+      throw new Error('Service account not found');
+    }
+
+    await tokenRevocationService.revokeAllForUser(account.id, 'service_account_rotated');
+    await auditService.logServiceAccountEvent(requesterId, companyId, account.id, 'secret_rotated');
+
+    return { serviceAccount: await this.toInfo(updated), clientSecret };
+  }
+
+  /**
+   * Replace the user levels assigned to a service account
+   *
+   * @throws Error if a user level does not belong to the company
+   */
+  async assignUserLevels(
+    companyId: string,
+    requesterId: string,
+    serviceAccountId: string,
+    userLevelIds: string[]
+  ): Promise<ServiceAccountInfo> {
+    await this.assertCanManage(companyId, requesterId);
+    const account = await this.findInCompany(companyId, serviceAccountId);
+
+    const levelIds = Array.from(new Set(userLevelIds));
+    await this.assertUserLevelsInCompany(companyId, levelIds);
+
+    const previousLevelIds = await db.iam.userUserLevels.getUserLevels(account.id);
+    await db.iam.userUserLevels.replaceForUser(account.id, levelIds);
+    await permissionsService.invalidateCachedPermissions(account.id, companyId);
+    await auditService.logUserLevelsAssigned(requesterId, companyId, account.id, levelIds, previousLevelIds);
+
+    return this.toInfo(account);
+  }
+
+  /**
+   * Delete a service account, its user level assignments and issued tokens
+   */
+  async delete(companyId: string, requesterId: string, serviceAccountId: string): Promise<void> {
+    await this.assertCanManage(companyId, requesterId);
+    const account = await this.findInCompany(companyId, serviceAccountId);
+
+    await db.iam.userUserLevels.replaceForUser(account.id, []);
+    await permissionsService.invalidateCachedPermissions(account.id, companyId);
+    await tokenRevocationService.revokeAllForUser(account.id, 'service_account_deleted');
+    await this.serviceAccountsRepo.delete(account.id);
+
+    await auditService.logServiceAccountEvent(requesterId, companyId, account.id, 'deleted', {
+      name: account.name,
+      clientId: account.clientId,
+    });
+  }
+
+  /**
+   * Exchange client credentials for an access token
+   *
+   * The token identifies the service account as the user (`userId` is the account ID)
+   * and carries `serviceAccountId` and `companyId`.
+   *
+   * @throws Error 'Invalid client credentials' for an unknown client, wrong secret or disabled account
+   */
+  async issueToken(
+    clientId: string,
+    clientSecret: string
+  ): Promise<{ accessToken: string; tokenType: 'Bearer'; expiresIn: number }> {
+    const account = await this.serviceAccountsRepo.findByClientId(clientId);
+    if (!account || !account.enabled || !secretMatches(clientSecret, account.clientSecretHash)) {
+      throw new Error('Invalid client credentials');
+    }
+
+    const accessToken = generateToken({
+      userId: account.id,
+      email: `${account.clientId}@service-accounts.invalid`,
+      authProvider: 'inhouse',
+      companyId: account.companyId,
+      serviceAccountId: account.id,
+    });
+
+    await this.serviceAccountsRepo.update(account.id, { lastUsedAt: new Date() });
+
+    return { accessToken, tokenType: 'Bearer', expiresIn: ACCESS_TOKEN_TTL_SECONDS };
+  }
+
+  /**
+   * Only company owners and admins manage service accounts
+   */
+  private async assertCanManage(companyId: string, requesterId: string): Promise<void> {
+    const member = await this.companiesRepo.getMember(companyId, requesterId);
+    if (!member || (member.role !== 'owner' && member.role !== 'admin')) {
+      throw new Error('Insufficient permissions');
+    }
+  }
+
+  /**
+   * Load a service account, hiding accounts of other companies
+   */
+  private async findInCompany(companyId: string, serviceAccountId: string): Promise<ServiceAccount> {
+    const account = await this.serviceAccountsRepo.findById(serviceAccountId);
+    if (!account || account.companyId !== companyId) {
+      throw new Error('Service account not found');
+    }
+
+    return account;
+  }
+
+  /**
+   * Reject user levels of other companies
+   */
+  private async assertUserLevelsInCompany(companyId: string, userLevelIds: string[]): Promise<void> {
+    for (const userLevelId of userLevelIds) {
+      const userLevel = await db.iam.userLevels.findById(userLevelId, companyId);
+      if (!userLevel) {
+        throw new Error(`User level not found: ${userLevelId}`);
+      }
+    }
+  }
+
+  /**
+   * Convert a service account record to its public view
+   */
+  private async toInfo(account: ServiceAccount): Promise<ServiceAccountInfo> {
+    return {
+      id: account.id,
+      companyId: account.companyId,
+      name: account.name,
+      description: account.description,
+      clientId: account.clientId,
+      enabled: account.enabled,
+      userLevelIds: await db.iam.userUserLevels.getUserLevels(account.id),
+      createdBy: account.createdBy,
+      lastUsedAt: account.lastUsedAt?.toISOString() ?? null,
+      secretRotatedAt: account.secretRotatedAt?.toISOString() ?? null,
+      createdAt: account.createdAt.toISOString(),
+      updatedAt: account.updatedAt.toISOString(),
+    };
+  }
+}
+
+/**
+ * Generate a new client secret
+ */
+function generateClientSecret(): string {
+  return `${CLIENT_SECRET_PREFIX}${generateSecureToken()}`;
+}
+
+/**
+ * Compare a presented secret with the stored hash in constant time
+ */
+function secretMatches(clientSecret: string, clientSecretHash: string): boolean {
+  const presented = Buffer.from(hashToken(clientSecret), 'hex');
+  const stored = Buffer.from(clientSecretHash, 'hex');
+  return presented.length === stored.length && timingSafeEqual(presented, stored);
+}
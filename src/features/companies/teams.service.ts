@@ -0,0 +1,280 @@
+import { db } from '../../shared/db/client';
+import { CompaniesRepository } from '../../shared/db/repositories/companies.repository';
+import { TeamsRepository } from '../../shared/db/repositories/teams.repository';
+import { UsersRepository } from '../../shared/db/repositories/users.repository';
+import type { Team, TeamMember } from '../../shared/db/schema/teams.schema';
+import type {
+  AddTeamMemberDTO,
+  CreateTeamDTO,
+  TeamInfo,
+  TeamMemberInfo,
+  UpdateTeamDTO,
+} from './companies.types';
+
+/**
+ * Teams Service
+ *
+ * Groups company members into teams
+ * - Any member can see the company's teams and their members
+ * - Owners and admins create and delete teams and choose team leads
+ * - Team leads rename their team and add or remove its members
+ * - Feature permissions with scope 'team' reach resources owned by teammates
+ */
+export class TeamsService {
+  private companiesRepo: CompaniesRepository;
+  private teamsRepo: TeamsRepository;
+  private usersRepo: UsersRepository;
+
+  constructor() {
+    this.companiesRepo = new CompaniesRepository(db);
+    this.teamsRepo = new TeamsRepository(db);
+    this.usersRepo = new UsersRepository(db);
+  }
+
+  /**
+   * List a company's teams (members only)
+   */
+  async list(companyId: string, requesterId: string): Promise<TeamInfo[]> {
+    await this.assertMember(companyId, requesterId);
+
+    const teams = await this.teamsRepo.findByCompanyId(companyId);
+    return Promise.all(teams.map((team) => this.toInfo(team)));
+  }
+
+  /**
+   * Get a team (members only)
+   */
+  async get(companyId: string, requesterId: string, teamId: string): Promise<TeamInfo> {
+    await this.assertMember(companyId, requesterId);
+    const team = await this.findInCompany(companyId, teamId);
+
+    return this.toInfo(team);
+  }
+
+  /**
+   * Create a team (owners and admins)
+   *
+   * @throws Error if the name is already used by another team of the company
+   */
+  async create(companyId: string, requesterId: string, dto: CreateTeamDTO): Promise<TeamInfo> {
+    await this.assertCanManage(companyId, requesterId);
+    await this.assertNameAvailable(companyId, dto.name);
+
+    const team = await this.teamsRepo.create({
+      companyId,
+      name: dto.name,
+      description: dto.description ?? null,
+      createdBy: requesterId,
+    });
+
+    return this.toInfo(team);
+  }
+
+  /**
+   * Rename or describe a team (owners, admins and the team's leads)
+   */
+  async update(companyId: string, requesterId: string, teamId: string, dto: UpdateTeamDTO): Promise<TeamInfo> {
+    const team = await this.findInCompany(companyId, teamId);
+    await this.assertCanManageTeam(companyId, requesterId, team.id);
+
+    if (dto.name !== undefined && dto.name.toLowerCase() !== team.name.toLowerCase()) {
+      await this.assertNameAvailable(companyId, dto.name);
+    }
+
+    const updated = await this.teamsRepo.update(team.id, dto);
+    if (!updated) {
+      throw new Error('Team not found');
+    }
+
+    return this.toInfo(updated);
+  }
+
+  /**
+   * Delete a team and its memberships (owners and admins)
+   */
+  async delete(companyId: string, requesterId: string, teamId: string): Promise<void> {
+    await this.assertCanManage(companyId, requesterId);
+    const team = await this.findInCompany(companyId, teamId);
+
+    await this.teamsRepo.delete(team.id);
+  }
+
+  /**
+   * List a team's members, leads first (members only)
+   */
+  async listMembers(companyId: string, requesterId: string, teamId: string): Promise<TeamMemberInfo[]> {
+    await this.assertMember(companyId, requesterId);
+    const team = await this.findInCompany(companyId, teamId);
+
+    const members = await this.teamsRepo.getMembers(team.id);
+    const infos = await Promise.all(members.map((member) => this.toMemberInfo(member)));
+    return infos.sort((a, b) => Number(b.isLead) - Number(a.isLead));
+  }
+
+  /**
+   * Add a company member to a team (owners, admins and the team's leads)
+   *
+   * Only owners and admins can add someone as a lead.
+   *
+   * @throws Error if the user is not a member of the company or already in the team
+   */
+  async addMember(companyId: string, requesterId: string, teamId: string, dto: AddTeamMemberDTO): Promise<TeamMemberInfo> {
+    const team = await this.findInCompany(companyId, teamId);
+    const role = await this.assertCanManageTeam(companyId, requesterId, team.id);
+
+    if (dto.isLead && !isManager(role)) {
+      throw new Error('Insufficient permissions');
+    }
+
+    if (!(await this.companiesRepo.getMember(companyId, dto.userId))) {
+      throw new Error('User is not a member of this company');
+    }
+
+    if (await this.teamsRepo.getMember(team.id, dto.userId)) {
+      throw new Error('User is already a member of this team');
+    }
+
+    const member = await this.teamsRepo.addMember({ teamId: team.id, userId: dto.userId, isLead: dto.isLead });
+
+    return this.toMemberInfo(member);
+  }
+
+  /**
+   * Make a team member a lead, or not (owners and admins)
+   */
+  async updateMember(
+    companyId: string,
+    requesterId: string,
+    teamId: string,
+    userId: string,
+    isLead: boolean
+  ): Promise<TeamMemberInfo> {
+    await this.assertCanManage(companyId, requesterId);
+    const team = await this.findInCompany(companyId, teamId);
+
+    const updated = await this.teamsRepo.updateMember(team.id, userId, { isLead });
+    if (!updated) {
+      throw new Error('Team member not found');
+    }
+
+    return this.toMemberInfo(updated);
+  }
+
+  /**
+   * Remove someone from a team (owners, admins, the team's leads, or the member themselves)
+   */
+  async removeMember(companyId: string, requesterId: string, teamId: string, userId: string): Promise<void> {
+    const team = await this.findInCompany(companyId, teamId);
+
+    if (userId === requesterId) {
+      await this.assertMember(companyId, requesterId);
+    } else {
+      await this.assertCanManageTeam(companyId, requesterId, team.id);
+    }
+
+    const removed = await this.teamsRepo.removeMember(team.id, userId);
+    if (!removed) {
+      throw new Error('Team member not found');
+    }
+  }
+
+  /**
+   * Load a team, hiding teams of other companies
+   */
+  private async findInCompany(companyId: string, teamId: string): Promise<Team> {
+    const team = await this.teamsRepo.findById(teamId);
+    if (!team || team.companyId !== companyId) {
+      throw new Error('Team not found');
+    }
+
+    return team;
+  }
+
+  /**
+   * Team names are unique within a company (case-insensitive)
+   */
+  private async assertNameAvailable(companyId: string, name: string): Promise<void> {
+    if (await this.teamsRepo.findByName(companyId, name)) {
+      throw new Error('Team name already exists');
+    }
+  }
+
+  /**
+   * Only company members see teams
+   */
+  private async assertMember(companyId: string, requesterId: string): Promise<void> {
+    const member = await this.companiesRepo.getMember(companyId, requesterId);
+    if (!member) {
+      throw new Error('Not a member of this company');
+    }
+  }
+
+  /**
+   * Only owners and admins create and delete teams and choose leads
+   */
+  private async assertCanManage(companyId: string, requesterId: string): Promise<void> {
+    const member = await this.companiesRepo.getMember(companyId, requesterId);
+    if (!member || !isManager(member.role)) {
+      throw new Error('Insufficient permissions');
+    }
+  }
+
+  /**
+   * Owners, admins and the team's leads manage a team; returns the requester's company role
+   */
+  private async assertCanManageTeam(companyId: string, requesterId: string, teamId: string): Promise<string> {
+    const member = await this.companiesRepo.getMember(companyId, requesterId);
+    if (!member) {
+      throw new Error('Insufficient permissions');
+    }
+
+    if (!isManager(member.role)) {
+      const teamMember = await this.teamsRepo.getMember(teamId, requesterId);
+      if (!teamMember?.isLead) {
+        throw new Error('Insufficient permissions');
+      }
+    }
+
+    return member.role;
+  }
+
+  /**
+   * Convert a team to its public view
+   */
+  private async toInfo(team: Team): Promise<TeamInfo> {
+    const members = await this.teamsRepo.getMembers(team.id);
+
+    return {
+      id: team.id,
+      companyId: team.companyId,
+      name: team.name,
+      description: team.description,
+      memberCount: members.length,
+      createdBy: team.createdBy,
+      createdAt: team.createdAt.toISOString(),
+      updatedAt: team.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Convert a team membership to its public view
+   */
+  private async toMemberInfo(member: TeamMember): Promise<TeamMemberInfo> {
+    const user = await this.usersRepo.findById(member.userId);
+
+    return {
+      userId: member.userId,
+      email: user?.email || '',
+      name: user?.name || null,
+      isLead: member.isLead,
+      addedAt: member.addedAt.toISOString(),
+    };
+  }
+}
+
+/**
+ * Whether a company role manages teams
+ */
+function isManager(role: string): boolean {
+  return role === 'owner' || role === 'admin';
+}
@@ -459,6 +459,145 @@ export class ComplianceService {
       );
   }
 
+  /**
+   * Move a user's email preferences to their new address (email change)
+   *
+   * Unsubscribe preferences and unsubscribe suppressions follow the user.
+   * Bounce and complaint suppressions describe the old mailbox and stay with it.
+   * Preferences the new address already has are kept.
+   */
+  async transferPreferences(fromAddress: string, toAddress: string): Promise<void> {
+    const from = this.normalizeEmail(fromAddress);
+    const to = this.normalizeEmail(toAddress);
+
+    logger.info({ from, to }, 'Transferring email preferences after an email change');
+
+    const preferences = await db.query.emailUnsubscribePreferences.findMany({
+      where: eq(emailUnsubscribePreferences.emailAddress, from),
+    });
+
+    for (const preference of preferences) {
+      const existing = await db.query.emailUnsubscribePreferences.findFirst({
+        where: and(
+          eq(emailUnsubscribePreferences.emailAddress, to),
+          eq(emailUnsubscribePreferences.category, preference.category)
+        ),
+      });
+
+      if (existing) {
+        await db.delete(emailUnsubscribePreferences).where(eq(emailUnsubscribePreferences.id, preference.id));
+        continue;
+      }
+
+      await db
+        .update(emailUnsubscribePreferences)
+        .set({ emailAddress: to, updatedAt: new Date() })
+        .where(eq(emailUnsubscribePreferences.id, preference.id));
+    }
+
+    const suppression = await db.query.emailSuppressions.findFirst({
+      where: and(eq(emailSuppressions.emailAddress, from), eq(emailSuppressions.reason, 'unsubscribe')),
+    });
+    const newAddressSuppression = await db.query.emailSuppressions.findFirst({
+      where: eq(emailSuppressions.emailAddress, to),
+    });
+
+    const moveSuppression = !!suppression && !newAddressSuppression;
+    if (moveSuppression) {
+      await db
+        .update(emailSuppressions)
+        .set({ emailAddress: to, updatedAt: new Date() })
+        .where(eq(emailSuppressions.id, suppression!.id));
+    }
+
+    await this.logComplianceEvent({
+      eventType: 'email_changed',
+      emailAddress: to,
+      eventData: { previousAddress: from, preferencesMoved: preferences.length, suppressionMoved: moveSuppression } as any,
+      occurredAt: new Date(),
+    });
+  }
+
+  /**
+   * Get the email data held about an address (GDPR data export)
+   *
+   * Email logs are returned without their rendered content.
+   */
+  async getPersonalData(emailAddress: string): Promise<{
+    emailLogs: Array<{
+      id: string;
+      templateName: string | null;
+      subject: string;
+      status: string;
+      sentAt: Date | null;
+      createdAt: Date;
+    }>;
+    unsubscribePreferences: EmailUnsubscribePreference[];
+  }> {
+    const normalized = this.normalizeEmail(emailAddress);
+
+    const logs = await db
+      .select({
+        id: emailLogs.id,
+        templateName: emailLogs.templateName,
+        subject: emailLogs.subject,
+        status: emailLogs.status,
+        sentAt: emailLogs.sentAt,
+        createdAt: emailLogs.createdAt,
+      })
+      .from(emailLogs)
+      .where(eq(emailLogs.toAddress, normalized));
+
+    const unsubscribePreferences = await db.query.emailUnsubscribePreferences.findMany({
+      where: eq(emailUnsubscribePreferences.emailAddress, normalized),
+    });
+
+    return { emailLogs: logs, unsubscribePreferences };
+  }
+
+  /**
+   * Erase the email data held about an address (GDPR erasure)
+   *
+   * Email logs are kept for delivery statistics but pseudonymized: the address
+   * is replaced and rendered content, template data and metadata are removed.
+   * Unsubscribe preferences are deleted. Suppressions are kept so a bounced or
+   * complaining address is never mailed again.
+   *
+   * @param emailAddress - Address being erased
+   * @param pseudonym - Address written to the email logs instead
+   * @returns Number of pseudonymized logs and deleted preferences
+   */
+  async erasePersonalData(
+    emailAddress: string,
+    pseudonym: string
+  ): Promise<{ emailLogsPseudonymized: number; unsubscribePreferencesRemoved: number }> {
+    const normalized = this.normalizeEmail(emailAddress);
+
+    logger.info({ pseudonym }, 'Erasing email data');
+
+    const pseudonymized = await db
+      .update(emailLogs)
+      .set({ toAddress: pseudonym, htmlContent: null, templateData: null, metadata: null })
+      .where(eq(emailLogs.toAddress, normalized))
+      .returning({ id: emailLogs.id });
+
+    const removed = await db
+      .delete(emailUnsubscribePreferences)
+      .where(eq(emailUnsubscribePreferences.emailAddress, normalized))
+      .returning({ id: emailUnsubscribePreferences.id });
+
+    const result = { emailLogsPseudonymized: pseudonymized.length, unsubscribePreferencesRemoved: removed.length };
+
+    await this.logComplianceEvent({
+      eventType: 'account_erased',
+      emailAddress: pseudonym,
+      eventData: result as any,
+      occurredAt: new Date(),
+    });
+
+    return result;
+  }
+
   /**
    * Log a compliance event for audit trail
    */
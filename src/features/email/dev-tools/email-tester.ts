@@ -30,6 +30,12 @@ const AVAILABLE_TEMPLATES = [
   'team-invitation',
   'user-level-assignment',
   'permission-changes',
+  'magic-link',
+  'account-locked',
+  'security-alert',
+  'email-change-confirmation',
+  'email-change-notice',
+  'ownership-transfer',
 ];
 
 interface TestEmailConfig {
@@ -111,6 +117,47 @@ function loadSampleData(templateName: string): Record<string, any> | null {
       permissionsAdded: ['Create projects', 'Manage billing'],
       permissionsRemoved: ['Delete users'],
     },
+    'magic-link': {
+      userName: 'Test User',
+      loginUrl: 'https://app.example.com/magic-link?token=test123',
+      expiryMinutes: 15,
+      companyName: 'Test Company',
+    },
+    'account-locked': {
+      userName: 'Test User',
+      unlockUrl: 'https://app.example.com/unlock-account?token=test123',
+      lockMinutes: 15,
+      companyName: 'Test Company',
+    },
+    'security-alert': {
+      userName: 'Test User',
+      signInTime: 'Oct 19, 2026, 12:00 PM UTC',
+      device: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) Chrome/130.0',
+      ipAddress: '203.0.113.42',
+      securityUrl: 'https://app.example.com/settings/security',
+      companyName: 'Test Company',
+    },
+    'email-change-confirmation': {
+      userName: 'Test User',
+      newEmail: 'new-address@example.com',
+      confirmUrl: 'https://app.example.com/confirm-email-change?token=test123',
+      expiryHours: 24,
+      companyName: 'Test Company',
+    },
+    'email-change-notice': {
+      userName: 'Test User',
+      newEmail: 'new-address@example.com',
+      revertUrl: 'https://app.example.com/revert-email-change?token=test123',
+      expiryDays: 7,
+      companyName: 'Test Company',
+    },
+    'ownership-transfer': {
+      recipientName: 'Test User',
+      ownerName: 'Olivia Owner',
+      companyName: 'Test Company',
+      confirmUrl: 'https://app.example.com/confirm-ownership-transfer?token=test123',
+      expiryDays: 3,
+    },
   };
 
   return fallbackData[templateName] || {};
@@ -309,6 +309,90 @@ export class TemplateService {
           { name: 'appName', type: 'string', required: false },
         ],
       },
+      'magic-link': {
+        name: 'magic-link',
+        displayName: 'Magic Sign-in Link',
+        description: 'Sent when a user requests a passwordless sign-in link',
+        category: 'auth',
+        subjectTemplate: 'Your {{companyName}} sign-in link',
+        variables: [
+          { name: 'userName', type: 'string', required: true },
+          { name: 'loginUrl', type: 'url', required: true },
+          { name: 'expiryMinutes', type: 'number', required: false },
+          { name: 'companyName', type: 'string', required: false },
+        ],
+      },
+      'account-locked': {
+        name: 'account-locked',
+        displayName: 'Account Locked',
+        description: 'Sent when an account is locked after repeated failed sign-in attempts',
+        category: 'auth',
+        subjectTemplate: 'Your {{companyName}} account has been locked',
+        variables: [
+          { name: 'userName', type: 'string', required: true },
+          { name: 'unlockUrl', type: 'url', required: true },
+          { name: 'lockMinutes', type: 'number', required: false },
+          { name: 'companyName', type: 'string', required: false },
+        ],
+      },
+      'security-alert': {
+        name: 'security-alert',
+        displayName: 'Security Alert',
+        description: 'Sent when an account is signed in to from a new device',
+        category: 'auth',
+        subjectTemplate: 'New sign-in to your {{companyName}} account',
+        variables: [
+          { name: 'userName', type: 'string', required: true },
+          { name: 'signInTime', type: 'string', required: true },
+          { name: 'device', type: 'string', required: false },
+          { name: 'ipAddress', type: 'string', required: false },
+          { name: 'securityUrl', type: 'url', required: true },
+          { name: 'companyName', type: 'string', required: false },
+        ],
+      },
+      'email-change-confirmation': {
+        name: 'email-change-confirmation',
+        displayName: 'Email Change Confirmation',
+        description: 'Sent to the new address to confirm an email change',
+        category: 'auth',
+        subjectTemplate: 'Confirm your new {{companyName}} email address',
+        variables: [
+          { name: 'userName', type: 'string', required: true },
+          { name: 'newEmail', type: 'string', required: true },
+          { name: 'confirmUrl', type: 'url', required: true },
+          { name: 'expiryHours', type: 'number', required: false },
+          { name: 'companyName', type: 'string', required: false },
+        ],
+      },
+      'email-change-notice': {
+        name: 'email-change-notice',
+        displayName: 'Email Change Notice',
+        description: 'Sent to the old address when an email change is requested, with a revert link',
+        category: 'auth',
+        subjectTemplate: 'Your {{companyName}} email address is being changed',
+        variables: [
+          { name: 'userName', type: 'string', required: true },
+          { name: 'newEmail', type: 'string', required: true },
+          { name: 'revertUrl', type: 'url', required: true },
+          { name: 'expiryDays', type: 'number', required: false },
+          { name: 'companyName', type: 'string', required: false },
+        ],
+      },
+      'ownership-transfer': {
+        name: 'ownership-transfer',
+        displayName: 'Ownership Transfer',
+        description: 'Sent to a member asked to take over ownership of a company',
+        category: 'iam',
+        subjectTemplate: 'Confirm you are taking over ownership of {{companyName}}',
+        variables: [
+          { name: 'recipientName', type: 'string', required: true },
+          { name: 'ownerName', type: 'string', required: true },
+          { name: 'companyName', type: 'string', required: true },
+          { name: 'confirmUrl', type: 'url', required: true },
+          { name: 'expiryDays', type: 'number', required: false },
+          { name: 'appName', type: 'string', required: false },
+        ],
+      },
     };
 
     const metadata = metadataMap[templateName];
@@ -0,0 +1,142 @@
+import React from 'react';
+import {
+  Html,
+  Head,
+  Preview,
+  Body,
+  Container,
+  Section,
+  Text,
+  Button,
+  Hr,
+  CodeInline,
+} from '@react-email/components';
+
+interface AccountLockedEmailProps {
+  userName: string;
+  unlockUrl: string;
+  lockMinutes?: number;
+  companyName?: string;
+}
+
+export const AccountLockedEmail = ({
+  userName,
+  unlockUrl,
+  lockMinutes = 15,
+  companyName = 'Vertical Vibing',
+}: AccountLockedEmailProps) => {
+  return (
+    <Html>
+      <Head />
+      <Preview>Your {companyName} account has been locked</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          <Section style={content}>
+            <Text style={heading}>Account Temporarily Locked</Text>
+            <Text style={paragraph}>Hi {userName},</Text>
+            <Text style={paragraph}>
+              We locked your {companyName} account after several failed sign-in attempts. It will unlock automatically
+              in {lockMinutes} minutes.
+            </Text>
+            <Text style={paragraph}>
+              If these attempts were yours, you can unlock your account now with the button below.
+            </Text>
+            <Section style={buttonContainer}>
+              <Button style={button} href={unlockUrl}>
+                Unlock Account
+              </Button>
+            </Section>
+            <Text style={paragraph}>
+              Or copy and paste this URL into your browser:
+            </Text>
+            <CodeInline style={code}>{unlockUrl}</CodeInline>
+            <Hr style={hr} />
+            <Text style={footer}>
+              If you didn't try to sign in, someone may be guessing your password. We recommend changing it once your
+              account is unlocked and enabling two-factor authentication.
+            </Text>
+            <Text style={footer}>
+              © {new Date().getFullYear()} {companyName}. All rights reserved.
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+};
+
+export default AccountLockedEmail;
+
+// Styles
+const main = {
+  backgroundColor: '#f6f9fc',
+  fontFamily: '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container = {
+  backgroundColor: '#ffffff',
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  marginBottom: '64px',
+};
+
+const content = {
+  padding: '0 48px',
+};
+
+const heading = {
+  fontSize: '32px',
+  lineHeight: '1.3',
+  fontWeight: '700',
+  color: '#484848',
+  marginBottom: '24px',
+};
+
+const paragraph = {
+  fontSize: '16px',
+  lineHeight: '1.4',
+  color: '#484848',
+  marginBottom: '16px',
+};
+
+const buttonContainer = {
+  padding: '27px 0 27px',
+};
+
+const button = {
+  backgroundColor: '#5469d4',
+  borderRadius: '5px',
+  color: '#fff',
+  fontSize: '16px',
+  fontWeight: 'bold',
+  textDecoration: 'none',
+  textAlign: 'center' as const,
+  display: 'block',
+  width: '100%',
+  padding: '12px',
+};
+
+const code = {
+  display: 'inline-block',
+  padding: '12px 16px',
+  backgroundColor: '#f4f4f4',
+  borderRadius: '5px',
+  border: '1px solid #e1e1e1',
+  color: '#333',
+  fontSize: '14px',
+  wordBreak: 'break-all' as const,
+  marginTop: '8px',
+  marginBottom: '16px',
+};
+
+const hr = {
+  borderColor: '#e6ebf1',
+  margin: '20px 0',
+};
+
+const footer = {
+  color: '#8898aa',
+  fontSize: '12px',
+  lineHeight: '16px',
+  marginTop: '12px',
+};
@@ -0,0 +1,146 @@
+import React from 'react';
+import {
+  Html,
+  Head,
+  Preview,
+  Body,
+  Container,
+  Section,
+  Text,
+  Button,
+  Hr,
+  CodeInline,
+} from '@react-email/components';
+
+interface EmailChangeNoticeEmailProps {
+  userName: string;
+  newEmail: string;
+  revertUrl: string;
+  expiryDays?: number;
+  companyName?: string;
+}
+
+export const EmailChangeNoticeEmail = ({
+  userName,
+  newEmail,
+  revertUrl,
+  expiryDays = 7,
+  companyName = 'Vertical Vibing',
+}: EmailChangeNoticeEmailProps) => {
+  return (
+    <Html>
+      <Head />
+      <Preview>Your {companyName} email address is being changed</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          <Section style={content}>
+            <Text style={heading}>Email Address Change Requested</Text>
+            <Text style={paragraph}>Hi {userName},</Text>
+            <Text style={paragraph}>
+              Someone asked to change the email address of your {companyName} account to {newEmail}. The change takes
+              effect once it is confirmed from the new address.
+            </Text>
+            <Text style={paragraph}>
+              If this was you, there's nothing else to do. If it wasn't, keep this address on your account with the
+              button below. It cancels the change (or undoes it if it was already confirmed) and signs your account out
+              on every device. The link works for {expiryDays} days.
+            </Text>
+            <Section style={buttonContainer}>
+              <Button style={button} href={revertUrl}>
+                Keep This Address
+              </Button>
+            </Section>
+            <Text style={paragraph}>
+              Or copy and paste this URL into your browser:
+            </Text>
+            <CodeInline style={code}>{revertUrl}</CodeInline>
+            <Hr style={hr} />
+            <Text style={footer}>
+              If you didn't request this change, we also recommend resetting your password and enabling two-factor
+              authentication.
+            </Text>
+            <Text style={footer}>
+              © {new Date().getFullYear()} {companyName}. All rights reserved.
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+};
+
+export default EmailChangeNoticeEmail;
+
+// Styles
+const main = {
+  backgroundColor: '#f6f9fc',
+  fontFamily: '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container = {
+  backgroundColor: '#ffffff',
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  marginBottom: '64px',
+};
+
+const content = {
+  padding: '0 48px',
+};
+
+const heading = {
+  fontSize: '32px',
+  lineHeight: '1.3',
+  fontWeight: '700',
+  color: '#484848',
+  marginBottom: '24px',
+};
+
+const paragraph = {
+  fontSize: '16px',
+  lineHeight: '1.4',
+  color: '#484848',
+  marginBottom: '16px',
+};
+
+const buttonContainer = {
+  padding: '27px 0 27px',
+};
+
+const button = {
+  backgroundColor: '#5469d4',
+  borderRadius: '5px',
+  color: '#fff',
+  fontSize: '16px',
+  fontWeight: 'bold',
+  textDecoration: 'none',
+  textAlign: 'center' as const,
+  display: 'block',
+  width: '100%',
+  padding: '12px',
+};
+
+const code = {
+  display: 'inline-block',
+  padding: '12px 16px',
+  backgroundColor: '#f4f4f4',
+  borderRadius: '5px',
+  border: '1px solid #e1e1e1',
+  color: '#333',
+  fontSize: '14px',
+  wordBreak: 'break-all' as const,
+  marginTop: '8px',
+  marginBottom: '16px',
+};
+
+const hr = {
+  borderColor: '#e6ebf1',
+  margin: '20px 0',
+};
+
+const footer = {
+  color: '#8898aa',
+  fontSize: '12px',
+  lineHeight: '16px',
+  marginTop: '12px',
+};
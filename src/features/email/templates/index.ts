@@ -12,6 +12,15 @@ export { EmailVerificationEmail, default as EmailVerificationEmailComponent } fr
 export { TeamInvitationEmail, default as TeamInvitationEmailComponent } from './team-invitation';
 export { UserLevelAssignmentEmail, default as UserLevelAssignmentEmailComponent } from './user-level-assignment';
 export { PermissionChangesEmail, default as PermissionChangesEmailComponent } from './permission-changes';
+export { MagicLinkEmail, default as MagicLinkEmailComponent } from './magic-link';
+export { AccountLockedEmail, default as AccountLockedEmailComponent } from './account-locked';
+export { SecurityAlertEmail, default as SecurityAlertEmailComponent } from './security-alert';
+export {
+  EmailChangeConfirmationEmail,
+  default as EmailChangeConfirmationEmailComponent,
+} from './email-change-confirmation';
+export { EmailChangeNoticeEmail, default as EmailChangeNoticeEmailComponent } from './email-change-notice';
+export { OwnershipTransferEmail, default as OwnershipTransferEmailComponent } from './ownership-transfer';
 
 /**
  * Template registry for dynamic template loading
@@ -23,6 +32,12 @@ export const EMAIL_TEMPLATES = {
   'team-invitation': () => import('./team-invitation'),
   'user-level-assignment': () => import('./user-level-assignment'),
   'permission-changes': () => import('./permission-changes'),
+  'magic-link': () => import('./magic-link'),
+  'account-locked': () => import('./account-locked'),
+  'security-alert': () => import('./security-alert'),
+  'email-change-confirmation': () => import('./email-change-confirmation'),
+  'email-change-notice': () => import('./email-change-notice'),
+  'ownership-transfer': () => import('./ownership-transfer'),
 } as const;
 
 export type TemplateKey = keyof typeof EMAIL_TEMPLATES;
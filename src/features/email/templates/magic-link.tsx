@@ -0,0 +1,139 @@
+import React from 'react';
+import {
+  Html,
+  Head,
+  Preview,
+  Body,
+  Container,
+  Section,
+  Text,
+  Button,
+  Hr,
+  CodeInline,
+} from '@react-email/components';
+
+interface MagicLinkEmailProps {
+  userName: string;
+  loginUrl: string;
+  expiryMinutes?: number;
+  companyName?: string;
+}
+
+export const MagicLinkEmail = ({
+  userName,
+  loginUrl,
+  expiryMinutes = 15,
+  companyName = 'Vertical Vibing',
+}: MagicLinkEmailProps) => {
+  return (
+    <Html>
+      <Head />
+      <Preview>Your {companyName} sign-in link</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          <Section style={content}>
+            <Text style={heading}>Sign in to {companyName}</Text>
+            <Text style={paragraph}>Hi {userName},</Text>
+            <Text style={paragraph}>
+              We received a request to sign in to your {companyName} account with this email address. Click the button
+              below to sign in. This link will expire in {expiryMinutes} minutes and can only be used once.
+            </Text>
+            <Section style={buttonContainer}>
+              <Button style={button} href={loginUrl}>
+                Sign In
+              </Button>
+            </Section>
+            <Text style={paragraph}>
+              Or copy and paste this URL into your browser:
+            </Text>
+            <CodeInline style={code}>{loginUrl}</CodeInline>
+            <Hr style={hr} />
+            <Text style={footer}>
+              If you didn't request this link, you can safely ignore this email. Never forward it: anyone with the link
+              can sign in to your account.
+            </Text>
+            <Text style={footer}>
+              © {new Date().getFullYear()} {companyName}. All rights reserved.
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+};
+
+export default MagicLinkEmail;
+
+// Styles
+const main = {
+  backgroundColor: '#f6f9fc',
+  fontFamily: '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container = {
+  backgroundColor: '#ffffff',
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  marginBottom: '64px',
+};
+
+const content = {
+  padding: '0 48px',
+};
+
+const heading = {
+  fontSize: '32px',
+  lineHeight: '1.3',
+  fontWeight: '700',
+  color: '#484848',
+  marginBottom: '24px',
+};
+
+const paragraph = {
+  fontSize: '16px',
+  lineHeight: '1.4',
+  color: '#484848',
+  marginBottom: '16px',
+};
+
+const buttonContainer = {
+  padding: '27px 0 27px',
+};
+
+const button = {
+  backgroundColor: '#5469d4',
+  borderRadius: '5px',
+  color: '#fff',
+  fontSize: '16px',
+  fontWeight: 'bold',
+  textDecoration: 'none',
+  textAlign: 'center' as const,
+  display: 'block',
+  width: '100%',
+  padding: '12px',
+};
+
+const code = {
+  display: 'inline-block',
+  padding: '12px 16px',
+  backgroundColor: '#f4f4f4',
+  borderRadius: '5px',
+  border: '1px solid #e1e1e1',
+  color: '#333',
+  fontSize: '14px',
+  wordBreak: 'break-all' as const,
+  marginTop: '8px',
+  marginBottom: '16px',
+};
+
+const hr = {
+  borderColor: '#e6ebf1',
+  margin: '20px 0',
+};
+
+const footer = {
+  color: '#8898aa',
+  fontSize: '12px',
+  lineHeight: '16px',
+  marginTop: '12px',
+};
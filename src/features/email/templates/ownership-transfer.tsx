@@ -0,0 +1,143 @@
+import React from 'react';
+import {
+  Html,
+  Head,
+  Preview,
+  Body,
+  Container,
+  Section,
+  Text,
+  Button,
+  Hr,
+  CodeInline,
+} from '@react-email/components';
+
+interface OwnershipTransferEmailProps {
+  recipientName: string;
+  ownerName: string;
+  companyName: string;
+  confirmUrl: string;
+  expiryDays?: number;
+  appName?: string;
+}
+
+export const OwnershipTransferEmail = ({
+  recipientName,
+  ownerName,
+  companyName,
+  confirmUrl,
+  expiryDays = 3,
+  appName = 'Vertical Vibing',
+}: OwnershipTransferEmailProps) => {
+  return (
+    <Html>
+      <Head />
+      <Preview>{ownerName} wants to make you the owner of {companyName}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          <Section style={content}>
+            <Text style={heading}>Confirm Ownership Transfer</Text>
+            <Text style={paragraph}>Hi {recipientName},</Text>
+            <Text style={paragraph}>
+              <strong>{ownerName}</strong> wants to hand over ownership of <strong>{companyName}</strong> on {appName}{' '}
+              to you. Once you confirm, you become an owner and {ownerName} becomes an admin. This link will expire in{' '}
+              {expiryDays} days.
+            </Text>
+            <Section style={buttonContainer}>
+              <Button style={button} href={confirmUrl}>
+                Become Owner
+              </Button>
+            </Section>
+            <Text style={paragraph}>
+              Or copy and paste this URL into your browser:
+            </Text>
+            <CodeInline style={code}>{confirmUrl}</CodeInline>
+            <Hr style={hr} />
+            <Text style={footer}>
+              If you don't want to own {companyName}, you can decline from the same page or ignore this email.
+            </Text>
+            <Text style={footer}>
+              © {new Date().getFullYear()} {appName}. All rights reserved.
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+};
+
+export default OwnershipTransferEmail;
+
+// Styles
+const main = {
+  backgroundColor: '#f6f9fc',
+  fontFamily: '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container = {
+  backgroundColor: '#ffffff',
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  marginBottom: '64px',
+};
+
+const content = {
+  padding: '0 48px',
+};
+
+const heading = {
+  fontSize: '32px',
+  lineHeight: '1.3',
+  fontWeight: '700',
+  color: '#484848',
+  marginBottom: '24px',
+};
+
+const paragraph = {
+  fontSize: '16px',
+  lineHeight: '1.4',
+  color: '#484848',
+  marginBottom: '16px',
+};
+
+const buttonContainer = {
+  padding: '27px 0 27px',
+};
+
+const button = {
+  backgroundColor: '#5469d4',
+  borderRadius: '5px',
+  color: '#fff',
+  fontSize: '16px',
+  fontWeight: 'bold',
+  textDecoration: 'none',
+  textAlign: 'center' as const,
+  display: 'block',
+  width: '100%',
+  padding: '12px',
+};
+
+const code = {
+  display: 'inline-block',
+  padding: '12px 16px',
+  backgroundColor: '#f4f4f4',
+  borderRadius: '5px',
+  border: '1px solid #e1e1e1',
+  color: '#333',
+  fontSize: '14px',
+  wordBreak: 'break-all' as const,
+  marginTop: '8px',
+  marginBottom: '16px',
+};
+
+const hr = {
+  borderColor: '#e6ebf1',
+  margin: '20px 0',
+};
+
+const footer = {
+  color: '#8898aa',
+  fontSize: '12px',
+  lineHeight: '16px',
+  marginTop: '12px',
+};
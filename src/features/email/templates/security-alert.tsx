@@ -0,0 +1,154 @@
+import React from 'react';
+import {
+  Html,
+  Head,
+  Preview,
+  Body,
+  Container,
+  Section,
+  Text,
+  Button,
+  Hr,
+} from '@react-email/components';
+
+interface SecurityAlertEmailProps {
+  userName: string;
+  signInTime: string;
+  device?: string;
+  ipAddress?: string;
+  securityUrl: string;
+  companyName?: string;
+}
+
+export const SecurityAlertEmail = ({
+  userName,
+  signInTime,
+  device = 'Unknown device',
+  ipAddress = 'Unknown',
+  securityUrl,
+  companyName = 'Vertical Vibing',
+}: SecurityAlertEmailProps) => {
+  return (
+    <Html>
+      <Head />
+      <Preview>New sign-in to your {companyName} account</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          <Section style={content}>
+            <Text style={heading}>New Sign-in Detected</Text>
+            <Text style={paragraph}>Hi {userName},</Text>
+            <Text style={paragraph}>
+              Your {companyName} account was just signed in to from a device we haven't seen before.
+            </Text>
+            <Section style={detailsBox}>
+              <Text style={detailsText}>
+                <strong>Time:</strong> {signInTime}
+              </Text>
+              <Text style={detailsText}>
+                <strong>Device:</strong> {device}
+              </Text>
+              <Text style={detailsText}>
+                <strong>IP address:</strong> {ipAddress}
+              </Text>
+            </Section>
+            <Text style={paragraph}>
+              If this was you, there's nothing else to do. If it wasn't, change your password right away and sign out
+              the devices you don't recognise.
+            </Text>
+            <Section style={buttonContainer}>
+              <Button style={button} href={securityUrl}>
+                Review Account Activity
+              </Button>
+            </Section>
+            <Hr style={hr} />
+            <Text style={footer}>
+              We send this notice whenever your account is used on a new device. We recommend enabling two-factor
+              authentication to keep your account safe.
+            </Text>
+            <Text style={footer}>
+              © {new Date().getFullYear()} {companyName}. All rights reserved.
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+};
+
+export default SecurityAlertEmail;
+
+// Styles
+const main = {
+  backgroundColor: '#f6f9fc',
+  fontFamily: '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container = {
+  backgroundColor: '#ffffff',
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  marginBottom: '64px',
+};
+
+const content = {
+  padding: '0 48px',
+};
+
+const heading = {
+  fontSize: '32px',
+  lineHeight: '1.3',
+  fontWeight: '700',
+  color: '#484848',
+  marginBottom: '24px',
+};
+
+const paragraph = {
+  fontSize: '16px',
+  lineHeight: '1.4',
+  color: '#484848',
+  marginBottom: '16px',
+};
+
+const detailsBox = {
+  backgroundColor: '#f4f4f4',
+  borderRadius: '5px',
+  border: '1px solid #e1e1e1',
+  padding: '12px 16px',
+  marginBottom: '16px',
+};
+
+const detailsText = {
+  fontSize: '14px',
+  lineHeight: '1.4',
+  color: '#333',
+  margin: '4px 0',
+};
+
+const buttonContainer = {
+  padding: '27px 0 27px',
+};
+
+const button = {
+  backgroundColor: '#5469d4',
+  borderRadius: '5px',
+  color: '#fff',
+  fontSize: '16px',
+  fontWeight: 'bold',
+  textDecoration: 'none',
+  textAlign: 'center' as const,
+  display: 'block',
+  width: '100%',
+  padding: '12px',
+};
+
+const hr = {
+  borderColor: '#e6ebf1',
+  margin: '20px 0',
+};
+
+const footer = {
+  color: '#8898aa',
+  fontSize: '12px',
+  lineHeight: '16px',
+  marginTop: '12px',
+};
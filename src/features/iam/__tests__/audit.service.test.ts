@@ -5,6 +5,11 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { auditService } from '../audit.service';
 
+// Actor types are resolved against the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
 describe('Audit Service', () => {
   let consoleLogSpy: any;
 
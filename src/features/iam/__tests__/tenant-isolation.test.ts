@@ -0,0 +1,136 @@
+/**
+ * IAM Tenant Isolation Tests
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createIAMRouter } from '../iam.route';
+import { enforceTenant } from '../../../shared/middleware/tenantValidation';
+import { generateToken } from '../../../shared/utils/jwt';
+import { db } from '../../../shared/db/client';
+
+// Companies and members live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+// IAM tables are PostgreSQL-only in the app; use the in-memory implementation
+vi.mock('../../../shared/db/repositories/iam.repository', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../shared/db/repositories/iam.repository')>();
+  const iamDb = new actual.InMemoryIAMDatabase();
+  return { ...actual, iamDb, getIAMDb: () => iamDb };
+});
+
+describe('IAM tenant isolation', () => {
+  const router = createIAMRouter();
+  let server: Server;
+  let baseUrl: string;
+  let userId: string;
+  let companyId: string;
+  let otherCompanyId: string;
+  let token: string;
+  let consoleErrorSpy: any;
+
+  /**
+   * Every route of the IAM router guarded by enforceTenant
+   */
+  const tenantRoutes = router.stack
+    .filter((layer: any) => layer.route?.stack.some((handler: any) => handler.handle === enforceTenant))
+    .flatMap((layer: any) =>
+      Object.keys(layer.route.methods).map((method) => ({ method: method.toUpperCase(), path: layer.route.path as string }))
+    );
+
+  /**
+   * Create a company, optionally with the user as a member
+   */
+  const createCompany = async (memberId?: string): Promise<string> => {
+    const id = crypto.randomUUID();
+    await db.companies.create({
+      id,
+      name: 'Tenant Co',
+      slug: `tenant-${id}`,
+      status: 'active',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    if (memberId) {
+      await db.companyMembers.create({ id: crypto.randomUUID(), companyId: id, userId: memberId, role: 'owner', joinedAt: new Date() });
+    }
+    return id;
+  };
+
+  /**
+   * Call an IAM route (route parameters are filled with random IDs)
+   */
+  const call = async (method: string, path: string, headers: Record<string, string> = {}) => {
+    const url = baseUrl + path.replace(/:\w+/g, () => crypto.randomUUID());
+    const response = await fetch(url, {
+      method,
+      headers: { authorization: `Bearer ${token}`, 'content-type': 'application/json', ...headers },
+      body: method === 'GET' ? undefined : JSON.stringify({ companyId }),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/iam', router);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/iam`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    userId = crypto.randomUUID();
+    companyId = await createCompany(userId);
+    otherCompanyId = await createCompany();
+    token = generateToken({ userId, email: `${userId}@example.com`, authProvider: 'inhouse' });
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should guard the tenant-scoped IAM routes', () => {
+    expect(tenantRoutes.length).toBeGreaterThanOrEqual(13);
+  });
+
+  it('should refuse every tenant-scoped route for a company the user is not a member of', async () => {
+    for (const { method, path } of tenantRoutes) {
+      const { status, body } = await call(method, path, { 'x-company-id': otherCompanyId });
+
+      expect({ method, path, status, code: body.code }).toEqual({ method, path, status: 403, code: 'ERR_AUTH_003' });
+    }
+  });
+
+  it('should not take the company from the query string or body', async () => {
+    for (const { method, path } of tenantRoutes) {
+      const { status } = await call(method, `${path}?companyId=${companyId}`);
+
+      expect({ method, path, status }).toEqual({ method, path, status: 400 });
+    }
+  });
+
+  it('should refuse a header that contradicts the token company claim', async () => {
+    token = generateToken({ userId, email: `${userId}@example.com`, authProvider: 'inhouse', companyId });
+
+    const { status, body } = await call('GET', '/permissions/current', { 'x-company-id': otherCompanyId });
+
+    expect(status).toBe(403);
+    expect(body.code).toBe('ERR_AUTH_003');
+  });
+
+  it('should serve members of the requested company', async () => {
+    const { status } = await call('GET', '/permissions/current', { 'x-company-id': companyId });
+
+    expect(status).toBe(200);
+  });
+});
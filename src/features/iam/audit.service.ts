@@ -1,16 +1,25 @@
 /**
  * IAM Audit Service
  *
- * Tracks and logs all IAM-related changes for compliance and debugging
+ * Tracks and logs all IAM-related changes for compliance and debugging.
+ * Changes made with a service account token are recorded with
+ * `actorType: 'service_account'` (the account ID is the `userId`).
  */
 
+/**
+ * Who made a change: a user ID, or the authenticated caller (`req.user`),
+ * whose `serviceAccountId` marks changes made with a service account token
+ */
+export type AuditActor = string | { userId: string; serviceAccountId?: string };
+
 interface AuditLog {
   id: string;
   timestamp: string;
   companyId: string;
   userId: string;
+  actorType: 'user' | 'service_account';
   action: string;
-  entityType: 'user-level' | 'permission' | 'assignment' | 'view' | 'feature';
+  entityType: 'user-level' | 'permission' | 'assignment' | 'view' | 'feature' | 'service-account' | 'membership';
   entityId: string;
   changes?: Record<string, any>;
   metadata?: Record<string, any>;
@@ -24,16 +33,15 @@ class AuditService {
    * Log a user level creation
    */
   async logUserLevelCreated(
-    userId: string,
+    actor: AuditActor,
     companyId: string,
     userLevelId: string,
     data: { name: string; description?: string }
   ): Promise<void> {
-    this.addLog({
+    await this.addLog(actor, {
       id: crypto.randomUUID(),
       timestamp: new Date().toISOString(),
       companyId,
-      userId,
       action: 'user_level.created',
       entityType: 'user-level',
       entityId: userLevelId,
@@ -45,16 +53,15 @@ class AuditService {
    * Log a user level update
    */
   async logUserLevelUpdated(
-    userId: string,
+    actor: AuditActor,
     companyId: string,
     userLevelId: string,
     changes: Record<string, any>
   ): Promise<void> {
-    this.addLog({
+    await this.addLog(actor, {
       id: crypto.randomUUID(),
       timestamp: new Date().toISOString(),
       companyId,
-      userId,
       action: 'user_level.updated',
       entityType: 'user-level',
       entityId: userLevelId,
@@ -66,16 +73,15 @@ class AuditService {
    * Log a user level deletion
    */
   async logUserLevelDeleted(
-    userId: string,
+    actor: AuditActor,
     companyId: string,
     userLevelId: string,
     metadata?: Record<string, any>
   ): Promise<void> {
-    this.addLog({
+    await this.addLog(actor, {
       id: crypto.randomUUID(),
       timestamp: new Date().toISOString(),
       companyId,
-      userId,
       action: 'user_level.deleted',
       entityType: 'user-level',
       entityId: userLevelId,
@@ -87,16 +93,15 @@ class AuditService {
    * Log view permissions update
    */
   async logViewPermissionsUpdated(
-    userId: string,
+    actor: AuditActor,
     companyId: string,
     userLevelId: string,
     permissions: any[]
   ): Promise<void> {
-    this.addLog({
+    await this.addLog(actor, {
       id: crypto.randomUUID(),
       timestamp: new Date().toISOString(),
       companyId,
-      userId,
       action: 'permissions.views_updated',
       entityType: 'permission',
       entityId: userLevelId,
@@ -114,16 +119,15 @@ class AuditService {
    * Log feature permissions update
    */
   async logFeaturePermissionsUpdated(
-    userId: string,
+    actor: AuditActor,
     companyId: string,
     userLevelId: string,
     permissions: any[]
   ): Promise<void> {
-    this.addLog({
+    await this.addLog(actor, {
       id: crypto.randomUUID(),
       timestamp: new Date().toISOString(),
       companyId,
-      userId,
       action: 'permissions.features_updated',
       entityType: 'permission',
       entityId: userLevelId,
@@ -140,17 +144,16 @@ class AuditService {
    * Log user-level assignment changes
    */
   async logUserLevelsAssigned(
-    userId: string,
+    actor: AuditActor,
     companyId: string,
     targetUserId: string,
     userLevelIds: string[],
     previousLevelIds?: string[]
   ): Promise<void> {
-    this.addLog({
+    await this.addLog(actor, {
       id: crypto.randomUUID(),
       timestamp: new Date().toISOString(),
       companyId,
-      userId,
       action: 'assignment.user_levels_updated',
       entityType: 'assignment',
       entityId: targetUserId,
@@ -163,6 +166,55 @@ class AuditService {
     });
   }
 
+  /**
+   * Log a service account change (created, updated, secret_rotated, deleted)
+   */
+  async logServiceAccountEvent(
+    actor: AuditActor,
+    companyId: string,
+    serviceAccountId: string,
+    event: 'created' | 'updated' | 'secret_rotated' | 'deleted',
+    changes?: Record<string, any>
+  ): Promise<void> {
+    await this.addLog(actor, {
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      companyId,
+      action: `service_account.${event}`,
+      entityType: 'service-account',
+      entityId: serviceAccountId,
+      changes,
+    });
+  }
+
+  /**
+   * Log a company membership change (role_changed, removed, ownership_transfer_requested,
+   * ownership_transfer_cancelled, ownership_transfer_declined, ownership_transferred)
+   */
+  async logMembershipEvent(
+    actor: AuditActor,
+    companyId: string,
+    targetUserId: string,
+    event:
+      | 'role_changed'
+      | 'removed'
+      | 'ownership_transfer_requested'
+      | 'ownership_transfer_cancelled'
+      | 'ownership_transfer_declined'
+      | 'ownership_transferred',
+    changes?: Record<string, any>
+  ): Promise<void> {
+    await this.addLog(actor, {
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      companyId,
+      action: `membership.${event}`,
+      entityType: 'membership',
+      entityId: targetUserId,
+      changes,
+    });
+  }
+
   /**
    * Get audit logs for a company
    */
@@ -172,6 +224,7 @@ class AuditService {
       limit?: number;
       offset?: number;
       entityType?: AuditLog['entityType'];
+      actorType?: AuditLog['actorType'];
       action?: string;
       startDate?: string;
       endDate?: string;
@@ -183,6 +236,10 @@ class AuditService {
       filtered = filtered.filter(log => log.entityType === options.entityType);
     }
 
+    if (options?.actorType) {
+      filtered = filtered.filter(log => log.actorType === options.actorType);
+    }
+
     if (options?.action) {
       filtered = filtered.filter(log => log.action === options.action);
     }
@@ -239,9 +296,13 @@ class AuditService {
   }
 
   /**
-   * Add a log entry
+   * Add a log entry, recording whether the actor is a user or a service account
    */
-  private addLog(log: AuditLog): void {
+  private async addLog(actor: AuditActor, entry: Omit<AuditLog, 'userId' | 'actorType'>): Promise<void> {
+    const log: AuditLog =
+      typeof actor === 'string'
+        ? { ...entry, userId: actor, actorType: 'user' }
+        : { ...entry, userId: actor.userId, actorType: actor.serviceAccountId ? 'service_account' : 'user' };
     this.logs.push(log);
 
     // Trim old logs if we exceed the max
@@ -253,7 +314,8 @@ class AuditService {
     // 1. Write to a persistent database
     // 2. Send to a logging service (e.g., CloudWatch, Datadog)
     // 3. Write to a SIEM for security monitoring
-    console.log(`[AUDIT] ${log.action} - User: ${log.userId}, Entity: ${log.entityId}`);
+    const actorLabel = log.actorType === 'service_account' ? 'Service account' : 'User';
+    console.log(`[AUDIT] ${log.action} - ${actorLabel}: ${log.userId}, Entity: ${log.entityId}`);
   }
 
   /**
@@ -6,7 +6,7 @@
 
 import { Router } from 'express';
 import crypto from 'crypto';
-import { authenticateJWT } from '../../shared/middleware/auth';
+import { authenticateJWT, authenticateToken } from '../../shared/middleware/auth';
 import { enforceTenant } from '../../shared/middleware/tenantValidation';
 import { ApiResponse } from '../../shared/utils/response';
 import { permissionsService } from './permissions.service';
@@ -22,6 +22,10 @@ import {
 
 const router = Router();
 
+// IAM management routes also serve API clients: personal access tokens (scopes checked by
+// iamAuthorization) and service accounts (kept to their company by enforceTenant)
+const authenticateScoped = authenticateToken({ personalAccessTokens: true, serviceAccounts: true });
+
 // Cache for navigation ETags
 const navigationCache = new Map<string, { etag: string; data: any; timestamp: number }>();
 const NAVIGATION_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
@@ -197,7 +201,7 @@ router.get('/permissions/current', authenticateJWT, enforceTenant, async (req, r
  * GET /api/iam/user-levels
  * Get all user levels for the company (Client Admin)
  */
-router.get('/user-levels', authenticateJWT, enforceTenant, requireIAMRead, async (req, res) => {
+router.get('/user-levels', authenticateScoped, enforceTenant, requireIAMRead, async (req, res) => {
   try {
     const companyId = req.tenantId!;
 
@@ -214,7 +218,7 @@ router.get('/user-levels', authenticateJWT, enforceTenant, requireIAMRead, async
  * POST /api/iam/user-levels
  * Create a new user level (Client Admin)
  */
-router.post('/user-levels', authenticateJWT, enforceTenant, requireUserLevelManagement, async (req, res) => {
+router.post('/user-levels', authenticateScoped, enforceTenant, requireUserLevelManagement, async (req, res) => {
   try {
     const { userId } = req.user!;
     const companyId = req.tenantId!;
@@ -240,7 +244,7 @@ router.post('/user-levels', authenticateJWT, enforceTenant, requireUserLevelMana
     });
 
     // Audit log
-    await auditService.logUserLevelCreated(userId, companyId, userLevel.id, {
+    await auditService.logUserLevelCreated(req.user!, companyId, userLevel.id, {
       name,
       description,
     });
@@ -256,7 +260,7 @@ router.post('/user-levels', authenticateJWT, enforceTenant, requireUserLevelMana
  * GET /api/iam/user-levels/:id
  * Get a specific user level (Client Admin)
  */
-router.get('/user-levels/:id', authenticateJWT, enforceTenant, requireIAMRead, async (req, res) => {
+router.get('/user-levels/:id', authenticateScoped, enforceTenant, requireIAMRead, async (req, res) => {
   try {
     const { id } = req.params;
     const companyId = req.tenantId!;
@@ -278,7 +282,7 @@ router.get('/user-levels/:id', authenticateJWT, enforceTenant, requireIAMRead, a
  * PATCH /api/iam/user-levels/:id
  * Update a user level (Client Admin)
  */
-router.patch('/user-levels/:id', authenticateJWT, enforceTenant, requireUserLevelManagement, async (req, res) => {
+router.patch('/user-levels/:id', authenticateScoped, enforceTenant, requireUserLevelManagement, async (req, res) => {
   try {
     const { id } = req.params;
     const { userId } = req.user!;
@@ -303,7 +307,7 @@ router.patch('/user-levels/:id', authenticateJWT, enforceTenant, requireUserLeve
     }
 
     // Audit log
-    await auditService.logUserLevelUpdated(userId, companyId, id, { name, description });
+    await auditService.logUserLevelUpdated(req.user!, companyId, id, { name, description });
 
     return ApiResponse.success(res, { userLevel: updated });
   } catch (error) {
@@ -316,7 +320,7 @@ router.patch('/user-levels/:id', authenticateJWT, enforceTenant, requireUserLeve
  * DELETE /api/iam/user-levels/:id
  * Delete a user level (Client Admin)
  */
-router.delete('/user-levels/:id', authenticateJWT, enforceTenant, requireUserLevelManagement, async (req, res) => {
+router.delete('/user-levels/:id', authenticateScoped, enforceTenant, requireUserLevelManagement, async (req, res) => {
   try {
     const { id } = req.params;
     const { userId } = req.user!;
@@ -338,7 +342,7 @@ router.delete('/user-levels/:id', authenticateJWT, enforceTenant, requireUserLev
     }
 
     // Audit log
-    await auditService.logUserLevelDeleted(userId, companyId, id, {
+    await auditService.logUserLevelDeleted(req.user!, companyId, id, {
       assignedUsersCount: 0,
     });
 
@@ -353,7 +357,7 @@ router.delete('/user-levels/:id', authenticateJWT, enforceTenant, requireUserLev
  * GET /api/iam/user-levels/:id/permissions/views
  * Get view permissions for a user level (Client Admin)
  */
-router.get('/user-levels/:id/permissions/views', authenticateJWT, enforceTenant, requireIAMRead, async (req, res) => {
+router.get('/user-levels/:id/permissions/views', authenticateScoped, enforceTenant, requireIAMRead, async (req, res) => {
   try {
     const { id } = req.params;
     const companyId = req.tenantId!;
@@ -371,7 +375,7 @@ router.get('/user-levels/:id/permissions/views', authenticateJWT, enforceTenant,
  * PUT /api/iam/user-levels/:id/permissions/views
  * Replace all view permissions for a user level (Client Admin)
  */
-router.put('/user-levels/:id/permissions/views', authenticateJWT, enforceTenant, requirePermissionManagement, async (req, res) => {
+router.put('/user-levels/:id/permissions/views', authenticateScoped, enforceTenant, requirePermissionManagement, async (req, res) => {
   try {
     const { id } = req.params;
     const { userId } = req.user!;
@@ -396,7 +400,7 @@ router.put('/user-levels/:id/permissions/views', authenticateJWT, enforceTenant,
     await db.iam.userLevelViewPermissions.replaceForUserLevel(id, companyId, permissions);
 
     // Audit log
-    await auditService.logViewPermissionsUpdated(userId, companyId, id, permissions);
+    await auditService.logViewPermissionsUpdated(req.user!, companyId, id, permissions);
 
     // Invalidate navigation cache for all users with this level
     const usersWithLevel = await db.iam.userUserLevels.getUsers(id);
@@ -415,7 +419,7 @@ router.put('/user-levels/:id/permissions/views', authenticateJWT, enforceTenant,
  * GET /api/iam/user-levels/:id/permissions/features
  * Get feature permissions for a user level (Client Admin)
  */
-router.get('/user-levels/:id/permissions/features', authenticateJWT, enforceTenant, requireIAMRead, async (req, res) => {
+router.get('/user-levels/:id/permissions/features', authenticateScoped, enforceTenant, requireIAMRead, async (req, res) => {
   try {
     const { id } = req.params;
     const companyId = req.tenantId!;
@@ -433,7 +437,7 @@ router.get('/user-levels/:id/permissions/features', authenticateJWT, enforceTena
  * PUT /api/iam/user-levels/:id/permissions/features
  * Replace all feature permissions for a user level (Client Admin)
  */
-router.put('/user-levels/:id/permissions/features', authenticateJWT, enforceTenant, requirePermissionManagement, async (req, res) => {
+router.put('/user-levels/:id/permissions/features', authenticateScoped, enforceTenant, requirePermissionManagement, async (req, res) => {
   try {
     const { id } = req.params;
     const { userId } = req.user!;
@@ -460,7 +464,7 @@ router.put('/user-levels/:id/permissions/features', authenticateJWT, enforceTena
     await db.iam.userLevelFeaturePermissions.replaceForUserLevel(id, companyId, permissions);
 
     // Audit log
-    await auditService.logFeaturePermissionsUpdated(userId, companyId, id, permissions);
+    await auditService.logFeaturePermissionsUpdated(req.user!, companyId, id, permissions);
 
     // Invalidate cached permissions for users with this level
     const usersWithLevel = await db.iam.userUserLevels.getUsers(id);
@@ -479,7 +483,7 @@ router.put('/user-levels/:id/permissions/features', authenticateJWT, enforceTena
  * GET /api/iam/users/:userId/user-levels
  * Get user levels assigned to a user (Client Admin)
  */
-router.get('/users/:userId/user-levels', authenticateJWT, enforceTenant, requireIAMRead, async (req, res) => {
+router.get('/users/:userId/user-levels', authenticateScoped, enforceTenant, requireIAMRead, async (req, res) => {
   try {
     const { userId: targetUserId } = req.params;
     const companyId = req.tenantId!;
@@ -506,7 +510,7 @@ router.get('/users/:userId/user-levels', authenticateJWT, enforceTenant, require
  * PUT /api/iam/users/:userId/user-levels
  * Replace user levels for a user (Client Admin)
  */
-router.put('/users/:userId/user-levels', authenticateJWT, enforceTenant, requireUserAssignment, async (req, res) => {
+router.put('/users/:userId/user-levels', authenticateScoped, enforceTenant, requireUserAssignment, async (req, res) => {
   try {
     const { userId: targetUserId } = req.params;
     const { userId } = req.user!;
@@ -528,7 +532,7 @@ router.put('/users/:userId/user-levels', authenticateJWT, enforceTenant, require
 
     // Audit log
     await auditService.logUserLevelsAssigned(
-      userId,
+      req.user!,
       companyId,
       targetUserId,
       userLevelIds,
@@ -546,7 +550,7 @@ router.put('/users/:userId/user-levels', authenticateJWT, enforceTenant, require
  * GET /api/iam/views
  * Get all views (for building permission matrices)
  */
-router.get('/views', authenticateJWT, requireIAMRead, async (req, res) => {
+router.get('/views', authenticateScoped, requireIAMRead, async (req, res) => {
   try {
     const views = await db.iam.views.findAll();
     return ApiResponse.success(res, { views });
@@ -560,7 +564,7 @@ router.get('/views', authenticateJWT, requireIAMRead, async (req, res) => {
  * GET /api/iam/features
  * Get all features (for building permission matrices)
  */
-router.get('/features', authenticateJWT, requireIAMRead, async (req, res) => {
+router.get('/features', authenticateScoped, requireIAMRead, async (req, res) => {
   try {
     const features = await db.iam.features.findAll();
     return ApiResponse.success(res, { features });
@@ -316,6 +316,24 @@ describe('IAM Authorization Middleware', () => {
       expect(next).not.toHaveBeenCalled();
     });
 
+    it('should only count permissions within a token scopes', async () => {
+      req.user = { ...req.user!, scopes: ['feature:feature_iam_permissions:Read'] };
+      vi.mocked(permissionsService.canPerformAction)
+        .mockResolvedValueOnce(true) // canReadLevels (out of scope)
+        .mockResolvedValueOnce(false); // canReadPerms
+
+      await requireIAMRead(req as Request, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+
+      req.user = { ...req.user!, scopes: ['view:view_dashboard'] };
+      await requireIAMRead(req as Request, res as Response, next);
+
+      expect(res.json).toHaveBeenLastCalledWith(expect.objectContaining({ code: 'ERR_AUTH_012' }));
+      expect(permissionsService.canPerformAction).toHaveBeenCalledTimes(2);
+    });
+
     it('should check both permissions in parallel', async () => {
       vi.mocked(permissionsService.canPerformAction)
         .mockResolvedValueOnce(true)  // canReadLevels
@@ -1,13 +1,29 @@
 /**
  * IAM Authorization Middleware
  *
- * Checks if users have permission to perform IAM management actions
+ * Checks if users have permission to perform IAM management actions.
+ * Personal access tokens are also limited to their scopes.
  */
 
 import { Request, Response, NextFunction } from 'express';
 import { ApiResponse } from '../../../shared/utils/response';
+import { scopesAllow } from '../../../shared/middleware/authorize';
 import { permissionsService } from '../permissions.service';
 
+/**
+ * Refuse a personal access token whose scopes allow none of the feature actions
+ *
+ * @returns Whether the request was refused
+ */
+function refuseOutOfScope(req: Request, res: Response, checks: { feature: string; action: string }[]): boolean {
+  if (checks.some((check) => scopesAllow(req.user!.scopes, check))) {
+    return false;
+  }
+
+  ApiResponse.error(res, 'Token scope does not allow this action', 403, 'ERR_AUTH_012');
+  return true;
+}
+
 /**
  * Require permission to manage user levels
  */
@@ -17,6 +33,10 @@ export async function requireUserLevelManagement(
   next: NextFunction
 ) {
   try {
+    if (refuseOutOfScope(req, res, [{ feature: 'feature_iam_user_levels', action: 'Update' }])) {
+      return;
+    }
+
     const userId = req.user!.userId;
     const companyId = req.tenantId || '';
 
@@ -47,6 +67,10 @@ export async function requirePermissionManagement(
   next: NextFunction
 ) {
   try {
+    if (refuseOutOfScope(req, res, [{ feature: 'feature_iam_permissions', action: 'Update' }])) {
+      return;
+    }
+
     const userId = req.user!.userId;
     const companyId = req.tenantId || '';
 
@@ -77,6 +101,10 @@ export async function requireUserAssignment(
   next: NextFunction
 ) {
   try {
+    if (refuseOutOfScope(req, res, [{ feature: 'feature_iam_user_levels', action: 'Update' }])) {
+      return;
+    }
+
     const userId = req.user!.userId;
     const companyId = req.tenantId || '';
 
@@ -107,6 +135,12 @@ export async function requireIAMRead(
   next: NextFunction
 ) {
   try {
+    const readLevels = { feature: 'feature_iam_user_levels', action: 'Read' };
+    const readPermissions = { feature: 'feature_iam_permissions', action: 'Read' };
+    if (refuseOutOfScope(req, res, [readLevels, readPermissions])) {
+      return;
+    }
+
     const userId = req.user!.userId;
     const companyId = req.tenantId || '';
 
@@ -126,7 +160,9 @@ export async function requireIAMRead(
       ),
     ]);
 
-    if (!canReadLevels && !canReadPerms) {
+    // Tokens also need the scope for what the user can read
+    const { scopes } = req.user!;
+    if (!(canReadLevels && scopesAllow(scopes, readLevels)) && !(canReadPerms && scopesAllow(scopes, readPermissions))) {
       return ApiResponse.forbidden(res, 'You do not have permission to view IAM data');
     }
 
@@ -8,6 +8,7 @@
 
 import crypto from 'crypto';
 import { db } from '../../shared/db/client';
+import { TeamsRepository } from '../../shared/db/repositories/teams.repository';
 import type { PermissionState, ActionScope } from '@vertical-vibing/shared-types';
 
 /**
@@ -27,9 +28,12 @@ export interface ResolvedFeaturePermission {
   action: string;
   allowed: boolean;
   scope: ActionScope;
+  allowedScopes: ActionScope[]; // Every scope granted by the user's levels (empty when denied)
   reason: string;
 }
 
+const teamsRepo = new TeamsRepository(db);
+
 /**
  * Permission resolution service
  */
@@ -160,6 +164,7 @@ export class PermissionsService {
           action,
           allowed: false,
           scope: 'own',
+          allowedScopes: [],
           reason: 'User has no assigned user levels',
         };
       }
@@ -184,6 +189,7 @@ export class PermissionsService {
           action,
           allowed: false,
           scope: 'own',
+          allowedScopes: [],
           reason: 'No permissions defined for this action',
         };
       }
@@ -196,6 +202,7 @@ export class PermissionsService {
           action,
           allowed: false,
           scope: 'own',
+          allowedScopes: [],
           reason: 'Explicitly denied by one or more user levels',
         };
       }
@@ -208,6 +215,7 @@ export class PermissionsService {
           action,
           allowed: false,
           scope: 'own',
+          allowedScopes: [],
           reason: 'No explicit allow permission',
         };
       }
@@ -228,6 +236,7 @@ export class PermissionsService {
         action,
         allowed: true,
         scope: mostPermissiveScope,
+        allowedScopes: scopeHierarchy.filter((scope) => allows.some((p) => p.scope === scope)),
         reason: `Allowed with '${mostPermissiveScope}' scope`,
       };
     } catch (error) {
@@ -237,11 +246,46 @@ export class PermissionsService {
         action,
         allowed: false,
         scope: 'own',
+        allowedScopes: [],
         reason: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
       };
     }
   }
 
+  /**
+   * Check if a user can perform an action on a resource owned by another user
+   *
+   * The permission's scope decides whose resources it reaches:
+   * - any: every resource
+   * - company: resources of members of the company
+   * - team: the user's own resources and those of members sharing a team with them
+   * - own: the user's own resources
+   */
+  async canPerformActionOnResource(
+    userId: string,
+    featureId: string,
+    action: string,
+    companyId: string,
+    resourceOwnerId: string
+  ): Promise<ResolvedFeaturePermission> {
+    const resolution = await this.resolveFeaturePermission(userId, featureId, action, companyId);
+    if (!resolution.allowed) {
+      return resolution;
+    }
+
+    for (const scope of resolution.allowedScopes) {
+      if (await this.scopeReaches(scope, userId, companyId, resourceOwnerId)) {
+        return { ...resolution, scope, reason: `Allowed with '${scope}' scope on this resource` };
+      }
+    }
+
+    return {
+      ...resolution,
+      allowed: false,
+      reason: `Resource is outside the '${resolution.allowedScopes.join("', '")}' scope`,
+    };
+  }
+
   /**
    * Get all views a user can access
    */
@@ -340,6 +384,27 @@ export class PermissionsService {
     }
   }
 
+  /**
+   * Whether a permission scope reaches resources of the given owner
+   */
+  private async scopeReaches(
+    scope: ActionScope,
+    userId: string,
+    companyId: string,
+    resourceOwnerId: string
+  ): Promise<boolean> {
+    switch (scope) {
+      case 'any':
+        return true;
+      case 'company':
+        return !!(await db.companyMembers.findByCompanyAndUser(companyId, resourceOwnerId));
+      case 'team':
+        return resourceOwnerId === userId || teamsRepo.shareTeam(companyId, userId, resourceOwnerId);
+      default:
+        return resourceOwnerId === userId;
+    }
+  }
+
   /**
    * Compute and cache effective permissions for a user
    * This can be called when a user logs in or when their permissions change
@@ -0,0 +1,419 @@
+/**
+ * SAML SSO Tests
+ *
+ * Responses are issued by a local test IdP that signs assertions with a
+ * self-signed certificate, and posted to the service like the ACS route does
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { randomBytes } from 'crypto';
+import { inflateRawSync } from 'zlib';
+import { SamlService } from '../saml.service';
+import { AuthService } from '../../auth/auth.service';
+import { auditService } from '../../iam/audit.service';
+import { db } from '../../../shared/db/client';
+import { CompaniesRepository } from '../../../shared/db/repositories/companies.repository';
+import { verifyToken } from '../../../shared/utils/jwt';
+import { TestSamlIdp, IDP_CERTIFICATE } from './helpers/saml-idp';
+
+// shared-types is not built in this workspace; only runtime enums are needed
+vi.mock('@vertical-vibing/shared-types', () => ({
+  PlanTier: { FREE: 'free', STARTER: 'starter', PRO: 'pro', ENTERPRISE: 'enterprise' },
+  SubscriptionStatus: { ACTIVE: 'active', CANCELED: 'canceled' },
+}));
+
+// Everything lives in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+// IAM tables are PostgreSQL-only in the app; use the in-memory implementation
+vi.mock('../../../shared/db/repositories/iam.repository', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../shared/db/repositories/iam.repository')>();
+  const iamDb = new actual.InMemoryIAMDatabase();
+  return { ...actual, iamDb, getIAMDb: () => iamDb };
+});
+
+vi.mock('../../email/email.service', () => ({
+  EmailService: vi.fn().mockImplementation(() => ({ sendEmail: vi.fn() })),
+}));
+
+describe('SAML SSO', () => {
+  const idp = new TestSamlIdp();
+  const companiesRepo = new CompaniesRepository(db);
+  let service: SamlService;
+  let companyId: string;
+  let ownerId: string;
+  let nameID: string;
+  let domain: string;
+  let email: string;
+  let txtRecords: Map<string, string[][]>;
+  let consoleSpy: any;
+  let consoleErrorSpy: any;
+
+  /**
+   * Create a user, optionally subscribed to a plan
+   */
+  const createUser = async (planTier?: string) => {
+    const user = await db.users.create({
+      email: `user-${randomBytes(6).toString('hex')}@example.com`,
+      passwordHash: 'hash',
+      name: 'Company User',
+    });
+
+    if (planTier) {
+      await db.subscriptions.create({
+        userId: user.id,
+        planTier,
+        status: 'active',
+        currentPeriodStart: new Date(),
+        currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+        cancelAtPeriodEnd: false,
+      });
+    }
+
+    return user;
+  };
+
+  /**
+   * Configure SSO for the test company from the IdP metadata
+   */
+  const configure = (overrides: Record<string, unknown> = {}) =>
+    service.saveConfig(companyId, ownerId, {
+      enabled: true,
+      idpMetadataXml: idp.metadataXml(),
+      attributeMapping: { email: 'email', firstName: 'givenName', lastName: 'sn' },
+      defaultRole: 'member',
+      defaultUserLevelId: null,
+      allowIdpInitiated: true,
+      ...overrides,
+    });
+
+  /**
+   * Add the email domain to the company and publish its TXT record, then verify it
+   */
+  const verifyDomain = async (targetCompanyId = companyId, adminId = ownerId) => {
+    const { verificationRecord } = await service.addDomain(targetCompanyId, adminId, domain);
+    txtRecords.set(verificationRecord.name, [[verificationRecord.value]]);
+    return service.verifyDomain(targetCompanyId, adminId, domain);
+  };
+
+  /**
+   * IdP response for the test company
+   */
+  const samlResponse = (
+    options: Partial<Parameters<TestSamlIdp['createResponse']>[0]> = {},
+    targetCompanyId = companyId
+  ) =>
+    idp.createResponse({
+      acsUrl: `http://localhost:3001/api/sso/saml/${targetCompanyId}/acs`,
+      audience: `http://localhost:3001/api/sso/saml/${targetCompanyId}/metadata`,
+      nameID,
+      attributes: { email, givenName: 'Ada', sn: 'Lovelace' },
+      ...options,
+    });
+
+  beforeEach(async () => {
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    txtRecords = new Map();
+    service = new SamlService(async (hostname) => txtRecords.get(hostname) ?? []);
+    nameID = `employee-${randomBytes(6).toString('hex')}`;
+    domain = `acme-${randomBytes(6).toString('hex')}.example.com`;
+    email = `${nameID}@${domain}`;
+
+    const owner = await createUser('pro');
+    ownerId = owner.id;
+    companyId = crypto.randomUUID();
+    await companiesRepo.create({ id: companyId, name: 'Acme', slug: `acme-${companyId.slice(0, 8)}` });
+    await companiesRepo.addMember({ id: crypto.randomUUID(), companyId, userId: ownerId, role: 'owner' });
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+  });
+
+  describe('configuration', () => {
+    it('should read the IdP settings from metadata', async () => {
+      const config = await configure();
+
+      expect(config).toMatchObject({
+        enabled: true,
+        idpEntityId: idp.entityId,
+        idpSsoUrl: idp.ssoUrl,
+        idpCertificateCount: 1,
+        serviceProvider: {
+          entityId: `http://localhost:3001/api/sso/saml/${companyId}/metadata`,
+          acsUrl: `http://localhost:3001/api/sso/saml/${companyId}/acs`,
+        },
+      });
+      expect(await service.getConfig(companyId, ownerId)).toEqual(config);
+    });
+
+    it('should accept the IdP settings entered manually', async () => {
+      const config = await configure({
+        idpMetadataXml: undefined,
+        idpEntityId: idp.entityId,
+        idpSsoUrl: idp.ssoUrl,
+        idpCertificates: [IDP_CERTIFICATE],
+      });
+
+      expect(config.idpCertificateCount).toBe(1);
+      await expect(configure({ idpMetadataXml: '<not-metadata/>' })).rejects.toThrow('Invalid IdP metadata');
+      await expect(
+        configure({ idpMetadataXml: undefined, idpEntityId: 'x', idpSsoUrl: idp.ssoUrl, idpCertificates: ['A'.repeat(200)] })
+      ).rejects.toThrow('Invalid IdP certificate');
+    });
+
+    it('should only let owners and admins configure SSO', async () => {
+      const member = await createUser();
+      await companiesRepo.addMember({ id: crypto.randomUUID(), companyId, userId: member.id, role: 'member' });
+
+      await expect(service.getConfig(companyId, member.id)).rejects.toThrow('Insufficient permissions');
+      await expect(
+        service.saveConfig(companyId, member.id, {
+          enabled: true,
+          idpMetadataXml: idp.metadataXml(),
+          attributeMapping: {},
+          defaultRole: 'member',
+          defaultUserLevelId: null,
+          allowIdpInitiated: true,
+        })
+      ).rejects.toThrow('Insufficient permissions');
+    });
+
+    it('should require a plan with SSO support', async () => {
+      const starterOwner = await createUser('starter');
+      const starterCompanyId = crypto.randomUUID();
+      await companiesRepo.create({ id: starterCompanyId, name: 'Small Co', slug: `small-${starterCompanyId.slice(0, 8)}` });
+      await companiesRepo.addMember({ id: crypto.randomUUID(), companyId: starterCompanyId, userId: starterOwner.id, role: 'owner' });
+
+      await expect(
+        service.saveConfig(starterCompanyId, starterOwner.id, {
+          enabled: true,
+          idpMetadataXml: idp.metadataXml(),
+          attributeMapping: {},
+          defaultRole: 'member',
+          defaultUserLevelId: null,
+          allowIdpInitiated: true,
+        })
+      ).rejects.toThrow('Single sign-on is not available on the company plan');
+    });
+  });
+
+  describe('login', () => {
+    it('should provision the user, membership and default user level on first login', async () => {
+      const level = await db.iam.userLevels.create({
+        id: crypto.randomUUID(),
+        companyId,
+        name: 'Employee',
+        description: null,
+        isDefault: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      await configure();
+      await verifyDomain();
+
+      const { code } = await service.handleResponse(companyId, samlResponse());
+
+      const user = await db.users.findByExternalId('saml', `${companyId}:${nameID}`);
+      expect(user).toMatchObject({
+        email,
+        name: 'Ada Lovelace',
+        authProvider: 'saml',
+        passwordHash: null,
+        emailVerified: true,
+      });
+      expect(await companiesRepo.getMember(companyId, user!.id)).toMatchObject({ role: 'member' });
+      expect(await db.iam.userUserLevels.getUserLevels(user!.id)).toEqual([level.id]);
+      expect(await auditService.getLogsForEntity('assignment', user!.id, companyId)).toHaveLength(1);
+
+      const session = await new AuthService().completeSsoLogin(code);
+      expect(session.user.id).toBe(user!.id);
+      expect(verifyToken(session.token).userId).toBe(user!.id);
+
+      // The code is single use
+      await expect(new AuthService().completeSsoLogin(code)).rejects.toThrow('Invalid or expired token');
+    });
+
+    it('should reuse the account and membership on later logins', async () => {
+      await configure();
+
+      await service.handleResponse(companyId, samlResponse());
+      await service.handleResponse(companyId, samlResponse({ attributes: { email, givenName: 'Augusta' } }));
+
+      const user = await db.users.findByExternalId('saml', `${companyId}:${nameID}`);
+      expect(user!.name).toBe('Augusta');
+      expect((await companiesRepo.getMembers(companyId)).filter((member) => member.userId === user!.id)).toHaveLength(1);
+    });
+
+    it('should complete an SP-initiated login', async () => {
+      await configure({ allowIdpInitiated: false });
+
+      const { authorizationUrl } = await service.createAuthorizationRequest(companyId);
+      const url = new URL(authorizationUrl);
+      const authnRequest = inflateRawSync(Buffer.from(url.searchParams.get('SAMLRequest')!, 'base64')).toString();
+      const requestId = authnRequest.match(/ID="([^"]+)"/)![1];
+
+      expect(`${url.origin}${url.pathname}`).toBe(idp.ssoUrl);
+      await expect(service.handleResponse(companyId, samlResponse())).rejects.toThrow('Invalid SAML response');
+      await expect(service.handleResponse(companyId, samlResponse({ inResponseTo: '_unknown' }))).rejects.toThrow(
+        'Invalid SAML response'
+      );
+
+      const result = await service.handleResponse(companyId, samlResponse({ inResponseTo: requestId }));
+      expect(result.code).toBeTruthy();
+
+      // Each AuthnRequest answers one response
+      await expect(service.handleResponse(companyId, samlResponse({ inResponseTo: requestId }))).rejects.toThrow(
+        'Invalid SAML response'
+      );
+    });
+
+    it('should reject replayed, unsigned and misaddressed responses', async () => {
+      await configure();
+      const response = samlResponse();
+
+      await service.handleResponse(companyId, response);
+
+      await expect(service.handleResponse(companyId, response)).rejects.toThrow('SAML response has already been used');
+      await expect(service.handleResponse(companyId, samlResponse({ sign: false }))).rejects.toThrow(
+        'Invalid SAML response'
+      );
+      await expect(
+        service.handleResponse(companyId, samlResponse({ audience: 'https://other-sp.example.com' }))
+      ).rejects.toThrow('Invalid SAML response');
+      await expect(
+        service.handleResponse(companyId, samlResponse({ issuer: 'https://evil.example.com' }))
+      ).rejects.toThrow('Invalid SAML response');
+    });
+
+    it('should reject a tampered assertion', async () => {
+      await configure();
+      const tampered = Buffer.from(
+        Buffer.from(samlResponse(), 'base64').toString().replace(email, `ceo@${domain}`)
+      ).toString('base64');
+
+      await expect(service.handleResponse(companyId, tampered)).rejects.toThrow('Invalid SAML response');
+    });
+
+    it('should not take over an existing account with the same email', async () => {
+      await configure();
+      await db.users.create({ email, passwordHash: 'hash', name: 'Local Ada' });
+
+      await expect(service.handleResponse(companyId, samlResponse())).rejects.toThrow(
+        'Email already registered with another sign-in method'
+      );
+    });
+
+    it('should only trust emails in the company verified domains', async () => {
+      await configure();
+
+      await service.handleResponse(companyId, samlResponse());
+      const user = await db.users.findByExternalId('saml', `${companyId}:${nameID}`);
+      expect(user).toMatchObject({ email, emailVerified: false });
+
+      // Email changes are not followed outside the verified domains
+      const otherEmail = `${nameID}@other-${randomBytes(6).toString('hex')}.example.com`;
+      await service.handleResponse(companyId, samlResponse({ attributes: { email: otherEmail, givenName: 'Ada' } }));
+      expect(await db.users.findById(user!.id)).toMatchObject({ email, emailVerified: false });
+
+      await verifyDomain();
+      await service.handleResponse(companyId, samlResponse());
+      expect(await db.users.findById(user!.id)).toMatchObject({ email, emailVerified: true });
+    });
+
+    it('should link an existing account only in a verified domain', async () => {
+      const existing = await db.users.create({ email, passwordHash: 'hash', name: 'Local Ada' });
+      await configure();
+      await verifyDomain();
+
+      const { code } = await service.handleResponse(companyId, samlResponse());
+
+      expect((await new AuthService().completeSsoLogin(code)).user.id).toBe(existing.id);
+      expect(await db.users.findById(existing.id)).toMatchObject({ name: 'Local Ada', passwordHash: 'hash' });
+      expect(await companiesRepo.getMember(companyId, existing.id)).toMatchObject({ role: 'member' });
+    });
+
+    it('should let one user sign in through several companies', async () => {
+      const secondOwner = await createUser('pro');
+      const secondCompanyId = crypto.randomUUID();
+      await companiesRepo.create({ id: secondCompanyId, name: 'Globex', slug: `globex-${secondCompanyId.slice(0, 8)}` });
+      await companiesRepo.addMember({ id: crypto.randomUUID(), companyId: secondCompanyId, userId: secondOwner.id, role: 'owner' });
+      await configure();
+      await service.saveConfig(secondCompanyId, secondOwner.id, {
+        enabled: true,
+        idpMetadataXml: idp.metadataXml(),
+        attributeMapping: { email: 'email' },
+        defaultRole: 'member',
+        defaultUserLevelId: null,
+        allowIdpInitiated: true,
+      });
+      await verifyDomain(secondCompanyId, secondOwner.id);
+
+      await service.handleResponse(companyId, samlResponse());
+      const user = await db.users.findByExternalId('saml', `${companyId}:${nameID}`);
+      await service.handleResponse(secondCompanyId, samlResponse({ nameID: `globex-${nameID}` }, secondCompanyId));
+      const { code } = await service.handleResponse(companyId, samlResponse());
+
+      expect((await new AuthService().completeSsoLogin(code)).user.id).toBe(user!.id);
+      expect(await companiesRepo.getMember(companyId, user!.id)).not.toBeNull();
+      expect(await companiesRepo.getMember(secondCompanyId, user!.id)).not.toBeNull();
+
+      // The domain is the second company's: the first cannot verify it too
+      await expect(verifyDomain()).rejects.toThrow('Domain is verified by another company');
+    });
+
+    it('should verify a domain only with its TXT record', async () => {
+      const added = await service.addDomain(companyId, ownerId, domain);
+      expect(added).toMatchObject({
+        domain,
+        verified: false,
+        verificationRecord: { type: 'TXT', name: `_vertical-vibing-verification.${domain}` },
+      });
+
+      txtRecords.set(added.verificationRecord.name, [['vertical-vibing-verification=wrong']]);
+      await expect(service.verifyDomain(companyId, ownerId, domain)).rejects.toThrow(
+        'Domain verification record not found'
+      );
+
+      // Long TXT values arrive split in chunks
+      const { value } = added.verificationRecord;
+      txtRecords.set(added.verificationRecord.name, [[value.slice(0, 20), value.slice(20)]]);
+      expect(await service.verifyDomain(companyId, ownerId, domain)).toMatchObject({ verified: true });
+
+      const member = await createUser();
+      await companiesRepo.addMember({ id: crypto.randomUUID(), companyId, userId: member.id, role: 'member' });
+      await expect(service.addDomain(companyId, member.id, 'other.example.com')).rejects.toThrow('Insufficient permissions');
+
+      await service.removeDomain(companyId, ownerId, domain);
+      expect(await service.listDomains(companyId, ownerId)).toEqual([]);
+    });
+
+    it('should stop SSO when the company is downgraded or SSO is disabled', async () => {
+      await configure({ enabled: false });
+      await expect(service.createAuthorizationRequest(companyId)).rejects.toThrow(
+        'Single sign-on is not enabled for this company'
+      );
+
+      await configure();
+      const subscription = await db.subscriptions.findByUserId(ownerId);
+      await db.subscriptions.update(subscription!.id, { status: 'canceled' });
+
+      await expect(service.handleResponse(companyId, samlResponse())).rejects.toThrow(
+        'Single sign-on is not enabled for this company'
+      );
+    });
+  });
+
+  it('should publish service provider metadata by company slug', async () => {
+    const company = await companiesRepo.findById(companyId);
+
+    const metadata = await service.getServiceProviderMetadata(company!.slug);
+
+    expect(metadata).toContain(`entityID="http://localhost:3001/api/sso/saml/${companyId}/metadata"`);
+    expect(metadata).toContain(`Location="http://localhost:3001/api/sso/saml/${companyId}/acs"`);
+  });
+});
@@ -0,0 +1,89 @@
+import { X509Certificate } from 'crypto';
+import { DOMParser } from '@xmldom/xmldom';
+
+const METADATA_NS = 'urn:oasis:names:tc:SAML:2.0:metadata';
+const XMLDSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+const HTTP_REDIRECT_BINDING = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect';
+
+/**
+ * Identity provider settings read from SAML metadata
+ */
+export interface IdpMetadata {
+  entityId: string;
+  ssoUrl: string; // HTTP-Redirect SingleSignOnService location
+  certificates: string[]; // Signing certificates, base64 DER
+}
+
+/**
+ * Parse an identity provider's SAML 2.0 metadata document
+ *
+ * Accepts an EntityDescriptor, or an EntitiesDescriptor whose first IdP entry is used.
+ *
+ * @param xml - Metadata XML as downloaded from the IdP
+ * @returns Entity ID, SSO URL and signing certificates
+ * @throws Error if the document is not IdP metadata we can use
+ */
+export function parseIdpMetadata(xml: string): IdpMetadata {
+  let parseFailed = false;
+  const document = new DOMParser({
+    errorHandler: {
+      warning: () => undefined,
+      error: () => {
+        parseFailed = true;
+      },
+      fatalError: () => {
+        parseFailed = true;
+      },
+    },
+  }).parseFromString(xml, 'text/xml');
+
+  const entity = Array.from(document.getElementsByTagNameNS(METADATA_NS, 'EntityDescriptor')).find(
+    (element) => element.getElementsByTagNameNS(METADATA_NS, 'IDPSSODescriptor').length > 0
+  );
+  if (parseFailed || !entity?.getAttribute('entityID')) {
+    throw new Error('Invalid IdP metadata');
+  }
+
+  const idpDescriptor = entity.getElementsByTagNameNS(METADATA_NS, 'IDPSSODescriptor')[0];
+
+  const ssoService = Array.from(idpDescriptor.getElementsByTagNameNS(METADATA_NS, 'SingleSignOnService')).find(
+    (element) => element.getAttribute('Binding') === HTTP_REDIRECT_BINDING
+  );
+  if (!ssoService?.getAttribute('Location')) {
+    throw new Error('IdP metadata has no HTTP-Redirect SingleSignOnService');
+  }
+
+  // Keys without a `use` attribute are valid for signing as well
+  const certificates = Array.from(idpDescriptor.getElementsByTagNameNS(METADATA_NS, 'KeyDescriptor'))
+    .filter((keyDescriptor) => (keyDescriptor.getAttribute('use') || 'signing') === 'signing')
+    .flatMap((keyDescriptor) => Array.from(keyDescriptor.getElementsByTagNameNS(XMLDSIG_NS, 'X509Certificate')))
+    .map((element) => element.textContent || '');
+  if (certificates.length === 0) {
+    throw new Error('IdP metadata has no signing certificate');
+  }
+
+  return {
+    entityId: entity.getAttribute('entityID')!,
+    ssoUrl: ssoService.getAttribute('Location')!,
+    certificates: certificates.map(normalizeCertificate),
+  };
+}
+
+/**
+ * Normalize a certificate (PEM or bare base64) to base64 DER without whitespace
+ *
+ * @throws Error if it is not a valid X.509 certificate
+ */
+export function normalizeCertificate(certificate: string): string {
+  const body = certificate
+    .replace(/-----(BEGIN|END) CERTIFICATE-----/g, '')
+    .replace(/\s+/g, '');
+
+  try {
+    new X509Certificate(Buffer.from(body, 'base64'));
+  } catch {
+    throw new Error('Invalid IdP certificate');
+  }
+
+  return body;
+}
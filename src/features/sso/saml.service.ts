@@ -0,0 +1,639 @@
+import {
+  SAML,
+  ValidateInResponseTo,
+  generateServiceProviderMetadata,
+  type CacheProvider,
+  type Profile,
+} from '@node-saml/node-saml';
+import { resolveTxt } from 'dns/promises';
+import { SubscriptionStatus } from '@vertical-vibing/shared-types';
+import type { Company, CompanyRole } from '@vertical-vibing/shared-types';
+import { db } from '../../shared/db/client';
+import { CompaniesRepository } from '../../shared/db/repositories/companies.repository';
+import { SamlRepository } from '../../shared/db/repositories/saml.repository';
+import { UsersRepository } from '../../shared/db/repositories/users.repository';
+import type { CompanySamlConfig, CompanySsoDomain } from '../../shared/db/schema/saml.schema';
+import type { User } from '../../shared/db/schema/users.schema';
+import { OneTimeTokenService } from '../../shared/services/one-time-token.service';
+import { planIncludesFeature } from '../../shared/config/plans.config';
+import { buildApiUrl } from '../../shared/utils/url';
+import { generateSecureToken } from '../../shared/utils/token';
+import { auditService } from '../iam/audit.service';
+import { normalizeCertificate, parseIdpMetadata } from './saml-metadata';
+import type { SamlAuthorizeResponse, SamlConfigDTO, SamlConfigInfo, SsoDomainInfo } from './sso.types';
+
+/**
+ * Plan feature that unlocks single sign-on (see plans.config.ts)
+ */
+export const SSO_PLAN_FEATURE = 'SSO support';
+
+/**
+ * Time to complete the login at the IdP after an SP-initiated request
+ */
+const AUTH_REQUEST_TTL_SECONDS = 10 * 60;
+
+/**
+ * Lifetime of the one-time code handed to the frontend after the ACS
+ */
+const LOGIN_CODE_TTL_MINUTES = 2;
+
+/**
+ * Allowed clock difference with the IdP
+ */
+const CLOCK_SKEW_MS = 2 * 60 * 1000;
+
+/**
+ * Assertions without a NotOnOrAfter are remembered (replay protection) this long
+ */
+const ASSERTION_REPLAY_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * DNS TXT record (under the domain) that proves a company controls an email domain
+ */
+const DOMAIN_VERIFICATION_RECORD = '_vertical-vibing-verification';
+const DOMAIN_VERIFICATION_PREFIX = 'vertical-vibing-verification=';
+
+/**
+ * Looks up the TXT records of a host name (each record as its character strings)
+ */
+export type TxtResolver = (hostname: string) => Promise<string[][]>;
+
+const EMAIL_NAME_ID_FORMAT = 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress';
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * SAML Service
+ *
+ * Per-company SAML 2.0 single sign-on (Pro and Enterprise plans).
+ * Company owners and admins configure their identity provider; members then
+ * sign in at the IdP, SP-initiated (GET .../authorize) or IdP-initiated.
+ *
+ * Users are provisioned just in time: the first login links the NameID to a
+ * user (one identity per company), creating the user (authProvider 'saml') if
+ * needed, the company membership and the default user level. Emails are only
+ * trusted (verified, linked to an existing account) in the company's DNS-verified
+ * domains. Responses must be signed by the configured certificate, addressed to
+ * this company and used only once.
+ */
+export class SamlService {
+  private samlRepo: SamlRepository;
+  private companiesRepo: CompaniesRepository;
+  private usersRepo: UsersRepository;
+  private oneTimeTokens: OneTimeTokenService;
+
+  constructor(private resolveTxtRecords: TxtResolver = resolveTxt) {
+    this.samlRepo = new SamlRepository(db);
+    this.companiesRepo = new CompaniesRepository(db);
+    this.usersRepo = new UsersRepository(db);
+    this.oneTimeTokens = new OneTimeTokenService();
+  }
+
+  /**
+   * Get a company's SAML configuration (owner or admin)
+   *
+   * @returns Configuration, or null if SSO has not been configured
+   * @throws Error if the user is not an owner or admin
+   */
+  async getConfig(companyId: string, userId: string): Promise<SamlConfigInfo | null> {
+    const company = await this.requireCompanyAdmin(companyId, userId);
+
+    const config = await this.samlRepo.findConfig(company.id);
+
+    return config ? this.toConfigInfo(company, config) : null;
+  }
+
+  /**
+   * Create or replace a company's SAML configuration (owner or admin)
+   *
+   * @throws Error if the user is not an owner or admin, the plan has no SSO,
+   *   the metadata or certificates are invalid, or the user level is unknown
+   */
+  async saveConfig(companyId: string, userId: string, dto: SamlConfigDTO): Promise<SamlConfigInfo> {
+    const company = await this.requireCompanyAdmin(companyId, userId);
+
+    if (!(await this.companyPlanIncludesSso(company.id))) {
+      throw new Error('Single sign-on is not available on the company plan');
+    }
+
+    const idp = dto.idpMetadataXml
+      ? parseIdpMetadata(dto.idpMetadataXml)
+      : {
+          entityId: dto.idpEntityId!,
+          ssoUrl: dto.idpSsoUrl!,
+          certificates: dto.idpCertificates!.map(normalizeCertificate),
+        };
+
+    if (dto.defaultUserLevelId && !(await db.iam.userLevels.findById(dto.defaultUserLevelId, company.id))) {
+      throw new Error('User level not found');
+    }
+
+    const config = await this.samlRepo.upsertConfig({
+      companyId: company.id,
+      enabled: dto.enabled,
+      idpEntityId: idp.entityId,
+      idpSsoUrl: idp.ssoUrl,
+      idpCertificates: idp.certificates,
+      attributeMapping: dto.attributeMapping,
+      defaultRole: dto.defaultRole,
+      defaultUserLevelId: dto.defaultUserLevelId,
+      allowIdpInitiated: dto.allowIdpInitiated,
+      updatedBy: userId,
+    });
+
+    return this.toConfigInfo(company, config);
+  }
+
+  /**
+   * Remove a company's SAML configuration (owner or admin)
+   *
+   * Users created by SSO keep their accounts but can no longer sign in.
+   *
+   * @throws Error if the user is not an owner or admin or SSO is not configured
+   */
+  async deleteConfig(companyId: string, userId: string): Promise<void> {
+    const company = await this.requireCompanyAdmin(companyId, userId);
+
+    if (!(await this.samlRepo.deleteConfig(company.id))) {
+      throw new Error('SAML is not configured for this company');
+    }
+  }
+
+  /**
+   * List the company's SSO email domains (owner or admin)
+   *
+   * @throws Error if the user is not an owner or admin
+   */
+  async listDomains(companyId: string, userId: string): Promise<SsoDomainInfo[]> {
+    const company = await this.requireCompanyAdmin(companyId, userId);
+
+    return (await this.samlRepo.findDomains(company.id)).map(toDomainInfo);
+  }
+
+  /**
+   * Add an email domain to verify (owner or admin)
+   *
+   * @returns The domain with the TXT record to publish (unchanged if already added)
+   * @throws Error if the user is not an owner or admin, or another company verified the domain
+   */
+  async addDomain(companyId: string, userId: string, domain: string): Promise<SsoDomainInfo> {
+    const company = await this.requireCompanyAdmin(companyId, userId);
+
+    const existing = (await this.samlRepo.findDomains(company.id)).find((entry) => entry.domain === domain);
+    if (existing) {
+      return toDomainInfo(existing);
+    }
+
+    const verified = await this.samlRepo.findVerifiedDomain(domain);
+    if (verified) {
+      throw new Error('Domain is verified by another company');
+    }
+
+    return toDomainInfo(
+      await this.samlRepo.createDomain({ companyId: company.id, domain, verificationToken: generateSecureToken() })
+    );
+  }
+
+  /**
+   * Check the domain's TXT record and mark it verified (owner or admin)
+   *
+   * @throws Error if the user is not an owner or admin, the domain was not added,
+   *   another company verified it, or the TXT record is missing
+   */
+  async verifyDomain(companyId: string, userId: string, domain: string): Promise<SsoDomainInfo> {
+    const company = await this.requireCompanyAdmin(companyId, userId);
+
+    const entry = (await this.samlRepo.findDomains(company.id)).find((candidate) => candidate.domain === domain);
+    if (!entry) {
+      throw new Error('Domain not found');
+    }
+    if (entry.verifiedAt) {
+      return toDomainInfo(entry);
+    }
+
+    const verified = await this.samlRepo.findVerifiedDomain(domain);
+    if (verified && verified.companyId !== company.id) {
+      throw new Error('Domain is verified by another company');
+    }
+
+    const { name, value } = toDomainInfo(entry).verificationRecord;
+    const records = await this.resolveTxtRecords(name).catch((): string[][] => []);
+    if (!records.some((chunks) => chunks.join('') === value)) {
+      throw new Error('Domain verification record not found');
+    }
+
+    return toDomainInfo((await this.samlRepo.markDomainVerified(company.id, domain)) ?? entry);
+  }
+
+  /**
+   * Remove an email domain (owner or admin)
+   *
+   * Existing SSO users keep their accounts; their emails are no longer trusted on later logins.
+   *
+   * @throws Error if the user is not an owner or admin or the domain was not added
+   */
+  async removeDomain(companyId: string, userId: string, domain: string): Promise<void> {
+    const company = await this.requireCompanyAdmin(companyId, userId);
+
+    if (!(await this.samlRepo.deleteDomain(company.id, domain))) {
+      throw new Error('Domain not found');
+    }
+  }
+
+  /**
+   * Service provider metadata to upload at the IdP
+   *
+   * Available before SSO is configured, so admins can register us first.
+   *
+   * @param companyRef - Company ID or slug
+   * @throws Error if the company does not exist
+   */
+  async getServiceProviderMetadata(companyRef: string): Promise<string> {
+    const company = await this.findCompany(companyRef);
+
+    const sp = this.serviceProvider(company);
+
+    return generateServiceProviderMetadata({
+      issuer: sp.entityId,
+      callbackUrl: sp.acsUrl,
+      identifierFormat: null,
+      wantAssertionsSigned: true,
+    });
+  }
+
+  /**
+   * Start an SP-initiated login
+   *
+   * @param companyRef - Company ID or slug
+   * @returns URL of the IdP login page carrying our AuthnRequest
+   * @throws Error if SSO is not enabled for the company
+   */
+  async createAuthorizationRequest(companyRef: string): Promise<SamlAuthorizeResponse> {
+    const { company, config } = await this.requireEnabledConfig(companyRef);
+
+    const authorizationUrl = await this.createSaml(company, config).getAuthorizeUrlAsync('', undefined, {});
+
+    return { authorizationUrl, expiresIn: AUTH_REQUEST_TTL_SECONDS };
+  }
+
+  /**
+   * Validate a SAML response posted to the ACS and provision the user
+   *
+   * @param companyRef - Company ID or slug (from the ACS URL)
+   * @param samlResponse - Base64 SAMLResponse form field
+   * @returns One-time code to exchange for a session (POST /api/sso/exchange)
+   * @throws Error if SSO is not enabled, the response is invalid or replayed,
+   *   or the user's email belongs to an account with another sign-in method
+   */
+  async handleResponse(companyRef: string, samlResponse: string): Promise<{ code: string; expiresIn: number }> {
+    const { company, config } = await this.requireEnabledConfig(companyRef);
+
+    let profile: Profile | null;
+    try {
+      ({ profile } = await this.createSaml(company, config).validatePostResponseAsync({
+        SAMLResponse: samlResponse,
+      }));
+    } catch (error) {
+      console.error('SAML response rejected:', error);
+      throw new Error('Invalid SAML response');
+    }
+
+    if (!profile?.nameID || profile.issuer !== config.idpEntityId) {
+      throw new Error('Invalid SAML response');
+    }
+
+    await this.consumeAssertion(company.id, profile);
+
+    const user = await this.provisionUser(company, config, profile);
+
+    const { token } = await this.oneTimeTokens.issue(user.id, 'sso_login', user.email, LOGIN_CODE_TTL_MINUTES);
+
+    return { code: token, expiresIn: LOGIN_CODE_TTL_MINUTES * 60 };
+  }
+
+  /**
+   * Create or update the user and make sure they belong to the company
+   */
+  private async provisionUser(company: Company, config: CompanySamlConfig, profile: Profile): Promise<User> {
+    const mapping = config.attributeMapping;
+
+    const email = (
+      this.attribute(profile, mapping.email) ??
+      this.attribute(profile, 'email') ??
+      this.attribute(profile, 'mail') ??
+      (profile.nameIDFormat === EMAIL_NAME_ID_FORMAT || EMAIL_PATTERN.test(profile.nameID) ? profile.nameID : null)
+    )?.toLowerCase();
+    if (!email || !EMAIL_PATTERN.test(email)) {
+      throw new Error('Identity provider did not return an email address');
+    }
+
+    const name =
+      this.attribute(profile, mapping.name) ??
+      ([this.attribute(profile, mapping.firstName), this.attribute(profile, mapping.lastName)]
+        .filter(Boolean)
+        .join(' ') ||
+        email.split('@')[0]);
+
+    // Only a domain the company proved it controls makes the IdP's email trustworthy
+    const domainVerified = (await this.samlRepo.findVerifiedDomain(email.split('@')[1]))?.companyId === company.id;
+    const externalId = `${company.id}:${profile.nameID}`;
+    const profileData = {
+      name: name.slice(0, 100),
+      externalMetadata: { companyId: company.id, idpEntityId: config.idpEntityId },
+    };
+
+    const identity = await this.samlRepo.findIdentity(company.id, profile.nameID);
+    const linkedUser = identity && (await this.usersRepo.findById(identity.userId));
+
+    let user: User;
+    if (linkedUser) {
+      // Only accounts this IdP created follow its profile; email changes stay within the verified domains
+      const createdByIdp = linkedUser.authProvider === 'saml' && linkedUser.externalId === externalId;
+      const canUpdateEmail =
+        createdByIdp && domainVerified && linkedUser.email !== email && !(await this.usersRepo.emailExists(email));
+      const emailVerified = domainVerified && (canUpdateEmail || linkedUser.email === email);
+
+      user = createdByIdp
+        ? ((await this.usersRepo.update(linkedUser.id, {
+            ...profileData,
+            ...(canUpdateEmail && { email }),
+            ...(emailVerified && { emailVerified: true }),
+          })) ?? linkedUser)
+        : linkedUser;
+    } else {
+      // An existing account is only linked when the company verified its email domain
+      const userWithEmail = await this.usersRepo.findByEmail(email);
+      if (userWithEmail && !domainVerified) {
+        throw new Error('Email already registered with another sign-in method');
+      }
+
+      user =
+        userWithEmail ??
+        (await this.usersRepo.create({
+          ...profileData,
+          email,
+          passwordHash: null,
+          emailVerified: domainVerified,
+          authProvider: 'saml',
+          externalId,
+        }));
+      await this.samlRepo.linkIdentity({ companyId: company.id, nameId: profile.nameID, userId: user.id });
+    }
+
+    if (!(await this.companiesRepo.getMember(company.id, user.id))) {
+      await this.companiesRepo.addMember({
+        id: crypto.randomUUID(),
+        companyId: company.id,
+        userId: user.id,
+        role: config.defaultRole as CompanyRole,
+      });
+
+      await this.assignDefaultUserLevel(company.id, config, user.id);
+    }
+
+    return user;
+  }
+
+  /**
+   * Give a just-in-time member the configured (or company default) user level
+   */
+  private async assignDefaultUserLevel(companyId: string, config: CompanySamlConfig, userId: string): Promise<void> {
+    const level = config.defaultUserLevelId
+      ? await db.iam.userLevels.findById(config.defaultUserLevelId, companyId)
+      : (await db.iam.userLevels.findAll(companyId)).find((userLevel) => userLevel.isDefault);
+    if (!level) {
+      return;
+    }
+
+    const previousLevelIds = await db.iam.userUserLevels.getUserLevels(userId);
+    if (previousLevelIds.includes(level.id)) {
+      return;
+    }
+
+    await db.iam.userUserLevels.add(userId, level.id);
+
+    await auditService.logUserLevelsAssigned(
+      userId,
+      companyId,
+      userId,
+      [...previousLevelIds, level.id],
+      previousLevelIds
+    );
+  }
+
+  /**
+   * Reject assertions that were already used to log in
+   */
+  private async consumeAssertion(companyId: string, profile: Profile): Promise<void> {
+    const assertion = (profile.getAssertion?.() as { Assertion?: { $?: { ID?: string } } } | undefined)?.Assertion;
+    const assertionId = assertion?.$?.ID;
+    if (!assertionId) {
+      throw new Error('Invalid SAML response');
+    }
+
+    await this.samlRepo.deleteExpiredAssertions();
+
+    const firstUse = await this.samlRepo.markAssertionConsumed({
+      companyId,
+      assertionId,
+      expiresAt: new Date(this.assertionExpiry(profile).getTime() + CLOCK_SKEW_MS),
+    });
+    if (!firstUse) {
+      throw new Error('SAML response has already been used');
+    }
+  }
+
+  /**
+   * Latest NotOnOrAfter of the assertion (conditions or subject confirmation)
+   */
+  private assertionExpiry(profile: Profile): Date {
+    const xml = profile.getAssertionXml?.() ?? '';
+    const timestamps = Array.from(xml.matchAll(/NotOnOrAfter="([^"]+)"/g))
+      .map((match) => Date.parse(match[1]))
+      .filter((time) => !Number.isNaN(time));
+
+    return timestamps.length > 0
+      ? new Date(Math.max(...timestamps))
+      : new Date(Date.now() + ASSERTION_REPLAY_WINDOW_MS);
+  }
+
+  /**
+   * First value of a SAML attribute, as a trimmed string
+   */
+  private attribute(profile: Profile, name: string | undefined): string | null {
+    if (!name) {
+      return null;
+    }
+
+    const value = profile[name];
+    const first = Array.isArray(value) ? value[0] : value;
+
+    return typeof first === 'string' && first.trim() ? first.trim() : null;
+  }
+
+  /**
+   * Build the node-saml instance for a company's IdP
+   */
+  private createSaml(company: Company, config: CompanySamlConfig): SAML {
+    const sp = this.serviceProvider(company);
+
+    return new SAML({
+      issuer: sp.entityId,
+      callbackUrl: sp.acsUrl,
+      audience: sp.entityId,
+      entryPoint: config.idpSsoUrl,
+      idpIssuer: config.idpEntityId,
+      idpCert: config.idpCertificates,
+      identifierFormat: null,
+      wantAssertionsSigned: true,
+      wantAuthnResponseSigned: false, // Most IdPs sign only the assertion
+      acceptedClockSkewMs: CLOCK_SKEW_MS,
+      validateInResponseTo: config.allowIdpInitiated ? ValidateInResponseTo.ifPresent : ValidateInResponseTo.always,
+      requestIdExpirationPeriodMs: AUTH_REQUEST_TTL_SECONDS * 1000,
+      cacheProvider: this.requestCache(company.id),
+    });
+  }
+
+  /**
+   * Store AuthnRequest IDs in the database, scoped to the company
+   *
+   * node-saml saves the ID when building the login URL and checks the
+   * response's InResponseTo against it.
+   */
+  private requestCache(companyId: string): CacheProvider {
+    return {
+      saveAsync: async (requestId, value) => {
+        const createdAt = new Date(value);
+        await this.samlRepo.createAuthRequest({
+          requestId,
+          companyId,
+          createdAt,
+          expiresAt: new Date(createdAt.getTime() + AUTH_REQUEST_TTL_SECONDS * 1000),
+        });
+        return { value, createdAt: createdAt.getTime() };
+      },
+      getAsync: async (requestId) => {
+        const request = await this.samlRepo.findAuthRequest(requestId);
+        if (!request || request.companyId !== companyId || request.expiresAt <= new Date()) {
+          return null;
+        }
+        return request.createdAt.toISOString();
+      },
+      removeAsync: async (requestId) => {
+        const request = requestId ? await this.samlRepo.findAuthRequest(requestId) : null;
+        if (!request || request.companyId !== companyId) {
+          return null;
+        }
+        await this.samlRepo.deleteAuthRequest(request.requestId);
+        return request.createdAt.toISOString();
+      },
+    };
+  }
+
+  /**
+   * Our service provider endpoints for a company
+   */
+  private serviceProvider(company: Company): SamlConfigInfo['serviceProvider'] {
+    const metadataUrl = buildApiUrl(`/api/sso/saml/${company.id}/metadata`);
+
+    return {
+      entityId: metadataUrl,
+      acsUrl: buildApiUrl(`/api/sso/saml/${company.id}/acs`),
+      metadataUrl,
+    };
+  }
+
+  /**
+   * Whether one of the company owners has a plan with SSO
+   *
+   * Companies have no plan of their own; they use their owners' subscription.
+   */
+  private async companyPlanIncludesSso(companyId: string): Promise<boolean> {
+    const owners = (await this.companiesRepo.getMembers(companyId)).filter((member) => member.role === 'owner');
+
+    for (const owner of owners) {
+      const subscription = await db.subscriptions.findByUserId(owner.userId);
+      if (
+        subscription &&
+        subscription.status !== SubscriptionStatus.CANCELED &&
+        planIncludesFeature(subscription.planTier, SSO_PLAN_FEATURE)
+      ) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Load an enabled configuration for login, re-checking the plan
+   */
+  private async requireEnabledConfig(companyRef: string): Promise<{ company: Company; config: CompanySamlConfig }> {
+    const company = await this.findCompany(companyRef);
+
+    const config = await this.samlRepo.findConfig(company.id);
+    if (!config?.enabled || !(await this.companyPlanIncludesSso(company.id))) {
+      throw new Error('Single sign-on is not enabled for this company');
+    }
+
+    return { company, config };
+  }
+
+  /**
+   * Check the user is an owner or admin of the company
+   */
+  private async requireCompanyAdmin(companyId: string, userId: string): Promise<Company> {
+    const member = await this.companiesRepo.getMember(companyId, userId);
+    if (!member || (member.role !== 'owner' && member.role !== 'admin')) {
+      throw new Error('Insufficient permissions');
+    }
+
+    return this.findCompany(companyId);
+  }
+
+  /**
+   * Find a company by ID or slug
+   */
+  private async findCompany(companyRef: string): Promise<Company> {
+    const company =
+      (await this.companiesRepo.findById(companyRef)) ?? (await this.companiesRepo.findBySlug(companyRef));
+    if (!company) {
+      throw new Error('Company not found');
+    }
+
+    return company;
+  }
+
+  /**
+   * Admin view of a configuration
+   */
+  private toConfigInfo(company: Company, config: CompanySamlConfig): SamlConfigInfo {
+    return {
+      enabled: config.enabled,
+      idpEntityId: config.idpEntityId,
+      idpSsoUrl: config.idpSsoUrl,
+      idpCertificateCount: config.idpCertificates.length,
+      attributeMapping: config.attributeMapping,
+      defaultRole: config.defaultRole as SamlConfigInfo['defaultRole'],
+      defaultUserLevelId: config.defaultUserLevelId,
+      allowIdpInitiated: config.allowIdpInitiated,
+      updatedAt: config.updatedAt.toISOString(),
+      serviceProvider: this.serviceProvider(company),
+    };
+  }
+}
+
+/**
+ * Admin view of an SSO domain
+ */
+function toDomainInfo(entry: CompanySsoDomain): SsoDomainInfo {
+  return {
+    domain: entry.domain,
+    verified: entry.verifiedAt !== null,
+    verifiedAt: entry.verifiedAt?.toISOString() ?? null,
+    verificationRecord: {
+      type: 'TXT',
+      name: `${DOMAIN_VERIFICATION_RECORD}.${entry.domain}`,
+      value: `${DOMAIN_VERIFICATION_PREFIX}${entry.verificationToken}`,
+    },
+  };
+}
@@ -0,0 +1,375 @@
+import express, { Router, type Request, type Response } from 'express';
+import { SamlService } from './saml.service';
+import { samlConfigSchema, ssoDomainSchema, ssoExchangeSchema } from './sso.types';
+import { AuthService } from '../auth/auth.service';
+import { authenticateJWT } from '../../shared/middleware/auth';
+import { requireCompanyMfa } from '../../shared/middleware/mfaPolicy';
+import { ApiResponse } from '../../shared/utils/response';
+import { getClientInfo } from '../../shared/utils/request';
+import { buildFrontendUrl } from '../../shared/utils/url';
+
+/**
+ * SSO Router
+ *
+ * Per-company SAML single sign-on: configuration (owners and admins),
+ * service provider endpoints for the IdP, and the session exchange.
+ */
+export function createSsoRouter(): Router {
+  const router = Router();
+  const samlService = new SamlService();
+  const authService = new AuthService();
+
+  /**
+   * GET /api/sso/companies/:companyId/saml
+   *
+   * Get the company's SAML configuration and the values to enter at the IdP (owner or admin)
+   *
+   * @returns {status: 'success', data: {config: SamlConfigInfo | null}}
+   */
+  router.get('/companies/:companyId/saml', authenticateJWT, requireCompanyMfa('companyId'), async (req: Request, res: Response) => {
+    try {
+      const config = await samlService.getConfig(req.params.companyId, req.user!.userId);
+
+      return ApiResponse.success(res, { config });
+    } catch (error) {
+      console.error('Get SAML config error:', error);
+
+      if (error instanceof Error && error.message === 'Insufficient permissions') {
+        return ApiResponse.forbidden(res, error.message);
+      }
+
+      return ApiResponse.error(res, 'Failed to get SAML configuration', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * PUT /api/sso/companies/:companyId/saml
+   *
+   * Create or replace the company's SAML configuration (owner or admin, Pro and Enterprise plans)
+   *
+   * @body {idpMetadataXml?: string, idpEntityId?: string, idpSsoUrl?: string, idpCertificates?: string[],
+   *        attributeMapping?: {email?, firstName?, lastName?, name?}, defaultRole?: 'admin' | 'member',
+   *        defaultUserLevelId?: string | null, allowIdpInitiated?: boolean, enabled?: boolean}
+   * @returns {status: 'success', data: {config: SamlConfigInfo}}
+   */
+  router.put('/companies/:companyId/saml', authenticateJWT, requireCompanyMfa('companyId'), async (req: Request, res: Response) => {
+    const validation = samlConfigSchema.safeParse(req.body);
+    if (!validation.success) {
+      const errors = validation.error.errors.map((err) => ({
+        field: err.path.join('.'),
+        message: err.message,
+        code: 'ERR_VALIDATION_003',
+      }));
+      return ApiResponse.validationError(res, errors);
+    }
+
+    try {
+      const config = await samlService.saveConfig(req.params.companyId, req.user!.userId, validation.data);
+
+      return ApiResponse.success(res, { config });
+    } catch (error) {
+      console.error('Save SAML config error:', error);
+
+      if (error instanceof Error) {
+        switch (error.message) {
+          case 'Insufficient permissions':
+          case 'Single sign-on is not available on the company plan':
+            return ApiResponse.forbidden(res, error.message);
+          case 'Invalid IdP metadata':
+          case 'IdP metadata has no HTTP-Redirect SingleSignOnService':
+          case 'IdP metadata has no signing certificate':
+          case 'Invalid IdP certificate':
+          case 'User level not found':
+            return ApiResponse.badRequest(res, error.message);
+        }
+      }
+
+      return ApiResponse.error(res, 'Failed to save SAML configuration', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * DELETE /api/sso/companies/:companyId/saml
+   *
+   * Remove the company's SAML configuration (owner or admin)
+   */
+  router.delete('/companies/:companyId/saml', authenticateJWT, requireCompanyMfa('companyId'), async (req: Request, res: Response) => {
+    try {
+      await samlService.deleteConfig(req.params.companyId, req.user!.userId);
+
+      return ApiResponse.success(res, { message: 'SAML configuration removed' });
+    } catch (error) {
+      console.error('Delete SAML config error:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Insufficient permissions') {
+          return ApiResponse.forbidden(res, error.message);
+        }
+        if (error.message === 'SAML is not configured for this company') {
+          return ApiResponse.notFound(res, error.message);
+        }
+      }
+
+      return ApiResponse.error(res, 'Failed to remove SAML configuration', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * GET /api/sso/companies/:companyId/saml/domains
+   *
+   * List the company's SSO email domains and their verification records (owner or admin)
+   *
+   * @returns {status: 'success', data: {domains: SsoDomainInfo[]}}
+   */
+  router.get('/companies/:companyId/saml/domains', authenticateJWT, requireCompanyMfa('companyId'), async (req: Request, res: Response) => {
+    try {
+      const domains = await samlService.listDomains(req.params.companyId, req.user!.userId);
+
+      return ApiResponse.success(res, { domains });
+    } catch (error) {
+      console.error('List SSO domains error:', error);
+
+      if (error instanceof Error && error.message === 'Insufficient permissions') {
+        return ApiResponse.forbidden(res, error.message);
+      }
+
+      return ApiResponse.error(res, 'Failed to list SSO domains', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * POST /api/sso/companies/:companyId/saml/domains
+   *
+   * Add an email domain; publish the returned TXT record, then verify it (owner or admin)
+   *
+   * @body {domain: string}
+   * @returns {status: 'success', data: {domain: SsoDomainInfo}}
+   */
+  router.post('/companies/:companyId/saml/domains', authenticateJWT, requireCompanyMfa('companyId'), async (req: Request, res: Response) => {
+    const validation = ssoDomainSchema.safeParse(req.body);
+    if (!validation.success) {
+      const errors = validation.error.errors.map((err) => ({
+        field: err.path.join('.'),
+        message: err.message,
+        code: 'ERR_VALIDATION_003',
+      }));
+      return ApiResponse.validationError(res, errors);
+    }
+
+    try {
+      const domain = await samlService.addDomain(req.params.companyId, req.user!.userId, validation.data.domain);
+
+      return ApiResponse.created(res, { domain });
+    } catch (error) {
+      console.error('Add SSO domain error:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Insufficient permissions') {
+          return ApiResponse.forbidden(res, error.message);
+        }
+        if (error.message === 'Domain is verified by another company') {
+          return ApiResponse.conflict(res, error.message);
+        }
+      }
+
+      return ApiResponse.error(res, 'Failed to add SSO domain', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * POST /api/sso/companies/:companyId/saml/domains/:domain/verify
+   *
+   * Check the domain's TXT record and mark it verified (owner or admin)
+   *
+   * @returns {status: 'success', data: {domain: SsoDomainInfo}}
+   */
+  router.post(
+    '/companies/:companyId/saml/domains/:domain/verify',
+    authenticateJWT,
+    requireCompanyMfa('companyId'),
+    async (req: Request, res: Response) => {
+      try {
+        const domain = await samlService.verifyDomain(
+          req.params.companyId,
+          req.user!.userId,
+          req.params.domain.toLowerCase()
+        );
+
+        return ApiResponse.success(res, { domain });
+      } catch (error) {
+        console.error('Verify SSO domain error:', error);
+
+        if (error instanceof Error) {
+          switch (error.message) {
+            case 'Insufficient permissions':
+              return ApiResponse.forbidden(res, error.message);
+            case 'Domain not found':
+              return ApiResponse.notFound(res, error.message);
+            case 'Domain is verified by another company':
+              return ApiResponse.conflict(res, error.message);
+            case 'Domain verification record not found':
+              return ApiResponse.badRequest(res, error.message);
+          }
+        }
+
+        return ApiResponse.error(res, 'Failed to verify SSO domain', 500, 'ERR_INTERNAL_001');
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/sso/companies/:companyId/saml/domains/:domain
+   *
+   * Remove an email domain (owner or admin)
+   */
+  router.delete(
+    '/companies/:companyId/saml/domains/:domain',
+    authenticateJWT,
+    requireCompanyMfa('companyId'),
+    async (req: Request, res: Response) => {
+      try {
+        await samlService.removeDomain(req.params.companyId, req.user!.userId, req.params.domain.toLowerCase());
+
+        return ApiResponse.success(res, { message: 'SSO domain removed' });
+      } catch (error) {
+        console.error('Remove SSO domain error:', error);
+
+        if (error instanceof Error) {
+          if (error.message === 'Insufficient permissions') {
+            return ApiResponse.forbidden(res, error.message);
+          }
+          if (error.message === 'Domain not found') {
+            return ApiResponse.notFound(res, error.message);
+          }
+        }
+
+        return ApiResponse.error(res, 'Failed to remove SSO domain', 500, 'ERR_INTERNAL_001');
+      }
+    }
+  );
+
+  /**
+   * GET /api/sso/saml/:company/metadata
+   *
+   * Service provider metadata (entity ID, ACS URL) for the company's IdP.
+   * `:company` is the company ID or slug.
+   *
+   * @returns SAML 2.0 EntityDescriptor (application/samlmetadata+xml)
+   */
+  router.get('/saml/:company/metadata', async (req: Request, res: Response) => {
+    try {
+      const metadata = await samlService.getServiceProviderMetadata(req.params.company);
+
+      return res.type('application/samlmetadata+xml').send(metadata);
+    } catch (error) {
+      console.error('SAML metadata error:', error);
+
+      if (error instanceof Error && error.message === 'Company not found') {
+        return ApiResponse.notFound(res, error.message);
+      }
+
+      return ApiResponse.error(res, 'Failed to generate SAML metadata', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * GET /api/sso/saml/:company/authorize
+   *
+   * Start an SP-initiated login. The frontend sends the browser to
+   * `authorizationUrl`; the IdP posts its response to the ACS.
+   *
+   * @returns {status: 'success', data: {authorizationUrl: string, expiresIn: number}}
+   */
+  router.get('/saml/:company/authorize', async (req: Request, res: Response) => {
+    try {
+      const result = await samlService.createAuthorizationRequest(req.params.company);
+
+      return ApiResponse.success(res, result);
+    } catch (error) {
+      console.error('SAML login error:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Company not found') {
+          return ApiResponse.notFound(res, error.message);
+        }
+        if (error.message === 'Single sign-on is not enabled for this company') {
+          return ApiResponse.badRequest(res, error.message);
+        }
+      }
+
+      return ApiResponse.error(res, 'SAML login failed', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * POST /api/sso/saml/:company/acs
+   *
+   * Assertion consumer service (HTTP-POST binding), for SP- and IdP-initiated logins.
+   * Redirects the browser to FRONTEND_URL/auth/sso/callback with a one-time
+   * `code` for POST /api/sso/exchange, or with `error` if the login failed.
+   *
+   * @body {SAMLResponse: string, RelayState?: string} (form-encoded)
+   */
+  router.post('/saml/:company/acs', express.urlencoded({ extended: false, limit: '1mb' }), async (req: Request, res: Response) => {
+    const samlResponse = typeof req.body?.SAMLResponse === 'string' ? req.body.SAMLResponse : '';
+
+    try {
+      const { code } = await samlService.handleResponse(req.params.company, samlResponse);
+
+      return res.redirect(302, buildFrontendUrl('/auth/sso/callback', { code }));
+    } catch (error) {
+      console.error('SAML ACS error:', error);
+
+      const message =
+        error instanceof Error &&
+        [
+          'Company not found',
+          'Single sign-on is not enabled for this company',
+          'Invalid SAML response',
+          'SAML response has already been used',
+          'Identity provider did not return an email address',
+          'Email already registered with another sign-in method',
+        ].includes(error.message)
+          ? error.message
+          : 'SAML login failed';
+
+      return res.redirect(302, buildFrontendUrl('/auth/sso/callback', { error: message }));
+    }
+  });
+
+  /**
+   * POST /api/sso/exchange
+   *
+   * Exchange the one-time code from the SSO callback for a session
+   *
+   * @body {code: string}
+   * @returns {status: 'success', data: {user: PublicUser, token: string, refreshToken: string, expiresIn: number}}
+   */
+  router.post('/exchange', async (req: Request, res: Response) => {
+    const validation = ssoExchangeSchema.safeParse(req.body);
+    if (!validation.success) {
+      const errors = validation.error.errors.map((err) => ({
+        field: err.path.join('.'),
+        message: err.message,
+        code: 'ERR_VALIDATION_003',
+      }));
+      return ApiResponse.validationError(res, errors);
+    }
+
+    try {
+      const result = await authService.completeSsoLogin(validation.data.code, getClientInfo(req));
+
+      return ApiResponse.success(res, result);
+    } catch (error) {
+      console.error('SSO exchange error:', error);
+
+      if (error instanceof Error && error.message === 'Invalid or expired token') {
+        return ApiResponse.unauthorized(res, 'Invalid or expired code');
+      }
+
+      return ApiResponse.error(res, 'SSO login failed', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  return router;
+}
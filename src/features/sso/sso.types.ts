@@ -0,0 +1,109 @@
+import { z } from 'zod';
+
+/**
+ * Base64 certificate body or PEM block
+ */
+const certificateSchema = z.string().trim().min(100, 'Invalid certificate').max(16384);
+
+/**
+ * SAML attribute names (as sent by the IdP) for user profile fields
+ */
+export const samlAttributeMappingSchema = z
+  .object({
+    email: z.string().trim().min(1).max(255).optional(),
+    firstName: z.string().trim().min(1).max(255).optional(),
+    lastName: z.string().trim().min(1).max(255).optional(),
+    name: z.string().trim().min(1).max(255).optional(),
+  })
+  .strict();
+
+/**
+ * Create or replace a company's SAML configuration
+ *
+ * The IdP is described either by its metadata XML or by entity ID,
+ * SSO URL and signing certificate(s).
+ */
+export const samlConfigSchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    idpMetadataXml: z.string().min(1).max(512 * 1024).optional(),
+    idpEntityId: z.string().trim().min(1).max(500).optional(),
+    idpSsoUrl: z.string().trim().url('IdP SSO URL must be a valid URL').max(500).optional(),
+    idpCertificates: z.array(certificateSchema).min(1).max(5).optional(),
+    attributeMapping: samlAttributeMappingSchema.default({}),
+    defaultRole: z.enum(['admin', 'member']).default('member'),
+    defaultUserLevelId: z.string().uuid().nullable().default(null),
+    allowIdpInitiated: z.boolean().default(true),
+  })
+  .refine(
+    (data) => !!data.idpMetadataXml || (!!data.idpEntityId && !!data.idpSsoUrl && !!data.idpCertificates),
+    { message: 'Provide idpMetadataXml, or idpEntityId, idpSsoUrl and idpCertificates' }
+  );
+
+export type SamlConfigDTO = z.infer<typeof samlConfigSchema>;
+
+/**
+ * Add an email domain to verify for SSO
+ */
+export const ssoDomainSchema = z.object({
+  domain: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .max(255)
+    .regex(/^(?=.{1,255}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/, 'Invalid domain'),
+});
+
+export type SsoDomainDTO = z.infer<typeof ssoDomainSchema>;
+
+/**
+ * Exchange the one-time code from the SSO callback for a session
+ */
+export const ssoExchangeSchema = z.object({
+  code: z.string().min(1, 'Code is required').max(512),
+});
+
+export type SsoExchangeDTO = z.infer<typeof ssoExchangeSchema>;
+
+/**
+ * A company's SAML configuration as shown to company admins,
+ * with the service provider values to enter at the IdP
+ */
+export interface SamlConfigInfo {
+  enabled: boolean;
+  idpEntityId: string;
+  idpSsoUrl: string;
+  idpCertificateCount: number;
+  attributeMapping: z.infer<typeof samlAttributeMappingSchema>;
+  defaultRole: 'admin' | 'member';
+  defaultUserLevelId: string | null;
+  allowIdpInitiated: boolean;
+  updatedAt: string;
+  serviceProvider: {
+    entityId: string;
+    acsUrl: string;
+    metadataUrl: string;
+  };
+}
+
+/**
+ * URL to send the browser to for SP-initiated login
+ */
+export interface SamlAuthorizeResponse {
+  authorizationUrl: string;
+  expiresIn: number; // Seconds the request stays valid
+}
+
+/**
+ * An SSO email domain and the DNS record that verifies it
+ */
+export interface SsoDomainInfo {
+  domain: string;
+  verified: boolean;
+  verifiedAt: string | null;
+  verificationRecord: {
+    type: 'TXT';
+    name: string; // e.g. '_vertical-vibing-verification.acme.com'
+    value: string;
+  };
+}
@@ -0,0 +1,279 @@
+/**
+ * GDPR Data Export and Account Erasure Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AccountDataService, CompanyOwnershipError } from '../account-data.service';
+import { db } from '../../../shared/db/client';
+import { UsersRepository } from '../../../shared/db/repositories/users.repository';
+import { CompaniesRepository } from '../../../shared/db/repositories/companies.repository';
+import { SubscriptionsRepository } from '../../../shared/db/repositories/subscriptions.repository';
+import { AccountErasuresRepository } from '../../../shared/db/repositories/account-erasures.repository';
+import { CompaniesService } from '../../companies/companies.service';
+import { tokenRevocationService } from '../../../shared/services/token-revocation.service';
+import { personalAccessTokenService } from '../../../shared/services/personal-access-token.service';
+import { hashPassword } from '../../../shared/utils/password';
+import { hashToken } from '../../../shared/utils/token';
+
+// shared-types is not built in this workspace; only runtime enums are needed
+vi.mock('@vertical-vibing/shared-types', () => ({
+  CompanyRole: { OWNER: 'owner', ADMIN: 'admin', MEMBER: 'member' },
+  PlanTier: { FREE: 'free', STARTER: 'starter', PRO: 'pro', ENTERPRISE: 'enterprise' },
+  SubscriptionStatus: { ACTIVE: 'active', CANCELED: 'canceled' },
+}));
+
+// Everything but email data lives in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+// IAM tables are PostgreSQL-only in the app; use the in-memory implementation
+vi.mock('../../../shared/db/repositories/iam.repository', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../shared/db/repositories/iam.repository')>();
+  const iamDb = new actual.InMemoryIAMDatabase();
+  return { ...actual, iamDb, getIAMDb: () => iamDb };
+});
+
+const getPersonalData = vi.fn();
+const erasePersonalData = vi.fn();
+vi.mock('../../email/compliance.service', () => ({
+  ComplianceService: vi.fn().mockImplementation(() => ({ getPersonalData, erasePersonalData })),
+}));
+
+describe('Account data', () => {
+  let service: AccountDataService;
+  let usersRepository: UsersRepository;
+  let companiesRepository: CompaniesRepository;
+  let subscriptionsRepository: SubscriptionsRepository;
+  let erasuresRepository: AccountErasuresRepository;
+  let userId: string;
+  let email: string;
+  let colleagueId: string;
+  let companyId: string;
+  let consoleSpy: any;
+
+  const password = 'Password123';
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    getPersonalData.mockReset().mockResolvedValue({
+      emailLogs: [{ id: 'log-1', templateName: 'welcome', subject: 'Welcome!', status: 'sent', sentAt: null, createdAt: new Date() }],
+      unsubscribePreferences: [],
+    });
+    erasePersonalData.mockReset().mockResolvedValue({ emailLogsPseudonymized: 3, unsubscribePreferencesRemoved: 1 });
+
+    service = new AccountDataService();
+    usersRepository = new UsersRepository(db);
+    companiesRepository = new CompaniesRepository(db);
+    subscriptionsRepository = new SubscriptionsRepository(db);
+    erasuresRepository = new AccountErasuresRepository(db);
+
+    email = `gdpr-${crypto.randomUUID()}@example.com`;
+    const user = await usersRepository.create({
+      email,
+      name: 'GDPR User',
+      passwordHash: await hashPassword(password),
+    });
+    userId = user.id;
+    const colleague = await usersRepository.create({
+      email: `colleague-${crypto.randomUUID()}@example.com`,
+      name: 'Colleague',
+      passwordHash: null,
+    });
+    colleagueId = colleague.id;
+
+    const company = await new CompaniesService().createCompany({
+      name: 'Acme',
+      slug: `acme-${crypto.randomUUID()}`,
+      ownerId: userId,
+    });
+    companyId = company.id;
+    await companiesRepository.addMember({ id: crypto.randomUUID(), companyId, userId: colleagueId, role: 'member' as any });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    consoleSpy.mockRestore();
+  });
+
+  /**
+   * Assign a user level of the test company to the user
+   */
+  const assignUserLevel = async (name: string) => {
+    const userLevelId = crypto.randomUUID();
+    await db.iam.userLevels.create({
+      id: userLevelId,
+      companyId,
+      name,
+      isDefault: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    } as any);
+    await db.iam.userUserLevels.add(userId, userLevelId);
+    return userLevelId;
+  };
+
+  it('should export the profile, memberships, IAM assignments, subscription and email data', async () => {
+    const userLevelId = await assignUserLevel('Editors');
+    await subscriptionsRepository.create({
+      userId,
+      planTier: 'pro',
+      status: 'active',
+      currentPeriodStart: new Date(),
+      currentPeriodEnd: new Date(Date.now() + 30 * DAY_MS),
+      cancelAtPeriodEnd: false,
+    } as any);
+
+    const archive = await service.exportData(userId);
+
+    expect(archive.profile).toMatchObject({ id: userId, email, name: 'GDPR User' });
+    expect(archive.profile).not.toHaveProperty('passwordHash');
+    expect(archive.companies).toEqual([expect.objectContaining({ companyId, name: 'Acme', role: 'owner' })]);
+    expect(archive.iamAssignments).toEqual([{ userLevelId, name: 'Editors', companyId }]);
+    expect(archive.subscription).toMatchObject({ userId, planTier: 'pro' });
+    expect(archive.emailLogs).toEqual([expect.objectContaining({ id: 'log-1', subject: 'Welcome!' })]);
+    expect(getPersonalData).toHaveBeenCalledWith(email);
+  });
+
+  it('should require a new owner for companies the user is the only owner of', async () => {
+    await expect(service.scheduleErasure(userId, { currentPassword: 'WrongPassword1', ownershipTransfers: [] })).rejects.toThrow(
+      'Current password is incorrect'
+    );
+
+    const blocked = service.scheduleErasure(userId, { currentPassword: password, ownershipTransfers: [] });
+    await expect(blocked).rejects.toBeInstanceOf(CompanyOwnershipError);
+    await expect(blocked).rejects.toMatchObject({ companies: [{ id: companyId, name: 'Acme' }] });
+
+    // The new owner must be a member of the company
+    const stranger = await usersRepository.create({ email: `stranger-${crypto.randomUUID()}@example.com`, name: 'Stranger' });
+    await expect(
+      service.scheduleErasure(userId, {
+        currentPassword: password,
+        ownershipTransfers: [{ companyId, newOwnerId: stranger.id }],
+      })
+    ).rejects.toBeInstanceOf(CompanyOwnershipError);
+  });
+
+  it('should schedule an erasure after the grace period and let the user cancel it', async () => {
+    const erasure = await service.scheduleErasure(userId, {
+      currentPassword: password,
+      ownershipTransfers: [{ companyId, newOwnerId: colleagueId }],
+    });
+
+    expect(erasure.status).toBe('scheduled');
+    expect(new Date(erasure.scheduledFor).getTime()).toBe(Date.now() + 30 * DAY_MS);
+    await expect(
+      service.scheduleErasure(userId, { currentPassword: password, ownershipTransfers: [{ companyId, newOwnerId: colleagueId }] })
+    ).rejects.toThrow('Account erasure already scheduled');
+
+    await service.cancelErasure(userId);
+
+    expect(await service.getScheduledErasure(userId)).toBeNull();
+    vi.setSystemTime(Date.now() + 31 * DAY_MS);
+    await service.runDueErasures();
+    expect(await usersRepository.findById(userId)).not.toBeNull();
+  });
+
+  it('should erase the account once the grace period is over', async () => {
+    const revokeAll = vi.spyOn(tokenRevocationService, 'revokeAllForUser');
+    await assignUserLevel('Editors');
+    const { id } = await service.scheduleErasure(userId, {
+      currentPassword: password,
+      ownershipTransfers: [{ companyId, newOwnerId: colleagueId }],
+    });
+
+    expect(await service.runDueErasures()).toBe(0); // Still in the grace period
+
+    vi.setSystemTime(Date.now() + 30 * DAY_MS);
+    expect(await service.runDueErasures()).toBe(1);
+
+    expect(await usersRepository.findById(userId)).toBeNull();
+    expect(await usersRepository.findByEmail(email)).toBeNull();
+    expect(await companiesRepository.getMember(companyId, userId)).toBeNull();
+    expect(await companiesRepository.getMember(companyId, colleagueId)).toMatchObject({ role: 'owner' });
+    expect(await db.iam.userUserLevels.getUserLevels(userId)).toEqual([]);
+    expect(erasePersonalData).toHaveBeenCalledWith(email, `erased-${id}@erased.invalid`);
+    expect(revokeAll).toHaveBeenCalledWith(userId, 'account_erased');
+
+    // The request stays behind as the compliance record, without the address
+    const record = await erasuresRepository.findById(id);
+    expect(record).toMatchObject({
+      status: 'completed',
+      emailHash: hashToken(email),
+      summary: {
+        companiesTransferred: 1,
+        membershipsRemoved: 1,
+        userLevelsRemoved: 1,
+        subscriptionCancelled: false,
+        emailLogsPseudonymized: 3,
+        unsubscribePreferencesRemoved: 1,
+      },
+    });
+    expect(JSON.stringify(record)).not.toContain(email);
+    revokeAll.mockRestore();
+  });
+
+  it('should block the erasure if the new owner left the company', async () => {
+    const { id } = await service.scheduleErasure(userId, {
+      currentPassword: password,
+      ownershipTransfers: [{ companyId, newOwnerId: colleagueId }],
+    });
+    await companiesRepository.removeMember(companyId, colleagueId);
+
+    vi.setSystemTime(Date.now() + 30 * DAY_MS);
+    expect(await service.runDueErasures()).toBe(0);
+
+    expect(await usersRepository.findById(userId)).not.toBeNull();
+    expect(erasePersonalData).not.toHaveBeenCalled();
+    expect(await erasuresRepository.findById(id)).toMatchObject({
+      status: 'blocked',
+      blockedReason: expect.stringContaining(companyId),
+    });
+  });
+
+  it('should erase right away and hand companies to an admin when the user cannot choose', async () => {
+    const admin = await usersRepository.create({ email: `admin-${crypto.randomUUID()}@example.com`, name: 'Admin' });
+    await companiesRepository.addMember({ id: crypto.randomUUID(), companyId, userId: admin.id, role: 'admin' as any });
+    await assignUserLevel('Editors');
+    const { token } = await personalAccessTokenService.create(userId, { name: 'CI', scopes: ['*'], expiresInDays: null });
+
+    expect(await service.eraseNow(userId)).toBe(true);
+
+    expect(await usersRepository.findById(userId)).toBeNull();
+    expect(await companiesRepository.getMember(companyId, admin.id)).toMatchObject({ role: 'owner' });
+    expect(await companiesRepository.getMember(companyId, colleagueId)).toMatchObject({ role: 'member' });
+    expect(await db.iam.userUserLevels.getUserLevels(userId)).toEqual([]);
+    await expect(personalAccessTokenService.authenticate(token)).rejects.toThrow('Invalid token');
+    expect(await service.eraseNow(userId)).toBe(false);
+  });
+
+  it('should block an immediate erasure if a company has no other member', async () => {
+    await companiesRepository.removeMember(companyId, colleagueId);
+
+    expect(await service.eraseNow(userId)).toBe(false);
+
+    expect(await usersRepository.findById(userId)).not.toBeNull();
+    expect(await companiesRepository.getMember(companyId, userId)).toMatchObject({ role: 'owner' });
+    expect(await erasuresRepository.findScheduledByUserId(userId)).toBeNull();
+  });
+
+  it('should retry an erasure whose email data could not be erased', async () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    erasePersonalData.mockRejectedValueOnce(new Error('PostgreSQL unavailable'));
+    await service.scheduleErasure(userId, {
+      currentPassword: password,
+      ownershipTransfers: [{ companyId, newOwnerId: colleagueId }],
+    });
+    vi.setSystemTime(Date.now() + 30 * DAY_MS);
+
+    expect(await service.runDueErasures()).toBe(0);
+    expect(await usersRepository.findById(userId)).not.toBeNull();
+    expect(consoleErrorSpy).toHaveBeenCalledWith('Account erasure error:', expect.any(Error));
+
+    expect(await service.runDueErasures()).toBe(1);
+    expect(await usersRepository.findById(userId)).toBeNull();
+    consoleErrorSpy.mockRestore();
+  });
+});
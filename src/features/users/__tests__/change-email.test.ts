@@ -0,0 +1,156 @@
+/**
+ * Change Email Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { UsersService } from '../users.service';
+import { UsersRepository } from '../../../shared/db/repositories/users.repository';
+import { db } from '../../../shared/db/client';
+import { hashPassword } from '../../../shared/utils/password';
+import { tokenRevocationService } from '../../../shared/services/token-revocation.service';
+
+// Users and tokens live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../../shared/db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+const sendEmail = vi.fn();
+vi.mock('../../email/email.service', () => ({
+  EmailService: vi.fn().mockImplementation(() => ({ sendEmail })),
+}));
+
+const canSendEmail = vi.fn();
+const transferPreferences = vi.fn();
+vi.mock('../../email/compliance.service', () => ({
+  ComplianceService: vi.fn().mockImplementation(() => ({ canSendEmail, transferPreferences })),
+}));
+
+describe('Change email', () => {
+  let service: UsersService;
+  let usersRepository: UsersRepository;
+  let oldEmail: string;
+  let newEmail: string;
+  let userId: string;
+  let consoleSpy: any;
+
+  const password = 'Password123';
+
+  /**
+   * Token from the link in the last email sent with a template
+   */
+  const linkToken = (templateName: string, urlField: string): string => {
+    const message = sendEmail.mock.calls.map(([m]) => m).filter((m) => m.templateName === templateName).pop();
+    return new URL(message.templateData[urlField]).searchParams.get('token')!;
+  };
+
+  beforeEach(async () => {
+    sendEmail.mockReset();
+    canSendEmail.mockReset().mockResolvedValue({ canSend: true });
+    transferPreferences.mockReset().mockResolvedValue(undefined);
+    consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    usersRepository = new UsersRepository(db);
+    service = new UsersService(usersRepository);
+    oldEmail = `old-${crypto.randomUUID()}@example.com`;
+    newEmail = `new-${crypto.randomUUID()}@example.com`;
+    const user = await usersRepository.create({
+      email: oldEmail,
+      name: 'Change User',
+      passwordHash: await hashPassword(password),
+      emailVerified: true,
+    });
+    userId = user.id;
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it('should email a confirmation to the new address and a revert notice to the old one', async () => {
+    await service.requestEmailChange(userId, { newEmail, currentPassword: password });
+
+    expect(sendEmail).toHaveBeenCalledTimes(2);
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        templateName: 'email-change-confirmation',
+        toAddress: newEmail,
+        templateData: expect.objectContaining({ confirmUrl: expect.stringContaining('/confirm-email-change?token=') }),
+      })
+    );
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        templateName: 'email-change-notice',
+        toAddress: oldEmail,
+        templateData: expect.objectContaining({ newEmail, revertUrl: expect.stringContaining('/revert-email-change?token=') }),
+      })
+    );
+
+    // Nothing changes until confirmed
+    expect((await usersRepository.findById(userId))!.email).toBe(oldEmail);
+  });
+
+  it('should swap the email, keep the lookup index consistent and move preferences on confirmation', async () => {
+    await service.requestEmailChange(userId, { newEmail, currentPassword: password });
+
+    const user = await service.confirmEmailChange(linkToken('email-change-confirmation', 'confirmUrl'));
+
+    expect(user.email).toBe(newEmail);
+    expect(user.emailVerified).toBe(true);
+    expect((await usersRepository.findByEmail(newEmail))!.id).toBe(userId);
+    expect(await usersRepository.findByEmail(oldEmail)).toBeNull();
+    expect(transferPreferences).toHaveBeenCalledWith(oldEmail, newEmail);
+    await expect(service.confirmEmailChange(linkToken('email-change-confirmation', 'confirmUrl'))).rejects.toThrow(
+      'Invalid or expired token'
+    );
+  });
+
+  it('should restore the old address and sign out every session on revert', async () => {
+    const revokeAll = vi.spyOn(tokenRevocationService, 'revokeAllForUser');
+    await service.requestEmailChange(userId, { newEmail, currentPassword: password });
+    const confirmToken = linkToken('email-change-confirmation', 'confirmUrl');
+    await service.confirmEmailChange(confirmToken);
+
+    await service.revertEmailChange(linkToken('email-change-notice', 'revertUrl'));
+
+    expect((await usersRepository.findById(userId))!.email).toBe(oldEmail);
+    expect((await usersRepository.findByEmail(oldEmail))!.id).toBe(userId);
+    expect(await usersRepository.findByEmail(newEmail)).toBeNull();
+    expect(transferPreferences).toHaveBeenLastCalledWith(newEmail, oldEmail);
+    expect(revokeAll).toHaveBeenCalledWith(userId, 'email_change_reverted');
+    revokeAll.mockRestore();
+  });
+
+  it('should cancel a pending change on revert', async () => {
+    await service.requestEmailChange(userId, { newEmail, currentPassword: password });
+    const confirmToken = linkToken('email-change-confirmation', 'confirmUrl');
+
+    await service.revertEmailChange(linkToken('email-change-notice', 'revertUrl'));
+
+    await expect(service.confirmEmailChange(confirmToken)).rejects.toThrow('Invalid or expired token');
+    expect((await usersRepository.findById(userId))!.email).toBe(oldEmail);
+  });
+
+  it('should refuse a wrong password or an address already in use', async () => {
+    await expect(service.requestEmailChange(userId, { newEmail, currentPassword: 'WrongPassword1' })).rejects.toThrow(
+      'Current password is incorrect'
+    );
+
+    const other = await usersRepository.create({ email: newEmail, name: 'Other', passwordHash: null });
+    await expect(service.requestEmailChange(userId, { newEmail, currentPassword: password })).rejects.toThrow(
+      'Email already in use'
+    );
+    expect(sendEmail).not.toHaveBeenCalled();
+
+    // The index rejects a direct swap onto another user's address too
+    await expect(usersRepository.update(userId, { email: other.email })).rejects.toThrow('Email already in use');
+  });
+
+  it('should not change the email through the profile update', async () => {
+    await expect(service.updateProfile(userId, { email: newEmail, name: 'Renamed' })).rejects.toThrow(
+      'Use POST /api/users/me/email to change your email address'
+    );
+
+    const user = await service.updateProfile(userId, { email: oldEmail.toUpperCase(), name: 'Renamed' });
+
+    expect(user).toMatchObject({ email: oldEmail, name: 'Renamed' });
+  });
+});
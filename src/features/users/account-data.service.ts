@@ -0,0 +1,461 @@
+import { db } from '../../shared/db/client';
+import { UsersRepository } from '../../shared/db/repositories/users.repository';
+import { CompaniesRepository } from '../../shared/db/repositories/companies.repository';
+import { TeamsRepository } from '../../shared/db/repositories/teams.repository';
+import { SubscriptionsRepository } from '../../shared/db/repositories/subscriptions.repository';
+import { AccountErasuresRepository } from '../../shared/db/repositories/account-erasures.repository';
+import type {
+  AccountErasure,
+  AccountErasureStatus,
+  AccountErasureSummary,
+  OwnershipTransfer,
+} from '../../shared/db/schema/account-erasures.schema';
+import { tokenRevocationService } from '../../shared/services/token-revocation.service';
+import { personalAccessTokenService } from '../../shared/services/personal-access-token.service';
+import { verifyPassword } from '../../shared/utils/password';
+import { Throttle, ThrottledError } from '../../shared/utils/throttle';
+import { hashToken } from '../../shared/utils/token';
+import { ComplianceService } from '../email/compliance.service';
+import { auditService } from '../iam/audit.service';
+import { SubscriptionsService } from '../subscriptions/subscriptions.service';
+import { CompanyRole, SubscriptionStatus } from '@vertical-vibing/shared-types';
+import type { AccountErasureInfo, AccountExport, ScheduleErasureDTO } from './users.types';
+
+/**
+ * Days between an erasure request and the erasure (the user can cancel meanwhile)
+ */
+const ACCOUNT_ERASURE_GRACE_DAYS = Number(process.env.ACCOUNT_ERASURE_GRACE_DAYS) || 30;
+
+/**
+ * Data exports: at most 5 per hour, one per minute, per user
+ */
+const exportThrottle = new Throttle({
+  limit: 5,
+  windowMs: 60 * 60 * 1000,
+  cooldownMs: 60 * 1000,
+});
+
+/**
+ * Thrown when companies the user is the only owner of have no valid new owner
+ */
+export class CompanyOwnershipError extends Error {
+  constructor(public companies: Array<{ id: string; name: string }>) {
+    super('Transfer or delete the companies you own first');
+    this.name = 'CompanyOwnershipError';
+  }
+}
+
+/**
+ * Account Data Service
+ *
+ * GDPR data export and account erasure
+ * - Exports bundle the profile, company memberships, IAM assignments, subscription and email data
+ * - Erasure is requested, then carried out by a background job after a grace period
+ * - Companies the user is the only owner of are handed to another member, or block the erasure
+ * - The erasure request is kept (without the address) as the compliance record
+ */
+export class AccountDataService {
+  private usersRepo: UsersRepository;
+  private companiesRepo: CompaniesRepository;
+  private teamsRepo: TeamsRepository;
+  private subscriptionsRepo: SubscriptionsRepository;
+  private erasuresRepo: AccountErasuresRepository;
+  private subscriptionsService: SubscriptionsService;
+  private complianceService: ComplianceService;
+  private jobInterval: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.usersRepo = new UsersRepository(db);
+    this.companiesRepo = new CompaniesRepository(db);
+    this.teamsRepo = new TeamsRepository(db);
+    this.subscriptionsRepo = new SubscriptionsRepository(db);
+    this.erasuresRepo = new AccountErasuresRepository(db);
+    this.subscriptionsService = new SubscriptionsService(this.subscriptionsRepo);
+    this.complianceService = new ComplianceService();
+  }
+
+  /**
+   * Build the data export archive of a user
+   *
+   * @throws Error if the user is not found
+   * @throws ThrottledError if exports are requested too often
+   */
+  async exportData(userId: string): Promise<AccountExport> {
+    const user = await this.usersRepo.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const throttle = exportThrottle.attempt(userId);
+    if (!throttle.allowed) {
+      throw new ThrottledError('Too many data exports requested', throttle.retryAfterSeconds);
+    }
+
+    const { passwordHash, ...profile } = user;
+
+    const companies: AccountExport['companies'] = [];
+    for (const company of await this.companiesRepo.findByUserId(userId)) {
+      const member = await this.companiesRepo.getMember(company.id, userId);
+      if (member) {
+        companies.push({
+          companyId: company.id,
+          name: company.name,
+          slug: company.slug,
+          role: member.role,
+          joinedAt: member.joinedAt,
+        });
+      }
+    }
+
+    // User levels are stored per company: look them up in the user's companies
+    const userLevels = (
+      await Promise.all(companies.map(({ companyId }) => db.iam.userLevels.findAll(companyId)))
+    ).flat();
+    const iamAssignments = (await db.iam.userUserLevels.getUserLevels(userId)).map((userLevelId) => {
+      const level = userLevels.find((candidate) => candidate.id === userLevelId);
+      return { userLevelId, name: level?.name ?? null, companyId: level?.companyId ?? null };
+    });
+
+    const { emailLogs, unsubscribePreferences } = await this.complianceService.getPersonalData(user.email);
+
+    return {
+      exportedAt: new Date().toISOString(),
+      profile,
+      companies,
+      iamAssignments,
+      subscription: await this.subscriptionsRepo.findByUserId(userId),
+      emailLogs,
+      unsubscribePreferences: unsubscribePreferences.map((preference) => ({
+        category: preference.category,
+        isUnsubscribed: preference.isUnsubscribed,
+        unsubscribedAt: preference.unsubscribedAt,
+        resubscribedAt: preference.resubscribedAt,
+      })),
+    };
+  }
+
+  /**
+   * Request erasure of a user's account after the grace period
+   *
+   * @param userId - Internal user ID
+   * @param dto - Current password (accounts with one) and new owners of the user's companies
+   * @throws CompanyOwnershipError if a company the user is the only owner of has no valid new owner
+   * @throws Error if the password is wrong or an erasure is already scheduled
+   */
+  async scheduleErasure(userId: string, dto: ScheduleErasureDTO): Promise<AccountErasureInfo> {
+    const user = await this.usersRepo.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.passwordHash) {
+      if (!dto.currentPassword || !(await verifyPassword(dto.currentPassword, user.passwordHash))) {
+        throw new Error('Current password is incorrect');
+      }
+    }
+
+    if (await this.erasuresRepo.findScheduledByUserId(userId)) {
+      throw new Error('Account erasure already scheduled');
+    }
+
+    const ownershipTransfers = await this.planOwnershipTransfers(userId, dto.ownershipTransfers);
+
+    const erasure = await this.erasuresRepo.create({
+      userId,
+      emailHash: hashToken(user.email.toLowerCase()),
+      ownershipTransfers,
+      scheduledFor: new Date(Date.now() + ACCOUNT_ERASURE_GRACE_DAYS * 24 * 60 * 60 * 1000),
+    });
+
+    return toErasureInfo(erasure);
+  }
+
+  /**
+   * Get a user's pending erasure, if any
+   */
+  async getScheduledErasure(userId: string): Promise<AccountErasureInfo | null> {
+    const erasure = await this.erasuresRepo.findScheduledByUserId(userId);
+    return erasure ? toErasureInfo(erasure) : null;
+  }
+
+  /**
+   * Cancel a user's pending erasure
+   *
+   * @throws Error if no erasure is scheduled
+   */
+  async cancelErasure(userId: string): Promise<void> {
+    const erasure = await this.erasuresRepo.findScheduledByUserId(userId);
+    if (!erasure) {
+      throw new Error('No account erasure scheduled');
+    }
+
+    await this.erasuresRepo.update(erasure.id, { status: 'cancelled', cancelledAt: new Date() });
+  }
+
+  /**
+   * Erase an account right away, without a grace period
+   *
+   * For accounts deleted at the identity provider: the user can't pick new owners, so
+   * companies they are the only owner of go to an admin (else a member), longest-standing
+   * first. A company with no other member blocks the erasure.
+   *
+   * @returns Whether the account was erased
+   */
+  async eraseNow(userId: string): Promise<boolean> {
+    const user = await this.usersRepo.findById(userId);
+    if (!user) {
+      return false;
+    }
+
+    // A pending erasure is carried out now, with the new owners the user chose
+    const scheduled = await this.erasuresRepo.findScheduledByUserId(userId);
+    const ownershipTransfers = await this.chooseOwnershipTransfers(userId, scheduled?.ownershipTransfers ?? []);
+    if (scheduled) {
+      await this.erasuresRepo.update(scheduled.id, { ownershipTransfers });
+      return this.erase({ ...scheduled, ownershipTransfers });
+    }
+
+    const erasure = await this.erasuresRepo.create({
+      userId,
+      emailHash: hashToken(user.email.toLowerCase()),
+      ownershipTransfers,
+      scheduledFor: new Date(),
+    });
+    return this.erase(erasure);
+  }
+
+  /**
+   * Erase every account whose grace period is over
+   *
+   * A failed erasure is logged and retried on the next run.
+   *
+   * @returns Number of accounts erased
+   */
+  async runDueErasures(): Promise<number> {
+    let erased = 0;
+
+    for (const erasure of await this.erasuresRepo.findDue(new Date())) {
+      try {
+        if (await this.erase(erasure)) {
+          erased++;
+        }
+      } catch (error) {
+        console.error('Account erasure error:', error);
+      }
+    }
+
+    return erased;
+  }
+
+  /**
+   * Start the periodic erasure job
+   *
+   * @param intervalMs - Run interval (default: 1 hour)
+   */
+  startErasureJob(intervalMs: number = 60 * 60 * 1000): void {
+    if (this.jobInterval) {
+      return;
+    }
+
+    this.jobInterval = setInterval(() => {
+      this.runDueErasures().catch((error) => {
+        console.error('Account erasure job error:', error);
+      });
+    }, intervalMs);
+    this.jobInterval.unref();
+  }
+
+  /**
+   * Stop the periodic erasure job
+   */
+  stopErasureJob(): void {
+    if (this.jobInterval) {
+      clearInterval(this.jobInterval);
+      this.jobInterval = null;
+    }
+  }
+
+  /**
+   * Erase one account
+   *
+   * Ownership is checked again first: if a company can no longer be handed over
+   * (the new owner left, or the user became an owner meanwhile), the erasure is blocked.
+   *
+   * @returns Whether the account was erased
+   */
+  private async erase(erasure: AccountErasure): Promise<boolean> {
+    const user = await this.usersRepo.findById(erasure.userId);
+    if (!user) {
+      // Deleted by other means; nothing left to erase
+      await this.finish(erasure, 'completed', { summary: emptySummary() });
+      return false;
+    }
+
+    try {
+      await this.planOwnershipTransfers(user.id, erasure.ownershipTransfers);
+    } catch (error) {
+      if (error instanceof CompanyOwnershipError) {
+        await this.finish(erasure, 'blocked', {
+          blockedReason: `${error.message}: ${error.companies.map((company) => company.id).join(', ')}`,
+        });
+        return false;
+      }
+      throw error;
+    }
+
+    const summary = emptySummary();
+
+    // Email data first: it lives in PostgreSQL and is the step most likely to fail (and be retried)
+    const emailData = await this.complianceService.erasePersonalData(user.email, `erased-${erasure.id}@erased.invalid`);
+    summary.emailLogsPseudonymized = emailData.emailLogsPseudonymized;
+    summary.unsubscribePreferencesRemoved = emailData.unsubscribePreferencesRemoved;
+
+    for (const transfer of erasure.ownershipTransfers) {
+      await this.companiesRepo.updateMemberRole(transfer.companyId, transfer.newOwnerId, CompanyRole.OWNER);
+      await auditService.logMembershipEvent(user.id, transfer.companyId, transfer.newOwnerId, 'ownership_transferred', {
+        fromUserId: user.id,
+        reason: 'account_erasure',
+      });
+      summary.companiesTransferred++;
+    }
+
+    for (const company of await this.companiesRepo.findByUserId(user.id)) {
+      await db.iam.effectiveViewPermissions.deleteForUser(user.id, company.id);
+      await db.iam.effectiveFeaturePermissions.deleteForUser(user.id, company.id);
+      await this.teamsRepo.removeUserFromCompanyTeams(company.id, user.id);
+      if (await this.companiesRepo.removeMember(company.id, user.id)) {
+        summary.membershipsRemoved++;
+      }
+    }
+
+    summary.userLevelsRemoved = (await db.iam.userUserLevels.getUserLevels(user.id)).length;
+    await db.iam.userUserLevels.replaceForUser(user.id, []);
+
+    const subscription = await this.subscriptionsRepo.findByUserId(user.id);
+    if (subscription) {
+      if (subscription.status !== SubscriptionStatus.CANCELED) {
+        await this.subscriptionsService.cancelSubscription(user.id);
+        summary.subscriptionCancelled = true;
+      }
+      await this.subscriptionsRepo.delete(subscription.id);
+    }
+
+    await tokenRevocationService.revokeAllForUser(user.id, 'account_erased');
+    await personalAccessTokenService.revokeAllForUser(user.id);
+    await this.usersRepo.delete(user.id);
+
+    await this.finish(erasure, 'completed', { summary, completedAt: new Date() });
+    return true;
+  }
+
+  /**
+   * Check the new owners of the companies a user is the only owner of
+   *
+   * @param userId - User being erased
+   * @param requested - New owners chosen by the user
+   * @returns Transfers for the companies that need one
+   * @throws CompanyOwnershipError if a company has no new owner, or the new owner is not a member
+   */
+  private async planOwnershipTransfers(
+    userId: string,
+    requested: OwnershipTransfer[]
+  ): Promise<OwnershipTransfer[]> {
+    const transfers: OwnershipTransfer[] = [];
+    const blocked: Array<{ id: string; name: string }> = [];
+
+    for (const company of await this.companiesRepo.findByUserId(userId)) {
+      const members = await this.companiesRepo.getMembers(company.id);
+      const owners = members.filter((member) => member.role === CompanyRole.OWNER);
+      if (!owners.some((owner) => owner.userId === userId) || owners.length > 1) {
+        continue;
+      }
+
+      const transfer = requested.find((candidate) => candidate.companyId === company.id);
+      const newOwner = transfer && members.find((member) => member.userId === transfer.newOwnerId);
+      if (!newOwner || newOwner.userId === userId) {
+        blocked.push({ id: company.id, name: company.name });
+        continue;
+      }
+
+      transfers.push({ companyId: company.id, newOwnerId: newOwner.userId });
+    }
+
+    if (blocked.length > 0) {
+      throw new CompanyOwnershipError(blocked);
+    }
+
+    return transfers;
+  }
+
+  /**
+   * Pick new owners for the companies a user is the only owner of
+   *
+   * @param userId - User being erased
+   * @param requested - New owners already chosen (kept when still members)
+   * @returns Transfers for the companies that have another member
+   */
+  private async chooseOwnershipTransfers(
+    userId: string,
+    requested: OwnershipTransfer[]
+  ): Promise<OwnershipTransfer[]> {
+    const transfers: OwnershipTransfer[] = [];
+    const rank = (role: string) => (role === CompanyRole.ADMIN ? 0 : 1);
+
+    for (const company of await this.companiesRepo.findByUserId(userId)) {
+      const members = await this.companiesRepo.getMembers(company.id);
+      const owners = members.filter((member) => member.role === CompanyRole.OWNER);
+      if (!owners.some((owner) => owner.userId === userId) || owners.length > 1) {
+        continue;
+      }
+
+      const candidates = members.filter((member) => member.userId !== userId);
+      const transfer = requested.find((candidate) => candidate.companyId === company.id);
+      const newOwner =
+        candidates.find((member) => member.userId === transfer?.newOwnerId) ??
+        candidates.sort((a, b) => rank(a.role) - rank(b.role) || a.joinedAt.getTime() - b.joinedAt.getTime())[0];
+      if (newOwner) {
+        transfers.push({ companyId: company.id, newOwnerId: newOwner.userId });
+      }
+    }
+
+    return transfers;
+  }
+
+  /**
+   * Close an erasure request
+   */
+  private async finish(
+    erasure: AccountErasure,
+    status: AccountErasureStatus,
+    data: { summary?: AccountErasureSummary; blockedReason?: string; completedAt?: Date }
+  ): Promise<void> {
+    await this.erasuresRepo.update(erasure.id, { status, ...data });
+  }
+}
+
+/**
+ * Summary of an erasure that removed nothing yet
+ */
+function emptySummary(): AccountErasureSummary {
+  return {
+    companiesTransferred: 0,
+    membershipsRemoved: 0,
+    userLevelsRemoved: 0,
+    subscriptionCancelled: false,
+    emailLogsPseudonymized: 0,
+    unsubscribePreferencesRemoved: 0,
+  };
+}
+
+/**
+ * Convert an erasure request to its public view
+ */
+function toErasureInfo(erasure: AccountErasure): AccountErasureInfo {
+  return {
+    id: erasure.id,
+    status: erasure.status as AccountErasureStatus,
+    scheduledFor: erasure.scheduledFor.toISOString(),
+    ownershipTransfers: erasure.ownershipTransfers,
+    createdAt: erasure.createdAt.toISOString(),
+  };
+}
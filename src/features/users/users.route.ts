@@ -1,10 +1,23 @@
 import { Router, type Request, type Response } from 'express';
 import { UsersService } from './users.service';
+import { AccountDataService, CompanyOwnershipError } from './account-data.service';
 import { UsersRepository } from '../../shared/db/repositories/users.repository';
 import { db } from '../../shared/db/client';
-import { authenticateJWT } from '../../shared/middleware/auth';
+import { authenticateJWT, requireSessionToken } from '../../shared/middleware/auth';
 import { ApiResponse } from '../../shared/utils/response';
+import { PasswordPolicyError } from '../../shared/services/password-policy.service';
+import { personalAccessTokenService } from '../../shared/services/personal-access-token.service';
+import { impersonationService } from '../../shared/services/impersonation.service';
+import { LoginHistoryService } from '../../shared/services/login-history.service';
+import { ThrottledError } from '../../shared/utils/throttle';
 import { updateProfileSchema, changePasswordSchema } from '@vertical-vibing/shared-types';
+import {
+  createPersonalAccessTokenSchema,
+  loginHistoryQuerySchema,
+  changeEmailSchema,
+  emailChangeTokenSchema,
+  scheduleErasureSchema,
+} from './users.types';
 
 /**
  * Create Users Router
@@ -15,10 +28,15 @@ export function createUsersRouter(): Router {
   const router = Router();
   const usersRepository = new UsersRepository(db);
   const usersService = new UsersService(usersRepository);
+  const loginHistoryService = new LoginHistoryService();
+  const accountDataService = new AccountDataService();
 
   /**
    * GET /api/users/me
    * Get current user profile
+   *
+   * While a super admin impersonates the user, `impersonation` holds the banner details
+   * (impersonator, reason, start and expiry).
    */
   router.get('/me', authenticateJWT, async (req: Request, res: Response) => {
     try {
@@ -30,7 +48,9 @@ export function createUsersRouter(): Router {
         return ApiResponse.notFound(res, 'User not found');
       }
 
-      return ApiResponse.success(res, { user });
+      const impersonation = await impersonationService.getBanner(req.user!);
+
+      return ApiResponse.success(res, { user, ...(impersonation && { impersonation }) });
     } catch (error) {
       console.error('Get profile error:', error);
       return ApiResponse.error(res, 'Failed to get profile', 500, 'ERR_INTERNAL_001');
@@ -39,9 +59,9 @@ export function createUsersRouter(): Router {
 
   /**
    * PATCH /api/users/me
-   * Update current user profile
+   * Update current user profile (the email address changes through POST /api/users/me/email)
    */
-  router.patch('/me', authenticateJWT, async (req: Request, res: Response) => {
+  router.patch('/me', authenticateJWT, requireSessionToken, async (req: Request, res: Response) => {
     try {
       const userId = req.user!.userId;
 
@@ -66,8 +86,8 @@ export function createUsersRouter(): Router {
     } catch (error) {
       console.error('Update profile error:', error);
 
-      if (error instanceof Error && error.message === 'Email already in use') {
-        return ApiResponse.conflict(res, 'Email already in use');
+      if (error instanceof Error && error.message === 'Use POST /api/users/me/email to change your email address') {
+        return ApiResponse.badRequest(res, error.message);
       }
 
       return ApiResponse.error(res, 'Failed to update profile', 500, 'ERR_INTERNAL_001');
@@ -76,9 +96,9 @@ export function createUsersRouter(): Router {
 
   /**
    * POST /api/users/me/change-password
-   * Change user password
+   * Change user password (checked against the password policy)
    */
-  router.post('/me/change-password', authenticateJWT, async (req: Request, res: Response) => {
+  router.post('/me/change-password', authenticateJWT, requireSessionToken, async (req: Request, res: Response) => {
     try {
       const userId = req.user!.userId;
 
@@ -99,6 +119,13 @@ export function createUsersRouter(): Router {
     } catch (error) {
       console.error('Change password error:', error);
 
+      if (error instanceof PasswordPolicyError) {
+        return ApiResponse.validationError(
+          res,
+          error.violations.map((message) => ({ field: 'newPassword', message, code: 'ERR_VALIDATION_003' }))
+        );
+      }
+
       if (error instanceof Error && error.message === 'Current password is incorrect') {
         return ApiResponse.error(res, 'Current password is incorrect', 400, 'ERR_AUTH_002');
       }
@@ -111,5 +138,341 @@ export function createUsersRouter(): Router {
     }
   });
 
+  /**
+   * POST /api/users/me/email
+   * Start an email change: a confirmation link goes to the new address and a notice
+   * with a revert link to the current one. The address changes once confirmed.
+   *
+   * @body {newEmail: string, currentPassword?: string} - Password required for accounts with one
+   */
+  router.post('/me/email', authenticateJWT, requireSessionToken, async (req: Request, res: Response) => {
+    try {
+      const validation = changeEmailSchema.safeParse(req.body);
+      if (!validation.success) {
+        const errors = validation.error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: 'ERR_VALIDATION_003',
+        }));
+        return ApiResponse.validationError(res, errors);
+      }
+
+      await usersService.requestEmailChange(req.user!.userId, validation.data);
+
+      return ApiResponse.success(res, { message: 'Confirmation email sent to the new address' });
+    } catch (error) {
+      console.error('Request email change error:', error);
+
+      if (error instanceof ThrottledError) {
+        res.setHeader('Retry-After', error.retryAfterSeconds.toString());
+        return ApiResponse.error(res, error.message, 429, 'ERR_RATE_LIMIT_001');
+      }
+
+      if (error instanceof Error) {
+        if (error.message === 'Current password is incorrect') {
+          return ApiResponse.error(res, error.message, 400, 'ERR_AUTH_002');
+        }
+        if (error.message === 'Email already in use') {
+          return ApiResponse.conflict(res, error.message);
+        }
+        if (
+          error.message === 'Email is managed by your sign-in provider' ||
+          error.message === 'New email must be different from the current email' ||
+          error.message === 'This address cannot receive email'
+        ) {
+          return ApiResponse.badRequest(res, error.message);
+        }
+        if (error.message === 'User not found') {
+          return ApiResponse.notFound(res, error.message);
+        }
+      }
+
+      return ApiResponse.error(res, 'Failed to change email', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * POST /api/users/email/confirm
+   * Confirm an email change with the token from the link sent to the new address
+   *
+   * @body {token: string}
+   */
+  router.post('/email/confirm', async (req: Request, res: Response) => {
+    try {
+      const validation = emailChangeTokenSchema.safeParse(req.body);
+      if (!validation.success) {
+        const errors = validation.error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: 'ERR_VALIDATION_003',
+        }));
+        return ApiResponse.validationError(res, errors);
+      }
+
+      const user = await usersService.confirmEmailChange(validation.data.token);
+
+      return ApiResponse.success(res, { user });
+    } catch (error) {
+      console.error('Confirm email change error:', error);
+
+      if (error instanceof Error && error.message === 'Invalid or expired token') {
+        return ApiResponse.error(res, error.message, 400, 'ERR_AUTH_008');
+      }
+
+      if (error instanceof Error && error.message === 'Email already in use') {
+        return ApiResponse.conflict(res, error.message);
+      }
+
+      return ApiResponse.error(res, 'Failed to confirm email change', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * POST /api/users/email/revert
+   * Keep (or restore) the old address with the token from the notice sent to it;
+   * signs the account out everywhere
+   *
+   * @body {token: string}
+   */
+  router.post('/email/revert', async (req: Request, res: Response) => {
+    try {
+      const validation = emailChangeTokenSchema.safeParse(req.body);
+      if (!validation.success) {
+        const errors = validation.error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: 'ERR_VALIDATION_003',
+        }));
+        return ApiResponse.validationError(res, errors);
+      }
+
+      await usersService.revertEmailChange(validation.data.token);
+
+      return ApiResponse.success(res, { message: 'Email change reverted. All sessions have been signed out.' });
+    } catch (error) {
+      console.error('Revert email change error:', error);
+
+      if (error instanceof Error && error.message === 'Invalid or expired token') {
+        return ApiResponse.error(res, error.message, 400, 'ERR_AUTH_008');
+      }
+
+      if (error instanceof Error && error.message === 'Email already in use') {
+        return ApiResponse.conflict(res, error.message);
+      }
+
+      return ApiResponse.error(res, 'Failed to revert email change', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * GET /api/users/me/tokens
+   * List the current user's personal access tokens (never the tokens themselves)
+   */
+  router.get('/me/tokens', authenticateJWT, requireSessionToken, async (req: Request, res: Response) => {
+    try {
+      const tokens = await personalAccessTokenService.list(req.user!.userId);
+
+      return ApiResponse.success(res, { tokens });
+    } catch (error) {
+      console.error('List tokens error:', error);
+      return ApiResponse.error(res, 'Failed to list tokens', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * POST /api/users/me/tokens
+   * Create a personal access token; the token is only returned in this response
+   *
+   * @body {name: string, scopes: string[], expiresInDays?: number | null}
+   */
+  router.post('/me/tokens', authenticateJWT, requireSessionToken, async (req: Request, res: Response) => {
+    try {
+      const validation = createPersonalAccessTokenSchema.safeParse(req.body);
+      if (!validation.success) {
+        const errors = validation.error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: 'ERR_VALIDATION_003',
+        }));
+        return ApiResponse.validationError(res, errors);
+      }
+
+      const result = await personalAccessTokenService.create(req.user!.userId, validation.data);
+
+      return ApiResponse.created(res, result);
+    } catch (error) {
+      console.error('Create token error:', error);
+
+      if (error instanceof Error && error.message === 'Too many active tokens') {
+        return ApiResponse.conflict(res, error.message);
+      }
+
+      return ApiResponse.error(res, 'Failed to create token', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * DELETE /api/users/me/tokens/:id
+   * Revoke a personal access token (takes effect immediately)
+   */
+  router.delete('/me/tokens/:id', authenticateJWT, requireSessionToken, async (req: Request, res: Response) => {
+    try {
+      await personalAccessTokenService.revoke(req.user!.userId, req.params.id);
+
+      return ApiResponse.success(res, { message: 'Token revoked' });
+    } catch (error) {
+      console.error('Revoke token error:', error);
+
+      if (error instanceof Error && error.message === 'Token not found') {
+        return ApiResponse.notFound(res, error.message);
+      }
+
+      return ApiResponse.error(res, 'Failed to revoke token', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * GET /api/users/me/login-history
+   * Recent successful and failed logins of the current user, newest first
+   *
+   * @query limit - Number of entries (1-100, default 50)
+   */
+  router.get('/me/login-history', authenticateJWT, requireSessionToken, async (req: Request, res: Response) => {
+    try {
+      const validation = loginHistoryQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        const errors = validation.error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: 'ERR_VALIDATION_003',
+        }));
+        return ApiResponse.validationError(res, errors);
+      }
+
+      const logins = await loginHistoryService.getHistory(req.user!.userId, validation.data.limit);
+
+      return ApiResponse.success(res, { logins });
+    } catch (error) {
+      console.error('Get login history error:', error);
+      return ApiResponse.error(res, 'Failed to get login history', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * POST /api/users/me/export
+   * Download a JSON archive of the current user's data (GDPR data export)
+   *
+   * Profile, company memberships, IAM assignments, subscription, email logs and
+   * unsubscribe preferences.
+   */
+  router.post('/me/export', authenticateJWT, requireSessionToken, async (req: Request, res: Response) => {
+    try {
+      const archive = await accountDataService.exportData(req.user!.userId);
+
+      const date = archive.exportedAt.slice(0, 10);
+      res.attachment(`account-export-${date}.json`);
+      return res.type('application/json').send(JSON.stringify(archive, null, 2));
+    } catch (error) {
+      console.error('Export account data error:', error);
+
+      if (error instanceof ThrottledError) {
+        res.setHeader('Retry-After', error.retryAfterSeconds.toString());
+        return ApiResponse.error(res, error.message, 429, 'ERR_RATE_LIMIT_001');
+      }
+
+      if (error instanceof Error && error.message === 'User not found') {
+        return ApiResponse.notFound(res, error.message);
+      }
+
+      return ApiResponse.error(res, 'Failed to export account data', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * DELETE /api/users/me
+   * Request erasure of the current user's account; it is erased after a grace period
+   *
+   * @body {currentPassword?: string, ownershipTransfers?: Array<{companyId, newOwnerId}>}
+   */
+  router.delete('/me', authenticateJWT, requireSessionToken, async (req: Request, res: Response) => {
+    try {
+      const validation = scheduleErasureSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        const errors = validation.error.errors.map((err) => ({
+          field: err.path.join('.'),
+          message: err.message,
+          code: 'ERR_VALIDATION_003',
+        }));
+        return ApiResponse.validationError(res, errors);
+      }
+
+      const erasure = await accountDataService.scheduleErasure(req.user!.userId, validation.data);
+
+      return ApiResponse.success(res, { erasure }, 202);
+    } catch (error) {
+      console.error('Schedule account erasure error:', error);
+
+      if (error instanceof CompanyOwnershipError) {
+        return ApiResponse.validationError(
+          res,
+          error.companies.map((company) => ({
+            field: 'ownershipTransfers',
+            message: `Choose a member to take over "${company.name}" (${company.id}), or delete it`,
+            code: 'ERR_VALIDATION_003',
+          }))
+        );
+      }
+
+      if (error instanceof Error) {
+        if (error.message === 'Current password is incorrect') {
+          return ApiResponse.error(res, error.message, 400, 'ERR_AUTH_002');
+        }
+        if (error.message === 'Account erasure already scheduled') {
+          return ApiResponse.conflict(res, error.message);
+        }
+        if (error.message === 'User not found') {
+          return ApiResponse.notFound(res, error.message);
+        }
+      }
+
+      return ApiResponse.error(res, 'Failed to schedule account erasure', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * GET /api/users/me/erasure
+   * Pending erasure of the current user's account (`erasure: null` if none)
+   */
+  router.get('/me/erasure', authenticateJWT, requireSessionToken, async (req: Request, res: Response) => {
+    try {
+      const erasure = await accountDataService.getScheduledErasure(req.user!.userId);
+
+      return ApiResponse.success(res, { erasure });
+    } catch (error) {
+      console.error('Get account erasure error:', error);
+      return ApiResponse.error(res, 'Failed to get account erasure', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
+  /**
+   * DELETE /api/users/me/erasure
+   * Cancel the pending erasure of the current user's account
+   */
+  router.delete('/me/erasure', authenticateJWT, requireSessionToken, async (req: Request, res: Response) => {
+    try {
+      await accountDataService.cancelErasure(req.user!.userId);
+
+      return ApiResponse.success(res, { message: 'Account erasure cancelled' });
+    } catch (error) {
+      console.error('Cancel account erasure error:', error);
+
+      if (error instanceof Error && error.message === 'No account erasure scheduled') {
+        return ApiResponse.notFound(res, error.message);
+      }
+
+      return ApiResponse.error(res, 'Failed to cancel account erasure', 500, 'ERR_INTERNAL_001');
+    }
+  });
+
   return router;
 }
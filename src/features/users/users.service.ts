@@ -2,6 +2,34 @@ import type { UsersRepository } from '../../shared/db/repositories/users.reposit
 import type { UpdateProfileDTO, ChangePasswordDTO, PublicUser } from '@vertical-vibing/shared-types';
 import type { User } from '../../shared/db/schema/users.schema';
 import { hashPassword, verifyPassword } from '../../shared/utils/password';
+import { tokenRevocationService } from '../../shared/services/token-revocation.service';
+import { PasswordPolicyService } from '../../shared/services/password-policy.service';
+import { OneTimeTokenService } from '../../shared/services/one-time-token.service';
+import { Throttle, ThrottledError } from '../../shared/utils/throttle';
+import { buildFrontendUrl } from '../../shared/utils/url';
+import { EmailService } from '../email/email.service';
+import { ComplianceService } from '../email/compliance.service';
+import type { ChangeEmailDTO } from './users.types';
+
+/**
+ * Email change confirmation link lifetime (sent to the new address)
+ */
+const EMAIL_CHANGE_TTL_MINUTES = 24 * 60;
+
+/**
+ * Revert link lifetime (sent to the old address); outlives the confirmation so a
+ * hijacked account can be recovered after the change went through
+ */
+const EMAIL_CHANGE_REVERT_TTL_MINUTES = 7 * 24 * 60;
+
+/**
+ * Email change requests: at most 5 per hour, one per minute, per user
+ */
+const emailChangeThrottle = new Throttle({
+  limit: 5,
+  windowMs: 60 * 60 * 1000,
+  cooldownMs: 60 * 1000,
+});
 
 /**
  * Users Service
@@ -9,7 +37,17 @@ import { hashPassword, verifyPassword } from '../../shared/utils/password';
  * Business logic for user profile operations
  */
 export class UsersService {
-  constructor(private usersRepository: UsersRepository) {}
+  private passwordPolicy: PasswordPolicyService;
+  private oneTimeTokens: OneTimeTokenService;
+  private emailService: EmailService;
+  private complianceService: ComplianceService;
+
+  constructor(private usersRepository: UsersRepository) {
+    this.passwordPolicy = new PasswordPolicyService();
+    this.oneTimeTokens = new OneTimeTokenService();
+    this.emailService = new EmailService();
+    this.complianceService = new ComplianceService();
+  }
 
   /**
    * Get user profile by ID
@@ -24,14 +62,21 @@ export class UsersService {
 
   /**
    * Update user profile
+   *
+   * The email address can't be changed here: it goes through the confirmed
+   * change-email flow (requestEmailChange). Sending the current address is accepted.
    */
   async updateProfile(userId: string, dto: UpdateProfileDTO): Promise<PublicUser | null> {
-    // Check if email is being changed and if it's already taken
     if (dto.email) {
-      const existingUser = await this.usersRepository.findByEmail(dto.email);
-      if (existingUser && existingUser.id !== userId) {
-        throw new Error('Email already in use');
+      const user = await this.usersRepository.findById(userId);
+      if (!user) {
+        return null;
+      }
+      if (dto.email.toLowerCase() !== user.email.toLowerCase()) {
+        throw new Error('Use POST /api/users/me/email to change your email address');
       }
+      const { email, ...rest } = dto;
+      dto = rest;
     }
 
     const updatedUser = await this.usersRepository.update(userId, {
@@ -48,6 +93,8 @@ export class UsersService {
 
   /**
    * Change user password
+   *
+   * @throws PasswordPolicyError if the new password breaks the password policy
    */
   async changePassword(userId: string, dto: ChangePasswordDTO): Promise<boolean> {
     const user = await this.usersRepository.findById(userId);
@@ -62,23 +109,197 @@ export class UsersService {
       throw new Error('Current password is incorrect');
     }
 
+    await this.passwordPolicy.assertAcceptable(dto.newPassword, user);
+
     // Hash new password
     const newPasswordHash = await hashPassword(dto.newPassword);
 
-    // Update password
+    // Update password (the old one goes to the password history)
+    await this.passwordPolicy.rememberCurrentPassword(user);
     const updated = await this.usersRepository.update(userId, {
       passwordHash: newPasswordHash,
+      passwordChangedAt: new Date(),
       updatedAt: new Date(),
     });
 
+    // Sign out every device holding a token issued with the old password
+    if (updated) {
+      await tokenRevocationService.revokeAllForUser(userId, 'password_change');
+    }
+
     return updated !== null;
   }
 
+  /**
+   * Start an email change
+   *
+   * Emails a confirmation link to the new address and a notice with a revert link
+   * to the current one. Nothing changes until the new address is confirmed.
+   *
+   * @param userId - Internal user ID
+   * @param dto - New address and, for accounts with a password, the current password
+   * @throws Error if the address can't be used or the password is wrong
+   * @throws ThrottledError if changes are requested too often
+   */
+  async requestEmailChange(userId: string, dto: ChangeEmailDTO): Promise<void> {
+    const user = await this.usersRepository.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.authProvider !== 'inhouse') {
+      throw new Error('Email is managed by your sign-in provider');
+    }
+
+    // Re-authenticate: a stolen session alone must not be enough to take over the account
+    if (user.passwordHash) {
+      if (!dto.currentPassword || !(await verifyPassword(dto.currentPassword, user.passwordHash))) {
+        throw new Error('Current password is incorrect');
+      }
+    }
+
+    const newEmail = dto.newEmail.toLowerCase();
+    if (newEmail === user.email.toLowerCase()) {
+      throw new Error('New email must be different from the current email');
+    }
+
+    if (await this.usersRepository.findByEmail(newEmail)) {
+      throw new Error('Email already in use');
+    }
+
+    const throttle = emailChangeThrottle.attempt(userId);
+    if (!throttle.allowed) {
+      throw new ThrottledError('Too many email changes requested', throttle.retryAfterSeconds);
+    }
+
+    const { canSend } = await this.complianceService.canSendEmail(newEmail);
+    if (!canSend) {
+      throw new Error('This address cannot receive email');
+    }
+
+    // Confirmation to the new address (replaces any earlier pending change)
+    const confirmation = await this.oneTimeTokens.issue(user.id, 'email_change', newEmail, EMAIL_CHANGE_TTL_MINUTES);
+    await this.emailService.sendEmail({
+      templateName: 'email-change-confirmation',
+      toAddress: newEmail,
+      templateData: {
+        userName: user.name,
+        newEmail,
+        confirmUrl: buildFrontendUrl('/confirm-email-change', { token: confirmation.token }),
+        expiryHours: EMAIL_CHANGE_TTL_MINUTES / 60,
+      },
+    });
+
+    // Notice to the current address; earlier revert links stay valid
+    const revert = await this.oneTimeTokens.issue(
+      user.id,
+      'email_change_revert',
+      user.email,
+      EMAIL_CHANGE_REVERT_TTL_MINUTES,
+      false
+    );
+    await this.emailService.sendEmail({
+      templateName: 'email-change-notice',
+      toAddress: user.email,
+      templateData: {
+        userName: user.name,
+        newEmail,
+        revertUrl: buildFrontendUrl('/revert-email-change', { token: revert.token }),
+        expiryDays: EMAIL_CHANGE_REVERT_TTL_MINUTES / (24 * 60),
+      },
+    });
+  }
+
+  /**
+   * Confirm an email change with the token sent to the new address
+   *
+   * Swaps the address (marking it verified) and moves the unsubscribe preferences
+   * of the old address to the new one.
+   *
+   * @param token - Token from the confirmation link
+   * @returns Updated user
+   * @throws Error if the link is invalid, expired or used, or the address was taken meanwhile
+   */
+  async confirmEmailChange(token: string): Promise<PublicUser> {
+    const record = await this.oneTimeTokens.consume(token, 'email_change');
+
+    const user = await this.usersRepository.findById(record.userId);
+    if (!user || user.authProvider !== 'inhouse') {
+      throw new Error('Invalid or expired token');
+    }
+
+    const existing = await this.usersRepository.findByEmail(record.email);
+    if (existing && existing.id !== user.id) {
+      throw new Error('Email already in use');
+    }
+
+    const updated = await this.usersRepository.update(user.id, {
+      email: record.email,
+      emailVerified: true,
+      updatedAt: new Date(),
+    });
+    if (!updated) {
+      throw new Error('Invalid or expired token');
+    }
+
+    await this.transferEmailPreferences(user.email, record.email);
+
+    return this.toPublicUser(updated);
+  }
+
+  /**
+   * Revert an email change with the token sent to the old address
+   *
+   * Cancels a pending change, or restores the old address if the change was
+   * already confirmed. Either way every session is signed out, since the
+   * change may not have been made by the account owner.
+   *
+   * @param token - Token from the revert link
+   * @throws Error if the link is invalid, expired or used, or the old address was taken meanwhile
+   */
+  async revertEmailChange(token: string): Promise<void> {
+    const record = await this.oneTimeTokens.consume(token, 'email_change_revert');
+
+    const user = await this.usersRepository.findById(record.userId);
+    if (!user) {
+      throw new Error('Invalid or expired token');
+    }
+
+    if (user.email.toLowerCase() !== record.email.toLowerCase()) {
+      const existing = await this.usersRepository.findByEmail(record.email);
+      if (existing && existing.id !== user.id) {
+        throw new Error('Email already in use');
+      }
+
+      await this.usersRepository.update(user.id, {
+        email: record.email,
+        emailVerified: true,
+        updatedAt: new Date(),
+      });
+      await this.transferEmailPreferences(user.email, record.email);
+    }
+
+    await this.oneTimeTokens.invalidate(user.id, 'email_change');
+    await this.oneTimeTokens.invalidate(user.id, 'email_change_revert');
+    await tokenRevocationService.revokeAllForUser(user.id, 'email_change_reverted');
+  }
+
+  /**
+   * Move suppression and unsubscribe lookups to a user's new address, logging (not throwing) failures
+   */
+  private async transferEmailPreferences(fromAddress: string, toAddress: string): Promise<void> {
+    try {
+      await this.complianceService.transferPreferences(fromAddress, toAddress);
+    } catch (error) {
+      console.error('Email preference transfer error:', error);
+    }
+  }
+
   /**
    * Convert User to PublicUser (remove sensitive data)
    */
   private toPublicUser(user: User): PublicUser {
-    const { passwordHash, ...rest } = user;
+    const { passwordHash, passwordChangedAt, ...rest } = user;
     return {
       ...rest,
       createdAt: rest.createdAt.toISOString(),
@@ -0,0 +1,145 @@
+import { z } from 'zod';
+import type { LoginMethod, LoginFailureReason } from '../../shared/db/schema/login-events.schema';
+import type { AccountErasureStatus, OwnershipTransfer } from '../../shared/db/schema/account-erasures.schema';
+import type { Subscription } from '../../shared/db/schema/subscriptions.schema';
+import type { User } from '../../shared/db/schema/users.schema';
+
+/**
+ * API key scope: '*' (everything the user can do), 'view:<viewId>'
+ * or 'feature:<featureId>:<action>' ('*' for every action)
+ */
+export const tokenScopeSchema = z
+  .string()
+  .regex(/^(\*|view:[\w-]+|feature:[\w-]+:(\*|[A-Za-z]+))$/, 'Invalid scope');
+
+/**
+ * Create a personal access token
+ */
+export const createPersonalAccessTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z.array(tokenScopeSchema).min(1, 'At least one scope is required').max(50),
+  expiresInDays: z.number().int().min(1).max(365).nullable().default(null), // null = never expires
+});
+
+export type CreatePersonalAccessTokenDTO = z.infer<typeof createPersonalAccessTokenSchema>;
+
+/**
+ * Public view of a personal access token (the token itself is only shown on creation)
+ */
+export interface PersonalAccessTokenInfo {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: string[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Login history query (GET /api/users/me/login-history)
+ */
+export const loginHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+/**
+ * One entry of the current user's login history
+ */
+export interface LoginHistoryEntry {
+  id: string;
+  success: boolean;
+  failureReason: LoginFailureReason | null;
+  method: LoginMethod;
+  authProvider: string;
+  mfaUsed: boolean;
+  ipAddress: string | null;
+  userAgent: string | null;
+  newDevice: boolean;
+  createdAt: string;
+}
+
+/**
+ * Request an email change (POST /api/users/me/email)
+ */
+export const changeEmailSchema = z.object({
+  newEmail: z.string().trim().toLowerCase().email('Invalid email address').max(255),
+  currentPassword: z.string().min(1).optional(), // Required for accounts with a password
+});
+
+export type ChangeEmailDTO = z.infer<typeof changeEmailSchema>;
+
+/**
+ * Token from an email change confirmation or revert link
+ */
+export const emailChangeTokenSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+/**
+ * Request account erasure (DELETE /api/users/me)
+ *
+ * Companies the user is the only owner of must be handed to another member.
+ */
+export const scheduleErasureSchema = z.object({
+  currentPassword: z.string().min(1).optional(), // Required for accounts with a password
+  ownershipTransfers: z
+    .array(
+      z.object({
+        companyId: z.string().uuid(),
+        newOwnerId: z.string().uuid(),
+      })
+    )
+    .max(100)
+    .default([]),
+});
+
+export type ScheduleErasureDTO = z.infer<typeof scheduleErasureSchema>;
+
+/**
+ * Public view of a pending account erasure
+ */
+export interface AccountErasureInfo {
+  id: string;
+  status: AccountErasureStatus;
+  scheduledFor: string;
+  ownershipTransfers: OwnershipTransfer[];
+  createdAt: string;
+}
+
+/**
+ * Data export archive (POST /api/users/me/export)
+ */
+export interface AccountExport {
+  exportedAt: string;
+  profile: Omit<User, 'passwordHash'>;
+  companies: Array<{
+    companyId: string;
+    name: string;
+    slug: string;
+    role: string;
+    joinedAt: Date;
+  }>;
+  iamAssignments: Array<{
+    userLevelId: string;
+    name: string | null; // null if the level no longer exists
+    companyId: string | null;
+  }>;
+  subscription: Subscription | null;
+  emailLogs: Array<{
+    id: string;
+    templateName: string | null;
+    subject: string;
+    status: string;
+    sentAt: Date | null;
+    createdAt: Date;
+  }>;
+  unsubscribePreferences: Array<{
+    category: string;
+    isUnsubscribed: boolean;
+    unsubscribedAt: Date;
+    resubscribedAt: Date | null;
+  }>;
+}
@@ -8,16 +8,40 @@ import cors from 'cors';
 import helmet from 'helmet';
 import { createGreetingsRouter } from './features/greetings/greetings.route';
 import { createAuthRouter } from './features/auth/auth.route';
+import { createJwksRouter } from './features/auth/jwks.route';
 import { createUsersRouter } from './features/users/users.route';
+import { AccountDataService } from './features/users/account-data.service';
 import { createSubscriptionsRouter } from './features/subscriptions/subscriptions.route';
 import { createCompaniesRouter } from './features/companies/companies.route';
 import { createIAMRouter } from './features/iam/iam.route';
 import { createEmailRouter } from './features/email/email.route';
+import { createAdminRouter } from './features/admin/admin.route';
+import { createSsoRouter } from './features/sso/sso.route';
 import { embeddedEmailWorker } from './features/email/queue';
 import { rateLimitMiddleware } from './shared/middleware/rateLimit';
+import { captureRawBody } from './shared/middleware/rawBody';
 import { SuperAdminBootstrapService } from './shared/services/super-admin-bootstrap.service';
+import { tokenRevocationService } from './shared/services/token-revocation.service';
+import { initializeJwtKeys } from './shared/utils/jwt';
+import { initializeEncryptionKey } from './shared/utils/encryption';
 // import { seedIAMData } from './shared/db/seed/iam.seed';
 
+// Refuse to start without a JWT signing key (a generated key is only allowed in development)
+try {
+  initializeJwtKeys();
+} catch (error) {
+  console.error('❌ Failed to load JWT signing keys:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+
+// Refuse to start without an encryption key for stored secrets (MFA secrets, ...)
+try {
+  initializeEncryptionKey();
+} catch (error) {
+  console.error('❌ Failed to load encryption key:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+
 // Initialize super admin on startup (dev/staging only)
 SuperAdminBootstrapService.initialize().catch((error) => {
   console.error('Failed to initialize super admin:', error);
@@ -28,13 +52,16 @@ SuperAdminBootstrapService.initialize().catch((error) => {
 //   console.error('Failed to seed IAM data:', error);
 // });
 
+// Erases accounts whose grace period is over
+const accountErasureJob = new AccountDataService();
+
 const app = express();
 const PORT = process.env.PORT || 3001;
 
 // Middleware
 app.use(helmet());
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ verify: captureRawBody })); // Raw body kept for webhook signatures
 
 // Rate limiting (applied to all routes)
 app.use(rateLimitMiddleware);
@@ -44,6 +71,9 @@ app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Public signing keys for verifying our tokens
+app.use('/.well-known', createJwksRouter());
+
 // Routes
 app.use('/api/auth', createAuthRouter());
 app.use('/api/users', createUsersRouter());
@@ -52,11 +82,19 @@ app.use('/api/companies', createCompaniesRouter());
 app.use('/api/greetings', createGreetingsRouter());
 app.use('/api/iam', createIAMRouter());
 app.use('/api/email', createEmailRouter());
+app.use('/api/admin', createAdminRouter());
+app.use('/api/sso', createSsoRouter());
 
 // Start server
 app.listen(PORT, async () => {
   console.log(`🚀 Backend server running on http://localhost:${PORT}`);
 
+  // Purge expired entries from the token denylist
+  tokenRevocationService.startCleanup();
+
+  // Erase accounts whose deletion grace period is over
+  accountErasureJob.startErasureJob();
+
   // Start embedded email worker if enabled
   try {
     await embeddedEmailWorker.start();
@@ -72,11 +110,15 @@ app.listen(PORT, async () => {
 process.on('SIGTERM', async () => {
   console.log('SIGTERM signal received: closing HTTP server');
   await embeddedEmailWorker.stop();
+  tokenRevocationService.stopCleanup();
+  accountErasureJob.stopErasureJob();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   console.log('SIGINT signal received: closing HTTP server');
   await embeddedEmailWorker.stop();
+  tokenRevocationService.stopCleanup();
+  accountErasureJob.stopErasureJob();
   process.exit(0);
 });
@@ -107,6 +107,13 @@ export function getPlanByTier(tier: PlanTier): PlanConfig {
   return SUBSCRIPTION_PLANS[tier];
 }
 
+/**
+ * Check if a plan includes a feature (as listed in its features)
+ */
+export function planIncludesFeature(tier: PlanTier, feature: string): boolean {
+  return SUBSCRIPTION_PLANS[tier]?.features.includes(feature) ?? false;
+}
+
 /**
  * Check if a plan upgrade is valid
  */
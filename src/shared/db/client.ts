@@ -12,6 +12,50 @@
 
 import type { User, NewUser } from './schema/users.schema';
 import type { Subscription, NewSubscription } from './schema/subscriptions.schema';
+import type { AuthSession, NewAuthSession } from './schema/auth-sessions.schema';
+import type { RevokedToken, NewRevokedToken } from './schema/revoked-tokens.schema';
+import type { OneTimeToken, NewOneTimeToken } from './schema/one-time-tokens.schema';
+import type { UserMfa, NewUserMfa } from './schema/user-mfa.schema';
+import type { CompanySecurityPolicy, NewCompanySecurityPolicy } from './schema/company-security-policies.schema';
+import type {
+  WebAuthnCredential,
+  NewWebAuthnCredential,
+  WebAuthnChallenge,
+  NewWebAuthnChallenge,
+} from './schema/webauthn.schema';
+import type { OidcAuthRequest, NewOidcAuthRequest } from './schema/oidc-auth-requests.schema';
+import type {
+  CompanySamlConfig,
+  NewCompanySamlConfig,
+  SamlAuthRequest,
+  NewSamlAuthRequest,
+  NewSamlConsumedAssertion,
+  SamlConsumedAssertion,
+  CompanySsoDomain,
+  NewCompanySsoDomain,
+  SamlIdentity,
+  NewSamlIdentity,
+} from './schema/saml.schema';
+import type {
+  AccountLockout,
+  NewAccountLockout,
+  AccountLockoutEvent,
+  NewAccountLockoutEvent,
+} from './schema/account-lockouts.schema';
+import type { PasswordHistoryEntry, NewPasswordHistoryEntry } from './schema/password-history.schema';
+import type { PersonalAccessToken, NewPersonalAccessToken } from './schema/personal-access-tokens.schema';
+import type { ServiceAccount, NewServiceAccount } from './schema/service-accounts.schema';
+import type {
+  ImpersonationSession,
+  NewImpersonationSession,
+  ImpersonationRequestLog,
+  NewImpersonationRequestLog,
+} from './schema/impersonation.schema';
+import type { LoginEvent, NewLoginEvent } from './schema/login-events.schema';
+import type { AccountErasure, NewAccountErasure } from './schema/account-erasures.schema';
+import type { CompanyInvitation, NewCompanyInvitation } from './schema/company-invitations.schema';
+import type { Team, NewTeam, TeamMember, NewTeamMember } from './schema/teams.schema';
+import type { OwnershipTransfer, NewOwnershipTransfer } from './schema/ownership-transfers.schema';
 import type { Company, CompanyMember, CompanyRole } from '@vertical-vibing/shared-types';
 import type { IAMDatabase } from './repositories/iam.repository';
 import { iamDb } from './repositories/iam.repository';
@@ -20,6 +64,7 @@ export interface Database {
   users: {
     findByEmail(email: string): Promise<User | null>;
     findById(id: string): Promise<User | null>;
+    findByExternalId(authProvider: string, externalId: string): Promise<User | null>;
     create(user: NewUser): Promise<User>;
     update(id: string, data: Partial<NewUser>): Promise<User | null>;
     delete(id: string): Promise<boolean>;
@@ -47,6 +92,160 @@ export interface Database {
     updateRole(companyId: string, userId: string, role: CompanyRole): Promise<CompanyMember | null>;
     delete(companyId: string, userId: string): Promise<boolean>;
   };
+  authSessions: {
+    findById(id: string): Promise<AuthSession | null>;
+    findByRefreshTokenHash(hash: string): Promise<AuthSession | null>;
+    findByPreviousRefreshTokenHash(hash: string): Promise<AuthSession | null>;
+    findActiveByUserId(userId: string): Promise<AuthSession[]>;
+    create(session: NewAuthSession): Promise<AuthSession>;
+    update(id: string, data: Partial<NewAuthSession>): Promise<AuthSession | null>;
+    revokeAllForUser(userId: string): Promise<number>;
+  };
+  revokedTokens: {
+    findMatching(criteria: { jti?: string; sessionId?: string; userId: string }): Promise<RevokedToken[]>;
+    create(entry: NewRevokedToken): Promise<RevokedToken>;
+    deleteExpired(now: Date): Promise<number>;
+  };
+  oneTimeTokens: {
+    findByTokenHash(hash: string): Promise<OneTimeToken | null>;
+    create(token: NewOneTimeToken): Promise<OneTimeToken>;
+    markUsed(id: string): Promise<OneTimeToken | null>;
+    invalidateForUser(userId: string, purpose: string): Promise<number>;
+  };
+  userMfa: {
+    findByUserId(userId: string): Promise<UserMfa | null>;
+    upsert(mfa: NewUserMfa): Promise<UserMfa>;
+    update(userId: string, data: Partial<NewUserMfa>): Promise<UserMfa | null>;
+    delete(userId: string): Promise<boolean>;
+  };
+  companySecurityPolicies: {
+    findByCompanyId(companyId: string): Promise<CompanySecurityPolicy | null>;
+    findByCompanyIds(companyIds: string[]): Promise<CompanySecurityPolicy[]>;
+    upsert(policy: NewCompanySecurityPolicy): Promise<CompanySecurityPolicy>;
+  };
+  webauthnCredentials: {
+    findById(id: string): Promise<WebAuthnCredential | null>;
+    findByCredentialId(credentialId: string): Promise<WebAuthnCredential | null>;
+    findByUserId(userId: string): Promise<WebAuthnCredential[]>;
+    create(credential: NewWebAuthnCredential): Promise<WebAuthnCredential>;
+    update(id: string, data: Partial<NewWebAuthnCredential>): Promise<WebAuthnCredential | null>;
+    delete(id: string): Promise<boolean>;
+  };
+  webauthnChallenges: {
+    create(challenge: NewWebAuthnChallenge): Promise<WebAuthnChallenge>;
+    consume(id: string): Promise<WebAuthnChallenge | null>;
+  };
+  oidcAuthRequests: {
+    create(request: NewOidcAuthRequest): Promise<OidcAuthRequest>;
+    consumeByStateHash(stateHash: string): Promise<OidcAuthRequest | null>;
+  };
+  companySamlConfigs: {
+    findByCompanyId(companyId: string): Promise<CompanySamlConfig | null>;
+    upsert(config: NewCompanySamlConfig): Promise<CompanySamlConfig>;
+    delete(companyId: string): Promise<boolean>;
+  };
+  samlAuthRequests: {
+    create(request: NewSamlAuthRequest): Promise<SamlAuthRequest>;
+    findById(requestId: string): Promise<SamlAuthRequest | null>;
+    delete(requestId: string): Promise<boolean>;
+  };
+  samlConsumedAssertions: {
+    add(entry: NewSamlConsumedAssertion): Promise<boolean>; // false if already consumed
+    deleteExpired(now: Date): Promise<number>;
+  };
+  companySsoDomains: {
+    findByCompanyId(companyId: string): Promise<CompanySsoDomain[]>;
+    findVerified(domain: string): Promise<CompanySsoDomain | null>;
+    create(domain: NewCompanySsoDomain): Promise<CompanySsoDomain>;
+    markVerified(companyId: string, domain: string): Promise<CompanySsoDomain | null>;
+    delete(companyId: string, domain: string): Promise<boolean>;
+  };
+  samlIdentities: {
+    find(companyId: string, nameId: string): Promise<SamlIdentity | null>;
+    upsert(identity: NewSamlIdentity): Promise<SamlIdentity>; // Re-links the NameID to another user
+  };
+  accountLockouts: {
+    findByUserId(userId: string): Promise<AccountLockout | null>;
+    upsert(lockout: NewAccountLockout): Promise<AccountLockout>;
+    delete(userId: string): Promise<boolean>;
+  };
+  accountLockoutEvents: {
+    create(event: NewAccountLockoutEvent): Promise<AccountLockoutEvent>;
+    findByUserId(userId: string, limit: number): Promise<AccountLockoutEvent[]>; // Newest first
+  };
+  passwordHistory: {
+    create(entry: NewPasswordHistoryEntry): Promise<PasswordHistoryEntry>;
+    findByUserId(userId: string, limit: number): Promise<PasswordHistoryEntry[]>; // Newest first
+    deleteAllButRecent(userId: string, keep: number): Promise<number>;
+  };
+  personalAccessTokens: {
+    findById(id: string): Promise<PersonalAccessToken | null>;
+    findByTokenHash(hash: string): Promise<PersonalAccessToken | null>;
+    findByUserId(userId: string): Promise<PersonalAccessToken[]>;
+    create(token: NewPersonalAccessToken): Promise<PersonalAccessToken>;
+    update(id: string, data: Partial<NewPersonalAccessToken>): Promise<PersonalAccessToken | null>;
+    revokeAllForUser(userId: string): Promise<number>;
+  };
+  serviceAccounts: {
+    findById(id: string): Promise<ServiceAccount | null>;
+    findByClientId(clientId: string): Promise<ServiceAccount | null>;
+    findByCompanyId(companyId: string): Promise<ServiceAccount[]>;
+    create(account: NewServiceAccount): Promise<ServiceAccount>;
+    update(id: string, data: Partial<NewServiceAccount>): Promise<ServiceAccount | null>;
+    delete(id: string): Promise<boolean>;
+  };
+  impersonationSessions: {
+    findById(id: string): Promise<ImpersonationSession | null>;
+    create(session: NewImpersonationSession): Promise<ImpersonationSession>;
+    update(id: string, data: Partial<NewImpersonationSession>): Promise<ImpersonationSession | null>;
+  };
+  impersonationRequestLogs: {
+    create(log: NewImpersonationRequestLog): Promise<ImpersonationRequestLog>;
+    findBySessionId(sessionId: string, limit: number): Promise<ImpersonationRequestLog[]>;
+  };
+  loginEvents: {
+    create(event: NewLoginEvent): Promise<LoginEvent>;
+    findByUserId(userId: string, limit: number): Promise<LoginEvent[]>; // Newest first
+    findKnownDevices(userId: string): Promise<string[]>; // Fingerprints of successful logins
+  };
+  accountErasures: {
+    findById(id: string): Promise<AccountErasure | null>;
+    findScheduledByUserId(userId: string): Promise<AccountErasure | null>;
+    findDue(now: Date): Promise<AccountErasure[]>; // Scheduled, grace period over
+    create(erasure: NewAccountErasure): Promise<AccountErasure>;
+    update(id: string, data: Partial<NewAccountErasure>): Promise<AccountErasure | null>;
+  };
+  companyInvitations: {
+    findById(id: string): Promise<CompanyInvitation | null>;
+    findByTokenHash(hash: string): Promise<CompanyInvitation | null>;
+    findByCompanyId(companyId: string): Promise<CompanyInvitation[]>; // Newest first
+    findPendingByEmail(email: string): Promise<CompanyInvitation[]>; // Every company, expired included
+    create(invitation: NewCompanyInvitation): Promise<CompanyInvitation>;
+    update(id: string, data: Partial<NewCompanyInvitation>): Promise<CompanyInvitation | null>;
+  };
+  teams: {
+    findById(id: string): Promise<Team | null>;
+    findByCompanyId(companyId: string): Promise<Team[]>; // By name
+    findByName(companyId: string, name: string): Promise<Team | null>; // Case-insensitive
+    create(team: NewTeam): Promise<Team>;
+    update(id: string, data: Partial<NewTeam>): Promise<Team | null>;
+    delete(id: string): Promise<boolean>; // Also removes its members
+  };
+  teamMembers: {
+    findByTeamId(teamId: string): Promise<TeamMember[]>;
+    findByUserId(userId: string): Promise<TeamMember[]>; // Every company
+    find(teamId: string, userId: string): Promise<TeamMember | null>;
+    create(member: NewTeamMember): Promise<TeamMember>;
+    update(teamId: string, userId: string, data: Partial<NewTeamMember>): Promise<TeamMember | null>;
+    delete(teamId: string, userId: string): Promise<boolean>;
+  };
+  ownershipTransfers: {
+    findById(id: string): Promise<OwnershipTransfer | null>;
+    findByTokenHash(hash: string): Promise<OwnershipTransfer | null>;
+    findPendingByCompanyId(companyId: string): Promise<OwnershipTransfer[]>; // Expired included
+    create(transfer: NewOwnershipTransfer): Promise<OwnershipTransfer>;
+    update(id: string, data: Partial<NewOwnershipTransfer>): Promise<OwnershipTransfer | null>;
+  };
   iam: IAMDatabase;
 }
 
@@ -65,6 +264,33 @@ class InMemoryDatabase implements Database {
   private companySlugIndex: Map<string, string> = new Map(); // slug -> companyId
   private companyMembersStore: Map<string, CompanyMember> = new Map(); // `${companyId}:${userId}` -> member
   private userCompaniesIndex: Map<string, Set<string>> = new Map(); // userId -> Set<companyId>
+  private authSessionsStore: Map<string, AuthSession> = new Map();
+  private refreshTokenIndex: Map<string, string> = new Map(); // refreshTokenHash -> sessionId
+  private revokedTokensStore: Map<string, RevokedToken> = new Map();
+  private oneTimeTokensStore: Map<string, OneTimeToken> = new Map();
+  private userMfaStore: Map<string, UserMfa> = new Map(); // userId -> MFA enrolment
+  private companySecurityPoliciesStore: Map<string, CompanySecurityPolicy> = new Map(); // companyId -> policy
+  private webauthnCredentialsStore: Map<string, WebAuthnCredential> = new Map();
+  private webauthnChallengesStore: Map<string, WebAuthnChallenge> = new Map();
+  private oidcAuthRequestsStore: Map<string, OidcAuthRequest> = new Map(); // stateHash -> request
+  private companySamlConfigsStore: Map<string, CompanySamlConfig> = new Map(); // companyId -> config
+  private samlAuthRequestsStore: Map<string, SamlAuthRequest> = new Map(); // requestId -> request
+  private samlConsumedAssertionsStore: Map<string, SamlConsumedAssertion> = new Map(); // `${companyId}:${assertionId}` -> entry
+  private companySsoDomainsStore: Map<string, CompanySsoDomain> = new Map(); // `${companyId}:${domain}` -> domain
+  private samlIdentitiesStore: Map<string, SamlIdentity> = new Map(); // `${companyId}:${nameId}` -> identity
+  private accountLockoutsStore: Map<string, AccountLockout> = new Map(); // userId -> lockout state
+  private accountLockoutEventsStore: AccountLockoutEvent[] = [];
+  private passwordHistoryStore: PasswordHistoryEntry[] = [];
+  private personalAccessTokensStore: Map<string, PersonalAccessToken> = new Map();
+  private serviceAccountsStore: Map<string, ServiceAccount> = new Map();
+  private impersonationSessionsStore: Map<string, ImpersonationSession> = new Map();
+  private impersonationRequestLogsStore: ImpersonationRequestLog[] = [];
+  private loginEventsStore: LoginEvent[] = [];
+  private accountErasuresStore: Map<string, AccountErasure> = new Map();
+  private companyInvitationsStore: Map<string, CompanyInvitation> = new Map();
+  private teamsStore: Map<string, Team> = new Map();
+  private teamMembersStore: TeamMember[] = [];
+  private ownershipTransfersStore: Map<string, OwnershipTransfer> = new Map();
 
   users = {
     findByEmail: async (email: string): Promise<User | null> => {
@@ -77,6 +303,11 @@ class InMemoryDatabase implements Database {
       return this.usersStore.get(id) || null;
     },
 
+    findByExternalId: async (authProvider: string, externalId: string): Promise<User | null> => {
+      return Array.from(this.usersStore.values())
+        .find(user => user.authProvider === authProvider && user.externalId === externalId) || null;
+    },
+
     create: async (userData: NewUser): Promise<User> => {
       const id = userData.id || crypto.randomUUID();
       const now = new Date();
@@ -85,9 +316,15 @@ class InMemoryDatabase implements Database {
         id,
         email: userData.email,
         passwordHash: userData.passwordHash,
+        passwordChangedAt: userData.passwordChangedAt || null,
         name: userData.name,
         avatarUrl: userData.avatarUrl || null,
         emailVerified: userData.emailVerified || false,
+        authProvider: userData.authProvider || 'inhouse',
+        externalId: userData.externalId || null,
+        externalMetadata: userData.externalMetadata || null,
+        isSuperAdmin: userData.isSuperAdmin || false,
+        defaultCompanyId: userData.defaultCompanyId || null,
         createdAt: userData.createdAt || now,
         updatedAt: userData.updatedAt || now,
       };
@@ -102,8 +339,12 @@ class InMemoryDatabase implements Database {
       const existing = this.usersStore.get(id);
       if (!existing) return null;
 
-      // Update email index if email changed
-      if (data.email && data.email !== existing.email) {
+      // Update email index if email changed (emails are unique, like the users.email constraint)
+      if (data.email && data.email.toLowerCase() !== existing.email.toLowerCase()) {
+        const ownerId = this.emailIndex.get(data.email.toLowerCase());
+        if (ownerId && ownerId !== id) {
+          throw new Error('Email already in use');
+        }
         this.emailIndex.delete(existing.email.toLowerCase());
         this.emailIndex.set(data.email.toLowerCase(), id);
       }
@@ -326,6 +567,1031 @@ class InMemoryDatabase implements Database {
     },
   };
 
+  authSessions = {
+    findById: async (id: string): Promise<AuthSession | null> => {
+      return this.authSessionsStore.get(id) || null;
+    },
+
+    findByRefreshTokenHash: async (hash: string): Promise<AuthSession | null> => {
+      const sessionId = this.refreshTokenIndex.get(hash);
+      if (!sessionId) return null;
+      return this.authSessionsStore.get(sessionId) || null;
+    },
+
+    findByPreviousRefreshTokenHash: async (hash: string): Promise<AuthSession | null> => {
+      return Array.from(this.authSessionsStore.values())
+        .find(session => session.previousRefreshTokenHash === hash) || null;
+    },
+
+    findActiveByUserId: async (userId: string): Promise<AuthSession[]> => {
+      const now = new Date();
+      return Array.from(this.authSessionsStore.values())
+        .filter(session => session.userId === userId && !session.revokedAt && session.expiresAt > now)
+        .sort((a, b) => b.lastUsedAt.getTime() - a.lastUsedAt.getTime());
+    },
+
+    create: async (sessionData: NewAuthSession): Promise<AuthSession> => {
+      const id = sessionData.id || crypto.randomUUID();
+      const now = new Date();
+
+      const session: AuthSession = {
+        id,
+        userId: sessionData.userId,
+        refreshTokenHash: sessionData.refreshTokenHash,
+        previousRefreshTokenHash: sessionData.previousRefreshTokenHash || null,
+        userAgent: sessionData.userAgent || null,
+        ipAddress: sessionData.ipAddress || null,
+        mfaVerified: sessionData.mfaVerified ?? false,
+        activeCompanyId: sessionData.activeCompanyId || null,
+        expiresAt: sessionData.expiresAt,
+        lastUsedAt: sessionData.lastUsedAt || now,
+        revokedAt: sessionData.revokedAt || null,
+        createdAt: sessionData.createdAt || now,
+        updatedAt: sessionData.updatedAt || now,
+      };
+
+      this.authSessionsStore.set(id, session);
+      this.refreshTokenIndex.set(session.refreshTokenHash, id);
+
+      return session;
+    },
+
+    update: async (id: string, data: Partial<NewAuthSession>): Promise<AuthSession | null> => {
+      const existing = this.authSessionsStore.get(id);
+      if (!existing) return null;
+
+      // Update refresh token index if the token was rotated
+      if (data.refreshTokenHash && data.refreshTokenHash !== existing.refreshTokenHash) {
+        this.refreshTokenIndex.delete(existing.refreshTokenHash);
+        this.refreshTokenIndex.set(data.refreshTokenHash, id);
+      }
+
+      const updated: AuthSession = {
+        ...existing,
+        ...data,
+        id, // Keep original ID
+        updatedAt: new Date(),
+      };
+
+      this.authSessionsStore.set(id, updated);
+      return updated;
+    },
+
+    revokeAllForUser: async (userId: string): Promise<number> => {
+      const now = new Date();
+      let revoked = 0;
+
+      for (const session of this.authSessionsStore.values()) {
+        if (session.userId === userId && !session.revokedAt) {
+          session.revokedAt = now;
+          session.updatedAt = now;
+          revoked++;
+        }
+      }
+
+      return revoked;
+    },
+  };
+
+  revokedTokens = {
+    findMatching: async (criteria: { jti?: string; sessionId?: string; userId: string }): Promise<RevokedToken[]> => {
+      return Array.from(this.revokedTokensStore.values()).filter(entry =>
+        (entry.kind === 'token' && !!criteria.jti && entry.jti === criteria.jti) ||
+        (entry.kind === 'session' && !!criteria.sessionId && entry.sessionId === criteria.sessionId) ||
+        (entry.kind === 'user' && entry.userId === criteria.userId)
+      );
+    },
+
+    create: async (entryData: NewRevokedToken): Promise<RevokedToken> => {
+      const id = entryData.id || crypto.randomUUID();
+
+      const entry: RevokedToken = {
+        id,
+        kind: entryData.kind,
+        jti: entryData.jti || null,
+        sessionId: entryData.sessionId || null,
+        userId: entryData.userId,
+        reason: entryData.reason,
+        revokedAt: entryData.revokedAt || new Date(),
+        expiresAt: entryData.expiresAt,
+      };
+
+      this.revokedTokensStore.set(id, entry);
+      return entry;
+    },
+
+    deleteExpired: async (now: Date): Promise<number> => {
+      let deleted = 0;
+      for (const [id, entry] of this.revokedTokensStore.entries()) {
+        if (entry.expiresAt <= now) {
+          this.revokedTokensStore.delete(id);
+          deleted++;
+        }
+      }
+      return deleted;
+    },
+  };
+
+  oneTimeTokens = {
+    findByTokenHash: async (hash: string): Promise<OneTimeToken | null> => {
+      return Array.from(this.oneTimeTokensStore.values())
+        .find(token => token.tokenHash === hash) || null;
+    },
+
+    create: async (tokenData: NewOneTimeToken): Promise<OneTimeToken> => {
+      const id = tokenData.id || crypto.randomUUID();
+
+      const token: OneTimeToken = {
+        id,
+        userId: tokenData.userId,
+        purpose: tokenData.purpose,
+        tokenHash: tokenData.tokenHash,
+        email: tokenData.email,
+        expiresAt: tokenData.expiresAt,
+        usedAt: tokenData.usedAt || null,
+        createdAt: tokenData.createdAt || new Date(),
+      };
+
+      this.oneTimeTokensStore.set(id, token);
+      return token;
+    },
+
+    markUsed: async (id: string): Promise<OneTimeToken | null> => {
+      const existing = this.oneTimeTokensStore.get(id);
+      // Compare-and-set: a token can only be consumed once
+      if (!existing || existing.usedAt) return null;
+
+      const updated: OneTimeToken = { ...existing, usedAt: new Date() };
+      this.oneTimeTokensStore.set(id, updated);
+      return updated;
+    },
+
+    invalidateForUser: async (userId: string, purpose: string): Promise<number> => {
+      const now = new Date();
+      let invalidated = 0;
+
+      for (const token of this.oneTimeTokensStore.values()) {
+        if (token.userId === userId && token.purpose === purpose && !token.usedAt) {
+          token.usedAt = now;
+          invalidated++;
+        }
+      }
+
+      return invalidated;
+    },
+  };
+
+  userMfa = {
+    findByUserId: async (userId: string): Promise<UserMfa | null> => {
+      return this.userMfaStore.get(userId) || null;
+    },
+
+    upsert: async (mfaData: NewUserMfa): Promise<UserMfa> => {
+      const existing = this.userMfaStore.get(mfaData.userId);
+      const now = new Date();
+
+      const mfa: UserMfa = {
+        userId: mfaData.userId,
+        totpSecretEncrypted: mfaData.totpSecretEncrypted,
+        recoveryCodeHashes: mfaData.recoveryCodeHashes || [],
+        lastUsedStep: mfaData.lastUsedStep ?? null,
+        enabledAt: mfaData.enabledAt || null,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+      };
+
+      this.userMfaStore.set(mfa.userId, mfa);
+      return mfa;
+    },
+
+    update: async (userId: string, data: Partial<NewUserMfa>): Promise<UserMfa | null> => {
+      const existing = this.userMfaStore.get(userId);
+      if (!existing) return null;
+
+      const updated: UserMfa = {
+        ...existing,
+        ...data,
+        userId, // Keep original user
+        updatedAt: new Date(),
+      };
+
+      this.userMfaStore.set(userId, updated);
+      return updated;
+    },
+
+    delete: async (userId: string): Promise<boolean> => {
+      return this.userMfaStore.delete(userId);
+    },
+  };
+
+  companySecurityPolicies = {
+    findByCompanyId: async (companyId: string): Promise<CompanySecurityPolicy | null> => {
+      return this.companySecurityPoliciesStore.get(companyId) || null;
+    },
+
+    findByCompanyIds: async (companyIds: string[]): Promise<CompanySecurityPolicy[]> => {
+      return companyIds
+        .map(id => this.companySecurityPoliciesStore.get(id))
+        .filter((policy): policy is CompanySecurityPolicy => !!policy);
+    },
+
+    upsert: async (policyData: NewCompanySecurityPolicy): Promise<CompanySecurityPolicy> => {
+      const existing = this.companySecurityPoliciesStore.get(policyData.companyId);
+      const now = new Date();
+
+      const policy: CompanySecurityPolicy = {
+        companyId: policyData.companyId,
+        mfaRequired: policyData.mfaRequired ?? existing?.mfaRequired ?? false,
+        passwordPolicy: policyData.passwordPolicy !== undefined ? policyData.passwordPolicy : existing?.passwordPolicy ?? null,
+        updatedBy: policyData.updatedBy ?? existing?.updatedBy ?? null,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+      };
+
+      this.companySecurityPoliciesStore.set(policy.companyId, policy);
+      return policy;
+    },
+  };
+
+  webauthnCredentials = {
+    findById: async (id: string): Promise<WebAuthnCredential | null> => {
+      return this.webauthnCredentialsStore.get(id) || null;
+    },
+
+    findByCredentialId: async (credentialId: string): Promise<WebAuthnCredential | null> => {
+      return Array.from(this.webauthnCredentialsStore.values())
+        .find(credential => credential.credentialId === credentialId) || null;
+    },
+
+    findByUserId: async (userId: string): Promise<WebAuthnCredential[]> => {
+      return Array.from(this.webauthnCredentialsStore.values())
+        .filter(credential => credential.userId === userId)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    },
+
+    create: async (credentialData: NewWebAuthnCredential): Promise<WebAuthnCredential> => {
+      const id = credentialData.id || crypto.randomUUID();
+
+      const credential: WebAuthnCredential = {
+        id,
+        userId: credentialData.userId,
+        credentialId: credentialData.credentialId,
+        publicKeyJwk: credentialData.publicKeyJwk,
+        algorithm: credentialData.algorithm,
+        signCount: credentialData.signCount ?? 0,
+        transports: credentialData.transports || null,
+        name: credentialData.name,
+        lastUsedAt: credentialData.lastUsedAt || null,
+        createdAt: credentialData.createdAt || new Date(),
+      };
+
+      this.webauthnCredentialsStore.set(id, credential);
+      return credential;
+    },
+
+    update: async (id: string, data: Partial<NewWebAuthnCredential>): Promise<WebAuthnCredential | null> => {
+      const existing = this.webauthnCredentialsStore.get(id);
+      if (!existing) return null;
+
+      const updated: WebAuthnCredential = {
+        ...existing,
+        ...data,
+        id, // Keep original ID
+      };
+
+      this.webauthnCredentialsStore.set(id, updated);
+      return updated;
+    },
+
+    delete: async (id: string): Promise<boolean> => {
+      return this.webauthnCredentialsStore.delete(id);
+    },
+  };
+
+  webauthnChallenges = {
+    create: async (challengeData: NewWebAuthnChallenge): Promise<WebAuthnChallenge> => {
+      const id = challengeData.id || crypto.randomUUID();
+
+      const challenge: WebAuthnChallenge = {
+        id,
+        challenge: challengeData.challenge,
+        type: challengeData.type,
+        userId: challengeData.userId || null,
+        expiresAt: challengeData.expiresAt,
+        createdAt: challengeData.createdAt || new Date(),
+      };
+
+      this.webauthnChallengesStore.set(id, challenge);
+      return challenge;
+    },
+
+    consume: async (id: string): Promise<WebAuthnChallenge | null> => {
+      const challenge = this.webauthnChallengesStore.get(id);
+      if (!challenge) return null;
+
+      this.webauthnChallengesStore.delete(id);
+      return challenge;
+    },
+  };
+
+  oidcAuthRequests = {
+    create: async (requestData: NewOidcAuthRequest): Promise<OidcAuthRequest> => {
+      const request: OidcAuthRequest = {
+        id: requestData.id || crypto.randomUUID(),
+        provider: requestData.provider,
+        stateHash: requestData.stateHash,
+        codeVerifier: requestData.codeVerifier,
+        nonce: requestData.nonce,
+        redirectUri: requestData.redirectUri,
+        expiresAt: requestData.expiresAt,
+        createdAt: requestData.createdAt || new Date(),
+      };
+
+      this.oidcAuthRequestsStore.set(request.stateHash, request);
+      return request;
+    },
+
+    consumeByStateHash: async (stateHash: string): Promise<OidcAuthRequest | null> => {
+      const request = this.oidcAuthRequestsStore.get(stateHash);
+      if (!request) return null;
+
+      this.oidcAuthRequestsStore.delete(stateHash);
+      return request;
+    },
+  };
+
+  companySamlConfigs = {
+    findByCompanyId: async (companyId: string): Promise<CompanySamlConfig | null> => {
+      return this.companySamlConfigsStore.get(companyId) || null;
+    },
+
+    upsert: async (configData: NewCompanySamlConfig): Promise<CompanySamlConfig> => {
+      const existing = this.companySamlConfigsStore.get(configData.companyId);
+      const now = new Date();
+
+      const config: CompanySamlConfig = {
+        companyId: configData.companyId,
+        enabled: configData.enabled ?? existing?.enabled ?? false,
+        idpEntityId: configData.idpEntityId,
+        idpSsoUrl: configData.idpSsoUrl,
+        idpCertificates: configData.idpCertificates,
+        attributeMapping: configData.attributeMapping ?? existing?.attributeMapping ?? {},
+        defaultRole: configData.defaultRole ?? existing?.defaultRole ?? 'member',
+        defaultUserLevelId: configData.defaultUserLevelId !== undefined
+          ? configData.defaultUserLevelId
+          : existing?.defaultUserLevelId ?? null,
+        allowIdpInitiated: configData.allowIdpInitiated ?? existing?.allowIdpInitiated ?? true,
+        updatedBy: configData.updatedBy ?? existing?.updatedBy ?? null,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+      };
+
+      this.companySamlConfigsStore.set(config.companyId, config);
+      return config;
+    },
+
+    delete: async (companyId: string): Promise<boolean> => {
+      return this.companySamlConfigsStore.delete(companyId);
+    },
+  };
+
+  samlAuthRequests = {
+    create: async (requestData: NewSamlAuthRequest): Promise<SamlAuthRequest> => {
+      const request: SamlAuthRequest = {
+        requestId: requestData.requestId,
+        companyId: requestData.companyId,
+        expiresAt: requestData.expiresAt,
+        createdAt: requestData.createdAt || new Date(),
+      };
+
+      this.samlAuthRequestsStore.set(request.requestId, request);
+      return request;
+    },
+
+    findById: async (requestId: string): Promise<SamlAuthRequest | null> => {
+      return this.samlAuthRequestsStore.get(requestId) || null;
+    },
+
+    delete: async (requestId: string): Promise<boolean> => {
+      return this.samlAuthRequestsStore.delete(requestId);
+    },
+  };
+
+  samlConsumedAssertions = {
+    add: async (entryData: NewSamlConsumedAssertion): Promise<boolean> => {
+      const key = `${entryData.companyId}:${entryData.assertionId}`;
+      if (this.samlConsumedAssertionsStore.has(key)) {
+        return false;
+      }
+
+      this.samlConsumedAssertionsStore.set(key, {
+        assertionId: entryData.assertionId,
+        companyId: entryData.companyId,
+        expiresAt: entryData.expiresAt,
+        createdAt: entryData.createdAt || new Date(),
+      });
+      return true;
+    },
+
+    deleteExpired: async (now: Date): Promise<number> => {
+      let deleted = 0;
+      for (const [key, entry] of this.samlConsumedAssertionsStore) {
+        if (entry.expiresAt <= now) {
+          this.samlConsumedAssertionsStore.delete(key);
+          deleted++;
+        }
+      }
+      return deleted;
+    },
+  };
+
+  companySsoDomains = {
+    findByCompanyId: async (companyId: string): Promise<CompanySsoDomain[]> => {
+      return Array.from(this.companySsoDomainsStore.values())
+        .filter((domain) => domain.companyId === companyId)
+        .sort((a, b) => a.domain.localeCompare(b.domain));
+    },
+
+    findVerified: async (domain: string): Promise<CompanySsoDomain | null> => {
+      return Array.from(this.companySsoDomainsStore.values()).find(
+        (entry) => entry.domain === domain && entry.verifiedAt !== null
+      ) || null;
+    },
+
+    create: async (domainData: NewCompanySsoDomain): Promise<CompanySsoDomain> => {
+      const domain: CompanySsoDomain = {
+        companyId: domainData.companyId,
+        domain: domainData.domain,
+        verificationToken: domainData.verificationToken,
+        verifiedAt: domainData.verifiedAt ?? null,
+        createdAt: domainData.createdAt || new Date(),
+      };
+
+      this.companySsoDomainsStore.set(`${domain.companyId}:${domain.domain}`, domain);
+      return domain;
+    },
+
+    markVerified: async (companyId: string, domain: string): Promise<CompanySsoDomain | null> => {
+      const existing = this.companySsoDomainsStore.get(`${companyId}:${domain}`);
+      if (!existing) return null;
+
+      const updated = { ...existing, verifiedAt: existing.verifiedAt ?? new Date() };
+      this.companySsoDomainsStore.set(`${companyId}:${domain}`, updated);
+      return updated;
+    },
+
+    delete: async (companyId: string, domain: string): Promise<boolean> => {
+      return this.companySsoDomainsStore.delete(`${companyId}:${domain}`);
+    },
+  };
+
+  samlIdentities = {
+    find: async (companyId: string, nameId: string): Promise<SamlIdentity | null> => {
+      return this.samlIdentitiesStore.get(`${companyId}:${nameId}`) || null;
+    },
+
+    upsert: async (identityData: NewSamlIdentity): Promise<SamlIdentity> => {
+      const identity: SamlIdentity = {
+        companyId: identityData.companyId,
+        nameId: identityData.nameId,
+        userId: identityData.userId,
+        createdAt: identityData.createdAt || new Date(),
+      };
+
+      this.samlIdentitiesStore.set(`${identity.companyId}:${identity.nameId}`, identity);
+      return identity;
+    },
+  };
+
+  accountLockouts = {
+    findByUserId: async (userId: string): Promise<AccountLockout | null> => {
+      return this.accountLockoutsStore.get(userId) || null;
+    },
+
+    upsert: async (lockoutData: NewAccountLockout): Promise<AccountLockout> => {
+      const lockout: AccountLockout = {
+        userId: lockoutData.userId,
+        failedAttempts: lockoutData.failedAttempts ?? 0,
+        lastFailedAt: lockoutData.lastFailedAt ?? null,
+        lockedUntil: lockoutData.lockedUntil ?? null,
+        lockoutCount: lockoutData.lockoutCount ?? 0,
+        updatedAt: new Date(),
+      };
+
+      this.accountLockoutsStore.set(lockout.userId, lockout);
+      return lockout;
+    },
+
+    delete: async (userId: string): Promise<boolean> => {
+      return this.accountLockoutsStore.delete(userId);
+    },
+  };
+
+  accountLockoutEvents = {
+    create: async (eventData: NewAccountLockoutEvent): Promise<AccountLockoutEvent> => {
+      const event: AccountLockoutEvent = {
+        id: eventData.id || crypto.randomUUID(),
+        userId: eventData.userId ?? null,
+        event: eventData.event,
+        ipAddress: eventData.ipAddress ?? null,
+        actorId: eventData.actorId ?? null,
+        lockedUntil: eventData.lockedUntil ?? null,
+        createdAt: eventData.createdAt || new Date(),
+      };
+
+      this.accountLockoutEventsStore.push(event);
+      return event;
+    },
+
+    findByUserId: async (userId: string, limit: number): Promise<AccountLockoutEvent[]> => {
+      // Reverse first so events recorded in the same millisecond stay newest first
+      return [...this.accountLockoutEventsStore]
+        .reverse()
+        .filter(event => event.userId === userId)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(0, limit);
+    },
+  };
+
+  passwordHistory = {
+    create: async (entryData: NewPasswordHistoryEntry): Promise<PasswordHistoryEntry> => {
+      const entry: PasswordHistoryEntry = {
+        id: entryData.id || crypto.randomUUID(),
+        userId: entryData.userId,
+        passwordHash: entryData.passwordHash,
+        createdAt: entryData.createdAt || new Date(),
+      };
+
+      this.passwordHistoryStore.push(entry);
+      return entry;
+    },
+
+    findByUserId: async (userId: string, limit: number): Promise<PasswordHistoryEntry[]> => {
+      // Reverse first so entries created in the same millisecond stay newest first
+      return [...this.passwordHistoryStore]
+        .reverse()
+        .filter(entry => entry.userId === userId)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(0, limit);
+    },
+
+    deleteAllButRecent: async (userId: string, keep: number): Promise<number> => {
+      const recent = new Set((await this.passwordHistory.findByUserId(userId, keep)).map(entry => entry.id));
+      const before = this.passwordHistoryStore.length;
+
+      this.passwordHistoryStore = this.passwordHistoryStore.filter(
+        entry => entry.userId !== userId || recent.has(entry.id)
+      );
+      return before - this.passwordHistoryStore.length;
+    },
+  };
+
+  personalAccessTokens = {
+    findById: async (id: string): Promise<PersonalAccessToken | null> => {
+      return this.personalAccessTokensStore.get(id) || null;
+    },
+
+    findByTokenHash: async (hash: string): Promise<PersonalAccessToken | null> => {
+      return Array.from(this.personalAccessTokensStore.values())
+        .find(token => token.tokenHash === hash) || null;
+    },
+
+    findByUserId: async (userId: string): Promise<PersonalAccessToken[]> => {
+      return Array.from(this.personalAccessTokensStore.values())
+        .filter(token => token.userId === userId)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    },
+
+    create: async (tokenData: NewPersonalAccessToken): Promise<PersonalAccessToken> => {
+      const id = tokenData.id || crypto.randomUUID();
+
+      const token: PersonalAccessToken = {
+        id,
+        userId: tokenData.userId,
+        name: tokenData.name,
+        tokenPrefix: tokenData.tokenPrefix,
+        tokenHash: tokenData.tokenHash,
+        scopes: tokenData.scopes,
+        expiresAt: tokenData.expiresAt || null,
+        lastUsedAt: tokenData.lastUsedAt || null,
+        lastUsedIp: tokenData.lastUsedIp || null,
+        revokedAt: tokenData.revokedAt || null,
+        createdAt: tokenData.createdAt || new Date(),
+      };
+
+      this.personalAccessTokensStore.set(id, token);
+      return token;
+    },
+
+    update: async (id: string, data: Partial<NewPersonalAccessToken>): Promise<PersonalAccessToken | null> => {
+      const existing = this.personalAccessTokensStore.get(id);
+      if (!existing) return null;
+
+      const updated: PersonalAccessToken = { ...existing, ...data, id };
+      this.personalAccessTokensStore.set(id, updated);
+      return updated;
+    },
+
+    revokeAllForUser: async (userId: string): Promise<number> => {
+      const now = new Date();
+      let revoked = 0;
+
+      for (const token of this.personalAccessTokensStore.values()) {
+        if (token.userId === userId && !token.revokedAt) {
+          token.revokedAt = now;
+          revoked++;
+        }
+      }
+
+      return revoked;
+    },
+  };
+
+  serviceAccounts = {
+    findById: async (id: string): Promise<ServiceAccount | null> => {
+      return this.serviceAccountsStore.get(id) || null;
+    },
+
+    findByClientId: async (clientId: string): Promise<ServiceAccount | null> => {
+      return Array.from(this.serviceAccountsStore.values())
+        .find(account => account.clientId === clientId) || null;
+    },
+
+    findByCompanyId: async (companyId: string): Promise<ServiceAccount[]> => {
+      return Array.from(this.serviceAccountsStore.values())
+        .filter(account => account.companyId === companyId)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    },
+
+    create: async (accountData: NewServiceAccount): Promise<ServiceAccount> => {
+      const id = accountData.id || crypto.randomUUID();
+      const now = new Date();
+
+      const account: ServiceAccount = {
+        id,
+        companyId: accountData.companyId,
+        name: accountData.name,
+        description: accountData.description || null,
+        clientId: accountData.clientId,
+        clientSecretHash: accountData.clientSecretHash,
+        enabled: accountData.enabled ?? true,
+        createdBy: accountData.createdBy || null,
+        lastUsedAt: accountData.lastUsedAt || null,
+        secretRotatedAt: accountData.secretRotatedAt || null,
+        createdAt: accountData.createdAt || now,
+        updatedAt: accountData.updatedAt || now,
+      };
+
+      this.serviceAccountsStore.set(id, account);
+      return account;
+    },
+
+    update: async (id: string, data: Partial<NewServiceAccount>): Promise<ServiceAccount | null> => {
+      const existing = this.serviceAccountsStore.get(id);
+      if (!existing) return null;
+
+      const updated: ServiceAccount = { ...existing, ...data, id, updatedAt: new Date() };
+      this.serviceAccountsStore.set(id, updated);
+      return updated;
+    },
+
+    delete: async (id: string): Promise<boolean> => {
+      return this.serviceAccountsStore.delete(id);
+    },
+  };
+
+  impersonationSessions = {
+    findById: async (id: string): Promise<ImpersonationSession | null> => {
+      return this.impersonationSessionsStore.get(id) || null;
+    },
+
+    create: async (sessionData: NewImpersonationSession): Promise<ImpersonationSession> => {
+      const session: ImpersonationSession = {
+        id: sessionData.id || crypto.randomUUID(),
+        impersonatorId: sessionData.impersonatorId,
+        targetUserId: sessionData.targetUserId,
+        reason: sessionData.reason,
+        tokenJti: sessionData.tokenJti,
+        ipAddress: sessionData.ipAddress ?? null,
+        expiresAt: sessionData.expiresAt,
+        endedAt: sessionData.endedAt ?? null,
+        createdAt: sessionData.createdAt || new Date(),
+      };
+
+      this.impersonationSessionsStore.set(session.id, session);
+      return session;
+    },
+
+    update: async (id: string, data: Partial<NewImpersonationSession>): Promise<ImpersonationSession | null> => {
+      const existing = this.impersonationSessionsStore.get(id);
+      if (!existing) return null;
+
+      const updated: ImpersonationSession = { ...existing, ...data, id };
+      this.impersonationSessionsStore.set(id, updated);
+      return updated;
+    },
+  };
+
+  impersonationRequestLogs = {
+    create: async (logData: NewImpersonationRequestLog): Promise<ImpersonationRequestLog> => {
+      const log: ImpersonationRequestLog = {
+        id: logData.id || crypto.randomUUID(),
+        impersonationSessionId: logData.impersonationSessionId,
+        method: logData.method,
+        path: logData.path,
+        statusCode: logData.statusCode,
+        ipAddress: logData.ipAddress ?? null,
+        createdAt: logData.createdAt || new Date(),
+      };
+
+      this.impersonationRequestLogsStore.push(log);
+      return log;
+    },
+
+    findBySessionId: async (sessionId: string, limit: number): Promise<ImpersonationRequestLog[]> => {
+      // Reverse first so requests logged in the same millisecond stay newest first
+      return [...this.impersonationRequestLogsStore]
+        .reverse()
+        .filter(log => log.impersonationSessionId === sessionId)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(0, limit);
+    },
+  };
+
+  loginEvents = {
+    create: async (eventData: NewLoginEvent): Promise<LoginEvent> => {
+      const event: LoginEvent = {
+        id: eventData.id || crypto.randomUUID(),
+        userId: eventData.userId ?? null,
+        email: eventData.email,
+        success: eventData.success,
+        failureReason: eventData.failureReason ?? null,
+        method: eventData.method,
+        authProvider: eventData.authProvider,
+        mfaUsed: eventData.mfaUsed ?? false,
+        ipAddress: eventData.ipAddress ?? null,
+        userAgent: eventData.userAgent ?? null,
+        deviceFingerprint: eventData.deviceFingerprint ?? null,
+        newDevice: eventData.newDevice ?? false,
+        createdAt: eventData.createdAt || new Date(),
+      };
+
+      this.loginEventsStore.push(event);
+      return event;
+    },
+
+    findByUserId: async (userId: string, limit: number): Promise<LoginEvent[]> => {
+      // Reverse first so logins recorded in the same millisecond stay newest first
+      return [...this.loginEventsStore]
+        .reverse()
+        .filter(event => event.userId === userId)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(0, limit);
+    },
+
+    findKnownDevices: async (userId: string): Promise<string[]> => {
+      const fingerprints = this.loginEventsStore
+        .filter(event => event.userId === userId && event.success && event.deviceFingerprint)
+        .map(event => event.deviceFingerprint!);
+      return Array.from(new Set(fingerprints));
+    },
+  };
+
+  accountErasures = {
+    findById: async (id: string): Promise<AccountErasure | null> => {
+      return this.accountErasuresStore.get(id) || null;
+    },
+
+    findScheduledByUserId: async (userId: string): Promise<AccountErasure | null> => {
+      return Array.from(this.accountErasuresStore.values())
+        .find(erasure => erasure.userId === userId && erasure.status === 'scheduled') || null;
+    },
+
+    findDue: async (now: Date): Promise<AccountErasure[]> => {
+      return Array.from(this.accountErasuresStore.values())
+        .filter(erasure => erasure.status === 'scheduled' && erasure.scheduledFor <= now)
+        .sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime());
+    },
+
+    create: async (erasureData: NewAccountErasure): Promise<AccountErasure> => {
+      const now = new Date();
+      const erasure: AccountErasure = {
+        id: erasureData.id || crypto.randomUUID(),
+        userId: erasureData.userId,
+        emailHash: erasureData.emailHash,
+        status: erasureData.status || 'scheduled',
+        ownershipTransfers: erasureData.ownershipTransfers,
+        scheduledFor: erasureData.scheduledFor,
+        blockedReason: erasureData.blockedReason ?? null,
+        summary: erasureData.summary ?? null,
+        completedAt: erasureData.completedAt ?? null,
+        cancelledAt: erasureData.cancelledAt ?? null,
+        createdAt: erasureData.createdAt || now,
+        updatedAt: erasureData.updatedAt || now,
+      };
+
+      this.accountErasuresStore.set(erasure.id, erasure);
+      return erasure;
+    },
+
+    update: async (id: string, data: Partial<NewAccountErasure>): Promise<AccountErasure | null> => {
+      const existing = this.accountErasuresStore.get(id);
+      if (!existing) return null;
+
+      const updated: AccountErasure = { ...existing, ...data, id, updatedAt: new Date() };
+      this.accountErasuresStore.set(id, updated);
+      return updated;
+    },
+  };
+
+  companyInvitations = {
+    findById: async (id: string): Promise<CompanyInvitation | null> => {
+      return this.companyInvitationsStore.get(id) || null;
+    },
+
+    findByTokenHash: async (hash: string): Promise<CompanyInvitation | null> => {
+      return Array.from(this.companyInvitationsStore.values()).find(invitation => invitation.tokenHash === hash) || null;
+    },
+
+    findByCompanyId: async (companyId: string): Promise<CompanyInvitation[]> => {
+      return Array.from(this.companyInvitationsStore.values())
+        .filter(invitation => invitation.companyId === companyId)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    },
+
+    findPendingByEmail: async (email: string): Promise<CompanyInvitation[]> => {
+      const normalized = email.toLowerCase();
+      return Array.from(this.companyInvitationsStore.values())
+        .filter(invitation => invitation.email === normalized && invitation.status === 'pending');
+    },
+
+    create: async (invitationData: NewCompanyInvitation): Promise<CompanyInvitation> => {
+      const now = new Date();
+      const invitation: CompanyInvitation = {
+        id: invitationData.id || crypto.randomUUID(),
+        companyId: invitationData.companyId,
+        email: invitationData.email.toLowerCase(),
+        role: invitationData.role,
+        userLevelIds: invitationData.userLevelIds,
+        tokenHash: invitationData.tokenHash,
+        status: invitationData.status || 'pending',
+        invitedBy: invitationData.invitedBy ?? null,
+        acceptedBy: invitationData.acceptedBy ?? null,
+        sendCount: invitationData.sendCount ?? 1,
+        lastSentAt: invitationData.lastSentAt || now,
+        expiresAt: invitationData.expiresAt,
+        respondedAt: invitationData.respondedAt ?? null,
+        createdAt: invitationData.createdAt || now,
+        updatedAt: invitationData.updatedAt || now,
+      };
+
+      this.companyInvitationsStore.set(invitation.id, invitation);
+      return invitation;
+    },
+
+    update: async (id: string, data: Partial<NewCompanyInvitation>): Promise<CompanyInvitation | null> => {
+      const existing = this.companyInvitationsStore.get(id);
+      if (!existing) return null;
+
+      const updated: CompanyInvitation = { ...existing, ...data, id, updatedAt: new Date() };
+      this.companyInvitationsStore.set(id, updated);
+      return updated;
+    },
+  };
+
+  teams = {
+    findById: async (id: string): Promise<Team | null> => {
+      return this.teamsStore.get(id) || null;
+    },
+
+    findByCompanyId: async (companyId: string): Promise<Team[]> => {
+      return Array.from(this.teamsStore.values())
+        .filter(team => team.companyId === companyId)
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    findByName: async (companyId: string, name: string): Promise<Team | null> => {
+      const normalized = name.toLowerCase();
+      return Array.from(this.teamsStore.values())
+        .find(team => team.companyId === companyId && team.name.toLowerCase() === normalized) || null;
+    },
+
+    create: async (teamData: NewTeam): Promise<Team> => {
+      const now = new Date();
+      const team: Team = {
+        id: teamData.id || crypto.randomUUID(),
+        companyId: teamData.companyId,
+        name: teamData.name,
+        description: teamData.description ?? null,
+        createdBy: teamData.createdBy ?? null,
+        createdAt: teamData.createdAt || now,
+        updatedAt: teamData.updatedAt || now,
+      };
+
+      this.teamsStore.set(team.id, team);
+      return team;
+    },
+
+    update: async (id: string, data: Partial<NewTeam>): Promise<Team | null> => {
+      const existing = this.teamsStore.get(id);
+      if (!existing) return null;
+
+      const updated: Team = { ...existing, ...data, id, updatedAt: new Date() };
+      this.teamsStore.set(id, updated);
+      return updated;
+    },
+
+    delete: async (id: string): Promise<boolean> => {
+      this.teamMembersStore = this.teamMembersStore.filter(member => member.teamId !== id);
+      return this.teamsStore.delete(id);
+    },
+  };
+
+  teamMembers = {
+    findByTeamId: async (teamId: string): Promise<TeamMember[]> => {
+      return this.teamMembersStore.filter(member => member.teamId === teamId);
+    },
+
+    findByUserId: async (userId: string): Promise<TeamMember[]> => {
+      return this.teamMembersStore.filter(member => member.userId === userId);
+    },
+
+    find: async (teamId: string, userId: string): Promise<TeamMember | null> => {
+      return this.teamMembersStore.find(member => member.teamId === teamId && member.userId === userId) || null;
+    },
+
+    create: async (memberData: NewTeamMember): Promise<TeamMember> => {
+      const member: TeamMember = {
+        id: memberData.id || crypto.randomUUID(),
+        teamId: memberData.teamId,
+        userId: memberData.userId,
+        isLead: memberData.isLead ?? false,
+        addedAt: memberData.addedAt || new Date(),
+      };
+
+      this.teamMembersStore.push(member);
+      return member;
+    },
+
+    update: async (teamId: string, userId: string, data: Partial<NewTeamMember>): Promise<TeamMember | null> => {
+      const index = this.teamMembersStore.findIndex(member => member.teamId === teamId && member.userId === userId);
+      if (index === -1) return null;
+
+      const updated: TeamMember = { ...this.teamMembersStore[index], ...data, teamId, userId };
+      this.teamMembersStore[index] = updated;
+      return updated;
+    },
+
+    delete: async (teamId: string, userId: string): Promise<boolean> => {
+      const before = this.teamMembersStore.length;
+      this.teamMembersStore = this.teamMembersStore.filter(member => !(member.teamId === teamId && member.userId === userId));
+      return this.teamMembersStore.length < before;
+    },
+  };
+
+  ownershipTransfers = {
+    findById: async (id: string): Promise<OwnershipTransfer | null> => {
+      return this.ownershipTransfersStore.get(id) || null;
+    },
+
+    findByTokenHash: async (hash: string): Promise<OwnershipTransfer | null> => {
+      return Array.from(this.ownershipTransfersStore.values()).find(transfer => transfer.tokenHash === hash) || null;
+    },
+
+    findPendingByCompanyId: async (companyId: string): Promise<OwnershipTransfer[]> => {
+      return Array.from(this.ownershipTransfersStore.values())
+        .filter(transfer => transfer.companyId === companyId && transfer.status === 'pending');
+    },
+
+    create: async (transferData: NewOwnershipTransfer): Promise<OwnershipTransfer> => {
+      const now = new Date();
+      const transfer: OwnershipTransfer = {
+        id: transferData.id || crypto.randomUUID(),
+        companyId: transferData.companyId,
+        fromUserId: transferData.fromUserId,
+        toUserId: transferData.toUserId,
+        tokenHash: transferData.tokenHash,
+        status: transferData.status || 'pending',
+        expiresAt: transferData.expiresAt,
+        respondedAt: transferData.respondedAt ?? null,
+        createdAt: transferData.createdAt || now,
+        updatedAt: transferData.updatedAt || now,
+      };
+
+      this.ownershipTransfersStore.set(transfer.id, transfer);
+      return transfer;
+    },
+
+    update: async (id: string, data: Partial<NewOwnershipTransfer>): Promise<OwnershipTransfer | null> => {
+      const existing = this.ownershipTransfersStore.get(id);
+      if (!existing) return null;
+
+      const updated: OwnershipTransfer = { ...existing, ...data, id, updatedAt: new Date() };
+      this.ownershipTransfersStore.set(id, updated);
+      return updated;
+    },
+  };
+
   // IAM Database (imported from separate module for better organization)
   iam: IAMDatabase = iamDb;
 }
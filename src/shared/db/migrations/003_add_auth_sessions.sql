@@ -0,0 +1,24 @@
+-- Migration: Add auth sessions (refresh tokens)
+-- Description: Server-side sessions backing rotating refresh tokens
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS auth_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  refresh_token_hash VARCHAR(64) NOT NULL UNIQUE,
+  previous_refresh_token_hash VARCHAR(64),
+  user_agent VARCHAR(500),
+  ip_address VARCHAR(45),
+  expires_at TIMESTAMP NOT NULL,
+  last_used_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS auth_sessions_user_idx ON auth_sessions(user_id);
+CREATE INDEX IF NOT EXISTS auth_sessions_previous_token_idx ON auth_sessions(previous_refresh_token_hash);
+
+COMMENT ON COLUMN auth_sessions.refresh_token_hash IS 'SHA-256 hash of the current refresh token';
+COMMENT ON COLUMN auth_sessions.previous_refresh_token_hash IS 'Hash of the rotated-out refresh token, used to detect token reuse';
+COMMENT ON COLUMN auth_sessions.revoked_at IS 'Set on logout or revocation; null means the session is active';
@@ -0,0 +1,22 @@
+-- Migration: Add revoked tokens (access token denylist)
+-- Description: Denylist checked by the auth middleware so revocations take effect immediately
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS revoked_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind VARCHAR(20) NOT NULL,
+  jti VARCHAR(64),
+  session_id UUID,
+  user_id UUID NOT NULL,
+  reason VARCHAR(50) NOT NULL,
+  revoked_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS revoked_tokens_jti_idx ON revoked_tokens(jti);
+CREATE INDEX IF NOT EXISTS revoked_tokens_session_idx ON revoked_tokens(session_id);
+CREATE INDEX IF NOT EXISTS revoked_tokens_user_idx ON revoked_tokens(user_id);
+CREATE INDEX IF NOT EXISTS revoked_tokens_expires_idx ON revoked_tokens(expires_at);
+
+COMMENT ON COLUMN revoked_tokens.kind IS 'token (single jti), session (all tokens of a session) or user (all tokens issued before revoked_at)';
+COMMENT ON COLUMN revoked_tokens.expires_at IS 'When every targeted token has expired; the row can then be deleted';
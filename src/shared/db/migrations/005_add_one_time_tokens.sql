@@ -0,0 +1,19 @@
+-- Migration: Add one-time tokens
+-- Description: Single-use, expiring tokens delivered by email (password reset, email verification)
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS one_time_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  purpose VARCHAR(50) NOT NULL,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  email VARCHAR(255) NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS one_time_tokens_user_purpose_idx ON one_time_tokens(user_id, purpose);
+
+COMMENT ON COLUMN one_time_tokens.token_hash IS 'SHA-256 hash of the token; the plain token is only sent by email';
+COMMENT ON COLUMN one_time_tokens.used_at IS 'Set when the token is consumed or superseded; null means unused';
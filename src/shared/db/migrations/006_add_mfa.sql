@@ -0,0 +1,28 @@
+-- Migration: Add TOTP multi-factor authentication
+-- Description: Per-user TOTP enrolment and per-company security policies (MFA requirement)
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS user_mfa (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  totp_secret_encrypted TEXT NOT NULL,
+  recovery_code_hashes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  last_used_step INTEGER,
+  enabled_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON COLUMN user_mfa.totp_secret_encrypted IS 'TOTP secret encrypted with AES-256-GCM (ENCRYPTION_KEY)';
+COMMENT ON COLUMN user_mfa.recovery_code_hashes IS 'SHA-256 hashes of unused recovery codes';
+COMMENT ON COLUMN user_mfa.last_used_step IS 'Last accepted TOTP time step, rejects code replays';
+COMMENT ON COLUMN user_mfa.enabled_at IS 'Set once enrolment is confirmed; null means pending';
+
+CREATE TABLE IF NOT EXISTS company_security_policies (
+  company_id UUID PRIMARY KEY,
+  mfa_required BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_by UUID,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON COLUMN company_security_policies.mfa_required IS 'Members must complete MFA to access the company';
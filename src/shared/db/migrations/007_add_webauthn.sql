@@ -0,0 +1,38 @@
+-- Migration: Add WebAuthn passkeys
+-- Description: Passkey credentials (public keys, sign counters), ceremony challenges and the session MFA flag
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS webauthn_credentials (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  credential_id VARCHAR(1024) NOT NULL UNIQUE,
+  public_key_jwk JSONB NOT NULL,
+  algorithm INTEGER NOT NULL,
+  sign_count INTEGER NOT NULL DEFAULT 0,
+  transports JSONB,
+  name VARCHAR(100) NOT NULL,
+  last_used_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS webauthn_credentials_user_idx ON webauthn_credentials(user_id);
+
+COMMENT ON COLUMN webauthn_credentials.credential_id IS 'WebAuthn credential ID (base64url)';
+COMMENT ON COLUMN webauthn_credentials.algorithm IS 'COSE algorithm: -7 ES256, -8 EdDSA, -257 RS256';
+COMMENT ON COLUMN webauthn_credentials.sign_count IS 'Last signature counter, detects cloned authenticators';
+
+CREATE TABLE IF NOT EXISTS webauthn_challenges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  challenge VARCHAR(128) NOT NULL,
+  type VARCHAR(20) NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON COLUMN webauthn_challenges.type IS 'registration | authentication (deleted when used)';
+
+ALTER TABLE auth_sessions
+ADD COLUMN IF NOT EXISTS mfa_verified BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN auth_sessions.mfa_verified IS 'Signed in with a second factor or a passkey; kept across refreshes';
@@ -0,0 +1,31 @@
+-- Migration: Add generic OpenID Connect auth provider
+-- Description: Pending OIDC authorization requests (state, nonce, PKCE verifier), 'oidc' auth provider value and unique external IDs per provider
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS oidc_auth_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider VARCHAR(20) NOT NULL,
+  state_hash VARCHAR(64) NOT NULL UNIQUE,
+  code_verifier VARCHAR(128) NOT NULL,
+  nonce VARCHAR(128) NOT NULL,
+  redirect_uri VARCHAR(500) NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON COLUMN oidc_auth_requests.state_hash IS 'SHA-256 hash of the state parameter (deleted when the callback uses it)';
+COMMENT ON COLUMN oidc_auth_requests.code_verifier IS 'PKCE code verifier, never sent to the browser';
+
+-- Allow the generic OIDC provider
+ALTER TABLE users
+DROP CONSTRAINT IF EXISTS chk_auth_provider;
+
+ALTER TABLE users
+ADD CONSTRAINT chk_auth_provider
+CHECK (auth_provider IN ('inhouse', 'cognito', 'clerk', 'oidc'));
+
+-- One account per provider user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_provider_external_id
+ON users(auth_provider, external_id) WHERE external_id IS NOT NULL;
+
+COMMENT ON COLUMN users.auth_provider IS 'Authentication provider: inhouse, cognito, clerk, or oidc';
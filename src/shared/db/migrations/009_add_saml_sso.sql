@@ -0,0 +1,53 @@
+-- Migration: Add SAML single sign-on
+-- Description: Per-company SAML identity provider configuration, pending AuthnRequest IDs, consumed assertion IDs (replay protection) and the 'saml' auth provider value
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS company_saml_configs (
+  company_id UUID PRIMARY KEY,
+  enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  idp_entity_id VARCHAR(500) NOT NULL,
+  idp_sso_url VARCHAR(500) NOT NULL,
+  idp_certificates JSONB NOT NULL,
+  attribute_mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  default_role VARCHAR(20) NOT NULL DEFAULT 'member',
+  default_user_level_id UUID,
+  allow_idp_initiated BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_by UUID,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT chk_saml_default_role CHECK (default_role IN ('admin', 'member'))
+);
+
+COMMENT ON COLUMN company_saml_configs.idp_certificates IS 'IdP signing certificates (base64 DER); several are accepted during rotation';
+COMMENT ON COLUMN company_saml_configs.default_user_level_id IS 'User level for just-in-time members (NULL = the company default level)';
+
+CREATE TABLE IF NOT EXISTS saml_auth_requests (
+  request_id VARCHAR(100) PRIMARY KEY,
+  company_id UUID NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE saml_auth_requests IS 'AuthnRequest IDs awaiting a response (deleted when used)';
+
+CREATE TABLE IF NOT EXISTS saml_consumed_assertions (
+  assertion_id VARCHAR(100) NOT NULL,
+  company_id UUID NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS saml_consumed_assertions_assertion_idx
+ON saml_consumed_assertions(company_id, assertion_id);
+
+COMMENT ON TABLE saml_consumed_assertions IS 'Assertions already used to log in, kept until they expire (replay protection)';
+
+-- Allow SAML users
+ALTER TABLE users
+DROP CONSTRAINT IF EXISTS chk_auth_provider;
+
+ALTER TABLE users
+ADD CONSTRAINT chk_auth_provider
+CHECK (auth_provider IN ('inhouse', 'cognito', 'clerk', 'oidc', 'saml'));
+
+COMMENT ON COLUMN users.auth_provider IS 'Authentication provider: inhouse, cognito, clerk, oidc, or saml';
@@ -0,0 +1,32 @@
+-- Migration: Add account lockouts
+-- Description: Failed password login tracking per account and an audit trail of lockouts, IP blocks and unlocks
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS account_lockouts (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  last_failed_at TIMESTAMP,
+  locked_until TIMESTAMP,
+  lockout_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON COLUMN account_lockouts.failed_attempts IS 'Consecutive failed password logins since the last successful login';
+COMMENT ON COLUMN account_lockouts.locked_until IS 'Password logins are refused until this time; null means not locked';
+COMMENT ON COLUMN account_lockouts.lockout_count IS 'Lockouts since the last successful login; each one doubles the lock period';
+
+CREATE TABLE IF NOT EXISTS account_lockout_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  event VARCHAR(30) NOT NULL,
+  ip_address VARCHAR(45),
+  actor_id UUID,
+  locked_until TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT chk_account_lockout_event CHECK (event IN ('account_locked', 'ip_blocked', 'unlocked_by_email', 'unlocked_by_admin'))
+);
+
+CREATE INDEX IF NOT EXISTS account_lockout_events_user_idx ON account_lockout_events(user_id, created_at);
+
+COMMENT ON COLUMN account_lockout_events.user_id IS 'Affected account; null for IP blocks';
+COMMENT ON COLUMN account_lockout_events.actor_id IS 'Super admin who unlocked the account (unlocked_by_admin)';
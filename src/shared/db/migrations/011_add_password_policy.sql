@@ -0,0 +1,27 @@
+-- Migration: Add password policy
+-- Description: Per-company password rules, password history (reuse check) and password age
+-- Date: 2026-10-19
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP;
+
+-- Existing passwords start their max-age period now
+UPDATE users SET password_changed_at = NOW() WHERE password_hash IS NOT NULL AND password_changed_at IS NULL;
+
+COMMENT ON COLUMN users.password_changed_at IS 'Last time the password was set; used for the password max age';
+
+ALTER TABLE company_security_policies
+ADD COLUMN IF NOT EXISTS password_policy JSONB;
+
+COMMENT ON COLUMN company_security_policies.password_policy IS 'Password rules (length, character classes, history, max age); null means the defaults';
+
+CREATE TABLE IF NOT EXISTS password_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  password_hash VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS password_history_user_idx ON password_history(user_id, created_at);
+
+COMMENT ON COLUMN password_history.password_hash IS 'bcrypt hash of a previous password';
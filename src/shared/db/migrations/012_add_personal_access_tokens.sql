@@ -0,0 +1,24 @@
+-- Migration: Add personal access tokens
+-- Description: Scoped, revocable API keys (vv_pat_...) for integrations
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS personal_access_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  token_prefix VARCHAR(20) NOT NULL,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  scopes JSONB NOT NULL,
+  expires_at TIMESTAMP,
+  last_used_at TIMESTAMP,
+  last_used_ip VARCHAR(45),
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS personal_access_tokens_user_idx ON personal_access_tokens(user_id);
+
+COMMENT ON COLUMN personal_access_tokens.token_prefix IS 'Start of the token, shown so users can tell their keys apart';
+COMMENT ON COLUMN personal_access_tokens.token_hash IS 'SHA-256 hex digest of the token (the token itself is never stored)';
+COMMENT ON COLUMN personal_access_tokens.scopes IS 'Allowed scopes: *, view:<viewId> or feature:<featureId>:<action|*>';
+COMMENT ON COLUMN personal_access_tokens.expires_at IS 'NULL means the token never expires';
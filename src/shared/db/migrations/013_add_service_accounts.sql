@@ -0,0 +1,24 @@
+-- Migration: Add service accounts
+-- Description: Company-owned service accounts authenticating with client credentials
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS service_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  client_id VARCHAR(64) NOT NULL UNIQUE,
+  client_secret_hash VARCHAR(64) NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID,
+  last_used_at TIMESTAMP,
+  secret_rotated_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS service_accounts_company_idx ON service_accounts(company_id);
+
+COMMENT ON COLUMN service_accounts.client_id IS 'Public client identifier used with the client credentials grant';
+COMMENT ON COLUMN service_accounts.client_secret_hash IS 'SHA-256 hex digest of the client secret (the secret itself is never stored)';
+COMMENT ON COLUMN service_accounts.last_used_at IS 'Last time an access token was issued to the account';
@@ -0,0 +1,34 @@
+-- Migration: Add super admin impersonation
+-- Description: Impersonation sessions and a log of every request made while impersonating
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS impersonation_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  impersonator_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  target_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,
+  token_jti VARCHAR(36) NOT NULL,
+  ip_address VARCHAR(45),
+  expires_at TIMESTAMP NOT NULL,
+  ended_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS impersonation_sessions_target_idx ON impersonation_sessions(target_user_id, created_at);
+CREATE INDEX IF NOT EXISTS impersonation_sessions_impersonator_idx ON impersonation_sessions(impersonator_id, created_at);
+
+CREATE TABLE IF NOT EXISTS impersonation_request_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  impersonation_session_id UUID NOT NULL REFERENCES impersonation_sessions(id) ON DELETE CASCADE,
+  method VARCHAR(10) NOT NULL,
+  path TEXT NOT NULL,
+  status_code INTEGER NOT NULL,
+  ip_address VARCHAR(45),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS impersonation_request_logs_session_idx ON impersonation_request_logs(impersonation_session_id, created_at);
+
+COMMENT ON COLUMN impersonation_sessions.reason IS 'Why the super admin impersonates the user (e.g. support ticket)';
+COMMENT ON COLUMN impersonation_sessions.token_jti IS 'ID of the impersonation access token, revoked when the session ends early';
+COMMENT ON COLUMN impersonation_sessions.ended_at IS 'Set when the session is ended before it expires';
@@ -0,0 +1,27 @@
+-- Migration: Add login history
+-- Description: Successful and failed sign-ins with the device they came from
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS login_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,
+  success BOOLEAN NOT NULL,
+  failure_reason VARCHAR(30),
+  method VARCHAR(20) NOT NULL,
+  auth_provider VARCHAR(50) NOT NULL,
+  mfa_used BOOLEAN NOT NULL DEFAULT FALSE,
+  ip_address VARCHAR(45),
+  user_agent VARCHAR(500),
+  device_fingerprint VARCHAR(64),
+  new_device BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS login_events_user_idx ON login_events(user_id, created_at);
+CREATE INDEX IF NOT EXISTS login_events_device_idx ON login_events(user_id, device_fingerprint);
+
+COMMENT ON COLUMN login_events.user_id IS 'Account signed in to; NULL for failed logins with an unknown email address';
+COMMENT ON COLUMN login_events.method IS 'password, magic_link, passkey, external (OIDC, Clerk) or sso (SAML)';
+COMMENT ON COLUMN login_events.device_fingerprint IS 'SHA-256 of the user agent without version numbers';
+COMMENT ON COLUMN login_events.new_device IS 'First successful login from this device (a security alert was sent)';
@@ -0,0 +1,27 @@
+-- Migration: Add account erasures
+-- Description: Grace-period account deletion requests, kept as the GDPR erasure record
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS account_erasures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  email_hash VARCHAR(64) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'scheduled',
+  ownership_transfers JSONB NOT NULL DEFAULT '[]',
+  scheduled_for TIMESTAMP NOT NULL,
+  blocked_reason TEXT,
+  summary JSONB,
+  completed_at TIMESTAMP,
+  cancelled_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS account_erasures_user_idx ON account_erasures(user_id);
+CREATE INDEX IF NOT EXISTS account_erasures_due_idx ON account_erasures(status, scheduled_for);
+
+COMMENT ON COLUMN account_erasures.user_id IS 'Erased account; not a foreign key so the record outlives the user';
+COMMENT ON COLUMN account_erasures.email_hash IS 'SHA-256 of the lowercased email address';
+COMMENT ON COLUMN account_erasures.status IS 'scheduled, completed, cancelled or blocked';
+COMMENT ON COLUMN account_erasures.ownership_transfers IS 'Companies the user owns and the member taking them over';
+COMMENT ON COLUMN account_erasures.summary IS 'Counts of what the erasure job removed or pseudonymized';
@@ -0,0 +1,29 @@
+-- Migration: Add company invitations
+-- Description: Email invitations to join a company, including for addresses without an account
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS company_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL,
+  email VARCHAR(255) NOT NULL,
+  role VARCHAR(20) NOT NULL,
+  user_level_ids JSONB NOT NULL DEFAULT '[]',
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  accepted_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  send_count INTEGER NOT NULL DEFAULT 1,
+  last_sent_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP NOT NULL,
+  responded_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS company_invitations_company_idx ON company_invitations(company_id, status);
+CREATE INDEX IF NOT EXISTS company_invitations_email_idx ON company_invitations(email, status);
+
+COMMENT ON COLUMN company_invitations.email IS 'Lowercased invitee address; the account accepting must use it';
+COMMENT ON COLUMN company_invitations.user_level_ids IS 'IAM user levels assigned when the invitation is accepted';
+COMMENT ON COLUMN company_invitations.token_hash IS 'SHA-256 of the link token; replaced when the invitation is resent';
+COMMENT ON COLUMN company_invitations.status IS 'pending, accepted, declined or revoked (expiry is checked against expires_at)';
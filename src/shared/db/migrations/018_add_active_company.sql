@@ -0,0 +1,13 @@
+-- Migration: Add active company
+-- Description: Default company per user and the company a session's access tokens act on
+-- Date: 2026-10-19
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS default_company_id UUID;
+
+COMMENT ON COLUMN users.default_company_id IS 'Company made active on sign-in; null (or a company the user left) means the first membership';
+
+ALTER TABLE auth_sessions
+ADD COLUMN IF NOT EXISTS active_company_id UUID;
+
+COMMENT ON COLUMN auth_sessions.active_company_id IS 'Company carried in the activeCompanyId claim of the session''s access tokens';
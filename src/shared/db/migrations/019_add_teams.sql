@@ -0,0 +1,29 @@
+-- Migration: Add teams
+-- Description: Teams inside companies, team membership and team leads (backs the 'team' permission scope)
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS teams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  description VARCHAR(500),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS teams_company_name_idx ON teams(company_id, name);
+
+CREATE TABLE IF NOT EXISTS team_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  is_lead BOOLEAN NOT NULL DEFAULT FALSE,
+  added_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS team_members_team_user_idx ON team_members(team_id, user_id);
+CREATE INDEX IF NOT EXISTS team_members_user_idx ON team_members(user_id);
+
+COMMENT ON COLUMN teams.name IS 'Team name, unique within the company';
+COMMENT ON COLUMN team_members.is_lead IS 'Team leads can rename the team and manage its members';
@@ -0,0 +1,21 @@
+-- Migration: Add ownership transfers
+-- Description: Company ownership handovers confirmed by the recipient with an emailed link
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS ownership_transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL,
+  from_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  to_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  expires_at TIMESTAMP NOT NULL,
+  responded_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS ownership_transfers_company_idx ON ownership_transfers(company_id, status);
+
+COMMENT ON COLUMN ownership_transfers.token_hash IS 'SHA-256 hash of the confirmation link token';
+COMMENT ON COLUMN ownership_transfers.status IS 'pending, completed, declined or cancelled';
@@ -0,0 +1,37 @@
+-- Migration: Add SSO domains and SAML identities
+-- Description: Company email domains verified by DNS TXT record, and SAML NameIDs linked to users per company (one user can sign in through several companies)
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS company_sso_domains (
+  company_id UUID NOT NULL,
+  domain VARCHAR(255) NOT NULL,
+  verification_token VARCHAR(64) NOT NULL,
+  verified_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS company_sso_domains_company_domain_idx ON company_sso_domains(company_id, domain);
+CREATE INDEX IF NOT EXISTS company_sso_domains_domain_idx ON company_sso_domains(domain);
+
+-- A domain is verified by one company at most
+CREATE UNIQUE INDEX IF NOT EXISTS company_sso_domains_verified_idx
+ON company_sso_domains(domain) WHERE verified_at IS NOT NULL;
+
+COMMENT ON COLUMN company_sso_domains.verification_token IS 'Expected in the TXT record _vertical-vibing-verification.<domain>';
+
+CREATE TABLE IF NOT EXISTS saml_identities (
+  company_id UUID NOT NULL,
+  name_id VARCHAR(500) NOT NULL,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS saml_identities_name_id_idx ON saml_identities(company_id, name_id);
+CREATE INDEX IF NOT EXISTS saml_identities_user_idx ON saml_identities(user_id);
+
+-- Users provisioned before this migration: external_id is '<companyId>:<NameID>'
+INSERT INTO saml_identities (company_id, name_id, user_id)
+SELECT split_part(external_id, ':', 1)::uuid, substring(external_id FROM 38), id
+FROM users
+WHERE auth_provider = 'saml' AND external_id IS NOT NULL
+ON CONFLICT DO NOTHING;
@@ -12,6 +12,24 @@ import * as emailSchema from './schema/email.schema';
 import * as usersSchema from './schema/users.schema';
 import * as companiesSchema from './schema/companies.schema';
 import * as subscriptionsSchema from './schema/subscriptions.schema';
+import * as authSessionsSchema from './schema/auth-sessions.schema';
+import * as revokedTokensSchema from './schema/revoked-tokens.schema';
+import * as oneTimeTokensSchema from './schema/one-time-tokens.schema';
+import * as userMfaSchema from './schema/user-mfa.schema';
+import * as companySecurityPoliciesSchema from './schema/company-security-policies.schema';
+import * as webauthnSchema from './schema/webauthn.schema';
+import * as oidcAuthRequestsSchema from './schema/oidc-auth-requests.schema';
+import * as samlSchema from './schema/saml.schema';
+import * as accountLockoutsSchema from './schema/account-lockouts.schema';
+import * as passwordHistorySchema from './schema/password-history.schema';
+import * as personalAccessTokensSchema from './schema/personal-access-tokens.schema';
+import * as serviceAccountsSchema from './schema/service-accounts.schema';
+import * as impersonationSchema from './schema/impersonation.schema';
+import * as loginEventsSchema from './schema/login-events.schema';
+import * as accountErasuresSchema from './schema/account-erasures.schema';
+import * as companyInvitationsSchema from './schema/company-invitations.schema';
+import * as teamsSchema from './schema/teams.schema';
+import * as ownershipTransfersSchema from './schema/ownership-transfers.schema';
 
 // Combine all schemas
 const schema = {
@@ -20,6 +38,24 @@ const schema = {
   ...usersSchema,
   ...companiesSchema,
   ...subscriptionsSchema,
+  ...authSessionsSchema,
+  ...revokedTokensSchema,
+  ...oneTimeTokensSchema,
+  ...userMfaSchema,
+  ...companySecurityPoliciesSchema,
+  ...webauthnSchema,
+  ...oidcAuthRequestsSchema,
+  ...samlSchema,
+  ...accountLockoutsSchema,
+  ...passwordHistorySchema,
+  ...personalAccessTokensSchema,
+  ...serviceAccountsSchema,
+  ...impersonationSchema,
+  ...loginEventsSchema,
+  ...accountErasuresSchema,
+  ...companyInvitationsSchema,
+  ...teamsSchema,
+  ...ownershipTransfersSchema,
 };
 
 /**
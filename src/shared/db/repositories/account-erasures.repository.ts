@@ -0,0 +1,46 @@
+import type { Database } from '../client';
+import type { AccountErasure, NewAccountErasure } from '../schema/account-erasures.schema';
+
+/**
+ * Account Erasures Repository
+ *
+ * Data access layer for the account_erasures table
+ */
+export class AccountErasuresRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Find an erasure request by ID
+   */
+  async findById(id: string): Promise<AccountErasure | null> {
+    return this.db.accountErasures.findById(id);
+  }
+
+  /**
+   * Find a user's pending erasure request
+   */
+  async findScheduledByUserId(userId: string): Promise<AccountErasure | null> {
+    return this.db.accountErasures.findScheduledByUserId(userId);
+  }
+
+  /**
+   * Find pending erasures whose grace period is over, oldest first
+   */
+  async findDue(now: Date = new Date()): Promise<AccountErasure[]> {
+    return this.db.accountErasures.findDue(now);
+  }
+
+  /**
+   * Create an erasure request
+   */
+  async create(erasure: NewAccountErasure): Promise<AccountErasure> {
+    return this.db.accountErasures.create(erasure);
+  }
+
+  /**
+   * Update an erasure request
+   */
+  async update(id: string, data: Partial<NewAccountErasure>): Promise<AccountErasure | null> {
+    return this.db.accountErasures.update(id, data);
+  }
+}
@@ -0,0 +1,51 @@
+import type { Database } from '../client';
+import type {
+  AccountLockout,
+  NewAccountLockout,
+  AccountLockoutEvent,
+  NewAccountLockoutEvent,
+} from '../schema/account-lockouts.schema';
+
+/**
+ * Account Lockouts Repository
+ *
+ * Data access layer for account_lockouts and account_lockout_events tables
+ */
+export class AccountLockoutsRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Find failed login state by user ID
+   */
+  async findByUserId(userId: string): Promise<AccountLockout | null> {
+    return this.db.accountLockouts.findByUserId(userId);
+  }
+
+  /**
+   * Create or replace failed login state
+   */
+  async upsert(lockout: NewAccountLockout): Promise<AccountLockout> {
+    return this.db.accountLockouts.upsert(lockout);
+  }
+
+  /**
+   * Clear failed login state (successful login or unlock)
+   */
+  async delete(userId: string): Promise<boolean> {
+    return this.db.accountLockouts.delete(userId);
+  }
+
+  /**
+   * Record a lockout, IP block or unlock
+   */
+  async recordEvent(event: NewAccountLockoutEvent): Promise<AccountLockoutEvent> {
+    return this.db.accountLockoutEvents.create(event);
+  }
+
+  /**
+   * Get an account's most recent lockout events, newest first
+   */
+  async findEvents(userId: string, limit = 50): Promise<AccountLockoutEvent[]> {
+    return this.db.accountLockoutEvents.findByUserId(userId, limit);
+  }
+}
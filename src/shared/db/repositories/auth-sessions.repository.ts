@@ -0,0 +1,69 @@
+import type { Database } from '../client';
+import type { AuthSession, NewAuthSession } from '../schema/auth-sessions.schema';
+
+/**
+ * Auth Sessions Repository
+ *
+ * Data access layer for auth_sessions table
+ */
+export class AuthSessionsRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Find session by ID
+   */
+  async findById(id: string): Promise<AuthSession | null> {
+    return this.db.authSessions.findById(id);
+  }
+
+  /**
+   * Find session by current refresh token hash
+   */
+  async findByRefreshTokenHash(hash: string): Promise<AuthSession | null> {
+    return this.db.authSessions.findByRefreshTokenHash(hash);
+  }
+
+  /**
+   * Find session whose previous (rotated-out) refresh token matches
+   */
+  async findByPreviousRefreshTokenHash(hash: string): Promise<AuthSession | null> {
+    return this.db.authSessions.findByPreviousRefreshTokenHash(hash);
+  }
+
+  /**
+   * Find all active (not revoked, not expired) sessions for a user
+   */
+  async findActiveByUserId(userId: string): Promise<AuthSession[]> {
+    return this.db.authSessions.findActiveByUserId(userId);
+  }
+
+  /**
+   * Create a new session
+   */
+  async create(sessionData: NewAuthSession): Promise<AuthSession> {
+    return this.db.authSessions.create(sessionData);
+  }
+
+  /**
+   * Update session by ID
+   */
+  async update(id: string, data: Partial<NewAuthSession>): Promise<AuthSession | null> {
+    return this.db.authSessions.update(id, data);
+  }
+
+  /**
+   * Revoke a single session
+   */
+  async revoke(id: string): Promise<AuthSession | null> {
+    return this.db.authSessions.update(id, { revokedAt: new Date() });
+  }
+
+  /**
+   * Revoke every active session for a user
+   *
+   * @returns Number of sessions revoked
+   */
+  async revokeAllForUser(userId: string): Promise<number> {
+    return this.db.authSessions.revokeAllForUser(userId);
+  }
+}
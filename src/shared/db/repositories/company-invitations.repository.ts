@@ -0,0 +1,53 @@
+import type { Database } from '../client';
+import type { CompanyInvitation, NewCompanyInvitation } from '../schema/company-invitations.schema';
+
+/**
+ * Company Invitations Repository
+ *
+ * Data access layer for the company_invitations table
+ */
+export class CompanyInvitationsRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Find an invitation by ID
+   */
+  async findById(id: string): Promise<CompanyInvitation | null> {
+    return this.db.companyInvitations.findById(id);
+  }
+
+  /**
+   * Find an invitation by the hash of its link token
+   */
+  async findByTokenHash(hash: string): Promise<CompanyInvitation | null> {
+    return this.db.companyInvitations.findByTokenHash(hash);
+  }
+
+  /**
+   * Get a company's invitations, newest first
+   */
+  async findByCompanyId(companyId: string): Promise<CompanyInvitation[]> {
+    return this.db.companyInvitations.findByCompanyId(companyId);
+  }
+
+  /**
+   * Get the pending invitations sent to an address (expired ones included)
+   */
+  async findPendingByEmail(email: string): Promise<CompanyInvitation[]> {
+    return this.db.companyInvitations.findPendingByEmail(email);
+  }
+
+  /**
+   * Create an invitation
+   */
+  async create(invitation: NewCompanyInvitation): Promise<CompanyInvitation> {
+    return this.db.companyInvitations.create(invitation);
+  }
+
+  /**
+   * Update an invitation
+   */
+  async update(id: string, data: Partial<NewCompanyInvitation>): Promise<CompanyInvitation | null> {
+    return this.db.companyInvitations.update(id, data);
+  }
+}
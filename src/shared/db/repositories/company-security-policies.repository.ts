@@ -0,0 +1,35 @@
+import type { Database } from '../client';
+import type {
+  CompanySecurityPolicy,
+  NewCompanySecurityPolicy,
+} from '../schema/company-security-policies.schema';
+
+/**
+ * Company Security Policies Repository
+ *
+ * Data access layer for company_security_policies table
+ */
+export class CompanySecurityPoliciesRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Find policy for a company
+   */
+  async findByCompanyId(companyId: string): Promise<CompanySecurityPolicy | null> {
+    return this.db.companySecurityPolicies.findByCompanyId(companyId);
+  }
+
+  /**
+   * Find policies for several companies (companies without a policy are omitted)
+   */
+  async findByCompanyIds(companyIds: string[]): Promise<CompanySecurityPolicy[]> {
+    return this.db.companySecurityPolicies.findByCompanyIds(companyIds);
+  }
+
+  /**
+   * Create or update a company's policy
+   */
+  async upsert(policy: NewCompanySecurityPolicy): Promise<CompanySecurityPolicy> {
+    return this.db.companySecurityPolicies.upsert(policy);
+  }
+}
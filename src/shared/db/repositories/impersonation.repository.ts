@@ -0,0 +1,51 @@
+import type { Database } from '../client';
+import type {
+  ImpersonationSession,
+  NewImpersonationSession,
+  ImpersonationRequestLog,
+  NewImpersonationRequestLog,
+} from '../schema/impersonation.schema';
+
+/**
+ * Impersonation Repository
+ *
+ * Data access layer for impersonation_sessions and impersonation_request_logs tables
+ */
+export class ImpersonationRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Find impersonation session by ID
+   */
+  async findSessionById(id: string): Promise<ImpersonationSession | null> {
+    return this.db.impersonationSessions.findById(id);
+  }
+
+  /**
+   * Create a new impersonation session
+   */
+  async createSession(session: NewImpersonationSession): Promise<ImpersonationSession> {
+    return this.db.impersonationSessions.create(session);
+  }
+
+  /**
+   * Update impersonation session by ID (end it early)
+   */
+  async updateSession(id: string, data: Partial<NewImpersonationSession>): Promise<ImpersonationSession | null> {
+    return this.db.impersonationSessions.update(id, data);
+  }
+
+  /**
+   * Record a request made while impersonating
+   */
+  async createRequestLog(log: NewImpersonationRequestLog): Promise<ImpersonationRequestLog> {
+    return this.db.impersonationRequestLogs.create(log);
+  }
+
+  /**
+   * Find the most recent requests of an impersonation session (newest first)
+   */
+  async findRequestLogs(sessionId: string, limit: number): Promise<ImpersonationRequestLog[]> {
+    return this.db.impersonationRequestLogs.findBySessionId(sessionId, limit);
+  }
+}
@@ -0,0 +1,32 @@
+import type { Database } from '../client';
+import type { LoginEvent, NewLoginEvent } from '../schema/login-events.schema';
+
+/**
+ * Login Events Repository
+ *
+ * Data access layer for the login_events table
+ */
+export class LoginEventsRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Record a successful or failed login
+   */
+  async create(event: NewLoginEvent): Promise<LoginEvent> {
+    return this.db.loginEvents.create(event);
+  }
+
+  /**
+   * Get a user's most recent logins, newest first
+   */
+  async findByUserId(userId: string, limit = 50): Promise<LoginEvent[]> {
+    return this.db.loginEvents.findByUserId(userId, limit);
+  }
+
+  /**
+   * Get the device fingerprints a user has signed in from
+   */
+  async findKnownDevices(userId: string): Promise<string[]> {
+    return this.db.loginEvents.findKnownDevices(userId);
+  }
+}
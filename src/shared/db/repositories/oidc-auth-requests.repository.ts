@@ -0,0 +1,25 @@
+import type { Database } from '../client';
+import type { OidcAuthRequest, NewOidcAuthRequest } from '../schema/oidc-auth-requests.schema';
+
+/**
+ * OIDC Authorization Requests Repository
+ *
+ * Data access layer for oidc_auth_requests table
+ */
+export class OidcAuthRequestsRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Store a pending authorization request
+   */
+  async create(request: NewOidcAuthRequest): Promise<OidcAuthRequest> {
+    return this.db.oidcAuthRequests.create(request);
+  }
+
+  /**
+   * Fetch and delete a request by state hash (single use)
+   */
+  async consumeByStateHash(stateHash: string): Promise<OidcAuthRequest | null> {
+    return this.db.oidcAuthRequests.consumeByStateHash(stateHash);
+  }
+}
@@ -0,0 +1,39 @@
+import type { Database } from '../client';
+import type { OneTimeToken, NewOneTimeToken } from '../schema/one-time-tokens.schema';
+
+/**
+ * One-Time Tokens Repository
+ *
+ * Data access layer for one_time_tokens table
+ */
+export class OneTimeTokensRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Find token by hash
+   */
+  async findByTokenHash(hash: string): Promise<OneTimeToken | null> {
+    return this.db.oneTimeTokens.findByTokenHash(hash);
+  }
+
+  /**
+   * Create new token
+   */
+  async create(token: NewOneTimeToken): Promise<OneTimeToken> {
+    return this.db.oneTimeTokens.create(token);
+  }
+
+  /**
+   * Mark token as used (returns null if it was already used)
+   */
+  async markUsed(id: string): Promise<OneTimeToken | null> {
+    return this.db.oneTimeTokens.markUsed(id);
+  }
+
+  /**
+   * Invalidate all unused tokens of a user for a purpose
+   */
+  async invalidateForUser(userId: string, purpose: string): Promise<number> {
+    return this.db.oneTimeTokens.invalidateForUser(userId, purpose);
+  }
+}
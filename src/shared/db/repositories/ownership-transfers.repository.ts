@@ -0,0 +1,46 @@
+import type { Database } from '../client';
+import type { OwnershipTransfer, NewOwnershipTransfer } from '../schema/ownership-transfers.schema';
+
+/**
+ * Ownership Transfers Repository
+ *
+ * Data access layer for the ownership_transfers table
+ */
+export class OwnershipTransfersRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Find a transfer by ID
+   */
+  async findById(id: string): Promise<OwnershipTransfer | null> {
+    return this.db.ownershipTransfers.findById(id);
+  }
+
+  /**
+   * Find a transfer by the hash of its link token
+   */
+  async findByTokenHash(hash: string): Promise<OwnershipTransfer | null> {
+    return this.db.ownershipTransfers.findByTokenHash(hash);
+  }
+
+  /**
+   * Get a company's pending transfers (expired ones included)
+   */
+  async findPendingByCompanyId(companyId: string): Promise<OwnershipTransfer[]> {
+    return this.db.ownershipTransfers.findPendingByCompanyId(companyId);
+  }
+
+  /**
+   * Create a transfer
+   */
+  async create(transfer: NewOwnershipTransfer): Promise<OwnershipTransfer> {
+    return this.db.ownershipTransfers.create(transfer);
+  }
+
+  /**
+   * Update a transfer
+   */
+  async update(id: string, data: Partial<NewOwnershipTransfer>): Promise<OwnershipTransfer | null> {
+    return this.db.ownershipTransfers.update(id, data);
+  }
+}
@@ -0,0 +1,32 @@
+import type { Database } from '../client';
+import type { PasswordHistoryEntry, NewPasswordHistoryEntry } from '../schema/password-history.schema';
+
+/**
+ * Password History Repository
+ *
+ * Data access layer for password_history table
+ */
+export class PasswordHistoryRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Record a previous password hash
+   */
+  async create(entry: NewPasswordHistoryEntry): Promise<PasswordHistoryEntry> {
+    return this.db.passwordHistory.create(entry);
+  }
+
+  /**
+   * Find a user's most recent previous passwords (newest first)
+   */
+  async findRecent(userId: string, limit: number): Promise<PasswordHistoryEntry[]> {
+    return this.db.passwordHistory.findByUserId(userId, limit);
+  }
+
+  /**
+   * Delete all but the most recent entries of a user
+   */
+  async prune(userId: string, keep: number): Promise<number> {
+    return this.db.passwordHistory.deleteAllButRecent(userId, keep);
+  }
+}
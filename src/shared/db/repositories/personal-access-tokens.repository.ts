@@ -0,0 +1,53 @@
+import type { Database } from '../client';
+import type { PersonalAccessToken, NewPersonalAccessToken } from '../schema/personal-access-tokens.schema';
+
+/**
+ * Personal Access Tokens Repository
+ *
+ * Data access layer for personal_access_tokens table
+ */
+export class PersonalAccessTokensRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Find token by ID
+   */
+  async findById(id: string): Promise<PersonalAccessToken | null> {
+    return this.db.personalAccessTokens.findById(id);
+  }
+
+  /**
+   * Find token by the SHA-256 hash of its value
+   */
+  async findByTokenHash(hash: string): Promise<PersonalAccessToken | null> {
+    return this.db.personalAccessTokens.findByTokenHash(hash);
+  }
+
+  /**
+   * Find all tokens of a user (newest first, including revoked ones)
+   */
+  async findByUserId(userId: string): Promise<PersonalAccessToken[]> {
+    return this.db.personalAccessTokens.findByUserId(userId);
+  }
+
+  /**
+   * Create a new token
+   */
+  async create(token: NewPersonalAccessToken): Promise<PersonalAccessToken> {
+    return this.db.personalAccessTokens.create(token);
+  }
+
+  /**
+   * Update token by ID (last use, revocation)
+   */
+  async update(id: string, data: Partial<NewPersonalAccessToken>): Promise<PersonalAccessToken | null> {
+    return this.db.personalAccessTokens.update(id, data);
+  }
+
+  /**
+   * Revoke every active token of a user
+   */
+  async revokeAllForUser(userId: string): Promise<number> {
+    return this.db.personalAccessTokens.revokeAllForUser(userId);
+  }
+}
@@ -0,0 +1,32 @@
+import type { Database } from '../client';
+import type { RevokedToken, NewRevokedToken } from '../schema/revoked-tokens.schema';
+
+/**
+ * Revoked Tokens Repository
+ *
+ * Data access layer for revoked_tokens table (access token denylist)
+ */
+export class RevokedTokensRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Find denylist entries matching a token's jti, session, or user
+   */
+  async findMatching(criteria: { jti?: string; sessionId?: string; userId: string }): Promise<RevokedToken[]> {
+    return this.db.revokedTokens.findMatching(criteria);
+  }
+
+  /**
+   * Add a denylist entry
+   */
+  async create(entry: NewRevokedToken): Promise<RevokedToken> {
+    return this.db.revokedTokens.create(entry);
+  }
+
+  /**
+   * Delete entries whose targeted tokens have all expired
+   */
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    return this.db.revokedTokens.deleteExpired(now);
+  }
+}
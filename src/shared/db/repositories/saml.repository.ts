@@ -0,0 +1,127 @@
+import type { Database } from '../client';
+import type {
+  CompanySamlConfig,
+  NewCompanySamlConfig,
+  SamlAuthRequest,
+  NewSamlAuthRequest,
+  NewSamlConsumedAssertion,
+  CompanySsoDomain,
+  NewCompanySsoDomain,
+  SamlIdentity,
+  NewSamlIdentity,
+} from '../schema/saml.schema';
+
+/**
+ * SAML Repository
+ *
+ * Data access layer for company_saml_configs, saml_auth_requests,
+ * saml_consumed_assertions, company_sso_domains and saml_identities tables
+ */
+export class SamlRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Find a company's SAML configuration
+   */
+  async findConfig(companyId: string): Promise<CompanySamlConfig | null> {
+    return this.db.companySamlConfigs.findByCompanyId(companyId);
+  }
+
+  /**
+   * Create or replace a company's SAML configuration
+   */
+  async upsertConfig(config: NewCompanySamlConfig): Promise<CompanySamlConfig> {
+    return this.db.companySamlConfigs.upsert(config);
+  }
+
+  /**
+   * Delete a company's SAML configuration
+   */
+  async deleteConfig(companyId: string): Promise<boolean> {
+    return this.db.companySamlConfigs.delete(companyId);
+  }
+
+  /**
+   * Store the ID of an AuthnRequest we sent
+   */
+  async createAuthRequest(request: NewSamlAuthRequest): Promise<SamlAuthRequest> {
+    return this.db.samlAuthRequests.create(request);
+  }
+
+  /**
+   * Find a pending AuthnRequest by ID
+   */
+  async findAuthRequest(requestId: string): Promise<SamlAuthRequest | null> {
+    return this.db.samlAuthRequests.findById(requestId);
+  }
+
+  /**
+   * Delete a pending AuthnRequest
+   */
+  async deleteAuthRequest(requestId: string): Promise<boolean> {
+    return this.db.samlAuthRequests.delete(requestId);
+  }
+
+  /**
+   * Record an assertion as used (false if it was already used)
+   */
+  async markAssertionConsumed(entry: NewSamlConsumedAssertion): Promise<boolean> {
+    return this.db.samlConsumedAssertions.add(entry);
+  }
+
+  /**
+   * Purge consumed assertions that have expired
+   */
+  async deleteExpiredAssertions(now: Date = new Date()): Promise<number> {
+    return this.db.samlConsumedAssertions.deleteExpired(now);
+  }
+
+  /**
+   * List a company's SSO domains
+   */
+  async findDomains(companyId: string): Promise<CompanySsoDomain[]> {
+    return this.db.companySsoDomains.findByCompanyId(companyId);
+  }
+
+  /**
+   * Find the company that verified a domain
+   */
+  async findVerifiedDomain(domain: string): Promise<CompanySsoDomain | null> {
+    return this.db.companySsoDomains.findVerified(domain);
+  }
+
+  /**
+   * Add an unverified domain to a company
+   */
+  async createDomain(domain: NewCompanySsoDomain): Promise<CompanySsoDomain> {
+    return this.db.companySsoDomains.create(domain);
+  }
+
+  /**
+   * Mark a company's domain as verified
+   */
+  async markDomainVerified(companyId: string, domain: string): Promise<CompanySsoDomain | null> {
+    return this.db.companySsoDomains.markVerified(companyId, domain);
+  }
+
+  /**
+   * Remove a domain from a company
+   */
+  async deleteDomain(companyId: string, domain: string): Promise<boolean> {
+    return this.db.companySsoDomains.delete(companyId, domain);
+  }
+
+  /**
+   * Find the user linked to a company IdP's NameID
+   */
+  async findIdentity(companyId: string, nameId: string): Promise<SamlIdentity | null> {
+    return this.db.samlIdentities.find(companyId, nameId);
+  }
+
+  /**
+   * Link a company IdP's NameID to a user
+   */
+  async linkIdentity(identity: NewSamlIdentity): Promise<SamlIdentity> {
+    return this.db.samlIdentities.upsert(identity);
+  }
+}
@@ -0,0 +1,53 @@
+import type { Database } from '../client';
+import type { ServiceAccount, NewServiceAccount } from '../schema/service-accounts.schema';
+
+/**
+ * Service Accounts Repository
+ *
+ * Data access layer for service_accounts table
+ */
+export class ServiceAccountsRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Find service account by ID
+   */
+  async findById(id: string): Promise<ServiceAccount | null> {
+    return this.db.serviceAccounts.findById(id);
+  }
+
+  /**
+   * Find service account by its public client ID
+   */
+  async findByClientId(clientId: string): Promise<ServiceAccount | null> {
+    return this.db.serviceAccounts.findByClientId(clientId);
+  }
+
+  /**
+   * Find all service accounts of a company (oldest first)
+   */
+  async findByCompanyId(companyId: string): Promise<ServiceAccount[]> {
+    return this.db.serviceAccounts.findByCompanyId(companyId);
+  }
+
+  /**
+   * Create a new service account
+   */
+  async create(account: NewServiceAccount): Promise<ServiceAccount> {
+    return this.db.serviceAccounts.create(account);
+  }
+
+  /**
+   * Update service account by ID
+   */
+  async update(id: string, data: Partial<NewServiceAccount>): Promise<ServiceAccount | null> {
+    return this.db.serviceAccounts.update(id, data);
+  }
+
+  /**
+   * Delete service account by ID
+   */
+  async delete(id: string): Promise<boolean> {
+    return this.db.serviceAccounts.delete(id);
+  }
+}
@@ -0,0 +1,124 @@
+import type { Database } from '../client';
+import type { Team, NewTeam, TeamMember, NewTeamMember } from '../schema/teams.schema';
+
+/**
+ * Teams Repository
+ *
+ * Data access layer for the teams and team_members tables
+ */
+export class TeamsRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Find a team by ID
+   */
+  async findById(id: string): Promise<Team | null> {
+    return this.db.teams.findById(id);
+  }
+
+  /**
+   * Get a company's teams, by name
+   */
+  async findByCompanyId(companyId: string): Promise<Team[]> {
+    return this.db.teams.findByCompanyId(companyId);
+  }
+
+  /**
+   * Find a company's team by name (case-insensitive)
+   */
+  async findByName(companyId: string, name: string): Promise<Team | null> {
+    return this.db.teams.findByName(companyId, name);
+  }
+
+  /**
+   * Create a team
+   */
+  async create(team: NewTeam): Promise<Team> {
+    return this.db.teams.create(team);
+  }
+
+  /**
+   * Update a team
+   */
+  async update(id: string, data: Partial<NewTeam>): Promise<Team | null> {
+    return this.db.teams.update(id, data);
+  }
+
+  /**
+   * Delete a team and its memberships
+   */
+  async delete(id: string): Promise<boolean> {
+    return this.db.teams.delete(id);
+  }
+
+  /**
+   * Delete every team of a company
+   */
+  async deleteByCompanyId(companyId: string): Promise<void> {
+    const teams = await this.db.teams.findByCompanyId(companyId);
+    await Promise.all(teams.map((team) => this.db.teams.delete(team.id)));
+  }
+
+  /**
+   * Get a team's members
+   */
+  async getMembers(teamId: string): Promise<TeamMember[]> {
+    return this.db.teamMembers.findByTeamId(teamId);
+  }
+
+  /**
+   * Find a user's membership in a team
+   */
+  async getMember(teamId: string, userId: string): Promise<TeamMember | null> {
+    return this.db.teamMembers.find(teamId, userId);
+  }
+
+  /**
+   * Get the IDs of the company's teams the user belongs to
+   */
+  async getUserTeamIds(companyId: string, userId: string): Promise<string[]> {
+    const memberships = await this.db.teamMembers.findByUserId(userId);
+    const teams = await Promise.all(memberships.map((member) => this.db.teams.findById(member.teamId)));
+    return teams.filter((team): team is Team => team?.companyId === companyId).map((team) => team.id);
+  }
+
+  /**
+   * Check whether two users share a team in the company
+   */
+  async shareTeam(companyId: string, userId: string, otherUserId: string): Promise<boolean> {
+    const [teamIds, otherTeamIds] = await Promise.all([
+      this.getUserTeamIds(companyId, userId),
+      this.getUserTeamIds(companyId, otherUserId),
+    ]);
+    return teamIds.some((teamId) => otherTeamIds.includes(teamId));
+  }
+
+  /**
+   * Add a user to a team
+   */
+  async addMember(member: NewTeamMember): Promise<TeamMember> {
+    return this.db.teamMembers.create(member);
+  }
+
+  /**
+   * Update a team membership
+   */
+  async updateMember(teamId: string, userId: string, data: Partial<NewTeamMember>): Promise<TeamMember | null> {
+    return this.db.teamMembers.update(teamId, userId, data);
+  }
+
+  /**
+   * Remove a user from a team
+   */
+  async removeMember(teamId: string, userId: string): Promise<boolean> {
+    return this.db.teamMembers.delete(teamId, userId);
+  }
+
+  /**
+   * Remove a user from every team of a company
+   */
+  async removeUserFromCompanyTeams(companyId: string, userId: string): Promise<void> {
+    const teamIds = await this.getUserTeamIds(companyId, userId);
+    await Promise.all(teamIds.map((teamId) => this.db.teamMembers.delete(teamId, userId)));
+  }
+}
@@ -0,0 +1,39 @@
+import type { Database } from '../client';
+import type { UserMfa, NewUserMfa } from '../schema/user-mfa.schema';
+
+/**
+ * User MFA Repository
+ *
+ * Data access layer for user_mfa table
+ */
+export class UserMfaRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Find MFA enrolment by user ID
+   */
+  async findByUserId(userId: string): Promise<UserMfa | null> {
+    return this.db.userMfa.findByUserId(userId);
+  }
+
+  /**
+   * Create or replace MFA enrolment
+   */
+  async upsert(mfa: NewUserMfa): Promise<UserMfa> {
+    return this.db.userMfa.upsert(mfa);
+  }
+
+  /**
+   * Update MFA enrolment
+   */
+  async update(userId: string, data: Partial<NewUserMfa>): Promise<UserMfa | null> {
+    return this.db.userMfa.update(userId, data);
+  }
+
+  /**
+   * Delete MFA enrolment
+   */
+  async delete(userId: string): Promise<boolean> {
+    return this.db.userMfa.delete(userId);
+  }
+}
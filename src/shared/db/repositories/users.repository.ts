@@ -23,6 +23,13 @@ export class UsersRepository {
     return this.db.users.findById(id);
   }
 
+  /**
+   * Find user by external provider ID
+   */
+  async findByExternalId(authProvider: string, externalId: string): Promise<User | null> {
+    return this.db.users.findByExternalId(authProvider, externalId);
+  }
+
   /**
    * Create a new user
    */
@@ -0,0 +1,72 @@
+import type { Database } from '../client';
+import type {
+  WebAuthnCredential,
+  NewWebAuthnCredential,
+  WebAuthnChallenge,
+  NewWebAuthnChallenge,
+} from '../schema/webauthn.schema';
+
+/**
+ * WebAuthn Repository
+ *
+ * Data access layer for webauthn_credentials and webauthn_challenges tables
+ */
+export class WebAuthnRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Find credential by internal ID
+   */
+  async findCredentialById(id: string): Promise<WebAuthnCredential | null> {
+    return this.db.webauthnCredentials.findById(id);
+  }
+
+  /**
+   * Find credential by WebAuthn credential ID (base64url)
+   */
+  async findCredentialByCredentialId(credentialId: string): Promise<WebAuthnCredential | null> {
+    return this.db.webauthnCredentials.findByCredentialId(credentialId);
+  }
+
+  /**
+   * Find all credentials of a user
+   */
+  async findCredentialsByUserId(userId: string): Promise<WebAuthnCredential[]> {
+    return this.db.webauthnCredentials.findByUserId(userId);
+  }
+
+  /**
+   * Create new credential
+   */
+  async createCredential(credential: NewWebAuthnCredential): Promise<WebAuthnCredential> {
+    return this.db.webauthnCredentials.create(credential);
+  }
+
+  /**
+   * Update credential (sign counter, last use)
+   */
+  async updateCredential(id: string, data: Partial<NewWebAuthnCredential>): Promise<WebAuthnCredential | null> {
+    return this.db.webauthnCredentials.update(id, data);
+  }
+
+  /**
+   * Delete credential
+   */
+  async deleteCredential(id: string): Promise<boolean> {
+    return this.db.webauthnCredentials.delete(id);
+  }
+
+  /**
+   * Store a ceremony challenge
+   */
+  async createChallenge(challenge: NewWebAuthnChallenge): Promise<WebAuthnChallenge> {
+    return this.db.webauthnChallenges.create(challenge);
+  }
+
+  /**
+   * Fetch and delete a challenge (single use)
+   */
+  async consumeChallenge(id: string): Promise<WebAuthnChallenge | null> {
+    return this.db.webauthnChallenges.consume(id);
+  }
+}
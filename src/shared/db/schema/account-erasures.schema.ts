@@ -0,0 +1,53 @@
+import { pgTable, uuid, varchar, text, timestamp, jsonb, index } from 'drizzle-orm/pg-core';
+
+/**
+ * Account Erasures table schema
+ *
+ * Account deletion requests (GDPR right to erasure). The account is erased by a
+ * background job once the grace period is over. Rows are kept after erasure as
+ * the compliance record, so the user ID is not a foreign key and the address
+ * is only stored as a hash.
+ */
+export const accountErasures = pgTable('account_erasures', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull(), // No foreign key: outlives the user
+  emailHash: varchar('email_hash', { length: 64 }).notNull(), // SHA-256 of the lowercased address
+  status: varchar('status', { length: 20 }).notNull().default('scheduled'), // 'scheduled' | 'completed' | 'cancelled' | 'blocked'
+  ownershipTransfers: jsonb('ownership_transfers').notNull().$type<OwnershipTransfer[]>(), // Owned companies and their new owner
+  scheduledFor: timestamp('scheduled_for').notNull(), // End of the grace period
+  blockedReason: text('blocked_reason'), // Why the job could not erase the account
+  summary: jsonb('summary').$type<AccountErasureSummary>(), // What the job erased
+  completedAt: timestamp('completed_at'),
+  cancelledAt: timestamp('cancelled_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdx: index('account_erasures_user_idx').on(table.userId),
+    dueIdx: index('account_erasures_due_idx').on(table.status, table.scheduledFor),
+  };
+});
+
+/**
+ * Company ownership handed over when the owner's account is erased
+ */
+export interface OwnershipTransfer {
+  companyId: string;
+  newOwnerId: string;
+}
+
+/**
+ * What an erasure removed
+ */
+export interface AccountErasureSummary {
+  companiesTransferred: number;
+  membershipsRemoved: number;
+  userLevelsRemoved: number;
+  subscriptionCancelled: boolean;
+  emailLogsPseudonymized: number;
+  unsubscribePreferencesRemoved: number;
+}
+
+export type AccountErasure = typeof accountErasures.$inferSelect;
+export type NewAccountErasure = typeof accountErasures.$inferInsert;
+export type AccountErasureStatus = 'scheduled' | 'completed' | 'cancelled' | 'blocked';
@@ -0,0 +1,42 @@
+import { pgTable, uuid, varchar, integer, timestamp, index } from 'drizzle-orm/pg-core';
+import { users } from './users.schema';
+
+/**
+ * Account Lockouts table schema
+ *
+ * Failed password logins per account. Enough failures lock the account for
+ * a growing period; a successful login or an unlock clears the row.
+ */
+export const accountLockouts = pgTable('account_lockouts', {
+  userId: uuid('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  failedAttempts: integer('failed_attempts').notNull().default(0), // Consecutive failures since the last success
+  lastFailedAt: timestamp('last_failed_at'),
+  lockedUntil: timestamp('locked_until'), // null = not locked
+  lockoutCount: integer('lockout_count').notNull().default(0), // Lockouts since the last success, doubles the lock period
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+/**
+ * Account Lockout Events table schema
+ *
+ * Audit trail of lockouts, IP blocks and unlocks
+ */
+export const accountLockoutEvents = pgTable('account_lockout_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }), // null for IP blocks
+  event: varchar('event', { length: 30 }).notNull(), // 'account_locked' | 'ip_blocked' | 'unlocked_by_email' | 'unlocked_by_admin'
+  ipAddress: varchar('ip_address', { length: 45 }), // Caller that triggered the event
+  actorId: uuid('actor_id'), // Admin who unlocked the account
+  lockedUntil: timestamp('locked_until'), // End of the lock or block
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdx: index('account_lockout_events_user_idx').on(table.userId, table.createdAt),
+  };
+});
+
+export type AccountLockout = typeof accountLockouts.$inferSelect;
+export type NewAccountLockout = typeof accountLockouts.$inferInsert;
+export type AccountLockoutEvent = typeof accountLockoutEvents.$inferSelect;
+export type NewAccountLockoutEvent = typeof accountLockoutEvents.$inferInsert;
+export type AccountLockoutEventType = 'account_locked' | 'ip_blocked' | 'unlocked_by_email' | 'unlocked_by_admin';
@@ -0,0 +1,32 @@
+import { pgTable, uuid, varchar, boolean, timestamp, index } from 'drizzle-orm/pg-core';
+import { users } from './users.schema';
+
+/**
+ * Auth Sessions table schema
+ *
+ * One row per signed-in device. Holds the hash of the current refresh token;
+ * the previous hash is kept so a replayed (already rotated) token can be detected.
+ */
+export const authSessions = pgTable('auth_sessions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  refreshTokenHash: varchar('refresh_token_hash', { length: 64 }).notNull().unique(), // SHA-256 hex
+  previousRefreshTokenHash: varchar('previous_refresh_token_hash', { length: 64 }), // Rotated-out token (reuse detection)
+  userAgent: varchar('user_agent', { length: 500 }),
+  ipAddress: varchar('ip_address', { length: 45 }),
+  mfaVerified: boolean('mfa_verified').default(false).notNull(), // Signed in with a second factor or a passkey
+  activeCompanyId: uuid('active_company_id'), // Company the session's access tokens act on (kept across refreshes)
+  expiresAt: timestamp('expires_at').notNull(),
+  lastUsedAt: timestamp('last_used_at').defaultNow().notNull(),
+  revokedAt: timestamp('revoked_at'), // null = active
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdx: index('auth_sessions_user_idx').on(table.userId),
+    previousTokenIdx: index('auth_sessions_previous_token_idx').on(table.previousRefreshTokenHash),
+  };
+});
+
+export type AuthSession = typeof authSessions.$inferSelect;
+export type NewAuthSession = typeof authSessions.$inferInsert;
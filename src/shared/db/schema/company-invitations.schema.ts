@@ -0,0 +1,35 @@
+import { pgTable, uuid, varchar, integer, timestamp, jsonb, index } from 'drizzle-orm/pg-core';
+import { users } from './users.schema';
+
+/**
+ * Company Invitations table schema
+ *
+ * Pending invitations to join a company, sent by email to addresses that may not
+ * have an account yet. Only the SHA-256 hash of the link token is stored.
+ */
+export const companyInvitations = pgTable('company_invitations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull(),
+  email: varchar('email', { length: 255 }).notNull(), // Lowercased invitee address
+  role: varchar('role', { length: 20 }).notNull(), // 'admin' | 'member'
+  userLevelIds: jsonb('user_level_ids').notNull().$type<string[]>(), // IAM user levels assigned on acceptance
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(), // SHA-256 of the link token (replaced on resend)
+  status: varchar('status', { length: 20 }).notNull().default('pending'), // 'pending' | 'accepted' | 'declined' | 'revoked'
+  invitedBy: uuid('invited_by').references(() => users.id, { onDelete: 'set null' }),
+  acceptedBy: uuid('accepted_by').references(() => users.id, { onDelete: 'set null' }),
+  sendCount: integer('send_count').notNull().default(1),
+  lastSentAt: timestamp('last_sent_at').defaultNow().notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  respondedAt: timestamp('responded_at'), // Accepted, declined or revoked
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    companyIdx: index('company_invitations_company_idx').on(table.companyId, table.status),
+    emailIdx: index('company_invitations_email_idx').on(table.email, table.status),
+  };
+});
+
+export type CompanyInvitation = typeof companyInvitations.$inferSelect;
+export type NewCompanyInvitation = typeof companyInvitations.$inferInsert;
+export type CompanyInvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
@@ -0,0 +1,34 @@
+import { pgTable, uuid, boolean, timestamp, jsonb } from 'drizzle-orm/pg-core';
+
+/**
+ * Password rules for a company's members
+ *
+ * Members of several companies get the strictest combination.
+ */
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  historyCount: number; // Previous passwords that cannot be reused (0 = no check)
+  maxAgeDays: number | null; // Days before a password must be changed (null = never)
+}
+
+/**
+ * Company Security Policies table schema
+ *
+ * Security settings company owners enforce on all members.
+ * A company without a row uses the defaults.
+ */
+export const companySecurityPolicies = pgTable('company_security_policies', {
+  companyId: uuid('company_id').primaryKey(),
+  mfaRequired: boolean('mfa_required').notNull().default(false),
+  passwordPolicy: jsonb('password_policy').$type<Partial<PasswordPolicy>>(), // null = default password rules
+  updatedBy: uuid('updated_by'), // User who last changed the policy
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export type CompanySecurityPolicy = typeof companySecurityPolicies.$inferSelect;
+export type NewCompanySecurityPolicy = typeof companySecurityPolicies.$inferInsert;
@@ -255,7 +255,7 @@ export const emailComplianceEvents = pgTable('email_compliance_events', {
   id: uuid('id').primaryKey().defaultRandom(),
 
   // Event type
-  eventType: varchar('event_type', { length: 50 }).notNull(), // 'bounce', 'complaint', 'unsubscribe', 'list_unsubscribe', 'resubscribe'
+  eventType: varchar('event_type', { length: 50 }).notNull(), // 'bounce', 'complaint', 'unsubscribe', 'list_unsubscribe', 'resubscribe', 'email_changed', 'account_erased'
 
   // Email and message tracking
   emailAddress: varchar('email_address', { length: 255 }).notNull(),
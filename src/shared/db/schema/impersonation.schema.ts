@@ -0,0 +1,51 @@
+import { pgTable, uuid, varchar, text, integer, timestamp, index } from 'drizzle-orm/pg-core';
+import { users } from './users.schema';
+
+/**
+ * Impersonation Sessions table schema
+ *
+ * A super admin acting as another user with a time-boxed access token.
+ * The token ID (jti) is kept so the session can be ended early.
+ */
+export const impersonationSessions = pgTable('impersonation_sessions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  impersonatorId: uuid('impersonator_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  targetUserId: uuid('target_user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  reason: text('reason').notNull(), // Why the admin impersonates the user (e.g. support ticket)
+  tokenJti: varchar('token_jti', { length: 36 }).notNull(),
+  ipAddress: varchar('ip_address', { length: 45 }), // Admin's IP address when starting
+  expiresAt: timestamp('expires_at').notNull(),
+  endedAt: timestamp('ended_at'), // Ended early (logout or admin)
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    targetIdx: index('impersonation_sessions_target_idx').on(table.targetUserId, table.createdAt),
+    impersonatorIdx: index('impersonation_sessions_impersonator_idx').on(table.impersonatorId, table.createdAt),
+  };
+});
+
+/**
+ * Impersonation Request Logs table schema
+ *
+ * Every request made with an impersonation token
+ */
+export const impersonationRequestLogs = pgTable('impersonation_request_logs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  impersonationSessionId: uuid('impersonation_session_id')
+    .notNull()
+    .references(() => impersonationSessions.id, { onDelete: 'cascade' }),
+  method: varchar('method', { length: 10 }).notNull(),
+  path: text('path').notNull(),
+  statusCode: integer('status_code').notNull(),
+  ipAddress: varchar('ip_address', { length: 45 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    sessionIdx: index('impersonation_request_logs_session_idx').on(table.impersonationSessionId, table.createdAt),
+  };
+});
+
+export type ImpersonationSession = typeof impersonationSessions.$inferSelect;
+export type NewImpersonationSession = typeof impersonationSessions.$inferInsert;
+export type ImpersonationRequestLog = typeof impersonationRequestLogs.$inferSelect;
+export type NewImpersonationRequestLog = typeof impersonationRequestLogs.$inferInsert;
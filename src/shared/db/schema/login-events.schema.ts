@@ -0,0 +1,34 @@
+import { pgTable, uuid, varchar, boolean, timestamp, index } from 'drizzle-orm/pg-core';
+import { users } from './users.schema';
+
+/**
+ * Login Events table schema
+ *
+ * Every successful and failed sign-in. Successful logins remember the device
+ * fingerprint, so logins from unseen devices can be reported to the user.
+ */
+export const loginEvents = pgTable('login_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }), // null for unknown email addresses
+  email: varchar('email', { length: 255 }).notNull(), // Address the login was attempted for
+  success: boolean('success').notNull(),
+  failureReason: varchar('failure_reason', { length: 30 }), // 'invalid_credentials' | 'login_blocked' | 'invalid_mfa_code'
+  method: varchar('method', { length: 20 }).notNull(), // 'password' | 'magic_link' | 'passkey' | 'external' | 'sso'
+  authProvider: varchar('auth_provider', { length: 50 }).notNull(),
+  mfaUsed: boolean('mfa_used').notNull().default(false),
+  ipAddress: varchar('ip_address', { length: 45 }),
+  userAgent: varchar('user_agent', { length: 500 }),
+  deviceFingerprint: varchar('device_fingerprint', { length: 64 }), // SHA-256 of the normalized user agent
+  newDevice: boolean('new_device').notNull().default(false), // First successful login from this device
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdx: index('login_events_user_idx').on(table.userId, table.createdAt),
+    deviceIdx: index('login_events_device_idx').on(table.userId, table.deviceFingerprint),
+  };
+});
+
+export type LoginEvent = typeof loginEvents.$inferSelect;
+export type NewLoginEvent = typeof loginEvents.$inferInsert;
+export type LoginMethod = 'password' | 'magic_link' | 'passkey' | 'external' | 'sso';
+export type LoginFailureReason = 'invalid_credentials' | 'login_blocked' | 'invalid_mfa_code';
@@ -0,0 +1,23 @@
+import { pgTable, uuid, varchar, timestamp } from 'drizzle-orm/pg-core';
+
+/**
+ * OIDC Authorization Requests table schema
+ *
+ * One row per pending redirect login (authorization-code + PKCE flow).
+ * The PKCE code verifier and nonce stay on the server; the browser only
+ * carries the state, of which just the SHA-256 hash is stored.
+ * Rows are deleted when the callback uses them (single use).
+ */
+export const oidcAuthRequests = pgTable('oidc_auth_requests', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  provider: varchar('provider', { length: 20 }).notNull(), // 'oidc' | 'cognito' | ...
+  stateHash: varchar('state_hash', { length: 64 }).notNull().unique(), // SHA-256 hex
+  codeVerifier: varchar('code_verifier', { length: 128 }).notNull(),
+  nonce: varchar('nonce', { length: 128 }).notNull(),
+  redirectUri: varchar('redirect_uri', { length: 500 }).notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+export type OidcAuthRequest = typeof oidcAuthRequests.$inferSelect;
+export type NewOidcAuthRequest = typeof oidcAuthRequests.$inferInsert;
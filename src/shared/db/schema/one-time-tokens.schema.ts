@@ -0,0 +1,35 @@
+import { pgTable, uuid, varchar, timestamp, index } from 'drizzle-orm/pg-core';
+import { users } from './users.schema';
+
+/**
+ * One-Time Tokens table schema
+ *
+ * Single-use, expiring tokens sent to users by email (password reset,
+ * email verification, ...).
+ * Only the SHA-256 hash of the token is stored.
+ */
+export const oneTimeTokens = pgTable('one_time_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  purpose: varchar('purpose', { length: 50 }).notNull(), // 'password_reset' | 'email_verification' | 'sso_login' | 'magic_link' | 'account_unlock' | 'email_change' | 'email_change_revert'
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(), // SHA-256 hex
+  email: varchar('email', { length: 255 }).notNull(), // Address the token was sent to
+  expiresAt: timestamp('expires_at').notNull(),
+  usedAt: timestamp('used_at'), // null = not yet used
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    userPurposeIdx: index('one_time_tokens_user_purpose_idx').on(table.userId, table.purpose),
+  };
+});
+
+export type OneTimeToken = typeof oneTimeTokens.$inferSelect;
+export type NewOneTimeToken = typeof oneTimeTokens.$inferInsert;
+export type OneTimeTokenPurpose =
+  | 'password_reset'
+  | 'email_verification'
+  | 'sso_login'
+  | 'magic_link'
+  | 'account_unlock'
+  | 'email_change'
+  | 'email_change_revert';
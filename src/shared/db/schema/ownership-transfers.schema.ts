@@ -0,0 +1,29 @@
+import { pgTable, uuid, varchar, timestamp, index } from 'drizzle-orm/pg-core';
+import { users } from './users.schema';
+
+/**
+ * Ownership Transfers table schema
+ *
+ * Company ownership handovers started by an owner and confirmed by the recipient
+ * with an emailed link. Only the SHA-256 hash of the link token is stored.
+ */
+export const ownershipTransfers = pgTable('ownership_transfers', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull(),
+  fromUserId: uuid('from_user_id').notNull().references(() => users.id, { onDelete: 'cascade' }), // Owner handing over
+  toUserId: uuid('to_user_id').notNull().references(() => users.id, { onDelete: 'cascade' }), // Member becoming owner
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(), // SHA-256 of the link token
+  status: varchar('status', { length: 20 }).notNull().default('pending'), // 'pending' | 'completed' | 'declined' | 'cancelled'
+  expiresAt: timestamp('expires_at').notNull(),
+  respondedAt: timestamp('responded_at'), // Completed, declined or cancelled
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    companyIdx: index('ownership_transfers_company_idx').on(table.companyId, table.status),
+  };
+});
+
+export type OwnershipTransfer = typeof ownershipTransfers.$inferSelect;
+export type NewOwnershipTransfer = typeof ownershipTransfers.$inferInsert;
+export type OwnershipTransferStatus = 'pending' | 'completed' | 'declined' | 'cancelled';
@@ -0,0 +1,22 @@
+import { pgTable, uuid, varchar, timestamp, index } from 'drizzle-orm/pg-core';
+import { users } from './users.schema';
+
+/**
+ * Password History table schema
+ *
+ * Hashes of a user's recent passwords, so company policies can forbid
+ * reusing them. Only the most recent entries are kept.
+ */
+export const passwordHistory = pgTable('password_history', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  passwordHash: varchar('password_hash', { length: 255 }).notNull(), // bcrypt
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdx: index('password_history_user_idx').on(table.userId, table.createdAt),
+  };
+});
+
+export type PasswordHistoryEntry = typeof passwordHistory.$inferSelect;
+export type NewPasswordHistoryEntry = typeof passwordHistory.$inferInsert;
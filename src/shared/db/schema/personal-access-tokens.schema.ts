@@ -0,0 +1,30 @@
+import { pgTable, uuid, varchar, timestamp, jsonb, index } from 'drizzle-orm/pg-core';
+import { users } from './users.schema';
+
+/**
+ * Personal Access Tokens table schema
+ *
+ * Long-lived, scoped API keys (`vv_pat_...`) a user creates for integrations.
+ * Only the SHA-256 hash of the token is stored; the prefix is kept so users
+ * can tell their keys apart.
+ */
+export const personalAccessTokens = pgTable('personal_access_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 100 }).notNull(),
+  tokenPrefix: varchar('token_prefix', { length: 20 }).notNull(), // e.g. 'vv_pat_AbCd1234'
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(), // SHA-256 hex
+  scopes: jsonb('scopes').$type<string[]>().notNull(), // '*', 'view:<viewId>', 'feature:<featureId>:<action>'
+  expiresAt: timestamp('expires_at'), // null = never expires
+  lastUsedAt: timestamp('last_used_at'),
+  lastUsedIp: varchar('last_used_ip', { length: 45 }),
+  revokedAt: timestamp('revoked_at'), // null = active
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdx: index('personal_access_tokens_user_idx').on(table.userId),
+  };
+});
+
+export type PersonalAccessToken = typeof personalAccessTokens.$inferSelect;
+export type NewPersonalAccessToken = typeof personalAccessTokens.$inferInsert;
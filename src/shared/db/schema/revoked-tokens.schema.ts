@@ -0,0 +1,34 @@
+import { pgTable, uuid, varchar, timestamp, index } from 'drizzle-orm/pg-core';
+
+/**
+ * Revoked Tokens table schema (access token denylist)
+ *
+ * Each entry targets one of:
+ * - 'token':   a single access token, by its jti claim
+ * - 'session': every access token issued for a session (sessionId claim)
+ * - 'user':    every access token of a user issued before revokedAt
+ *
+ * Entries are only needed until the tokens they target would have expired
+ * anyway, so rows past expiresAt are deleted by the cleanup job.
+ */
+export const revokedTokens = pgTable('revoked_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  kind: varchar('kind', { length: 20 }).notNull(), // 'token' | 'session' | 'user'
+  jti: varchar('jti', { length: 64 }), // Set when kind = 'token'
+  sessionId: uuid('session_id'), // Set when kind = 'session'
+  userId: uuid('user_id').notNull(),
+  reason: varchar('reason', { length: 50 }).notNull(), // 'logout', 'password_change', 'admin', ...
+  revokedAt: timestamp('revoked_at').defaultNow().notNull(),
+  expiresAt: timestamp('expires_at').notNull(), // Safe to delete after this time
+}, (table) => {
+  return {
+    jtiIdx: index('revoked_tokens_jti_idx').on(table.jti),
+    sessionIdx: index('revoked_tokens_session_idx').on(table.sessionId),
+    userIdx: index('revoked_tokens_user_idx').on(table.userId),
+    expiresIdx: index('revoked_tokens_expires_idx').on(table.expiresAt), // For cleanup
+  };
+});
+
+export type RevokedToken = typeof revokedTokens.$inferSelect;
+export type NewRevokedToken = typeof revokedTokens.$inferInsert;
+export type RevocationKind = 'token' | 'session' | 'user';
@@ -0,0 +1,113 @@
+import { pgTable, uuid, varchar, boolean, jsonb, timestamp, uniqueIndex, index } from 'drizzle-orm/pg-core';
+import { users } from './users.schema';
+
+/**
+ * SAML attribute names used to fill in user profiles
+ */
+export interface SamlAttributeMapping {
+  email?: string; // Defaults to the NameID when it is an email address
+  firstName?: string;
+  lastName?: string;
+  name?: string; // Full name (takes precedence over first + last name)
+}
+
+/**
+ * Company SAML Configurations table schema
+ *
+ * One identity provider per company (SSO is a Pro/Enterprise feature).
+ * The IdP is described by its entity ID, SSO URL and signing certificates,
+ * either entered directly or parsed from the uploaded metadata.
+ */
+export const companySamlConfigs = pgTable('company_saml_configs', {
+  companyId: uuid('company_id').primaryKey(),
+  enabled: boolean('enabled').notNull().default(false),
+  idpEntityId: varchar('idp_entity_id', { length: 500 }).notNull(),
+  idpSsoUrl: varchar('idp_sso_url', { length: 500 }).notNull(), // HTTP-Redirect binding endpoint
+  idpCertificates: jsonb('idp_certificates').$type<string[]>().notNull(), // Base64 DER, several during rotation
+  attributeMapping: jsonb('attribute_mapping').$type<SamlAttributeMapping>().notNull().default({}),
+  defaultRole: varchar('default_role', { length: 20 }).notNull().default('member'), // Role for JIT members: 'admin' | 'member'
+  defaultUserLevelId: uuid('default_user_level_id'), // null = the company's default user level
+  allowIdpInitiated: boolean('allow_idp_initiated').notNull().default(true), // Accept unsolicited responses
+  updatedBy: uuid('updated_by'), // User who last changed the configuration
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+/**
+ * SAML Authentication Requests table schema
+ *
+ * IDs of AuthnRequests we sent (SP-initiated login). A response with
+ * InResponseTo must match one of them; rows are deleted when used.
+ */
+export const samlAuthRequests = pgTable('saml_auth_requests', {
+  requestId: varchar('request_id', { length: 100 }).primaryKey(),
+  companyId: uuid('company_id').notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+/**
+ * SAML Consumed Assertions table schema
+ *
+ * IDs of assertions already used to log in, kept until the assertion
+ * expires so a captured response cannot be replayed.
+ */
+export const samlConsumedAssertions = pgTable('saml_consumed_assertions', {
+  assertionId: varchar('assertion_id', { length: 100 }).notNull(),
+  companyId: uuid('company_id').notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    assertionIdx: uniqueIndex('saml_consumed_assertions_assertion_idx').on(table.companyId, table.assertionId),
+  };
+});
+
+/**
+ * Company SSO Domains table schema
+ *
+ * Email domains a company claims for SSO. A domain is verified with a DNS TXT
+ * record holding the verification token, and can be verified by one company only.
+ * Only emails in verified domains are trusted as verified and linked to existing accounts.
+ */
+export const companySsoDomains = pgTable('company_sso_domains', {
+  companyId: uuid('company_id').notNull(),
+  domain: varchar('domain', { length: 255 }).notNull(), // Lowercase, e.g. 'acme.com'
+  verificationToken: varchar('verification_token', { length: 64 }).notNull(),
+  verifiedAt: timestamp('verified_at'), // null = not verified yet
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    companyDomainIdx: uniqueIndex('company_sso_domains_company_domain_idx').on(table.companyId, table.domain),
+    domainIdx: index('company_sso_domains_domain_idx').on(table.domain),
+  };
+});
+
+/**
+ * SAML Identities table schema
+ *
+ * Links a company IdP's NameID to a user. A user can have one identity per
+ * company, so the same account can sign in through several companies' IdPs.
+ */
+export const samlIdentities = pgTable('saml_identities', {
+  companyId: uuid('company_id').notNull(),
+  nameId: varchar('name_id', { length: 500 }).notNull(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    nameIdIdx: uniqueIndex('saml_identities_name_id_idx').on(table.companyId, table.nameId),
+    userIdx: index('saml_identities_user_idx').on(table.userId),
+  };
+});
+
+export type CompanySamlConfig = typeof companySamlConfigs.$inferSelect;
+export type NewCompanySamlConfig = typeof companySamlConfigs.$inferInsert;
+export type SamlAuthRequest = typeof samlAuthRequests.$inferSelect;
+export type NewSamlAuthRequest = typeof samlAuthRequests.$inferInsert;
+export type SamlConsumedAssertion = typeof samlConsumedAssertions.$inferSelect;
+export type NewSamlConsumedAssertion = typeof samlConsumedAssertions.$inferInsert;
+export type CompanySsoDomain = typeof companySsoDomains.$inferSelect;
+export type NewCompanySsoDomain = typeof companySsoDomains.$inferInsert;
+export type SamlIdentity = typeof samlIdentities.$inferSelect;
+export type NewSamlIdentity = typeof samlIdentities.$inferInsert;
@@ -0,0 +1,31 @@
+import { pgTable, uuid, varchar, text, boolean, timestamp, index } from 'drizzle-orm/pg-core';
+
+/**
+ * Service Accounts table schema
+ *
+ * Non-human principals owned by a company. They get user levels like users
+ * (their ID is used as the user ID in IAM) and sign in with client
+ * credentials for short-lived access tokens.
+ * Only the SHA-256 hash of the client secret is stored.
+ */
+export const serviceAccounts = pgTable('service_accounts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull(),
+  name: varchar('name', { length: 100 }).notNull(),
+  description: text('description'),
+  clientId: varchar('client_id', { length: 64 }).notNull().unique(), // 'vv_sa_...'
+  clientSecretHash: varchar('client_secret_hash', { length: 64 }).notNull(), // SHA-256 hex
+  enabled: boolean('enabled').notNull().default(true),
+  createdBy: uuid('created_by'), // Owner/admin who created the account
+  lastUsedAt: timestamp('last_used_at'), // Last token issued
+  secretRotatedAt: timestamp('secret_rotated_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    companyIdx: index('service_accounts_company_idx').on(table.companyId),
+  };
+});
+
+export type ServiceAccount = typeof serviceAccounts.$inferSelect;
+export type NewServiceAccount = typeof serviceAccounts.$inferInsert;
@@ -0,0 +1,45 @@
+import { pgTable, uuid, varchar, boolean, timestamp, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { users } from './users.schema';
+
+/**
+ * Teams table schema
+ *
+ * Groups of company members. A feature permission with scope 'team' reaches
+ * resources owned by members of the user's teams.
+ */
+export const teams = pgTable('teams', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull(),
+  name: varchar('name', { length: 100 }).notNull(), // Unique within the company
+  description: varchar('description', { length: 500 }),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    companyNameIdx: uniqueIndex('teams_company_name_idx').on(table.companyId, table.name),
+  };
+});
+
+/**
+ * Team Members table schema
+ *
+ * Team membership; members must belong to the team's company. Leads manage their team's members.
+ */
+export const teamMembers = pgTable('team_members', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  teamId: uuid('team_id').notNull().references(() => teams.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  isLead: boolean('is_lead').notNull().default(false),
+  addedAt: timestamp('added_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    teamUserIdx: uniqueIndex('team_members_team_user_idx').on(table.teamId, table.userId),
+    userIdx: index('team_members_user_idx').on(table.userId),
+  };
+});
+
+export type Team = typeof teams.$inferSelect;
+export type NewTeam = typeof teams.$inferInsert;
+export type TeamMember = typeof teamMembers.$inferSelect;
+export type NewTeamMember = typeof teamMembers.$inferInsert;
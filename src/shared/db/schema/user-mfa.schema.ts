@@ -0,0 +1,21 @@
+import { pgTable, uuid, text, integer, jsonb, timestamp } from 'drizzle-orm/pg-core';
+import { users } from './users.schema';
+
+/**
+ * User MFA table schema
+ *
+ * TOTP enrolment per user. The secret is encrypted at rest (AES-256-GCM);
+ * recovery codes are stored as SHA-256 hashes and removed once used.
+ */
+export const userMfa = pgTable('user_mfa', {
+  userId: uuid('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  totpSecretEncrypted: text('totp_secret_encrypted').notNull(),
+  recoveryCodeHashes: jsonb('recovery_code_hashes').$type<string[]>().notNull().default([]),
+  lastUsedStep: integer('last_used_step'), // Last accepted TOTP time step (replay protection)
+  enabledAt: timestamp('enabled_at'), // null = enrolment not confirmed yet
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export type UserMfa = typeof userMfa.$inferSelect;
+export type NewUserMfa = typeof userMfa.$inferInsert;
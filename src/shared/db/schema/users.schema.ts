@@ -9,13 +9,15 @@ export const users = pgTable('users', {
   id: uuid('id').primaryKey().defaultRandom(),
   email: varchar('email', { length: 255 }).notNull().unique(),
   passwordHash: varchar('password_hash', { length: 255 }), // Nullable - not required for external auth
+  passwordChangedAt: timestamp('password_changed_at'), // Last time the password was set (password max age)
   name: varchar('name', { length: 100 }).notNull(),
   avatarUrl: varchar('avatar_url', { length: 500 }),
   emailVerified: boolean('email_verified').notNull().default(false),
-  authProvider: varchar('auth_provider', { length: 20 }).notNull().default('inhouse'), // 'inhouse' | 'cognito' | 'clerk'
+  authProvider: varchar('auth_provider', { length: 20 }).notNull().default('inhouse'), // 'inhouse' | 'cognito' | 'clerk' | 'oidc' | 'saml'
   externalId: varchar('external_id', { length: 255 }), // Provider's user ID (null for in-house)
   externalMetadata: jsonb('external_metadata'), // Provider-specific data
   isSuperAdmin: boolean('is_super_admin').notNull().default(false), // Super admin with full access (dev/staging only)
+  defaultCompanyId: uuid('default_company_id'), // Company active after sign-in (null = first membership)
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -0,0 +1,46 @@
+import { pgTable, uuid, varchar, integer, jsonb, timestamp, index } from 'drizzle-orm/pg-core';
+import type { JsonWebKey } from 'crypto';
+import { users } from './users.schema';
+
+/**
+ * WebAuthn Credentials table schema (passkeys)
+ *
+ * One row per registered authenticator. The public key is stored as a JWK;
+ * the signature counter is used to detect cloned authenticators.
+ */
+export const webauthnCredentials = pgTable('webauthn_credentials', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  credentialId: varchar('credential_id', { length: 1024 }).notNull().unique(), // base64url
+  publicKeyJwk: jsonb('public_key_jwk').$type<JsonWebKey>().notNull(),
+  algorithm: integer('algorithm').notNull(), // COSE algorithm: -7 ES256, -8 EdDSA, -257 RS256
+  signCount: integer('sign_count').notNull().default(0),
+  transports: jsonb('transports').$type<string[]>(),
+  name: varchar('name', { length: 100 }).notNull(), // User-facing label, e.g. "MacBook"
+  lastUsedAt: timestamp('last_used_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdx: index('webauthn_credentials_user_idx').on(table.userId),
+  };
+});
+
+/**
+ * WebAuthn Challenges table schema
+ *
+ * Pending ceremony challenges; each is deleted when used (single use).
+ * userId is null for passwordless login, where the user is not known yet.
+ */
+export const webauthnChallenges = pgTable('webauthn_challenges', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  challenge: varchar('challenge', { length: 128 }).notNull(), // base64url
+  type: varchar('type', { length: 20 }).notNull(), // 'registration' | 'authentication'
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+export type WebAuthnCredential = typeof webauthnCredentials.$inferSelect;
+export type NewWebAuthnCredential = typeof webauthnCredentials.$inferInsert;
+export type WebAuthnChallenge = typeof webauthnChallenges.$inferSelect;
+export type NewWebAuthnChallenge = typeof webauthnChallenges.$inferInsert;
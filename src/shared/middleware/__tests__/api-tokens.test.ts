@@ -0,0 +1,243 @@
+/**
+ * API Token Route Access Tests
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import express, { type Router } from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { authenticateJWT } from '../auth';
+import { createAuthRouter } from '../../../features/auth/auth.route';
+import { createUsersRouter } from '../../../features/users/users.route';
+import { createCompaniesRouter } from '../../../features/companies/companies.route';
+import { createSubscriptionsRouter } from '../../../features/subscriptions/subscriptions.route';
+import { createSsoRouter } from '../../../features/sso/sso.route';
+import { createIAMRouter } from '../../../features/iam/iam.route';
+import { personalAccessTokenService } from '../../services/personal-access-token.service';
+import { generateToken } from '../../utils/jwt';
+import { db } from '../../db/client';
+
+// shared-types is not built in this workspace; the refused routes never reach its schemas
+vi.mock('@vertical-vibing/shared-types', async () => {
+  const { z } = await import('zod');
+  return {
+    CompanyRole: { OWNER: 'owner', ADMIN: 'admin', MEMBER: 'member' },
+    PlanTier: { FREE: 'free', STARTER: 'starter', PRO: 'pro', ENTERPRISE: 'enterprise' },
+    SubscriptionStatus: { ACTIVE: 'active', CANCELED: 'canceled' },
+    registerSchema: z.object({}),
+    loginSchema: z.object({}),
+    updateProfileSchema: z.object({}),
+    changePasswordSchema: z.object({}),
+    createSubscriptionSchema: z.object({}),
+    updateSubscriptionSchema: z.object({}),
+  };
+});
+
+// Users, companies and tokens live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+// IAM tables are PostgreSQL-only in the app; use the in-memory implementation
+vi.mock('../../db/repositories/iam.repository', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../db/repositories/iam.repository')>();
+  const iamDb = new actual.InMemoryIAMDatabase();
+  return { ...actual, iamDb, getIAMDb: () => iamDb };
+});
+
+vi.mock('../../../features/email/email.service', () => ({
+  EmailService: vi.fn().mockImplementation(() => ({ sendEmail: vi.fn() })),
+}));
+
+vi.mock('../../../features/email/compliance.service', () => ({
+  ComplianceService: vi.fn(),
+}));
+
+describe('API token route access', () => {
+  const routers: Record<string, Router> = {
+    '/api/auth': createAuthRouter(),
+    '/api/users': createUsersRouter(),
+    '/api/companies': createCompaniesRouter(),
+    '/api/subscriptions': createSubscriptionsRouter(),
+    '/api/sso': createSsoRouter(),
+    '/api/iam': createIAMRouter(),
+  };
+  let server: Server;
+  let baseUrl: string;
+  let userId: string;
+  let companyId: string;
+  let consoleSpy: any;
+  let consoleErrorSpy: any;
+
+  /**
+   * Every route authenticated with authenticateJWT (sign-in sessions only): user-centric routes
+   */
+  const sessionRoutes = Object.entries(routers).flatMap(([basePath, router]) =>
+    router.stack
+      .filter((layer: any) => layer.route?.stack.some((handler: any) => handler.handle === authenticateJWT))
+      .flatMap((layer: any) =>
+        Object.keys(layer.route.methods).map((method) => `${method.toUpperCase()} ${basePath}${layer.route.path as string}`)
+      )
+  );
+
+  /**
+   * Call a route as a company (route parameters are filled with random IDs)
+   */
+  const call = async (route: string, token: string, body: object = {}, tenantId = companyId) => {
+    const [method, path] = route.split(' ');
+    const response = await fetch(baseUrl + path.replace(/:\w+/g, () => crypto.randomUUID()), {
+      method,
+      headers: { authorization: `Bearer ${token}`, 'content-type': 'application/json', 'x-company-id': tenantId },
+      body: method === 'GET' ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  /**
+   * Create a personal access token for the user
+   */
+  const createToken = async (scopes: string[]): Promise<string> => {
+    const { token } = await personalAccessTokenService.create(userId, { name: 'Integration', scopes, expiresInDays: null });
+    return token;
+  };
+
+  /**
+   * Give a user or service account a user level allowing IAM user level actions
+   */
+  const grant = async (principalId: string, actions: string[]) => {
+    const userLevelId = crypto.randomUUID();
+    await db.iam.userLevels.create({
+      id: userLevelId,
+      companyId,
+      name: 'IAM admins',
+      isDefault: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    } as any);
+    for (const action of actions) {
+      await db.iam.userLevelFeaturePermissions.upsert({
+        userLevelId,
+        featureId: 'feature_iam_user_levels',
+        action,
+        companyId,
+        value: true,
+        scope: 'company',
+      } as any);
+    }
+    await db.iam.userUserLevels.add(principalId, userLevelId);
+  };
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    for (const [basePath, router] of Object.entries(routers)) {
+      app.use(basePath, router);
+    }
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const user = await db.users.create({
+      email: `integration-${crypto.randomUUID()}@example.com`,
+      passwordHash: 'hash',
+      name: 'Integration Owner',
+    });
+    userId = user.id;
+    companyId = crypto.randomUUID();
+    await db.companies.create({
+      id: companyId,
+      name: 'Tenant Co',
+      slug: `tenant-${companyId}`,
+      status: 'active',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    await db.companyMembers.create({ id: crypto.randomUUID(), companyId, userId, role: 'owner', joinedAt: new Date() });
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should refuse personal access tokens on every route that does not check their scopes', async () => {
+    const token = await createToken(['view:view_dashboard']);
+    expect(sessionRoutes).toEqual(
+      expect.arrayContaining([
+        'POST /api/companies/',
+        'PATCH /api/users/me',
+        'DELETE /api/companies/:id',
+        'POST /api/companies/:id/members',
+        'POST /api/companies/:id/invitations',
+        'POST /api/companies/:id/teams',
+        'GET /api/iam/navigation',
+      ])
+    );
+
+    for (const route of sessionRoutes) {
+      const { status, body } = await call(route, token);
+
+      expect({ route, status, code: body.code, message: body.message }).toEqual({
+        route,
+        status: 403,
+        code: 'ERR_AUTH_012',
+        message: 'Personal access tokens cannot be used for this action',
+      });
+    }
+  });
+
+  it('should limit IAM management to the token scopes', async () => {
+    await grant(userId, ['Read', 'Update']);
+    const viewToken = await createToken(['view:view_dashboard']);
+    const readToken = await createToken(['feature:feature_iam_user_levels:Read']);
+    const updateToken = await createToken(['feature:feature_iam_user_levels:*']);
+
+    const outOfScope = await call('GET /api/iam/user-levels', viewToken);
+    expect(outOfScope.status).toBe(403);
+    expect(outOfScope.body).toMatchObject({ code: 'ERR_AUTH_012', message: 'Token scope does not allow this action' });
+
+    expect((await call('GET /api/iam/user-levels', readToken)).status).toBe(200);
+    for (const route of ['POST /api/iam/user-levels', 'PUT /api/iam/users/:userId/user-levels']) {
+      const { status, body } = await call(route, readToken, { name: 'Bots', userLevelIds: [] });
+      expect({ route, status, code: body.code }).toEqual({ route, status: 403, code: 'ERR_AUTH_012' });
+    }
+
+    expect((await call('POST /api/iam/user-levels', updateToken, { name: 'Bots' })).status).toBe(201);
+  });
+
+  it('should keep service accounts to the IAM routes of their company', async () => {
+    const serviceAccountId = crypto.randomUUID();
+    await grant(serviceAccountId, ['Read']);
+    const token = generateToken({
+      userId: serviceAccountId,
+      email: `${serviceAccountId}@service-accounts.local`,
+      authProvider: 'inhouse',
+      serviceAccountId,
+      companyId,
+    });
+
+    for (const route of sessionRoutes) {
+      const { status, body } = await call(route, token);
+
+      expect({ route, status, code: body.code, message: body.message }).toEqual({
+        route,
+        status: 403,
+        code: 'ERR_AUTH_012',
+        message: 'Service accounts cannot be used for this action',
+      });
+    }
+
+    expect((await call('GET /api/iam/user-levels', token)).status).toBe(200);
+    expect((await call('GET /api/iam/user-levels', token, {}, crypto.randomUUID())).body).toMatchObject({
+      code: 'ERR_AUTH_003',
+    });
+  });
+});
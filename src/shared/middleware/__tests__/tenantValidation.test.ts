@@ -2,18 +2,64 @@
  * Tenant Validation Middleware Tests
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { Request, Response, NextFunction } from 'express';
 import { requireTenant, validateTenantAccess, enforceTenant } from '../tenantValidation';
+import { db } from '../../db/client';
+
+// Companies and members live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
 
 describe('Tenant Validation Middleware', () => {
   let req: Partial<Request>;
   let res: Partial<Response>;
   let next: NextFunction;
+  let companyId: string;
+  let otherCompanyId: string;
+  let userId: string;
+
+  /**
+   * Create a company with the user as a member
+   */
+  const createCompany = async (memberId?: string): Promise<string> => {
+    const id = crypto.randomUUID();
+    await db.companies.create({
+      id,
+      name: 'Tenant Co',
+      slug: `tenant-${id}`,
+      status: 'active',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    if (memberId) {
+      await db.companyMembers.create({ id: crypto.randomUUID(), companyId: id, userId: memberId, role: 'admin', joinedAt: new Date() });
+    }
+    return id;
+  };
+
+  /**
+   * Assert the request was refused with the tenant access error
+   */
+  const expectForbidden = () => {
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({
+      status: 'error',
+      code: 'ERR_AUTH_003',
+      message: 'Access to this tenant is not allowed',
+    });
+    expect(next).not.toHaveBeenCalled();
+  };
 
-  beforeEach(() => {
+  beforeEach(async () => {
+    userId = crypto.randomUUID();
+    companyId = await createCompany(userId);
+    otherCompanyId = await createCompany();
     req = {
       user: undefined,
+      headers: {},
+      params: {},
       query: {},
       body: {},
     };
@@ -24,6 +70,10 @@ describe('Tenant Validation Middleware', () => {
     next = vi.fn();
   });
 
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
   describe('requireTenant', () => {
     it('should attach tenantId from user.companyId', () => {
       req.user = { companyId: 'company-123', userId: 'user-1' };
@@ -34,8 +84,8 @@ describe('Tenant Validation Middleware', () => {
       expect(next).toHaveBeenCalled();
     });
 
-    it('should attach tenantId from query.companyId', () => {
-      req.query = { companyId: 'company-456' };
+    it('should attach tenantId from the X-Company-Id header', () => {
+      req.headers = { 'x-company-id': 'company-456' };
 
       requireTenant(req as Request, res as Response, next);
 
@@ -43,8 +93,8 @@ describe('Tenant Validation Middleware', () => {
       expect(next).toHaveBeenCalled();
     });
 
-    it('should attach tenantId from body.companyId', () => {
-      req.body = { companyId: 'company-789' };
+    it('should attach tenantId from the companyId route parameter', () => {
+      req.params = { companyId: 'company-789' };
 
       requireTenant(req as Request, res as Response, next);
 
@@ -52,17 +102,19 @@ describe('Tenant Validation Middleware', () => {
       expect(next).toHaveBeenCalled();
     });
 
-    it('should prioritize user.companyId over query', () => {
+    it('should refuse sources that name different companies', () => {
       req.user = { companyId: 'company-user', userId: 'user-1' };
-      req.query = { companyId: 'company-query' };
+      req.headers = { 'x-company-id': 'company-header' };
 
       requireTenant(req as Request, res as Response, next);
 
-      expect(req.tenantId).toBe('company-user');
-      expect(next).toHaveBeenCalled();
+      expectForbidden();
     });
 
-    it('should return 400 if no companyId found', () => {
+    it('should ignore companyId in the query and body', () => {
+      req.query = { companyId: 'company-query' };
+      req.body = { companyId: 'company-body' };
+
       requireTenant(req as Request, res as Response, next);
 
       expect(res.status).toHaveBeenCalledWith(400);
@@ -77,52 +129,77 @@ describe('Tenant Validation Middleware', () => {
   });
 
   describe('validateTenantAccess', () => {
-    it('should allow access when user company matches tenant', () => {
-      req.user = { companyId: 'company-123', userId: 'user-1' };
-      req.tenantId = 'company-123';
+    it('should allow members and attach their role', async () => {
+      req.user = { userId };
+      req.tenantId = companyId;
 
-      validateTenantAccess(req as Request, res as Response, next);
+      await validateTenantAccess(req as Request, res as Response, next);
 
       expect(next).toHaveBeenCalled();
+      expect(req.tenantRole).toBe('admin');
     });
 
-    it('should allow access when no tenant specified (no restriction)', () => {
-      req.user = { companyId: 'company-123', userId: 'user-1' };
+    it('should deny access to companies the user is not a member of', async () => {
+      req.user = { userId, companyId: otherCompanyId };
+      req.tenantId = otherCompanyId;
 
-      validateTenantAccess(req as Request, res as Response, next);
+      await validateTenantAccess(req as Request, res as Response, next);
 
-      expect(next).toHaveBeenCalled();
+      expectForbidden();
     });
 
-    it('should deny access when user company does not match tenant', () => {
-      req.user = { companyId: 'company-123', userId: 'user-1' };
-      req.tenantId = 'company-456';
+    it('should enforce the company MFA policy', async () => {
+      await db.companySecurityPolicies.upsert({ companyId, mfaRequired: true });
+      req.user = { userId };
+      req.tenantId = companyId;
 
-      validateTenantAccess(req as Request, res as Response, next);
+      await validateTenantAccess(req as Request, res as Response, next);
 
       expect(res.status).toHaveBeenCalledWith(403);
-      expect(res.json).toHaveBeenCalledWith(
-        expect.objectContaining({
-          status: 'error',
-          code: 'ERR_AUTH_003',
-          message: 'Access to this tenant is not allowed',
-        })
-      );
+      expect(res.json).toHaveBeenCalledWith({
+        status: 'error',
+        code: 'ERR_AUTH_010',
+        message: 'Multi-factor authentication required by company policy',
+      });
       expect(next).not.toHaveBeenCalled();
+
+      req.user = { userId, mfa: true };
+      await validateTenantAccess(req as Request, res as Response, next);
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should only let service accounts reach their own company', async () => {
+      req.user = { userId: 'sa-1', serviceAccountId: 'sa-1', companyId };
+      req.tenantId = companyId;
+      await validateTenantAccess(req as Request, res as Response, next);
+      expect(next).toHaveBeenCalled();
+
+      vi.mocked(next).mockClear();
+      req.tenantId = otherCompanyId;
+      await validateTenantAccess(req as Request, res as Response, next);
+      expectForbidden();
     });
 
-    it('should return 401 if user has no companyId', () => {
-      req.user = { userId: 'user-1' };
-      req.tenantId = 'company-123';
+    it('should let super admins reach any company', async () => {
+      req.user = { userId: crypto.randomUUID(), isSuperAdmin: true };
+      req.tenantId = otherCompanyId;
 
-      validateTenantAccess(req as Request, res as Response, next);
+      await validateTenantAccess(req as Request, res as Response, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(req.tenantRole).toBeUndefined();
+    });
+
+    it('should return 401 without an authenticated user', async () => {
+      req.tenantId = companyId;
+
+      await validateTenantAccess(req as Request, res as Response, next);
 
       expect(res.status).toHaveBeenCalledWith(401);
       expect(res.json).toHaveBeenCalledWith(
         expect.objectContaining({
           status: 'error',
           code: 'ERR_AUTH_001',
-          message: 'User company not found',
         })
       );
       expect(next).not.toHaveBeenCalled();
@@ -130,48 +207,42 @@ describe('Tenant Validation Middleware', () => {
   });
 
   describe('enforceTenant', () => {
-    it('should combine requireTenant and validateTenantAccess successfully', () => {
-      req.user = { companyId: 'company-123', userId: 'user-1' };
-
+    /**
+     * Run enforceTenant and wait for the membership lookup
+     */
+    const runEnforceTenant = async () => {
       enforceTenant(req as Request, res as Response, next);
+      await vi.waitFor(() => {
+        expect(vi.mocked(next).mock.calls.length + vi.mocked(res.status!).mock.calls.length).toBeGreaterThan(0);
+      });
+    };
 
-      expect(req.tenantId).toBe('company-123');
-      expect(next).toHaveBeenCalled();
-    });
+    it('should combine requireTenant and validateTenantAccess successfully', async () => {
+      req.user = { userId };
+      req.headers = { 'x-company-id': companyId };
 
-    it('should fail at requireTenant if no companyId', () => {
-      enforceTenant(req as Request, res as Response, next);
+      await runEnforceTenant();
 
-      expect(res.status).toHaveBeenCalledWith(400);
-      expect(next).not.toHaveBeenCalled();
+      expect(req.tenantId).toBe(companyId);
+      expect(next).toHaveBeenCalled();
     });
 
-    it('should fail at validateTenantAccess if company mismatch', () => {
-      // User belongs to company-123, but body has company-456
-      // Since user.companyId has priority, tenantId will be company-123
-      // But to test validateTenantAccess failure, we need user with no companyId
-      // or manually set tenantId before calling
-      req.user = { companyId: 'company-123', userId: 'user-1' };
-      req.body = { companyId: 'company-456' };
+    it('should fail at requireTenant if no companyId', async () => {
+      req.user = { userId };
 
-      enforceTenant(req as Request, res as Response, next);
+      await runEnforceTenant();
 
-      // requireTenant will attach company-123 as tenantId (from user.companyId)
-      // validateTenantAccess will compare user.companyId (123) === tenantId (123) = match
-      // So this should actually PASS, not fail
-      // Let me change the expectation
-      expect(req.tenantId).toBe('company-123');
-      expect(next).toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(next).not.toHaveBeenCalled();
     });
 
-    it('should handle query companyId when user companyId matches', () => {
-      req.user = { companyId: 'company-123', userId: 'user-1' };
-      req.query = { companyId: 'company-123' };
+    it('should fail at validateTenantAccess for another company', async () => {
+      req.user = { userId };
+      req.headers = { 'x-company-id': otherCompanyId };
 
-      enforceTenant(req as Request, res as Response, next);
+      await runEnforceTenant();
 
-      expect(req.tenantId).toBe('company-123');
-      expect(next).toHaveBeenCalled();
+      expectForbidden();
     });
   });
 });
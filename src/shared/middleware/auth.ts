@@ -1,7 +1,12 @@
 import type { Request, Response, NextFunction } from 'express';
 import { verifyToken } from '../utils/jwt';
+import type { AccessTokenPayload } from '../utils/jwt';
 import { ApiResponse } from '../utils/response';
-import type { JWTPayload } from '@vertical-vibing/shared-types';
+import { tokenRevocationService } from '../services/token-revocation.service';
+import { personalAccessTokenService, isPersonalAccessToken } from '../services/personal-access-token.service';
+import { impersonationService } from '../services/impersonation.service';
+import { getClientInfo } from '../utils/request';
+import { db } from '../db/client';
 
 /**
  * Extend Express Request type to include user property
@@ -9,21 +14,52 @@ import type { JWTPayload } from '@vertical-vibing/shared-types';
 declare global {
   namespace Express {
     interface Request {
-      user?: JWTPayload;
+      user?: AccessTokenPayload;
     }
   }
 }
 
+/**
+ * Tokens a route accepts besides sign-in sessions
+ */
+export interface AuthenticateOptions {
+  personalAccessTokens?: boolean; // The route limits them to their scopes (authorize(), checkPermission(), IAM authorization)
+  serviceAccounts?: boolean; // The route limits them to their company (enforceTenant)
+}
+
 /**
  * Authenticate JWT Middleware
  *
- * Verifies JWT token from Authorization header and attaches user data to request
+ * Verifies JWT token from Authorization header, rejects revoked tokens,
+ * and attaches user data to request. Only sign-in sessions are accepted;
+ * routes that take other tokens use authenticateToken.
+ * Requests made with an impersonation token are logged.
  *
  * @param req - Express request
  * @param res - Express response
  * @param next - Express next function
  */
-export function authenticateJWT(req: Request, res: Response, next: NextFunction): void {
+export async function authenticateJWT(req: Request, res: Response, next: NextFunction): Promise<void> {
+  return authenticate(req, res, next, {});
+}
+
+/**
+ * Authenticate middleware factory for routes that also accept API tokens
+ *
+ * Personal access tokens (`vv_pat_...`) and service account tokens are refused
+ * unless the route opts in. `req.user.scopes` then holds a personal access token's
+ * scopes, which the route must check; service accounts carry `serviceAccountId`.
+ *
+ * Usage: authenticateToken({ personalAccessTokens: true, serviceAccounts: true })
+ */
+export function authenticateToken(options: AuthenticateOptions) {
+  return (req: Request, res: Response, next: NextFunction): Promise<void> => authenticate(req, res, next, options);
+}
+
+/**
+ * Verify the bearer token, refuse token kinds the route does not accept and attach the user
+ */
+async function authenticate(req: Request, res: Response, next: NextFunction, options: AuthenticateOptions): Promise<void> {
   try {
     // Get token from Authorization header
     const authHeader = req.headers.authorization;
@@ -43,10 +79,26 @@ export function authenticateJWT(req: Request, res: Response, next: NextFunction)
     const token = parts[1];
 
     // Verify token
-    const payload = verifyToken(token);
+    const payload = await resolveBearerToken(token, req);
+
+    // Reject tokens revoked by logout, password change or admin action
+    if (!payload) {
+      ApiResponse.unauthorized(res, 'Token revoked');
+      return;
+    }
+
+    if (payload.personalAccessTokenId && !options.personalAccessTokens) {
+      ApiResponse.error(res, 'Personal access tokens cannot be used for this action', 403, 'ERR_AUTH_012');
+      return;
+    }
+    if (payload.serviceAccountId && !options.serviceAccounts) {
+      ApiResponse.error(res, 'Service accounts cannot be used for this action', 403, 'ERR_AUTH_012');
+      return;
+    }
 
     // Attach user data to request
     req.user = payload;
+    logImpersonatedRequest(req, res);
 
     next();
   } catch (error) {
@@ -77,7 +129,11 @@ export function authenticateJWT(req: Request, res: Response, next: NextFunction)
  * @param res - Express response
  * @param next - Express next function
  */
-export function optionalAuthenticateJWT(req: Request, res: Response, next: NextFunction): void {
+export async function optionalAuthenticateJWT(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
   try {
     // Get token from Authorization header
     const authHeader = req.headers.authorization;
@@ -99,10 +155,17 @@ export function optionalAuthenticateJWT(req: Request, res: Response, next: NextF
     const token = parts[1];
 
     // Verify token
-    const payload = verifyToken(token);
+    const payload = await resolveBearerToken(token, req);
+
+    // Revoked token or API token, continue without user
+    if (!payload || payload.personalAccessTokenId || payload.serviceAccountId) {
+      next();
+      return;
+    }
 
     // Attach user data to request
     req.user = payload;
+    logImpersonatedRequest(req, res);
 
     next();
   } catch (error) {
@@ -111,3 +174,105 @@ export function optionalAuthenticateJWT(req: Request, res: Response, next: NextF
     next();
   }
 }
+
+/**
+ * Require Verified Email Middleware
+ *
+ * Opt-in guard for routes that unverified users must not reach.
+ * Must run after authenticateJWT.
+ *
+ * @param req - Express request
+ * @param res - Express response
+ * @param next - Express next function
+ */
+export async function requireVerifiedEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      ApiResponse.unauthorized(res, 'Authentication required');
+      return;
+    }
+
+    const user = await db.users.findById(req.user.userId);
+    if (!user) {
+      ApiResponse.unauthorized(res, 'User not found');
+      return;
+    }
+
+    if (!user.emailVerified) {
+      ApiResponse.error(res, 'Email address not verified', 403, 'ERR_AUTH_009');
+      return;
+    }
+
+    next();
+  } catch (error) {
+    console.error('Email verification check error:', error);
+    ApiResponse.error(res, 'Email verification check failed', 500, 'ERR_INTERNAL_001');
+  }
+}
+
+/**
+ * Reject requests authenticated with a personal access token, as a service account or while impersonating
+ *
+ * For account management (e.g. creating tokens, changing the password) that needs the user themselves.
+ * Must run after authenticateJWT.
+ *
+ * @param req - Express request
+ * @param res - Express response
+ * @param next - Express next function
+ */
+export function requireSessionToken(req: Request, res: Response, next: NextFunction): void {
+  if (req.user?.personalAccessTokenId) {
+    ApiResponse.error(res, 'Personal access tokens cannot be used for this action', 403, 'ERR_AUTH_012');
+    return;
+  }
+  if (req.user?.serviceAccountId) {
+    ApiResponse.error(res, 'Service accounts cannot be used for this action', 403, 'ERR_AUTH_012');
+    return;
+  }
+  if (req.user?.impersonationId) {
+    ApiResponse.error(res, 'This action is not allowed while impersonating', 403, 'ERR_AUTH_012');
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Verify a bearer token (JWT or personal access token)
+ *
+ * @returns Payload, or null if the JWT has been revoked
+ * @throws Error if the token is invalid or expired
+ */
+async function resolveBearerToken(token: string, req: Request): Promise<AccessTokenPayload | null> {
+  if (isPersonalAccessToken(token)) {
+    // Revoked personal access tokens are rejected as invalid
+    return personalAccessTokenService.authenticate(token, getClientInfo(req).ipAddress);
+  }
+
+  const payload = verifyToken(token);
+  return (await tokenRevocationService.isRevoked(payload)) ? null : payload;
+}
+
+/**
+ * Record a request made with an impersonation token once the response is sent
+ */
+function logImpersonatedRequest(req: Request, res: Response): void {
+  const { impersonationId, impersonatorEmail, email } = req.user!;
+  if (!impersonationId) {
+    return;
+  }
+
+  res.on('finish', () => {
+    console.log(`🎭 ${impersonatorEmail} as ${email}: ${req.method} ${req.originalUrl} ${res.statusCode}`);
+    impersonationService
+      .logRequest(impersonationId, {
+        method: req.method,
+        path: req.originalUrl,
+        statusCode: res.statusCode,
+        ipAddress: getClientInfo(req).ipAddress,
+      })
+      .catch((error) => {
+        console.error('Impersonation request log error:', error);
+      });
+  });
+}
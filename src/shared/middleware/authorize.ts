@@ -11,10 +11,11 @@ import { permissionsService } from '../../features/iam/permissions.service';
 /**
  * Authorization options
  */
-interface AuthorizeOptions {
+export interface AuthorizeOptions {
   view?: string; // View ID to check access for
   feature?: string; // Feature ID to check permission for
   action?: string; // Action to check (only with feature)
+  resourceOwnerId?: string; // Owner of the resource acted on: the permission's scope must reach them (checkPermission only)
 }
 
 // Note: Express Request.user type is defined in auth.ts middleware
@@ -47,8 +48,23 @@ export function authorize(options: AuthorizeOptions) {
         return;
       }
 
+      // Personal access tokens are limited to their scopes (on top of the user's permissions)
+      if (!scopesAllow(req.user.scopes, options)) {
+        res.status(403).json({
+          status: 'error',
+          code: 'ERR_AUTH_012',
+          message: 'Forbidden: Token scope does not allow this',
+          details: {
+            viewId: options.view,
+            featureId: options.feature,
+            action: options.action,
+          },
+        });
+        return;
+      }
+
       const { userId } = req.user;
-      const companyId = req.tenantId || getCompanyIdFromRequest(req);
+      const companyId = getCompanyIdFromRequest(req);
 
       if (!companyId) {
         res.status(400).json({
@@ -166,7 +182,20 @@ export function authorizeOwn(featureId: string, action: string, resourceUserIdPa
         return;
       }
 
-      const companyId = req.tenantId || getCompanyIdFromRequest(req);
+      if (!scopesAllow(req.user.scopes, { feature: featureId, action })) {
+        res.status(403).json({
+          status: 'error',
+          code: 'ERR_AUTH_012',
+          message: 'Forbidden: Token scope does not allow this',
+          details: {
+            featureId,
+            action,
+          },
+        });
+        return;
+      }
+
+      const companyId = getCompanyIdFromRequest(req);
 
       if (!companyId) {
         res.status(400).json({
@@ -234,7 +263,7 @@ export function requireModule(moduleCode: string) {
         return;
       }
 
-      const companyId = req.tenantId || getCompanyIdFromRequest(req);
+      const companyId = getCompanyIdFromRequest(req);
 
       if (!companyId) {
         res.status(400).json({
@@ -328,19 +357,42 @@ export function requireSuperadmin() {
 
 /**
  * Helper: Extract company ID from request
- * Tries to get from user context, query params, or body
+ * The tenant resolved by enforceTenant, else the token's company (never the query or body)
  */
 function getCompanyIdFromRequest(req: Request): string | undefined {
-  return (
-    (req.query.companyId as string) ||
-    (req.body?.companyId as string) ||
-    undefined
-  );
+  return req.tenantId || req.user?.companyId || req.user?.activeCompanyId || undefined;
+}
+
+/**
+ * Check a personal access token's scopes (`view:<id>`, `feature:<id>:<action>`, `feature:<id>:*`, `*`)
+ * Requests without scopes (regular sign-in) are not limited here
+ */
+export function scopesAllow(scopes: string[] | undefined, options: AuthorizeOptions): boolean {
+  if (!scopes || scopes.includes('*')) {
+    return true;
+  }
+
+  if (options.view && !scopes.includes(`view:${options.view}`)) {
+    return false;
+  }
+
+  if (
+    options.feature &&
+    options.action &&
+    !scopes.includes(`feature:${options.feature}:${options.action}`) &&
+    !scopes.includes(`feature:${options.feature}:*`)
+  ) {
+    return false;
+  }
+
+  return true;
 }
 
 /**
  * Permission check utility (non-middleware)
  * Useful for inline permission checks in route handlers
+ *
+ * Usage: checkPermission(req, { feature: 'feature_report_manage', action: 'Update', resourceOwnerId: report.createdBy })
  */
 export async function checkPermission(
   req: Request,
@@ -355,8 +407,12 @@ export async function checkPermission(
     return { allowed: true, reason: 'Super admin access' };
   }
 
+  if (!scopesAllow(req.user.scopes, options)) {
+    return { allowed: false, reason: 'Token scope does not allow this' };
+  }
+
   const { userId } = req.user;
-  const companyId = req.tenantId || getCompanyIdFromRequest(req);
+  const companyId = getCompanyIdFromRequest(req);
 
   if (!companyId) {
     return { allowed: false, reason: 'No company context' };
@@ -374,14 +430,17 @@ export async function checkPermission(
     }
   }
 
-  // Check feature permission
+  // Check feature permission (against the resource owner when given)
   if (options.feature && options.action) {
-    const resolution = await permissionsService.resolveFeaturePermission(
-      userId,
-      options.feature,
-      options.action,
-      companyId
-    );
+    const resolution = options.resourceOwnerId
+      ? await permissionsService.canPerformActionOnResource(
+          userId,
+          options.feature,
+          options.action,
+          companyId,
+          options.resourceOwnerId
+        )
+      : await permissionsService.resolveFeaturePermission(userId, options.feature, options.action, companyId);
     if (!resolution.allowed) {
       return { allowed: false, reason: resolution.reason };
     }
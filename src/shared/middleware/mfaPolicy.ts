@@ -0,0 +1,63 @@
+import type { Request, Response, NextFunction } from 'express';
+import { db } from '../db/client';
+import { CompanySecurityPoliciesRepository } from '../db/repositories/company-security-policies.repository';
+
+const policiesRepo = new CompanySecurityPoliciesRepository(db);
+
+/**
+ * Message of the 403 (ERR_AUTH_010) returned when the policy is not met
+ */
+export const MFA_REQUIRED_MESSAGE = 'Multi-factor authentication required by company policy';
+
+/**
+ * Check the request against a company's MFA policy
+ *
+ * Passes when the company does not require MFA or the access token was issued
+ * after a second factor (`mfa` claim). Super admins always pass.
+ */
+export async function satisfiesCompanyMfaPolicy(req: Request, companyId: string): Promise<boolean> {
+  if (req.user?.isSuperAdmin || req.user?.mfa) {
+    return true;
+  }
+
+  const policy = await policiesRepo.findByCompanyId(companyId);
+  return !policy?.mfaRequired;
+}
+
+/**
+ * Company MFA Policy Middleware
+ *
+ * Rejects requests to a company that requires MFA unless the access token
+ * was issued after a second factor (`mfa` claim). Must run after authenticateJWT.
+ *
+ * @param companyIdParam - Route parameter holding the company ID (default: 'id')
+ */
+export function requireCompanyMfa(companyIdParam = 'id') {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const companyId = req.params[companyIdParam];
+      if (!companyId || req.user?.isSuperAdmin) {
+        next();
+        return;
+      }
+
+      if (!(await satisfiesCompanyMfaPolicy(req, companyId))) {
+        res.status(403).json({
+          status: 'error',
+          code: 'ERR_AUTH_010',
+          message: MFA_REQUIRED_MESSAGE,
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      console.error('MFA policy check error:', error);
+      res.status(500).json({
+        status: 'error',
+        code: 'ERR_AUTH_005',
+        message: 'Internal authorization error',
+      });
+    }
+  };
+}
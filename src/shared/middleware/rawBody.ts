@@ -0,0 +1,25 @@
+import type { Request } from 'express';
+import type { IncomingMessage, ServerResponse } from 'http';
+
+/**
+ * Extend Express Request type with the unparsed body
+ */
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
+
+/**
+ * Keep the raw request body next to the parsed JSON
+ *
+ * Webhook signatures are computed over the exact bytes that were sent.
+ * Use as the `verify` option of express.json().
+ *
+ * @example app.use(express.json({ verify: captureRawBody }))
+ */
+export function captureRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer): void {
+  (req as Request).rawBody = buf;
+}
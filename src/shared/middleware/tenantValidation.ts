@@ -6,21 +6,49 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
+import type { CompanyRole } from '@vertical-vibing/shared-types';
+import { db } from '../db/client';
+import { CompaniesRepository } from '../db/repositories/companies.repository';
 import { ApiResponse } from '../utils/response';
+import { MFA_REQUIRED_MESSAGE, satisfiesCompanyMfaPolicy } from './mfaPolicy';
 
 /**
- * Middleware to ensure companyId is present and valid
- * Must be used after authenticateJWT
+ * Header naming the company a request acts on
+ */
+export const COMPANY_ID_HEADER = 'x-company-id';
+
+const companiesRepo = new CompaniesRepository(db);
+
+/**
+ * Middleware to resolve the company the request acts on
+ *
+ * The company comes from the `X-Company-Id` header, the `:companyId` route
+ * parameter or the token's `companyId` claim, never from the query or body.
+ * Sources that disagree are refused. Without any of them, the session's
+ * active company (`activeCompanyId` claim) is used. Must be used after authenticateJWT.
  */
 export function requireTenant(req: Request, res: Response, next: NextFunction) {
-  const companyId = req.query.companyId as string || req.body.companyId as string;
+  const header = req.headers?.[COMPANY_ID_HEADER];
+  const candidates = [
+    typeof header === 'string' ? header.trim() : undefined,
+    req.params?.companyId,
+    req.user?.companyId as string | undefined,
+  ].filter((companyId): companyId is string => !!companyId);
+
+  if (candidates.length === 0 && req.user?.activeCompanyId) {
+    candidates.push(req.user.activeCompanyId);
+  }
 
-  if (!companyId) {
+  if (candidates.length === 0) {
     return ApiResponse.error(res, 'Company ID is required', 400);
   }
 
+  if (candidates.some((companyId) => companyId !== candidates[0])) {
+    return ApiResponse.forbidden(res, 'Access to this tenant is not allowed');
+  }
+
   // Attach companyId to request for consistent access
-  req.tenantId = companyId;
+  req.tenantId = candidates[0];
 
   next();
 }
@@ -28,18 +56,57 @@ export function requireTenant(req: Request, res: Response, next: NextFunction) {
 /**
  * Middleware to ensure the user belongs to the requested company
  * Prevents users from accessing other companies' data
+ *
+ * Attaches the caller's member role (`req.tenantRole`). Members of a company that
+ * requires MFA need a token issued after a second factor. Service account tokens
+ * only reach their own company; super admins reach every company (no role).
  */
-export function validateTenantAccess(req: Request, res: Response, next: NextFunction) {
-  // TODO: In a multi-tenant system, validate that the user has access to the requested company
-  // This requires querying the user-company relationship from the database
-  // For now, we skip this validation and rely on IAM permissions to control access
-  const requestedCompanyId = req.tenantId || req.query.companyId as string || req.body.companyId as string;
-
-  if (!requestedCompanyId) {
-    return ApiResponse.error(res, 'Company context is required', 400);
-  }
+export async function validateTenantAccess(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!req.user) {
+      ApiResponse.unauthorized(res, 'Authentication required');
+      return;
+    }
 
-  next();
+    const companyId = req.tenantId;
+    if (!companyId) {
+      ApiResponse.error(res, 'Company context is required', 400);
+      return;
+    }
+
+    if (req.user.isSuperAdmin) {
+      next();
+      return;
+    }
+
+    if (req.user.serviceAccountId) {
+      if (req.user.companyId !== companyId) {
+        ApiResponse.forbidden(res, 'Access to this tenant is not allowed');
+        return;
+      }
+
+      next();
+      return;
+    }
+
+    const member = await companiesRepo.getMember(companyId, req.user.userId);
+    if (!member) {
+      ApiResponse.forbidden(res, 'Access to this tenant is not allowed');
+      return;
+    }
+
+    if (!(await satisfiesCompanyMfaPolicy(req, companyId))) {
+      ApiResponse.error(res, MFA_REQUIRED_MESSAGE, 403, 'ERR_AUTH_010');
+      return;
+    }
+
+    req.tenantRole = member.role;
+
+    next();
+  } catch (error) {
+    console.error('Tenant validation error:', error);
+    ApiResponse.error(res, 'Internal authorization error', 500, 'ERR_AUTH_005');
+  }
 }
 
 /**
@@ -51,11 +118,12 @@ export function enforceTenant(req: Request, res: Response, next: NextFunction) {
   });
 }
 
-// Extend Express Request type to include tenantId
+// Extend Express Request type to include tenantId and the caller's role in it
 declare global {
   namespace Express {
     interface Request {
       tenantId?: string;
+      tenantRole?: CompanyRole;
     }
   }
 }
@@ -0,0 +1,54 @@
+/**
+ * One-Time Token Service Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OneTimeTokenService } from '../one-time-token.service';
+import { db } from '../../db/client';
+
+// Tokens live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+describe('OneTimeTokenService', () => {
+  let service: OneTimeTokenService;
+  let userId: string;
+
+  beforeEach(async () => {
+    service = new OneTimeTokenService();
+    const user = await db.users.create({
+      email: `ott-${crypto.randomUUID()}@example.com`,
+      passwordHash: 'hash',
+      name: 'Token User',
+    });
+    userId = user.id;
+  });
+
+  it('should consume a token exactly once', async () => {
+    const { token } = await service.issue(userId, 'password_reset', 'a@example.com', 60);
+
+    const consumed = await service.consume(token, 'password_reset');
+
+    expect(consumed.userId).toBe(userId);
+    await expect(service.consume(token, 'password_reset')).rejects.toThrow('Invalid or expired token');
+  });
+
+  it('should invalidate outstanding tokens when a new one is issued', async () => {
+    const first = await service.issue(userId, 'password_reset', 'a@example.com', 60);
+    const second = await service.issue(userId, 'password_reset', 'a@example.com', 60);
+
+    await expect(service.consume(first.token, 'password_reset')).rejects.toThrow('Invalid or expired token');
+    await expect(service.consume(second.token, 'password_reset')).resolves.toBeDefined();
+  });
+
+  it('should reject expired tokens', async () => {
+    const { token } = await service.issue(userId, 'password_reset', 'a@example.com', -1);
+
+    await expect(service.consume(token, 'password_reset')).rejects.toThrow('Invalid or expired token');
+  });
+
+  it('should reject unknown tokens', async () => {
+    await expect(service.consume('unknown', 'password_reset')).rejects.toThrow('Invalid or expired token');
+  });
+});
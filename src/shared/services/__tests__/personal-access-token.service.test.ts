@@ -0,0 +1,147 @@
+/**
+ * Personal Access Token Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Request, Response } from 'express';
+import { PersonalAccessTokenService } from '../personal-access-token.service';
+import { authenticateJWT, authenticateToken, requireSessionToken } from '../../middleware/auth';
+import { authorize } from '../../middleware/authorize';
+import { permissionsService } from '../../../features/iam/permissions.service';
+import { db } from '../../db/client';
+
+// Users and tokens live in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+describe('Personal access tokens', () => {
+  let service: PersonalAccessTokenService;
+  let userId: string;
+  let res: Partial<Response>;
+  let next: any;
+  let consoleErrorSpy: any;
+
+  /**
+   * Authenticate a bearer token on a route that accepts personal access tokens and return the request
+   */
+  const authenticate = async (token: string): Promise<Request> => {
+    const req = { headers: { authorization: `Bearer ${token}` }, socket: { remoteAddress: '203.0.113.7' } } as any;
+    await authenticateToken({ personalAccessTokens: true })(req, res as Response, next);
+    return req;
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    service = new PersonalAccessTokenService();
+    const user = await db.users.create({
+      email: `pat-${crypto.randomUUID()}@example.com`,
+      passwordHash: 'hash',
+      name: 'Token User',
+      isSuperAdmin: true,
+    });
+    userId = user.id;
+    res = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+    };
+    next = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should store only the hash and show the prefix', async () => {
+    const { token, personalAccessToken } = await service.create(userId, {
+      name: 'CI',
+      scopes: ['*'],
+      expiresInDays: null,
+    });
+
+    expect(token).toMatch(/^vv_pat_[\w-]{43}$/);
+    expect(personalAccessToken.tokenPrefix).toBe(token.slice(0, 15));
+    expect(JSON.stringify(await db.personalAccessTokens.findByUserId(userId))).not.toContain(token);
+  });
+
+  it('should authenticate requests with the token scopes and track the last use', async () => {
+    const { token, personalAccessToken } = await service.create(userId, {
+      name: 'Reports',
+      scopes: ['feature:feature_reports:Read'],
+      expiresInDays: 30,
+    });
+
+    const req = await authenticate(token);
+
+    expect(next).toHaveBeenCalled();
+    expect(req.user).toMatchObject({ userId, personalAccessTokenId: personalAccessToken.id });
+    expect(req.user!.scopes).toEqual(['feature:feature_reports:Read']);
+    expect(req.user!.isSuperAdmin).toBeUndefined(); // Never carried by API keys
+
+    const [info] = await service.list(userId);
+    expect(info.lastUsedIp).toBe('203.0.113.7');
+    expect(info.lastUsedAt).not.toBeNull();
+  });
+
+  it('should reject revoked and expired tokens', async () => {
+    const revoked = await service.create(userId, { name: 'Old', scopes: ['*'], expiresInDays: null });
+    const expiring = await service.create(userId, { name: 'Short', scopes: ['*'], expiresInDays: 1 });
+
+    await service.revoke(userId, revoked.personalAccessToken.id);
+    await authenticate(revoked.token);
+    expect(res.status).toHaveBeenLastCalledWith(401);
+
+    vi.setSystemTime(Date.now() + 25 * 60 * 60 * 1000);
+    await authenticate(expiring.token);
+    expect(res.json).toHaveBeenLastCalledWith(expect.objectContaining({ message: 'Token expired' }));
+    expect(next).not.toHaveBeenCalled();
+
+    await expect(service.revoke(crypto.randomUUID(), expiring.personalAccessToken.id)).rejects.toThrow(
+      'Token not found'
+    );
+  });
+
+  it('should limit authorize() to the token scopes on top of IAM permissions', async () => {
+    const canPerform = vi.spyOn(permissionsService, 'canPerformAction').mockResolvedValue(true);
+    const { token } = await service.create(userId, {
+      name: 'Reports',
+      scopes: ['feature:feature_reports:*'],
+      expiresInDays: null,
+    });
+    const req = await authenticate(token);
+    req.tenantId = 'company-1';
+
+    await authorize({ feature: 'feature_users', action: 'Update' })(req, res as Response, next);
+    expect(res.status).toHaveBeenLastCalledWith(403);
+    expect(res.json).toHaveBeenLastCalledWith(expect.objectContaining({ code: 'ERR_AUTH_012' }));
+    expect(canPerform).not.toHaveBeenCalled();
+
+    await authorize({ feature: 'feature_reports', action: 'Read' })(req, res as Response, next);
+    expect(canPerform).toHaveBeenCalledWith(userId, 'feature_reports', 'Read', 'company-1');
+    expect(next).toHaveBeenCalledTimes(2); // authenticateToken and the allowed check
+
+    canPerform.mockResolvedValue(false);
+    await authorize({ feature: 'feature_reports', action: 'Read' })(req, res as Response, next);
+    expect(res.json).toHaveBeenLastCalledWith(expect.objectContaining({ code: 'ERR_AUTH_004' }));
+  });
+
+  it('should refuse tokens on routes that do not accept them', async () => {
+    const { token } = await service.create(userId, { name: 'CI', scopes: ['*'], expiresInDays: null });
+
+    const refused = { headers: { authorization: `Bearer ${token}` }, socket: {} } as any;
+    await authenticateJWT(refused, res as Response, next);
+    expect(res.status).toHaveBeenLastCalledWith(403);
+    expect(res.json).toHaveBeenLastCalledWith(
+      expect.objectContaining({ code: 'ERR_AUTH_012', message: 'Personal access tokens cannot be used for this action' })
+    );
+    expect(refused.user).toBeUndefined();
+
+    const req = await authenticate(token);
+    requireSessionToken(req, res as Response, next);
+    expect(res.status).toHaveBeenLastCalledWith(403);
+    expect(next).toHaveBeenCalledTimes(1); // Only authenticateToken
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Token Revocation Service Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TokenRevocationService } from '../token-revocation.service';
+import { generateToken, verifyToken } from '../../utils/jwt';
+import type { AccessTokenPayload } from '../../utils/jwt';
+
+// Denylist lives in the in-memory database; no PostgreSQL connection needed
+vi.mock('../../db/postgres', () => ({
+  getPostgresClient: vi.fn(),
+}));
+
+describe('TokenRevocationService', () => {
+  let service: TokenRevocationService;
+  let userId: string;
+
+  const issueToken = (sessionId?: string): AccessTokenPayload =>
+    verifyToken(generateToken({ userId, email: 'revoke@example.com', sessionId }));
+
+  beforeEach(() => {
+    service = new TokenRevocationService();
+    userId = crypto.randomUUID();
+  });
+
+  it('should issue tokens with a unique jti', () => {
+    const first = issueToken();
+    const second = issueToken();
+
+    expect(first.jti).toBeDefined();
+    expect(first.jti).not.toBe(second.jti);
+  });
+
+  describe('revokeToken', () => {
+    it('should revoke only the given token', async () => {
+      const revoked = issueToken();
+      const other = issueToken();
+
+      await service.revokeToken(revoked, 'logout');
+
+      expect(await service.isRevoked(revoked)).toBe(true);
+      expect(await service.isRevoked(other)).toBe(false);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should revoke every token issued for the session', async () => {
+      const sessionId = crypto.randomUUID();
+      const token = issueToken(sessionId);
+      const otherSession = issueToken(crypto.randomUUID());
+
+      await service.revokeSession(sessionId, userId, 'session_revoked');
+
+      expect(await service.isRevoked(token)).toBe(true);
+      expect(await service.isRevoked(otherSession)).toBe(false);
+    });
+  });
+
+  describe('revokeAllForUser', () => {
+    it('should revoke tokens issued before the revocation', async () => {
+      const token = { ...issueToken(), iat: Math.floor(Date.now() / 1000) - 60 };
+
+      await service.revokeAllForUser(userId, 'password_change');
+
+      expect(await service.isRevoked(token)).toBe(true);
+    });
+
+    it('should not revoke tokens issued after the revocation', async () => {
+      await service.revokeAllForUser(userId, 'admin');
+
+      const token = { ...issueToken(), iat: Math.floor(Date.now() / 1000) + 1 };
+
+      expect(await service.isRevoked(token)).toBe(false);
+    });
+  });
+
+  describe('cleanupExpired', () => {
+    it('should delete entries whose tokens have expired', async () => {
+      const token = { ...issueToken(), exp: Math.floor(Date.now() / 1000) - 1 };
+      await service.revokeToken(token, 'logout');
+
+      const deleted = await service.cleanupExpired();
+
+      expect(deleted).toBeGreaterThanOrEqual(1);
+      expect(await service.isRevoked(token)).toBe(false);
+    });
+  });
+});
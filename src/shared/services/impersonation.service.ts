@@ -0,0 +1,213 @@
+import { db } from '../db/client';
+import { ImpersonationRepository } from '../db/repositories/impersonation.repository';
+import { UsersRepository } from '../db/repositories/users.repository';
+import type { ImpersonationSession } from '../db/schema/impersonation.schema';
+import type { AuthProvider } from '@vertical-vibing/shared-types';
+import { generateToken, verifyToken } from '../utils/jwt';
+import type { AccessTokenPayload } from '../utils/jwt';
+import type { ClientInfo } from '../utils/request';
+import { tokenRevocationService } from './token-revocation.service';
+import type {
+  StartImpersonationDTO,
+  ImpersonationInfo,
+  ImpersonationRequestInfo,
+  ImpersonationBanner,
+} from '../../features/admin/admin.types';
+
+/**
+ * Requests returned with an impersonation session
+ */
+const MAX_REQUEST_LOGS = 500;
+
+/**
+ * Impersonation Service
+ *
+ * Lets super admins see the app as a specific user
+ * - Time-boxed access token for the user that also names the impersonator
+ * - The token never carries the super admin flag and has no refresh token
+ * - Every request made with it is logged
+ */
+export class ImpersonationService {
+  private impersonationRepo: ImpersonationRepository;
+  private usersRepo: UsersRepository;
+
+  constructor() {
+    this.impersonationRepo = new ImpersonationRepository(db);
+    this.usersRepo = new UsersRepository(db);
+  }
+
+  /**
+   * Start impersonating a user
+   *
+   * @param impersonator - Verified token of the super admin
+   * @param targetUserId - User to impersonate
+   * @param dto - Reason and duration
+   * @param clientInfo - Admin's IP address
+   * @returns Impersonation access token and the session
+   * @throws Error if the user does not exist, is the admin or another super admin
+   */
+  async start(
+    impersonator: AccessTokenPayload,
+    targetUserId: string,
+    dto: StartImpersonationDTO,
+    clientInfo: ClientInfo = {}
+  ): Promise<{ token: string; expiresIn: number; impersonation: ImpersonationInfo }> {
+    if (targetUserId === impersonator.userId) {
+      throw new Error('Cannot impersonate yourself');
+    }
+
+    const target = await this.usersRepo.findById(targetUserId);
+    if (!target) {
+      throw new Error('User not found');
+    }
+    if (target.isSuperAdmin) {
+      throw new Error('Cannot impersonate a super admin');
+    }
+
+    const impersonationId = crypto.randomUUID();
+    const expiresIn = dto.durationMinutes * 60;
+    const token = generateToken(
+      {
+        userId: target.id,
+        email: target.email,
+        authProvider: target.authProvider as AuthProvider,
+        impersonationId,
+        impersonatorId: impersonator.userId,
+        impersonatorEmail: impersonator.email,
+        ...(impersonator.mfa && { mfa: true }),
+      },
+      expiresIn
+    );
+    const { jti, exp } = verifyToken(token);
+
+    const session = await this.impersonationRepo.createSession({
+      id: impersonationId,
+      impersonatorId: impersonator.userId,
+      targetUserId: target.id,
+      reason: dto.reason,
+      tokenJti: jti!,
+      ipAddress: clientInfo.ipAddress ?? null,
+      expiresAt: new Date(exp! * 1000),
+    });
+
+    console.log(`🎭 ${impersonator.email} started impersonating ${target.email}: ${dto.reason}`);
+
+    return { token, expiresIn, impersonation: toImpersonationInfo(session) };
+  }
+
+  /**
+   * End an impersonation session before it expires and revoke its token
+   *
+   * @throws Error if the session does not exist
+   */
+  async end(impersonationId: string, reason: string): Promise<ImpersonationInfo> {
+    const session = await this.impersonationRepo.findSessionById(impersonationId);
+    if (!session) {
+      throw new Error('Impersonation not found');
+    }
+    if (session.endedAt || session.expiresAt <= new Date()) {
+      return toImpersonationInfo(session);
+    }
+
+    // The denylist only needs the token ID, its user and its expiry
+    const tokenClaims = {
+      userId: session.targetUserId,
+      jti: session.tokenJti,
+      exp: Math.floor(session.expiresAt.getTime() / 1000),
+    } as AccessTokenPayload;
+    await tokenRevocationService.revokeToken(tokenClaims, reason);
+    const ended = await this.impersonationRepo.updateSession(session.id, { endedAt: new Date() });
+
+    return toImpersonationInfo(ended ?? session);
+  }
+
+  /**
+   * Get an impersonation session with its most recent requests (newest first)
+   *
+   * @throws Error if the session does not exist
+   */
+  async get(
+    impersonationId: string
+  ): Promise<{ impersonation: ImpersonationInfo; requests: ImpersonationRequestInfo[] }> {
+    const session = await this.impersonationRepo.findSessionById(impersonationId);
+    if (!session) {
+      throw new Error('Impersonation not found');
+    }
+
+    const logs = await this.impersonationRepo.findRequestLogs(session.id, MAX_REQUEST_LOGS);
+    return {
+      impersonation: toImpersonationInfo(session),
+      requests: logs.map((log) => ({
+        method: log.method,
+        path: log.path,
+        statusCode: log.statusCode,
+        ipAddress: log.ipAddress,
+        createdAt: log.createdAt.toISOString(),
+      })),
+    };
+  }
+
+  /**
+   * Banner details for a request made with an impersonation token
+   *
+   * @returns null if the token is not an impersonation token
+   */
+  async getBanner(payload: AccessTokenPayload): Promise<ImpersonationBanner | null> {
+    if (!payload.impersonationId) {
+      return null;
+    }
+
+    const session = await this.impersonationRepo.findSessionById(payload.impersonationId);
+    if (!session) {
+      return null;
+    }
+
+    const impersonator = await this.usersRepo.findById(session.impersonatorId);
+    return {
+      impersonationId: session.id,
+      impersonator: {
+        id: session.impersonatorId,
+        email: impersonator?.email ?? payload.impersonatorEmail ?? '',
+        name: impersonator?.name ?? '',
+      },
+      reason: session.reason,
+      startedAt: session.createdAt.toISOString(),
+      expiresAt: session.expiresAt.toISOString(),
+    };
+  }
+
+  /**
+   * Record a request made with an impersonation token
+   */
+  async logRequest(
+    impersonationId: string,
+    request: { method: string; path: string; statusCode: number; ipAddress?: string }
+  ): Promise<void> {
+    await this.impersonationRepo.createRequestLog({
+      impersonationSessionId: impersonationId,
+      method: request.method,
+      path: request.path,
+      statusCode: request.statusCode,
+      ipAddress: request.ipAddress ?? null,
+    });
+  }
+}
+
+/**
+ * Convert an impersonation session record to its public view
+ */
+function toImpersonationInfo(session: ImpersonationSession): ImpersonationInfo {
+  return {
+    id: session.id,
+    impersonatorId: session.impersonatorId,
+    targetUserId: session.targetUserId,
+    reason: session.reason,
+    ipAddress: session.ipAddress,
+    expiresAt: session.expiresAt.toISOString(),
+    endedAt: session.endedAt?.toISOString() ?? null,
+    createdAt: session.createdAt.toISOString(),
+  };
+}
+
+// Export singleton instance
+export const impersonationService = new ImpersonationService();
@@ -0,0 +1,160 @@
+import { db } from '../db/client';
+import { LoginEventsRepository } from '../db/repositories/login-events.repository';
+import { UsersRepository } from '../db/repositories/users.repository';
+import type { LoginEvent, LoginMethod, LoginFailureReason } from '../db/schema/login-events.schema';
+import type { User } from '../db/schema/users.schema';
+import type { ClientInfo } from '../utils/request';
+import { hashToken } from '../utils/token';
+import { buildFrontendUrl } from '../utils/url';
+import { EmailService } from '../../features/email/email.service';
+import type { LoginHistoryEntry } from '../../features/users/users.types';
+
+/**
+ * Login History Service
+ *
+ * Records every successful and failed sign-in (time, IP, user agent, provider, MFA)
+ * - Devices are identified by their user agent without version numbers, so browser updates are not new devices
+ * - The first login from an unseen device emails the user a security alert (not their very first login)
+ * - Recording never fails a login: errors are logged
+ */
+export class LoginHistoryService {
+  private loginEventsRepo: LoginEventsRepository;
+  private usersRepo: UsersRepository;
+  private emailService: EmailService;
+
+  constructor() {
+    this.loginEventsRepo = new LoginEventsRepository(db);
+    this.usersRepo = new UsersRepository(db);
+    this.emailService = new EmailService();
+  }
+
+  /**
+   * Record a successful login, alerting the user if it comes from a new device
+   *
+   * @param user - User who signed in
+   * @param client - Caller IP and user agent
+   * @param method - How the user signed in
+   * @param mfaUsed - Whether a second factor was verified
+   */
+  async recordSuccess(user: User, client: ClientInfo, method: LoginMethod, mfaUsed: boolean): Promise<void> {
+    try {
+      const deviceFingerprint = getDeviceFingerprint(client.userAgent);
+      const knownDevices = await this.loginEventsRepo.findKnownDevices(user.id);
+      const newDevice = !!deviceFingerprint && knownDevices.length > 0 && !knownDevices.includes(deviceFingerprint);
+
+      const event = await this.loginEventsRepo.create({
+        userId: user.id,
+        email: user.email,
+        success: true,
+        method,
+        authProvider: user.authProvider,
+        mfaUsed,
+        ipAddress: client.ipAddress ?? null,
+        userAgent: client.userAgent?.slice(0, 500) ?? null,
+        deviceFingerprint,
+        newDevice,
+      });
+
+      if (newDevice) {
+        await this.sendSecurityAlert(user, event);
+      }
+    } catch (error) {
+      console.error('Login history error:', error);
+    }
+  }
+
+  /**
+   * Record a failed login
+   *
+   * @param email - Email address the login was attempted for (the account is looked up by it)
+   * @param client - Caller IP and user agent
+   * @param method - How the user tried to sign in
+   * @param reason - Why the login failed
+   * @param authProvider - Provider that handled the attempt
+   */
+  async recordFailure(
+    email: string,
+    client: ClientInfo,
+    method: LoginMethod,
+    reason: LoginFailureReason,
+    authProvider: string
+  ): Promise<void> {
+    try {
+      const user = await this.usersRepo.findByEmail(email);
+
+      await this.loginEventsRepo.create({
+        userId: user?.id ?? null,
+        email: (user?.email ?? email).slice(0, 255),
+        success: false,
+        failureReason: reason,
+        method,
+        authProvider: user?.authProvider ?? authProvider,
+        ipAddress: client.ipAddress ?? null,
+        userAgent: client.userAgent?.slice(0, 500) ?? null,
+        deviceFingerprint: getDeviceFingerprint(client.userAgent),
+      });
+    } catch (error) {
+      console.error('Login history error:', error);
+    }
+  }
+
+  /**
+   * Get a user's most recent logins, newest first
+   */
+  async getHistory(userId: string, limit = 50): Promise<LoginHistoryEntry[]> {
+    const events = await this.loginEventsRepo.findByUserId(userId, limit);
+    return events.map(toHistoryEntry);
+  }
+
+  /**
+   * Email the user about a login from a new device, logging (not throwing) delivery failures
+   */
+  private async sendSecurityAlert(user: User, event: LoginEvent): Promise<void> {
+    try {
+      await this.emailService.sendEmail({
+        templateName: 'security-alert',
+        toAddress: user.email,
+        templateData: {
+          userName: user.name,
+          signInTime: event.createdAt.toUTCString(),
+          ...(event.userAgent && { device: event.userAgent }),
+          ...(event.ipAddress && { ipAddress: event.ipAddress }),
+          securityUrl: buildFrontendUrl('/settings/security'),
+        },
+      });
+    } catch (error) {
+      console.error('Security alert email error:', error);
+    }
+  }
+}
+
+/**
+ * Identify a device by its user agent, ignoring version numbers
+ *
+ * @returns SHA-256 hex digest, or null without a user agent
+ */
+export function getDeviceFingerprint(userAgent?: string): string | null {
+  if (!userAgent) {
+    return null;
+  }
+
+  return hashToken(userAgent.toLowerCase().replace(/\d+([._]\d+)*/g, '').replace(/\s+/g, ' ').trim());
+}
+
+/**
+ * Convert a login event to its public view
+ */
+function toHistoryEntry(event: LoginEvent): LoginHistoryEntry {
+  return {
+    id: event.id,
+    success: event.success,
+    failureReason: event.failureReason as LoginFailureReason | null,
+    method: event.method as LoginMethod,
+    authProvider: event.authProvider,
+    mfaUsed: event.mfaUsed,
+    ipAddress: event.ipAddress,
+    userAgent: event.userAgent,
+    newDevice: event.newDevice,
+    createdAt: event.createdAt.toISOString(),
+  };
+}
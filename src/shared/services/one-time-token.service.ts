@@ -0,0 +1,103 @@
+import { db } from '../db/client';
+import { OneTimeTokensRepository } from '../db/repositories/one-time-tokens.repository';
+import type { OneTimeToken, OneTimeTokenPurpose } from '../db/schema/one-time-tokens.schema';
+import { generateSecureToken, hashToken } from '../utils/token';
+
+/**
+ * One-Time Token Service
+ *
+ * Issues and consumes single-use, expiring tokens delivered by email.
+ * Issuing a new token invalidates the user's outstanding tokens for the same purpose,
+ * unless the caller asks to keep them.
+ */
+export class OneTimeTokenService {
+  private tokensRepo: OneTimeTokensRepository;
+
+  constructor(tokensRepo?: OneTimeTokensRepository) {
+    this.tokensRepo = tokensRepo ?? new OneTimeTokensRepository(db);
+  }
+
+  /**
+   * Issue a new token
+   *
+   * @param userId - User the token belongs to
+   * @param purpose - What the token can be used for
+   * @param email - Address the token is sent to
+   * @param ttlMinutes - Token lifetime
+   * @param invalidateOutstanding - Invalidate the user's outstanding tokens for the purpose (default)
+   * @returns Plain token (only returned once) and its expiry
+   */
+  async issue(
+    userId: string,
+    purpose: OneTimeTokenPurpose,
+    email: string,
+    ttlMinutes: number,
+    invalidateOutstanding = true
+  ): Promise<{ token: string; expiresAt: Date }> {
+    if (invalidateOutstanding) {
+      await this.tokensRepo.invalidateForUser(userId, purpose);
+    }
+
+    const token = generateSecureToken();
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+    await this.tokensRepo.create({
+      userId,
+      purpose,
+      tokenHash: hashToken(token),
+      email,
+      expiresAt,
+    });
+
+    return { token, expiresAt };
+  }
+
+  /**
+   * Consume a token (single use)
+   *
+   * @param token - Plain token
+   * @param purpose - Expected purpose
+   * @returns The consumed token record
+   * @throws Error if the token is unknown, for another purpose, used or expired
+   */
+  async consume(token: string, purpose: OneTimeTokenPurpose): Promise<OneTimeToken> {
+    const record = await this.peek(token, purpose);
+
+    const consumed = await this.tokensRepo.markUsed(record.id);
+    if (!consumed) {
+      // Lost a race with a concurrent request using the same token
+      throw new Error('Invalid or expired token');
+    }
+
+    return consumed;
+  }
+
+  /**
+   * Invalidate a user's outstanding tokens for a purpose
+   *
+   * @returns Number of tokens invalidated
+   */
+  async invalidate(userId: string, purpose: OneTimeTokenPurpose): Promise<number> {
+    return this.tokensRepo.invalidateForUser(userId, purpose);
+  }
+
+  /**
+   * Look up a token without using it up
+   *
+   * Lets callers validate the rest of a request before consuming the token.
+   *
+   * @param token - Plain token
+   * @param purpose - Expected purpose
+   * @returns The token record
+   * @throws Error if the token is unknown, for another purpose, used or expired
+   */
+  async peek(token: string, purpose: OneTimeTokenPurpose): Promise<OneTimeToken> {
+    const record = await this.tokensRepo.findByTokenHash(hashToken(token));
+
+    if (!record || record.purpose !== purpose || record.usedAt || record.expiresAt <= new Date()) {
+      throw new Error('Invalid or expired token');
+    }
+
+    return record;
+  }
+}
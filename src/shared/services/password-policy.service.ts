@@ -0,0 +1,197 @@
+import { db } from '../db/client';
+import { CompaniesRepository } from '../db/repositories/companies.repository';
+import { CompanySecurityPoliciesRepository } from '../db/repositories/company-security-policies.repository';
+import { PasswordHistoryRepository } from '../db/repositories/password-history.repository';
+import type { PasswordPolicy } from '../db/schema/company-security-policies.schema';
+import type { User } from '../db/schema/users.schema';
+import { isBreachedPassword } from '../utils/breached-passwords';
+import { verifyPassword } from '../utils/password';
+
+/**
+ * Rules for users without a company policy
+ */
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: false,
+  requireLowercase: false,
+  requireNumber: false,
+  requireSymbol: false,
+  historyCount: 0,
+  maxAgeDays: null,
+};
+
+/**
+ * Most previous passwords a policy can forbid reusing (and that are kept)
+ */
+export const MAX_PASSWORD_HISTORY = 24;
+
+/**
+ * Thrown when a new password breaks the policy
+ */
+export class PasswordPolicyError extends Error {
+  constructor(public violations: string[]) {
+    super('Password does not meet the requirements');
+    this.name = 'PasswordPolicyError';
+  }
+}
+
+/**
+ * Password Policy Service
+ *
+ * Enforces password rules for in-house passwords
+ * - Length and character classes, set per company (strictest policy of the user's companies)
+ * - No password from the bundled breached-password list
+ * - No reuse of the last N passwords
+ * - Maximum password age
+ */
+export class PasswordPolicyService {
+  private companiesRepo: CompaniesRepository;
+  private policiesRepo: CompanySecurityPoliciesRepository;
+  private historyRepo: PasswordHistoryRepository;
+
+  constructor() {
+    this.companiesRepo = new CompaniesRepository(db);
+    this.policiesRepo = new CompanySecurityPoliciesRepository(db);
+    this.historyRepo = new PasswordHistoryRepository(db);
+  }
+
+  /**
+   * Get the policy that applies to a user
+   *
+   * Combines the policies of all the user's companies, keeping the strictest
+   * value of every rule. Users without a company get the defaults.
+   */
+  async getEffectivePolicy(userId?: string): Promise<PasswordPolicy> {
+    if (!userId) {
+      return DEFAULT_PASSWORD_POLICY;
+    }
+
+    const companies = await this.companiesRepo.findByUserId(userId);
+    if (companies.length === 0) {
+      return DEFAULT_PASSWORD_POLICY;
+    }
+
+    const policies = await this.policiesRepo.findByCompanyIds(companies.map((company) => company.id));
+
+    return policies.reduce<PasswordPolicy>((effective, { passwordPolicy }) => {
+      const policy = resolvePasswordPolicy(passwordPolicy);
+      return {
+        minLength: Math.max(effective.minLength, policy.minLength),
+        requireUppercase: effective.requireUppercase || policy.requireUppercase,
+        requireLowercase: effective.requireLowercase || policy.requireLowercase,
+        requireNumber: effective.requireNumber || policy.requireNumber,
+        requireSymbol: effective.requireSymbol || policy.requireSymbol,
+        historyCount: Math.max(effective.historyCount, policy.historyCount),
+        maxAgeDays:
+          effective.maxAgeDays === null || policy.maxAgeDays === null
+            ? effective.maxAgeDays ?? policy.maxAgeDays
+            : Math.min(effective.maxAgeDays, policy.maxAgeDays),
+      };
+    }, DEFAULT_PASSWORD_POLICY);
+  }
+
+  /**
+   * Check a new password against the policy
+   *
+   * @param password - Plain text password
+   * @param user - Account the password is for (omit while registering)
+   * @throws PasswordPolicyError listing every broken rule
+   */
+  async assertAcceptable(password: string, user?: User): Promise<void> {
+    const policy = await this.getEffectivePolicy(user?.id);
+    const violations = checkPasswordRules(password, policy);
+
+    if (violations.length === 0 && user && policy.historyCount > 0 && (await this.isReused(password, user, policy))) {
+      violations.push(
+        `Password was used recently; choose one you have not used in your last ${policy.historyCount} passwords`
+      );
+    }
+
+    if (violations.length > 0) {
+      throw new PasswordPolicyError(violations);
+    }
+  }
+
+  /**
+   * Move a user's current password to the password history
+   *
+   * Call before replacing the password hash.
+   */
+  async rememberCurrentPassword(user: User): Promise<void> {
+    if (!user.passwordHash) {
+      return;
+    }
+
+    await this.historyRepo.create({ userId: user.id, passwordHash: user.passwordHash });
+    await this.historyRepo.prune(user.id, MAX_PASSWORD_HISTORY);
+  }
+
+  /**
+   * Check if a user's password is older than the policy allows
+   */
+  async isExpired(user: User): Promise<boolean> {
+    if (!user.passwordHash || !user.passwordChangedAt) {
+      return false;
+    }
+
+    const { maxAgeDays } = await this.getEffectivePolicy(user.id);
+    if (maxAgeDays === null) {
+      return false;
+    }
+
+    return Date.now() - user.passwordChangedAt.getTime() > maxAgeDays * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Compare against the current password and enough previous ones to cover the last N
+   */
+  private async isReused(password: string, user: User, policy: PasswordPolicy): Promise<boolean> {
+    const previous = await this.historyRepo.findRecent(user.id, policy.historyCount - 1);
+    const hashes = [user.passwordHash, ...previous.map((entry) => entry.passwordHash)];
+
+    for (const hash of hashes) {
+      if (hash && (await verifyPassword(password, hash))) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+}
+
+/**
+ * Fill in the defaults for rules a company has not set
+ */
+export function resolvePasswordPolicy(policy: Partial<PasswordPolicy> | null | undefined): PasswordPolicy {
+  return { ...DEFAULT_PASSWORD_POLICY, ...policy };
+}
+
+/**
+ * Check length, character classes and the breached-password list
+ *
+ * @returns One message per broken rule
+ */
+function checkPasswordRules(password: string, policy: PasswordPolicy): string[] {
+  const violations: string[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push(`Password must be at least ${policy.minLength} characters`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push('Password must contain an uppercase letter');
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push('Password must contain a lowercase letter');
+  }
+  if (policy.requireNumber && !/[0-9]/.test(password)) {
+    violations.push('Password must contain a number');
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push('Password must contain a symbol');
+  }
+  if (isBreachedPassword(password)) {
+    violations.push('Password has appeared in a data breach; choose a different one');
+  }
+
+  return violations;
+}
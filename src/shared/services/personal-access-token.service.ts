@@ -0,0 +1,180 @@
+import { db } from '../db/client';
+import { PersonalAccessTokensRepository } from '../db/repositories/personal-access-tokens.repository';
+import { UsersRepository } from '../db/repositories/users.repository';
+import type { PersonalAccessToken } from '../db/schema/personal-access-tokens.schema';
+import type { AuthProvider } from '@vertical-vibing/shared-types';
+import type { AccessTokenPayload } from '../utils/jwt';
+import { generateSecureToken, hashToken } from '../utils/token';
+import type { CreatePersonalAccessTokenDTO, PersonalAccessTokenInfo } from '../../features/users/users.types';
+
+/**
+ * Prefix of every personal access token, so they are recognisable (and detectable by secret scanners)
+ */
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'vv_pat_';
+
+/**
+ * Characters of the token kept in clear to identify it
+ */
+const DISPLAY_PREFIX_LENGTH = PERSONAL_ACCESS_TOKEN_PREFIX.length + 8;
+
+/**
+ * Active tokens a user can have at once
+ */
+const MAX_ACTIVE_TOKENS = 50;
+
+/**
+ * Last use is recorded at most once per minute per token
+ */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Check if a bearer token is a personal access token (rather than a JWT)
+ */
+export function isPersonalAccessToken(token: string): boolean {
+  return token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX);
+}
+
+/**
+ * Personal Access Token Service
+ *
+ * Scoped, revocable API keys for integrations
+ * - Stored as SHA-256 hashes; the plain token is only returned on creation
+ * - Optional expiry and last-used tracking
+ * - Accepted on routes that check scopes (authenticateToken); the key's scopes limit what authorize() lets through
+ */
+export class PersonalAccessTokenService {
+  private tokensRepo: PersonalAccessTokensRepository;
+  private usersRepo: UsersRepository;
+
+  constructor() {
+    this.tokensRepo = new PersonalAccessTokensRepository(db);
+    this.usersRepo = new UsersRepository(db);
+  }
+
+  /**
+   * Create a token
+   *
+   * @param userId - Owner of the token
+   * @param dto - Name, scopes and optional lifetime
+   * @returns Plain token (only returned once) and its details
+   * @throws Error if the user already has the maximum number of active tokens
+   */
+  async create(
+    userId: string,
+    dto: CreatePersonalAccessTokenDTO
+  ): Promise<{ token: string; personalAccessToken: PersonalAccessTokenInfo }> {
+    const existing = await this.tokensRepo.findByUserId(userId);
+    if (existing.filter((token) => isActive(token)).length >= MAX_ACTIVE_TOKENS) {
+      throw new Error('Too many active tokens');
+    }
+
+    const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${generateSecureToken()}`;
+    const created = await this.tokensRepo.create({
+      userId,
+      name: dto.name,
+      tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      tokenHash: hashToken(token),
+      scopes: Array.from(new Set(dto.scopes)),
+      expiresAt: dto.expiresInDays ? new Date(Date.now() + dto.expiresInDays * 24 * 60 * 60 * 1000) : null,
+    });
+
+    return { token, personalAccessToken: toTokenInfo(created) };
+  }
+
+  /**
+   * List a user's tokens (newest first, including revoked and expired ones)
+   */
+  async list(userId: string): Promise<PersonalAccessTokenInfo[]> {
+    const tokens = await this.tokensRepo.findByUserId(userId);
+    return tokens.map(toTokenInfo);
+  }
+
+  /**
+   * Revoke one of a user's tokens
+   *
+   * @throws Error if the token does not exist or belongs to someone else
+   */
+  async revoke(userId: string, tokenId: string): Promise<void> {
+    const token = await this.tokensRepo.findById(tokenId);
+    if (!token || token.userId !== userId) {
+      throw new Error('Token not found');
+    }
+
+    if (!token.revokedAt) {
+      await this.tokensRepo.update(token.id, { revokedAt: new Date() });
+    }
+  }
+
+  /**
+   * Revoke every token of a user (admin lockout)
+   *
+   * @returns Number of tokens revoked
+   */
+  async revokeAllForUser(userId: string): Promise<number> {
+    return this.tokensRepo.revokeAllForUser(userId);
+  }
+
+  /**
+   * Resolve a bearer token to the request identity
+   *
+   * The payload carries the key's scopes and never the super admin flag.
+   *
+   * @param token - Plain `vv_pat_...` token
+   * @param ipAddress - Caller IP address (recorded as last use)
+   * @throws Error 'Invalid token' if the token is unknown or revoked, 'Token expired' if expired
+   */
+  async authenticate(token: string, ipAddress?: string): Promise<AccessTokenPayload> {
+    const record = await this.tokensRepo.findByTokenHash(hashToken(token));
+    if (!record || record.revokedAt) {
+      throw new Error('Invalid token');
+    }
+    if (record.expiresAt && record.expiresAt <= new Date()) {
+      throw new Error('Token expired');
+    }
+
+    const user = await this.usersRepo.findById(record.userId);
+    if (!user) {
+      throw new Error('Invalid token');
+    }
+
+    const now = new Date();
+    if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+      await this.tokensRepo.update(record.id, { lastUsedAt: now, lastUsedIp: ipAddress ?? null });
+    }
+
+    return {
+      userId: user.id,
+      email: user.email,
+      authProvider: user.authProvider as AuthProvider,
+      personalAccessTokenId: record.id,
+      scopes: record.scopes,
+    };
+  }
+}
+
+/**
+ * Check if a token can still be used
+ */
+function isActive(token: PersonalAccessToken): boolean {
+  return !token.revokedAt && (!token.expiresAt || token.expiresAt > new Date());
+}
+
+/**
+ * Convert a token record to its public view
+ */
+function toTokenInfo(token: PersonalAccessToken): PersonalAccessTokenInfo {
+  return {
+    id: token.id,
+    name: token.name,
+    tokenPrefix: token.tokenPrefix,
+    scopes: token.scopes,
+    expiresAt: token.expiresAt?.toISOString() ?? null,
+    lastUsedAt: token.lastUsedAt?.toISOString() ?? null,
+    lastUsedIp: token.lastUsedIp,
+    revokedAt: token.revokedAt?.toISOString() ?? null,
+    createdAt: token.createdAt.toISOString(),
+  };
+}
+
+// Export singleton instance
+export const personalAccessTokenService = new PersonalAccessTokenService();
@@ -0,0 +1,146 @@
+import { db } from '../db/client';
+import { RevokedTokensRepository } from '../db/repositories/revoked-tokens.repository';
+import { AuthSessionsRepository } from '../db/repositories/auth-sessions.repository';
+import type { RevocationKind } from '../db/schema/revoked-tokens.schema';
+import { MAX_ACCESS_TOKEN_TTL_SECONDS } from '../utils/jwt';
+import type { AccessTokenPayload } from '../utils/jwt';
+
+/**
+ * Token Revocation Service
+ *
+ * Persisted denylist consulted by the auth middleware on every request, so
+ * logouts, password changes and admin lockouts take effect immediately
+ * instead of when the access token expires.
+ *
+ * Entries are kept only as long as the tokens they target can live (single
+ * tokens until their expiry, sessions and users for the longest token lifetime,
+ * impersonation included); after that those tokens are rejected by expiry anyway.
+ */
+export class TokenRevocationService {
+  private revokedTokensRepo: RevokedTokensRepository;
+  private sessionsRepo: AuthSessionsRepository;
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  constructor(revokedTokensRepo?: RevokedTokensRepository, sessionsRepo?: AuthSessionsRepository) {
+    this.revokedTokensRepo = revokedTokensRepo ?? new RevokedTokensRepository(db);
+    this.sessionsRepo = sessionsRepo ?? new AuthSessionsRepository(db);
+  }
+
+  /**
+   * Revoke a single access token
+   *
+   * @param payload - Verified payload of the token to revoke
+   * @param reason - Why the token was revoked (e.g. 'logout')
+   */
+  async revokeToken(payload: AccessTokenPayload, reason: string): Promise<void> {
+    if (!payload.jti) {
+      // Tokens issued before jti was introduced can only be revoked per session/user
+      return;
+    }
+
+    await this.addEntry('token', payload.userId, reason, {
+      jti: payload.jti,
+      expiresAt: payload.exp ? new Date(payload.exp * 1000) : undefined,
+    });
+  }
+
+  /**
+   * Revoke every access token issued for a session
+   */
+  async revokeSession(sessionId: string, userId: string, reason: string): Promise<void> {
+    await this.addEntry('session', userId, reason, { sessionId });
+  }
+
+  /**
+   * Revoke every access and refresh token of a user
+   *
+   * Used for password changes and admin lockouts. Tokens issued after this
+   * call (i.e. a fresh login) are not affected.
+   *
+   * @returns Number of refresh token sessions revoked
+   */
+  async revokeAllForUser(userId: string, reason: string): Promise<number> {
+    await this.addEntry('user', userId, reason);
+    return this.sessionsRepo.revokeAllForUser(userId);
+  }
+
+  /**
+   * Check whether a verified access token has been revoked
+   */
+  async isRevoked(payload: AccessTokenPayload): Promise<boolean> {
+    const entries = await this.revokedTokensRepo.findMatching({
+      jti: payload.jti,
+      sessionId: payload.sessionId,
+      userId: payload.userId,
+    });
+
+    return entries.some((entry) => {
+      if (entry.kind !== 'user') {
+        return true;
+      }
+      // iat has second precision: tokens issued in the same second as the
+      // revocation stay valid so an immediate re-login is not rejected
+      const revokedAtSeconds = Math.floor(entry.revokedAt.getTime() / 1000);
+      return !payload.iat || payload.iat < revokedAtSeconds;
+    });
+  }
+
+  /**
+   * Delete denylist entries that no longer match any unexpired token
+   *
+   * @returns Number of entries deleted
+   */
+  async cleanupExpired(): Promise<number> {
+    return this.revokedTokensRepo.deleteExpired(new Date());
+  }
+
+  /**
+   * Start periodic cleanup of expired entries
+   *
+   * @param intervalMs - Cleanup interval (default: 10 minutes)
+   */
+  startCleanup(intervalMs: number = 10 * 60 * 1000): void {
+    if (this.cleanupInterval) {
+      return;
+    }
+
+    this.cleanupInterval = setInterval(() => {
+      this.cleanupExpired().catch((error) => {
+        console.error('Token revocation cleanup error:', error);
+      });
+    }, intervalMs);
+    this.cleanupInterval.unref();
+  }
+
+  /**
+   * Stop periodic cleanup
+   */
+  stopCleanup(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+  }
+
+  /**
+   * Add a denylist entry that lives as long as the longest-lived token it targets
+   */
+  private async addEntry(
+    kind: RevocationKind,
+    userId: string,
+    reason: string,
+    target: { jti?: string; sessionId?: string; expiresAt?: Date } = {}
+  ): Promise<void> {
+    await this.revokedTokensRepo.create({
+      kind,
+      userId,
+      reason,
+      jti: target.jti ?? null,
+      sessionId: target.sessionId ?? null,
+      expiresAt: target.expiresAt ?? new Date(Date.now() + MAX_ACCESS_TOKEN_TTL_SECONDS * 1000),
+    });
+  }
+}
+
+// Export singleton instance
+export const tokenRevocationService = new TokenRevocationService();
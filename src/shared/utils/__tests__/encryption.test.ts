@@ -0,0 +1,40 @@
+/**
+ * Secret Encryption Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createEncryptionKey, decryptSecret, encryptSecret } from '../encryption';
+
+describe('Secret encryption', () => {
+  let consoleWarnSpy: any;
+
+  beforeEach(() => {
+    consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should round-trip secrets and reject tampered payloads', () => {
+    const payload = encryptSecret('JBSWY3DPEHPK3PXP');
+
+    expect(payload).toMatch(/^v1:/);
+    expect(decryptSecret(payload)).toBe('JBSWY3DPEHPK3PXP');
+
+    const [version, iv, authTag, ciphertext] = payload.split(':');
+    const tampered = Buffer.from(ciphertext, 'base64');
+    tampered[0] ^= 1;
+    expect(() => decryptSecret([version, iv, authTag, tampered.toString('base64')].join(':'))).toThrow();
+    expect(() => decryptSecret('v2:abc')).toThrow('Invalid encrypted payload');
+  });
+
+  it('should refuse to run without a key outside development', () => {
+    expect(() => createEncryptionKey({ NODE_ENV: 'production' })).toThrow('No encryption key configured');
+    expect(() => createEncryptionKey({ NODE_ENV: 'staging', ENCRYPTION_KEY: '' })).toThrow('No encryption key configured');
+
+    expect(createEncryptionKey({ NODE_ENV: 'production', ENCRYPTION_KEY: 'secret' })).toHaveLength(32);
+    expect(createEncryptionKey({ NODE_ENV: 'development' })).toEqual(createEncryptionKey({ NODE_ENV: 'test' }));
+    expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('No encryption key configured'));
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * JWT Signing Key Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import { JwtKeyRing, createKeyRing, generateSigningKey } from '../jwt-keys';
+import { generateToken, verifyToken, getKeyRing, setKeyRing } from '../jwt';
+
+describe('JWT signing keys', () => {
+  const claims = { userId: 'user-1', email: 'user@example.com', authProvider: 'inhouse' as const };
+  let originalKeyRing: JwtKeyRing;
+  let consoleWarnSpy: any;
+
+  /**
+   * Decode the header of a compact JWS
+   */
+  const headerOf = (token: string) => JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf8'));
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+    consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    originalKeyRing = getKeyRing();
+  });
+
+  afterEach(() => {
+    setKeyRing(originalKeyRing);
+    vi.useRealTimers();
+    consoleWarnSpy.mockRestore();
+  });
+
+  it.each(['RS256', 'EdDSA'] as const)('should sign and verify %s tokens naming their key', (alg) => {
+    setKeyRing(new JwtKeyRing([generateSigningKey(alg, `key-${alg}`)]));
+
+    const token = generateToken(claims);
+
+    expect(headerOf(token)).toEqual({ alg, typ: 'JWT', kid: `key-${alg}` });
+    expect(verifyToken(token)).toMatchObject({ ...claims, exp: expect.any(Number), jti: expect.any(String) });
+
+    const { keys } = getKeyRing().getJwks();
+    expect(keys).toEqual([expect.objectContaining({ kid: `key-${alg}`, alg, use: 'sig' })]);
+    expect(keys[0]).not.toHaveProperty('d'); // Public part only
+  });
+
+  it('should publish a scheduled key early and keep the old key during the overlap window', () => {
+    const current = generateSigningKey('EdDSA', 'current');
+    const next = generateSigningKey('RS256', 'next', new Date('2026-10-19T13:00:00Z'));
+    setKeyRing(new JwtKeyRing([next, current], 60 * 60));
+
+    const oldToken = generateToken(claims, 3 * 60 * 60);
+    expect(headerOf(oldToken).kid).toBe('current');
+    expect(getKeyRing().getJwks().keys.map((key) => key.kid)).toEqual(['current', 'next']);
+
+    vi.setSystemTime(new Date('2026-10-19T13:30:00Z'));
+    expect(headerOf(generateToken(claims)).kid).toBe('next');
+    expect(verifyToken(oldToken).userId).toBe('user-1');
+
+    vi.setSystemTime(new Date('2026-10-19T14:00:00Z'));
+    expect(() => verifyToken(oldToken)).toThrow('Invalid token');
+    expect(getKeyRing().getJwks().keys.map((key) => key.kid)).toEqual(['next']);
+  });
+
+  it('should reject tampered tokens, unknown keys and algorithm switches', () => {
+    setKeyRing(new JwtKeyRing([generateSigningKey('EdDSA', 'main')]));
+    const [header, payload, signature] = generateToken(claims).split('.');
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const forged = encode({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), userId: 'admin' });
+
+    expect(() => verifyToken(`${header}.${forged}.${signature}`)).toThrow('Invalid token');
+    expect(() => verifyToken(`${encode({ alg: 'none', kid: 'main' })}.${payload}.`)).toThrow('Invalid token');
+    expect(() => verifyToken(`${encode({ alg: 'HS256', kid: 'main' })}.${payload}.${signature}`)).toThrow(
+      'Invalid token'
+    );
+    expect(() => verifyToken(`${encode({ alg: 'EdDSA', kid: 'other' })}.${payload}.${signature}`)).toThrow(
+      'Invalid token'
+    );
+  });
+
+  it('should report expired tokens', () => {
+    setKeyRing(new JwtKeyRing([generateSigningKey('EdDSA', 'main')]));
+    const token = generateToken(claims, 60);
+
+    vi.setSystemTime(Date.now() + 61 * 1000);
+
+    expect(() => verifyToken(token)).toThrow('Token expired');
+  });
+
+  it('should load configured keys and refuse to run without one outside development', () => {
+    const { privateKey } = generateKeyPairSync('ed25519');
+    const pem = privateKey.export({ format: 'pem', type: 'pkcs8' }).toString();
+    const configure = (keys: object[]) => ({ NODE_ENV: 'production', JWT_SIGNING_KEYS: JSON.stringify(keys) });
+
+    const ring = createKeyRing(configure([{ kid: 'prod-1', alg: 'EdDSA', privateKey: pem }]));
+    expect(ring.getSigningKey().kid).toBe('prod-1');
+
+    expect(() => createKeyRing({ NODE_ENV: 'production' })).toThrow('No JWT signing key configured');
+    expect(() => createKeyRing(configure([{ kid: 'prod-1', alg: 'RS256', privateKey: pem }]))).toThrow(
+      'RS256 needs an rsa key'
+    );
+    expect(createKeyRing({ NODE_ENV: 'development' }).getSigningKey().alg).toBe('EdDSA');
+  });
+});
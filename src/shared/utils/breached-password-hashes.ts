@@ -0,0 +1,435 @@
+/**
+ * Breached Password Hashes
+ *
+ * Bundled subset of passwords seen in public data breaches, for offline checks.
+ * SHA-1 hashes (uppercase hex) grouped by their first 5 characters, in the
+ * same format as the Pwned Passwords range API: each prefix maps to the
+ * remaining 35 characters of every hash that starts with it. Plain-text
+ * passwords are never stored.
+ *
+ * To add entries, hash the password with SHA-1 and add the suffix under its prefix.
+ */
+export const BREACHED_PASSWORD_HASHES: Readonly<Record<string, readonly string[]>> = {
+  '00619': ['DFCEDB6C415286F4923575972C1C4AB4703'],
+  '00683': ['9D264A38B7F58E5C8130447528BF4B7AEE1'],
+  '00CAF': ['D126182E8A9E7C01BB2F0DFD00496BE724F'],
+  '00EA1': ['DA4192A2030F9AE023DE3B3143ED647BBAB'],
+  '018F4': ['D7F06CB8626E1756452581373E05AE41C56'],
+  '019DB': ['0BFD5F85951CB46E4452E9642858C004155'],
+  '01B30': ['7ACBA4F54F55AAFC33BB06BBBF6CA803E9A'],
+  '01F6C': ['861BF8C1DD06B55C19AF49328B66F754B46'],
+  '02726': ['D40F378E716981C4321D60BA3A325ED6A4C'],
+  '02E0A': ['999C50B1F88DF7A8F5A04E1B76B35EA6A88'],
+  '03FDF': ['1323C8D4770C90576CE2A1860D476DED8AB'],
+  '0405F': ['09E8CCD8CE4236BDB6B167E4426BFC41848'],
+  '043A5': ['58250409758B64F73D07D7F06B3DF654BC0'],
+  '05B53': ['0AD0FB56286FE051D5F8BE5B8453F1CD93F'],
+  '05FE7': ['461C607C33229772D402505601016A7D0EA'],
+  '06894': ['2C83F0E6994D046F7EC01B8F42BA8F317A7'],
+  '0716B': ['9029D0818CBABD7C69AA55D01C877982B54'],
+  '07565': ['02EDBA9F182D85FCFCCAF2807C682A3D27D'],
+  '08B31': ['4F0E1E2C41EC92C3735910658E5A82C6BA7'],
+  '09639': ['92090AAC2D595B32D34E8A5FCAB9FAE3151'],
+  '0A66E': ['107BB05FD282DA95EF7155E7DD65E927894'],
+  '0B156': ['215B189103C3D268F61299A854CD0B31E70'],
+  '0CE79': ['11E6479995D6C346D6F03EB723B5135309E'],
+  '0E818': ['BFA0679DF304036382AAA7667DF92CBE30E'],
+  '0EA04': ['FA80457F44E95534EC2889C208165F9AE74'],
+  '0F125': ['41AFCCE175FB34BB05A79C95B76E765488B'],
+  '10160': ['D7B5E756752ED0842987E3AD9080C8E369A'],
+  '104E0': ['3314A82F3FBC0CE1C681CFDFA2D0542E492'],
+  '10A07': ['CDB61A9A8B27B7104CF5EC97EB5FA5B4D20'],
+  '10C28': ['F9CF0668595D45C1090A7B4A2AE98EDFA58'],
+  '11594': ['787A658A5DE6A49DCCFB90C889FAD9EEEF1'],
+  '12DEA': ['96FEC20593566AB75692C9949596833ADC9'],
+  '12E92': ['93EC6B30C7FA8A0926AF42807E929C1684F'],
+  '137BE': ['F7EDC2E76A2F6B064778430B996398FCB6A'],
+  '141F8': ['7BE1330A105A87923F4EE6383BD7DE46541'],
+  '1496A': ['A696D9D35AA2C23B0F1EF3020DF7F26F869'],
+  '153FA': ['238CEC90E5A24B85A79109F91EBE68CA481'],
+  '15EAB': ['B8159C574DDB45FEA23E853E18BC599CE87'],
+  '1645E': ['E78DE0F7C73001E1A8ED1FACC25A72B6796'],
+  '17618': ['F01A3A21B911C925BCB525A1D21ABD30673'],
+  '17B9E': ['1C64588C7FA6419B4D29DC1F4426279BA01'],
+  '18C28': ['604DD31094A8D69DAE60F1BCD347F1AFC5A'],
+  '19485': ['E369C691FA8ECE1FABC8A6CEABFB5666B79'],
+  '1999E': ['4893F732BA38B948DBE8D34ED48CD54F058'],
+  '1A856': ['5A9DC72048BA03B4156BE3E569F22771F23'],
+  '1AA25': ['EAD3880825480B6C0197552D90EB5D48D23'],
+  '1C905': ['9170910835368500990479A5CF828444D34'],
+  '1C9E4': ['D0D9B5045F69AB72E9FA07AC5AB0B497260'],
+  '1CB5B': ['D5A9E45420321F44C72DA5D90D7F0432FFB'],
+  '1EE77': ['60A3190C95641442F2BE0EF7774E139FB1F'],
+  '1F3C5': ['3AE14626035383B39C207564D32D083E8FD'],
+  '1F552': ['3A8F535289B3401B29958D01B2966ED61D2'],
+  '1F8AC': ['10F23C5B5BC1167BDA84B833E5C057A77D2'],
+  '1FC85': ['4110E5532480000542834F453DE31936C2F'],
+  '20EAB': ['E5D64B0E216796E834F52D61FD0B70332FC'],
+  '21BD1': ['2DC183F740EE76F27B78EB39C8AD972A757'],
+  '22942': ['B7C5CDF7813BA3C1EA82FF3A2B406486271'],
+  '23ACE': ['7331EF30C45051DE4E683719DB7391B9980'],
+  '23F29': ['16E01209D6282F226BE9677AFFAEC44A8D6'],
+  '24851': ['0136410798C784BA702DF249756AD286BE4'],
+  '24C1F': ['4B4103E7017ECCFE8BAF33202F27FA4C197'],
+  '250E7': ['7F12A5AB6972A0895D290C4792F0A326EA8'],
+  '2539D': ['3DF1FCFA43CD1D5F5D55901F6718A10C595'],
+  '25846': ['5759831222D475216E3266E71E3567310DD'],
+  '25AFF': ['7F4B1BB747833F5175789A1998B31CA4ED4'],
+  '263D0': ['0820F9F5E0ACC0274DA747E0A9B6868145E'],
+  '26952': ['954EB652C3E797CF74B8E7B29BC9F447212'],
+  '269A0': ['3F47F0550E98664C4A542EA78A23B305A82'],
+  '26F3C': ['D230E935F8BEF3596727F75448CB446120B'],
+  '2736F': ['AB291F04E69B62D490C3C09361F5B82461A'],
+  '273A0': ['C7BD3C679BA9A6F5D99078E36E85D02B952'],
+  '275E5': ['D5F064B3DB5F71FF7A2C2B5116CF0C902D3'],
+  '27E72': ['DBA56CBC8AD7DC2FD00F42B2D369C44A02E'],
+  '2891B': ['ACEEEF1652EE698294DA0E71BA78A2A4064'],
+  '2A34F': ['2FB5C3F6EC9F8EC48867A8FF569A232F4D6'],
+  '2AA60': ['A8FF7FCD473D321E0146AFD9E26DF395147'],
+  '2C4C3': ['891E2AC6958E9810A1E49C6705784FBFA1A'],
+  '2D27B': ['62C597EC858F6E7B54E7E58525E6A95E6D8'],
+  '2E2B6': ['533A81BC15430CF65DE46DC097EEB5BA70C'],
+  '2F77A': ['250B04E7C390270402FB42033102B28B071'],
+  '2FB5E': ['13419FC89246865E7A324F476EC624E8740'],
+  '317F1': ['E761F2FAA8DA781A4762B9DCC2C5CAD209A'],
+  '320BC': ['A71FC381A4A025636043CA86E734E31CF8B'],
+  '32715': ['6AB287C6AA52C8670E13163FC1BF660ADD4'],
+  '32CA9': ['FC1A0F5B6330E3F4C8C1BBECDE9BEDB9573'],
+  '33A48': ['5CB146E1153C69B588C671AB474F2E5B800'],
+  '33BAB': ['4A16748B7FA19FDF7973571C6FD2CF6963D'],
+  '34512': ['0426285FF8B1D43653A4D078170B4761F75'],
+  '3559E': ['FC37C61A31AA9DA4F2E4ECD952192CD9DA0'],
+  '35675': ['E68F4B5AF7B995D9205AD0FC43842F16450'],
+  '360E4': ['6F15F432AF83C77017177A759ABA8A58519'],
+  '368F9': ['76940775C710AEC525FE1E349F8A1FB9A39'],
+  '37019': ['4FF6E0F93A7432E16CC9BADD9427E8B4E13'],
+  '3943C': ['34FBFC88262B0BB309A8D52CDBD765AC83C'],
+  '39DFA': ['55283318D31AFE5A3FF4A0E3253E2045E43'],
+  '3A960': ['464D36C1B8BAD183ED57EE79C0E39953CCE'],
+  '3ACD0': ['BE86DE7DCCCDBF91B20F94A68CEA535922D'],
+  '3C094': ['3CC3623065D5B8E542028316228630E311C'],
+  '3C8EC': ['4874488F6090A157B014CE3397CA8E06D4F'],
+  '3D0A3': ['6D183610080A148493D6B1CC35D7B70A2DD'],
+  '3D0F3': ['B9DDCACEC30C4008C5E030E6C13A478CB4F'],
+  '3D4F2': ['BF07DC1BE38B20CD6E46949A1071F9D0E3D'],
+  '3D920': ['9C4598BFBC38B3C096081BEE3A09697E939'],
+  '3DD63': ['5A808DDB6DD4B6731F7C409D53DD4B14DF2'],
+  '3E49C': ['3E4513E92806634F552518EA6BBAD14FA60'],
+  '3F86B': ['E8CBE1FA89A27D47B9254CD3317BCD8D4DF'],
+  '3FCFC': ['1F7F34E78A937E81171BA51DC39538DB993'],
+  '40D19': ['D8DAB1B8412E014D182B812C78C1725AE86'],
+  '40D35': ['D55F267E36711ECB6DCA59DF4036A1DD556'],
+  '41880': ['EE3438C878762E9A1A0FEC66BCC23DAC767'],
+  '420FC': ['C63481AC21FDCA8F011608A9F8731609CFA'],
+  '42331': ['37D1C510F2E55BA5CB220B864B11033F156'],
+  '425AF': ['12A0743502B322E93A015BCF868E324D56A'],
+  '435B4': ['1068E8665513A20070C033B08B9C66E4332'],
+  '44213': ['F9F4D59B557314FADCD233232EEBCAC8012'],
+  '44993': ['8CD38C82BCDDC2B534548DDBE984ADB8EFC'],
+  '46147': ['6587780AA9FA5611EA6DC3912C146A91760'],
+  '47456': ['CC868F5920BB1E358C1D5C14C320C529ACF'],
+  '47DFD': ['61B81026A5065A72623EC9430A703C9A756'],
+  '48058': ['E0C99BF7D689CE71C360699A14CE2F99774'],
+  '48EFC': ['4851E15940AF5D477D3C0CE99211A70A3BE'],
+  '49ECB': ['ACBF026DAEAF0E18C0440BCBC7F31F78751'],
+  '4B4B0': ['4529D87B5C318702BC1D7689F70B15EF4FC'],
+  '4BE30': ['D9814C6D4E9800E0D2EA9EC9FB00EFA887B'],
+  '4BFE0': ['29D971DDB359DABED0D0AB968A329ED0AB0'],
+  '4CC19': ['AAFF82F60AC4097F935AB4A06AD4F0891CC'],
+  '4CF5B': ['C59BEE9E1C44C6254B5F84E7F066BD8E5FE'],
+  '4D0FB': ['475B242228032CBDF6D53924D2538DF037B'],
+  '4D901': ['2B4A77A9524D675DAD27C3276AB5705E5E8'],
+  '4EA84': ['2C8C6304F4A418835FB6665DF10524DF1A5'],
+  '4EAAF': ['0993F35C7E5BC20CE93E6EC27065CD8E6A6'],
+  '4F26A': ['EAFDB2367620A393C973EDDBE8F8B846EBD'],
+  '5116E': ['40694AC48F654CB7B6816177E0E717237C6'],
+  '519BC': ['3F0FDA96312357E1409DE278BFF4D5F5B25'],
+  '51ABB': ['9636078DEFBF888D8457A7C76F85C8F114C'],
+  '54669': ['547A225FF20CBA8B75A4ADCA540EEF25858'],
+  '5479F': ['2FA49524ADACFF538D1CB23DF73200D0EC6'],
+  '55B5A': ['0F748D3A82DCE10B205ECB0A0D8916C66A1'],
+  '59C82': ['6FC854197CBD4D1083BCE8FC00D0761E8B3'],
+  '5A46B': ['8253D07320A14CACE9B4DCBF80F93DCEF04'],
+  '5AC17': ['33A124130C7426BAB67F540A8E7F9BF3FD9'],
+  '5BAA6': ['1E4C9B93F3F0682250B6CF8331B7EE68FD8'],
+  '5BC18': ['24930FFBBAFC27E7EB204260A4017859A35'],
+  '5BDCD': ['3C0D4D24AE3E71B3B452A024C6324C7E4BB'],
+  '5C17F': ['A03E6D5FC247565E1CD8FFA70E1BFE5B8D9'],
+  '5C6D9': ['EDC3A951CDA763F650235CFC41A3FC23FE8'],
+  '5C968': ['8A59F3FCBFDBFEEA06378A76AF06A09AA95'],
+  '5C995': ['BBB81B028B869EE4EA7C44BB1A9EA6152BC'],
+  '5CEC1': ['75B165E3D5E62C9E13CE848EF6FEAC81BFF'],
+  '5D70C': ['3D101EFD9CC0A69F4DF2DDF33B21E641F6A'],
+  '5D74A': ['E093A16A00E5AF127763F2DC7E13988F162'],
+  '5F079': ['981221CE504832142E9526B623BBFB6E686'],
+  '5F50A': ['84C1FA3BCFF146405017F36AEC1A10A9E38'],
+  '5F802': ['11CCB43CD491C4E2FFBBDA4C7F6BA0FF604'],
+  '5FA33': ['9BBBB1EEACED3B52E54F44576AAF0D77D96'],
+  '601F1': ['889667EFAEBB33B8C12572835DA3F027F78'],
+  '6092A': ['032351D76D6AACE89D4467BAC17E09B52CE'],
+  '6157A': ['04ED2C5842835DB1E0D4CFD6F83147170EA'],
+  '6184D': ['6847D594EC75C4C07514D4BB490D5E166DF'],
+  '624C2': ['2A8C8F8C93F18FE5ECD4713100C8D754507'],
+  '62A56': ['A64C1489FBE3BAD6983401EF58E0CC26B41'],
+  '62B48': ['7BC84825B3DF028A932F082526E195EEFF2'],
+  '6367C': ['48DD193D56EA7B0BAAD25B19455E529F5EE'],
+  '6393B': ['CDFE36C140E8877CFAEF37733531AB7FAB4'],
+  '63D0B': ['29482ACE44D05CEF9B17D913D092ED8022A'],
+  '640FB': ['06193D8F2177C0FBF84F172DC686D33DD00'],
+  '64356': ['BCFAE350C970263C1CE575185B289F7B836'],
+  '64438': ['EE426438161DA88554B3E2DE796B0CA265E'],
+  '65966': ['8A0B3E0AB8690A9F38B9454DA0E40A5BFFC'],
+  '65B3D': ['D225FE19C6A9EC4383161EA00FE0F161157'],
+  '675DC': ['611BAFB0B7348DD3BAF7E005B6916FB954D'],
+  '689CD': ['1CD19BFC2EAA606599AA8A2606A0EA3DF25'],
+  '691AB': ['698A43FD6443F845CCD2B7F8F1607A14AEE'],
+  '6ADFB': ['183A4A2C94A2F92DAB5ADE762A47889A5A1'],
+  '6AEAB': ['6E5D37CC0937ACEC6D223A1DE24FE6469AA'],
+  '6AF2B': ['B477DBF550D2B729D25C5E664DF709CC6E9'],
+  '6C558': ['03D6F1D7A177A0DB3EB4B343B0D50F9C111'],
+  '6C616': ['F7C2D2FDE9018A09F06EAEFCFC7582BC7BA'],
+  '6C7CA': ['345F63F835CB353FF15BD6C5E052EC08E7A'],
+  '6E1A4': ['38CFE5A6C9E2165665F8C2258849CCC43F0'],
+  '6E2F9': ['E6111E77EDD0C446EA7A84E25323D137A61'],
+  '6EA16': ['4759ADCCDF0B63C3E6A8A52792691F4C37B'],
+  '6EEAF': ['AEF013319822A1F30407A5353F778B59790'],
+  '701B3': ['89B848A2B1CFAB867093101D8D5AC56ADDD'],
+  '70352': ['F41061EDA4FF3C322094AF068BA70C3B38B'],
+  '7073D': ['0FAB1EA36CD0C0F1F603A2A5E44B931B31C'],
+  '70CCD': ['9007338D6D81DD3B6271621B9CF9A97EA00'],
+  '7110E': ['DA4D09E062AA5E4A390B0A572AC0D2C0220'],
+  '71486': ['86369B144C8E4147A0C9BA3E45FECEFD6B3'],
+  '71985': ['5E8F4EBD94341277B0B0D50B75C5187133F'],
+  '7212A': ['9E01329EA93A57F574BD9BF77695D5FDCA4'],
+  '721D6': ['5122734734800A1EDD6E68C03210E7B2ACA'],
+  '7346A': ['84E2A9CF8C909C453E35B72866CD5237DEE'],
+  '74A87': ['1ACBF060DDA5FC7260D05A5924A34E4C0E7'],
+  '7505D': ['64A54E061B7ACD54CCD58B49DC43500B635'],
+  '75A0A': ['1C981FEA69A013811B3091B66D8E1457FC6'],
+  '775BB': ['961B81DA1CA49217A48E533C832C337154A'],
+  '77BCE': ['9FB18F977EA576BBCD143B2B521073F0CD6'],
+  '789B4': ['9606C321C8CF228D17942608EFF0CCC4171'],
+  '79B33': ['3C96EC99512A3BF72653B23C7ED8A52DC42'],
+  '7AB51': ['5D12BD2CF431745511AC4EE13FED15AB578'],
+  '7AFAA': ['0A74C41394C7122FE61723DDC365F322A55'],
+  '7B218': ['48AC9AF35BE0DDB2D6B9FC3851934DB8420'],
+  '7B902': ['E6FF1DB9F560443F2048974FD7D386975B0'],
+  '7C222': ['FB2927D828AF22F592134E8932480637C0D'],
+  '7C360': ['7B8E61BCF1944E9E8503A660F21F4B6F3F1'],
+  '7C4A8': ['D09CA3762AF61E59520943DC26494F8941B'],
+  '7C6A6': ['1C68EF8B9B6B061B28C348BC1ED7921CB53'],
+  '7CC91': ['8F959308C71F292F9308E7A748ADF4D1434'],
+  '7CE03': ['59F12857F2A90C7DE465F40A95F01CB5DA9'],
+  '7CF7E': ['DDB174125539DD241CD745391694250E526'],
+  '7D8F4': ['B4B4613DC7E15333E6449692AD4AF502D1D'],
+  '7EA35': ['D812706D9213868749011AF1ED4FA2F6AA0'],
+  '7ECFD': ['8F97B4729C6FF0799B0B4D40F870083B461'],
+  '7F2BE': ['99D71F38FEEF79D926C8F8FFA7A41C7D7DC'],
+  '81941': ['ADD3E463581722BAC84D02282CAFB1C32C2'],
+  '82E19': ['FA12AAB7CFC718A002FC82C0F074BF070E7'],
+  '85136': ['C79CBF9FE36BB9D05D0639C70C265C18D37'],
+  '863DA': ['E13577340B98C4C247F4A05B204A3543248'],
+  '889C6': ['853A117ACA83EF9D6523335DC065213AE86'],
+  '88EA3': ['9439E74FA27C09A4FC0BC8EBE6D00978392'],
+  '88FDD': ['585121A4CCB3D1540527AEE53A77C77ABB8'],
+  '89E49': ['5E7941CF9E40E6980D14A16BF023CCD4C91'],
+  '89E89': ['C17F877CA2821B557F633CEC3253B0AA941'],
+  '8A6B3': ['C5E6BA4DA6EBFDF08B068CA74F7D99ED161'],
+  '8CB22': ['37D0679CA88DB6464EAC60DA96345513964'],
+  '8D500': ['4C9C74259AB775F63F7131DA077814A7636'],
+  '8D56E': ['924F958FA08E2F737FAFC319A1863F950F8'],
+  '8D6E3': ['4F987851AA599257D3831A1AF040886842F'],
+  '8F217': ['4C83B060AD8A652B5070A46CF2CC46314F0'],
+  '90093': ['37CF16333F07109B593405CF7552ED8059A'],
+  '91DFD': ['9DDB4198AFFC5C194CD8CE6D338FDE470E2'],
+  '92119': ['E2C63E9366ACFEFE818B50537A85577E2DB'],
+  '929D3': ['BA22D02B494DD0971784A3700C3DBF1D89F'],
+  '93EC7': ['1B22793A81569C94CA17E4D9C293D8E201F'],
+  '947C8': ['44D900B26A575AEAF8EF37C3851E8BE474B'],
+  '95C94': ['6BF622EF93B0A211CD0FD028DFDFCF7E39E'],
+  '9653A': ['F05F246108D5724E5DA6F5ED0E89FC69C02'],
+  '96DE5': ['543D183D7DE52AC5FA21C46FC811F673F89'],
+  '9752F': ['B540F7084FF266A7A6439FE883C380CF49F'],
+  '97627': ['2B40FB37F813D4A0104C7C8310FA8D0E85F'],
+  '97BBC': ['79679FE1CFD9AFB52FD6F01D033B479555D'],
+  '99996': ['B911567C83CCE17CDF194F314975C57DDF1'],
+  '9AC20': ['922B054316BE23842A5BCA7D69F29F69D77'],
+  '9AC68': ['ACE0B2DC0E38B8035F151DE8E4C26B6875F'],
+  '9AEC9': ['E08F079BBDA8092FC7FF3563DA6C0D64E05'],
+  '9B8C0': ['2FED3901E82728D18F32BB0369743B22C35'],
+  '9BC34': ['549D565D9505B287DE0CD20AC77BE1D3F2C'],
+  '9C881': ['BDB6BC930D18797D72D07BB9E01EEB40D8B'],
+  '9CD65': ['6169600157EC17231DCF0613C94932EFCDC'],
+  '9D4E1': ['E23BD5B727046A9E3B4B7DB57BD8D6EE684'],
+  '9DC72': ['26A87062ACBF9F614CDC26FCC847A47D3DB'],
+  '9EBE6': ['E701804599DF1BA6016A4B8329BD1BBF9F5'],
+  '9EC42': ['36A09D01395A838F2E774923B4E8548FD19'],
+  '9F2FE': ['B0F1EF425B292F2F94BC8482494DF430413'],
+  '9FD8D': ['E5FC2A7C2C0D469B2FFF1AFDE4E5DEF37BA'],
+  'A0847': ['543CDE93421D289F9CA3F9372A660844CED'],
+  'A0C84': ['9D62D67126BB39974573611F1CDF03FBCA4'],
+  'A1037': ['F14CEBC6BD318916F54CBE00D3EA2A197C1'],
+  'A159B': ['7AE81BA3552AF61E9731B20870515944538'],
+  'A1FCF': ['C7B9B3B43157898418DD648A00CC91A3F3F'],
+  'A29C5': ['7C6894DEE6E8251510D58C07078EE3F49BF'],
+  'A2C90': ['1C8C6DEA98958C219F6F2D038C44DC5D362'],
+  'A36E1': ['F2D2C1309E9F4CD2D6D2EF75D01DD4FD21C'],
+  'A5C29': ['7C15E40AC3881DB51277613AEA3731B673A'],
+  'A642A': ['77ABD7D4F51BF9226CEAF891FCBB5B299B8'],
+  'A6F37': ['5A196CD4C89C41DBB4500553EBF3BAB0A41'],
+  'A7759': ['1BE2044AFCD45B50ACDFCE3A585CAAE257C'],
+  'A7D57': ['9BA76398070EAE654C30FF153A4C273272A'],
+  'A94A8': ['FE5CCB19BA61C4C0873D391E987982FBBD3'],
+  'AAF4C': ['61DDCC5E8A2DABEDE0F3B482CD9AEA9434D'],
+  'AAFDC': ['23870ECBCD3D557B6423A8982134E17927E'],
+  'AB87D': ['24BDC7452E55738DEB5F868E1F16DEA5ACE'],
+  'ABCCF': ['54B832D256110CD9DB45C5391DA9AB6AB33'],
+  'AC137': ['C6AE0947718332991E7CB2F50EB20B62AAA'],
+  'ACFED': ['49CA19DC0BB33B2A8BF56D57AAC905922B0'],
+  'AD70A': ['B97AE1376E656002641CFB067C9C94906A2'],
+  'AEBC3': ['EBEE2F0C8B08B43D26C2B0055B19CAEAF4A'],
+  'AF897': ['8B1797B72ACFFF9595A5A2A373EC3D9106D'],
+  'AFAED': ['75406BD414820CEA4A5119F90C259C05755'],
+  'B0399': ['D2029F64D445BD131FFAA399A42D2F8E7DC'],
+  'B03B7': ['4363BBB6EE42CE248C7A5344E92FFE76CC7'],
+  'B0983': ['3CEC69EFF1BB667940A45E311262E85A422'],
+  'B1285': ['D4B43914CC9980FF65D3F54031D0F908E72'],
+  'B14AB': ['480028768CB748FD97DE56144A304EB8A1A'],
+  'B1B37': ['73A05C0ED0176787A4F1574FF0075F7521E'],
+  'B1F45': ['ED147D6803AC1A2A91BDEA1FAB603F910A5'],
+  'B22AD': ['110FFC6F4B739E37C878E0FFCBB45F5B7E6'],
+  'B24C3': ['A95AEF4ABCA5DE6D94A3F152718A6DB0501'],
+  'B2EE6': ['0370AD57D9BC3877E9024C507AB99303A64'],
+  'B363C': ['6EF45640A79DDC7BBC826A87E02734D88F0'],
+  'B3ACA': ['92C793EE0E9B1A9B0A5F5FC044E05140DF3'],
+  'B63EA': ['448C76CC939D8E0672DB09D076D1361A6D3'],
+  'B6A34': ['A9F8B81A6964FF5B983BCC739FF2EFB569F'],
+  'B6B17': ['47A356D59A84C332863B4A877274951227B'],
+  'B74DF': ['8452BE95E3BCF8744CCF8C237BC2915F7AB'],
+  'B7803': ['4AACF3559FFFBFCB545D9A9122EFB93181F'],
+  'B7A87': ['5FC1EA228B9061041B7CEC4BD3C52AB3CE3'],
+  'B7C40': ['B9C66BC88D38A59E554C639D743E77F1B65'],
+  'B80A9': ['AED8AF17118E51D4D0C2D7872AE26E2109E'],
+  'B8468': ['9B769AB3D929F7CC14EE35E77C4AE6427C8'],
+  'B9864': ['15C93241513D33D01FCF532A6C47AC4F3EE'],
+  'BA5D8': ['027D4FBAF0E92582959DECFE1A2E20FD300'],
+  'BA856': ['797A6ED7651C7E6965EFEEAD66CB632F0A5'],
+  'BA9AD': ['B7296FDC28911356E3875BF4129AACBC36D'],
+  'BADCF': ['A3C62742B3BCC1DCD893E78713BD36AA430'],
+  'BCD59': ['17B85289CF889711720CE741F75C47ADD13'],
+  'BD5E5': ['EB049F3907175F54F5A571BA6B9FDEA36AB'],
+  'BF2F7': ['49E80C970F50552E9D5F3E8434E78B88D35'],
+  'BFE54': ['CAA6D483CC3887DCE9D1B8EB91408F1EA7A'],
+  'C0B13': ['7FE2D792459F26FF763CCE44574A5B5AB03'],
+  'C129B': ['324AEE662B04ECCF68BABBA85851346DFF9'],
+  'C2577': ['430D91716490DC5D33C20D901E008B696E7'],
+  'C3140': ['5B16FBB48ADB41B8F6505E788FCB13EBD91'],
+  'C33F0': ['59B0CA7725FBFD6C9EA4F2F012CC7AC5A74'],
+  'C3ACA': ['791CFD786A1CE524D59BBEAE4A3D1F0C98B'],
+  'C5325': ['5317BB11707D0F614696B3CE6F221D0E2F2'],
+  'C5391': ['53BA1F947BD4B6F910263B967C4A0A62357'],
+  'C590A': ['FA9BB59191FFAB30F223791E82D3FD3E3AF'],
+  'C6026': ['6A8ADAD2F8EE67D793B4FD3FD0FFD73CC61'],
+  'C6922': ['B6BA9E0939583F973BC1682493351AD4FE8'],
+  'C75C6': ['ABEBD904A02E62CFE65E0A82DD55414A217'],
+  'C824F': ['E0AFE16857DD6F587AA7C4044D2642D60FB'],
+  'C9525': ['9DE1FD719814DAEF8F1DC4BD64F9D885FF0'],
+  'C984A': ['ED014AEC7623A54F0591DA07A85FD4B762D'],
+  'CAAEF': ['8F22C9F5A76ED2685697893DA5561EE3458'],
+  'CAE35': ['5B615B61313E7A2D42D0C650F705DC3D94E'],
+  'CBB73': ['53E6D953EF360BAF960C122346276C6E320'],
+  'CBDBE': ['4936CE8BE63184D9F2E13FC249234371B9A'],
+  'CBF25': ['10A5F9F7EECE23428DA7125C06115839E2B'],
+  'CBFDA': ['C6008F9CAB4083784CBD1874F76618D2A97'],
+  'CDF54': ['7ED4C64E6994AF35CFCD69C4204C9227A97'],
+  'CEDF4': ['1FCCB586DC39E1CE34BB482F0AFE557B49F'],
+  'CEF7E': ['59218E3A7E18AAF7FAA4A23BCD964323A66'],
+  'D033E': ['22AE348AEB5660FC2140AEC35850C4DA997'],
+  'D04C1': ['675B232C6ECE69ED95E189E95D589F217B0'],
+  'D052F': ['85FA58FB0497AD4BB7F2D069DD486C4A9AA'],
+  'D0A65': ['436A81128B4FAC0F27A75B9A15CFD6F07C9'],
+  'D111B': ['38C0E73BC867C4BAD4023606A0E0DF64C2F'],
+  'D1314': ['9DE00848EB013CAD318D27829DB64B965D7'],
+  'D164B': ['39E9EC43F65376629DA9CCF41780775F656'],
+  'D186E': ['8DAC48A24D0115B568D0AB2C9E8B82E6ADB'],
+  'D27F4': ['469BE6EADFDE078A1E371C9D67D3F7512C7'],
+  'D2BF0': ['2E60ED38AF96751C5A78A8FFBE32F4598F9'],
+  'D4F55': ['DEC8C7BC9675182779E564FAE1327D30F9B'],
+  'D5365': ['2DE63B26F2B99ABFC5699FAC10F3F95E1F7'],
+  'D6CFE': ['5E76C8347BC803168FE861F69FCC69CC79C'],
+  'D7316': ['A3074D562269CF4302E4EED46369B523687'],
+  'D7683': ['E52AF93B105A44FCEF5BD668A77FAFD49F9'],
+  'D7966': ['074B3D619B43EE1C6296AE5332C48D6CB1C'],
+  'D869D': ['B7FE62FB07C25A0403ECAEA55031744B5FB'],
+  'D8CD1': ['0B920DCBDB5163CA0185E402357BC27C265'],
+  'D9698': ['31EB8A99CFF8C02E681F43289E5D3D69664'],
+  'D9C69': ['1D27B3766353BA245739E91737B922AD20A'],
+  'DB25F': ['2FC14CD2D2B1E7AF307241F548FB03C312A'],
+  'DB552': ['52FA72EF9C5EDFA9E796318D9EB7B66AEF4'],
+  'DBE5A': ['7307C94BE9FE3BA371A939C924FD2039830'],
+  'DC76E': ['9F0C0006E8F919E0C515C66DBBA3982F785'],
+  'DCDC8': ['B2D0A7955131B67E56602873F6384102669'],
+  'DD08B': ['58E1D30DAD48D37A35A8760CFFE8D756CFA'],
+  'DD5FE': ['F9C1C1DA1394D6D34B248C51BE2AD740840'],
+  'DDF45': ['997A7E18A25AD5F5CF222DA64814DD060D5'],
+  'DE346': ['0832EA070EFFABBC7032D7594BBDE1BB120'],
+  'DE4AB': ['6E26DB462B930510BA83E9F80B7DB2BEF88'],
+  'DE61F': ['824AB25050E5870F29E6E064B4B702BA1E4'],
+  'DEA74': ['2E166979027AE70B28E0A9006FB1010E760'],
+  'DF298': ['3700FFECB52E6649F0CB3981B66537083A4'],
+  'E07F8': ['C4AB682212744526982F0F08D336E1C9041'],
+  'E0C95': ['748A455C27A80FD289269120D4944D1F318'],
+  'E101F': ['D352E2D56EC1FDDEECB5164592CC49F3ABD'],
+  'E2869': ['77B13F1A89E20D0459207545D15FE1EBA08'],
+  'E35BE': ['CE6C5E6E0E86CA51D0440E92282A9D6AC8A'],
+  'E38AD': ['214943DAAD1D64C102FAEC29DE4AFE9DA3D'],
+  'E3CD9': ['F6469FC3E1ACFB9F2BDBFC5A3D2BBB8E2AD'],
+  'E5E9F': ['A1BA31ECD1AE84F75CAAA474F3A663F05F4'],
+  'E6852': ['777C0260493DE41FB43918AB07BBB3A659C'],
+  'E68E1': ['1BE8B70E435C65AEF8BA9798FF7775C361E'],
+  'E727D': ['1464AE12436E899A726DA5B2F11D8381B26'],
+  'E7D53': ['7E128158790157EA057BB883E0292A84930'],
+  'E8072': ['1793C24AE14EDFCA9B26AD406A9815CD3FF'],
+  'E8126': ['C64C3486E84081FFFAD6A0AB22D4267BB41'],
+  'E8248': ['CBE79A288FFEC75D7300AD2E07172F487F6'],
+  'EBE53': ['C61982711F13AF8BBC09844E4E2849268BA'],
+  'EBFC7': ['910077770C8340F63CD2DCA2AC1F120444F'],
+  'EC461': ['B5480380ECF863D9802EDBE70152AEE1C46'],
+  'EC5A7': ['C3E21436A8E76716710CE551356F9AA745E'],
+  'ED1B1': ['BB9F421F924E86607A9ECAF35DF4CD9C63F'],
+  'ED9D3': ['D832AF899035363A69FD53CD3BE8F71501C'],
+  'EE8D8': ['728F435FD550F83852AABAB5234CE1DA528'],
+  'EF0EB': ['BB77298E1FBD81F756A4EFC35B977C93DAE'],
+  'EF842': ['0D70DD7676E04BEA55F405FA39B022A90C8'],
+  'EF971': ['EE38BBA25D9AC8A840D235457A038448B09'],
+  'EFEBD': ['FC78EA1935C4B926324522B452B766FBC76'],
+  'F08A7': ['A19E6F47E1125C9AEE2336C6759C7798FE4'],
+  'F0D61': ['723FDF7301391BEA5FFF1EF28FA3C7D0EEA'],
+  'F11EA': ['658082349955674A565FE658AD5BEDFB328'],
+  'F2847': ['B1BD9624F927E979C1846D9FE17DD65F518'],
+  'F2A12': ['F187EBB7080BD75AAC9160214E6B1E49F7D'],
+  'F2B14': ['F68EB995FACB3A1C35287B778D5BD785511'],
+  'F2C57': ['870308DC87F432E5912D4DE6F8E322721BA'],
+  'F3215': ['7A45887E4FE5ADC0B5198F7EC4920A526D7'],
+  'F3BBB': ['D66A63D4BF1747940578EC3D0103530E21D'],
+  'F4542': ['DB9BA30F7958AE42C113DD87AD21FB2EDDB'],
+  'F4EE7': ['415066B23ED0C5555E3A10AA76726A995D7'],
+  'F58CF': ['5E7E10F195E21B553096D092C763ED18B0E'],
+  'F6864': ['5221826C81725254F520A1241E273CCCD60'],
+  'F732D': ['FDBD0AED62727F958CCCCA9EC3A5CB13EDA'],
+  'F7A9E': ['24777EC23212C54D7A350BC5BEA5477FDBB'],
+  'F7C3B': ['C1D808E04732ADF679965CCC34CA7AE3441'],
+  'F80D0': ['CA101E967B50B730DDF8E8ACA0DE85E8DF6'],
+  'F8248': ['E12727710C946F73D8F6E02EB93530DD9DE'],
+  'F865B': ['53623B121FD34EE5426C792E5C33AF8C227'],
+  'F872C': ['AAD177D67BBE18C119D0505F2D3CAA02AF3'],
+  'F872D': ['FF066FDAED1B9002EEC00980AACBA4DE4B7'],
+  'F8A48': ['E5BA1072379DAFE561AC15D1A90C0690985'],
+  'F8C1D': ['87006FBF7E5CC4B026C3138BC046883DC71'],
+  'FA9BE': ['B99E4029AD5A6615399E7BBAE21356086B3'],
+  'FAC67': ['3092FBDCAB2CD92EFC19675F2750ED97CA1'],
+  'FC84A': ['AA687374AED41957693F32664E5F4981862'],
+  'FD68D': ['303E5C01C188D5518526CEE844721646A36'],
+  'FDB87': ['DFD199045AF7165780B11640B83768A0D57'],
+  'FECEF': ['2D1B4E48B43FD1C3A12F995B56591AABEF6'],
+};
@@ -0,0 +1,19 @@
+import { createHash } from 'crypto';
+import { BREACHED_PASSWORD_HASHES } from './breached-password-hashes';
+
+/**
+ * Check a password against the bundled breached-password list
+ *
+ * k-anonymity style lookup: the password's SHA-1 hash is split into a
+ * 5-character prefix, which selects a bucket, and a suffix searched in it.
+ * Runs entirely offline.
+ *
+ * @param password - Plain text password
+ * @returns True if the password is known to be breached
+ */
+export function isBreachedPassword(password: string): boolean {
+  const hash = createHash('sha1').update(password).digest('hex').toUpperCase();
+  const bucket = BREACHED_PASSWORD_HASHES[hash.slice(0, 5)];
+
+  return bucket?.includes(hash.slice(5)) ?? false;
+}
@@ -0,0 +1,99 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+/**
+ * Environments that may run with the built-in development secret
+ */
+const DEVELOPMENT_KEY_ENVIRONMENTS = ['development', 'test'];
+
+/**
+ * Secret used when ENCRYPTION_KEY is not set in development and tests
+ */
+const DEVELOPMENT_ENCRYPTION_KEY = 'development-encryption-key-change-in-production';
+
+/**
+ * Encryption key, derived on first use (or by initializeEncryptionKey at startup)
+ */
+let key: Buffer | null = null;
+
+/**
+ * Derive the encryption key from the configuration
+ *
+ * Outside development and tests ENCRYPTION_KEY is required; there, a built-in
+ * development secret is used instead.
+ *
+ * @throws Error if ENCRYPTION_KEY is not set outside development
+ */
+export function createEncryptionKey(env: NodeJS.ProcessEnv = process.env): Buffer {
+  let secret = env.ENCRYPTION_KEY;
+  if (!secret) {
+    const environment = env.NODE_ENV || 'development';
+    if (!DEVELOPMENT_KEY_ENVIRONMENTS.includes(environment)) {
+      throw new Error(`No encryption key configured. Set ENCRYPTION_KEY (NODE_ENV=${environment})`);
+    }
+
+    console.warn('⚠️  No encryption key configured; using the development key');
+    secret = DEVELOPMENT_ENCRYPTION_KEY;
+  }
+
+  // AES-256 needs a 32-byte key: derive it from the configured secret
+  return createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Load the encryption key
+ *
+ * Called at startup so a missing key stops the server instead of failing
+ * the first MFA enrolment.
+ *
+ * @throws Error if ENCRYPTION_KEY is not set outside development
+ */
+export function initializeEncryptionKey(): void {
+  getKey();
+}
+
+/**
+ * Get the encryption key
+ */
+function getKey(): Buffer {
+  if (!key) {
+    key = createEncryptionKey();
+  }
+  return key;
+}
+
+/**
+ * Encrypt a secret for storage (AES-256-GCM)
+ *
+ * @param plaintext - Value to encrypt
+ * @returns Versioned payload: v1:<iv>:<auth tag>:<ciphertext> (base64)
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return ['v1', iv.toString('base64'), authTag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+/**
+ * Decrypt a secret encrypted with encryptSecret
+ *
+ * @param payload - Encrypted payload
+ * @returns Plaintext
+ * @throws Error if the payload is malformed or was tampered with
+ */
+export function decryptSecret(payload: string): string {
+  const [version, iv, authTag, ciphertext] = payload.split(':');
+  if (version !== 'v1' || !iv || !authTag || !ciphertext) {
+    throw new Error('Invalid encrypted payload');
+  }
+
+  const decipher = createDecipheriv('aes-256-gcm', getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
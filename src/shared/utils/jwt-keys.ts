@@ -0,0 +1,205 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync, randomUUID, type JsonWebKey, type KeyObject } from 'crypto';
+import { readFileSync } from 'fs';
+
+/**
+ * Signature algorithms for our tokens
+ */
+export type JwtSigningAlgorithm = 'RS256' | 'EdDSA';
+
+/**
+ * Signing key as configured in JWT_SIGNING_KEYS (or the JWT_SIGNING_KEYS_FILE JSON file)
+ */
+export interface SigningKeyConfig {
+  kid: string;
+  alg: JwtSigningAlgorithm;
+  privateKey: string; // PEM (PKCS#8 or PKCS#1 for RSA)
+  activeFrom?: string; // ISO date the key starts signing (default: immediately)
+}
+
+/**
+ * Loaded signing key
+ */
+export interface SigningKey {
+  kid: string;
+  alg: JwtSigningAlgorithm;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  activeFrom: Date;
+}
+
+/**
+ * Environments that may run with a generated, in-memory signing key
+ */
+const EPHEMERAL_KEY_ENVIRONMENTS = ['development', 'test'];
+
+/**
+ * How long a replaced key still verifies tokens (default: 1 hour, longer than any token we issue)
+ */
+const KEY_OVERLAP_SECONDS = Number(process.env.JWT_KEY_OVERLAP_SECONDS) || 60 * 60;
+
+/**
+ * Key type node:crypto reports for each algorithm
+ */
+const KEY_TYPES: Record<JwtSigningAlgorithm, string> = {
+  RS256: 'rsa',
+  EdDSA: 'ed25519',
+};
+
+/**
+ * JWT Key Ring
+ *
+ * Signing keys identified by `kid`, with scheduled rotation:
+ * - The newest key whose `activeFrom` has passed signs new tokens
+ * - Scheduled keys are published in the JWKS before they start signing, so verifiers can cache them
+ * - A replaced key keeps verifying (and stays published) for an overlap window, then retires
+ */
+export class JwtKeyRing {
+  private keys: SigningKey[];
+
+  /**
+   * @param keys - Signing keys (at least one)
+   * @param overlapSeconds - How long a replaced key still verifies tokens
+   */
+  constructor(keys: SigningKey[], private overlapSeconds: number = KEY_OVERLAP_SECONDS) {
+    if (keys.length === 0) {
+      throw new Error('At least one JWT signing key is required');
+    }
+    if (new Set(keys.map((key) => key.kid)).size !== keys.length) {
+      throw new Error('JWT signing key IDs (kid) must be unique');
+    }
+
+    // Oldest first
+    this.keys = [...keys].sort((a, b) => a.activeFrom.getTime() - b.activeFrom.getTime());
+  }
+
+  /**
+   * Get the key that signs new tokens
+   *
+   * @throws Error if no key is active yet
+   */
+  getSigningKey(now: Date = new Date()): SigningKey {
+    const active = this.keys.filter((key) => key.activeFrom <= now);
+    if (active.length === 0) {
+      throw new Error('No JWT signing key is active yet');
+    }
+
+    return active[active.length - 1];
+  }
+
+  /**
+   * Get the key that verifies a token with the given key ID
+   *
+   * @returns Key, or undefined if it is unknown or retired
+   */
+  getVerificationKey(kid: string, now: Date = new Date()): SigningKey | undefined {
+    return this.getPublishedKeys(now).find((key) => key.kid === kid);
+  }
+
+  /**
+   * Public keys as a JSON Web Key Set (current, scheduled and overlapping keys)
+   */
+  getJwks(now: Date = new Date()): { keys: JsonWebKey[] } {
+    return {
+      keys: this.getPublishedKeys(now).map((key) => ({
+        ...key.publicKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.alg,
+        use: 'sig',
+      })),
+    };
+  }
+
+  /**
+   * Keys that are not retired: a key retires once the next key has been signing for the overlap window
+   */
+  private getPublishedKeys(now: Date): SigningKey[] {
+    return this.keys.filter((key, index) => {
+      const next = this.keys[index + 1];
+      return !next || now.getTime() < next.activeFrom.getTime() + this.overlapSeconds * 1000;
+    });
+  }
+}
+
+/**
+ * Load signing keys from JWT_SIGNING_KEYS (JSON array) or JWT_SIGNING_KEYS_FILE (path to the same JSON)
+ *
+ * @returns Keys, or an empty array if none are configured
+ * @throws Error if the configuration is malformed
+ */
+export function loadSigningKeys(env: NodeJS.ProcessEnv = process.env): SigningKey[] {
+  const json = env.JWT_SIGNING_KEYS || (env.JWT_SIGNING_KEYS_FILE && readFileSync(env.JWT_SIGNING_KEYS_FILE, 'utf8'));
+  if (!json) {
+    return [];
+  }
+
+  let configs: SigningKeyConfig[];
+  try {
+    configs = JSON.parse(json);
+  } catch {
+    throw new Error('JWT_SIGNING_KEYS must be a JSON array of {kid, alg, privateKey, activeFrom?}');
+  }
+  if (!Array.isArray(configs)) {
+    throw new Error('JWT_SIGNING_KEYS must be a JSON array of {kid, alg, privateKey, activeFrom?}');
+  }
+
+  return configs.map(toSigningKey);
+}
+
+/**
+ * Create the key ring from the configuration
+ *
+ * Outside development and tests a configured key is required; there, a
+ * generated in-memory Ed25519 key is used instead (tokens do not survive restarts).
+ *
+ * @throws Error if no key is configured outside development, or the configuration is malformed
+ */
+export function createKeyRing(env: NodeJS.ProcessEnv = process.env): JwtKeyRing {
+  const keys = loadSigningKeys(env);
+  if (keys.length > 0) {
+    return new JwtKeyRing(keys);
+  }
+
+  const environment = env.NODE_ENV || 'development';
+  if (!EPHEMERAL_KEY_ENVIRONMENTS.includes(environment)) {
+    throw new Error(`No JWT signing key configured. Set JWT_SIGNING_KEYS or JWT_SIGNING_KEYS_FILE (NODE_ENV=${environment})`);
+  }
+
+  console.warn('⚠️  No JWT signing key configured; using a generated key (tokens are invalidated on restart)');
+  return new JwtKeyRing([generateSigningKey('EdDSA', `dev-${randomUUID()}`)]);
+}
+
+/**
+ * Generate a new signing key (development, tests)
+ */
+export function generateSigningKey(alg: JwtSigningAlgorithm, kid: string, activeFrom: Date = new Date(0)): SigningKey {
+  const { privateKey, publicKey } =
+    alg === 'RS256'
+      ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : generateKeyPairSync('ed25519');
+
+  return { kid, alg, privateKey, publicKey, activeFrom };
+}
+
+/**
+ * Parse and check one configured key
+ */
+function toSigningKey(config: SigningKeyConfig): SigningKey {
+  if (!config?.kid || !config.privateKey) {
+    throw new Error('Every JWT signing key needs a kid and a privateKey');
+  }
+  if (config.alg !== 'RS256' && config.alg !== 'EdDSA') {
+    throw new Error(`JWT signing key ${config.kid}: alg must be RS256 or EdDSA`);
+  }
+
+  const privateKey = createPrivateKey(config.privateKey);
+  if (privateKey.asymmetricKeyType !== KEY_TYPES[config.alg]) {
+    throw new Error(`JWT signing key ${config.kid}: ${config.alg} needs an ${KEY_TYPES[config.alg]} key`);
+  }
+
+  const activeFrom = config.activeFrom ? new Date(config.activeFrom) : new Date(0);
+  if (Number.isNaN(activeFrom.getTime())) {
+    throw new Error(`JWT signing key ${config.kid}: activeFrom must be an ISO date`);
+  }
+
+  return { kid: config.kid, alg: config.alg, privateKey, publicKey: createPublicKey(privateKey), activeFrom };
+}
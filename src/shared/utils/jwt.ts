@@ -1,19 +1,121 @@
-import jwt from 'jsonwebtoken';
-import type { JWTPayload } from '@vertical-vibing/shared-types';
+import { randomUUID, sign as signData, verify as verifySignature } from 'crypto';
+import type { JWTPayload, CompanyRole } from '@vertical-vibing/shared-types';
+import { createKeyRing, type JwtKeyRing, type JwtSigningAlgorithm } from './jwt-keys';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'development-secret-key-change-in-production';
-const JWT_EXPIRES_IN = '7d'; // 7 days
+/**
+ * Access token lifetime in seconds (default: 15 minutes)
+ *
+ * Access tokens are short-lived; clients renew them with a refresh token
+ */
+export const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.JWT_ACCESS_TOKEN_TTL_SECONDS) || 15 * 60;
+
+/**
+ * Longest impersonation token lifetime in seconds (1 hour)
+ */
+export const IMPERSONATION_MAX_TTL_SECONDS = 60 * 60;
+
+/**
+ * Longest lifetime of any access token the server issues
+ *
+ * Session and user-wide revocations are kept this long, so they outlive every token they match
+ */
+export const MAX_ACCESS_TOKEN_TTL_SECONDS = Math.max(ACCESS_TOKEN_TTL_SECONDS, IMPERSONATION_MAX_TTL_SECONDS);
+
+/**
+ * Access token payload
+ *
+ * Extends the shared JWT payload with the server-side session the token belongs to,
+ * a unique token ID (jti) used by the revocation denylist, and whether the user
+ * completed multi-factor authentication.
+ *
+ * Requests authenticated with a personal access token get the same shape
+ * (without session or jti) plus the token ID and its scopes.
+ *
+ * Service account tokens (client credentials) use the account ID as `userId`
+ * and carry `serviceAccountId` and the account's `companyId`.
+ *
+ * Impersonation tokens identify the impersonated user and carry the super
+ * admin acting as them (`impersonatorId`, `impersonatorEmail`) and the
+ * impersonation session (`impersonationId`).
+ *
+ * Session tokens of company members carry the company they act on
+ * (`activeCompanyId`, chosen with POST /api/auth/switch-company) and the
+ * member's role in it when the token was issued (`companyRole`).
+ */
+export type AccessTokenPayload = JWTPayload & {
+  sessionId?: string;
+  jti?: string;
+  mfa?: boolean;
+  personalAccessTokenId?: string;
+  scopes?: string[]; // Only set for personal access tokens
+  serviceAccountId?: string;
+  impersonationId?: string;
+  impersonatorId?: string;
+  impersonatorEmail?: string;
+  activeCompanyId?: string;
+  companyRole?: CompanyRole;
+};
+
+/**
+ * Purpose token payload
+ *
+ * Short-lived tokens for one step of a multi-step flow (e.g. MFA challenge).
+ * They carry a `purpose` claim and are never accepted as access tokens.
+ */
+export type PurposeTokenPayload = {
+  purpose: string;
+  userId: string;
+  iat?: number;
+  exp?: number;
+  [claim: string]: unknown;
+};
+
+/**
+ * Signing keys, loaded on first use (or by initializeJwtKeys at startup)
+ */
+let keyRing: JwtKeyRing | null = null;
+
+/**
+ * Load the JWT signing keys
+ *
+ * Called at startup so a missing or malformed key configuration stops the
+ * server instead of failing the first login.
+ *
+ * @throws Error if no key is configured outside development, or the configuration is malformed
+ */
+export function initializeJwtKeys(): void {
+  getKeyRing();
+}
+
+/**
+ * Get the signing keys
+ */
+export function getKeyRing(): JwtKeyRing {
+  if (!keyRing) {
+    keyRing = createKeyRing();
+  }
+  return keyRing;
+}
+
+/**
+ * Replace the signing keys (tests, key reload)
+ */
+export function setKeyRing(ring: JwtKeyRing): void {
+  keyRing = ring;
+}
 
 /**
  * Generate a JWT token for a user
  *
  * @param payload - Data to encode in the token
+ * @param expiresInSeconds - Token lifetime (default: access token TTL)
  * @returns JWT token string
  */
-export function generateToken(payload: Omit<JWTPayload, 'iat' | 'exp'>): string {
-  return jwt.sign(payload, JWT_SECRET, {
-    expiresIn: JWT_EXPIRES_IN,
-  });
+export function generateToken(
+  payload: Omit<AccessTokenPayload, 'iat' | 'exp' | 'jti'>,
+  expiresInSeconds: number = ACCESS_TOKEN_TTL_SECONDS
+): string {
+  return signJwt(payload, expiresInSeconds);
 }
 
 /**
@@ -23,18 +125,49 @@ export function generateToken(payload: Omit<JWTPayload, 'iat' | 'exp'>): string
  * @returns Decoded payload
  * @throws Error if token is invalid or expired
  */
-export function verifyToken(token: string): JWTPayload {
-  try {
-    return jwt.verify(token, JWT_SECRET) as JWTPayload;
-  } catch (error) {
-    if (error instanceof jwt.TokenExpiredError) {
-      throw new Error('Token expired');
-    }
-    if (error instanceof jwt.JsonWebTokenError) {
-      throw new Error('Invalid token');
-    }
-    throw error;
+export function verifyToken(token: string): AccessTokenPayload {
+  const payload = verifyJwt(token) as AccessTokenPayload;
+
+  // Purpose tokens (MFA challenge, ...) must not be usable as access tokens
+  if ((payload as { purpose?: unknown }).purpose !== undefined) {
+    throw new Error('Invalid token');
   }
+
+  return payload;
+}
+
+/**
+ * Generate a short-lived token for one step of a multi-step flow
+ *
+ * @param purpose - What the token may be used for (e.g. 'mfa_challenge')
+ * @param claims - Claims to encode (must include userId)
+ * @param ttlSeconds - Token lifetime
+ * @returns JWT token string
+ */
+export function generatePurposeToken(
+  purpose: string,
+  claims: { userId: string; [claim: string]: unknown },
+  ttlSeconds: number
+): string {
+  return signJwt({ ...claims, purpose }, ttlSeconds);
+}
+
+/**
+ * Verify a purpose token
+ *
+ * @param token - JWT token string
+ * @param purpose - Expected purpose
+ * @returns Decoded payload
+ * @throws Error if the token is invalid, expired or for another purpose
+ */
+export function verifyPurposeToken(token: string, purpose: string): PurposeTokenPayload {
+  const payload = verifyJwt(token) as PurposeTokenPayload;
+
+  if (payload.purpose !== purpose) {
+    throw new Error('Invalid token');
+  }
+
+  return payload;
 }
 
 /**
@@ -43,10 +176,83 @@ export function verifyToken(token: string): JWTPayload {
  * @param token - JWT token string
  * @returns Decoded payload or null
  */
-export function decodeToken(token: string): JWTPayload | null {
+export function decodeToken(token: string): AccessTokenPayload | null {
   try {
-    return jwt.decode(token) as JWTPayload;
+    return JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
   } catch {
     return null;
   }
 }
+
+/**
+ * Sign claims as a compact JWS with the current signing key
+ *
+ * Adds `iat`, `exp` and a unique `jti`; the header names the key (`kid`).
+ */
+function signJwt(claims: object, ttlSeconds: number): string {
+  const key = getKeyRing().getSigningKey();
+  const iat = Math.floor(Date.now() / 1000);
+
+  const header = encodeSegment({ alg: key.alg, typ: 'JWT', kid: key.kid });
+  const payload = encodeSegment({ ...claims, iat, exp: iat + ttlSeconds, jti: randomUUID() });
+  const signature = signData(digestFor(key.alg), Buffer.from(`${header}.${payload}`), key.privateKey);
+
+  return `${header}.${payload}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Verify a compact JWS signed by one of our keys and check its expiry
+ *
+ * @throws Error 'Invalid token' (malformed, unknown or retired key, bad signature) or 'Token expired'
+ */
+function verifyJwt(token: string): Record<string, unknown> {
+  const [headerSegment, payloadSegment, signatureSegment, ...rest] = token.split('.');
+  if (!headerSegment || !payloadSegment || !signatureSegment || rest.length > 0) {
+    throw new Error('Invalid token');
+  }
+
+  let header: { alg?: string; kid?: string };
+  let payload: Record<string, unknown>;
+  try {
+    header = JSON.parse(Buffer.from(headerSegment, 'base64url').toString('utf8'));
+    payload = JSON.parse(Buffer.from(payloadSegment, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid token');
+  }
+
+  // The header must name one of our keys and that key's algorithm (no alg confusion)
+  const key = header.kid ? getKeyRing().getVerificationKey(header.kid) : undefined;
+  if (!key || header.alg !== key.alg) {
+    throw new Error('Invalid token');
+  }
+
+  const valid = verifySignature(
+    digestFor(key.alg),
+    Buffer.from(`${headerSegment}.${payloadSegment}`),
+    key.publicKey,
+    Buffer.from(signatureSegment, 'base64url')
+  );
+  if (!valid || typeof payload !== 'object' || payload === null) {
+    throw new Error('Invalid token');
+  }
+
+  if (typeof payload.exp !== 'number' || Math.floor(Date.now() / 1000) >= payload.exp) {
+    throw new Error('Token expired');
+  }
+
+  return payload;
+}
+
+/**
+ * Digest passed to node:crypto for an algorithm (Ed25519 hashes internally)
+ */
+function digestFor(alg: JwtSigningAlgorithm): string | null {
+  return alg === 'RS256' ? 'sha256' : null;
+}
+
+/**
+ * Base64url-encode a JSON header or payload
+ */
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
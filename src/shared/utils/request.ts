@@ -0,0 +1,26 @@
+import type { Request } from 'express';
+
+/**
+ * Client information extracted from an HTTP request
+ */
+export interface ClientInfo {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Get the caller's IP address and user agent
+ *
+ * Honours the first X-Forwarded-For entry when running behind a proxy
+ *
+ * @param req - Express request
+ * @returns Client IP and user agent (if available)
+ */
+export function getClientInfo(req: Request): ClientInfo {
+  const forwardedFor = req.headers['x-forwarded-for'] as string | undefined;
+
+  return {
+    ipAddress: forwardedFor?.split(',')[0].trim() || req.socket?.remoteAddress,
+    userAgent: req.headers['user-agent'],
+  };
+}
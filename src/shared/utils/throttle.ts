@@ -0,0 +1,123 @@
+/**
+ * Throttle Configuration
+ */
+export interface ThrottleOptions {
+  limit: number; // Maximum attempts per window
+  windowMs: number; // Sliding window length
+  cooldownMs?: number; // Minimum time between two attempts
+}
+
+/**
+ * Throttle Result
+ */
+export interface ThrottleResult {
+  allowed: boolean;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+/**
+ * In-Memory Throttle
+ *
+ * Sliding-window limiter keyed by an arbitrary string (user ID, email, IP).
+ * Used for sensitive actions such as resending emails.
+ * In production, use Redis for distributed throttling
+ */
+export class Throttle {
+  private attempts: Map<string, number[]> = new Map();
+  private cleanupInterval: NodeJS.Timeout;
+
+  constructor(private options: ThrottleOptions) {
+    // Clean up stale keys every minute
+    this.cleanupInterval = setInterval(() => {
+      this.cleanup();
+    }, 60 * 1000);
+    this.cleanupInterval.unref();
+  }
+
+  /**
+   * Record an attempt if allowed
+   *
+   * @param key - Throttle key
+   * @returns Whether the attempt is allowed and, if not, when to retry
+   */
+  attempt(key: string): ThrottleResult {
+    const result = this.check(key);
+    if (!result.allowed) {
+      return result;
+    }
+
+    const now = Date.now();
+    const recent = this.getRecent(key, now);
+    recent.push(now);
+    this.attempts.set(key, recent);
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  /**
+   * Check whether an attempt would be allowed, without recording one
+   *
+   * @param key - Throttle key
+   * @returns Whether an attempt is allowed now and, if not, when to retry
+   */
+  check(key: string): ThrottleResult {
+    const now = Date.now();
+    const recent = this.getRecent(key, now);
+
+    const last = recent[recent.length - 1];
+    if (this.options.cooldownMs && last !== undefined && now - last < this.options.cooldownMs) {
+      return { allowed: false, retryAfterSeconds: Math.ceil((last + this.options.cooldownMs - now) / 1000) };
+    }
+
+    if (recent.length >= this.options.limit) {
+      return { allowed: false, retryAfterSeconds: Math.ceil((recent[0] + this.options.windowMs - now) / 1000) };
+    }
+
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  /**
+   * Forget all attempts for a key
+   */
+  reset(key: string): void {
+    this.attempts.delete(key);
+  }
+
+  /**
+   * Get attempts inside the current window
+   */
+  private getRecent(key: string, now: number): number[] {
+    return (this.attempts.get(key) ?? []).filter((time) => now - time < this.options.windowMs);
+  }
+
+  /**
+   * Clean up keys with no attempts in the window
+   */
+  private cleanup(): void {
+    const now = Date.now();
+    for (const key of this.attempts.keys()) {
+      if (this.getRecent(key, now).length === 0) {
+        this.attempts.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Cleanup on shutdown
+   */
+  destroy(): void {
+    clearInterval(this.cleanupInterval);
+    this.attempts.clear();
+  }
+}
+
+/**
+ * Throttled Error
+ *
+ * Thrown by services when a throttled action is attempted too often
+ */
+export class ThrottledError extends Error {
+  constructor(message: string, public readonly retryAfterSeconds: number) {
+    super(message);
+    this.name = 'ThrottledError';
+  }
+}
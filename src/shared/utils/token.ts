@@ -0,0 +1,23 @@
+import { randomBytes, createHash } from 'crypto';
+
+/**
+ * Generate an opaque, URL-safe random token
+ *
+ * @param bytes - Number of random bytes (32 bytes = 43 base64url characters)
+ * @returns Random token string
+ */
+export function generateSecureToken(bytes = 32): string {
+  return randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * Hash a token for storage
+ *
+ * Tokens are high-entropy, so a fast SHA-256 digest is sufficient (no salt needed)
+ *
+ * @param token - Plain token
+ * @returns SHA-256 hex digest
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
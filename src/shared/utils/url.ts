@@ -0,0 +1,29 @@
+/**
+ * Build a link to a frontend page (used in emails)
+ *
+ * @param path - Frontend path, e.g. '/reset-password'
+ * @param params - Query parameters
+ * @returns Absolute URL based on FRONTEND_URL
+ */
+export function buildFrontendUrl(path: string, params: Record<string, string> = {}): string {
+  const baseUrl = process.env.FRONTEND_URL || 'http://localhost:3001';
+  const url = new URL(path, baseUrl);
+
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+
+  return url.toString();
+}
+
+/**
+ * Build a public URL of this API (given to identity providers, e.g. SAML ACS)
+ *
+ * @param path - API path, e.g. '/api/sso/saml/acme/acs'
+ * @returns Absolute URL based on API_URL
+ */
+export function buildApiUrl(path: string): string {
+  const baseUrl = process.env.API_URL || `http://localhost:${process.env.PORT || 3001}`;
+
+  return new URL(path, baseUrl).toString();
+}
@@ -0,0 +1,389 @@
+import { createHash, createPublicKey, verify as verifySignature, type JsonWebKey } from 'crypto';
+
+/**
+ * WebAuthn (passkey) ceremony verification
+ *
+ * Implements the relying party checks of the WebAuthn Level 2 spec for
+ * registration (attestation "none") and authentication. Only the COSE
+ * algorithms offered in our options are accepted: ES256, EdDSA and RS256.
+ */
+
+/**
+ * COSE algorithm identifiers we accept
+ */
+export const SUPPORTED_COSE_ALGORITHMS = [-7, -8, -257] as const; // ES256, EdDSA, RS256
+
+/**
+ * Expected relying party values for a ceremony
+ */
+export interface WebAuthnExpectations {
+  challenge: string; // base64url
+  origin: string;
+  rpId: string;
+}
+
+/**
+ * Options for navigator.credentials.create() (binary fields base64url-encoded)
+ */
+export interface CreationOptionsJSON {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  timeout: number;
+  attestation: 'none';
+  authenticatorSelection: { residentKey: 'required'; userVerification: 'required' };
+  excludeCredentials: { type: 'public-key'; id: string; transports?: string[] }[];
+}
+
+/**
+ * Options for navigator.credentials.get() (binary fields base64url-encoded)
+ */
+export interface RequestOptionsJSON {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  userVerification: 'required';
+  allowCredentials: { type: 'public-key'; id: string }[];
+}
+
+/**
+ * Registration response sent by the browser (base64url-encoded fields)
+ */
+export interface RegistrationResponseJSON {
+  id: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+/**
+ * Authentication response sent by the browser (base64url-encoded fields)
+ */
+export interface AuthenticationResponseJSON {
+  id: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+/**
+ * Verified credential from a registration ceremony
+ */
+export interface VerifiedRegistration {
+  credentialId: string; // base64url
+  publicKeyJwk: JsonWebKey;
+  algorithm: number;
+  signCount: number;
+}
+
+/**
+ * Verify a registration (create) ceremony
+ *
+ * @throws Error('Invalid passkey response') if any check fails
+ */
+export function verifyRegistrationResponse(
+  credential: RegistrationResponseJSON,
+  expected: WebAuthnExpectations
+): VerifiedRegistration {
+  verifyClientData(credential.response.clientDataJSON, 'webauthn.create', expected);
+
+  const attestation = decodeCbor(fromBase64Url(credential.response.attestationObject));
+  const authDataBytes = attestation instanceof Map ? attestation.get('authData') : undefined;
+  if (!(authDataBytes instanceof Uint8Array)) {
+    throw new Error('Invalid passkey response');
+  }
+
+  const authData = parseAuthenticatorData(Buffer.from(authDataBytes), expected.rpId);
+  if (!authData.credentialId || !authData.credentialPublicKey) {
+    throw new Error('Invalid passkey response');
+  }
+
+  const credentialId = toBase64Url(authData.credentialId);
+  if (credentialId !== credential.id) {
+    throw new Error('Invalid passkey response');
+  }
+
+  const { jwk, algorithm } = coseKeyToJwk(authData.credentialPublicKey);
+  try {
+    createPublicKey({ key: jwk, format: 'jwk' }); // Malformed coordinates or modulus
+  } catch {
+    throw new Error('Invalid passkey response');
+  }
+
+  return {
+    credentialId,
+    publicKeyJwk: jwk,
+    algorithm,
+    signCount: authData.signCount,
+  };
+}
+
+/**
+ * Verify an authentication (get) ceremony
+ *
+ * @param credential - Browser response
+ * @param expected - Expected challenge, origin and RP ID
+ * @param publicKeyJwk - Stored public key of the credential
+ * @param algorithm - Stored COSE algorithm of the credential
+ * @returns New signature counter reported by the authenticator
+ * @throws Error('Invalid passkey response') if any check fails
+ */
+export function verifyAuthenticationResponse(
+  credential: AuthenticationResponseJSON,
+  expected: WebAuthnExpectations,
+  publicKeyJwk: JsonWebKey,
+  algorithm: number
+): { signCount: number } {
+  const clientDataJSON = fromBase64Url(credential.response.clientDataJSON);
+  verifyClientData(credential.response.clientDataJSON, 'webauthn.get', expected);
+
+  const authDataBytes = fromBase64Url(credential.response.authenticatorData);
+  const authData = parseAuthenticatorData(authDataBytes, expected.rpId);
+
+  // Signature covers authenticatorData || SHA-256(clientDataJSON)
+  const signedData = Buffer.concat([authDataBytes, createHash('sha256').update(clientDataJSON).digest()]);
+  const key = createPublicKey({ key: publicKeyJwk, format: 'jwk' });
+  const signature = fromBase64Url(credential.response.signature);
+
+  const valid = algorithm === -8
+    ? verifySignature(null, signedData, key, signature)
+    : verifySignature('sha256', signedData, key, signature);
+
+  if (!valid) {
+    throw new Error('Invalid passkey response');
+  }
+
+  return { signCount: authData.signCount };
+}
+
+/**
+ * Encode bytes as base64url
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('base64url');
+}
+
+/**
+ * Decode a base64url value
+ */
+export function fromBase64Url(value: string): Buffer {
+  return Buffer.from(value, 'base64url');
+}
+
+/**
+ * Check type, challenge and origin of clientDataJSON
+ */
+function verifyClientData(clientDataJSON: string, type: string, expected: WebAuthnExpectations): void {
+  let clientData: { type?: string; challenge?: string; origin?: string };
+  try {
+    clientData = JSON.parse(fromBase64Url(clientDataJSON).toString('utf8'));
+  } catch {
+    throw new Error('Invalid passkey response');
+  }
+
+  if (
+    clientData.type !== type ||
+    clientData.challenge !== expected.challenge ||
+    clientData.origin !== expected.origin
+  ) {
+    throw new Error('Invalid passkey response');
+  }
+}
+
+/**
+ * Parsed authenticator data
+ */
+interface AuthenticatorData {
+  signCount: number;
+  credentialId?: Buffer;
+  credentialPublicKey?: Map<number, unknown>;
+}
+
+/**
+ * Parse authenticatorData and check RP ID hash and user presence/verification flags
+ */
+function parseAuthenticatorData(authData: Buffer, rpId: string): AuthenticatorData {
+  if (authData.length < 37) {
+    throw new Error('Invalid passkey response');
+  }
+
+  const rpIdHash = authData.subarray(0, 32);
+  if (!rpIdHash.equals(createHash('sha256').update(rpId).digest())) {
+    throw new Error('Invalid passkey response');
+  }
+
+  const flags = authData[32];
+  const userPresent = (flags & 0x01) !== 0;
+  const userVerified = (flags & 0x04) !== 0;
+  const hasAttestedCredential = (flags & 0x40) !== 0;
+
+  if (!userPresent || !userVerified) {
+    throw new Error('Invalid passkey response');
+  }
+
+  const signCount = authData.readUInt32BE(33);
+  if (!hasAttestedCredential) {
+    return { signCount };
+  }
+
+  // Attested credential data: AAGUID (16) | credential ID length (2) | credential ID | COSE key
+  if (authData.length < 55) {
+    throw new Error('Invalid passkey response');
+  }
+  const credentialIdLength = authData.readUInt16BE(53);
+  if (authData.length < 55 + credentialIdLength) {
+    throw new Error('Invalid passkey response');
+  }
+  const credentialId = authData.subarray(55, 55 + credentialIdLength);
+  const { value: credentialPublicKey } = decodeCborItem(authData, 55 + credentialIdLength);
+
+  if (!(credentialPublicKey instanceof Map)) {
+    throw new Error('Invalid passkey response');
+  }
+
+  return {
+    signCount,
+    credentialId: Buffer.from(credentialId),
+    credentialPublicKey: credentialPublicKey as Map<number, unknown>,
+  };
+}
+
+/**
+ * Convert a COSE public key to a JWK node:crypto can import
+ */
+function coseKeyToJwk(coseKey: Map<number, unknown>): { jwk: JsonWebKey; algorithm: number } {
+  const kty = coseKey.get(1);
+  const algorithm = coseKey.get(3) as number;
+  const b64 = (label: number) => {
+    const value = coseKey.get(label);
+    if (!(value instanceof Uint8Array)) {
+      throw new Error('Invalid passkey response');
+    }
+    return toBase64Url(value);
+  };
+
+  if (!SUPPORTED_COSE_ALGORITHMS.includes(algorithm as (typeof SUPPORTED_COSE_ALGORITHMS)[number])) {
+    throw new Error('Invalid passkey response');
+  }
+
+  if (kty === 2 && algorithm === -7 && coseKey.get(-1) === 1) {
+    return { jwk: { kty: 'EC', crv: 'P-256', x: b64(-2), y: b64(-3) }, algorithm };
+  }
+
+  if (kty === 1 && algorithm === -8 && coseKey.get(-1) === 6) {
+    return { jwk: { kty: 'OKP', crv: 'Ed25519', x: b64(-2) }, algorithm };
+  }
+
+  if (kty === 3 && algorithm === -257) {
+    return { jwk: { kty: 'RSA', n: b64(-1), e: b64(-2) }, algorithm };
+  }
+
+  throw new Error('Invalid passkey response');
+}
+
+/**
+ * Decode a single CBOR item (the subset used by WebAuthn)
+ */
+export function decodeCbor(buffer: Buffer): unknown {
+  return decodeCborItem(buffer, 0).value;
+}
+
+/**
+ * Decode the CBOR item at an offset
+ *
+ * Supports unsigned/negative integers, byte and text strings, arrays, maps,
+ * booleans and null. Indefinite lengths are not used by WebAuthn. Truncated
+ * input is rejected before any read past the end of the buffer.
+ */
+function decodeCborItem(buffer: Buffer, offset: number): { value: unknown; offset: number } {
+  if (offset >= buffer.length) {
+    throw new Error('Invalid passkey response');
+  }
+
+  const initial = buffer[offset];
+  const majorType = initial >> 5;
+  const additional = initial & 0x1f;
+  let position = offset + 1;
+
+  const ensureAvailable = (bytes: number): void => {
+    if (position + bytes > buffer.length) {
+      throw new Error('Invalid passkey response');
+    }
+  };
+
+  const readLength = (): number => {
+    if (additional < 24) return additional;
+    if (additional === 24) {
+      ensureAvailable(1);
+      return buffer.readUInt8(position++);
+    }
+    if (additional === 25) {
+      ensureAvailable(2);
+      const length = buffer.readUInt16BE(position);
+      position += 2;
+      return length;
+    }
+    if (additional === 26) {
+      ensureAvailable(4);
+      const length = buffer.readUInt32BE(position);
+      position += 4;
+      return length;
+    }
+    throw new Error('Invalid passkey response');
+  };
+
+  switch (majorType) {
+    case 0:
+      return { value: readLength(), offset: position };
+    case 1:
+      return { value: -1 - readLength(), offset: position };
+    case 2: {
+      const length = readLength();
+      ensureAvailable(length);
+      return { value: new Uint8Array(buffer.subarray(position, position + length)), offset: position + length };
+    }
+    case 3: {
+      const length = readLength();
+      ensureAvailable(length);
+      return { value: buffer.toString('utf8', position, position + length), offset: position + length };
+    }
+    case 4: {
+      const length = readLength();
+      ensureAvailable(length); // At least one byte per item
+      const items: unknown[] = [];
+      for (let i = 0; i < length; i++) {
+        const item = decodeCborItem(buffer, position);
+        items.push(item.value);
+        position = item.offset;
+      }
+      return { value: items, offset: position };
+    }
+    case 5: {
+      const length = readLength();
+      ensureAvailable(length * 2); // At least one byte per key and value
+      const map = new Map<unknown, unknown>();
+      for (let i = 0; i < length; i++) {
+        const key = decodeCborItem(buffer, position);
+        const value = decodeCborItem(buffer, key.offset);
+        map.set(key.value, value.value);
+        position = value.offset;
+      }
+      return { value: map, offset: position };
+    }
+    case 7:
+      if (additional === 20) return { value: false, offset: position };
+      if (additional === 21) return { value: true, offset: position };
+      if (additional === 22) return { value: null, offset: position };
+      throw new Error('Invalid passkey response');
+    default:
+      throw new Error('Invalid passkey response');
+  }
+}
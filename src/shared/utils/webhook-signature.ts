@@ -0,0 +1,60 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Maximum age (and clock skew) of a signed webhook (5 minutes)
+ */
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Svix signature headers (svix-id, svix-timestamp, svix-signature)
+ */
+export interface SvixHeaders {
+  id?: string;
+  timestamp?: string;
+  signature?: string;
+}
+
+/**
+ * Verify a Svix-style webhook signature (used by Clerk, among others)
+ *
+ * The signature is Base64(HMAC-SHA256(secret, `${id}.${timestamp}.${body}`)).
+ * The header holds space-separated `v1,<signature>` entries (one per active secret).
+ *
+ * @param rawBody - Request body exactly as received
+ * @param headers - Signature headers
+ * @param secret - Endpoint signing secret (`whsec_<base64>`)
+ * @param now - Current time (for tests)
+ * @throws Error if the signature is missing, invalid or outside the tolerance window
+ */
+export function verifySvixSignature(
+  rawBody: Buffer | string,
+  headers: SvixHeaders,
+  secret: string,
+  now: Date = new Date()
+): void {
+  const { id, timestamp, signature } = headers;
+  if (!id || !timestamp || !signature) {
+    throw new Error('Invalid webhook signature');
+  }
+
+  const sentAt = Number(timestamp);
+  if (!Number.isInteger(sentAt) || Math.abs(now.getTime() / 1000 - sentAt) > WEBHOOK_TOLERANCE_SECONDS) {
+    throw new Error('Invalid webhook signature');
+  }
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+  const expected = createHmac('sha256', key)
+    .update(`${id}.${timestamp}.`)
+    .update(rawBody)
+    .digest();
+
+  const valid = signature.split(' ').some((entry) => {
+    const [version, value] = entry.split(',');
+    const candidate = Buffer.from(value || '', 'base64');
+    return version === 'v1' && candidate.length === expected.length && timingSafeEqual(candidate, expected);
+  });
+
+  if (!valid) {
+    throw new Error('Invalid webhook signature');
+  }
+}